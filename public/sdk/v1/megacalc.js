@@ -0,0 +1,177 @@
+/**
+ * MyCalculating.com widget SDK (embed protocol version 1).
+ *
+ *   <div id="emi"></div>
+ *   <script src="https://mycalculating.com/sdk/v1/megacalc.js"></script>
+ *   <script>
+ *     var widget = MegaCalc.mount(document.getElementById('emi'), {
+ *       slug: 'loan-emi-calculator',
+ *       inputs: { loanAmount: 250000 }
+ *     });
+ *     widget.on('result', function (result) { console.log(result.outputs); });
+ *     widget.setInputs({ annualInterestRate: 6.5, loanTenureYears: 30 });
+ *   </script>
+ *
+ * Message names and shapes mirror src/lib/embed.ts; keep the two in step.
+ */
+(function (window, document) {
+  'use strict';
+
+  if (window.MegaCalc) {
+    return;
+  }
+
+  var EMBED_MESSAGE_SOURCE = 'mycalculating-embed';
+  var SDK_MESSAGE_SOURCE = 'mycalculating-sdk';
+  var PROTOCOL_VERSION = 1;
+  var EVENTS = ['ready', 'result', 'invalid', 'resize'];
+
+  // Calculators are served from wherever this script was loaded.
+  var script = document.currentScript;
+  var calculatorOrigin = script && script.src ? new URL(script.src).origin : 'https://mycalculating.com';
+
+  function buildUrl(options) {
+    var path = options.category
+      ? '/category/' + encodeURIComponent(options.category) + '/' + encodeURIComponent(options.slug)
+      : '/embed/' + encodeURIComponent(options.slug);
+    var params = new URLSearchParams({ embed: 'true', origin: window.location.origin });
+
+    if (options.theme === 'dark' || options.theme === 'custom') {
+      params.set('theme', options.theme);
+    }
+    if (options.theme === 'custom') {
+      params.set('fg', options.foreground || '');
+      params.set('bg', options.background || '');
+    }
+    if (options.compact) {
+      params.set('layout', 'compact');
+    }
+    var inputs = options.inputs || {};
+    Object.keys(inputs).forEach(function (name) {
+      params.set('input.' + name, String(inputs[name]));
+    });
+    if (options.hide && options.hide.length) {
+      params.set('hide', options.hide.join(','));
+    }
+    if (options.lock && options.lock.length) {
+      params.set('lock', options.lock.join(','));
+    }
+    return calculatorOrigin + path + '?' + params.toString();
+  }
+
+  /**
+   * Mounts a calculator into `element`.
+   *
+   * options.slug      calculator slug, e.g. 'bmi-calculator' (required)
+   * options.category  category slug, only needed for slugs used in several categories
+   * options.inputs    initial input values
+   * options.theme     'light' (default), 'dark' or 'custom' with options.foreground/background palette names
+   * options.compact   inputs and results only
+   * options.hide      names of prefilled inputs to hide
+   * options.lock      names of prefilled inputs to make read-only
+   * options.height    initial iframe height in pixels (default 600)
+   */
+  function mount(element, options) {
+    if (!element || !options || !options.slug) {
+      throw new Error('MegaCalc.mount(element, { slug }) needs an element and a calculator slug.');
+    }
+
+    var listeners = {};
+    EVENTS.forEach(function (name) {
+      listeners[name] = [];
+    });
+    var ready = false;
+    var pendingInputs = null;
+
+    var iframe = document.createElement('iframe');
+    iframe.src = buildUrl(options);
+    iframe.title = options.slug.replace(/-/g, ' ') + ' by MyCalculating.com';
+    iframe.width = '100%';
+    iframe.height = String(options.height || 600);
+    iframe.style.border = '0';
+    iframe.loading = 'lazy';
+    element.appendChild(iframe);
+
+    function emit(name, payload) {
+      listeners[name].slice().forEach(function (callback) {
+        callback(payload);
+      });
+    }
+
+    function send(inputs) {
+      iframe.contentWindow.postMessage(
+        { source: SDK_MESSAGE_SOURCE, version: PROTOCOL_VERSION, type: 'setInputs', inputs: inputs },
+        calculatorOrigin
+      );
+    }
+
+    function handleMessage(event) {
+      var data = event.data;
+      // Only trust our own origin, this widget's iframe, and protocol versions we understand.
+      if (event.origin !== calculatorOrigin || event.source !== iframe.contentWindow) {
+        return;
+      }
+      if (!data || data.source !== EMBED_MESSAGE_SOURCE || data.version !== PROTOCOL_VERSION) {
+        return;
+      }
+
+      if (data.type === 'resize') {
+        iframe.style.height = data.height + 'px';
+        emit('resize', { height: data.height });
+      } else if (data.type === 'ready') {
+        ready = true;
+        if (pendingInputs) {
+          send(pendingInputs);
+          pendingInputs = null;
+        }
+        emit('ready', { slug: data.slug });
+      } else if (data.type === 'result') {
+        emit('result', { slug: data.slug, inputs: data.inputs, outputs: data.outputs });
+      } else if (data.type === 'invalid') {
+        emit('invalid', { slug: data.slug, issues: data.issues });
+      }
+    }
+
+    window.addEventListener('message', handleMessage);
+
+    return {
+      iframe: iframe,
+
+      /** Sets input values and recalculates. Calls made before the calculator is ready are queued. */
+      setInputs: function (inputs) {
+        if (ready) {
+          send(inputs);
+        } else {
+          pendingInputs = Object.assign(pendingInputs || {}, inputs);
+        }
+        return this;
+      },
+
+      /** Subscribes to 'ready', 'result', 'invalid' or 'resize'. */
+      on: function (name, callback) {
+        if (!listeners[name]) {
+          throw new Error('Unknown MegaCalc event "' + name + '". Expected one of: ' + EVENTS.join(', ') + '.');
+        }
+        listeners[name].push(callback);
+        return this;
+      },
+
+      off: function (name, callback) {
+        if (listeners[name]) {
+          listeners[name] = listeners[name].filter(function (existing) {
+            return existing !== callback;
+          });
+        }
+        return this;
+      },
+
+      /** Removes the iframe and stops listening for its messages. */
+      destroy: function () {
+        window.removeEventListener('message', handleMessage);
+        iframe.remove();
+      },
+    };
+  }
+
+  window.MegaCalc = { version: PROTOCOL_VERSION, mount: mount };
+})(window, document);
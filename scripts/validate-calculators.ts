@@ -0,0 +1,116 @@
+/**
+ * Build-time consistency check for the calculator registry in src/lib/calculators.ts.
+ *
+ * Fails (exit code 1) when:
+ * - two calculators share an id, or the same slug within a category (same page URL)
+ * - a calculator references a category missing from src/lib/categories.ts
+ * - a calculator's component module does not exist
+ * - a component file under src/components/calculators is not used by any calculator
+ * - an engine definition in src/lib/engine is not registered, or is registered twice
+ * - a popular conversion pair names an unknown unit or units of different dimensions
+ *
+ * Run with `npm run validate:calculators`; it also runs before `npm run build`.
+ */
+import { existsSync, readdirSync } from 'fs';
+import { join, relative } from 'path';
+
+import { calculators, getCalculatorComponentPath, popularConversionPairs } from '../src/lib/calculators';
+import { categories } from '../src/lib/categories';
+import { calculatorDefinitions } from '../src/lib/engine';
+import { getUnitDimension } from '../src/lib/units';
+
+const componentsRoot = join(__dirname, '..', 'src', 'components', 'calculators');
+const componentExtensions = ['.tsx', '.ts'];
+
+function listComponentModules(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listComponentModules(fullPath);
+    }
+    const extension = componentExtensions.find((ext) => entry.name.endsWith(ext));
+    if (!extension) {
+      return [];
+    }
+    return [relative(componentsRoot, fullPath).slice(0, -extension.length).split('\\').join('/')];
+  });
+}
+
+function findDuplicates<T>(values: T[]): T[] {
+  const seen = new Set<T>();
+  const duplicates = new Set<T>();
+  for (const value of values) {
+    if (seen.has(value)) {
+      duplicates.add(value);
+    }
+    seen.add(value);
+  }
+  return [...duplicates];
+}
+
+function validate(): string[] {
+  const errors: string[] = [];
+  const categorySlugs = new Set(categories.map((c) => c.slug));
+
+  for (const id of findDuplicates(calculators.map((c) => c.id))) {
+    const names = calculators.filter((c) => c.id === id).map((c) => `${c.category}/${c.slug}`);
+    errors.push(`Duplicate id ${id}: ${names.join(', ')}`);
+  }
+
+  for (const path of findDuplicates(calculators.map((c) => `${c.category}/${c.slug}`))) {
+    errors.push(`Duplicate slug: /category/${path} is registered more than once`);
+  }
+
+  const usedModules = new Set<string>();
+  for (const calculator of calculators) {
+    const label = `${calculator.category}/${calculator.slug}`;
+    if (!categorySlugs.has(calculator.category)) {
+      errors.push(`Unknown category "${calculator.category}" for ${label}`);
+    }
+
+    const componentPath = getCalculatorComponentPath(calculator);
+    usedModules.add(componentPath);
+    const hasModule = componentExtensions.some((ext) => existsSync(join(componentsRoot, componentPath + ext)));
+    if (!hasModule) {
+      errors.push(`Unmapped slug ${label}: no component at src/components/calculators/${componentPath}.tsx`);
+    }
+  }
+
+  for (const modulePath of listComponentModules(componentsRoot)) {
+    if (!usedModules.has(modulePath)) {
+      errors.push(`Orphan component src/components/calculators/${modulePath} is not used by any calculator`);
+    }
+  }
+
+  const registeredPaths = new Set(calculators.map((c) => `${c.category}/${c.slug}`));
+  const definitionPaths = calculatorDefinitions.map((d) => `${d.category}/${d.slug}`);
+  for (const path of definitionPaths) {
+    if (!registeredPaths.has(path)) {
+      errors.push(`Engine definition ${path} does not match any registered calculator`);
+    }
+  }
+  for (const path of findDuplicates(definitionPaths)) {
+    errors.push(`Engine definition ${path} is listed more than once`);
+  }
+
+  for (const { from, to } of popularConversionPairs) {
+    const fromDimension = getUnitDimension(from);
+    if (!fromDimension || fromDimension !== getUnitDimension(to)) {
+      errors.push(`Popular conversion pair ${from} -> ${to} does not name two units of the same dimension`);
+    }
+  }
+
+  return errors;
+}
+
+const errors = validate();
+
+if (errors.length > 0) {
+  console.error(`Calculator registry check failed with ${errors.length} error(s):`);
+  for (const error of errors) {
+    console.error(`  - ${error}`);
+  }
+  process.exit(1);
+}
+
+console.log(`Calculator registry OK: ${calculators.length} calculators in ${categories.length} categories.`);
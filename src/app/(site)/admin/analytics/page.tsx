@@ -0,0 +1,20 @@
+import type { Metadata } from 'next';
+import { AdminGate } from '@/components/admin/admin-gate';
+import { AnalyticsDashboard } from '@/components/admin/analytics-dashboard';
+
+export const metadata: Metadata = {
+  title: 'Analytics | Mycalculating.com Admin',
+  robots: { index: false, follow: false },
+};
+
+export default function AdminAnalyticsPage() {
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-background p-4 sm:p-8">
+      <div className="w-full max-w-6xl">
+        <AdminGate>
+          <AnalyticsDashboard />
+        </AdminGate>
+      </div>
+    </div>
+  );
+}
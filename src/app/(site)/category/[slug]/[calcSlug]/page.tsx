@@ -0,0 +1,117 @@
+
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { categories } from '@/lib/categories';
+import { calculators, getCalculatorComponentPath, getCalculatorComponentProps } from '@/lib/calculators';
+import { CategoryIcon } from '@/components/category-icon';
+import { CalculatorRenderer } from '@/components/calculator-renderer';
+import { EmbedWidget } from '@/components/embed-widget';
+import { CalculatorHistory } from '@/components/calculator-history';
+import { CalculatorComparison } from '@/components/calculator-comparison';
+import { CalculatorGoalSeek } from '@/components/calculator-goal-seek';
+import { CalculatorSensitivity } from '@/components/calculator-sensitivity';
+import { CalculatorBatch } from '@/components/calculator-batch';
+import { CalculatorExport, CalculatorPrintHeader } from '@/components/calculator-export';
+import { getOEmbedUrl } from '@/lib/embed';
+import { generateCalculatorSchema, generateFAQSchema, generateHowToSchema } from '@/lib/schema-generator';
+
+type CalculatorPageProps = { params: Promise<{ slug: string; calcSlug: string }> };
+
+export async function generateMetadata({ params }: CalculatorPageProps): Promise<Metadata> {
+  const { slug, calcSlug } = await params;
+  const calculator = calculators.find((c) => c.slug === calcSlug && c.category === slug);
+  if (!calculator) {
+    return {};
+  }
+  // oEmbed discovery, so pasting the page URL into a CMS or chat tool shows the calculator.
+  return {
+    alternates: {
+      types: {
+        'application/json+oembed': [{ url: getOEmbedUrl(slug, calcSlug, 'json'), title: calculator.name }],
+        'text/xml+oembed': [{ url: getOEmbedUrl(slug, calcSlug, 'xml'), title: calculator.name }],
+      },
+    },
+  };
+}
+
+export default async function CalculatorPage({ params }: CalculatorPageProps) {
+  const { slug, calcSlug } = await params;
+  const category = categories.find((c) => c.slug === slug);
+  const calculator = calculators.find((c) => c.slug === calcSlug && c.category === slug);
+
+  if (!category || !calculator) {
+    notFound();
+  }
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-secondary/50">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(generateCalculatorSchema(calculator, category))
+        }}
+      />
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(generateFAQSchema(calculator))
+        }}
+      />
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(generateHowToSchema(calculator))
+        }}
+      />
+      <div className="w-full max-w-4xl bg-background p-4 sm:p-8 flex-1">
+        <CalculatorPrintHeader calculatorName={calculator.name} categorySlug={category.slug} calculatorSlug={calculator.slug} />
+        <div className="mb-8 print:hidden">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href={`/category/${category.slug}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to {category.name}
+            </Link>
+          </Button>
+          <div className="flex items-center gap-4">
+             <CategoryIcon name={category.Icon} className="h-10 w-10 text-primary flex-shrink-0" strokeWidth={1.5} />
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">
+                {calculator.name}
+              </h1>
+              <p className="text-muted-foreground mt-1">{calculator.description}</p>
+            </div>
+          </div>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <CalculatorHistory categorySlug={category.slug} calculatorSlug={calculator.slug} />
+            <CalculatorExport calculatorSlug={calculator.slug} />
+          </div>
+        </div>
+
+        {/* Exports and the print stylesheet work on what the calculator renders in here. */}
+        <div data-calculator-export>
+          <CalculatorRenderer
+            componentPath={getCalculatorComponentPath(calculator)}
+            componentProps={getCalculatorComponentProps(calculator)}
+          />
+        </div>
+
+        <div className="print:hidden">
+          <CalculatorComparison categorySlug={category.slug} calculatorSlug={calculator.slug} />
+          <CalculatorGoalSeek categorySlug={category.slug} calculatorSlug={calculator.slug} />
+          <CalculatorSensitivity categorySlug={category.slug} calculatorSlug={calculator.slug} />
+          <CalculatorBatch categorySlug={category.slug} calculatorSlug={calculator.slug} />
+
+          {/* Embed Widget Section */}
+          <EmbedWidget categorySlug={category.slug} calculatorSlug={calculator.slug} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+    
\ No newline at end of file
@@ -8,6 +8,7 @@ import { categories } from '@/lib/categories';
 import { CategoryIcon } from '@/components/category-icon';
 import { calculators } from '@/lib/calculators';
 import { CategorySearch } from '@/components/category-search';
+import { QuickConvert } from '@/components/quick-convert';
 import { generateCategorySchema } from '@/lib/schema-generator';
 
 export default async function CategoryPage({ params }: { params: Promise<{ slug: string }> }) {
@@ -49,10 +50,13 @@ export default async function CategoryPage({ params }: { params: Promise<{ slug:
           </div>
         </div>
         
+        {category.slug === 'conversions' && <QuickConvert />}
+
         <CategorySearch
           calculators={categoryCalculators}
           categoryName={category.name}
           categorySlug={category.slug}
+          subcategories={category.subcategories}
         />
 
       </div>
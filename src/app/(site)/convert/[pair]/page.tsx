@@ -0,0 +1,76 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { CategoryIcon } from '@/components/category-icon';
+import UnitConverter from '@/components/calculators/conversions/unit-converter';
+import { categories } from '@/lib/categories';
+import { getConversionHref } from '@/lib/calculators';
+import { getUnitDimension } from '@/lib/units';
+import { parseConversionPair } from '@/lib/units/parse';
+
+type ConvertPageProps = { params: Promise<{ pair: string }> };
+
+export async function generateMetadata({ params }: ConvertPageProps): Promise<Metadata> {
+  const { pair } = await params;
+  const units = parseConversionPair(pair);
+  if (!units) {
+    return {};
+  }
+  const { from, to } = units;
+  return {
+    title: `${from.plural} to ${to.plural} Converter (${from.symbol} to ${to.symbol}) | Mycalculating.com`,
+    description: `Convert ${from.plural} to ${to.plural} with the formula, a worked explanation and a conversion table.`,
+  };
+}
+
+/**
+ * Converter for any pair of units in the registry, at /convert/<from>-to-<to>. Pairs with a
+ * dedicated converter page redirect there so each pair has one URL.
+ */
+export default async function ConvertPage({ params }: ConvertPageProps) {
+  const { pair } = await params;
+  const units = parseConversionPair(pair);
+  const category = categories.find((c) => c.slug === 'conversions');
+
+  if (!units || !category) {
+    notFound();
+  }
+
+  const { from, to } = units;
+  const href = getConversionHref(from.id, to.id);
+  if (!href.startsWith('/convert/')) {
+    permanentRedirect(href);
+  }
+  const dimension = getUnitDimension(from.id)!;
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-secondary/50">
+      <div className="w-full max-w-4xl bg-background p-4 sm:p-8 flex-1">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href={`/category/${category.slug}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to {category.name}
+            </Link>
+          </Button>
+          <div className="flex items-center gap-4">
+            <CategoryIcon name={category.Icon} className="h-10 w-10 text-primary flex-shrink-0" strokeWidth={1.5} />
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground">
+                {from.plural} to {to.plural} Converter
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Convert {dimension.name.toLowerCase()} from {from.plural} ({from.symbol}) to {to.plural} ({to.symbol}).
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <UnitConverter key={pair} from={from.id} to={to.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { CategoryIcon } from '@/components/category-icon';
+import { ArticleChart } from '@/components/learning-hub/article-chart';
+import { articles, getArticle, getArticleSummary } from '@/lib/learning-hub-articles';
+import { generateArticleSchema } from '@/lib/schema-generator';
+
+type ArticlePageProps = { params: Promise<{ slug: string }> };
+
+export function generateStaticParams() {
+  return articles.map((article) => ({ slug: article.slug }));
+}
+
+export async function generateMetadata({ params }: ArticlePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const article = getArticle(slug);
+  if (!article) {
+    return {};
+  }
+  return {
+    title: `${article.title} | Mycalculating.com`,
+    description: getArticleSummary(article, 30),
+  };
+}
+
+export default async function ArticlePage({ params }: ArticlePageProps) {
+  const { slug } = await params;
+  const article = getArticle(slug);
+
+  if (!article) {
+    notFound();
+  }
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-secondary/50">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(generateArticleSchema(article))
+        }}
+      />
+      <article className="w-full max-w-4xl bg-background p-4 sm:p-8 flex-1">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/learning-hub">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Learning Hub
+            </Link>
+          </Button>
+          <div className="flex items-center gap-4">
+            <CategoryIcon name={article.Icon} className="h-10 w-10 text-primary flex-shrink-0" strokeWidth={1.5} />
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground">
+              {article.title}
+            </h1>
+          </div>
+        </div>
+
+        {/* Article HTML is authored in src/lib/learning-hub-articles.ts, not user input. */}
+        <div className="space-y-4 text-foreground leading-relaxed" dangerouslySetInnerHTML={{ __html: article.content }} />
+
+        {article.chartComponent && (
+          <div className="mt-12 mb-8">
+            <ArticleChart name={article.chartComponent} />
+          </div>
+        )}
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { LearningHubCard } from '@/components/learning-hub-card';
+import { articles } from '@/lib/learning-hub-articles';
+import { generateLearningHubSchema } from '@/lib/schema-generator';
+
+export const metadata: Metadata = {
+  title: 'Learning Hub | Mycalculating.com',
+  description: 'Guides explaining the ideas behind our calculators, from compound interest and APR to BMI and BMR.',
+};
+
+export default function LearningHubPage() {
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-background p-4 sm:p-8">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(generateLearningHubSchema())
+        }}
+      />
+      <div className="w-full max-w-6xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Home
+            </Link>
+          </Button>
+          <h1 className="text-4xl md:text-5xl font-extrabold tracking-tight text-foreground">
+            Learning Hub
+          </h1>
+          <p className="mt-2 text-lg text-muted-foreground">
+            Short guides to the ideas behind our calculators.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {articles.map((article) => (
+            <LearningHubCard key={article.slug} {...article} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MyCalculations } from '@/components/my-calculations';
+
+export const metadata: Metadata = {
+  title: 'My Calculations | Mycalculating.com',
+  description: 'Calculations you have saved on Mycalculating.com.',
+  robots: { index: false, follow: false },
+};
+
+export default function MyCalculationsPage() {
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-background p-4 sm:p-8">
+      <div className="w-full max-w-4xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Home
+            </Link>
+          </Button>
+          <h1 className="text-3xl md:text-4xl font-bold text-foreground">My Calculations</h1>
+          <p className="mt-2 text-muted-foreground">Reopen or delete the calculations you have saved.</p>
+        </div>
+        <MyCalculations />
+      </div>
+    </div>
+  );
+}
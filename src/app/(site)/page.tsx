@@ -1,11 +1,9 @@
 
 import { CategoryCard } from '@/components/category-card';
 import { categories } from '@/lib/categories';
-import { Button } from '@/components/ui/button';
 import Link from 'next/link';
-import { Search } from 'lucide-react';
-import { search } from '@/app/actions';
-import { Input } from '@/components/ui/input';
+import { SearchBar } from '@/components/search-bar';
+import { LocalCalculatorRows } from '@/components/local-calculator-rows';
 import { generateWebsiteSchema } from '@/lib/schema-generator';
 
 export default function Home() {
@@ -27,26 +25,14 @@ export default function Home() {
               Your one-stop destination for all calculators. We offer a wide range of free online calculators for finance, health, and more.
             </p>
             <div className='mt-8 max-w-2xl mx-auto'>
-              <form action={search} className="flex flex-col sm:flex-row gap-2">
-                <div className="relative flex-grow">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                  <Input
-                    name="query"
-                    type="text"
-                    placeholder="e.g., 'Retirement', 'BMI', 'Mortgage'..."
-                    required
-                    className="w-full pl-10"
-                  />
-                </div>
-                <Button type="submit" className="w-full sm:w-auto">
-                  Search Calculators
-                </Button>
-              </form>
+              <SearchBar />
             </div>
             
           </div>
         </section>
 
+        <LocalCalculatorRows />
+
         <section className="py-16 md:py-24 bg-secondary/50">
             <div className="container mx-auto px-4">
                 <div className="text-center mb-12">
@@ -4,7 +4,9 @@
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import { Suspense } from 'react';
-import { calculators } from '@/lib/calculators';
+import { searchCalculators } from '@/lib/search';
+import { useUsageEvent } from '@/hooks/use-usage-event';
+import { usageCollections } from '@/lib/usage-analytics';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, SearchX } from 'lucide-react';
@@ -13,13 +15,12 @@ function SearchResults() {
   const searchParams = useSearchParams();
   const query = searchParams.get('q');
 
-  const filteredCalculators = query
-    ? calculators.filter(
-        (calc) =>
-          calc.name.toLowerCase().includes(query.toLowerCase()) ||
-          calc.description.toLowerCase().includes(query.toLowerCase())
-      )
-    : [];
+  const filteredCalculators = query ? searchCalculators(query) : [];
+
+  useUsageEvent(
+    usageCollections.searchQueries,
+    query?.trim() ? { queryText: query.trim().slice(0, 200), resultCount: filteredCalculators.length } : null
+  );
 
   return (
     <div className="flex flex-col items-center min-h-screen bg-background p-4 sm:p-8">
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculators, type Calculator } from '@/lib/calculators';
+import { describeInputs, evaluateCalculator, explainCalculation, getCalculatorDefinition, type InputIssue } from '@/lib/engine';
+
+const baseUrl = 'https://mycalculating.com';
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+function errorResponse(status: number, code: string, message: string, issues?: InputIssue[]) {
+  return NextResponse.json({ error: { code, message, ...(issues ? { issues } : {}) } }, { status });
+}
+
+function describeCalculator(calculator: Calculator) {
+  return {
+    slug: calculator.slug,
+    category: calculator.category,
+    name: calculator.name,
+    description: calculator.description,
+    url: `${baseUrl}/category/${calculator.category}/${calculator.slug}`,
+  };
+}
+
+/**
+ * Finds the calculator for a slug. A few slugs exist in more than one category,
+ * so callers can pass `?category=` to pick one.
+ */
+function resolveCalculator(request: NextRequest, slug: string): { calculator: Calculator } | { response: NextResponse } {
+  const category = request.nextUrl.searchParams.get('category');
+  const matches = calculators.filter((c) => c.slug === slug && (!category || c.category === category));
+
+  if (matches.length === 0) {
+    return { response: errorResponse(404, 'not_found', `No calculator found for slug "${slug}".`) };
+  }
+  if (matches.length > 1) {
+    const options = matches.map((c) => c.category).join(', ');
+    return {
+      response: errorResponse(400, 'ambiguous_slug', `Slug "${slug}" exists in several categories (${options}); pass ?category= to choose one.`),
+    };
+  }
+  return { calculator: matches[0] };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params;
+  const resolved = resolveCalculator(request, slug);
+  if ('response' in resolved) {
+    return resolved.response;
+  }
+
+  const { calculator } = resolved;
+  const definition = getCalculatorDefinition(calculator.category, calculator.slug);
+
+  return NextResponse.json({
+    calculator: describeCalculator(calculator),
+    computable: !!definition,
+    inputs: definition ? describeInputs(definition) : [],
+    outputs: definition
+      ? Object.entries(definition.outputs).map(([name, field]) => ({ name, ...field }))
+      : [],
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params;
+  const resolved = resolveCalculator(request, slug);
+  if ('response' in resolved) {
+    return resolved.response;
+  }
+
+  const { calculator } = resolved;
+  const definition = getCalculatorDefinition(calculator.category, calculator.slug);
+  if (!definition) {
+    return errorResponse(501, 'not_computable', `"${calculator.name}" only computes on its page for now; the API computes calculators whose description has "computable": true.`);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be valid JSON.');
+  }
+
+  if (typeof body !== 'object' || body === null || !('inputs' in body)) {
+    return errorResponse(400, 'invalid_request', 'Request body must be an object of the form { "inputs": { ... } }.');
+  }
+
+  const result = evaluateCalculator(definition, body.inputs);
+  if (!result.success) {
+    return errorResponse(422, 'invalid_input', 'One or more inputs are invalid.', result.issues);
+  }
+
+  return NextResponse.json({
+    calculator: describeCalculator(calculator),
+    inputs: result.input,
+    outputs: result.output,
+    steps: explainCalculation(definition, result.input, result.output),
+  });
+}
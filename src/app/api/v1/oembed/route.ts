@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculators } from '@/lib/calculators';
+import { buildEmbedCode, defaultEmbedSize, parseEmbedOptions, siteOrigin } from '@/lib/embed';
+
+type OEmbedFormat = 'json' | 'xml';
+
+const calculatorPathPattern = /^\/category\/([^/]+)\/([^/]+)\/?$/;
+const siteHosts = new Set([new URL(siteOrigin).host, `www.${new URL(siteOrigin).host}`]);
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json({ error: { code, message } }, { status });
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toXml(fields: Record<string, string | number>): string {
+  const elements = Object.entries(fields).map(([name, value]) => `  <${name}>${escapeXml(String(value))}</${name}>`);
+  return `<?xml version="1.0" encoding="utf-8" standalone="yes"?>\n<oembed>\n${elements.join('\n')}\n</oembed>\n`;
+}
+
+function parseDimension(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, fallback) : fallback;
+}
+
+/**
+ * oEmbed provider (https://oembed.com) for calculator pages. Consumers pass `url` (any
+ * /category/<slug>/<calcSlug> URL, optionally with embed options in its query), and may
+ * pass `format`, `maxwidth` and `maxheight`. Status codes follow the oEmbed spec.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const format = (searchParams.get('format') ?? 'json') as OEmbedFormat;
+  if (format !== 'json' && format !== 'xml') {
+    return errorResponse(501, 'unsupported_format', 'Format must be "json" or "xml".');
+  }
+
+  const rawUrl = searchParams.get('url');
+  if (!rawUrl) {
+    return errorResponse(400, 'invalid_request', 'The "url" parameter is required.');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return errorResponse(404, 'not_found', `"${rawUrl}" is not a calculator URL.`);
+  }
+
+  const match = calculatorPathPattern.exec(url.pathname);
+  const calculator = match && siteHosts.has(url.host)
+    ? calculators.find((c) => c.category === match[1] && c.slug === match[2])
+    : undefined;
+  if (!calculator) {
+    return errorResponse(404, 'not_found', `"${rawUrl}" is not a calculator URL.`);
+  }
+
+  const size = {
+    maxWidth: parseDimension(searchParams.get('maxwidth'), defaultEmbedSize.maxWidth),
+    height: parseDimension(searchParams.get('maxheight'), defaultEmbedSize.height),
+  };
+
+  const response = {
+    version: '1.0',
+    type: 'rich',
+    title: calculator.name,
+    provider_name: 'MyCalculating.com',
+    provider_url: siteOrigin,
+    cache_age: 86400,
+    html: buildEmbedCode(calculator.category, calculator.slug, parseEmbedOptions(url.searchParams), size),
+    width: size.maxWidth,
+    height: size.height,
+  };
+
+  if (format === 'xml') {
+    return new NextResponse(toXml(response), {
+      headers: { 'Content-Type': 'text/xml; charset=utf-8' },
+    });
+  }
+  return NextResponse.json(response);
+}
@@ -0,0 +1,85 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+
+import { categories } from '@/lib/categories';
+import { calculators, getCalculatorComponentPath, getCalculatorComponentProps } from '@/lib/calculators';
+import { getCalculatorUrl, parseEmbedOptions, searchParamsFromRecord, type EmbedOptions } from '@/lib/embed';
+import { backgroundColors, findThemeColor, foregroundColors, isDarkColor } from '@/lib/theme-colors';
+import { CalculatorRenderer } from '@/components/calculator-renderer';
+import { EmbedFrame } from '@/components/embed-frame';
+import { ThemeProvider } from '@/components/theme-provider';
+
+type EmbedPageProps = {
+  params: Promise<{ slug: string; calcSlug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+/**
+ * The embed theme ignores the visitor's saved site theme. Custom colours override the
+ * same CSS variables as the site's theme customiser, and switch to the dark palette for
+ * dark backgrounds.
+ */
+function resolveTheme(options: EmbedOptions): { theme: 'light' | 'dark'; css?: string } {
+  const foreground = findThemeColor(foregroundColors, options.foreground);
+  const background = findThemeColor(backgroundColors, options.background);
+  if (options.theme === 'custom' && foreground && background) {
+    return {
+      theme: isDarkColor(background.value) ? 'dark' : 'light',
+      css: `:root, :root.dark { --foreground: ${foreground.value}; --background: ${background.value}; }`,
+    };
+  }
+  return { theme: options.theme === 'dark' ? 'dark' : 'light' };
+}
+
+function findCalculator(slug: string, calcSlug: string) {
+  const category = categories.find((c) => c.slug === slug);
+  const calculator = calculators.find((c) => c.slug === calcSlug && c.category === slug);
+  return category && calculator ? { category, calculator } : undefined;
+}
+
+export async function generateMetadata({ params }: EmbedPageProps): Promise<Metadata> {
+  const { slug, calcSlug } = await params;
+  const found = findCalculator(slug, calcSlug);
+  if (!found) {
+    return {};
+  }
+  // Embeds duplicate the calculator page, which stays the canonical, indexed copy.
+  return {
+    title: `${found.calculator.name} | Mycalculating.com`,
+    robots: { index: false, follow: true },
+    alternates: { canonical: getCalculatorUrl(slug, calcSlug) },
+  };
+}
+
+// Rendered for /category/<slug>/<calcSlug>?embed=true (see src/middleware.ts).
+export default async function EmbedCalculatorPage({ params, searchParams }: EmbedPageProps) {
+  const { slug, calcSlug } = await params;
+  const options = parseEmbedOptions(searchParamsFromRecord(await searchParams));
+  const { theme, css } = resolveTheme(options);
+  const found = findCalculator(slug, calcSlug);
+
+  if (!found) {
+    notFound();
+  }
+
+  const { calculator } = found;
+
+  return (
+    <ThemeProvider attribute="class" forcedTheme={theme} disableTransitionOnChange>
+      {css && <style>{css}</style>}
+      <EmbedFrame calculatorSlug={calculator.slug} options={options}>
+        <main className="bg-background p-4">
+          <CalculatorRenderer
+            componentPath={getCalculatorComponentPath(calculator)}
+            componentProps={getCalculatorComponentProps(calculator)}
+          />
+          <p className="mt-4 text-center text-xs text-muted-foreground">
+            <a href={getCalculatorUrl(slug, calcSlug)} target="_blank" rel="noopener" className="hover:underline">
+              {calculator.name} by <strong>MyCalculating.com</strong>
+            </a>
+          </p>
+        </main>
+      </EmbedFrame>
+    </ThemeProvider>
+  );
+}
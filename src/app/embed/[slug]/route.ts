@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculators } from '@/lib/calculators';
+import { EMBED_QUERY_PARAM } from '@/lib/embed';
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+/**
+ * Lets the widget SDK mount a calculator by its slug alone. Here `slug` is the calculator
+ * slug, not a category; slugs used in several categories need the full embed URL.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params;
+  const matches = calculators.filter((c) => c.slug === slug);
+
+  if (matches.length !== 1) {
+    return new NextResponse('Calculator not found', { status: 404 });
+  }
+
+  const url = request.nextUrl.clone();
+  url.pathname = `/category/${matches[0].category}/${slug}`;
+  url.searchParams.set(EMBED_QUERY_PARAM, 'true');
+  return NextResponse.redirect(url);
+}
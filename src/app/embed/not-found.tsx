@@ -0,0 +1,8 @@
+// Kept free of the site chrome, which the root not-found page would add inside the iframe.
+export default function EmbedNotFound() {
+  return (
+    <main className="bg-background p-4 text-center text-sm text-muted-foreground">
+      This calculator is not available.
+    </main>
+  );
+}
@@ -0,0 +1,31 @@
+import Link from 'next/link';
+import { ArrowLeft, SearchX } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { SiteChrome } from '@/components/site-chrome';
+
+// Unmatched URLs only get the root layout, so the site chrome is added here.
+export default function NotFound() {
+  return (
+    <SiteChrome>
+      <div className="flex flex-col items-center min-h-screen bg-background p-4 sm:p-8">
+        <Card className="w-full max-w-2xl text-center shadow-md mt-8">
+          <CardContent className="p-8">
+            <SearchX className="mx-auto h-16 w-16 mb-6 text-primary" strokeWidth={1.5} />
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-4">Page Not Found</h1>
+            <p className="text-lg text-muted-foreground mb-6">
+              The page you are looking for does not exist or has moved.
+            </p>
+            <Button asChild>
+              <Link href="/">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Home
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </SiteChrome>
+  );
+}
@@ -1,6 +1,8 @@
 import { MetadataRoute } from 'next';
 import { categories } from '@/lib/categories';
-import { calculators } from '@/lib/calculators';
+import { calculators, getCommonConversionPairs } from '@/lib/calculators';
+import { conversionPairSlug } from '@/lib/units/parse';
+import { articles } from '@/lib/learning-hub-articles';
 
 export default function sitemap(): MetadataRoute.Sitemap {
   const baseUrl = 'https://mycalculating.com';
@@ -18,6 +20,12 @@ export default function sitemap(): MetadataRoute.Sitemap {
       changeFrequency: 'monthly',
       priority: 0.8,
     },
+    {
+      url: `${baseUrl}/learning-hub`,
+      lastModified: new Date(),
+      changeFrequency: 'monthly',
+      priority: 0.7,
+    },
     {
       url: `${baseUrl}/privacy-policy`,
       lastModified: new Date(),
@@ -40,5 +48,19 @@ export default function sitemap(): MetadataRoute.Sitemap {
     priority: 0.9,
   }));
 
-  return [...staticPages, ...categoryPages, ...calculatorPages];
+  const conversionPages = getCommonConversionPairs().map(({ from, to }) => ({
+    url: `${baseUrl}/convert/${conversionPairSlug(from, to)}`,
+    lastModified: new Date(),
+    changeFrequency: 'yearly',
+    priority: 0.6,
+  }));
+
+  const articlePages = articles.map((article) => ({
+    url: `${baseUrl}/learning-hub/${article.slug}`,
+    lastModified: new Date(),
+    changeFrequency: 'monthly',
+    priority: 0.6,
+  }));
+
+  return [...staticPages, ...categoryPages, ...calculatorPages, ...conversionPages, ...articlePages];
 }
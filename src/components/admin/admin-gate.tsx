@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { signOut } from 'firebase/auth';
+import { Loader2, ShieldAlert } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SignInForm } from '@/components/auth/sign-in-form';
+import { useAuth, useUser } from '@/firebase';
+
+/**
+ * Whether the signed-in account holds the `admin` custom claim, or null while unknown.
+ * The token is refreshed once so a claim granted after sign-in takes effect on reload.
+ */
+export function useIsAdmin(): boolean | null {
+  const { user, isUserLoading } = useUser();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (isUserLoading) {
+      setIsAdmin(null);
+      return;
+    }
+    if (!user || user.isAnonymous) {
+      setIsAdmin(false);
+      return;
+    }
+    let cancelled = false;
+    user.getIdTokenResult(true)
+      .then(token => !cancelled && setIsAdmin(token.claims.admin === true))
+      .catch(() => !cancelled && setIsAdmin(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, isUserLoading]);
+
+  return isAdmin;
+}
+
+/** Renders `children` only for admin accounts, offering a sign-in form to everyone else. */
+export function AdminGate({ children }: { children: ReactNode }) {
+  const auth = useAuth();
+  const { user } = useUser();
+  const isAdmin = useIsAdmin();
+
+  if (isAdmin === null) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isAdmin) {
+    return <>{children}</>;
+  }
+
+  const signedIn = user && !user.isAnonymous;
+  return (
+    <Card className="mx-auto mt-12 max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-primary" />
+          Admins only
+        </CardTitle>
+        <CardDescription>
+          {signedIn
+            ? `${user.email ?? 'This account'} is not an administrator. Ask an existing admin to grant access, then reload this page.`
+            : 'Sign in with an administrator account to view site analytics.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {signedIn ? (
+          <Button variant="outline" className="w-full" onClick={() => signOut(auth)}>Sign Out</Button>
+        ) : (
+          <SignInForm idPrefix="admin" />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { collection, limit, orderBy, query, where } from 'firebase/firestore';
+import { startOfDay, subDays } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCollection, useFirestore, useMemoFirebase } from '@/firebase';
+import { useUsageCounts } from '@/hooks/use-usage-counts';
+import {
+  topCalculators,
+  topCategories,
+  topEmbedReferrers,
+  usageCollections,
+  usageSampleSize,
+  zeroResultSearches,
+  type CountRow,
+  type PageViewEvent,
+  type SearchQueryEvent,
+  type UsageRecord,
+} from '@/lib/usage-analytics';
+
+const ranges = [7, 30, 90];
+
+function StatCard({ title, value }: { title: string; value: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl">{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function CountTable({ title, description, rows, columnLabel, emptyMessage }: {
+  title: string;
+  description: string;
+  rows: CountRow[];
+  columnLabel: string;
+  emptyMessage: string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{columnLabel}</TableHead>
+                <TableHead className="text-right">Count</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    {row.href ? <Link href={row.href} className="hover:underline">{row.label}</Link> : row.label}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{row.count.toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Site usage from the page view and search query collections. Render inside AdminGate. */
+export function AnalyticsDashboard() {
+  const firestore = useFirestore();
+  const [rangeDays, setRangeDays] = useState(30);
+  const since = useMemo(() => subDays(startOfDay(new Date()), rangeDays - 1), [rangeDays]);
+
+  const { counts, isLoading: countsLoading, error: countsError } = useUsageCounts(since);
+  // The top lists come from the most recent events only; the counts above them cover everything.
+  const viewsQuery = useMemoFirebase(
+    () => query(
+      collection(firestore, usageCollections.pageViews),
+      where('timestamp', '>=', since.toISOString()),
+      orderBy('timestamp', 'desc'),
+      limit(usageSampleSize)
+    ),
+    [firestore, since]
+  );
+  const zeroResultQuery = useMemoFirebase(
+    () => query(
+      collection(firestore, usageCollections.searchQueries),
+      where('resultCount', '==', 0),
+      where('timestamp', '>=', since.toISOString()),
+      orderBy('timestamp', 'desc'),
+      limit(usageSampleSize)
+    ),
+    [firestore, since]
+  );
+  const { data: views, isLoading: viewsLoading } = useCollection<UsageRecord<PageViewEvent>>(viewsQuery);
+  const { data: zeroResults, isLoading: zeroResultsLoading } = useCollection<UsageRecord<SearchQueryEvent>>(zeroResultQuery);
+
+  const report = useMemo(() => {
+    const pageViews = views ?? [];
+    const searchQueries = zeroResults ?? [];
+    return {
+      calculators: topCalculators(pageViews),
+      categories: topCategories(pageViews),
+      zeroResultSearches: zeroResultSearches(searchQueries),
+      embedReferrers: topEmbedReferrers(pageViews),
+      viewsSampled: pageViews.length >= usageSampleSize,
+      zeroResultsSampled: searchQueries.length >= usageSampleSize,
+    };
+  }, [views, zeroResults]);
+  const sampleNote = (sampled: boolean, events: string) =>
+    sampled ? ` From the latest ${usageSampleSize.toLocaleString()} ${events} in this period.` : '';
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-bold text-foreground">Site Analytics</h1>
+          <p className="mt-2 text-muted-foreground">Page views and searches recorded on MyCalculating.com.</p>
+        </div>
+        <Select value={String(rangeDays)} onValueChange={value => setRangeDays(Number(value))}>
+          <SelectTrigger className="w-full sm:w-44"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {ranges.map(days => (
+              <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {countsLoading || viewsLoading || zeroResultsLoading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          {counts ? (
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard title="Page views" value={counts.pageViews.toLocaleString()} />
+              <StatCard title="Embedded views" value={counts.embeddedViews.toLocaleString()} />
+              <StatCard title="Searches" value={counts.searches.toLocaleString()} />
+              <StatCard
+                title="Zero-result searches"
+                value={`${(counts.searches > 0 ? (counts.zeroResultSearches / counts.searches) * 100 : 0).toFixed(1)}%`}
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-destructive">
+              Totals could not be loaded{countsError ? `: ${countsError.message}` : '.'}
+            </p>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Trends</CardTitle>
+              <CardDescription>Daily page views and searches.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={counts?.daily ?? []} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="pageViews" name="Page views" stroke="hsl(var(--primary))" dot={false} />
+                    <Line type="monotone" dataKey="searches" name="Searches" stroke="hsl(var(--chart-2))" dot={false} />
+                    <Line type="monotone" dataKey="zeroResultSearches" name="Zero-result searches" stroke="hsl(var(--destructive))" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Calculators</CardTitle>
+              <CardDescription>
+                Most viewed calculator pages, embeds included.{sampleNote(report.viewsSampled, 'page views')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.calculators.length > 0 ? (
+                <div style={{ height: Math.max(160, report.calculators.length * 36) }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={report.calculators} layout="vertical" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="label" width={220} />
+                      <Tooltip />
+                      <Bar dataKey="count" name="Views" fill="hsl(var(--primary))" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No calculator views in this period.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <CountTable
+              title="Top Categories"
+              description={`Views of category pages and the calculators in them.${sampleNote(report.viewsSampled, 'page views')}`}
+              rows={report.categories}
+              columnLabel="Category"
+              emptyMessage="No category views in this period."
+            />
+            <CountTable
+              title="Zero-Result Searches"
+              description={`What people looked for and did not find.${sampleNote(report.zeroResultsSampled, 'zero-result searches')}`}
+              rows={report.zeroResultSearches}
+              columnLabel="Query"
+              emptyMessage="Every search found something."
+            />
+            <CountTable
+              title="Embed Referrers"
+              description={`Sites showing our calculators in an embed.${sampleNote(report.viewsSampled, 'page views')}`}
+              rows={report.embedReferrers}
+              columnLabel="Site"
+              emptyMessage="No embedded views in this period."
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
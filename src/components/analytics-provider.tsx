@@ -3,10 +3,23 @@
 import { usePathname, useSearchParams } from 'next/navigation';
 import { useEffect } from 'react';
 import { logEvent } from 'firebase/analytics';
-import { useFirebase } from '@/firebase';
+import { initiateAnonymousSignIn, useFirebase } from '@/firebase';
+import { useUsageEvent } from '@/hooks/use-usage-event';
+import { EMBED_QUERY_PARAM } from '@/lib/embed';
+import { pageViewForPath, usageCollections, type PageViewEvent } from '@/lib/usage-analytics';
+
+// The SDK passes the host page's origin; plain iframes only have the referrer to go on.
+function embedReferrer(searchParams: URLSearchParams): string {
+  const source = searchParams.get('origin') || (typeof document !== 'undefined' ? document.referrer : '');
+  try {
+    return new URL(source).hostname || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
 
 export function AnalyticsProvider({children}: {children: React.ReactNode}) {
-  const { analytics } = useFirebase();
+  const { analytics, auth, user, isUserLoading } = useFirebase();
   const pathname = usePathname();
   const searchParams = useSearchParams();
 
@@ -17,5 +30,18 @@ export function AnalyticsProvider({children}: {children: React.ReactNode}) {
     }
   }, [pathname, searchParams, analytics]);
 
+  // Usage events are written to Firestore, which only accepts signed-in writers.
+  useEffect(() => {
+    if (!isUserLoading && !user) {
+      initiateAnonymousSignIn(auth);
+    }
+  }, [auth, user, isUserLoading]);
+
+  let pageView: PageViewEvent | null = pageViewForPath(pathname);
+  if (pageView && searchParams.get(EMBED_QUERY_PARAM) === 'true') {
+    pageView = { ...pageView, embedReferrer: embedReferrer(searchParams) };
+  }
+  useUsageEvent(usageCollections.pageViews, pageView);
+
   return <>{children}</>;
 }
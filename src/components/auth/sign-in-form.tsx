@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { initiateEmailSignIn, initiateEmailSignUp, useAuth } from '@/firebase';
+
+/**
+ * Email and password sign-in, optionally offering to create an account. Signing in replaces
+ * the visitor's anonymous session; the auth listener picks up the new user.
+ */
+export function SignInForm({ allowSignUp = false, idPrefix = 'sign-in' }: { allowSignUp?: boolean; idPrefix?: string }) {
+  const auth = useAuth();
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (mode === 'sign-up') {
+      initiateEmailSignUp(auth, email, password);
+    } else {
+      initiateEmailSignIn(auth, email, password);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-email`}>Email</Label>
+        <Input id={`${idPrefix}-email`} type="email" autoComplete="username" required value={email} onChange={e => setEmail(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-password`}>Password</Label>
+        <Input
+          id={`${idPrefix}-password`}
+          type="password"
+          autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+          minLength={mode === 'sign-up' ? 6 : undefined}
+          required
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+        />
+      </div>
+      <Button type="submit" className="w-full">{mode === 'sign-up' ? 'Create Account' : 'Sign In'}</Button>
+      {allowSignUp && (
+        <p className="text-center text-sm text-muted-foreground">
+          {mode === 'sign-up' ? 'Already have an account?' : 'New here?'}{' '}
+          <button type="button" className="font-medium text-primary hover:underline" onClick={() => setMode(mode === 'sign-up' ? 'sign-in' : 'sign-up')}>
+            {mode === 'sign-up' ? 'Sign in' : 'Create an account'}
+          </button>
+        </p>
+      )}
+    </form>
+  );
+}
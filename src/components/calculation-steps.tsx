@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ListOrdered } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { usePreferences } from '@/components/preferences-provider';
+import { explainCalculation, formulaText, parseFormula, type CalculatorDefinition, type FormulaNode } from '@/lib/engine';
+import { cn } from '@/lib/utils';
+
+function FormulaNodes({ nodes }: { nodes: FormulaNode[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <span key={index} className="whitespace-pre">{node.value}</span>;
+          case 'fraction':
+            return (
+              <span key={index} className="inline-flex flex-col items-center align-middle mx-1 text-[0.95em]">
+                <span className="px-1 pb-0.5"><FormulaNodes nodes={node.numerator} /></span>
+                <span className="px-1 pt-0.5 border-t border-current"><FormulaNodes nodes={node.denominator} /></span>
+              </span>
+            );
+          case 'superscript':
+            return <sup key={index}><FormulaNodes nodes={node.content} /></sup>;
+          case 'subscript':
+            return <sub key={index}><FormulaNodes nodes={node.content} /></sub>;
+        }
+      })}
+    </>
+  );
+}
+
+/** Typesets a formula written in the engine's derivation notation. */
+export function Formula({ formula, className }: { formula: string; className?: string }) {
+  return (
+    <span role="math" aria-label={formulaText(formula)} className={cn('font-serif leading-loose', className)}>
+      <FormulaNodes nodes={parseFormula(formula)} />
+    </span>
+  );
+}
+
+interface CalculationStepsProps<Input, Output> {
+  definition: CalculatorDefinition<Input, Output>;
+  /** The inputs the shown result was computed from; nothing renders until there is one. */
+  input: Input | null;
+}
+
+/**
+ * "Show your work" for engine-backed calculators: the formula, the values substituted into it
+ * and the intermediate result of each step, collapsed beneath the result card by default.
+ */
+export function CalculationSteps<Input, Output>({ definition, input }: CalculationStepsProps<Input, Output>) {
+  const [open, setOpen] = useState(false);
+  const { preferences } = usePreferences();
+  const steps = input ? explainCalculation(definition, input, undefined, preferences) : [];
+
+  if (steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border bg-card">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between px-6 py-4 h-auto">
+          <span className="flex items-center gap-2 font-semibold">
+            <ListOrdered className="h-5 w-5" />
+            Show your work
+          </span>
+          <ChevronDown className={cn('h-4 w-4 transition-transform', open && 'rotate-180')} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="space-y-6 px-6 pb-6">
+          {steps.map((step, index) => (
+            <li key={index} className="flex gap-4">
+              <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-primary/10 text-sm font-semibold text-primary">
+                {index + 1}
+              </span>
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium">{step.label}</p>
+                <div className="overflow-x-auto text-muted-foreground">
+                  <Formula formula={step.formula} />
+                </div>
+                <div className="overflow-x-auto">
+                  <Formula formula={step.substitution} />
+                  <span className="font-serif"> = </span>
+                  <span className="font-semibold text-primary">{step.result}</span>
+                </div>
+                {step.note && <p className="text-xs text-muted-foreground">{step.note}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { usePreferences } from '@/components/preferences-provider';
+import {
+  batchResultTable,
+  describeInputs,
+  formatOutputValue,
+  inputUnitLabel,
+  getCalculatorDefinition,
+  runBatch,
+  suggestColumnMapping,
+  type BatchColumnMapping,
+  type OutputField,
+} from '@/lib/engine';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { downloadCsv } from '@/lib/export';
+
+const maxRows = 5000;
+const previewRows = 100;
+const previewOutputs = 3;
+const fixedSource = 'fixed';
+const noSource = 'none';
+
+function sourceValue(source: BatchColumnMapping[string]): string {
+  if (!source) return noSource;
+  return 'column' in source ? `column:${source.column}` : fixedSource;
+}
+
+interface CalculatorBatchProps {
+  categorySlug: string;
+  calculatorSlug: string;
+}
+
+/**
+ * Runs an engine-backed calculator over many rows of CSV, entirely in the browser: columns
+ * are mapped to inputs, every row is validated and computed, and the results download as CSV
+ * with the schema's messages beside invalid rows. Renders nothing without a definition.
+ */
+export function CalculatorBatch({ categorySlug, calculatorSlug }: CalculatorBatchProps) {
+  const { preferences: numberFormat } = usePreferences();
+  const definition = getCalculatorDefinition(categorySlug, calculatorSlug);
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<BatchColumnMapping>({});
+  const [onlyInvalid, setOnlyInvalid] = useState(false);
+
+  const parsed = useMemo(() => {
+    const [headers = [], ...rows] = parseCsv(text);
+    return { headers, rows: rows.slice(0, maxRows), truncated: rows.length > maxRows };
+  }, [text]);
+
+  const results = useMemo(
+    () => (definition && parsed.rows.length > 0 ? runBatch(definition, parsed.rows, mapping) : []),
+    [definition, parsed, mapping]
+  );
+
+  if (!definition) {
+    return null;
+  }
+
+  const inputs = describeInputs(definition);
+  const outputs = Object.entries(definition.outputs as Record<string, OutputField>);
+  const shownOutputs = outputs.slice(0, previewOutputs);
+
+  const load = (csv: string) => {
+    setText(csv);
+    // Keep the visitor's mapping while they edit rows; guess again only when the headers change.
+    const [headers = []] = parseCsv(csv);
+    if (headers.join('\n') !== parsed.headers.join('\n')) {
+      setMapping(suggestColumnMapping(definition, headers));
+    }
+  };
+
+  const readFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      load(await file.text());
+    }
+    event.target.value = '';
+  };
+
+  const setSource = (name: string, value: string) => {
+    setMapping(current => ({
+      ...current,
+      [name]: value === noSource ? null : value === fixedSource ? { value: '' } : { column: Number(value.slice('column:'.length)) },
+    }));
+  };
+
+  const download = () => {
+    downloadCsv(`${calculatorSlug}-results.csv`, toCsv(batchResultTable(definition, parsed.headers, parsed.rows, results)));
+  };
+
+  if (!open) {
+    return (
+      <div className="mt-12 p-6 bg-muted/50 rounded-lg border flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Batch Mode</h3>
+          <p className="text-sm text-muted-foreground">Run this calculator over a CSV of input rows and download the results.</p>
+        </div>
+        <Button type="button" onClick={() => setOpen(true)}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Batch
+        </Button>
+      </div>
+    );
+  }
+
+  const invalidCount = results.filter(result => !result.success).length;
+  const visible = results
+    .map((result, index) => ({ result, row: parsed.rows[index] }))
+    .filter(({ result }) => !onlyInvalid || !result.success);
+
+  return (
+    <Card className="mt-12">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Batch Mode</CardTitle>
+            <CardDescription>Your data stays in your browser; nothing is uploaded.</CardDescription>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(false)}>Close</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <Label htmlFor="batch-csv">Paste CSV with a header row, or upload a file</Label>
+            <Button type="button" variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Upload className="mr-2 h-4 w-4" />
+                Upload CSV
+                <input type="file" accept=".csv,.tsv,.txt,text/csv" className="sr-only" onChange={readFile} />
+              </label>
+            </Button>
+          </div>
+          <Textarea
+            id="batch-csv"
+            rows={6}
+            className="font-mono text-xs"
+            placeholder={inputs.map(input => input.label).join(',')}
+            value={text}
+            onChange={e => load(e.target.value)}
+          />
+          {parsed.truncated && (
+            <p className="text-xs text-muted-foreground">Only the first {maxRows.toLocaleString('en-US')} rows are used.</p>
+          )}
+        </div>
+
+        {parsed.headers.length > 0 && (
+          <div className="rounded-lg border p-4 space-y-3">
+            <p className="text-sm font-semibold">Columns</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {inputs.map(input => {
+                const source = mapping[input.name];
+                const choices = input.type === 'boolean' ? ['true', 'false'] : input.options;
+                const unit = inputUnitLabel(input, numberFormat);
+                return (
+                  <div key={input.name} className="space-y-1">
+                    <Label htmlFor={`batch-${input.name}`} className="text-xs text-muted-foreground">
+                      {input.label}{unit ? ` (${unit})` : ''}
+                    </Label>
+                    <Select value={sourceValue(source)} onValueChange={value => setSource(input.name, value)}>
+                      <SelectTrigger id={`batch-${input.name}`}><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {parsed.headers.map((header, column) => (
+                          <SelectItem key={column} value={`column:${column}`}>{header || `Column ${column + 1}`}</SelectItem>
+                        ))}
+                        <SelectItem value={fixedSource}>Same value for every row</SelectItem>
+                        <SelectItem value={noSource}>Not provided</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {source && 'value' in source && (choices ? (
+                      <Select value={source.value} onValueChange={value => setMapping(current => ({ ...current, [input.name]: { value } }))}>
+                        <SelectTrigger aria-label={`${input.label} for every row`}><SelectValue placeholder="Choose" /></SelectTrigger>
+                        <SelectContent>
+                          {choices.map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        aria-label={`${input.label} for every row`}
+                        type={input.type === 'string' ? 'text' : 'number'}
+                        value={source.value}
+                        onChange={e => setMapping(current => ({ ...current, [input.name]: { value: e.target.value } }))}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <p className="text-sm">
+                {results.length.toLocaleString('en-US')} rows computed
+                {invalidCount > 0 && <span className="text-destructive"> · {invalidCount.toLocaleString('en-US')} invalid</span>}
+              </p>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch id="batch-only-invalid" checked={onlyInvalid} onCheckedChange={setOnlyInvalid} />
+                  <Label htmlFor="batch-only-invalid" className="text-sm">Only invalid rows</Label>
+                </div>
+                <Button type="button" onClick={download}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download CSV
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>{parsed.headers[0]}</TableHead>
+                    {shownOutputs.map(([name, field]) => <TableHead key={name} className="text-right">{field.label}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.slice(0, previewRows).map(({ result, row }) => (
+                    <TableRow key={result.line} className={result.success ? undefined : 'bg-destructive/5'}>
+                      <TableCell className="text-muted-foreground tabular-nums">{result.line}</TableCell>
+                      <TableCell>{row[0]}</TableCell>
+                      {result.success ? (
+                        shownOutputs.map(([name, field]) => (
+                          <TableCell key={name} className="text-right tabular-nums">{formatOutputValue(result.output[name], field, numberFormat)}</TableCell>
+                        ))
+                      ) : (
+                        <TableCell colSpan={shownOutputs.length} className="text-destructive text-sm">
+                          {result.issues.map(issue => issue.message).join('; ')}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {visible.length > previewRows && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {previewRows} of {visible.length.toLocaleString('en-US')} rows. The download has them all.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
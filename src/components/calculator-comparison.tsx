@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import { Columns3, Plus, X } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+import { EngineInputFields } from '@/components/engine-input-fields';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePreferences } from '@/components/preferences-provider';
+import { useLocalHistory } from '@/hooks/use-local-history';
+import {
+  coerceInputValues,
+  compareOutputs,
+  evaluateCalculator,
+  formatOutputValue,
+  getCalculatorDefinition,
+  overlayChartSeries,
+  type NumberFormatOptions,
+  type OutputField,
+} from '@/lib/engine';
+import { calculatorKey } from '@/lib/local-history';
+import { cn } from '@/lib/utils';
+
+const scenarioLabels = ['Scenario A', 'Scenario B', 'Scenario C', 'Scenario D'];
+const scenarioColors = ['hsl(var(--primary))', 'hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-4))'];
+const minScenarios = 2;
+
+interface Scenario {
+  /** Kept when other scenarios are removed, so a scenario never changes name or colour. */
+  label: string;
+  values: Record<string, string>;
+}
+
+const scenarioColor = (label: string) => scenarioColors[scenarioLabels.indexOf(label)];
+
+// Green when the change goes the way the output field says is better, red when it goes the
+// other way, and neutral for outputs where neither direction is better.
+function deltaClassName(delta: number, field: OutputField): string | undefined {
+  if (!field.better) {
+    return 'text-muted-foreground';
+  }
+  return (delta > 0) === (field.better === 'higher')
+    ? 'text-green-600 dark:text-green-400'
+    : 'text-red-600 dark:text-red-400';
+}
+
+function formatDelta(delta: number, base: unknown, field: OutputField, numberFormat: NumberFormatOptions): string {
+  const sign = delta > 0 ? '+' : '−';
+  const formatted = `${sign}${formatOutputValue(Math.abs(delta), field, numberFormat)}`;
+  // Relative change means little for values that are percentages already.
+  if (field.format !== 'percent' && typeof base === 'number' && base !== 0) {
+    return `${formatted} (${sign}${Math.abs((delta / base) * 100).toFixed(1)}%)`;
+  }
+  return formatted;
+}
+
+interface CalculatorComparisonProps {
+  categorySlug: string;
+  calculatorSlug: string;
+}
+
+/**
+ * Side-by-side scenarios for engine-backed calculators: two to four sets of inputs, a table
+ * of their outputs with differences from the first scenario, and their chart series drawn together.
+ * Renders nothing for calculators without a definition.
+ */
+export function CalculatorComparison({ categorySlug, calculatorSlug }: CalculatorComparisonProps) {
+  const { preferences: numberFormat } = usePreferences();
+  const definition = getCalculatorDefinition(categorySlug, calculatorSlug);
+  const history = useLocalHistory();
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [seriesKey, setSeriesKey] = useState<string | undefined>(undefined);
+
+  if (!definition) {
+    return null;
+  }
+
+  const start = () => {
+    // Start from the visitor's latest calculation, so Scenario B only needs the change.
+    const latest = history.calculations[calculatorKey(categorySlug, calculatorSlug)]?.[0];
+    const seed = latest
+      ? Object.fromEntries(Object.entries(latest.inputs).map(([name, value]) => [name, String(value)]))
+      : {};
+    setScenarios([
+      { label: scenarioLabels[0], values: seed },
+      { label: scenarioLabels[1], values: { ...seed } },
+    ]);
+  };
+
+  const updateScenario = (label: string, name: string, value: string) => {
+    setScenarios(current => current.map(scenario => (
+      scenario.label === label ? { ...scenario, values: { ...scenario.values, [name]: value } } : scenario
+    )));
+  };
+
+  // A new scenario takes the first free label and copies the last one's inputs.
+  const addScenario = () => {
+    setScenarios(current => {
+      const label = scenarioLabels.find(candidate => !current.some(scenario => scenario.label === candidate));
+      return label ? [...current, { label, values: { ...current[current.length - 1].values } }] : current;
+    });
+  };
+
+  if (scenarios.length === 0) {
+    return (
+      <div className="mt-12 p-6 bg-muted/50 rounded-lg border flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Compare Scenarios</h3>
+          <p className="text-sm text-muted-foreground">Put up to four sets of inputs side by side and see how the results differ.</p>
+        </div>
+        <Button type="button" onClick={start}>
+          <Columns3 className="mr-2 h-4 w-4" />
+          Compare
+        </Button>
+      </div>
+    );
+  }
+
+  const labels = scenarios.map(scenario => scenario.label);
+  const results = scenarios.map(scenario => {
+    const evaluation = evaluateCalculator(definition, coerceInputValues(definition, scenario.values));
+    return evaluation.success ? (evaluation.output as Record<string, unknown>) : null;
+  });
+  const rows = compareOutputs(definition, results);
+
+  const chart = definition.chart;
+  const seriesKeys = chart ? Object.keys(chart.series) : [];
+  const activeSeries = seriesKey && seriesKeys.includes(seriesKey) ? seriesKey : seriesKeys[0];
+  const seriesField = chart && activeSeries ? chart.series[activeSeries] : undefined;
+  const chartData = chart && activeSeries ? overlayChartSeries(definition, results, activeSeries, labels) : [];
+  const numericAxis = chartData.every(point => typeof point[chart?.x.key ?? ''] === 'number');
+
+  return (
+    <Card className="mt-12">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Compare Scenarios</CardTitle>
+            <CardDescription>Differences are shown against {labels[0]}.</CardDescription>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setScenarios([])}>Close</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {scenarios.map((scenario, index) => (
+            <div key={scenario.label} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 font-semibold text-sm">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: scenarioColor(scenario.label) }} />
+                  {scenario.label}
+                </span>
+                {scenarios.length > minScenarios && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label={`Remove ${scenario.label}`}
+                    onClick={() => setScenarios(current => current.filter(other => other.label !== scenario.label))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <EngineInputFields
+                definition={definition}
+                values={scenario.values}
+                onChange={(name, value) => updateScenario(scenario.label, name, value)}
+                idPrefix={`scenario-${scenario.label.slice(-1).toLowerCase()}`}
+              />
+              {!results[index] && <p className="text-xs text-destructive">Fill in valid inputs to see this scenario.</p>}
+            </div>
+          ))}
+          {scenarios.length < scenarioLabels.length && (
+            <button
+              type="button"
+              className="rounded-lg border border-dashed p-4 flex flex-col items-center justify-center gap-2 text-sm text-muted-foreground hover:border-primary hover:text-primary transition-colors min-h-32"
+              onClick={addScenario}
+            >
+              <Plus className="h-5 w-5" />
+              Add scenario
+            </button>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Result</TableHead>
+              {labels.map(label => <TableHead key={label} className="text-right">{label}</TableHead>)}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.name}>
+                <TableCell className="font-medium">{row.field.label}</TableCell>
+                {row.values.map((value, index) => {
+                  const delta = row.deltas[index];
+                  const changed = index > 0 && value !== undefined && (delta !== null ? Math.abs(delta) > 1e-9 : value !== row.values[0]);
+                  return (
+                    <TableCell key={index} className={cn('text-right tabular-nums', changed && 'bg-primary/5')}>
+                      <div>{value === undefined ? '—' : formatOutputValue(value, row.field, numberFormat)}</div>
+                      {changed && delta !== null && (
+                        <div className={cn('text-xs font-medium', deltaClassName(delta, row.field))}>
+                          {formatDelta(delta, row.values[0], row.field, numberFormat)}
+                        </div>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {chart && seriesField && chartData.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <h4 className="font-semibold">{seriesField.label} by {chart.x.label.toLowerCase()}</h4>
+              {seriesKeys.length > 1 && (
+                <Select value={activeSeries} onValueChange={setSeriesKey}>
+                  <SelectTrigger className="w-full sm:w-56"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {seriesKeys.map(key => (
+                      <SelectItem key={key} value={key}>{chart.series[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                {numericAxis ? (
+                  <LineChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey={chart.x.key} />
+                    <YAxis tickFormatter={value => formatOutputValue(value, { ...seriesField, unit: undefined }, numberFormat)} width={90} />
+                    <Tooltip formatter={(value: number) => formatOutputValue(value, seriesField, numberFormat)} labelFormatter={label => `${chart.x.label} ${label}`} />
+                    <Legend />
+                    {labels.map(label => (
+                      <Line key={label} type="monotone" dataKey={label} stroke={scenarioColor(label)} dot={false} connectNulls={false} />
+                    ))}
+                  </LineChart>
+                ) : (
+                  <BarChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey={chart.x.key} />
+                    <YAxis tickFormatter={value => formatOutputValue(value, { ...seriesField, unit: undefined }, numberFormat)} width={90} />
+                    <Tooltip formatter={(value: number) => formatOutputValue(value, seriesField, numberFormat)} />
+                    <Legend />
+                    {labels.map(label => (
+                      <Bar key={label} dataKey={label} fill={scenarioColor(label)} />
+                    ))}
+                  </BarChart>
+                )}
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
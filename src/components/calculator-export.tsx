@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Calculator, Download, FileImage, FileSpreadsheet, Printer } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLocalHistory } from '@/hooks/use-local-history';
+import { toast } from '@/hooks/use-toast';
+import {
+  chartPngBlob,
+  chartSvgMarkup,
+  downloadBlob,
+  downloadCsv,
+  findExportCharts,
+  findExportTables,
+  getExportRoot,
+  tablesToCsv,
+} from '@/lib/export';
+import { calculatorKey } from '@/lib/local-history';
+
+interface CalculatorExportProps {
+  calculatorSlug: string;
+}
+
+/**
+ * Export menu for any calculator page: the tables and charts the calculator has rendered
+ * download as CSV, PNG or SVG, and the print stylesheet turns the page into a report.
+ */
+export function CalculatorExport({ calculatorSlug }: CalculatorExportProps) {
+  const [available, setAvailable] = useState({ tables: 0, charts: 0 });
+
+  // Tables and charts appear once there is a result, so count them whenever the menu opens.
+  const refresh = (open: boolean) => {
+    const root = getExportRoot();
+    if (open && root) {
+      setAvailable({ tables: findExportTables(root).length, charts: findExportCharts(root).length });
+    }
+  };
+
+  const exportTables = () => {
+    const root = getExportRoot();
+    if (root) {
+      downloadCsv(`${calculatorSlug}.csv`, tablesToCsv(findExportTables(root)));
+    }
+  };
+
+  const exportCharts = async (type: 'png' | 'svg') => {
+    const root = getExportRoot();
+    const charts = root ? findExportCharts(root) : [];
+    try {
+      for (const [index, chart] of charts.entries()) {
+        const filename = `${calculatorSlug}-chart${charts.length > 1 ? `-${index + 1}` : ''}.${type}`;
+        const blob = type === 'png'
+          ? await chartPngBlob(chart)
+          : new Blob([chartSvgMarkup(chart)], { type: 'image/svg+xml;charset=utf-8' });
+        downloadBlob(filename, blob);
+      }
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not export the chart', description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={refresh}>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Export this calculation</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem disabled={available.tables === 0} onSelect={exportTables}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Tables as CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={available.charts === 0} onSelect={() => exportCharts('png')}>
+          <FileImage className="mr-2 h-4 w-4" />
+          {available.charts > 1 ? 'Charts' : 'Chart'} as PNG
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={available.charts === 0} onSelect={() => exportCharts('svg')}>
+          <FileImage className="mr-2 h-4 w-4" />
+          {available.charts > 1 ? 'Charts' : 'Chart'} as SVG
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        {/* Let the menu close before the print dialog captures the page. */}
+        <DropdownMenuItem onSelect={() => setTimeout(() => window.print(), 100)}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print or save as PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+/**
+ * Branded heading that only appears on paper or in a saved PDF, with the address of the
+ * page (which carries the inputs for calculators with shareable links) and the date. That is
+ * when the result was calculated for engine-backed calculators computed on this visit, which
+ * record it in local history, and otherwise when the page was printed.
+ */
+export function CalculatorPrintHeader({ calculatorName, categorySlug, calculatorSlug }: {
+  calculatorName: string;
+  categorySlug: string;
+  calculatorSlug: string;
+}) {
+  const history = useLocalHistory();
+  const [openedAt] = useState(() => new Date().toISOString());
+  const [printedAt, setPrintedAt] = useState<Date | null>(null);
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    const update = () => {
+      setPrintedAt(new Date());
+      setUrl(window.location.href);
+    };
+    update();
+    window.addEventListener('beforeprint', update);
+    return () => window.removeEventListener('beforeprint', update);
+  }, []);
+
+  // Timestamps are ISO strings, which compare in time order.
+  const latest = history.calculations[calculatorKey(categorySlug, calculatorSlug)]?.[0];
+  const calculatedAt = latest && latest.timestamp >= openedAt ? new Date(latest.timestamp) : null;
+
+  return (
+    <div className="hidden print:block mb-6 border-b-2 border-primary pb-4">
+      <div className="flex items-center justify-between gap-4">
+        <span className="flex items-center gap-2 text-lg font-bold">
+          <Calculator className="h-6 w-6 text-primary" />
+          Mycalculating.com
+        </span>
+        {calculatedAt ? (
+          <span className="text-sm">Calculated on {format(calculatedAt, 'PPP p')}</span>
+        ) : (
+          printedAt && <span className="text-sm">Printed on {format(printedAt, 'PPP p')}</span>
+        )}
+      </div>
+      <p className="text-2xl font-bold mt-4">{calculatorName}</p>
+      {url && <p className="text-xs text-muted-foreground break-all mt-1">{url}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { Crosshair } from 'lucide-react';
+
+import { EngineInputFields } from '@/components/engine-input-fields';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePreferences } from '@/components/preferences-provider';
+import { useLocalHistory } from '@/hooks/use-local-history';
+import {
+  coerceInputValues,
+  describeInputs,
+  formatInputValue,
+  formatOutputValue,
+  getCalculatorDefinition,
+  goalSeek,
+  type GoalSeekResult,
+  type OutputField,
+} from '@/lib/engine';
+import { calculatorKey, requestRestore } from '@/lib/local-history';
+
+interface CalculatorGoalSeekProps {
+  categorySlug: string;
+  calculatorSlug: string;
+}
+
+/**
+ * Works an engine-backed calculator backwards: the visitor sets a target for one output and
+ * picks the input to change, and the solver finds the value within that input's allowed range.
+ * Renders nothing for calculators without a definition.
+ */
+export function CalculatorGoalSeek({ categorySlug, calculatorSlug }: CalculatorGoalSeekProps) {
+  const { preferences: numberFormat } = usePreferences();
+  const definition = getCalculatorDefinition(categorySlug, calculatorSlug);
+  const history = useLocalHistory();
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [outputName, setOutputName] = useState('');
+  const [target, setTarget] = useState('');
+  const [solveFor, setSolveFor] = useState('');
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  if (!definition) {
+    return null;
+  }
+
+  const key = calculatorKey(categorySlug, calculatorSlug);
+  const numericInputs = describeInputs(definition).filter(input => input.type === 'number' || input.type === 'integer');
+  const numericOutputs = Object.entries(definition.outputs as Record<string, OutputField>).filter(([, field]) => field.format !== 'text');
+  const solvedInput = numericInputs.find(input => input.name === solveFor);
+  const targetField = outputName ? (definition.outputs as Record<string, OutputField>)[outputName] : undefined;
+
+  if (numericInputs.length === 0 || numericOutputs.length === 0) {
+    return null;
+  }
+
+  const start = () => {
+    // Start from the visitor's latest calculation, so only the target needs filling in.
+    const latest = history.calculations[key]?.[0];
+    setValues(latest ? Object.fromEntries(Object.entries(latest.inputs).map(([name, value]) => [name, String(value)])) : {});
+    setOutputName(numericOutputs[0][0]);
+    setSolveFor(numericInputs[0].name);
+    setTarget('');
+    setResult(null);
+    setOpen(true);
+  };
+
+  const solve = () => {
+    setResult(
+      goalSeek(definition, {
+        inputs: coerceInputValues(definition, values),
+        solveFor,
+        output: outputName,
+        target: target.trim() === '' ? NaN : Number(target),
+      })
+    );
+  };
+
+  const apply = (solved: Extract<GoalSeekResult, { success: true }>) => {
+    // Two decimals are plenty for a form field, unless rounding pushes the value out of range.
+    const rounded = solvedInput?.type === 'integer' ? solved.value : Number(solved.value.toFixed(2));
+    const inputs = { ...solved.inputs, [solveFor]: rounded };
+    requestRestore(key, definition.inputSchema.safeParse(inputs).success ? inputs : solved.inputs);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  if (!open) {
+    return (
+      <div className="mt-12 p-6 bg-muted/50 rounded-lg border flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Goal Seek</h3>
+          <p className="text-sm text-muted-foreground">Set the result you want and find the input that gets you there.</p>
+        </div>
+        <Button type="button" onClick={start}>
+          <Crosshair className="mr-2 h-4 w-4" />
+          Goal Seek
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="mt-12">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Goal Seek</CardTitle>
+            <CardDescription>The other inputs stay fixed while one is solved for.</CardDescription>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(false)}>Close</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="goal-seek-output" className="text-xs text-muted-foreground">Target result</Label>
+            <Select value={outputName} onValueChange={value => { setOutputName(value); setResult(null); }}>
+              <SelectTrigger id="goal-seek-output"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {numericOutputs.map(([name, field]) => (
+                  <SelectItem key={name} value={name}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="goal-seek-target" className="text-xs text-muted-foreground">
+              Target value{targetField?.unit ? ` (${targetField.unit})` : ''}
+            </Label>
+            <Input id="goal-seek-target" type="number" value={target} onChange={e => { setTarget(e.target.value); setResult(null); }} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="goal-seek-input" className="text-xs text-muted-foreground">Solve for</Label>
+            <Select value={solveFor} onValueChange={value => { setSolveFor(value); setResult(null); }}>
+              <SelectTrigger id="goal-seek-input"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {numericInputs.map(input => (
+                  <SelectItem key={input.name} value={input.name}>{input.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="rounded-lg border p-4">
+          <p className="text-sm font-semibold mb-3">Fixed inputs</p>
+          <EngineInputFields
+            definition={definition}
+            values={values}
+            onChange={(name, value) => { setValues(current => ({ ...current, [name]: value })); setResult(null); }}
+            idPrefix="goal-seek"
+            exclude={[solveFor]}
+          />
+        </div>
+
+        <Button type="button" onClick={solve} disabled={target.trim() === ''}>
+          <Crosshair className="mr-2 h-4 w-4" />
+          Solve
+        </Button>
+
+        {result?.success && solvedInput && targetField && (
+          <div className="rounded-lg border bg-primary/5 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">{solvedInput.label}</p>
+              <p className="text-2xl font-bold tabular-nums">{formatInputValue(result.value, solvedInput, numberFormat)}</p>
+              <p className="text-sm text-muted-foreground">
+                gives {targetField.label.toLowerCase()} of {formatOutputValue(result.achieved, targetField, numberFormat)}
+              </p>
+            </div>
+            <Button type="button" variant="outline" onClick={() => apply(result)}>Use in calculator</Button>
+          </div>
+        )}
+        {result && !result.success && (
+          <div className="rounded-lg border border-destructive/50 p-4 text-sm">
+            <p className="font-medium text-destructive">
+              {result.reason === 'no_solution' ? 'No solution in range' : result.message}
+            </p>
+            {result.reason === 'no_solution' && (
+              <p className="text-muted-foreground mt-1">
+                {result.message}
+                {result.reachable && targetField && (
+                  <> With these inputs it ranges from {formatOutputValue(result.reachable.min, targetField, numberFormat)} to {formatOutputValue(result.reachable.max, targetField, numberFormat)}.</>
+                )}
+              </p>
+            )}
+            {result.reason === 'invalid_input' && (
+              <ul className="text-muted-foreground mt-1 list-disc pl-5">
+                {result.issues.map(issue => (
+                  <li key={issue.path}>{describeInputs(definition).find(input => input.name === issue.path)?.label ?? issue.path}: {issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
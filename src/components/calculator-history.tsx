@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, RotateCcw, Star } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { usePreferences } from '@/components/preferences-provider';
+import { useLocalHistory } from '@/hooks/use-local-history';
+import { describeInputs, formatOutputValue, getCalculatorDefinition, inputUnitLabel } from '@/lib/engine';
+import { calculatorKey, clearCalculations, recordVisit, requestRestore, toggleFavourite } from '@/lib/local-history';
+import { cn } from '@/lib/utils';
+
+interface CalculatorHistoryProps {
+  categorySlug: string;
+  calculatorSlug: string;
+}
+
+/**
+ * Favourite toggle and, for engine-backed calculators, a drawer of recent calculations that
+ * restores one into the form. Also records the visit for the home page's "Recently used" row.
+ */
+export function CalculatorHistory({ categorySlug, calculatorSlug }: CalculatorHistoryProps) {
+  const { preferences: numberFormat } = usePreferences();
+  const key = calculatorKey(categorySlug, calculatorSlug);
+  const history = useLocalHistory();
+  const [open, setOpen] = useState(false);
+  const definition = getCalculatorDefinition(categorySlug, calculatorSlug);
+  const entries = history.calculations[key] ?? [];
+  const isFavourite = history.favourites.includes(key);
+
+  useEffect(() => {
+    recordVisit(key);
+  }, [key]);
+
+  const inputLabels = definition ? describeInputs(definition) : [];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button type="button" variant="outline" size="sm" onClick={() => toggleFavourite(key)} aria-pressed={isFavourite}>
+        <Star className={cn('mr-2 h-4 w-4', isFavourite && 'fill-primary text-primary')} />
+        {isFavourite ? 'Favourite' : 'Add to favourites'}
+      </Button>
+
+      {definition && (
+        <Sheet open={open} onOpenChange={setOpen}>
+          <SheetTrigger asChild>
+            <Button type="button" variant="outline" size="sm">
+              <History className="mr-2 h-4 w-4" />
+              History{entries.length > 0 ? ` (${entries.length})` : ''}
+            </Button>
+          </SheetTrigger>
+          <SheetContent className="overflow-y-auto">
+            <SheetHeader>
+              <SheetTitle>Recent calculations</SheetTitle>
+              <SheetDescription>Your last calculations, kept in this browser only. Restore one to load its inputs.</SheetDescription>
+            </SheetHeader>
+            <div className="mt-6 space-y-4">
+              {entries.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing yet. Calculate a result and it will appear here.</p>
+              )}
+              {entries.map(entry => (
+                <div key={entry.timestamp} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => {
+                        requestRestore(key, entry.inputs);
+                        setOpen(false);
+                      }}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                  </div>
+                  <dl className="text-sm space-y-1">
+                    {inputLabels.filter(input => entry.inputs[input.name] !== undefined).map(input => (
+                      <div key={input.name} className="flex justify-between gap-4">
+                        <dt className="text-muted-foreground">{input.label}</dt>
+                        <dd>{[String(entry.inputs[input.name]), inputUnitLabel(input, numberFormat)].filter(Boolean).join(' ')}</dd>
+                      </div>
+                    ))}
+                    {Object.entries(entry.outputs).slice(0, 2).map(([name, value]) => {
+                      const field = definition.outputs[name];
+                      return field && (
+                        <div key={name} className="flex justify-between gap-4 font-medium">
+                          <dt>{field.label}</dt>
+                          <dd className="tabular-nums">{formatOutputValue(value, field, numberFormat)}</dd>
+                        </div>
+                      );
+                    })}
+                  </dl>
+                </div>
+              ))}
+              {entries.length > 0 && (
+                <Button type="button" variant="ghost" size="sm" className="w-full" onClick={() => clearCalculations(key)}>
+                  Clear history
+                </Button>
+              )}
+            </div>
+          </SheetContent>
+        </Sheet>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import type { ComponentType } from 'react';
+import dynamic from 'next/dynamic';
+
+// One lazily-loaded component per module path, so re-renders keep the same component identity.
+const loadedComponents = new Map<string, ComponentType<Record<string, string>>>();
+
+function getCalculatorComponent(componentPath: string): ComponentType<Record<string, string>> {
+  let Component = loadedComponents.get(componentPath);
+  if (!Component) {
+    Component = dynamic<Record<string, string>>(() => import(`@/components/calculators/${componentPath}`));
+    loadedComponents.set(componentPath, Component);
+  }
+  return Component;
+}
+
+interface CalculatorRendererProps {
+  componentPath: string;
+  componentProps?: Record<string, string>;
+}
+
+export function CalculatorRenderer({ componentPath, componentProps }: CalculatorRendererProps) {
+  const CalculatorComponent = getCalculatorComponent(componentPath);
+  return <CalculatorComponent {...componentProps} />;
+}
@@ -0,0 +1,374 @@
+'use client';
+
+import { useState } from 'react';
+import { Activity } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+import { EngineInputFields } from '@/components/engine-input-fields';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usePreferences } from '@/components/preferences-provider';
+import { useLocalHistory } from '@/hooks/use-local-history';
+import {
+  coerceInputValues,
+  dataTable,
+  describeInputs,
+  formatInputValue,
+  formatOutputValue,
+  getCalculatorDefinition,
+  steppedValues,
+  tornadoAnalysis,
+  type InputDescriptor,
+  type InputRange,
+  type OutputField,
+} from '@/lib/engine';
+import { calculatorKey } from '@/lib/local-history';
+
+const defaultPercent = '10';
+const defaultSteps = '5';
+const maxSteps = 12;
+
+interface AxisState {
+  name: string;
+  from: string;
+  to: string;
+  steps: string;
+}
+
+/** A data table axis running from 20% below to 20% above the input's current value. */
+function defaultAxis(name: string, base: unknown, steps: string): AxisState {
+  return typeof base === 'number'
+    ? { name, from: String(Number((base * 0.8).toFixed(2))), to: String(Number((base * 1.2).toFixed(2))), steps }
+    : { name, from: '', to: '', steps };
+}
+
+/** Values for one side of the data table, whole and without repeats for integer inputs. */
+function axisValues(axis: AxisState, input: InputDescriptor | undefined): number[] {
+  const from = Number(axis.from);
+  const to = Number(axis.to);
+  const steps = Math.min(Math.max(Math.round(Number(axis.steps)) || 1, 1), maxSteps);
+  if (!input || axis.from.trim() === '' || axis.to.trim() === '' || !Number.isFinite(from) || !Number.isFinite(to)) {
+    return [];
+  }
+  const values = steppedValues(from, to, steps);
+  return input.type === 'integer' ? [...new Set(values.map(Math.round))] : values;
+}
+
+interface AxisFieldsProps {
+  label: string;
+  axis: AxisState;
+  inputs: InputDescriptor[];
+  onChange: (axis: AxisState) => void;
+  onInputChange: (name: string) => void;
+  idPrefix: string;
+}
+
+function AxisFields({ label, axis, inputs, onChange, onInputChange, idPrefix }: AxisFieldsProps) {
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-input`} className="text-xs text-muted-foreground">{label}</Label>
+        <Select value={axis.name} onValueChange={onInputChange}>
+          <SelectTrigger id={`${idPrefix}-input`}><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {inputs.map(input => (
+              <SelectItem key={input.name} value={input.name}>{input.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {(['from', 'to', 'steps'] as const).map(key => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`${idPrefix}-${key}`} className="text-xs text-muted-foreground capitalize">{key}</Label>
+            <Input
+              id={`${idPrefix}-${key}`}
+              type="number"
+              min={key === 'steps' ? 1 : undefined}
+              max={key === 'steps' ? maxSteps : undefined}
+              value={axis[key]}
+              onChange={e => onChange({ ...axis, [key]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface CalculatorSensitivityProps {
+  categorySlug: string;
+  calculatorSlug: string;
+}
+
+/**
+ * Sensitivity analysis for engine-backed calculators: a tornado chart of how far one output
+ * moves when each numeric input is varied on its own, and a two-variable data table for any
+ * pair of inputs. Renders nothing for calculators without a definition.
+ */
+export function CalculatorSensitivity({ categorySlug, calculatorSlug }: CalculatorSensitivityProps) {
+  const { preferences: numberFormat } = usePreferences();
+  const definition = getCalculatorDefinition(categorySlug, calculatorSlug);
+  const history = useLocalHistory();
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [outputName, setOutputName] = useState('');
+  const [percent, setPercent] = useState(defaultPercent);
+  const [ranges, setRanges] = useState<Record<string, { low: string; high: string }>>({});
+  const [rowAxis, setRowAxis] = useState<AxisState>({ name: '', from: '', to: '', steps: defaultSteps });
+  const [columnAxis, setColumnAxis] = useState<AxisState>({ name: '', from: '', to: '', steps: defaultSteps });
+
+  if (!definition) {
+    return null;
+  }
+
+  const numericInputs = describeInputs(definition).filter(input => input.type === 'number' || input.type === 'integer');
+  const outputs = definition.outputs as Record<string, OutputField>;
+  const numericOutputs = Object.entries(outputs).filter(([, field]) => field.format !== 'text');
+
+  if (numericInputs.length === 0 || numericOutputs.length === 0) {
+    return null;
+  }
+
+  const inputs = coerceInputValues(definition, values);
+  const outputField = outputs[outputName];
+
+  const start = () => {
+    // Start from the visitor's latest calculation, the usual thing to stress-test.
+    const latest = history.calculations[calculatorKey(categorySlug, calculatorSlug)]?.[0];
+    const seed = latest ? Object.fromEntries(Object.entries(latest.inputs).map(([name, value]) => [name, String(value)])) : {};
+    const seeded = coerceInputValues(definition, seed);
+    const columnName = numericInputs[1]?.name ?? numericInputs[0].name;
+    setValues(seed);
+    setOutputName(numericOutputs[0][0]);
+    setPercent(defaultPercent);
+    setRanges({});
+    setRowAxis(defaultAxis(numericInputs[0].name, seeded[numericInputs[0].name], defaultSteps));
+    setColumnAxis(defaultAxis(columnName, seeded[columnName], defaultSteps));
+    setOpen(true);
+  };
+
+  if (!open) {
+    return (
+      <div className="mt-12 p-6 bg-muted/50 rounded-lg border flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Sensitivity Analysis</h3>
+          <p className="text-sm text-muted-foreground">See which inputs move the result most, and tabulate any two inputs against each other.</p>
+        </div>
+        <Button type="button" onClick={start}>
+          <Activity className="mr-2 h-4 w-4" />
+          Analyse
+        </Button>
+      </div>
+    );
+  }
+
+  const customRanges: Record<string, InputRange> = {};
+  for (const [name, range] of Object.entries(ranges)) {
+    if (range.low.trim() !== '' && range.high.trim() !== '' && Number.isFinite(Number(range.low)) && Number.isFinite(Number(range.high))) {
+      customRanges[name] = { low: Number(range.low), high: Number(range.high) };
+    }
+  }
+  const percentValue = Math.abs(Number(percent)) || 0;
+  const tornado = outputField ? tornadoAnalysis(definition, inputs, outputName, percentValue, customRanges) : null;
+  const tornadoData = tornado
+    ? tornado.rows.map(row => ({
+        label: row.label,
+        low: row.low.output === null ? 0 : row.low.output - tornado.baseline,
+        high: row.high.output === null ? 0 : row.high.output - tornado.baseline,
+      }))
+    : [];
+
+  const rowInput = numericInputs.find(input => input.name === rowAxis.name);
+  const columnInput = numericInputs.find(input => input.name === columnAxis.name);
+  const table = outputField && rowInput && columnInput && rowInput.name !== columnInput.name
+    ? dataTable(
+        definition,
+        inputs,
+        outputName,
+        { name: rowInput.name, values: axisValues(rowAxis, rowInput) },
+        { name: columnInput.name, values: axisValues(columnAxis, columnInput) }
+      )
+    : null;
+  const deltaField = outputField ? { ...outputField, unit: undefined } : undefined;
+
+  return (
+    <Card className="mt-12">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Sensitivity Analysis</CardTitle>
+            <CardDescription>Every other input stays at the values below while one or two are varied.</CardDescription>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(false)}>Close</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-8">
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="sensitivity-output" className="text-xs text-muted-foreground">Result to analyse</Label>
+            <Select value={outputName} onValueChange={setOutputName}>
+              <SelectTrigger id="sensitivity-output"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {numericOutputs.map(([name, field]) => (
+                  <SelectItem key={name} value={name}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <EngineInputFields
+            definition={definition}
+            values={values}
+            onChange={(name, value) => setValues(current => ({ ...current, [name]: value }))}
+            idPrefix="sensitivity"
+          />
+        </div>
+
+        <Tabs defaultValue="tornado" className="min-w-0">
+          <TabsList>
+            <TabsTrigger value="tornado">Tornado chart</TabsTrigger>
+            <TabsTrigger value="table">Data table</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="tornado" className="space-y-6">
+            {!tornado || !outputField ? (
+              <p className="text-sm text-muted-foreground">Fill in valid inputs to see how sensitive the result is.</p>
+            ) : (
+              <>
+                <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                  <p className="text-sm">
+                    Baseline {outputField.label.toLowerCase()}: <span className="font-semibold">{formatOutputValue(tornado.baseline, outputField, numberFormat)}</span>
+                  </p>
+                  <div className="space-y-1">
+                    <Label htmlFor="sensitivity-percent" className="text-xs text-muted-foreground">Vary each input by ± %</Label>
+                    <Input id="sensitivity-percent" type="number" min={0} className="w-32" value={percent} onChange={e => setPercent(e.target.value)} />
+                  </div>
+                </div>
+                <div style={{ height: Math.max(160, tornadoData.length * 56 + 60) }}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" tickFormatter={value => formatOutputValue(value, deltaField!, numberFormat)} />
+                      <YAxis type="category" dataKey="label" width={140} />
+                      <Tooltip formatter={(value: number) => `${value >= 0 ? '+' : '−'}${formatOutputValue(Math.abs(value), outputField, numberFormat)}`} />
+                      <Legend />
+                      <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                      <Bar dataKey="low" name="Low input" stackId="swing" fill="hsl(var(--chart-2))" />
+                      <Bar dataKey="high" name="High input" stackId="swing" fill="hsl(var(--primary))" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Input</TableHead>
+                      <TableHead>Low</TableHead>
+                      <TableHead>High</TableHead>
+                      <TableHead className="text-right">{outputField.label} range</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tornado.rows.map(row => {
+                      const input = numericInputs.find(candidate => candidate.name === row.name)!;
+                      return (
+                        <TableRow key={row.name}>
+                          <TableCell className="font-medium">{row.label}</TableCell>
+                          {(['low', 'high'] as const).map(end => (
+                            <TableCell key={end}>
+                              <Input
+                                type="number"
+                                aria-label={`${row.label} ${end}`}
+                                className="h-8 w-28"
+                                placeholder={String(Number(row[end].input.toFixed(2)))}
+                                value={ranges[row.name]?.[end] ?? ''}
+                                onChange={e => setRanges(current => ({
+                                  ...current,
+                                  [row.name]: { low: current[row.name]?.low ?? '', high: current[row.name]?.high ?? '', [end]: e.target.value },
+                                }))}
+                              />
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right tabular-nums">
+                            {row.low.output === null || row.high.output === null
+                              ? '—'
+                              : `${formatOutputValue(row.low.output, outputField, numberFormat)} – ${formatOutputValue(row.high.output, outputField, numberFormat)}`}
+                            <div className="text-xs text-muted-foreground">
+                              {formatInputValue(row.low.input, input, numberFormat)} to {formatInputValue(row.high.input, input, numberFormat)}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground">Leave Low and High empty to use ±{percentValue}% of the current value. Values are kept within each input&apos;s allowed range.</p>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="table" className="space-y-6">
+            {numericInputs.length < 2 ? (
+              <p className="text-sm text-muted-foreground">This calculator has only one numeric input to vary.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <AxisFields
+                    label="Rows"
+                    axis={rowAxis}
+                    inputs={numericInputs}
+                    onChange={setRowAxis}
+                    onInputChange={name => setRowAxis(defaultAxis(name, inputs[name], rowAxis.steps))}
+                    idPrefix="sensitivity-rows"
+                  />
+                  <AxisFields
+                    label="Columns"
+                    axis={columnAxis}
+                    inputs={numericInputs}
+                    onChange={setColumnAxis}
+                    onInputChange={name => setColumnAxis(defaultAxis(name, inputs[name], columnAxis.steps))}
+                    idPrefix="sensitivity-columns"
+                  />
+                </div>
+                {rowAxis.name === columnAxis.name ? (
+                  <p className="text-sm text-muted-foreground">Choose two different inputs for rows and columns.</p>
+                ) : !table || !outputField || !rowInput || !columnInput || table.rows.values.length === 0 || table.columns.values.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Enter a from and to value for both inputs.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="whitespace-nowrap">{rowInput.label} ↓ / {columnInput.label} →</TableHead>
+                          {table.columns.values.map(value => (
+                            <TableHead key={value} className="text-right whitespace-nowrap">{formatInputValue(value, columnInput, numberFormat)}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {table.rows.values.map((rowValue, rowIndex) => (
+                          <TableRow key={rowValue}>
+                            <TableHead className="whitespace-nowrap">{formatInputValue(rowValue, rowInput, numberFormat)}</TableHead>
+                            {table.cells[rowIndex].map((cell, columnIndex) => (
+                              <TableCell key={columnIndex} className="text-right tabular-nums whitespace-nowrap">
+                                {cell === null ? '—' : formatOutputValue(cell, outputField, numberFormat)}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,71 +0,0 @@
-
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  btu_hr: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const BTU_HR_TO_KW = 1 / 3412.14;
-
-export default function BtuPerHourToKilowattsConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { btu_hr: undefined },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.btu_hr * BTU_HR_TO_KW);
-  };
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField control={form.control} name="btu_hr" render={({ field }) => (
-            <FormItem>
-              <FormLabel>BTU per Hour (BTU/hr)</FormLabel>
-              <FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} /></FormControl>
-              <FormMessage />
-            </FormItem>
-          )} />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader><div className='flex items-center gap-4'><ArrowRightLeft className="h-8 w-8 text-primary" /><CardTitle>Conversion Result</CardTitle></div></CardHeader>
-          <CardContent><p className="text-3xl font-bold text-center">{result.toFixed(3)} kW</p></CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <p className='font-mono p-2 bg-muted rounded-md'>Kilowatts = BTU/hr / 3412.14</p>
-          </div>
-        </div>
-         <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/kilowatts-to-btu-per-hour-converter" className="text-primary underline">Kilowatts to BTU/hr Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,134 +0,0 @@
-
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  calories: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const CALORIES_TO_JOULES = 4.184;
-
-export default function CaloriesToJoulesConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      calories: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.calories * CALORIES_TO_JOULES);
-  };
-
-  const conversionTable = [
-    { calories: 1, joules: 1 * CALORIES_TO_JOULES },
-    { calories: 10, joules: 10 * CALORIES_TO_JOULES },
-    { calories: 100, joules: 100 * CALORIES_TO_JOULES },
-    { calories: 1000, joules: 1000 * CALORIES_TO_JOULES },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="calories"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Calories (cal)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toLocaleString()} J</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Joules = Calories × 4.184</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A snack containing 200 calories (nutritional) is equivalent to `200 * 1000 * 4.184 = 836,800 Joules` or 836.8 kJ of energy.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">Used in chemistry and nutrition science to convert between the thermochemical calorie and the standard SI unit of energy, the Joule.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Calories (cal)</TableHead>
-                <TableHead className="text-right">Joules (J)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.calories}>
-                  <TableCell>{item.calories}</TableCell>
-                  <TableCell className="text-right">{item.joules.toFixed(3)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">What is the difference between calories and kilocalories?</h4>
-              <p>One kilocalorie (kcal) is equal to 1,000 calories (cal). In nutrition, the term "Calorie" (with a capital C) is often used to mean a kilocalorie.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/joules-to-calories-converter" className="text-primary underline">Joules to Calories Converter</Link></p>
-            <p><Link href="/category/conversions/calories-to-kilocalories-converter" className="text-primary underline">Calories to Kilocalories Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,138 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Clock } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  days: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const DAYS_TO_HOURS = 24;
-
-export default function DaysToHoursConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { days: undefined },
-  });
-
-  const daysValue = form.watch('days');
-
-  useEffect(() => {
-    if (daysValue !== undefined && !isNaN(daysValue)) {
-      setResult(daysValue * DAYS_TO_HOURS);
-    } else {
-      setResult(null);
-    }
-  }, [daysValue]);
-
-  const conversionTable = [
-    { day: 1, hr: 24 },
-    { day: 2, hr: 48 },
-    { day: 7, hr: 168 },
-    { day: 14, hr: 336 },
-    { day: 30, hr: 720 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="days"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Days</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Clock className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toLocaleString()} hours</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Hours = Days × 24</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A 3-day weekend is equal to `3 × 24 = 72 hours`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">Helpful for event planning, project timelines, and breaking down long-term durations into a smaller, more detailed time unit.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Days</TableHead>
-                <TableHead className="text-right">Hours (hr)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.day}>
-                  <TableCell>{item.day}</TableCell>
-                  <TableCell className="text-right">{item.hr}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many hours are in a year?</h4>
-              <p>There are 8,760 hours in a common year (365 days × 24 hours/day).</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/hours-to-days-converter" className="text-primary underline">Hours to Days Converter</Link></p>
-            <p><Link href="/category/conversions/days-to-weeks-converter" className="text-primary underline">Days to Weeks Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,137 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Clock } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  days: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const DAYS_TO_SECONDS = 86400;
-
-export default function DaysToSecondsConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { days: undefined },
-  });
-
-  const daysValue = form.watch('days');
-
-  useEffect(() => {
-    if (daysValue !== undefined && !isNaN(daysValue)) {
-      setResult(daysValue * DAYS_TO_SECONDS);
-    } else {
-      setResult(null);
-    }
-  }, [daysValue]);
-
-  const conversionTable = [
-    { day: 1, s: 86400 },
-    { day: 7, s: 604800 },
-    { day: 30, s: 2592000 },
-    { day: 365, s: 31536000 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="days"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Days</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Clock className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toLocaleString()} seconds</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Seconds = Days × 86400</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>One week (7 days) contains `7 × 86,400 = 604,800 seconds`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">This conversion is essential in computer programming for time calculations (e.g., setting cookie expirations), scientific modeling, and astronomy.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Days</TableHead>
-                <TableHead className="text-right">Seconds (s)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.day}>
-                  <TableCell>{item.day}</TableCell>
-                  <TableCell className="text-right">{item.s.toLocaleString()}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many seconds are in a year?</h4>
-              <p>In a common year of 365 days, there are 31,536,000 seconds.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/seconds-to-days-converter" className="text-primary underline">Seconds to Days Converter</Link></p>
-            <p><Link href="/category/conversions/days-to-minutes-converter" className="text-primary underline">Days to Minutes Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
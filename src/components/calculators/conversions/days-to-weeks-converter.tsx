@@ -1,138 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Calendar } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  days: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const DAYS_TO_WEEKS = 1 / 7;
-
-export default function DaysToWeeksConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { days: undefined },
-  });
-
-  const daysValue = form.watch('days');
-
-  useEffect(() => {
-    if (daysValue !== undefined && !isNaN(daysValue)) {
-      setResult(daysValue * DAYS_TO_WEEKS);
-    } else {
-      setResult(null);
-    }
-  }, [daysValue]);
-
-  const conversionTable = [
-    { day: 7, week: 1 },
-    { day: 14, week: 2 },
-    { day: 30, week: 4.29 },
-    { day: 180, week: 25.71 },
-    { day: 365, week: 52.14 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="days"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Days</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Calendar className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} weeks</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Weeks = Days / 7</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A period of 21 days is equal to `21 / 7 = 3 weeks`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">This conversion is essential for scheduling, project planning, and understanding timeframes over weeks rather than days, which is common in business and academic contexts.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Days</TableHead>
-                <TableHead className="text-right">Weeks</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.day}>
-                  <TableCell>{item.day}</TableCell>
-                  <TableCell className="text-right">{item.week.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many days are in a month?</h4>
-              <p>The number of days varies by month (28, 29, 30, or 31). On average, there are about 30.44 days in a month.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/weeks-to-days-converter" className="text-primary underline">Weeks to Days Converter</Link></p>
-            <p><Link href="/category/conversions/days-to-seconds-converter" className="text-primary underline">Days to Seconds Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,124 +0,0 @@
-
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  fts: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const FTS_TO_MS = 0.3048;
-
-export default function FtsToMsConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      fts: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.fts * FTS_TO_MS);
-  };
-
-  const conversionTable = [
-    { fts: 1, ms: 1 * FTS_TO_MS },
-    { fts: 10, ms: 10 * FTS_TO_MS },
-    { fts: 50, ms: 50 * FTS_TO_MS },
-    { fts: 100, ms: 100 * FTS_TO_MS },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="fts"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Feet per Second (ft/s)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} m/s</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="mt-8 space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>m/s = ft/s × 0.3048</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>An object moving at 50 ft/s is traveling at `50 * 0.3048 = 15.24 m/s`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-            <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-            <p className="text-muted-foreground">This conversion is common in physics, engineering, and sports analytics, especially when converting from imperial-based measurements to standard international (SI) units.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Feet per Second (ft/s)</TableHead>
-                <TableHead className="text-right">Meters per Second (m/s)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.fts}>
-                  <TableCell>{item.fts}</TableCell>
-                  <TableCell className="text-right">{item.ms.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/meters-per-second-to-feet-per-second-converter" className="text-primary underline">m/s to ft/s Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
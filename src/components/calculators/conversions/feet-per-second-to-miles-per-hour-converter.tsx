@@ -1,124 +0,0 @@
-
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  fts: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const FTS_TO_MPH = 0.681818;
-
-export default function FtsToMphConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      fts: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.fts * FTS_TO_MPH);
-  };
-
-  const conversionTable = [
-    { fts: 1, mph: 1 * FTS_TO_MPH },
-    { fts: 1.467, mph: 1.467 * FTS_TO_MPH }, // 1 mph
-    { fts: 88, mph: 88 * FTS_TO_MPH }, // 60 mph
-    { fts: 100, mph: 100 * FTS_TO_MPH },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="fts"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Feet per Second (ft/s)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} mph</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="mt-8 space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>mph = ft/s × 0.681818</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A car traveling at 88 ft/s is moving at `88 * 0.681818 = 60 mph`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-            <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-            <p className="text-muted-foreground">This conversion is often used in automotive testing and physics problems to switch between different units within the imperial system.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Feet per Second (ft/s)</TableHead>
-                <TableHead className="text-right">Miles per Hour (mph)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.fts}>
-                  <TableCell>{item.fts}</TableCell>
-                  <TableCell className="text-right">{item.mph.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/miles-per-hour-to-feet-per-second-converter" className="text-primary underline">mph to ft/s Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
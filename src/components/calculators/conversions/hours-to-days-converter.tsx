@@ -1,138 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Clock } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  hours: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const HOURS_TO_DAYS = 1 / 24;
-
-export default function HoursToDaysConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { hours: undefined },
-  });
-
-  const hoursValue = form.watch('hours');
-
-  useEffect(() => {
-    if (hoursValue !== undefined && !isNaN(hoursValue)) {
-      setResult(hoursValue * HOURS_TO_DAYS);
-    } else {
-      setResult(null);
-    }
-  }, [hoursValue]);
-
-  const conversionTable = [
-    { hr: 12, day: 0.5 },
-    { hr: 24, day: 1 },
-    { hr: 48, day: 2 },
-    { hr: 72, day: 3 },
-    { hr: 168, day: 7 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="hours"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Hours</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Clock className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} days</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Days = Hours / 24</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A project that takes 72 hours to complete is equivalent to `72 / 24 = 3 days`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">Useful for project planning, converting travel times, and understanding longer durations in a more familiar unit.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Hours (hr)</TableHead>
-                <TableHead className="text-right">Days</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.hr}>
-                  <TableCell>{item.hr}</TableCell>
-                  <TableCell className="text-right">{item.day}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many hours in a week?</h4>
-              <p>There are 168 hours in a week (24 hours/day × 7 days/week).</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/days-to-hours-converter" className="text-primary underline">Days to Hours Converter</Link></p>
-            <p><Link href="/category/conversions/hours-to-minutes-converter" className="text-primary underline">Hours to Minutes Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
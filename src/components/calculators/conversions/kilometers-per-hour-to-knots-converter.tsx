@@ -1,124 +0,0 @@
-
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  kmh: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const KMH_TO_KNOTS = 0.539957;
-
-export default function KmhToKnotsConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      kmh: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.kmh * KMH_TO_KNOTS);
-  };
-
-  const conversionTable = [
-    { kmh: 1, knots: 1 * KMH_TO_KNOTS },
-    { kmh: 1.852, knots: 1.852 * KMH_TO_KNOTS }, // 1 Knot
-    { kmh: 50, knots: 50 * KMH_TO_KNOTS },
-    { kmh: 100, knots: 100 * KMH_TO_KNOTS },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="kmh"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Kilometers per Hour (km/h)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} knots</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="mt-8 space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Knots = km/h × 0.539957</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A ship traveling at 40 km/h has a speed of `40 * 0.539957 = 21.6 knots`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-            <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-            <p className="text-muted-foreground">This conversion is essential in maritime and aviation contexts, where knots are the standard unit of speed, to align with land-based speed measurements.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Kilometers per Hour (km/h)</TableHead>
-                <TableHead className="text-right">Knots</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.kmh}>
-                  <TableCell>{item.kmh}</TableCell>
-                  <TableCell className="text-right">{item.knots.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/knots-to-kilometers-per-hour-converter" className="text-primary underline">Knots to km/h Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,124 +0,0 @@
-
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  kmh: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const KMH_TO_MACH = 1 / 1234.8;
-
-export default function KmhToMachConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      kmh: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.kmh * KMH_TO_MACH);
-  };
-
-  const conversionTable = [
-    { kmh: 1235, mach: 1235 * KMH_TO_MACH },
-    { kmh: 2469, mach: 2469 * KMH_TO_MACH },
-    { kmh: 5000, mach: 5000 * KMH_TO_MACH },
-    { kmh: 11950, mach: 11950 * KMH_TO_MACH }, // Concorde
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="kmh"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Kilometers per Hour (km/h)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">Mach {result.toFixed(4)}</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="mt-8 space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Mach Number = km/h / 1234.8</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A fighter jet traveling at 2,470 km/h is moving at `2470 / 1234.8 = Mach 2`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-            <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-            <p className="text-muted-foreground">This conversion is almost exclusively used in aerospace and military contexts to describe the speed of high-performance aircraft relative to the speed of sound.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Kilometers per Hour (km/h)</TableHead>
-                <TableHead className="text-right">Mach Number</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.kmh}>
-                  <TableCell>{item.kmh}</TableCell>
-                  <TableCell className="text-right">{item.mach.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/mach-number-to-kilometers-per-hour-converter" className="text-primary underline">Mach to km/h Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,152 +0,0 @@
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  km: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const KM_TO_MILES = 0.621371;
-
-export default function KilometersToMilesConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      km: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.km * KM_TO_MILES);
-  };
-
-  const conversionTable = [
-    { km: 1, miles: 1 * KM_TO_MILES },
-    { km: 5, miles: 5 * KM_TO_MILES },
-    { km: 10, miles: 10 * KM_TO_MILES },
-    { km: 50, miles: 50 * KM_TO_MILES },
-    { km: 100, miles: 100 * KM_TO_MILES },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="km"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Kilometers (km)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} miles</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Miles = Kilometers × 0.621371</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Step-by-step explanation</h4>
-              <p>One mile is defined as 1.609344 kilometers. To convert kilometers to miles, you divide by 1.609344, which is equivalent to multiplying by its reciprocal (approximately 0.621371). For example, a 10-kilometer run is 10 × 0.621371 = 6.21 miles.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Kilometers (km)</TableHead>
-                <TableHead className="text-right">Miles</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.km}>
-                  <TableCell>{item.km}</TableCell>
-                  <TableCell className="text-right">{item.miles.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many kilometers are in a mile?</h4>
-              <p>There are 1.609344 kilometers in one mile.</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Why do the US and UK use different units?</h4>
-              <p>The US primarily uses the imperial system (inches, feet, pounds), a system inherited from the British Empire. While the UK has officially adopted the metric system (meters, grams), imperial units are still commonly used in everyday life. Most of the world uses the metric system for its simplicity and base-ten structure.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/miles-to-kilometers-converter" className="text-primary underline">Miles to Kilometers Converter</Link></p>
-            <p><Link href="/category/conversions/meters-to-feet-converter" className="text-primary underline">Meters to Feet Converter</Link></p>
-          </div>
-        </div>
-        <section
-          className="space-y-4 text-muted-foreground leading-relaxed"
-          itemScope
-          itemType="https://schema.org/Article"
-        >
-          <meta itemProp="headline" content="Kilometers to Miles – Fitness & Mapping Guide" />
-          <meta itemProp="author" content="MegaCalc Hub Team" />
-          <meta itemProp="about" content="How to convert kilometers to miles for workouts, cycling computers, and hiking maps, with rounding and pacing tips." />
-
-          <h3 itemProp="name" className="text-lg font-semibold text-foreground">Make units consistent</h3>
-          <p itemProp="description">If your watch logs kilometers but your goal targets miles, convert once and keep the same unit across your plan, routes, and notes.</p>
-
-          <ul className="list-disc ml-6 space-y-1">
-            <li>Training paces: keep either min/km or min/mi—avoid mixing within a session.</li>
-            <li>Cycling computers may switch between km and mi; align with group rides.</li>
-            <li>For social posts, include both units in parentheses for clarity.</li>
-          </ul>
-        </section>
-      </div>
-    </div>
-  );
-}
@@ -1,147 +0,0 @@
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  meters: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const METERS_TO_YARDS = 1.09361;
-
-export default function MetersToYardsConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      meters: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.meters * METERS_TO_YARDS);
-  };
-
-  const conversionTable = [
-    { meters: 1, yards: 1 * METERS_TO_YARDS },
-    { meters: 5, yards: 5 * METERS_TO_YARDS },
-    { meters: 10, yards: 10 * METERS_TO_YARDS },
-    { meters: 50, yards: 50 * METERS_TO_YARDS },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="meters"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Meters (m)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} yards</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Yards = Meters × 1.09361</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Step-by-step explanation</h4>
-              <p>By international agreement, one yard is defined as exactly 0.9144 meters. To convert meters to yards, you divide by 0.9144, which is equivalent to multiplying by approximately 1.09361. For example, a 100-meter dash is 100 × 1.09361 ≈ 109.36 yards long.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Meters (m)</TableHead>
-                <TableHead className="text-right">Yards</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.meters}>
-                  <TableCell>{item.meters}</TableCell>
-                  <TableCell className="text-right">{item.yards.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many meters are in a yard?</h4>
-              <p>There are exactly 0.9144 meters in one yard.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/yards-to-meters-converter" className="text-primary underline">Yards to Meters Converter</Link></p>
-            <p><Link href="/category/conversions/meters-to-feet-converter" className="text-primary underline">Meters to Feet Converter</Link></p>
-          </div>
-        </div>
-        <section
-          className="space-y-4 text-muted-foreground leading-relaxed"
-          itemScope
-          itemType="https://schema.org/Article"
-        >
-          <meta itemProp="headline" content="Meters to Yards – Sports & Field Dimensions Guide" />
-          <meta itemProp="author" content="MegaCalc Hub Team" />
-          <meta itemProp="about" content="Context for converting meters to yards for track events, football fields, golf distances, and athletics." />
-
-          <h3 itemProp="name" className="text-lg font-semibold text-foreground">Where yards are common</h3>
-          <p itemProp="description">Athletics and field sports often publish official distances in yards. Convert meters to yards when aligning with US rulebooks or broadcasts.</p>
-
-          <ul className="list-disc ml-6 space-y-1">
-            <li>100 m sprint ≈ 109.36 yd; 50 m pool length ≈ 54.68 yd.</li>
-            <li>American football field: 100 yd between goal lines (≈ 91.44 m).</li>
-            <li>Golf signage frequently uses yards; international events may list both.</li>
-          </ul>
-        </section>
-      </div>
-    </div>
-  );
-}
@@ -1,151 +0,0 @@
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  miles: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const MILES_TO_KM = 1.60934;
-
-export default function MilesToKilometersConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      miles: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.miles * MILES_TO_KM);
-  };
-
-  const conversionTable = [
-    { miles: 1, km: 1 * MILES_TO_KM },
-    { miles: 5, km: 5 * MILES_TO_KM },
-    { miles: 10, km: 10 * MILES_TO_KM },
-    { miles: 26.2, km: 26.2 * MILES_TO_KM }, // Marathon
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="miles"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Miles</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} km</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Kilometers = Miles × 1.609344</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Step-by-step explanation</h4>
-              <p>The international mile is defined as exactly 1.609344 kilometers. To convert from miles to kilometers, you multiply the number of miles by this value. For example, a marathon distance of 26.2 miles is 26.2 × 1.609344 ≈ 42.19 kilometers.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Miles</TableHead>
-                <TableHead className="text-right">Kilometers (km)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.miles}>
-                  <TableCell>{item.miles}</TableCell>
-                  <TableCell className="text-right">{item.km.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many miles are in a kilometer?</h4>
-              <p>There are approximately 0.621371 miles in one kilometer.</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Why do the US and UK use different units?</h4>
-              <p>The US primarily uses the imperial system (inches, feet, pounds), a system inherited from the British Empire. While the UK has officially adopted the metric system (meters, grams), imperial units are still commonly used in everyday life. Most of the world uses the metric system for its simplicity and base-ten structure.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/kilometers-to-miles-converter" className="text-primary underline">Kilometers to Miles Converter</Link></p>
-            <p><Link href="/category/conversions/feet-to-meters-converter" className="text-primary underline">Feet to Meters Converter</Link></p>
-          </div>
-        </div>
-        <section
-          className="space-y-4 text-muted-foreground leading-relaxed"
-          itemScope
-          itemType="https://schema.org/Article"
-        >
-          <meta itemProp="headline" content="Miles to Kilometers – Travel & Navigation Guide" />
-          <meta itemProp="author" content="MegaCalc Hub Team" />
-          <meta itemProp="about" content="Tips for converting miles to kilometers for road trips, GPS devices, and training plans, including pace and route planning." />
-
-          <h3 itemProp="name" className="text-lg font-semibold text-foreground">When planning routes</h3>
-          <p itemProp="description">Most GPS units can display either miles or kilometers. For international driving or running plans, convert distances and also check <strong>speed limits</strong> and <strong>pace units</strong>.</p>
-
-          <ul className="list-disc ml-6 space-y-1">
-            <li>Running: convert target mileage to kilometers to sync with international training plans.</li>
-            <li>Auto travel: fuel consumption labels may switch between mpg and L/100 km—be consistent.</li>
-            <li>Round to the nearest 0.1–0.5 km for itinerary readability.</li>
-          </ul>
-        </section>
-      </div>
-    </div>
-  );
-}
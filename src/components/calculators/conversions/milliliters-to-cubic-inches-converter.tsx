@@ -1,106 +0,0 @@
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import Link from 'next/link';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-
-const formSchema = z.object({
-  ml: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const ML_TO_CUBIC_INCHES = 0.0610237;
-
-export default function MillilitersToCubicInchesConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      ml: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.ml * ML_TO_CUBIC_INCHES);
-  };
-  
-  const conversionTable = [
-    { ml: 1, cubicInches: 1 * ML_TO_CUBIC_INCHES },
-    { ml: 100, cubicInches: 100 * ML_TO_CUBIC_INCHES },
-    { ml: 500, cubicInches: 500 * ML_TO_CUBIC_INCHES },
-    { ml: 1000, cubicInches: 1000 * ML_TO_CUBIC_INCHES },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="ml"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Milliliters (ml)</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(4)} in³</p>
-          </CardContent>
-        </Card>
-      )}
-       <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Milliliters (ml)</TableHead>
-                <TableHead className="text-right">Cubic Inches (in³)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.ml}>
-                  <TableCell>{item.ml.toLocaleString()}</TableCell>
-                  <TableCell className="text-right">{item.cubicInches.toFixed(3)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/cubic-inches-to-milliliters-converter" className="text-primary underline">Cubic Inches to Milliliters Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,137 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Calendar } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  minutes: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const MINUTES_TO_DAYS = 1 / 1440;
-
-export default function MinutesToDaysConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { minutes: undefined },
-  });
-
-  const minutesValue = form.watch('minutes');
-
-  useEffect(() => {
-    if (minutesValue !== undefined && !isNaN(minutesValue)) {
-      setResult(minutesValue * MINUTES_TO_DAYS);
-    } else {
-      setResult(null);
-    }
-  }, [minutesValue]);
-
-  const conversionTable = [
-    { min: 1440, day: 1 },
-    { min: 2880, day: 2 },
-    { min: 10080, day: 7 },
-    { min: 43200, day: 30 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="minutes"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Minutes</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Calendar className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(3)} days</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Days = Minutes / 1440</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A duration of 5,000 minutes is equal to `5000 / 1440 = 3.47 days`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">Useful for converting longer durations from minutes, such as the runtime of a TV series or a long flight, into a more understandable number of days.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Minutes (min)</TableHead>
-                <TableHead className="text-right">Days</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.min}>
-                  <TableCell>{item.min.toLocaleString()}</TableCell>
-                  <TableCell className="text-right">{item.day}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Why divide by 1,440?</h4>
-              <p>There are 24 hours in a day and 60 minutes in an hour. Therefore, there are 24 × 60 = 1,440 minutes in one day.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/days-to-minutes-converter" className="text-primary underline">Days to Minutes Converter</Link></p>
-            <p><Link href="/category/conversions/minutes-to-hours-converter" className="text-primary underline">Minutes to Hours Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,138 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Clock } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  minutes: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const MINUTES_TO_HOURS = 1 / 60;
-
-export default function MinutesToHoursConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { minutes: undefined },
-  });
-
-  const minutesValue = form.watch('minutes');
-
-  useEffect(() => {
-    if (minutesValue !== undefined && !isNaN(minutesValue)) {
-      setResult(minutesValue * MINUTES_TO_HOURS);
-    } else {
-      setResult(null);
-    }
-  }, [minutesValue]);
-
-  const conversionTable = [
-    { min: 30, hr: 0.5 },
-    { min: 60, hr: 1 },
-    { min: 90, hr: 1.5 },
-    { min: 120, hr: 2 },
-    { min: 1440, hr: 24 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="minutes"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Minutes</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Clock className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} hours</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Hours = Minutes / 60</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A 90-minute movie is `90 / 60 = 1.5 hours` long.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">Commonly used for scheduling, converting cooking times, or summarizing durations from minutes to a larger time unit.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Minutes (min)</TableHead>
-                <TableHead className="text-right">Hours (hr)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.min}>
-                  <TableCell>{item.min}</TableCell>
-                  <TableCell className="text-right">{item.hr}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many minutes in a day?</h4>
-              <p>There are 1,440 minutes in one day (24 hours × 60 minutes/hour).</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/hours-to-minutes-converter" className="text-primary underline">Hours to Minutes Converter</Link></p>
-            <p><Link href="/category/conversions/minutes-to-days-converter" className="text-primary underline">Minutes to Days Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -1,138 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Calendar } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  months: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const MONTHS_TO_WEEKS = 4.345;
-
-export default function MonthsToWeeksConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { months: undefined },
-  });
-
-  const monthsValue = form.watch('months');
-
-  useEffect(() => {
-    if (monthsValue !== undefined && !isNaN(monthsValue)) {
-      setResult(monthsValue * MONTHS_TO_WEEKS);
-    } else {
-      setResult(null);
-    }
-  }, [monthsValue]);
-
-  const conversionTable = [
-    { month: 1, week: 4.35 },
-    { month: 3, week: 13.04 },
-    { month: 6, week: 26.07 },
-    { month: 12, week: 52.14 },
-    { month: 24, week: 104.29 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="months"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Months</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Calendar className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} weeks</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Weeks ≈ Months × 4.345</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A 6-month period is approximately `6 × 4.345 = 26.07 weeks`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">Useful for project timelines and financial planning where a monthly period needs to be understood in terms of weekly increments.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Months</TableHead>
-                <TableHead className="text-right">Weeks (approx.)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.month}>
-                  <TableCell>{item.month}</TableCell>
-                  <TableCell className="text-right">{item.week.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Why is this conversion an approximation?</h4>
-              <p>Months have a variable number of days. This calculator uses the average number of weeks in a month, which is approximately 4.345.</p>
-            </div>
-          </div>
-        </div>
-         <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/weeks-to-months-converter" className="text-primary underline">Weeks to Months Converter</Link></p>
-            <p><Link href="/category/conversions/months-to-years-converter" className="text-primary underline">Months to Years Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
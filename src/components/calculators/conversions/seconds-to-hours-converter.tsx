@@ -1,138 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Clock } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  seconds: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const SECONDS_TO_HOURS = 1 / 3600;
-
-export default function SecondsToHoursConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { seconds: undefined },
-  });
-
-  const secondsValue = form.watch('seconds');
-
-  useEffect(() => {
-    if (secondsValue !== undefined && !isNaN(secondsValue)) {
-      setResult(secondsValue * SECONDS_TO_HOURS);
-    } else {
-      setResult(null);
-    }
-  }, [secondsValue]);
-
-  const conversionTable = [
-    { s: 3600, hr: 1 },
-    { s: 7200, hr: 2 },
-    { s: 10800, hr: 3 },
-    { s: 43200, hr: 12 },
-    { s: 86400, hr: 24 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="seconds"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Seconds</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Clock className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(4)} hours</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Hours = Seconds / 3600</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>An event lasting 7,200 seconds is equal to `7200 / 3600 = 2 hours`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">This is useful for converting precise time measurements from scientific instruments, coding benchmarks, or video timestamps into a more commonly understood format.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Seconds (s)</TableHead>
-                <TableHead className="text-right">Hours (hr)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.s}>
-                  <TableCell>{item.s}</TableCell>
-                  <TableCell className="text-right">{item.hr}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many seconds are in a day?</h4>
-              <p>There are 86,400 seconds in one day (24 hours × 60 minutes/hour × 60 seconds/minute).</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/hours-to-seconds-converter" className="text-primary underline">Hours to Seconds Converter</Link></p>
-            <p><Link href="/category/conversions/seconds-to-minutes-converter" className="text-primary underline">Seconds to Minutes Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
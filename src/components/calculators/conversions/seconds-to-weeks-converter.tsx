@@ -1,137 +0,0 @@
-
-'use client';
-
-import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Calendar } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  seconds: z.coerce.number().nonnegative('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const SECONDS_TO_WEEKS = 1 / 604800;
-
-export default function SecondsToWeeksConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: { seconds: undefined },
-  });
-
-  const secondsValue = form.watch('seconds');
-
-  useEffect(() => {
-    if (secondsValue !== undefined && !isNaN(secondsValue)) {
-      setResult(secondsValue * SECONDS_TO_WEEKS);
-    } else {
-      setResult(null);
-    }
-  }, [secondsValue]);
-
-  const conversionTable = [
-    { s: 604800, w: 1 },
-    { s: 1209600, w: 2 },
-    { s: 2592000, w: 4.29 },
-    { s: 31536000, w: 52.14 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={(e) => e.preventDefault()} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="seconds"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Seconds</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <Calendar className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(4)} weeks</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Weeks = Seconds / 604,800</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Example</h4>
-              <p>A duration of 2,000,000 seconds is `2,000,000 / 604,800 = 3.31 weeks`.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Use Cases</h3>
-          <p className="text-muted-foreground">This conversion is useful for translating very long durations, such as server uptime or astronomical event timings, into a more comprehensible weekly format.</p>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Seconds (s)</TableHead>
-                <TableHead className="text-right">Weeks</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.s}>
-                  <TableCell>{item.s.toLocaleString()}</TableCell>
-                  <TableCell className="text-right">{item.w.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many seconds are in a week?</h4>
-              <p>There are 604,800 seconds in a week (7 days × 24 hours/day × 60 minutes/hour × 60 seconds/minute).</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/weeks-to-seconds-converter" className="text-primary underline">Weeks to Seconds Converter</Link></p>
-            <p><Link href="/category/conversions/seconds-to-days-converter" className="text-primary underline">Seconds to Days Converter</Link></p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import Link from 'next/link';
+import { ArrowRightLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { calculators } from '@/lib/calculators';
+import {
+  convertUnits,
+  describeConversion,
+  formatQuantity,
+  getUnit,
+  getUnitDimension,
+  type DimensionDefinition,
+  type UnitDefinition,
+} from '@/lib/units';
+
+interface UnitConverterProps {
+  /** Unit ids the page opens with; both must belong to the same dimension. */
+  from: string;
+  to: string;
+}
+
+type Side = 'from' | 'to';
+
+// What goes back into a number field: no grouping, and exponents the field can parse.
+function editableNumber(value: number): string {
+  return Number.isFinite(value) ? String(Number(value.toPrecision(10))) : '';
+}
+
+function parseNumber(text: string): number | null {
+  const value = Number(text.replace(/,/g, ''));
+  return text.trim() !== '' && Number.isFinite(value) ? value : null;
+}
+
+function parseReferenceValues(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .map(parseNumber)
+    .filter((value): value is number => value !== null)
+    .slice(0, 50);
+}
+
+function UnitSelect({ label, value, units, onChange }: { label: string; value: string; units: UnitDefinition[]; onChange: (id: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {units.map((unit) => (
+          <SelectItem key={unit.id} value={unit.id}>
+            {unit.plural} ({unit.symbol})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const signed = (value: number) => `${value < 0 ? '−' : '+'} ${formatQuantity(Math.abs(value), 12)}`;
+
+// The formula and a plain-language derivation for a pair, shaped by how the units relate.
+function explainConversion(dimension: DimensionDefinition, from: UnitDefinition, to: UnitDefinition) {
+  const relation = describeConversion(from.id, to.id);
+  switch (relation.kind) {
+    case 'affine': {
+      const { factor, offset } = relation;
+      return {
+        formula: `${to.plural} = ${from.plural} × ${formatQuantity(factor, 12)} ${signed(offset)}`,
+        explanation:
+          `The two scales differ both in the size of a degree and in where zero sits. A change of 1 ${from.symbol} is a ` +
+          `change of ${formatQuantity(factor, 12)} ${to.symbol}, and 0 ${from.symbol} is ${formatQuantity(offset, 12)} ${to.symbol}, ` +
+          `so multiply first and then add the offset. To go back, reverse both steps: ` +
+          `${from.plural} = (${to.plural} ${signed(-offset)}) ÷ ${formatQuantity(factor, 12)}.`,
+      };
+    }
+    case 'inverse': {
+      const constant = formatQuantity(relation.constant, 12);
+      return {
+        formula: `${to.plural} = ${constant} ÷ ${from.plural}`,
+        explanation:
+          `${from.plural} and ${to.plural} measure the same thing from opposite ends, so one grows as the other shrinks ` +
+          `and their product is always ${constant}. Divide ${constant} by the value; the same formula converts back: ` +
+          `${from.plural} = ${constant} ÷ ${to.plural}. Because of this, equal steps in one unit are uneven steps in the other.`,
+      };
+    }
+    case 'linear': {
+      const { factor } = relation;
+      const baseUnit = getUnit(dimension.baseUnit)!;
+      // Dividing reads better than multiplying by a long fraction, e.g. "÷ 1,000" over "× 0.001".
+      const divide = factor < 1 && Number.isInteger(Number((1 / factor).toPrecision(12)));
+      const definitions = [from, to]
+        .filter((unit, index, units) => unit.id !== baseUnit.id && units.findIndex((other) => other.id === unit.id) === index)
+        .map((unit) => `1 ${unit.name} = ${formatQuantity(unit.factor, 12)} ${baseUnit.plural}.${unit.note ? ` ${unit.note}` : ''}`);
+      return {
+        formula: divide
+          ? `${to.plural} = ${from.plural} ÷ ${formatQuantity(1 / factor, 12)}`
+          : `${to.plural} = ${from.plural} × ${formatQuantity(factor, 12)}`,
+        explanation:
+          `Both units are defined in terms of the ${baseUnit.name}, the base unit of ${dimension.name.toLowerCase()}. ` +
+          `${definitions.join(' ')} Converting to ${baseUnit.plural} and back gives 1 ${from.name} = ` +
+          `${formatQuantity(factor, 12)} ${to.plural}, and 1 ${to.name} = ${formatQuantity(1 / factor, 12)} ${from.plural}.`,
+      };
+    }
+  }
+}
+
+/**
+ * Converts between any two units of one dimension in the registry at src/lib/units. Both
+ * fields are editable: typing in either converts into the other.
+ */
+export default function UnitConverter({ from: initialFrom, to: initialTo }: UnitConverterProps) {
+  const dimension = getUnitDimension(initialFrom);
+  const [fromId, setFromId] = useState(initialFrom);
+  const [toId, setToId] = useState(initialTo);
+  // The side the visitor last typed in keeps their text; the other side is derived from it.
+  const [edited, setEdited] = useState<{ side: Side; text: string }>({ side: 'from', text: '1' });
+  // Null until the visitor edits the list; the default follows the "from" unit.
+  const [referenceText, setReferenceText] = useState<string | null>(null);
+
+  const related = useMemo(() => {
+    if (!dimension) return [];
+    const unitIds = new Set(dimension.units.map((unit) => unit.id));
+    const sameDimension = calculators.filter(
+      (calculator) =>
+        calculator.conversion &&
+        unitIds.has(calculator.conversion.from) &&
+        !(calculator.conversion.from === fromId && calculator.conversion.to === toId)
+    );
+    // Pairs sharing a unit with the current one come first.
+    const sharesUnit = (ids: { from: string; to: string }) => [ids.from, ids.to].some((id) => id === fromId || id === toId);
+    return [...sameDimension].sort((a, b) => Number(sharesUnit(b.conversion!)) - Number(sharesUnit(a.conversion!))).slice(0, 6);
+  }, [dimension, fromId, toId]);
+
+  const fromUnit = getUnit(fromId);
+  const toUnit = getUnit(toId);
+  if (!dimension || !fromUnit || !toUnit) {
+    return null;
+  }
+
+  const edit = (side: Side) => (event: ChangeEvent<HTMLInputElement>) => setEdited({ side, text: event.target.value });
+  const editedValue = parseNumber(edited.text);
+  const fromValue = edited.side === 'from' ? editedValue : editedValue === null ? null : convertUnits(editedValue, toId, fromId);
+  const toValue = edited.side === 'to' ? editedValue : editedValue === null ? null : convertUnits(editedValue, fromId, toId);
+  const fieldText = (side: Side, value: number | null) => (edited.side === side ? edited.text : value === null ? '' : editableNumber(value));
+
+  const swap = () => {
+    setFromId(toId);
+    setToId(fromId);
+    setEdited({ side: edited.side === 'from' ? 'to' : 'from', text: edited.text });
+  };
+
+  const { formula, explanation } = explainConversion(dimension, fromUnit, toUnit);
+  const tableText = referenceText ?? (fromUnit.referenceValues ?? dimension.referenceValues).join(', ');
+  const referenceValues = parseReferenceValues(tableText);
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-4">
+            <ArrowRightLeft className="h-8 w-8 text-primary" />
+            <CardTitle>{dimension.name} Converter</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="unit-converter-from">From</Label>
+              <UnitSelect label="From unit" value={fromId} units={dimension.units} onChange={setFromId} />
+              <Input
+                id="unit-converter-from"
+                type="number"
+                inputMode="decimal"
+                value={fieldText('from', fromValue)}
+                onChange={edit('from')}
+              />
+            </div>
+            <Button type="button" variant="outline" size="icon" onClick={swap} aria-label="Swap units" className="justify-self-center">
+              <ArrowRightLeft className="h-4 w-4" />
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="unit-converter-to">To</Label>
+              <UnitSelect label="To unit" value={toId} units={dimension.units} onChange={setToId} />
+              <Input
+                id="unit-converter-to"
+                type="number"
+                inputMode="decimal"
+                value={fieldText('to', toValue)}
+                onChange={edit('to')}
+              />
+            </div>
+          </div>
+          {fromValue !== null && toValue !== null && (
+            <p className="text-3xl font-bold text-center" aria-live="polite">
+              {formatQuantity(fromValue)} {fromUnit.symbol} = {formatQuantity(toValue)} {toUnit.symbol}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+      <div className="space-y-8">
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
+          <div className="text-muted-foreground space-y-4">
+            <div>
+              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
+              <p className="font-mono p-2 bg-muted rounded-md">{formula}</p>
+            </div>
+            <div>
+              <h4 className="font-semibold text-foreground mb-1">Step-by-step explanation</h4>
+              <p>{explanation}</p>
+            </div>
+          </div>
+        </div>
+        <div>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-2 mb-2">
+            <h3 className="text-lg font-semibold">Conversion Table</h3>
+            <div className="space-y-1 sm:w-72">
+              <Label htmlFor="unit-converter-table" className="text-xs text-muted-foreground">Values to list ({fromUnit.symbol})</Label>
+              <Input id="unit-converter-table" value={tableText} onChange={(e) => setReferenceText(e.target.value)} />
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{fromUnit.plural} ({fromUnit.symbol})</TableHead>
+                <TableHead className="text-right">{toUnit.plural} ({toUnit.symbol})</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {referenceValues.map((value, index) => (
+                <TableRow key={index}>
+                  <TableCell>{formatQuantity(value)}</TableCell>
+                  <TableCell className="text-right">{formatQuantity(convertUnits(value, fromId, toId))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {related.length > 0 && (
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
+            <div className="space-y-2">
+              {related.map((calculator) => (
+                <p key={calculator.slug}>
+                  <Link href={`/category/${calculator.category}/${calculator.slug}`} className="text-primary underline">{calculator.name}</Link>
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,147 +0,0 @@
-'use client';
-
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowRightLeft } from 'lucide-react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import Link from 'next/link';
-
-const formSchema = z.object({
-  yards: z.coerce.number().positive('Must be a positive number'),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const YARDS_TO_METERS = 0.9144;
-
-export default function YardsToMetersConverter() {
-  const [result, setResult] = useState<number | null>(null);
-
-  const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      yards: undefined,
-    },
-  });
-
-  const onSubmit = (values: FormValues) => {
-    setResult(values.yards * YARDS_TO_METERS);
-  };
-
-  const conversionTable = [
-    { yards: 1, meters: 1 * YARDS_TO_METERS },
-    { yards: 10, meters: 10 * YARDS_TO_METERS },
-    { yards: 50, meters: 50 * YARDS_TO_METERS },
-    { yards: 100, meters: 100 * YARDS_TO_METERS },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <FormField
-            control={form.control}
-            name="yards"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Yards</FormLabel>
-                <FormControl>
-                  <Input type="number" {...field} value={field.value ?? ''} onChange={field.onChange} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit">Convert</Button>
-        </form>
-      </Form>
-      {result !== null && (
-        <Card className="mt-8">
-          <CardHeader>
-            <div className='flex items-center gap-4'>
-              <ArrowRightLeft className="h-8 w-8 text-primary" />
-              <CardTitle>Conversion Result</CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-3xl font-bold text-center">{result.toFixed(2)} m</p>
-          </CardContent>
-        </Card>
-      )}
-      <div className="space-y-8">
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Formula & Explanation</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Formula</h4>
-              <p className='font-mono p-2 bg-muted rounded-md'>Meters = Yards × 0.9144</p>
-            </div>
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">Step-by-step explanation</h4>
-              <p>By international agreement, one yard is defined as exactly 0.9144 meters. To convert from yards to meters, you multiply the number of yards by this value. For example, a 100-yard football field is 100 × 0.9144 = 91.44 meters long.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Conversion Table</h3>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Yards</TableHead>
-                <TableHead className="text-right">Meters (m)</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {conversionTable.map((item) => (
-                <TableRow key={item.yards}>
-                  <TableCell>{item.yards}</TableCell>
-                  <TableCell className="text-right">{item.meters.toFixed(2)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">FAQ</h3>
-          <div className="text-muted-foreground space-y-4">
-            <div>
-              <h4 className="font-semibold text-foreground mb-1">How many yards are in a meter?</h4>
-              <p>There are approximately 1.09361 yards in one meter.</p>
-            </div>
-          </div>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold mb-2">Related Converters</h3>
-          <div className="space-y-2">
-            <p><Link href="/category/conversions/meters-to-yards-converter" className="text-primary underline">Meters to Yards Converter</Link></p>
-            <p><Link href="/category/conversions/feet-to-meters-converter" className="text-primary underline">Feet to Meters Converter</Link></p>
-          </div>
-        </div>
-        <section
-          className="space-y-4 text-muted-foreground leading-relaxed"
-          itemScope
-          itemType="https://schema.org/Article"
-        >
-          <meta itemProp="headline" content="Yards to Meters – International Standards Guide" />
-          <meta itemProp="author" content="MegaCalc Hub Team" />
-          <meta itemProp="about" content="How to convert yards to meters for international competitions, manufacturing drawings, and scientific reporting." />
-
-          <h3 itemProp="name" className="text-lg font-semibold text-foreground">Publishing for a global audience</h3>
-          <p itemProp="description">Switch yards to meters when submitting to international federations or when sharing technical specs across borders.</p>
-
-          <ul className="list-disc ml-6 space-y-1">
-            <li>Adopt meters and centimeters in official documentation and product datasheets.</li>
-            <li>If the source is in yards, include both units during a transition period.</li>
-            <li>Round consistently at the end of multi‑step calculations.</li>
-          </ul>
-        </section>
-      </div>
-    </div>
-  );
-}
@@ -14,6 +14,8 @@ import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentAge: z.number().int().positive(),
@@ -52,6 +54,7 @@ interface CalculationResult {
 }
 
 export default function FourOhOneKCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<CalculationResult | null>(null);
 
   const form = useForm<FormValues>({
@@ -344,7 +347,7 @@ export default function FourOhOneKCalculator() {
                 <div>
                   <CardTitle>Your 401(k) Retirement Projection</CardTitle>
                   <CardDescription>
-                    {result.yearsToRetirement} years to retirement • ${result.monthlyContribution.toLocaleString()}/month contribution
+                    {result.yearsToRetirement} years to retirement • {formatCurrency(result.monthlyContribution, preferences)}/month contribution
                   </CardDescription>
                 </div>
               </div>
@@ -357,7 +360,7 @@ export default function FourOhOneKCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Retirement Balance</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.totalBalance.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    {formatCurrency(result.totalBalance, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Total at age {form.getValues('retirementAge')}
@@ -370,7 +373,7 @@ export default function FourOhOneKCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Your Contributions</span>
                   </div>
                   <p className="text-2xl font-bold">
-                    ${result.totalContributions.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    {formatCurrency(result.totalContributions, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.contributionPercentage.toFixed(1)}% of salary
@@ -383,7 +386,7 @@ export default function FourOhOneKCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Employer Match</span>
                   </div>
                   <p className="text-2xl font-bold text-green-600">
-                    ${result.totalEmployerMatch.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    {formatCurrency(result.totalEmployerMatch, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.matchPercentage.toFixed(1)}% of salary
@@ -399,7 +402,7 @@ export default function FourOhOneKCalculator() {
                     Interest Earned
                   </h4>
                   <p className="text-2xl font-bold text-primary">
-                    ${result.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    {formatCurrency(result.totalInterest, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     Compound growth over {result.yearsToRetirement} years
@@ -434,13 +437,13 @@ export default function FourOhOneKCalculator() {
                         label={{ value: 'Age', position: 'insideBottom', offset: -5 }}
                       />
                       <YAxis 
-                        tickFormatter={(value) => `$${(value/1000)}k`} 
+                        tickFormatter={(value) => formatCurrency(value, preferences, { compact: true })} 
                         tick={{ fontSize: 12 }}
-                        label={{ value: 'Value ($)', angle: -90, position: 'insideLeft' }}
+                        label={{ value: `Value (${currencySymbol(preferences)})`, angle: -90, position: 'insideLeft' }}
                       />
                       <Tooltip 
                         formatter={(value: number, name: string) => [
-                          `$${value.toLocaleString()}`, 
+                          formatCurrency(value, preferences), 
                           name === "yourContributions" ? "Your Contributions" : 
                           name === "employerContributions" ? "Employer Match" : "Interest Earned"
                         ]}
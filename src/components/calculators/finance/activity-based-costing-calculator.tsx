@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Target, PlusCircle, XCircle, Calculator, Info, TrendingUp, FileText, Activity } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const costPoolSchema = z.object({
   activity: z.string().min(1),
@@ -30,6 +32,7 @@ type Result = {
 };
 
 export default function ActivityBasedCostingCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<Result | null>(null);
 
   const form = useForm<FormValues>({
@@ -101,7 +104,7 @@ export default function ActivityBasedCostingCalculator() {
                       <div className="grid grid-cols-2 gap-4 mb-4">
                         <FormField control={form.control} name={`costPools.${index}.totalCost`} render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Total Cost ($)</FormLabel>
+                            <FormLabel>Total Cost ({currencySymbol(preferences)})</FormLabel>
                             <FormControl>
                               <Input type="number" placeholder="e.g., 50000" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
                             </FormControl>
@@ -164,7 +167,7 @@ export default function ActivityBasedCostingCalculator() {
           <CardContent>
             <div className="text-center p-8 bg-primary/5 rounded-lg mb-6">
               <p className="text-4xl font-bold text-primary mb-2">
-                ${result.totalAllocatedCost.toFixed(2)}
+                {formatCurrency(result.totalAllocatedCost, preferences)}
               </p>
               <p className="text-muted-foreground">
                 Total overhead cost allocated to this product
@@ -177,9 +180,9 @@ export default function ActivityBasedCostingCalculator() {
                   <div className="flex justify-between items-start">
                     <div>
                       <p className="font-medium">{detail.activity}</p>
-                      <p className="text-sm text-muted-foreground">${detail.rate.toFixed(2)} per {detail.unit}</p>
+                      <p className="text-sm text-muted-foreground">{formatCurrency(detail.rate, preferences)} per {detail.unit}</p>
                     </div>
-                    <p className="text-lg font-bold">${detail.allocatedCost.toFixed(2)}</p>
+                    <p className="text-lg font-bold">{formatCurrency(detail.allocatedCost, preferences)}</p>
                   </div>
                 </div>
               ))}
@@ -206,7 +209,7 @@ export default function ActivityBasedCostingCalculator() {
               </p>
             </div>
             <div>
-              <h4 className="font-semibold text-foreground mb-2">Total Cost ($)</h4>
+              <h4 className="font-semibold text-foreground mb-2">Total Cost ({currencySymbol(preferences)})</h4>
               <p className="text-muted-foreground">
                 The total overhead cost associated with that specific activity pool for the period. This includes all costs directly related to performing that activity for all products.
               </p>
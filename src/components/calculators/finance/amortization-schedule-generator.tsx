@@ -11,6 +11,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CalendarDays, Calculator, Info, FileText, CreditCard, TrendingUp } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   loanAmount: z.number().positive(),
@@ -23,6 +25,7 @@ type FormValues = z.infer<typeof formSchema>;
 type ScheduleItem = { paymentNumber: number; payment: number; principal: number; interest: number; balance: number };
 
 export default function AmortizationScheduleGenerator() {
+  const { preferences } = usePreferences();
   const [schedule, setSchedule] = useState<ScheduleItem[] | null>(null);
 
   const form = useForm<FormValues>({
@@ -78,7 +81,7 @@ export default function AmortizationScheduleGenerator() {
                   name="loanAmount" 
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Loan Amount ($)</FormLabel>
+                      <FormLabel>Loan Amount ({currencySymbol(preferences)})</FormLabel>
                       <FormControl>
                         <Input 
                           type="number" 
@@ -164,7 +167,7 @@ export default function AmortizationScheduleGenerator() {
               <CalendarDays className="h-8 w-8 text-primary" />
               <div>
                 <CardTitle>Amortization Schedule</CardTitle>
-                <CardDescription>Total Interest: ${totalInterest.toFixed(2)} | Total Payment: ${totalPrincipal.toFixed(2)}</CardDescription>
+                <CardDescription>Total Interest: {formatCurrency(totalInterest, preferences)} | Total Payment: {formatCurrency(totalPrincipal, preferences)}</CardDescription>
               </div>
             </div>
           </CardHeader>
@@ -184,10 +187,10 @@ export default function AmortizationScheduleGenerator() {
                   {schedule.map(item => (
                     <TableRow key={item.paymentNumber}>
                       <TableCell>{item.paymentNumber}</TableCell>
-                      <TableCell>${item.payment.toFixed(2)}</TableCell>
-                      <TableCell>${item.principal.toFixed(2)}</TableCell>
-                      <TableCell>${item.interest.toFixed(2)}</TableCell>
-                      <TableCell>${item.balance.toFixed(2)}</TableCell>
+                      <TableCell>{formatCurrency(item.payment, preferences)}</TableCell>
+                      <TableCell>{formatCurrency(item.principal, preferences)}</TableCell>
+                      <TableCell>{formatCurrency(item.interest, preferences)}</TableCell>
+                      <TableCell>{formatCurrency(item.balance, preferences)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
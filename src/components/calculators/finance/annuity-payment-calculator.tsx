@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Info, AlertCircle, Target, Calendar, BarChart, CreditCard } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   presentValue: z.number().min(0).optional(),
@@ -25,6 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function AnnuityPaymentCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     paymentAmount: number;
     totalPayments: number;
@@ -488,7 +491,7 @@ export default function AnnuityPaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Payment Amount</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.paymentAmount.toLocaleString()}
+                    {formatCurrency(result.paymentAmount, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Per payment period
@@ -501,7 +504,7 @@ export default function AnnuityPaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Payments</span>
                   </div>
                   <p className="text-3xl font-bold text-green-600">
-                    ${result.totalPayments.toLocaleString()}
+                    {formatCurrency(result.totalPayments, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Over entire period
@@ -514,7 +517,7 @@ export default function AnnuityPaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Interest</span>
                   </div>
                   <p className="text-3xl font-bold text-blue-600">
-                    ${result.totalInterest.toLocaleString()}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Interest cost
@@ -553,10 +556,10 @@ export default function AnnuityPaymentCalculator() {
                         {result.paymentSchedule.map((payment, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{payment.period}</td>
-                            <td className="text-right p-2">${payment.payment.toLocaleString()}</td>
-                            <td className="text-right p-2">${payment.principal.toLocaleString()}</td>
-                            <td className="text-right p-2">${payment.interest.toLocaleString()}</td>
-                            <td className="text-right p-2">${payment.balance.toLocaleString()}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.payment, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.principal, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.interest, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.balance, preferences)}</td>
                           </tr>
                         ))}
                       </tbody>
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, DollarSign } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   buyPrice: z.number().min(0).optional(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ArbitrageProfitCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     priceDifference: number;
     grossProfit: number;
@@ -85,7 +88,7 @@ export default function ArbitrageProfitCalculator() {
     const netProfit = grossProfit - totalCosts;
     const profitPercent = (netProfit / (v.buyPrice * v.quantity + totalCosts)) * 100;
     
-    const interpretation = `Price difference: $${priceDifference.toFixed(2)} per unit. Gross profit: $${grossProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Total costs: $${totalCosts.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Net profit: $${netProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${profitPercent.toFixed(2)}% return). ${netProfit > 0 ? 'Arbitrage opportunity is profitable after costs.' : 'Arbitrage opportunity is not profitable after costs. Consider reducing costs or finding better price differences.'}`;
+    const interpretation = `Price difference: ${formatCurrency(priceDifference, preferences)} per unit. Gross profit: ${formatCurrency(grossProfit, preferences)}. Total costs: ${formatCurrency(totalCosts, preferences)}. Net profit: ${formatCurrency(netProfit, preferences)} (${profitPercent.toFixed(2)}% return). ${netProfit > 0 ? 'Arbitrage opportunity is profitable after costs.' : 'Arbitrage opportunity is not profitable after costs. Consider reducing costs or finding better price differences.'}`;
     setResult({ priceDifference, grossProfit, totalCosts, netProfit, profitPercent, interpretation });
   };
 
@@ -100,13 +103,13 @@ export default function ArbitrageProfitCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('buyPrice', 'Buy Price ($)', 'e.g., 50.00', '$')}
-                {numInput('sellPrice', 'Sell Price ($)', 'e.g., 50.50', '$')}
+                {numInput('buyPrice', `Buy Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('sellPrice', `Sell Price (${currencySymbol(preferences)})`, 'e.g., 50.50', currencySymbol(preferences))}
               </div>
               {numInput('quantity', 'Quantity (units)', 'e.g., 1000')}
-              {numInput('buyCost', 'Buy Transaction Cost ($, optional)', 'e.g., 10', '$')}
-              {numInput('sellCost', 'Sell Transaction Cost ($, optional)', 'e.g., 10', '$')}
-              {numInput('holdingCost', 'Holding Cost ($, optional)', 'e.g., 5', '$')}
+              {numInput('buyCost', `Buy Transaction Cost (${currencySymbol(preferences)}, optional)`, 'e.g., 10', currencySymbol(preferences))}
+              {numInput('sellCost', `Sell Transaction Cost (${currencySymbol(preferences)}, optional)`, 'e.g., 10', currencySymbol(preferences))}
+              {numInput('holdingCost', `Holding Cost (${currencySymbol(preferences)}, optional)`, 'e.g., 5', currencySymbol(preferences))}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
           </Form>
@@ -121,10 +124,10 @@ export default function ArbitrageProfitCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Price Difference</div><div className={`text-xl font-semibold ${result.priceDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.priceDifference.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Gross Profit</div><div className={`text-xl font-medium ${result.grossProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.grossProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Total Costs</div><div className="text-lg font-medium">${result.totalCosts.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Net Profit</div><div className={`text-2xl font-semibold ${result.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.netProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Price Difference</div><div className={`text-xl font-semibold ${result.priceDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.priceDifference, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Gross Profit</div><div className={`text-xl font-medium ${result.grossProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.grossProfit, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Total Costs</div><div className="text-lg font-medium">{formatCurrency(result.totalCosts, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Net Profit</div><div className={`text-2xl font-semibold ${result.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.netProfit, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Profit %</div><div className={`text-xl font-medium ${result.profitPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>{result.profitPercent.toFixed(2)}%</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
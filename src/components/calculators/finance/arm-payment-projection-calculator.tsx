@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Landmark, Globe, FileText, Info } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   loanAmount: z.number().positive(),
@@ -29,6 +31,7 @@ type FormValues = z.infer<typeof formSchema>;
 type YearRow = { year: number; ratePercent: number; monthlyPayment: number; balanceEnd: number };
 
 export default function ArmPaymentProjectionCalculator() {
+  const { preferences } = usePreferences();
   const [rows, setRows] = useState<YearRow[] | null>(null);
   const [opinion, setOpinion] = useState<string>('');
 
@@ -134,7 +137,7 @@ export default function ArmPaymentProjectionCalculator() {
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField control={form.control} name="loanAmount" render={({ field }) => (
-              <FormItem><FormLabel>Loan Amount ($)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={e=>field.onChange(parseFloat(e.target.value)||undefined)} /></FormControl><FormMessage /></FormItem>
+              <FormItem><FormLabel>Loan Amount ({currencySymbol(preferences)})</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={e=>field.onChange(parseFloat(e.target.value)||undefined)} /></FormControl><FormMessage /></FormItem>
             )} />
             <FormField control={form.control} name="initialRatePercent" render={({ field }) => (
               <FormItem><FormLabel>Initial Rate (%)</FormLabel><FormControl><Input type="number" step="0.01" {...field} value={field.value ?? ''} onChange={e=>field.onChange(parseFloat(e.target.value)||undefined)} /></FormControl><FormMessage /></FormItem>
@@ -187,8 +190,8 @@ export default function ArmPaymentProjectionCalculator() {
                     <tr key={r.year} className="border-t">
                       <td className="py-2 pr-4">{r.year}</td>
                       <td className="py-2 pr-4">{r.ratePercent.toFixed(2)}</td>
-                      <td className="py-2 pr-4">${r.monthlyPayment.toLocaleString(undefined,{maximumFractionDigits:2})}</td>
-                      <td className="py-2 pr-4">${r.balanceEnd.toLocaleString(undefined,{maximumFractionDigits:0})}</td>
+                      <td className="py-2 pr-4">{formatCurrency(r.monthlyPayment, preferences)}</td>
+                      <td className="py-2 pr-4">{formatCurrency(r.balanceEnd, preferences, { maximumFractionDigits: 0 })}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -205,10 +208,10 @@ export default function ArmPaymentProjectionCalculator() {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="year" unit="yr" />
                   <YAxis yAxisId="left" tickFormatter={(value) => `${value}%`} />
-                  <YAxis yAxisId="right" orientation="right" tickFormatter={(value) => `$${(value/1000)}k`} />
+                  <YAxis yAxisId="right" orientation="right" tickFormatter={(value) => formatCurrency(value, preferences, { compact: true })} />
                   <Tooltip 
                     formatter={(value: number, name: string) => [
-                      name === 'ratePercent' ? `${value.toFixed(2)}%` : `$${value.toLocaleString()}`,
+                      name === 'ratePercent' ? `${value.toFixed(2)}%` : formatCurrency(value, preferences),
                       name === 'ratePercent' ? 'Interest Rate' : 'Monthly Payment'
                     ]}
                     labelFormatter={(year) => `Year ${year}`}
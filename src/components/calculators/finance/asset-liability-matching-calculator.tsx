@@ -10,6 +10,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Link2 } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   assets: z.string().min(1, 'Enter asset cash flows'),
@@ -39,6 +41,7 @@ function parseCashFlows(data: string): { period: number; amount: number }[] | nu
 }
 
 export default function AssetLiabilityMatchingCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     assetPV: number;
     liabilityPV: number;
@@ -104,7 +107,7 @@ export default function AssetLiabilityMatchingCalculator() {
     if (coverageRatio >= 1.1) recommendation = 'Assets exceed liabilities with comfortable margin. Portfolio is well-funded.';
     else if (coverageRatio >= 1.0) recommendation = 'Assets match liabilities. Monitor closely and maintain matching strategy.';
     else recommendation = 'Liability shortfall detected. Increase assets or reduce liabilities to restore matching.';
-    const interpretation = `Asset PV: $${assetPV.toFixed(2)}. Liability PV: $${liabilityPV.toFixed(2)}. Net PV: $${netPV >= 0 ? '+' : ''}${netPV.toFixed(2)}. Coverage ratio: ${(coverageRatio * 100).toFixed(1)}%. ${recommendation}`;
+    const interpretation = `Asset PV: ${formatCurrency(assetPV, preferences)}. Liability PV: ${formatCurrency(liabilityPV, preferences)}. Net PV: ${netPV >= 0 ? '+' : ''}${formatCurrency(netPV, preferences)}. Coverage ratio: ${(coverageRatio * 100).toFixed(1)}%. ${recommendation}`;
     setResult({ assetPV, liabilityPV, netPV, coverageRatio, interpretation, recommendation });
   };
 
@@ -151,9 +154,9 @@ export default function AssetLiabilityMatchingCalculator() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div><div className="text-sm text-muted-foreground">Asset PV</div><div className="text-xl font-semibold">${result.assetPV.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Liability PV</div><div className="text-xl font-semibold">${result.liabilityPV.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Net PV</div><div className={`text-xl font-semibold ${result.netPV >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.netPV >= 0 ? '+' : ''}{result.netPV.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Asset PV</div><div className="text-xl font-semibold">{formatCurrency(result.assetPV, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Liability PV</div><div className="text-xl font-semibold">{formatCurrency(result.liabilityPV, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Net PV</div><div className={`text-xl font-semibold ${result.netPV >= 0 ? 'text-green-600' : 'text-red-600'}`}>{result.netPV >= 0 ? '+' : ''}{formatCurrency(result.netPV, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Coverage Ratio</div><div className={`text-xl font-semibold ${result.coverageRatio >= 1 ? 'text-green-600' : 'text-red-600'}`}>{(result.coverageRatio * 100).toFixed(1)}%</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Gauge } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   accountSize: z.number().min(0).optional(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ATRBasedPositionSizeCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     positionSize: number;
     shares: number;
@@ -82,7 +85,7 @@ export default function ATRBasedPositionSizeCalculator() {
     const stopLossPrice = v.sharePrice - stopLossDistance;
     const shares = Math.floor(riskAmount / stopLossDistance);
     const positionSize = shares * v.sharePrice;
-    const interpretation = `Position size: $${positionSize.toFixed(2)} (${shares} shares at $${v.sharePrice.toFixed(2)}). Risk amount: $${riskAmount.toFixed(2)} (${v.riskPercent.toFixed(2)}% of account). Stop loss distance: $${stopLossDistance.toFixed(2)} (${multiplier}x ATR). Stop loss price: $${stopLossPrice.toFixed(2)}. This position sizing method adjusts position size based on volatility (ATR), ensuring consistent risk across different assets.`;
+    const interpretation = `Position size: ${formatCurrency(positionSize, preferences)} (${shares} shares at ${formatCurrency(v.sharePrice, preferences)}). Risk amount: ${formatCurrency(riskAmount, preferences)} (${v.riskPercent.toFixed(2)}% of account). Stop loss distance: ${formatCurrency(stopLossDistance, preferences)} (${multiplier}x ATR). Stop loss price: ${formatCurrency(stopLossPrice, preferences)}. This position sizing method adjusts position size based on volatility (ATR), ensuring consistent risk across different assets.`;
     setResult({ positionSize, shares, riskAmount, stopLossDistance, stopLossPrice, interpretation });
   };
 
@@ -96,10 +99,10 @@ export default function ATRBasedPositionSizeCalculator() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('accountSize', 'Account Size ($)', 'e.g., 100000', '$')}
+              {numInput('accountSize', `Account Size (${currencySymbol(preferences)})`, 'e.g., 100000', currencySymbol(preferences))}
               {numInput('riskPercent', 'Risk Per Trade (%)', 'e.g., 2', '%')}
-              {numInput('sharePrice', 'Share Price ($)', 'e.g., 50.00', '$')}
-              {numInput('atr', 'ATR (Average True Range) ($)', 'e.g., 1.50', '$')}
+              {numInput('sharePrice', `Share Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+              {numInput('atr', `ATR (Average True Range) (${currencySymbol(preferences)})`, 'e.g., 1.50', currencySymbol(preferences))}
               {numInput('atrMultiplier', 'ATR Multiplier (optional, default: 2)', 'e.g., 2')}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -115,11 +118,11 @@ export default function ATRBasedPositionSizeCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Position Size</div><div className="text-2xl font-semibold">${result.positionSize.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Position Size</div><div className="text-2xl font-semibold">{formatCurrency(result.positionSize, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Shares</div><div className="text-xl font-medium">{result.shares}</div></div>
-              <div><div className="text-sm text-muted-foreground">Risk Amount</div><div className="text-xl font-medium">${result.riskAmount.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Stop Loss Distance</div><div className="text-lg font-medium">${result.stopLossDistance.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Stop Loss Price</div><div className="text-lg font-medium text-red-600">${result.stopLossPrice.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Risk Amount</div><div className="text-xl font-medium">{formatCurrency(result.riskAmount, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Stop Loss Distance</div><div className="text-lg font-medium">{formatCurrency(result.stopLossDistance, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Stop Loss Price</div><div className="text-lg font-medium text-red-600">{formatCurrency(result.stopLossPrice, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { AlertTriangle, CheckCircle, Info, DollarSign, Calculator, Globe, FileText } from 'lucide-react';
 import Link from 'next/link';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency, type NumberFormatOptions } from '@/lib/engine';
 
 const formSchema = z.object({
   loanAmount: z.number().positive('Enter loan amount'),
@@ -111,13 +113,13 @@ const getBalloonStatus = (result: ReturnType<typeof calculateBalloonLoan>, value
   return { status, statusColor, bgColor, borderColor, icon, statusText, description };
 };
 
-const getDetailedInterpretation = (result: ReturnType<typeof calculateBalloonLoan>, values: FormValues) => {
+const getDetailedInterpretation = (result: ReturnType<typeof calculateBalloonLoan>, values: FormValues, format: NumberFormatOptions) => {
   const interpretations = [];
   
   // Balloon payment analysis
-  interpretations.push(`Your balloon payment of $${result.balloonPayment.toFixed(2)} represents ${result.balloonPercentage.toFixed(1)}% of the original loan amount`);
-  interpretations.push(`Regular monthly payment: $${result.regularPayment.toFixed(2)}`);
-  interpretations.push(`Total interest over the loan term: $${result.totalInterest.toFixed(2)}`);
+  interpretations.push(`Your balloon payment of ${formatCurrency(result.balloonPayment, format)} represents ${result.balloonPercentage.toFixed(1)}% of the original loan amount`);
+  interpretations.push(`Regular monthly payment: ${formatCurrency(result.regularPayment, format)}`);
+  interpretations.push(`Total interest over the loan term: ${formatCurrency(result.totalInterest, format)}`);
   
   // Risk assessment
   if (result.balloonPercentage > 50) {
@@ -136,7 +138,7 @@ const getDetailedInterpretation = (result: ReturnType<typeof calculateBalloonLoa
   
   // Interest analysis
   if (result.interestSavings > 0) {
-    interpretations.push(`You will save $${result.interestSavings.toFixed(2)} compared to a traditional loan`);
+    interpretations.push(`You will save ${formatCurrency(result.interestSavings, format)} compared to a traditional loan`);
     interpretations.push('Balloon loan provides interest savings through lower payments');
     interpretations.push('Consider if the savings justify the balloon payment risk');
   } else {
@@ -231,6 +233,7 @@ const getBalloonStrategies = (result: ReturnType<typeof calculateBalloonLoan>, v
 };
 
 export default function BalloonPaymentLoanCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<ReturnType<typeof calculateBalloonLoan> | null>(null);
 
   const form = useForm<FormValues>({
@@ -269,7 +272,7 @@ export default function BalloonPaymentLoanCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="loanAmount" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Loan Amount ($)</FormLabel>
+                    <FormLabel>Loan Amount ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input 
                         type="number" 
@@ -345,7 +348,7 @@ export default function BalloonPaymentLoanCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="balloonPayment" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Balloon Payment ($)</FormLabel>
+                    <FormLabel>Balloon Payment ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input 
                         type="number" 
@@ -404,7 +407,7 @@ export default function BalloonPaymentLoanCalculator() {
             <div className={`p-6 rounded-lg border ${getBalloonStatus(result, form.getValues()).bgColor} ${getBalloonStatus(result, form.getValues()).borderColor}`}>
               <div className="text-center space-y-4">
                 <div>
-                  <p className="text-4xl font-bold">${result.regularPayment.toFixed(2)}</p>
+                  <p className="text-4xl font-bold">{formatCurrency(result.regularPayment, preferences)}</p>
                   <p className={`text-lg font-semibold ${getBalloonStatus(result, form.getValues()).statusColor}`}>
                     {getBalloonStatus(result, form.getValues()).statusText}
                   </p>
@@ -415,7 +418,7 @@ export default function BalloonPaymentLoanCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                   <div>
                     <p className="text-muted-foreground">Balloon Payment</p>
-                    <p className="font-semibold">${result.balloonPayment.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.balloonPayment, preferences)}</p>
                   </div>
                   <div>
                     <p className="text-muted-foreground">Balloon %</p>
@@ -423,7 +426,7 @@ export default function BalloonPaymentLoanCalculator() {
                   </div>
                   <div>
                     <p className="text-muted-foreground">Interest Savings</p>
-                    <p className="font-semibold">${result.interestSavings.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.interestSavings, preferences)}</p>
                   </div>
                 </div>
               </div>
@@ -432,7 +435,7 @@ export default function BalloonPaymentLoanCalculator() {
             <div className="space-y-4">
               <h3 className="font-semibold text-foreground">Detailed Interpretation</h3>
               <ul className="space-y-2">
-                {getDetailedInterpretation(result, form.getValues()).map((interpretation, index) => (
+                {getDetailedInterpretation(result, form.getValues(), preferences).map((interpretation, index) => (
                   <li key={index} className="flex items-start gap-2">
                     <Info className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
                     <span className="text-sm">{interpretation}</span>
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, AlertTriangle } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   spotPrice: z.number().min(0).optional(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function BasisRiskCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     basis: number;
     basisPercent: number;
@@ -100,7 +103,7 @@ export default function BasisRiskCalculator() {
     const posSize = v.positionSize ?? 0;
     const riskAmount = posSize > 0 ? (basisRisk / 100) * posSize : 0;
     
-    const interpretation = `Basis: $${basis.toFixed(2)} (${basisPercent.toFixed(2)}% of spot price). Basis risk: ${basisRisk.toFixed(2)}%. Hedge effectiveness: ${hedgeEffectiveness.toFixed(1)}%. ${posSize > 0 ? `For a $${posSize.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} position, potential basis risk is $${riskAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}.` : ''} Lower basis risk and higher hedge effectiveness indicate better hedging performance.`;
+    const interpretation = `Basis: ${formatCurrency(basis, preferences)} (${basisPercent.toFixed(2)}% of spot price). Basis risk: ${basisRisk.toFixed(2)}%. Hedge effectiveness: ${hedgeEffectiveness.toFixed(1)}%. ${posSize > 0 ? `For a ${formatCurrency(posSize, preferences)} position, potential basis risk is ${formatCurrency(riskAmount, preferences)}.` : ''} Lower basis risk and higher hedge effectiveness indicate better hedging performance.`;
     setResult({ basis, basisPercent, basisRisk, hedgeEffectiveness, interpretation });
   };
 
@@ -115,10 +118,10 @@ export default function BasisRiskCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('spotPrice', 'Spot Price ($)', 'e.g., 50.00', '$')}
-                {numInput('futuresPrice', 'Futures Price ($)', 'e.g., 50.50', '$')}
+                {numInput('spotPrice', `Spot Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('futuresPrice', `Futures Price (${currencySymbol(preferences)})`, 'e.g., 50.50', currencySymbol(preferences))}
               </div>
-              {numInput('positionSize', 'Position Size ($, optional)', 'e.g., 100000', '$')}
+              {numInput('positionSize', `Position Size (${currencySymbol(preferences)}, optional)`, 'e.g., 100000', currencySymbol(preferences))}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {numInput('spotVolatility', 'Spot Volatility (%, optional)', 'e.g., 20', '%')}
                 {numInput('futuresVolatility', 'Futures Volatility (%, optional)', 'e.g., 18', '%')}
@@ -138,7 +141,7 @@ export default function BasisRiskCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div><div className="text-sm text-muted-foreground">Basis</div><div className={`text-xl font-semibold ${result.basis >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.basis.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Basis</div><div className={`text-xl font-semibold ${result.basis >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.basis, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Basis %</div><div className={`text-lg font-medium ${result.basisPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>{result.basisPercent.toFixed(2)}%</div></div>
               <div><div className="text-sm text-muted-foreground">Basis Risk</div><div className="text-xl font-medium text-orange-600">{result.basisRisk.toFixed(2)}%</div></div>
               <div><div className="text-sm text-muted-foreground">Hedge Effectiveness</div><div className="text-lg font-medium">{result.hedgeEffectiveness.toFixed(1)}%</div></div>
@@ -12,6 +12,8 @@ import { BarChart3, AlertCircle, Target, Info, Landmark, Calculator, DollarSign,
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   stockPrice: z.number().positive(),
@@ -25,6 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function BinomialOptionPricingCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     callPrice: number;
     putPrice: number;
@@ -195,7 +198,7 @@ export default function BinomialOptionPricingCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Current Stock Price ($)
+                      Current Stock Price ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter stock price" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -207,7 +210,7 @@ export default function BinomialOptionPricingCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Strike Price ($)
+                      Strike Price ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter strike price" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -295,13 +298,13 @@ export default function BinomialOptionPricingCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <div className="text-3xl font-bold text-primary">
-                      ${result.callPrice.toFixed(2)}
+                      {formatCurrency(result.callPrice, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">Call Option Price</p>
                   </div>
                   <div>
                     <div className="text-3xl font-bold text-primary">
-                      ${result.putPrice.toFixed(2)}
+                      {formatCurrency(result.putPrice, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">Put Option Price</p>
                   </div>
@@ -12,6 +12,8 @@ import { BarChart3, AlertCircle, Target, Info, Landmark, Calculator, DollarSign,
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   faceValue: z.number().positive(),
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function BondConvexityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     convexity: number;
     interpretation: string; 
@@ -198,7 +201,7 @@ export default function BondConvexityCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Face Value ($)
+                      Face Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter face value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -12,6 +12,8 @@ import { Percent, AlertCircle, Target, Info, Landmark, Calculator, DollarSign, T
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   faceValue: z.number().positive(),
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function BondPriceCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     bondPrice: number;
     interpretation: string; 
@@ -196,7 +199,7 @@ export default function BondPriceCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Face Value ($)
+                      Face Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter face value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -279,7 +282,7 @@ export default function BondPriceCalculator() {
           <CardContent className="space-y-4">
             <div className="text-center">
               <div className="text-4xl font-bold text-blue-600">
-                ${result.bondPrice.toFixed(2)}
+                {formatCurrency(result.bondPrice, preferences)}
               </div>
               <p className="text-muted-foreground">Theoretical Bond Price</p>
             </div>
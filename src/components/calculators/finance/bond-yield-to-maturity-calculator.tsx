@@ -12,6 +12,8 @@ import { Percent, AlertCircle, Target, Info, Landmark, Calculator, DollarSign, T
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   currentPrice: z.number().positive(),
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function BondYieldToMaturityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     ytm: number;
     interpretation: string; 
@@ -223,7 +226,7 @@ export default function BondYieldToMaturityCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Current Bond Price ($)
+                      Current Bond Price ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter current price" {...field} value={field.value === 0 ? '' : field.value} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
@@ -235,7 +238,7 @@ export default function BondYieldToMaturityCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Face Value ($)
+                      Face Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter face value" {...field} value={field.value === 0 ? '' : field.value} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
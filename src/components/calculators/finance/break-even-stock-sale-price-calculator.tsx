@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { DollarSign, Percent } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   averageCost: z.number().min(0.0001).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function BreakEvenStockSalePriceCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ price: number; interpretation: string } | null>(null);
   const form = useForm<FormValues>({ resolver: zodResolver(formSchema), defaultValues: { averageCost: undefined, shares: undefined, sellCommission: undefined as any, taxRatePct: undefined as any } });
 
@@ -55,7 +58,7 @@ export default function BreakEvenStockSalePriceCalculator() {
               <FormItem><FormLabel>Shares</FormLabel><FormControl><Input type="number" step="0.0001" placeholder="e.g., 150" {...field} value={field.value ?? ''} onChange={e=>field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
             )} />
             <FormField control={form.control} name="sellCommission" render={({ field }) => (
-              <FormItem><FormLabel>Sell Commission ($)</FormLabel><FormControl><Input type="number" step="0.01" placeholder="e.g., 5" {...field} value={field.value ?? ''} onChange={e=>field.onChange(parseFloat(e.target.value) || 0)} /></FormControl><FormMessage /></FormItem>
+              <FormItem><FormLabel>Sell Commission ({currencySymbol(preferences)})</FormLabel><FormControl><Input type="number" step="0.01" placeholder="e.g., 5" {...field} value={field.value ?? ''} onChange={e=>field.onChange(parseFloat(e.target.value) || 0)} /></FormControl><FormMessage /></FormItem>
             )} />
             <FormField control={form.control} name="taxRatePct" render={({ field }) => (
               <FormItem><FormLabel className="flex items-center gap-2"><Percent className="h-4 w-4" /> Tax Rate on Gain (%)</FormLabel><FormControl><Input type="number" step="0.1" placeholder="e.g., 15" {...field} value={field.value ?? ''} onChange={e=>field.onChange(parseFloat(e.target.value) || 0)} /></FormControl><FormMessage /></FormItem>
@@ -71,7 +74,7 @@ export default function BreakEvenStockSalePriceCalculator() {
         <Card>
           <CardHeader><CardTitle>Result</CardTitle><CardDescription>Required sale price</CardDescription></CardHeader>
           <CardContent>
-            <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Break-even Price</div><p className="text-3xl font-bold text-primary">${result.price.toFixed(4)}</p></div>
+            <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Break-even Price</div><p className="text-3xl font-bold text-primary">{formatCurrency(result.price, preferences, { maximumFractionDigits: 4 })}</p></div>
             <p className="text-sm mt-4">{result.interpretation}</p>
           </CardContent>
         </Card>
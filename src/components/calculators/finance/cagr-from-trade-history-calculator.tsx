@@ -10,6 +10,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, TrendingUp } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   startValue: z.number().min(0).optional(),
@@ -46,6 +48,7 @@ function calculateCAGR(startValue: number, endValue: number, years: number): num
 }
 
 export default function CAGRFromTradeHistoryCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     cagr: number;
     totalReturn: number;
@@ -127,7 +130,7 @@ export default function CAGRFromTradeHistoryCalculator() {
 
     const cagr = calculateCAGR(startVal, endVal, years);
     const totalReturn = ((endVal - startVal) / startVal) * 100;
-    const interpretation = `CAGR: ${cagr.toFixed(2)}% over ${years.toFixed(2)} years. Total return: ${totalReturn.toFixed(2)}% (from $${startVal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} to $${endVal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}). CAGR represents the annualized growth rate assuming compounding.`;
+    const interpretation = `CAGR: ${cagr.toFixed(2)}% over ${years.toFixed(2)} years. Total return: ${totalReturn.toFixed(2)}% (from ${formatCurrency(startVal, preferences)} to ${formatCurrency(endVal, preferences)}). CAGR represents the annualized growth rate assuming compounding.`;
     setResult({ cagr, totalReturn, years, startValue: startVal, endValue: endVal, interpretation });
   };
 
@@ -142,8 +145,8 @@ export default function CAGRFromTradeHistoryCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('startValue', 'Start Value ($)', 'e.g., 10000', '$')}
-                {numInput('endValue', 'End Value ($)', 'e.g., 15000', '$')}
+                {numInput('startValue', `Start Value (${currencySymbol(preferences)})`, 'e.g., 10000', currencySymbol(preferences))}
+                {numInput('endValue', `End Value (${currencySymbol(preferences)})`, 'e.g., 15000', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="startDate" render={({ field }) => (
@@ -191,7 +194,7 @@ export default function CAGRFromTradeHistoryCalculator() {
               <div><div className="text-sm text-muted-foreground">CAGR</div><div className="text-2xl font-semibold">{result.cagr.toFixed(2)}%</div></div>
               <div><div className="text-sm text-muted-foreground">Total Return</div><div className="text-xl font-medium">{result.totalReturn.toFixed(2)}%</div></div>
               <div><div className="text-sm text-muted-foreground">Time Period</div><div className="text-lg font-medium">{result.years.toFixed(2)} years</div></div>
-              <div><div className="text-sm text-muted-foreground">End Value</div><div className="text-lg font-medium">${result.endValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">End Value</div><div className="text-lg font-medium">{formatCurrency(result.endValue, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
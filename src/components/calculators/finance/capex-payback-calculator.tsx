@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Clock, PlusCircle, XCircle, Calculator, Info, FileText, TrendingUp } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const cashFlowSchema = z.object({ value: z.number().positive().optional() });
 
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function CapexPaybackCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<string | null>(null);
 
   const form = useForm<FormValues>({
@@ -82,7 +85,7 @@ export default function CapexPaybackCalculator() {
                 name="initialInvestment" 
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Initial Investment ($)</FormLabel>
+                    <FormLabel>Initial Investment ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input 
                         type="number" 
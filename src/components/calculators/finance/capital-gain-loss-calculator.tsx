@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { DollarSign, Percent } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   costBasis: z.number().min(0.0001).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function CapitalGainLossCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ gain: number; gainPct: number; taxOwed: number; netProceeds: number } | null>(null);
   const form = useForm<FormValues>({ resolver: zodResolver(formSchema), defaultValues: { costBasis: undefined, sellProceeds: undefined, fees: undefined as any, taxRatePct: undefined as any } });
 
@@ -64,10 +67,10 @@ export default function CapitalGainLossCalculator() {
           <CardHeader><CardTitle>Result</CardTitle><CardDescription>Gross/Net outcome</CardDescription></CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Gain/Loss</div><p className="text-3xl font-bold text-primary">${result.gain.toLocaleString()}</p></div>
+              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Gain/Loss</div><p className="text-3xl font-bold text-primary">{formatCurrency(result.gain, preferences)}</p></div>
               <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Return %</div><p className="text-3xl font-bold text-primary">{result.gainPct}%</p></div>
-              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Tax Owed</div><p className="text-3xl font-bold text-green-600">${result.taxOwed.toLocaleString()}</p></div>
-              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Net Proceeds</div><p className="text-3xl font-bold text-green-600">${result.netProceeds.toLocaleString()}</p></div>
+              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Tax Owed</div><p className="text-3xl font-bold text-green-600">{formatCurrency(result.taxOwed, preferences)}</p></div>
+              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Net Proceeds</div><p className="text-3xl font-bold text-green-600">{formatCurrency(result.netProceeds, preferences)}</p></div>
             </div>
           </CardContent>
         </Card>
@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Activity, Info } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   noiAnnual: z.number().min(0).optional(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function CashFlowAfterTaxCFATCalculator(){
+  const { preferences } = usePreferences();
   const [result,setResult]=useState<null|{taxableIncome:number; taxes:number; cfat:number; interpretation:string; scenarioTax?:number; scenarioCFAT?:number}>(null);
   const [whatIfTax,setWhatIfTax]=useState<number|null>(null);
 
@@ -39,7 +42,7 @@ export default function CashFlowAfterTaxCFATCalculator(){
   const onSubmit=(v:FormValues)=>{
     if(v.noiAnnual===undefined||v.taxRatePct===undefined){ setResult(null); return; }
     const base=calc(v);
-    let interpretation = `Taxable income: $${base.taxableIncome.toFixed(0)}; Taxes: $${base.taxes.toFixed(0)}. CFAT: $${base.cfat.toFixed(0)}.`;
+    let interpretation = `Taxable income: ${formatCurrency(base.taxableIncome, preferences, { maximumFractionDigits: 0 })}; Taxes: ${formatCurrency(base.taxes, preferences, { maximumFractionDigits: 0 })}. CFAT: ${formatCurrency(base.cfat, preferences, { maximumFractionDigits: 0 })}.`;
     interpretation += base.cfat>0? ' Positive after-tax cash flow supports debt service and reserves.' : ' Negative CFAT—consider lowering financing costs or increasing NOI.';
     setResult({...base, interpretation});
   };
@@ -62,9 +65,9 @@ export default function CashFlowAfterTaxCFATCalculator(){
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
                 <FormField control={form.control} name="noiAnnual" render={({field})=>(<FormItem><FormLabel>NOI (annual $)</FormLabel><FormControl>{num('e.g., 24000',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="interestExpense" render={({field})=>(<FormItem><FormLabel>Interest Expense ($/yr)</FormLabel><FormControl>{num('e.g., 8000',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="depreciation" render={({field})=>(<FormItem><FormLabel>Depreciation ($/yr)</FormLabel><FormControl>{num('e.g., 6000',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="principalRepayment" render={({field})=>(<FormItem><FormLabel>Principal Repayment ($/yr)</FormLabel><FormControl>{num('e.g., 5000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="interestExpense" render={({field})=>(<FormItem><FormLabel>Interest Expense ({currencySymbol(preferences)}/yr)</FormLabel><FormControl>{num('e.g., 8000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="depreciation" render={({field})=>(<FormItem><FormLabel>Depreciation ({currencySymbol(preferences)}/yr)</FormLabel><FormControl>{num('e.g., 6000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="principalRepayment" render={({field})=>(<FormItem><FormLabel>Principal Repayment ({currencySymbol(preferences)}/yr)</FormLabel><FormControl>{num('e.g., 5000',field)}</FormControl><FormMessage/></FormItem>)} />
                 <FormField control={form.control} name="taxRatePct" render={({field})=>(<FormItem><FormLabel>Tax Rate (%)</FormLabel><FormControl>{num('e.g., 25',field)}</FormControl><FormMessage/></FormItem>)} />
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
@@ -81,9 +84,9 @@ export default function CashFlowAfterTaxCFATCalculator(){
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Taxable Income</div><div className="text-2xl font-semibold">${result.taxableIncome.toFixed(0)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Taxes</div><div className="text-2xl font-semibold">${result.taxes.toFixed(0)}</div></div>
-              <div><div className="text-sm text-muted-foreground">CFAT</div><div className="text-2xl font-semibold">${result.cfat.toFixed(0)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Taxable Income</div><div className="text-2xl font-semibold">{formatCurrency(result.taxableIncome, preferences, { maximumFractionDigits: 0 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Taxes</div><div className="text-2xl font-semibold">{formatCurrency(result.taxes, preferences, { maximumFractionDigits: 0 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">CFAT</div><div className="text-2xl font-semibold">{formatCurrency(result.cfat, preferences, { maximumFractionDigits: 0 })}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
             <div className="rounded-md border p-3">
@@ -94,7 +97,7 @@ export default function CashFlowAfterTaxCFATCalculator(){
                 ))}
               </div>
               {whatIfTax!==null && (
-                <div className="mt-2 text-sm">At {whatIfTax}% tax rate, CFAT ≈ ${alt(whatIfTax).toFixed(0)}.</div>
+                <div className="mt-2 text-sm">At {whatIfTax}% tax rate, CFAT ≈ {formatCurrency(alt(whatIfTax), preferences, { maximumFractionDigits: 0 })}.</div>
               )}
             </div>
           </CardContent>
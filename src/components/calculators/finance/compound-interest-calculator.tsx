@@ -4,7 +4,6 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -15,32 +14,25 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-
-const formSchema = z.object({
-  principal: z.number().positive(),
-  annualRate: z.number().positive(),
-  years: z.number().int().positive(),
-  compoundingFrequency: z.coerce.number().positive(),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-interface CalculationResult {
-  totalAmount: number;
-  totalInterest: number;
-  chartData: { year: number; value: number, principal: number }[];
-  interestPercentage: number;
-  annualizedReturn: number;
-  effectiveRate: number;
-  yearsToDouble: number;
-  compoundingFrequency: number;
-}
+import { compoundInterestDefinition, type CompoundInterestInput, type CompoundInterestOutput } from '@/lib/engine/finance/compound-interest-calculator';
+import { useEmbedInputs } from '@/hooks/use-embed-inputs';
+import { usePermalinkInputs } from '@/hooks/use-permalink-inputs';
+import { useCalculationHistory } from '@/hooks/use-local-history';
+import { CopyLinkButton } from '@/components/copy-link-button';
+import { SaveCalculationButton } from '@/components/save-calculation-button';
+import { CalculationSteps } from '@/components/calculation-steps';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
+
+type FormValues = CompoundInterestInput;
 
 export default function CompoundInterestCalculator() {
-  const [result, setResult] = useState<CalculationResult | null>(null);
+  const { preferences } = usePreferences();
+  const [result, setResult] = useState<CompoundInterestOutput | null>(null);
+  const [calculatedInput, setCalculatedInput] = useState<FormValues | null>(null);
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(compoundInterestDefinition.inputSchema),
     defaultValues: {
       principal: undefined,
       annualRate: undefined,
@@ -50,46 +42,18 @@ export default function CompoundInterestCalculator() {
   });
 
   const onSubmit = (values: FormValues) => {
-    const { principal, annualRate, years, compoundingFrequency } = values;
-    const P = principal;
-    const r = annualRate / 100;
-    const n = compoundingFrequency;
-    const t = years;
-
-    const totalAmount = P * Math.pow(1 + r / n, n * t);
-    const totalInterest = totalAmount - P;
-
-    const chartData = [];
-    for (let i = 1; i <= t; i++) {
-      const value = P * Math.pow(1 + r / n, n * i);
-      chartData.push({
-        year: i,
-        value: Math.round(value),
-        principal: P,
-      });
-    }
-
-    const interestPercentage = (totalInterest / principal) * 100;
-    const annualizedReturn = Math.pow(totalAmount / principal, 1 / years) - 1;
-    const effectiveRate = Math.pow(1 + annualRate / 100 / compoundingFrequency, compoundingFrequency) - 1;
-    const yearsToDouble = 72 / annualRate;
-
-    setResult({ 
-      totalAmount, 
-      totalInterest, 
-      chartData,
-      interestPercentage,
-      annualizedReturn: annualizedReturn * 100,
-      effectiveRate: effectiveRate * 100,
-      yearsToDouble,
-      compoundingFrequency
-    });
+    setCalculatedInput(values);
+    setResult(compoundInterestDefinition.compute(values));
   };
 
+  const embed = useEmbedInputs(form, compoundInterestDefinition, onSubmit, result);
+  const permalink = usePermalinkInputs(form, compoundInterestDefinition, onSubmit, result);
+  useCalculationHistory(form, compoundInterestDefinition, onSubmit, result);
+
   return (
     <div className="space-y-8">
       {/* Input Form */}
-      <Card>
+      <Card hidden={!embed.showForm}>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Target className="h-5 w-5" />
@@ -107,13 +71,13 @@ export default function CompoundInterestCalculator() {
                   control={form.control} 
                   name="principal" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('principal')}>
                       <FormLabel className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4" />
                         Principal Amount
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('principal')} 
                           type="number" 
                           placeholder="e.g., 10000" 
                           {...field} 
@@ -129,13 +93,13 @@ export default function CompoundInterestCalculator() {
                   control={form.control} 
                   name="annualRate" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('annualRate')}>
                       <FormLabel className="flex items-center gap-2">
                         <TrendingUp className="h-4 w-4" />
                         Annual Interest Rate (%)
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('annualRate')} 
                           type="number" 
                           placeholder="e.g., 7" 
                           {...field} 
@@ -151,13 +115,13 @@ export default function CompoundInterestCalculator() {
                   control={form.control} 
                   name="years" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('years')}>
                       <FormLabel className="flex items-center gap-2">
                         <Calendar className="h-4 w-4" />
                         Number of Years
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('years')} 
                           type="number" 
                           placeholder="e.g., 20" 
                           {...field} 
@@ -173,12 +137,12 @@ export default function CompoundInterestCalculator() {
                   control={form.control} 
                   name="compoundingFrequency" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('compoundingFrequency')}>
                       <FormLabel className="flex items-center gap-2">
                         <PiggyBank className="h-4 w-4" />
                         Compounding Frequency
                       </FormLabel>
-                <Select onValueChange={field.onChange} defaultValue={String(field.value)}>
+                <Select onValueChange={field.onChange} disabled={embed.isLocked('compoundingFrequency')} value={String(field.value)}>
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue />
@@ -217,6 +181,10 @@ export default function CompoundInterestCalculator() {
                     Compound interest over {form.getValues('years')} years • {result.compoundingFrequency} times per year compounding
                   </CardDescription>
                 </div>
+                <div className="ml-auto flex flex-wrap justify-end gap-2">
+                  <CopyLinkButton url={permalink} />
+                  <SaveCalculationButton definition={compoundInterestDefinition} getInputs={form.getValues} />
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -227,7 +195,7 @@ export default function CompoundInterestCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Future Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.totalAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.totalAmount, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Total after {form.getValues('years')} years
@@ -240,7 +208,7 @@ export default function CompoundInterestCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Principal Amount</span>
                   </div>
                   <p className="text-2xl font-bold">
-                    ${form.getValues('principal').toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(form.getValues('principal'), preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Your initial investment
@@ -253,7 +221,7 @@ export default function CompoundInterestCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Interest Earned</span>
                         </div>
                   <p className="text-2xl font-bold text-green-600">
-                    ${result.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.interestPercentage.toFixed(1)}% return on investment
@@ -314,13 +282,13 @@ export default function CompoundInterestCalculator() {
                         label={{ value: 'Years', position: 'insideBottom', offset: -5 }}
                       />
                       <YAxis 
-                        tickFormatter={(value) => `$${(value/1000)}k`} 
+                        tickFormatter={(value) => formatCurrency(value, preferences, { compact: true })} 
                         tick={{ fontSize: 12 }}
-                        label={{ value: 'Value ($)', angle: -90, position: 'insideLeft' }}
+                        label={{ value: `Value (${currencySymbol(preferences)})`, angle: -90, position: 'insideLeft' }}
                       />
                       <Tooltip 
                         formatter={(value: number, name: string) => [
-                          `$${value.toLocaleString()}`, 
+                          formatCurrency(value, preferences), 
                           name === "principal" ? "Principal" : "Future Value"
                         ]}
                         labelFormatter={(year) => `Year ${year}`}
@@ -348,10 +316,11 @@ export default function CompoundInterestCalculator() {
                 </div>
             </CardContent>
         </Card>
+          <CalculationSteps definition={compoundInterestDefinition} input={calculatedInput} />
         </div>
       )}
       {/* Educational Content - Expanded Sections */}
-      <div className="space-y-6">
+      <div className="space-y-6" hidden={embed.compact}>
         {/* Understanding the Inputs */}
         <Card>
           <CardHeader>
@@ -12,6 +12,8 @@ import { Activity, AlertCircle, Target, Info, Landmark, Calculator, DollarSign,
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   portfolioValue: z.number().positive(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ConditionalValueAtRiskCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     varValue: number;
     cvarValue: number;
@@ -187,7 +190,7 @@ export default function ConditionalValueAtRiskCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Portfolio Value ($)
+                      Portfolio Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter portfolio value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -263,13 +266,13 @@ export default function ConditionalValueAtRiskCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
                     <div className="text-2xl font-bold text-primary">
-                      ${result.varValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {formatCurrency(result.varValue, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">VaR Amount</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-red-600">
-                      ${result.cvarValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {formatCurrency(result.cvarValue, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">CVaR Amount</p>
                   </div>
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, BarChart3 } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   stockPrice: z.number().min(0).optional(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function CoveredCallReturnAnalyzer() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     premiumIncome: number;
     capitalGain: number;
@@ -93,7 +96,7 @@ export default function CoveredCallReturnAnalyzer() {
     // Breakeven = Stock Price - Premium
     const breakevenPrice = v.stockPrice - v.optionPremium;
     
-    const interpretation = `Premium income: $${premiumIncome.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Capital gain: $${capitalGain.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Total return: $${totalReturn.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${returnPercent.toFixed(2)}% return). Maximum profit: $${maxProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} when stock is at or above strike price $${v.strikePrice.toFixed(2)}. Breakeven price: $${breakevenPrice.toFixed(2)}. If stock falls below breakeven, the strategy loses money.`;
+    const interpretation = `Premium income: ${formatCurrency(premiumIncome, preferences)}. Capital gain: ${formatCurrency(capitalGain, preferences)}. Total return: ${formatCurrency(totalReturn, preferences)} (${returnPercent.toFixed(2)}% return). Maximum profit: ${formatCurrency(maxProfit, preferences)} when stock is at or above strike price ${formatCurrency(v.strikePrice, preferences)}. Breakeven price: ${formatCurrency(breakevenPrice, preferences)}. If stock falls below breakeven, the strategy loses money.`;
     setResult({ premiumIncome, capitalGain, totalReturn, returnPercent, maxProfit, maxProfitPrice, breakevenPrice, interpretation });
   };
 
@@ -107,11 +110,11 @@ export default function CoveredCallReturnAnalyzer() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('stockPrice', 'Stock Price ($)', 'e.g., 50.00', '$')}
-              {numInput('strikePrice', 'Strike Price ($)', 'e.g., 52.00', '$')}
-              {numInput('optionPremium', 'Call Premium ($ per share)', 'e.g., 1.50', '$')}
+              {numInput('stockPrice', `Stock Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+              {numInput('strikePrice', `Strike Price (${currencySymbol(preferences)})`, 'e.g., 52.00', currencySymbol(preferences))}
+              {numInput('optionPremium', `Call Premium (${currencySymbol(preferences)} per share)`, 'e.g., 1.50', currencySymbol(preferences))}
               {numInput('shares', 'Number of Shares', 'e.g., 100')}
-              {numInput('expirationPrice', 'Stock Price at Expiration ($, optional)', 'e.g., 53.00', '$')}
+              {numInput('expirationPrice', `Stock Price at Expiration (${currencySymbol(preferences)}, optional)`, 'e.g., 53.00', currencySymbol(preferences))}
               <Button type="submit" className="w-full md:w-auto">Analyze</Button>
             </form>
           </Form>
@@ -126,13 +129,13 @@ export default function CoveredCallReturnAnalyzer() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div><div className="text-sm text-muted-foreground">Premium Income</div><div className="text-xl font-semibold text-green-600">${result.premiumIncome.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Capital Gain</div><div className={`text-xl font-medium ${result.capitalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.capitalGain.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Total Return</div><div className={`text-2xl font-semibold ${result.totalReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.totalReturn.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Premium Income</div><div className="text-xl font-semibold text-green-600">{formatCurrency(result.premiumIncome, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Capital Gain</div><div className={`text-xl font-medium ${result.capitalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.capitalGain, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Total Return</div><div className={`text-2xl font-semibold ${result.totalReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.totalReturn, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Return %</div><div className={`text-xl font-medium ${result.returnPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>{result.returnPercent.toFixed(2)}%</div></div>
-              <div><div className="text-sm text-muted-foreground">Max Profit</div><div className="text-lg font-medium text-green-600">${result.maxProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Max Profit Price</div><div className="text-lg font-medium">${result.maxProfitPrice.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Breakeven Price</div><div className="text-lg font-medium">${result.breakevenPrice.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Max Profit</div><div className="text-lg font-medium text-green-600">{formatCurrency(result.maxProfit, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Max Profit Price</div><div className="text-lg font-medium">{formatCurrency(result.maxProfitPrice, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Breakeven Price</div><div className="text-lg font-medium">{formatCurrency(result.breakevenPrice, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
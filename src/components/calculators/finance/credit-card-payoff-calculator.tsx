@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { CreditCard, Calendar, DollarSign, TrendingDown, Info, AlertCircle, Target, Calculator, Clock, Zap } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentBalance: z.number().min(0).optional(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function CreditCardPayoffCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     payoffTime: number;
     totalInterest: number;
@@ -349,7 +352,7 @@ export default function CreditCardPayoffCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Interest</span>
                   </div>
                   <p className="text-3xl font-bold text-red-600">
-                    ${result.totalInterest.toLocaleString()}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Interest cost
@@ -362,7 +365,7 @@ export default function CreditCardPayoffCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Monthly Payment</span>
                         </div>
                   <p className="text-3xl font-bold text-green-600">
-                    ${result.monthlyPayment.toLocaleString()}
+                    {formatCurrency(result.monthlyPayment, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.strategy}
@@ -401,10 +404,10 @@ export default function CreditCardPayoffCalculator() {
                         {result.paymentSchedule.map((payment, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{payment.month}</td>
-                            <td className="text-right p-2">${payment.balance.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.payment.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.interest.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.principal.toFixed(2)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.balance, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.payment, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.interest, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.principal, preferences)}</td>
                           </tr>
                         ))}
                       </tbody>
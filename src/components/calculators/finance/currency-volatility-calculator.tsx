@@ -11,6 +11,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { BarChart2, Calculator, Info, FileText, TrendingUp } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   amountForeign: z.number().positive(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function CurrencyVolatilityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ initialValue: number; newValue: number; impact: number } | null>(null);
 
   const form = useForm<FormValues>({
@@ -139,16 +142,16 @@ export default function CurrencyVolatilityCalculator() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
               <div className="p-4 bg-muted/50 rounded-lg">
                 <CardDescription>Initial Value</CardDescription>
-                <p className="font-bold text-lg mt-2">${result.initialValue.toLocaleString(undefined, {maximumFractionDigits: 2})}</p>
+                <p className="font-bold text-lg mt-2">{formatCurrency(result.initialValue, preferences)}</p>
               </div>
               <div className="p-4 bg-muted/50 rounded-lg">
                 <CardDescription>New Value</CardDescription>
-                <p className="font-bold text-lg mt-2">${result.newValue.toLocaleString(undefined, {maximumFractionDigits: 2})}</p>
+                <p className="font-bold text-lg mt-2">{formatCurrency(result.newValue, preferences)}</p>
               </div>
               <div className={`p-4 rounded-lg ${result.impact >= 0 ? 'bg-green-500/10' : 'bg-destructive/10'}`}>
                 <CardDescription>Gain / Loss</CardDescription>
                 <p className={`font-bold text-lg mt-2 ${result.impact >= 0 ? 'text-green-600' : 'text-destructive'}`}>
-                  {result.impact >= 0 ? '+' : ''}${result.impact.toLocaleString(undefined, {maximumFractionDigits: 2})}
+                  {result.impact >= 0 ? '+' : ''}{formatCurrency(result.impact, preferences)}
                 </p>
                 <Badge variant={result.impact >= 0 ? 'default' : 'destructive'} className="mt-2">
                   {result.impact >= 0 ? 'Gain' : 'Loss'}
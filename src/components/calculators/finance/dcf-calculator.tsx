@@ -12,6 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, PlusCircle, XCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const cashFlowSchema = z.object({ value: z.number().optional() });
 
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function DcfCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     dcf: number; 
     interpretation: string; 
@@ -290,7 +293,7 @@ export default function DcfCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">DCF Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.dcf.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.dcf, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.valuation}
@@ -336,15 +339,15 @@ export default function DcfCalculator() {
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <span className="text-sm text-muted-foreground">Cash Flow PV:</span>
-                        <span className="font-medium">${result.cashFlowPV.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                        <span className="font-medium">{formatCurrency(result.cashFlowPV, preferences)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-sm text-muted-foreground">Terminal Value PV:</span>
-                        <span className="font-medium">${result.terminalValuePV.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                        <span className="font-medium">{formatCurrency(result.terminalValuePV, preferences)}</span>
                       </div>
                       <div className="flex justify-between border-t pt-2">
                         <span className="text-sm font-medium">Total DCF:</span>
-                        <span className="font-bold">${result.dcf.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                        <span className="font-bold">{formatCurrency(result.dcf, preferences)}</span>
                       </div>
                     </div>
                   </CardContent>
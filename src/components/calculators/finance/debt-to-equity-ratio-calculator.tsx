@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, Percent } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   totalDebt: z.number().nonnegative(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function DebtToEquityRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     debtToEquityRatio: number; 
     interpretation: string; 
@@ -157,7 +160,7 @@ export default function DebtToEquityRatioCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Total Debt ($)
+                      Total Debt ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input 
@@ -177,7 +180,7 @@ export default function DebtToEquityRatioCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Shareholders' Equity ($)
+                      Shareholders' Equity ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input 
@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Landmark, Calculator, Info, TrendingUp, FileText, Building2 } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   assetCost: z.number().positive(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function DepreciationStraightLineCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<number | null>(null);
 
   const form = useForm<FormValues>({
@@ -60,7 +63,7 @@ export default function DepreciationStraightLineCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <Building2 className="h-4 w-4" />
-                      Asset Cost ($)
+                      Asset Cost ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="e.g., 100000" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -72,7 +75,7 @@ export default function DepreciationStraightLineCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <TrendingUp className="h-4 w-4" />
-                      Salvage Value ($)
+                      Salvage Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="e.g., 10000" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -113,7 +116,7 @@ export default function DepreciationStraightLineCalculator() {
           <CardContent>
             <div className="text-center p-8 bg-primary/5 rounded-lg">
               <p className="text-4xl font-bold text-primary mb-2">
-                ${result.toFixed(2)}
+                {formatCurrency(result, preferences)}
               </p>
               <p className="text-muted-foreground">
                 This is the amount of depreciation expense to record each year using the straight-line method.
@@ -11,6 +11,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Landmark, Calculator, Info, FileText, Building2, TrendingUp } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   assetCost: z.number().positive(),
@@ -25,6 +27,7 @@ type FormValues = z.infer<typeof formSchema>;
 type ScheduleItem = { year: number; beginningBookValue: number; fraction: string; depreciation: number; endingBookValue: number };
 
 export default function DepreciationSumOfYearsDigitsCalculator() {
+  const { preferences } = usePreferences();
   const [schedule, setSchedule] = useState<ScheduleItem[] | null>(null);
 
   const form = useForm<FormValues>({
@@ -75,7 +78,7 @@ export default function DepreciationSumOfYearsDigitsCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <Building2 className="h-4 w-4" />
-                      Asset Cost ($)
+                      Asset Cost ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="e.g., 100000" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -87,7 +90,7 @@ export default function DepreciationSumOfYearsDigitsCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <TrendingUp className="h-4 w-4" />
-                      Salvage Value ($)
+                      Salvage Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="e.g., 10000" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -141,10 +144,10 @@ export default function DepreciationSumOfYearsDigitsCalculator() {
                   {schedule.map(item => (
                     <TableRow key={item.year}>
                       <TableCell className="font-medium">{item.year}</TableCell>
-                      <TableCell>${item.beginningBookValue.toFixed(2)}</TableCell>
+                      <TableCell>{formatCurrency(item.beginningBookValue, preferences)}</TableCell>
                       <TableCell className="font-mono">{item.fraction}</TableCell>
-                      <TableCell>${item.depreciation.toFixed(2)}</TableCell>
-                      <TableCell>${item.endingBookValue.toFixed(2)}</TableCell>
+                      <TableCell>{formatCurrency(item.depreciation, preferences)}</TableCell>
+                      <TableCell>{formatCurrency(item.endingBookValue, preferences)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { DollarSign, Percent, Info } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   nextYearDividend: z.number().min(0).optional(), // D1
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function DividendDiscountModelCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     intrinsicValue: number;
     interpretation: string;
@@ -75,7 +78,7 @@ export default function DividendDiscountModelCalculator() {
           <Card>
             <CardHeader><div className="flex items-center gap-4"><DollarSign className="h-8 w-8 text-primary" /><div><CardTitle>DDM Result</CardTitle><CardDescription>Constant‑growth valuation</CardDescription></div></div></CardHeader>
             <CardContent>
-              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Intrinsic Value</div><p className="text-3xl font-bold text-primary">{isNaN(result.intrinsicValue) ? '—' : `$${result.intrinsicValue.toLocaleString()}`}</p></div>
+              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Intrinsic Value</div><p className="text-3xl font-bold text-primary">{isNaN(result.intrinsicValue) ? '—' : formatCurrency(result.intrinsicValue, preferences)}</p></div>
               <p className="text-sm mt-4">{result.interpretation}</p>
             </CardContent>
           </Card>
@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { TrendingUp, Calculator, DollarSign, Calendar, BarChart2, Info, Repeat } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   initialInvestment: z.number().min(0).optional(),
@@ -35,6 +37,7 @@ type Result = {
 };
 
 export default function DividendReinvestmentDRIPCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<Result | null>(null);
 
   const form = useForm<FormValues>({
@@ -173,12 +176,12 @@ export default function DividendReinvestmentDRIPCalculator() {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Final Portfolio Value</div><p className="text-3xl font-bold text-primary">${result.finalValue.toLocaleString(undefined,{maximumFractionDigits:0})}</p></div>
+                <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Final Portfolio Value</div><p className="text-3xl font-bold text-primary">{formatCurrency(result.finalValue, preferences, { maximumFractionDigits: 0 })}</p></div>
                 <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Shares Accumulated</div><p className="text-3xl font-bold text-green-600">{result.sharesAccumulated.toFixed(2)}</p></div>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
-                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Total Contributions</p><p className="text-xl font-semibold">${result.totalContributions.toLocaleString()}</p></div>
-                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Total Dividends Reinvested</p><p className="text-xl font-semibold">${result.totalDividends.toLocaleString()}</p></div>
+                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Total Contributions</p><p className="text-xl font-semibold">{formatCurrency(result.totalContributions, preferences)}</p></div>
+                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Total Dividends Reinvested</p><p className="text-xl font-semibold">{formatCurrency(result.totalDividends, preferences)}</p></div>
                 <div className="p-4 border rounded md:col-span-1"><p className="text-sm text-muted-foreground mb-1">Summary</p><p className="text-sm">{result.interpretation}</p></div>
               </div>
 
@@ -190,7 +193,7 @@ export default function DividendReinvestmentDRIPCalculator() {
                       <thead><tr className="border-b"><th className="text-left p-2">Year</th><th className="text-right p-2">Value</th><th className="text-right p-2">Shares</th><th className="text-right p-2">Cumulative Dividends</th></tr></thead>
                       <tbody>
                         {result.yearByYear.slice(0,11).map((r) => (
-                          <tr key={r.year} className="border-b"><td className="p-2">{r.year}</td><td className="text-right p-2">${r.value.toLocaleString(undefined,{maximumFractionDigits:0})}</td><td className="text-right p-2">{r.shares.toFixed(2)}</td><td className="text-right p-2">${r.dividends.toLocaleString(undefined,{maximumFractionDigits:0})}</td></tr>
+                          <tr key={r.year} className="border-b"><td className="p-2">{r.year}</td><td className="text-right p-2">{formatCurrency(r.value, preferences, { maximumFractionDigits: 0 })}</td><td className="text-right p-2">{r.shares.toFixed(2)}</td><td className="text-right p-2">{formatCurrency(r.dividends, preferences, { maximumFractionDigits: 0 })}</td></tr>
                         ))}
                       </tbody>
                     </table>
@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Info, Activity } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   noiAnnual: z.number().min(0).optional(),
@@ -18,6 +20,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function DSCRCalculator(){
+  const { preferences } = usePreferences();
   const [result,setResult]=useState<null|{dscr:number; noi:number; debtService:number; interpretation:string}>(null);
 
   const form=useForm<FormValues>({resolver:zodResolver(formSchema), defaultValues:{noiAnnual:undefined as unknown as number, annualDebtService:undefined as unknown as number}});
@@ -58,7 +61,7 @@ export default function DSCRCalculator(){
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField control={form.control} name="noiAnnual" render={({field})=>(<FormItem><FormLabel>NOI (annual $)</FormLabel><FormControl>{num('e.g., 120000',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="annualDebtService" render={({field})=>(<FormItem><FormLabel>Annual Debt Service ($)</FormLabel><FormControl>{num('e.g., 90000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="annualDebtService" render={({field})=>(<FormItem><FormLabel>Annual Debt Service ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 90000',field)}</FormControl><FormMessage/></FormItem>)} />
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -75,8 +78,8 @@ export default function DSCRCalculator(){
           <CardContent className="space-y-3">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div><div className="text-sm text-muted-foreground">DSCR</div><div className="text-2xl font-semibold">{result.dscr.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">NOI (Annual)</div><div className="text-2xl font-semibold">${result.noi.toLocaleString()}</div></div>
-              <div><div className="text-sm text-muted-foreground">Debt Service</div><div className="text-2xl font-semibold">${result.debtService.toLocaleString()}</div></div>
+              <div><div className="text-sm text-muted-foreground">NOI (Annual)</div><div className="text-2xl font-semibold">{formatCurrency(result.noi, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Debt Service</div><div className="text-2xl font-semibold">{formatCurrency(result.debtService, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
             <div className="rounded-md border p-3">
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, Percent } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   netIncome: z.number().positive(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function EarningsPerShareCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     eps: number; 
     interpretation: string; 
@@ -151,7 +154,7 @@ export default function EarningsPerShareCalculator() {
               <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Net Income ($)
+                      Net Income ({currencySymbol(preferences)})
                     </FormLabel>
                 <FormControl>
                       <Input 
@@ -217,7 +220,7 @@ export default function EarningsPerShareCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">EPS</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.eps.toFixed(2)}
+                    {formatCurrency(result.eps, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.profitability}
@@ -12,6 +12,8 @@ import { Calculator, AlertCircle, Target, Info, Landmark, DollarSign, TrendingUp
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   netIncome: z.number(),
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function EBITDAEBITCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     ebitda: number;
     ebit: number;
@@ -245,13 +248,13 @@ export default function EBITDAEBITCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <div className="text-3xl font-bold text-primary">
-                      ${result.ebitda.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      {formatCurrency(result.ebitda, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">EBITDA</p>
                   </div>
                   <div>
                     <div className="text-3xl font-bold text-primary">
-                      ${result.ebit.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      {formatCurrency(result.ebit, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">EBIT</p>
                   </div>
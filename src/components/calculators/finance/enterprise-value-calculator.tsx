@@ -12,6 +12,8 @@ import { Building2, AlertCircle, Target, Info, Landmark, Calculator, DollarSign,
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   marketCap: z.number().positive(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function EnterpriseValueCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     enterpriseValue: number; 
     interpretation: string; 
@@ -208,7 +211,7 @@ export default function EnterpriseValueCalculator() {
             <CardContent>
               <div className="text-center space-y-4">
                 <div className="text-4xl font-bold text-primary">
-                  ${result.enterpriseValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  {formatCurrency(result.enterpriseValue, preferences)}
                 </div>
                 <p className="text-lg text-muted-foreground">{result.interpretation}</p>
                 <Alert>
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, TrendingUp } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   equityValue: z.number().min(0).optional(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function EquityEnterpriseValueBridgeCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     enterpriseValue: number;
     netDebt: number;
@@ -86,7 +89,7 @@ export default function EquityEnterpriseValueBridgeCalculator() {
     // Or: EV = Equity Value + Total Debt - Cash + Minority Interests + Preferred Stock
     const enterpriseValue = v.equityValue + netDebt + adjustments;
     
-    const interpretation = `Enterprise Value: $${enterpriseValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Net Debt: $${netDebt.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (Total Debt: $${totalDebt.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} - Cash: $${cash.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}). Adjustments: $${adjustments.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (Minority Interests: $${minorityInterests.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} + Preferred Stock: $${preferredStock.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}). Enterprise Value represents the total value of the business available to all investors (equity and debt holders).`;
+    const interpretation = `Enterprise Value: ${formatCurrency(enterpriseValue, preferences)}. Net Debt: ${formatCurrency(netDebt, preferences)} (Total Debt: ${formatCurrency(totalDebt, preferences)} - Cash: ${formatCurrency(cash, preferences)}). Adjustments: ${formatCurrency(adjustments, preferences)} (Minority Interests: ${formatCurrency(minorityInterests, preferences)} + Preferred Stock: ${formatCurrency(preferredStock, preferences)}). Enterprise Value represents the total value of the business available to all investors (equity and debt holders).`;
     setResult({ enterpriseValue, netDebt, adjustments, interpretation });
   };
 
@@ -100,11 +103,11 @@ export default function EquityEnterpriseValueBridgeCalculator() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('equityValue', 'Equity Value (Market Cap) ($)', 'e.g., 1000000000', '$')}
-              {numInput('totalDebt', 'Total Debt ($, optional)', 'e.g., 200000000', '$')}
-              {numInput('cash', 'Cash & Cash Equivalents ($, optional)', 'e.g., 50000000', '$')}
-              {numInput('minorityInterests', 'Minority Interests ($, optional)', 'e.g., 10000000', '$')}
-              {numInput('preferredStock', 'Preferred Stock ($, optional)', 'e.g., 5000000', '$')}
+              {numInput('equityValue', `Equity Value (Market Cap) (${currencySymbol(preferences)})`, 'e.g., 1000000000', currencySymbol(preferences))}
+              {numInput('totalDebt', `Total Debt (${currencySymbol(preferences)}, optional)`, 'e.g., 200000000', currencySymbol(preferences))}
+              {numInput('cash', `Cash & Cash Equivalents (${currencySymbol(preferences)}, optional)`, 'e.g., 50000000', currencySymbol(preferences))}
+              {numInput('minorityInterests', `Minority Interests (${currencySymbol(preferences)}, optional)`, 'e.g., 10000000', currencySymbol(preferences))}
+              {numInput('preferredStock', `Preferred Stock (${currencySymbol(preferences)}, optional)`, 'e.g., 5000000', currencySymbol(preferences))}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
           </Form>
@@ -119,9 +122,9 @@ export default function EquityEnterpriseValueBridgeCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Enterprise Value</div><div className="text-2xl font-semibold">${result.enterpriseValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Net Debt</div><div className={`text-xl font-medium ${result.netDebt >= 0 ? 'text-red-600' : 'text-green-600'}`}>${result.netDebt.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Adjustments</div><div className="text-xl font-medium">${result.adjustments.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Enterprise Value</div><div className="text-2xl font-semibold">{formatCurrency(result.enterpriseValue, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Net Debt</div><div className={`text-xl font-medium ${result.netDebt >= 0 ? 'text-red-600' : 'text-green-600'}`}>{formatCurrency(result.netDebt, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Adjustments</div><div className="text-xl font-medium">{formatCurrency(result.adjustments, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
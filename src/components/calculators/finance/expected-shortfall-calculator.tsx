@@ -11,6 +11,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, AlertTriangle } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   returns: z.string().min(1, 'Enter return series'),
@@ -36,6 +38,7 @@ function parseReturns(s: string): number[] | null {
 }
 
 export default function ExpectedShortfallCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     var: number;
     expectedShortfall: number;
@@ -71,7 +74,7 @@ export default function ExpectedShortfallCalculator() {
     const portfolioVal = v.portfolioValue || 100000;
     const varDollar = Math.abs(varValue * portfolioVal);
     const esDollar = Math.abs(expectedShortfall * portfolioVal);
-    const interpretation = `At ${v.confidenceLevel}% confidence, VaR is ${(varValue * 100).toFixed(2)}% (${varDollar.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}), and Expected Shortfall is ${(expectedShortfall * 100).toFixed(2)}% (${esDollar.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}). ES represents the average loss in the worst ${(1 - conf) * 100}% of scenarios, providing a more conservative tail risk measure than VaR.`;
+    const interpretation = `At ${v.confidenceLevel}% confidence, VaR is ${(varValue * 100).toFixed(2)}% (${formatCurrency(varDollar, preferences)}), and Expected Shortfall is ${(expectedShortfall * 100).toFixed(2)}% (${formatCurrency(esDollar, preferences)}). ES represents the average loss in the worst ${(1 - conf) * 100}% of scenarios, providing a more conservative tail risk measure than VaR.`;
     setResult({ var: varValue * 100, expectedShortfall: expectedShortfall * 100, varDollar, esDollar, interpretation });
   };
 
@@ -112,7 +115,7 @@ export default function ExpectedShortfallCalculator() {
                 )} />
                 <FormField control={form.control} name="portfolioValue" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Portfolio Value ($, optional)</FormLabel>
+                    <FormLabel>Portfolio Value ({currencySymbol(preferences)}, optional)</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -151,8 +154,8 @@ export default function ExpectedShortfallCalculator() {
               <div><div className="text-sm text-muted-foreground">Expected Shortfall</div><div className="text-xl font-semibold text-red-600">{result.expectedShortfall.toFixed(2)}%</div></div>
               {form.getValues('portfolioValue') && (
                 <>
-                  <div><div className="text-sm text-muted-foreground">VaR ($)</div><div className="text-xl font-semibold">${result.varDollar.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-                  <div><div className="text-sm text-muted-foreground">ES ($)</div><div className="text-xl font-semibold text-red-600">${result.esDollar.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+                  <div><div className="text-sm text-muted-foreground">VaR ({currencySymbol(preferences)})</div><div className="text-xl font-semibold">{formatCurrency(result.varDollar, preferences)}</div></div>
+                  <div><div className="text-sm text-muted-foreground">ES ({currencySymbol(preferences)})</div><div className="text-xl font-semibold text-red-600">{formatCurrency(result.esDollar, preferences)}</div></div>
                 </>
               )}
             </div>
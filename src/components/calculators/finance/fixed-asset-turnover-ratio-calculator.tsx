@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Calculator, Info, Activity } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   netSales: z.number().min(0).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function FixedAssetTurnoverRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result,setResult]=useState<{turnoverRatio:number; assetEfficiency:number; interpretation:string; suggestions:string[]}|null>(null);
   const form=useForm<FormValues>({resolver:zodResolver(formSchema),defaultValues:{netSales:undefined as unknown as number,averageFixedAssets:undefined as unknown as number,beginningFixedAssets:undefined as unknown as number,endingFixedAssets:undefined as unknown as number}});
 
@@ -31,7 +34,7 @@ export default function FixedAssetTurnoverRatioCalculator() {
     }
     if(avgFA===undefined||avgFA===0){ setResult(null); return; }
     const tr=v.netSales/avgFA;
-    const interp=`Fixed asset turnover: ${tr.toFixed(2)}. This means $${tr.toFixed(2)} in sales per $1 of fixed assets.`;
+    const interp=`Fixed asset turnover: ${tr.toFixed(2)}. This means ${formatCurrency(tr, preferences)} in sales per $1 of fixed assets.`;
     setResult({turnoverRatio:tr,assetEfficiency:tr,interpretation:interp,suggestions:['Higher turnover ratio indicates efficient use of fixed assets to generate sales.','Compare to industry averages; capital-intensive industries have lower ratios.','Improve ratio by increasing sales efficiency or optimizing asset utilization.','Low ratio may indicate underutilized assets, need for asset disposal, or overinvestment.']});
   };
 
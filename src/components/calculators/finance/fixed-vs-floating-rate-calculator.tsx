@@ -12,6 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Handshake, PlusCircle, XCircle, Calculator, Info, FileText, TrendingUp } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const rateChangeSchema = z.object({
   year: z.number().int().positive(),
@@ -35,6 +37,7 @@ interface Result {
 }
 
 export default function FixedVsFloatingRateCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<Result | null>(null);
 
   const form = useForm<FormValues>({
@@ -137,7 +140,7 @@ export default function FixedVsFloatingRateCalculator() {
                     name="principal" 
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Loan Principal ($)</FormLabel>
+                        <FormLabel>Loan Principal ({currencySymbol(preferences)})</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -315,15 +318,15 @@ export default function FixedVsFloatingRateCalculator() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="p-4 bg-muted/50 rounded-lg">
                 <CardDescription>Fixed Rate Scenario</CardDescription>
-                <p className="text-2xl font-bold mt-2">${result.fixed.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+                <p className="text-2xl font-bold mt-2">{formatCurrency(result.fixed.totalInterest, preferences, { maximumFractionDigits: 0 })}</p>
                 <p className="text-sm text-muted-foreground mt-1">Total Interest Paid</p>
-                <p className="text-sm mt-2">Monthly Payment: <span className="font-semibold">${result.fixed.monthlyPayment.toFixed(2)}</span></p>
+                <p className="text-sm mt-2">Monthly Payment: <span className="font-semibold">{formatCurrency(result.fixed.monthlyPayment, preferences)}</span></p>
               </div>
               <div className="p-4 bg-muted/50 rounded-lg">
                 <CardDescription>Floating Rate Scenario</CardDescription>
-                <p className="text-2xl font-bold mt-2">${result.floating.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+                <p className="text-2xl font-bold mt-2">{formatCurrency(result.floating.totalInterest, preferences, { maximumFractionDigits: 0 })}</p>
                 <p className="text-sm text-muted-foreground mt-1">Total Interest Paid</p>
-                <p className="text-sm mt-2">Difference: <span className="font-semibold text-primary">${(result.fixed.totalInterest - result.floating.totalInterest).toFixed(2)}</span></p>
+                <p className="text-sm mt-2">Difference: <span className="font-semibold text-primary">{formatCurrency(result.fixed.totalInterest - result.floating.totalInterest, preferences)}</span></p>
               </div>
             </div>
 
@@ -332,8 +335,8 @@ export default function FixedVsFloatingRateCalculator() {
                 <LineChart data={result.chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="year" unit=" yr" />
-                  <YAxis tickFormatter={(value) => `$${(value/1000)}k`} />
-                  <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+                  <YAxis tickFormatter={(value) => formatCurrency(value, preferences, { compact: true })} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value, preferences)} />
                   <Legend />
                   <Line type="monotone" name="Fixed Rate Interest" dataKey="fixedInterest" stroke="hsl(var(--muted-foreground))" strokeWidth={2} />
                   <Line type="monotone" name="Floating Rate Interest" dataKey="floatingInterest" stroke="hsl(var(--primary))" strokeWidth={2} />
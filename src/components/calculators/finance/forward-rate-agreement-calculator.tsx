@@ -11,6 +11,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Handshake, Calculator, Info, FileText, TrendingUp } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   notional: z.number().positive(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ForwardRateAgreementCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ payment: number; direction: string } | null>(null);
 
   const form = useForm<FormValues>({
@@ -180,7 +183,7 @@ export default function ForwardRateAgreementCalculator() {
           <CardContent>
             <div className="text-center space-y-4">
               <div className={`text-4xl font-bold ${result.payment >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                ${Math.abs(result.payment).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                {formatCurrency(Math.abs(result.payment), preferences)}
               </div>
               <div className="space-y-2">
                 <Badge variant={result.payment >= 0 ? 'default' : 'destructive'} className="text-lg py-1 px-3">
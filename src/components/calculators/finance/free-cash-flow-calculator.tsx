@@ -12,6 +12,8 @@ import { Zap, TrendingUp, AlertCircle, Target, Info, Landmark, Calculator, Dolla
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   operatingCashFlow: z.number(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function FreeCashFlowCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     fcf: number; 
     interpretation: string; 
@@ -197,7 +200,7 @@ export default function FreeCashFlowCalculator() {
             <CardContent>
               <div className="text-center space-y-4">
                 <div className="text-4xl font-bold text-primary">
-                  ${result.fcf.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  {formatCurrency(result.fcf, preferences)}
                 </div>
                 <p className="text-lg text-muted-foreground">{result.interpretation}</p>
                 <Alert>
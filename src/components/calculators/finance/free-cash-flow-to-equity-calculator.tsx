@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, DollarSign } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   netIncome: z.number().optional(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function FreeCashFlowToEquityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     fcfe: number;
     operatingCashFlow: number;
@@ -90,7 +93,7 @@ export default function FreeCashFlowToEquityCalculator() {
     // Simplified: FCFE = Net Income + Depreciation - CapEx - Change in WC + Net Borrowing
     const fcfe = v.netIncome + depreciation - capitalExpenditures - changeInWorkingCapital + netBorrowing;
     
-    const interpretation = `Free Cash Flow to Equity (FCFE): $${fcfe.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Operating Cash Flow: $${operatingCashFlow.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Free Cash Flow: $${freeCashFlow.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. FCFE represents the cash available to equity holders after all expenses, investments, and debt obligations. Positive FCFE indicates the company can pay dividends, buy back shares, or reinvest in growth.`;
+    const interpretation = `Free Cash Flow to Equity (FCFE): ${formatCurrency(fcfe, preferences)}. Operating Cash Flow: ${formatCurrency(operatingCashFlow, preferences)}. Free Cash Flow: ${formatCurrency(freeCashFlow, preferences)}. FCFE represents the cash available to equity holders after all expenses, investments, and debt obligations. Positive FCFE indicates the company can pay dividends, buy back shares, or reinvest in growth.`;
     setResult({ fcfe, operatingCashFlow, freeCashFlow, interpretation });
   };
 
@@ -104,11 +107,11 @@ export default function FreeCashFlowToEquityCalculator() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('netIncome', 'Net Income ($)', 'e.g., 10000000', '$')}
-              {numInput('depreciation', 'Depreciation & Amortization ($, optional)', 'e.g., 2000000', '$')}
-              {numInput('capitalExpenditures', 'Capital Expenditures ($, optional)', 'e.g., 3000000', '$')}
-              {numInput('changeInWorkingCapital', 'Change in Working Capital ($, optional, positive = increase)', 'e.g., -500000', '$')}
-              {numInput('netBorrowing', 'Net Borrowing ($, optional, positive = borrowing)', 'e.g., 1000000', '$')}
+              {numInput('netIncome', `Net Income (${currencySymbol(preferences)})`, 'e.g., 10000000', currencySymbol(preferences))}
+              {numInput('depreciation', `Depreciation & Amortization (${currencySymbol(preferences)}, optional)`, 'e.g., 2000000', currencySymbol(preferences))}
+              {numInput('capitalExpenditures', `Capital Expenditures (${currencySymbol(preferences)}, optional)`, 'e.g., 3000000', currencySymbol(preferences))}
+              {numInput('changeInWorkingCapital', `Change in Working Capital (${currencySymbol(preferences)}, optional, positive = increase)`, 'e.g., -500000', currencySymbol(preferences))}
+              {numInput('netBorrowing', `Net Borrowing (${currencySymbol(preferences)}, optional, positive = borrowing)`, 'e.g., 1000000', currencySymbol(preferences))}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
           </Form>
@@ -123,9 +126,9 @@ export default function FreeCashFlowToEquityCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">FCFE</div><div className={`text-2xl font-semibold ${result.fcfe >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.fcfe.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Operating Cash Flow</div><div className="text-xl font-medium">${result.operatingCashFlow.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Free Cash Flow</div><div className="text-xl font-medium">${result.freeCashFlow.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">FCFE</div><div className={`text-2xl font-semibold ${result.fcfe >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.fcfe, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Operating Cash Flow</div><div className="text-xl font-medium">{formatCurrency(result.operatingCashFlow, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Free Cash Flow</div><div className="text-xl font-medium">{formatCurrency(result.freeCashFlow, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { TrendingUp, Calculator, DollarSign, Info, AlertCircle, Target, Calendar, BarChart, PiggyBank } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   presentValue: z.number().min(0).optional(),
@@ -26,6 +28,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function FutureValueCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     futureValue: number;
     totalContributions: number;
@@ -503,7 +506,7 @@ export default function FutureValueCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Future Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.futureValue.toLocaleString()}
+                    {formatCurrency(result.futureValue, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Total value at end of period
@@ -516,7 +519,7 @@ export default function FutureValueCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Contributions</span>
                   </div>
                   <p className="text-3xl font-bold text-green-600">
-                    ${result.totalContributions.toLocaleString()}
+                    {formatCurrency(result.totalContributions, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Amount you contributed
@@ -529,7 +532,7 @@ export default function FutureValueCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Interest</span>
                   </div>
                   <p className="text-3xl font-bold text-blue-600">
-                    ${result.totalInterest.toLocaleString()}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Interest earned
@@ -567,9 +570,9 @@ export default function FutureValueCalculator() {
                         {result.yearByYear.map((year, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{year.year}</td>
-                            <td className="text-right p-2">${year.contribution.toLocaleString()}</td>
-                            <td className="text-right p-2">${year.interest.toLocaleString()}</td>
-                            <td className="text-right p-2">${year.balance.toLocaleString()}</td>
+                            <td className="text-right p-2">{formatCurrency(year.contribution, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(year.interest, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(year.balance, preferences)}</td>
                           </tr>
                         ))}
                       </tbody>
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, TrendingUp } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   spotPrice: z.number().min(0).optional(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function FuturesFairValueCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     fairValue: number;
     costOfCarry: number;
@@ -93,7 +96,7 @@ export default function FuturesFairValueCalculator() {
       marketCondition = 'Futures are at fair value (fair value equals spot).';
     }
     
-    const interpretation = `Fair value: $${fairValue.toFixed(2)}. Cost of carry: ${(costOfCarry * 100).toFixed(2)}%. Pricing basis: $${pricingBasis.toFixed(2)} (${((pricingBasis / v.spotPrice) * 100).toFixed(2)}% of spot). ${marketCondition} If market futures price differs significantly from fair value, arbitrage opportunities may exist.`;
+    const interpretation = `Fair value: ${formatCurrency(fairValue, preferences)}. Cost of carry: ${(costOfCarry * 100).toFixed(2)}%. Pricing basis: ${formatCurrency(pricingBasis, preferences)} (${((pricingBasis / v.spotPrice) * 100).toFixed(2)}% of spot). ${marketCondition} If market futures price differs significantly from fair value, arbitrage opportunities may exist.`;
     setResult({ fairValue, costOfCarry: costOfCarry * 100, pricingBasis, interpretation });
   };
 
@@ -107,7 +110,7 @@ export default function FuturesFairValueCalculator() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('spotPrice', 'Spot Price ($)', 'e.g., 50.00', '$')}
+              {numInput('spotPrice', `Spot Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
               {numInput('interestRate', 'Risk-Free Interest Rate (%, optional)', 'e.g., 5', '%')}
               {numInput('timeToExpiration', 'Time to Expiration (days, optional)', 'e.g., 30')}
               {numInput('dividendYield', 'Dividend Yield (%, optional)', 'e.g., 2', '%')}
@@ -127,9 +130,9 @@ export default function FuturesFairValueCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Fair Value</div><div className="text-2xl font-semibold">${result.fairValue.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Fair Value</div><div className="text-2xl font-semibold">{formatCurrency(result.fairValue, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Cost of Carry</div><div className="text-xl font-medium">{result.costOfCarry.toFixed(2)}%</div></div>
-              <div><div className="text-sm text-muted-foreground">Pricing Basis</div><div className={`text-xl font-medium ${result.pricingBasis >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.pricingBasis.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Pricing Basis</div><div className={`text-xl font-medium ${result.pricingBasis >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.pricingBasis, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
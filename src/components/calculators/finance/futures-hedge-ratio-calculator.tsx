@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Shield } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   spotPrice: z.number().min(0).optional(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function FuturesHedgeRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     hedgeRatio: number;
     futuresContracts: number;
@@ -101,7 +104,7 @@ export default function FuturesHedgeRatioCalculator() {
     const futuresContracts = Math.round((hedgeRatio * spotValue) / (v.futuresPrice * v.futuresContractSize));
     const hedgeValue = futuresContracts * v.futuresPrice * v.futuresContractSize;
     
-    const interpretation = `Optimal hedge ratio: ${hedgeRatio.toFixed(4)}. To hedge ${v.spotQuantity.toLocaleString('en-US')} units of spot position, ${hedgeRatio < 0 ? 'sell' : 'buy'} ${Math.abs(futuresContracts)} futures contracts (hedge value: $${Math.abs(hedgeValue).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}). This hedge ratio minimizes basis risk by accounting for price differences, volatility differences, and correlation between spot and futures markets.`;
+    const interpretation = `Optimal hedge ratio: ${hedgeRatio.toFixed(4)}. To hedge ${v.spotQuantity.toLocaleString('en-US')} units of spot position, ${hedgeRatio < 0 ? 'sell' : 'buy'} ${Math.abs(futuresContracts)} futures contracts (hedge value: ${formatCurrency(Math.abs(hedgeValue), preferences)}). This hedge ratio minimizes basis risk by accounting for price differences, volatility differences, and correlation between spot and futures markets.`;
     setResult({ hedgeRatio, futuresContracts, hedgeValue, interpretation });
   };
 
@@ -116,8 +119,8 @@ export default function FuturesHedgeRatioCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('spotPrice', 'Spot Price ($)', 'e.g., 50.00', '$')}
-                {numInput('futuresPrice', 'Futures Price ($)', 'e.g., 50.50', '$')}
+                {numInput('spotPrice', `Spot Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('futuresPrice', `Futures Price (${currencySymbol(preferences)})`, 'e.g., 50.50', currencySymbol(preferences))}
               </div>
               {numInput('spotQuantity', 'Spot Quantity (units)', 'e.g., 1000')}
               {numInput('futuresContractSize', 'Futures Contract Size (units per contract)', 'e.g., 100')}
@@ -142,7 +145,7 @@ export default function FuturesHedgeRatioCalculator() {
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               <div><div className="text-sm text-muted-foreground">Hedge Ratio</div><div className="text-2xl font-semibold">{result.hedgeRatio.toFixed(4)}</div></div>
               <div><div className="text-sm text-muted-foreground">Futures Contracts</div><div className="text-xl font-medium">{result.futuresContracts}</div></div>
-              <div><div className="text-sm text-muted-foreground">Hedge Value</div><div className="text-xl font-medium">${Math.abs(result.hedgeValue).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Hedge Value</div><div className="text-xl font-medium">{formatCurrency(Math.abs(result.hedgeValue), preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { TrendingUp, CheckCircle, Info, Home, Calculator, Globe, FileText } from 'lucide-react';
 import Link from 'next/link';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency, type NumberFormatOptions } from '@/lib/engine';
 
 const formSchema = z.object({
   loanAmount: z.number().positive('Enter loan amount'),
@@ -125,13 +127,13 @@ const getGPMStatus = (result: ReturnType<typeof calculateGPM>, values: FormValue
   return { status, statusColor, bgColor, borderColor, icon, statusText, description };
 };
 
-const getDetailedInterpretation = (result: ReturnType<typeof calculateGPM>, values: FormValues) => {
+const getDetailedInterpretation = (result: ReturnType<typeof calculateGPM>, values: FormValues, format: NumberFormatOptions) => {
   const interpretations = [];
   
   // Payment analysis
-  interpretations.push(`Initial payment: $${result.initialPayment.toFixed(2)} for ${result.graduationPayments} months`);
-  interpretations.push(`Graduated payment: $${result.graduatedPayment.toFixed(2)} for remaining ${result.totalPayments - result.graduationPayments} months`);
-  interpretations.push(`Total interest over the loan term: $${result.totalInterest.toFixed(2)}`);
+  interpretations.push(`Initial payment: ${formatCurrency(result.initialPayment, format)} for ${result.graduationPayments} months`);
+  interpretations.push(`Graduated payment: ${formatCurrency(result.graduatedPayment, format)} for remaining ${result.totalPayments - result.graduationPayments} months`);
+  interpretations.push(`Total interest over the loan term: ${formatCurrency(result.totalInterest, format)}`);
   
   // Risk assessment
   const paymentIncrease = ((result.graduatedPayment - result.initialPayment) / result.initialPayment) * 100;
@@ -151,7 +153,7 @@ const getDetailedInterpretation = (result: ReturnType<typeof calculateGPM>, valu
   
   // Interest analysis
   if (result.interestSavings > 0) {
-    interpretations.push(`You will save $${result.interestSavings.toFixed(2)} compared to a traditional loan`);
+    interpretations.push(`You will save ${formatCurrency(result.interestSavings, format)} compared to a traditional loan`);
     interpretations.push('GPM provides interest savings through lower initial payments');
     interpretations.push('Consider if the savings justify the graduated payment risk');
   } else {
@@ -248,6 +250,7 @@ const getGPMStrategies = (result: ReturnType<typeof calculateGPM>, values: FormV
 };
 
 export default function GraduatedPaymentMortgageCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<ReturnType<typeof calculateGPM> | null>(null);
 
   const form = useForm<FormValues>({
@@ -286,7 +289,7 @@ export default function GraduatedPaymentMortgageCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="loanAmount" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Loan Amount ($)</FormLabel>
+                    <FormLabel>Loan Amount ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input 
                         type="number" 
@@ -421,7 +424,7 @@ export default function GraduatedPaymentMortgageCalculator() {
             <div className={`p-6 rounded-lg border ${getGPMStatus(result, form.getValues()).bgColor} ${getGPMStatus(result, form.getValues()).borderColor}`}>
               <div className="text-center space-y-4">
                 <div>
-                  <p className="text-4xl font-bold">${result.initialPayment.toFixed(2)}</p>
+                  <p className="text-4xl font-bold">{formatCurrency(result.initialPayment, preferences)}</p>
                   <p className={`text-lg font-semibold ${getGPMStatus(result, form.getValues()).statusColor}`}>
                     {getGPMStatus(result, form.getValues()).statusText}
                   </p>
@@ -432,15 +435,15 @@ export default function GraduatedPaymentMortgageCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                   <div>
                     <p className="text-muted-foreground">Graduated Payment</p>
-                    <p className="font-semibold">${result.graduatedPayment.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.graduatedPayment, preferences)}</p>
                   </div>
                   <div>
                     <p className="text-muted-foreground">Total Interest</p>
-                    <p className="font-semibold">${result.totalInterest.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.totalInterest, preferences)}</p>
                   </div>
                   <div>
                     <p className="text-muted-foreground">Interest Savings</p>
-                    <p className="font-semibold">${result.interestSavings.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.interestSavings, preferences)}</p>
                   </div>
                 </div>
               </div>
@@ -449,7 +452,7 @@ export default function GraduatedPaymentMortgageCalculator() {
             <div className="space-y-4">
               <h3 className="font-semibold text-foreground">Detailed Interpretation</h3>
               <ul className="space-y-2">
-                {getDetailedInterpretation(result, form.getValues()).map((interpretation, index) => (
+                {getDetailedInterpretation(result, form.getValues(), preferences).map((interpretation, index) => (
                   <li key={index} className="flex items-start gap-2">
                     <Info className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
                     <span className="text-sm">{interpretation}</span>
@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Info, Activity } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   purchasePrice: z.number().min(0).optional(),
@@ -18,6 +20,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function GRMCalculator(){
+  const { preferences } = usePreferences();
   const [result,setResult]=useState<null|{grm:number; interpretation:string}>(null);
   const [whatIfRent,setWhatIfRent]=useState<number|null>(null);
   const form=useForm<FormValues>({resolver:zodResolver(formSchema), defaultValues:{purchasePrice:undefined as unknown as number, annualGrossRent:undefined as unknown as number}});
@@ -46,8 +49,8 @@ export default function GRMCalculator(){
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <FormField control={form.control} name="purchasePrice" render={({field})=>(<FormItem><FormLabel>Purchase Price ($)</FormLabel><FormControl>{num('e.g., 300000',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="annualGrossRent" render={({field})=>(<FormItem><FormLabel>Annual Gross Rent ($)</FormLabel><FormControl>{num('e.g., 36000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="purchasePrice" render={({field})=>(<FormItem><FormLabel>Purchase Price ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 300000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="annualGrossRent" render={({field})=>(<FormItem><FormLabel>Annual Gross Rent ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 36000',field)}</FormControl><FormMessage/></FormItem>)} />
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -73,7 +76,7 @@ export default function GRMCalculator(){
                   <Button key={mult} variant={(whatIfRent===r)?'default':'secondary'} onClick={()=>setWhatIfRent(r)}>Rent {Math.round(mult*100)}%</Button>
                 );})}
               </div>
-              {whatIfRent!==null && (<div className="mt-2 text-sm">At annual rent ${whatIfRent.toFixed(0)}, GRM ≈ {alt(whatIfRent).toFixed(2)}.</div>)}
+              {whatIfRent!==null && (<div className="mt-2 text-sm">At annual rent {formatCurrency(whatIfRent, preferences, { maximumFractionDigits: 0 })}, GRM ≈ {alt(whatIfRent).toFixed(2)}.</div>)}
             </div>
           </CardContent>
         </Card>
@@ -13,6 +13,8 @@ import { Landmark } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   payment: z.number().positive(),
@@ -28,6 +30,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function GrowingAnnuityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<number | null>(null);
 
   const form = useForm<FormValues>({
@@ -102,7 +105,7 @@ export default function GrowingAnnuityCalculator() {
         <Card className="mt-8">
             <CardHeader><div className='flex items-center gap-4'><Landmark className="h-8 w-8 text-primary" /><CardTitle>Present Value of {valueType === 'annuity' ? 'Growing Annuity' : 'Growing Perpetuity'}</CardTitle></div></CardHeader>
             <CardContent>
-                <p className="text-3xl font-bold text-center">${result.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+                <p className="text-3xl font-bold text-center">{formatCurrency(result, preferences)}</p>
                 <CardDescription className='mt-4 text-center'>This is the total value today of the growing stream of cash flows.</CardDescription>
             </CardContent>
         </Card>
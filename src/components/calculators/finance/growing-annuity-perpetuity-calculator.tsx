@@ -8,9 +8,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, Calculator, DollarSign, Info, AlertCircle, Target, Calendar, BarChart, Infinity } from 'lucide-react';
+import { TrendingUp, Calculator, DollarSign, Info, AlertCircle, Target, Calendar, BarChart, Infinity as InfinityIcon } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   initialPayment: z.number().min(0).optional(),
@@ -26,6 +28,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function GrowingAnnuityPerpetuityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     presentValue: number;
     futureValue: number;
@@ -460,7 +463,7 @@ export default function GrowingAnnuityPerpetuityCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Present Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    {result.presentValue === Infinity ? '∞' : `$${result.presentValue.toLocaleString()}`}
+                    {result.presentValue === Infinity ? '∞' : formatCurrency(result.presentValue, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Current value of growing payments
@@ -473,7 +476,7 @@ export default function GrowingAnnuityPerpetuityCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Future Value</span>
                   </div>
                   <p className="text-3xl font-bold text-green-600">
-                    {result.futureValue === Infinity ? '∞' : `$${result.futureValue.toLocaleString()}`}
+                    {result.futureValue === Infinity ? '∞' : formatCurrency(result.futureValue, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Value at end of period
@@ -489,7 +492,7 @@ export default function GrowingAnnuityPerpetuityCalculator() {
                       <span className="text-sm font-medium text-muted-foreground">Total Payments</span>
                     </div>
                     <p className="text-3xl font-bold text-blue-600">
-                      ${result.totalPayments.toLocaleString()}
+                      {formatCurrency(result.totalPayments, preferences)}
                     </p>
                     <p className="text-sm text-muted-foreground mt-1">
                       Sum of all payments
@@ -502,7 +505,7 @@ export default function GrowingAnnuityPerpetuityCalculator() {
                       <span className="text-sm font-medium text-muted-foreground">Total Interest</span>
                     </div>
                     <p className="text-3xl font-bold text-purple-600">
-                      ${result.totalInterest.toLocaleString()}
+                      {formatCurrency(result.totalInterest, preferences)}
                     </p>
                     <p className="text-sm text-muted-foreground mt-1">
                       Interest earned
@@ -541,9 +544,9 @@ export default function GrowingAnnuityPerpetuityCalculator() {
                         {result.yearByYear.map((year, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{year.year}</td>
-                            <td className="text-right p-2">${year.payment.toLocaleString()}</td>
-                            <td className="text-right p-2">${year.presentValue.toLocaleString()}</td>
-                            <td className="text-right p-2">${year.futureValue.toLocaleString()}</td>
+                            <td className="text-right p-2">{formatCurrency(year.payment, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(year.presentValue, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(year.futureValue, preferences)}</td>
                           </tr>
                         ))}
                       </tbody>
@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Activity, Info } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   annualIncome: z.number().min(0).optional(),
@@ -36,6 +38,7 @@ type Result = {
 };
 
 export default function HomeAffordabilityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<Result | null>(null);
   const [rateScenario, setRateScenario] = useState<number | null>(null);
 
@@ -108,7 +111,7 @@ export default function HomeAffordabilityCalculator() {
     const solved = solveMaxPrice(monthlyBudget, v.downPayment || 0, v.interestRate, v.termYears, v.propertyTaxRate, insuranceMonthly, v.hoaMonthly || 0);
 
     const ratioDown = solved.price > 0 ? ((v.downPayment || 0) / solved.price) * 100 : 0;
-    let interpretation = `With a monthly housing budget of $${monthlyBudget.toFixed(0)}, you can afford a home priced around $${solved.price.toFixed(0)}. This assumes a ${v.termYears}-year loan at ${v.interestRate.toFixed(2)}% APR, property taxes at ${v.propertyTaxRate.toFixed(2)}%/yr, $${(v.insuranceAnnual || 0).toFixed(0)}/yr insurance, and $${(v.hoaMonthly || 0).toFixed(0)}/mo HOA.`;
+    let interpretation = `With a monthly housing budget of ${formatCurrency(monthlyBudget, preferences, { maximumFractionDigits: 0 })}, you can afford a home priced around ${formatCurrency(solved.price, preferences, { maximumFractionDigits: 0 })}. This assumes a ${v.termYears}-year loan at ${v.interestRate.toFixed(2)}% APR, property taxes at ${v.propertyTaxRate.toFixed(2)}%/yr, ${formatCurrency(v.insuranceAnnual || 0, preferences, { maximumFractionDigits: 0 })}/yr insurance, and ${formatCurrency(v.hoaMonthly || 0, preferences, { maximumFractionDigits: 0 })}/mo HOA.`;
     interpretation += ` Your implied down payment ratio is ${ratioDown.toFixed(1)}%.`;
 
     setResult({
@@ -147,16 +150,16 @@ export default function HomeAffordabilityCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <FormField control={form.control} name="annualIncome" render={({ field }) => (<FormItem><FormLabel>Annual Gross Income ($)</FormLabel><FormControl>{num('e.g., 120000', field)}</FormControl><FormMessage /></FormItem>)} />
-                <FormField control={form.control} name="monthlyDebts" render={({ field }) => (<FormItem><FormLabel>Monthly Debts ($)</FormLabel><FormControl>{num('e.g., 600', field)}</FormControl><FormMessage /></FormItem>)} />
-                <FormField control={form.control} name="downPayment" render={({ field }) => (<FormItem><FormLabel>Down Payment ($)</FormLabel><FormControl>{num('e.g., 80000', field)}</FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="annualIncome" render={({ field }) => (<FormItem><FormLabel>Annual Gross Income ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 120000', field)}</FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="monthlyDebts" render={({ field }) => (<FormItem><FormLabel>Monthly Debts ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 600', field)}</FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="downPayment" render={({ field }) => (<FormItem><FormLabel>Down Payment ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 80000', field)}</FormControl><FormMessage /></FormItem>)} />
 
                 <FormField control={form.control} name="interestRate" render={({ field }) => (<FormItem><FormLabel>Interest Rate (% APR)</FormLabel><FormControl>{num('e.g., 6.5', field)}</FormControl><FormMessage /></FormItem>)} />
                 <FormField control={form.control} name="termYears" render={({ field }) => (<FormItem><FormLabel>Loan Term (years)</FormLabel><FormControl>{num('e.g., 30', field)}</FormControl><FormMessage /></FormItem>)} />
                 <FormField control={form.control} name="propertyTaxRate" render={({ field }) => (<FormItem><FormLabel>Property Tax Rate (%/yr)</FormLabel><FormControl>{num('e.g., 1.2', field)}</FormControl><FormMessage /></FormItem>)} />
 
-                <FormField control={form.control} name="insuranceAnnual" render={({ field }) => (<FormItem><FormLabel>Home Insurance ($/yr)</FormLabel><FormControl>{num('e.g., 1200', field)}</FormControl><FormMessage /></FormItem>)} />
-                <FormField control={form.control} name="hoaMonthly" render={({ field }) => (<FormItem><FormLabel>HOA Dues ($/mo)</FormLabel><FormControl>{num('e.g., 0', field)}</FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="insuranceAnnual" render={({ field }) => (<FormItem><FormLabel>Home Insurance ({currencySymbol(preferences)}/yr)</FormLabel><FormControl>{num('e.g., 1200', field)}</FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="hoaMonthly" render={({ field }) => (<FormItem><FormLabel>HOA Dues ({currencySymbol(preferences)}/mo)</FormLabel><FormControl>{num('e.g., 0', field)}</FormControl><FormMessage /></FormItem>)} />
                 <FormField control={form.control} name="targetHousingDTI" render={({ field }) => (<FormItem><FormLabel>Target Housing DTI (% of income)</FormLabel><FormControl>{num('e.g., 28', field)}</FormControl><FormMessage /></FormItem>)} />
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
@@ -175,15 +178,15 @@ export default function HomeAffordabilityCalculator() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <div className="text-sm text-muted-foreground">Max Affordable Price</div>
-                <div className="text-2xl font-semibold">${result.maxAffordablePrice.toFixed(0)}</div>
+                <div className="text-2xl font-semibold">{formatCurrency(result.maxAffordablePrice, preferences, { maximumFractionDigits: 0 })}</div>
               </div>
               <div>
                 <div className="text-sm text-muted-foreground">Estimated Mortgage Payment</div>
-                <div className="text-2xl font-semibold">${result.mortgagePayment.toFixed(0)}/mo</div>
+                <div className="text-2xl font-semibold">{formatCurrency(result.mortgagePayment, preferences, { maximumFractionDigits: 0 })}/mo</div>
               </div>
               <div>
                 <div className="text-sm text-muted-foreground">All-in Housing Budget</div>
-                <div className="text-2xl font-semibold">${result.monthlyBudget.toFixed(0)}/mo</div>
+                <div className="text-2xl font-semibold">{formatCurrency(result.monthlyBudget, preferences, { maximumFractionDigits: 0 })}/mo</div>
               </div>
             </div>
 
@@ -200,7 +203,7 @@ export default function HomeAffordabilityCalculator() {
               </div>
               {scenarioPreview && (
                 <div className="mt-3 text-sm">
-                  At {scenarioPreview.rate.toFixed(2)}% APR, affordable price ≈ ${scenarioPreview.price.toFixed(0)} with est. payment ${scenarioPreview.payment.toFixed(0)}/mo.
+                  At {scenarioPreview.rate.toFixed(2)}% APR, affordable price ≈ {formatCurrency(scenarioPreview.price, preferences, { maximumFractionDigits: 0 })} with est. payment {formatCurrency(scenarioPreview.payment, preferences, { maximumFractionDigits: 0 })}/mo.
                 </div>
               )}
             </div>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { TrendingUp, Calculator, DollarSign, Target, Info, AlertCircle, Calendar, BarChart, PiggyBank, ShoppingCart } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentAmount: z.number().min(0).optional(),
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function InflationCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     futureValue: number;
     purchasingPower: number;
@@ -406,7 +409,7 @@ export default function InflationCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Future Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.futureValue.toLocaleString()}
+                    {formatCurrency(result.futureValue, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Nominal value in the future
@@ -419,7 +422,7 @@ export default function InflationCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Purchasing Power</span>
                   </div>
                   <p className="text-3xl font-bold text-green-600">
-                    ${result.purchasingPower.toLocaleString()}
+                    {formatCurrency(result.purchasingPower, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     What you can buy today
@@ -449,7 +452,7 @@ export default function InflationCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Salary Needed</span>
                   </div>
                   <p className="text-2xl font-bold text-purple-600">
-                    ${result.salaryNeeded.toLocaleString()}
+                    {formatCurrency(result.salaryNeeded, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     To maintain current purchasing power
@@ -487,9 +490,9 @@ export default function InflationCalculator() {
                         {result.yearByYear.map((year, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{year.year}</td>
-                            <td className="text-right p-2">${year.value.toLocaleString()}</td>
-                            <td className="text-right p-2">${year.purchasingPower.toLocaleString()}</td>
-                            <td className="text-right p-2">${(year.value - year.purchasingPower).toLocaleString()}</td>
+                            <td className="text-right p-2">{formatCurrency(year.value, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(year.purchasingPower, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(year.value - year.purchasingPower, preferences)}</td>
                           </tr>
                         ))}
                       </tbody>
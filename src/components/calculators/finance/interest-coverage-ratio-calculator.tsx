@@ -14,6 +14,8 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   ebit: z.number(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function InterestCoverageRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     ratio: number; 
     interpretation: string; 
@@ -154,7 +157,7 @@ export default function InterestCoverageRatioCalculator() {
                     <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4" />
-                        EBIT ($)
+                        EBIT ({currencySymbol(preferences)})
                       </FormLabel>
                       <FormControl>
                         <Input 
@@ -177,7 +180,7 @@ export default function InterestCoverageRatioCalculator() {
                     <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <AlertCircle className="h-4 w-4" />
-                        Interest Expense ($)
+                        Interest Expense ({currencySymbol(preferences)})
                       </FormLabel>
                       <FormControl>
                         <Input 
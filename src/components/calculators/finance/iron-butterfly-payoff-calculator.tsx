@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Activity } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   lowerPutStrike: z.number().min(0).optional(),
@@ -25,6 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function IronButterflyPayoffCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     netPremium: number;
     maxProfit: number;
@@ -120,7 +123,7 @@ export default function IronButterflyPayoffCalculator() {
       }
     }
     
-    const interpretation = `Net premium: $${netPremium.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Maximum profit: $${maxProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} when stock is at middle strike $${v.middleStrike.toFixed(2)} at expiration. Maximum loss: $${maxLoss.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Lower breakeven: $${lowerBreakeven.toFixed(2)}. Upper breakeven: $${upperBreakeven.toFixed(2)}. ${v.stockPrice != null && v.stockPrice > 0 ? `Profit at expiration (stock = $${v.stockPrice.toFixed(2)}): $${profitAtExpiration.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}.` : ''} Iron butterfly profits when stock stays near middle strike, making it ideal for low volatility expectations.`;
+    const interpretation = `Net premium: ${formatCurrency(netPremium, preferences)}. Maximum profit: ${formatCurrency(maxProfit, preferences)} when stock is at middle strike ${formatCurrency(v.middleStrike, preferences)} at expiration. Maximum loss: ${formatCurrency(maxLoss, preferences)}. Lower breakeven: ${formatCurrency(lowerBreakeven, preferences)}. Upper breakeven: ${formatCurrency(upperBreakeven, preferences)}. ${v.stockPrice != null && v.stockPrice > 0 ? `Profit at expiration (stock = ${formatCurrency(v.stockPrice, preferences)}): ${formatCurrency(profitAtExpiration, preferences)}.` : ''} Iron butterfly profits when stock stays near middle strike, making it ideal for low volatility expectations.`;
     setResult({ netPremium, maxProfit, maxLoss, lowerBreakeven, upperBreakeven, profitAtExpiration, interpretation });
   };
 
@@ -135,20 +138,20 @@ export default function IronButterflyPayoffCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('lowerPutStrike', 'Lower Put Strike ($)', 'e.g., 45.00', '$')}
-                {numInput('lowerPutPremium', 'Lower Put Premium ($)', 'e.g., 1.00', '$')}
+                {numInput('lowerPutStrike', `Lower Put Strike (${currencySymbol(preferences)})`, 'e.g., 45.00', currencySymbol(preferences))}
+                {numInput('lowerPutPremium', `Lower Put Premium (${currencySymbol(preferences)})`, 'e.g., 1.00', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('middleStrike', 'Middle Strike ($)', 'e.g., 50.00', '$')}
-                {numInput('putPremium', 'Middle Put Premium ($)', 'e.g., 2.50', '$')}
+                {numInput('middleStrike', `Middle Strike (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('putPremium', `Middle Put Premium (${currencySymbol(preferences)})`, 'e.g., 2.50', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('callPremium', 'Middle Call Premium ($)', 'e.g., 2.50', '$')}
-                {numInput('upperCallStrike', 'Upper Call Strike ($)', 'e.g., 55.00', '$')}
+                {numInput('callPremium', `Middle Call Premium (${currencySymbol(preferences)})`, 'e.g., 2.50', currencySymbol(preferences))}
+                {numInput('upperCallStrike', `Upper Call Strike (${currencySymbol(preferences)})`, 'e.g., 55.00', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('upperCallPremium', 'Upper Call Premium ($)', 'e.g., 1.00', '$')}
-                {numInput('stockPrice', 'Stock Price at Expiration ($, optional)', 'e.g., 50.00', '$')}
+                {numInput('upperCallPremium', `Upper Call Premium (${currencySymbol(preferences)})`, 'e.g., 1.00', currencySymbol(preferences))}
+                {numInput('stockPrice', `Stock Price at Expiration (${currencySymbol(preferences)}, optional)`, 'e.g., 50.00', currencySymbol(preferences))}
               </div>
               {numInput('contracts', 'Number of Contracts (optional, default: 1)', 'e.g., 1')}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
@@ -165,13 +168,13 @@ export default function IronButterflyPayoffCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Net Premium</div><div className={`text-xl font-semibold ${result.netPremium >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.netPremium.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Max Profit</div><div className="text-xl font-medium text-green-600">${result.maxProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Max Loss</div><div className="text-xl font-medium text-red-600">${result.maxLoss.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Lower Breakeven</div><div className="text-lg font-medium">${result.lowerBreakeven.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Upper Breakeven</div><div className="text-lg font-medium">${result.upperBreakeven.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Net Premium</div><div className={`text-xl font-semibold ${result.netPremium >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.netPremium, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Max Profit</div><div className="text-xl font-medium text-green-600">{formatCurrency(result.maxProfit, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Max Loss</div><div className="text-xl font-medium text-red-600">{formatCurrency(result.maxLoss, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Lower Breakeven</div><div className="text-lg font-medium">{formatCurrency(result.lowerBreakeven, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Upper Breakeven</div><div className="text-lg font-medium">{formatCurrency(result.upperBreakeven, preferences)}</div></div>
               {result.profitAtExpiration !== 0 && (
-                <div><div className="text-sm text-muted-foreground">Profit at Expiration</div><div className={`text-lg font-medium ${result.profitAtExpiration >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.profitAtExpiration.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+                <div><div className="text-sm text-muted-foreground">Profit at Expiration</div><div className={`text-lg font-medium ${result.profitAtExpiration >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.profitAtExpiration, preferences)}</div></div>
               )}
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
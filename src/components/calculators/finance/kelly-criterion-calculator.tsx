@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Zap } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   winProbability: z.number().min(0).max(100).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function KellyCriterionCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     kellyPercent: number;
     fractionalKelly: number;
@@ -89,7 +92,7 @@ export default function KellyCriterionCalculator() {
     else if (kellyPercent > 10) recommendation = 'Full Kelly is aggressive. Consider fractional Kelly (50% of full) for more conservative position sizing.';
     else if (kellyPercent > 5) recommendation = 'Full Kelly is moderate. Consider fractional Kelly for risk management, especially if win probability or win/loss ratio estimates are uncertain.';
     else recommendation = 'Full Kelly is conservative. This suggests the edge is small or uncertain. Verify win probability and win/loss ratio estimates.';
-    const interpretation = `Kelly Criterion suggests allocating ${kellyPercent.toFixed(2)}% of portfolio ($${positionSize.toFixed(2)}). Full Kelly maximizes long-term growth but can be volatile. ${recommendation}`;
+    const interpretation = `Kelly Criterion suggests allocating ${kellyPercent.toFixed(2)}% of portfolio (${formatCurrency(positionSize, preferences)}). Full Kelly maximizes long-term growth but can be volatile. ${recommendation}`;
     setResult({ kellyPercent, fractionalKelly, positionSize, interpretation, recommendation });
   };
 
@@ -106,7 +109,7 @@ export default function KellyCriterionCalculator() {
               {numInput('winProbability', 'Win Probability', 'e.g., 55', '%')}
               {numInput('averageWin', 'Average Win ($ or %)', 'e.g., 100')}
               {numInput('averageLoss', 'Average Loss ($ or %)', 'e.g., 50')}
-              {numInput('portfolioValue', 'Portfolio Value ($, optional)', 'e.g., 100000', '$')}
+              {numInput('portfolioValue', `Portfolio Value (${currencySymbol(preferences)}, optional)`, 'e.g., 100000', currencySymbol(preferences))}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
           </Form>
@@ -125,8 +128,8 @@ export default function KellyCriterionCalculator() {
               <div><div className="text-sm text-muted-foreground">Half-Kelly %</div><div className="text-xl font-medium">{result.fractionalKelly.toFixed(2)}%</div></div>
               {form.getValues('portfolioValue') && (
                 <>
-                  <div><div className="text-sm text-muted-foreground">Position Size</div><div className="text-xl font-semibold">${result.positionSize.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-                  <div><div className="text-sm text-muted-foreground">Half-Kelly Size</div><div className="text-xl font-medium">${(result.positionSize * 0.5).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+                  <div><div className="text-sm text-muted-foreground">Position Size</div><div className="text-xl font-semibold">{formatCurrency(result.positionSize, preferences)}</div></div>
+                  <div><div className="text-sm text-muted-foreground">Half-Kelly Size</div><div className="text-xl font-medium">{formatCurrency(result.positionSize * 0.5, preferences)}</div></div>
                 </>
               )}
             </div>
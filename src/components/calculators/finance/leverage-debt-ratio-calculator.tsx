@@ -12,6 +12,8 @@ import { Activity, AlertCircle, Target, Info, Landmark, Calculator, DollarSign,
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   totalDebt: z.number().nonnegative(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function LeverageDebtRatioImpactCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     debtToEquityRatio: number;
     debtToAssetsRatio: number;
@@ -164,7 +167,7 @@ export default function LeverageDebtRatioImpactCalculator() {
               <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Total Debt ($)
+                      Total Debt ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input 
@@ -189,7 +192,7 @@ export default function LeverageDebtRatioImpactCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <TrendingUp className="h-4 w-4" />
-                      Total Equity ($)
+                      Total Equity ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input 
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, TrendingUp, DollarSign, Calendar, Globe, FileText, Info } from 'lucide-react';
 import Link from 'next/link';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency, type NumberFormatOptions } from '@/lib/engine';
 
 const formSchema = z.object({
   loanAmount: z.number().positive('Enter loan amount'),
@@ -175,14 +177,14 @@ const getAmortizationStatus = (result: ReturnType<typeof calculateAmortization>,
   return { status, statusColor, bgColor, borderColor, icon, statusText, description };
 };
 
-const getDetailedInterpretation = (result: ReturnType<typeof calculateAmortization>, values: FormValues) => {
+const getDetailedInterpretation = (result: ReturnType<typeof calculateAmortization>, values: FormValues, format: NumberFormatOptions) => {
   const interpretations = [];
   
   // Extra payment analysis
   if (values.extraPayment && values.extraPayment > 0) {
-    interpretations.push(`Your extra payments of $${values.extraPayment.toFixed(2)} ${values.extraPaymentFrequency} will save you $${result.interestSavings.toFixed(2)} in interest`);
+    interpretations.push(`Your extra payments of ${formatCurrency(values.extraPayment, format)} ${values.extraPaymentFrequency} will save you ${formatCurrency(result.interestSavings, format)} in interest`);
     interpretations.push(`You will pay off your loan ${result.timeSavings} months early`);
-    interpretations.push(`Total extra payments: $${result.totalExtraPayments.toFixed(2)}`);
+    interpretations.push(`Total extra payments: ${formatCurrency(result.totalExtraPayments, format)}`);
     
     if (result.interestSavings > result.totalExtraPayments) {
       interpretations.push('Your extra payments will save you more in interest than you pay extra');
@@ -201,9 +203,9 @@ const getDetailedInterpretation = (result: ReturnType<typeof calculateAmortizati
   }
   
   // Payment analysis
-  interpretations.push(`Your monthly payment is $${result.monthlyPayment.toFixed(2)}`);
-  interpretations.push(`Total interest over the life of the loan: $${result.totalInterest.toFixed(2)}`);
-  interpretations.push(`Total amount paid: $${result.totalPaid.toFixed(2)}`);
+  interpretations.push(`Your monthly payment is ${formatCurrency(result.monthlyPayment, format)}`);
+  interpretations.push(`Total interest over the life of the loan: ${formatCurrency(result.totalInterest, format)}`);
+  interpretations.push(`Total amount paid: ${formatCurrency(result.totalPaid, format)}`);
   
   // Time analysis
   if (result.actualPayments < values.loanTerm * 12) {
@@ -300,6 +302,7 @@ const getPaymentStrategies = (result: ReturnType<typeof calculateAmortization>,
 };
 
 export default function LoanAmortizationExtraPaymentsCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<ReturnType<typeof calculateAmortization> | null>(null);
 
   const form = useForm<FormValues>({
@@ -339,7 +342,7 @@ export default function LoanAmortizationExtraPaymentsCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="loanAmount" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Loan Amount ($)</FormLabel>
+                    <FormLabel>Loan Amount ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input 
                         type="number" 
@@ -395,7 +398,7 @@ export default function LoanAmortizationExtraPaymentsCalculator() {
                 
                 <FormField control={form.control} name="extraPayment" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Extra Payment ($) - Optional</FormLabel>
+                    <FormLabel>Extra Payment ({currencySymbol(preferences)}) - Optional</FormLabel>
                     <FormControl>
                       <Input 
                         type="number" 
@@ -490,7 +493,7 @@ export default function LoanAmortizationExtraPaymentsCalculator() {
             <div className={`p-6 rounded-lg border ${getAmortizationStatus(result, form.getValues()).bgColor} ${getAmortizationStatus(result, form.getValues()).borderColor}`}>
               <div className="text-center space-y-4">
                 <div>
-                  <p className="text-4xl font-bold">${result.monthlyPayment.toFixed(2)}</p>
+                  <p className="text-4xl font-bold">{formatCurrency(result.monthlyPayment, preferences)}</p>
                   <p className={`text-lg font-semibold ${getAmortizationStatus(result, form.getValues()).statusColor}`}>
                     {getAmortizationStatus(result, form.getValues()).statusText}
                   </p>
@@ -501,11 +504,11 @@ export default function LoanAmortizationExtraPaymentsCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                   <div>
                     <p className="text-muted-foreground">Total Interest</p>
-                    <p className="font-semibold">${result.totalInterest.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.totalInterest, preferences)}</p>
                   </div>
                   <div>
                     <p className="text-muted-foreground">Interest Savings</p>
-                    <p className="font-semibold">${result.interestSavings.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.interestSavings, preferences)}</p>
                   </div>
                   <div>
                     <p className="text-muted-foreground">Time Savings</p>
@@ -518,7 +521,7 @@ export default function LoanAmortizationExtraPaymentsCalculator() {
             <div className="space-y-4">
               <h3 className="font-semibold text-foreground">Detailed Interpretation</h3>
               <ul className="space-y-2">
-                {getDetailedInterpretation(result, form.getValues()).map((interpretation, index) => (
+                {getDetailedInterpretation(result, form.getValues(), preferences).map((interpretation, index) => (
                   <li key={index} className="flex items-start gap-2">
                     <DollarSign className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
                     <span className="text-sm">{interpretation}</span>
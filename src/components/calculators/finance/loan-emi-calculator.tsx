@@ -4,7 +4,6 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -14,32 +13,25 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-
-const formSchema = z.object({
-  loanAmount: z.number().positive(),
-  annualInterestRate: z.number().positive(),
-  loanTenureYears: z.number().positive(),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-interface CalculationResult {
-  emi: number;
-  totalPayment: number;
-  totalInterest: number;
-  chartData: { year: number; remainingBalance: number; totalInterestPaid: number }[];
-  interestPercentage: number;
-  principalPercentage: number;
-  monthlyInterestRate: number;
-  totalMonths: number;
-  loanType: string;
-}
+import { loanEmiDefinition, type LoanEmiInput, type LoanEmiOutput } from '@/lib/engine/finance/loan-emi-calculator';
+import { useEmbedInputs } from '@/hooks/use-embed-inputs';
+import { usePermalinkInputs } from '@/hooks/use-permalink-inputs';
+import { useCalculationHistory } from '@/hooks/use-local-history';
+import { CopyLinkButton } from '@/components/copy-link-button';
+import { SaveCalculationButton } from '@/components/save-calculation-button';
+import { CalculationSteps } from '@/components/calculation-steps';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
+
+type FormValues = LoanEmiInput;
 
 export default function LoanEmiCalculator() {
-  const [result, setResult] = useState<CalculationResult | null>(null);
+  const { preferences } = usePreferences();
+  const [result, setResult] = useState<LoanEmiOutput | null>(null);
+  const [calculatedInput, setCalculatedInput] = useState<FormValues | null>(null);
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(loanEmiDefinition.inputSchema),
     defaultValues: {
       loanAmount: undefined,
       annualInterestRate: undefined,
@@ -48,84 +40,18 @@ export default function LoanEmiCalculator() {
   });
 
   const onSubmit = (values: FormValues) => {
-    const { loanAmount, annualInterestRate, loanTenureYears } = values;
-    const P = loanAmount;
-    const r = annualInterestRate / 12 / 100;
-    const n = loanTenureYears * 12;
-
-    if (r === 0) {
-        const emi = P / n;
-        const totalPayment = P;
-        const totalInterest = 0;
-        const chartData = Array.from({ length: loanTenureYears }, (_, i) => {
-            const year = i + 1;
-            const balance = P - emi * year * 12;
-            return {
-                year,
-                remainingBalance: Math.max(0, balance),
-                totalInterestPaid: 0,
-            };
-        });
-        setResult({ emi, totalPayment, totalInterest, chartData });
-        return;
-    }
-
-    const emi = (P * r * Math.pow(1 + r, n)) / (Math.pow(1 + r, n) - 1);
-    const totalPayment = emi * n;
-    const totalInterest = totalPayment - P;
-
-    const chartData = [];
-    let remainingBalance = P;
-    let cumulativeInterest = 0;
-
-    for (let year = 1; year <= loanTenureYears; year++) {
-      let yearlyInterest = 0;
-      for (let month = 1; month <= 12; month++) {
-        const interestPayment = remainingBalance * r;
-        const principalPayment = emi - interestPayment;
-        yearlyInterest += interestPayment;
-        remainingBalance -= principalPayment;
-      }
-      cumulativeInterest += yearlyInterest;
-      chartData.push({
-        year: year,
-        remainingBalance: Math.max(0, remainingBalance), // Ensure balance doesn't go negative
-        totalInterestPaid: Math.round(cumulativeInterest),
-      });
-    }
-    
-    const interestPercentage = (totalInterest / totalPayment) * 100;
-    const principalPercentage = (loanAmount / totalPayment) * 100;
-    const monthlyInterestRate = annualInterestRate / 12;
-    const totalMonths = loanTenureYears * 12;
-    
-    // Determine loan type based on amount and tenure
-    let loanType = 'Personal Loan';
-    if (loanAmount > 200000 && loanTenureYears >= 15) {
-      loanType = 'Mortgage';
-    } else if (loanAmount >= 10000 && loanAmount <= 100000 && loanTenureYears <= 7) {
-      loanType = 'Auto Loan';
-    } else if (loanAmount <= 50000 && loanTenureYears <= 5) {
-      loanType = 'Personal Loan';
-    }
-
-    setResult({ 
-      emi, 
-      totalPayment, 
-      totalInterest, 
-      chartData,
-      interestPercentage,
-      principalPercentage,
-      monthlyInterestRate,
-      totalMonths,
-      loanType
-    });
+    setCalculatedInput(values);
+    setResult(loanEmiDefinition.compute(values));
   };
 
+  const embed = useEmbedInputs(form, loanEmiDefinition, onSubmit, result);
+  const permalink = usePermalinkInputs(form, loanEmiDefinition, onSubmit, result);
+  useCalculationHistory(form, loanEmiDefinition, onSubmit, result);
+
   return (
     <div className="space-y-8">
       {/* Input Form */}
-      <Card>
+      <Card hidden={!embed.showForm}>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Target className="h-5 w-5" />
@@ -143,13 +69,13 @@ export default function LoanEmiCalculator() {
                   control={form.control} 
                   name="loanAmount" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('loanAmount')}>
                       <FormLabel className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4" />
                         Loan Amount
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('loanAmount')} 
                           type="number" 
                           placeholder="e.g., 250000" 
                           {...field} 
@@ -165,13 +91,13 @@ export default function LoanEmiCalculator() {
                   control={form.control} 
                   name="annualInterestRate" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('annualInterestRate')}>
                       <FormLabel className="flex items-center gap-2">
                         <TrendingUp className="h-4 w-4" />
                         Annual Interest Rate (%)
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('annualInterestRate')} 
                           type="number" 
                           placeholder="e.g., 6.5" 
                           {...field} 
@@ -187,13 +113,13 @@ export default function LoanEmiCalculator() {
                   control={form.control} 
                   name="loanTenureYears" 
                   render={({ field }) => (
-                    <FormItem className="md:col-span-2">
+                    <FormItem hidden={embed.isHidden('loanTenureYears')} className="md:col-span-2">
                       <FormLabel className="flex items-center gap-2">
                         <Calendar className="h-4 w-4" />
                         Loan Tenure (Years)
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('loanTenureYears')} 
                           type="number" 
                           placeholder="e.g., 30" 
                           {...field} 
@@ -226,6 +152,10 @@ export default function LoanEmiCalculator() {
                     {result.loanType} • {result.totalMonths} payments • {result.interestPercentage.toFixed(1)}% interest cost
                   </CardDescription>
                 </div>
+                <div className="ml-auto flex flex-wrap justify-end gap-2">
+                  <CopyLinkButton url={permalink} />
+                  <SaveCalculationButton definition={loanEmiDefinition} getInputs={form.getValues} />
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -236,7 +166,7 @@ export default function LoanEmiCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Monthly EMI</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.emi.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.emi, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Fixed monthly payment
@@ -249,7 +179,7 @@ export default function LoanEmiCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Payment</span>
                   </div>
                   <p className="text-2xl font-bold">
-                    ${result.totalPayment.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.totalPayment, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Over {result.totalMonths} months
@@ -262,7 +192,7 @@ export default function LoanEmiCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Interest</span>
                   </div>
                   <p className="text-2xl font-bold text-red-600">
-                    ${result.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.interestPercentage.toFixed(1)}% of total payment
@@ -278,7 +208,7 @@ export default function LoanEmiCalculator() {
                     Principal Amount
                   </h4>
                   <p className="text-2xl font-bold text-primary">
-                    ${result.totalPayment.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.totalPayment, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     {result.principalPercentage.toFixed(1)}% of total payment
@@ -291,7 +221,7 @@ export default function LoanEmiCalculator() {
                     Interest Cost
                   </h4>
                   <p className="text-2xl font-bold text-red-600">
-                    ${result.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     Monthly rate: {result.monthlyInterestRate.toFixed(3)}%
@@ -313,13 +243,13 @@ export default function LoanEmiCalculator() {
                         label={{ value: 'Years', position: 'insideBottom', offset: -5 }}
                       />
                       <YAxis 
-                        tickFormatter={(value) => `$${(value/1000)}k`} 
+                        tickFormatter={(value) => formatCurrency(value, preferences, { compact: true })} 
                         tick={{ fontSize: 12 }}
-                        label={{ value: 'Amount ($)', angle: -90, position: 'insideLeft' }}
+                        label={{ value: `Amount (${currencySymbol(preferences)})`, angle: -90, position: 'insideLeft' }}
                       />
                       <Tooltip 
                         formatter={(value: number, name: string) => [
-                          `$${value.toLocaleString()}`, 
+                          formatCurrency(value, preferences), 
                           name === 'totalInterestPaid' ? 'Total Interest Paid' : 'Remaining Balance'
                         ]}
                         labelFormatter={(year) => `Year ${year}`}
@@ -347,10 +277,11 @@ export default function LoanEmiCalculator() {
               </div>
             </CardContent>
           </Card>
+          <CalculationSteps definition={loanEmiDefinition} input={calculatedInput} />
         </div>
       )}
       {/* Educational Content - Expanded Sections */}
-      <div className="space-y-6">
+      <div className="space-y-6" hidden={embed.compact}>
         {/* Understanding the Inputs */}
         <Card>
           <CardHeader>
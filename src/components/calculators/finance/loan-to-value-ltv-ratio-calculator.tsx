@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Activity, Info } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   loanAmount: z.number().min(0).optional(),
@@ -18,6 +20,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function LoanToValueLTVRatioCalculator(){
+  const { preferences } = usePreferences();
   const [result,setResult]=useState<null|{ltvPct:number; interpretation:string; altValue?:number; altLtv?:number}>(null);
   const [whatIfValue,setWhatIfValue]=useState<number|null>(null);
 
@@ -48,8 +51,8 @@ export default function LoanToValueLTVRatioCalculator(){
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <FormField control={form.control} name="loanAmount" render={({field})=>(<FormItem><FormLabel>Loan Amount ($)</FormLabel><FormControl>{num('e.g., 320000',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="propertyValue" render={({field})=>(<FormItem><FormLabel>Property Value ($)</FormLabel><FormControl>{num('e.g., 400000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="loanAmount" render={({field})=>(<FormItem><FormLabel>Loan Amount ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 320000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="propertyValue" render={({field})=>(<FormItem><FormLabel>Property Value ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 400000',field)}</FormControl><FormMessage/></FormItem>)} />
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -76,7 +79,7 @@ export default function LoanToValueLTVRatioCalculator(){
                 })}
               </div>
               {whatIfValue!==null && (
-                <div className="mt-2 text-sm">At value ${whatIfValue.toFixed(0)}, LTV ≈ {alt(whatIfValue).toFixed(1)}%.</div>
+                <div className="mt-2 text-sm">At value {formatCurrency(whatIfValue, preferences, { maximumFractionDigits: 0 })}, LTV ≈ {alt(whatIfValue).toFixed(1)}%.</div>
               )}
             </div>
           </CardContent>
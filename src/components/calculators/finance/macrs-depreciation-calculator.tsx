@@ -12,6 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Landmark, Calculator, Info, FileText, Building2, TrendingDown } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const macrsTables = {
   '3-year': [0.3333, 0.4445, 0.1481, 0.0741],
@@ -30,6 +32,7 @@ type FormValues = z.infer<typeof formSchema>;
 type ScheduleItem = { year: number; rate: number; depreciation: number; };
 
 export default function MacrsDepreciationCalculator() {
+  const { preferences } = usePreferences();
   const [schedule, setSchedule] = useState<ScheduleItem[] | null>(null);
 
   const form = useForm<FormValues>({
@@ -75,7 +78,7 @@ export default function MacrsDepreciationCalculator() {
                   name="assetCost" 
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Asset Cost ($)</FormLabel>
+                      <FormLabel>Asset Cost ({currencySymbol(preferences)})</FormLabel>
                       <FormControl>
                         <Input 
                           type="number" 
@@ -126,7 +129,7 @@ export default function MacrsDepreciationCalculator() {
               <Landmark className="h-8 w-8 text-primary" />
               <div>
                 <CardTitle>MACRS Depreciation Schedule</CardTitle>
-                <CardDescription>Total depreciation: ${totalDepreciation.toFixed(2)}</CardDescription>
+                <CardDescription>Total depreciation: {formatCurrency(totalDepreciation, preferences)}</CardDescription>
               </div>
             </div>
           </CardHeader>
@@ -144,7 +147,7 @@ export default function MacrsDepreciationCalculator() {
                   <TableRow key={item.year}>
                     <TableCell>{item.year}</TableCell>
                     <TableCell>{item.rate.toFixed(2)}%</TableCell>
-                    <TableCell>${item.depreciation.toFixed(2)}</TableCell>
+                    <TableCell>{formatCurrency(item.depreciation, preferences)}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { AlertTriangle, CheckCircle, Info, Shield, Calculator, Globe, FileText } from 'lucide-react';
 import Link from 'next/link';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   accountValue: z.number().positive('Enter account value'),
@@ -274,6 +276,7 @@ const getRiskManagementTips = (result: ReturnType<typeof calculateMarginRisk>, v
 };
 
 export default function MaintenanceMarginCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<ReturnType<typeof calculateMarginRisk> | null>(null);
 
   const form = useForm<FormValues>({
@@ -314,7 +317,7 @@ export default function MaintenanceMarginCalculator() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField control={form.control} name="accountValue" render={({ field }) => (
               <FormItem>
-                <FormLabel>Account Value ($)</FormLabel>
+                <FormLabel>Account Value ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -332,7 +335,7 @@ export default function MaintenanceMarginCalculator() {
             
             <FormField control={form.control} name="marginUsed" render={({ field }) => (
               <FormItem>
-                <FormLabel>Margin Used ($)</FormLabel>
+                <FormLabel>Margin Used ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -352,7 +355,7 @@ export default function MaintenanceMarginCalculator() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField control={form.control} name="positionValue" render={({ field }) => (
               <FormItem>
-                <FormLabel>Position Value ($)</FormLabel>
+                <FormLabel>Position Value ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -390,7 +393,7 @@ export default function MaintenanceMarginCalculator() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField control={form.control} name="currentPrice" render={({ field }) => (
               <FormItem>
-                <FormLabel>Current Price ($)</FormLabel>
+                <FormLabel>Current Price ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -408,7 +411,7 @@ export default function MaintenanceMarginCalculator() {
             
             <FormField control={form.control} name="entryPrice" render={({ field }) => (
               <FormItem>
-                <FormLabel>Entry Price ($)</FormLabel>
+                <FormLabel>Entry Price ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -502,7 +505,7 @@ export default function MaintenanceMarginCalculator() {
                   </div>
                   <div>
                     <p className="text-muted-foreground">Margin Call Price</p>
-                    <p className="font-semibold">${result.marginCallPrice.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.marginCallPrice, preferences)}</p>
                   </div>
                   <div>
                     <p className="text-muted-foreground">Risk Level</p>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { TrendingUp, AlertTriangle, CheckCircle, Info, Calculator, Globe, FileText } from 'lucide-react';
 import Link from 'next/link';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   accountValue: z.number().positive('Enter account value'),
@@ -262,6 +264,7 @@ const getRiskManagementTips = (result: ReturnType<typeof calculateMarginMetrics>
 };
 
 export default function MarginLeverageCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<ReturnType<typeof calculateMarginMetrics> | null>(null);
 
   const form = useForm<FormValues>({
@@ -302,7 +305,7 @@ export default function MarginLeverageCalculator() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField control={form.control} name="accountValue" render={({ field }) => (
               <FormItem>
-                <FormLabel>Account Value ($)</FormLabel>
+                <FormLabel>Account Value ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -320,7 +323,7 @@ export default function MarginLeverageCalculator() {
             
             <FormField control={form.control} name="marginUsed" render={({ field }) => (
               <FormItem>
-                <FormLabel>Margin Used ($)</FormLabel>
+                <FormLabel>Margin Used ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -378,7 +381,7 @@ export default function MarginLeverageCalculator() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField control={form.control} name="entryPrice" render={({ field }) => (
               <FormItem>
-                <FormLabel>Entry Price ($)</FormLabel>
+                <FormLabel>Entry Price ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -396,7 +399,7 @@ export default function MarginLeverageCalculator() {
             
             <FormField control={form.control} name="currentPrice" render={({ field }) => (
               <FormItem>
-                <FormLabel>Current Price ($)</FormLabel>
+                <FormLabel>Current Price ({currencySymbol(preferences)})</FormLabel>
                 <FormControl>
                   <Input 
                     type="number" 
@@ -486,7 +489,7 @@ export default function MarginLeverageCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                   <div>
                     <p className="text-muted-foreground">Leveraged P&L</p>
-                    <p className="font-semibold">${result.leveragedGainLoss.toFixed(2)}</p>
+                    <p className="font-semibold">{formatCurrency(result.leveragedGainLoss, preferences)}</p>
                   </div>
                   <div>
                     <p className="text-muted-foreground">Margin Utilization</p>
@@ -12,6 +12,8 @@ import { Shield, AlertCircle, Target, Info, Landmark, Calculator, DollarSign, Tr
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   intrinsicValue: z.number().positive(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function MarginOfSafetyCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     marginOfSafety: number;
     marginOfSafetyPercentage: number;
@@ -169,7 +172,7 @@ export default function MarginOfSafetyCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Intrinsic Value ($)
+                      Intrinsic Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter intrinsic value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -181,7 +184,7 @@ export default function MarginOfSafetyCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Current Price ($)
+                      Current Price ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter current price" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -233,9 +236,9 @@ export default function MarginOfSafetyCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <div className="text-2xl font-bold text-primary">
-                      ${result.marginOfSafety.toFixed(2)}
+                      {formatCurrency(result.marginOfSafety, preferences)}
                     </div>
-                    <p className="text-sm text-muted-foreground">Margin of Safety ($)</p>
+                    <p className="text-sm text-muted-foreground">Margin of Safety ({currencySymbol(preferences)})</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-green-600">
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, TrendingDown } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   values: z.string().min(1, 'Enter portfolio values'),
@@ -31,6 +33,7 @@ function parseValues(s: string): number[] | null {
 }
 
 export default function MaximumDrawdownCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     maxDrawdown: number;
     maxDrawdownPercent: number;
@@ -70,7 +73,7 @@ export default function MaximumDrawdownCalculator() {
         troughVal = parsed[i];
       }
     }
-    const interpretation = `Maximum drawdown: ${(maxDD * 100).toFixed(2)}% (from $${peak.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} to $${troughVal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}). This represents the largest peak-to-trough decline in portfolio value. Lower drawdowns indicate better downside protection.`;
+    const interpretation = `Maximum drawdown: ${(maxDD * 100).toFixed(2)}% (from ${formatCurrency(peak, preferences)} to ${formatCurrency(troughVal, preferences)}). This represents the largest peak-to-trough decline in portfolio value. Lower drawdowns indicate better downside protection.`;
     setResult({
       maxDrawdown: maxDD * 100,
       maxDrawdownPercent: maxDD * 100,
@@ -116,9 +119,9 @@ export default function MaximumDrawdownCalculator() {
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div><div className="text-sm text-muted-foreground">Max Drawdown</div><div className="text-2xl font-semibold text-red-600">{result.maxDrawdown.toFixed(2)}%</div></div>
-              <div><div className="text-sm text-muted-foreground">Peak Value</div><div className="text-lg font-medium">${result.peakValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Trough Value</div><div className="text-lg font-medium">${result.troughValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Drawdown Amount</div><div className="text-lg font-medium">${(result.peakValue - result.troughValue).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Peak Value</div><div className="text-lg font-medium">{formatCurrency(result.peakValue, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Trough Value</div><div className="text-lg font-medium">{formatCurrency(result.troughValue, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Drawdown Amount</div><div className="text-lg font-medium">{formatCurrency(result.peakValue - result.troughValue, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
@@ -12,6 +12,8 @@ import { Activity, AlertCircle, Target, Info, Landmark, Calculator, DollarSign,
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   initialValue: z.number().positive(),
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function MonteCarloPortfolioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     meanValue: number;
     medianValue: number;
@@ -195,7 +198,7 @@ export default function MonteCarloPortfolioCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Initial Portfolio Value ($)
+                      Initial Portfolio Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter initial value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -283,25 +286,25 @@ export default function MonteCarloPortfolioCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <div className="text-2xl font-bold text-primary">
-                      ${result.meanValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {formatCurrency(result.meanValue, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">Expected Value (Mean)</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-primary">
-                      ${result.medianValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {formatCurrency(result.medianValue, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">Median Value</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-green-600">
-                      ${result.percentile95.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {formatCurrency(result.percentile95, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">95th Percentile (Best Case)</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-red-600">
-                      ${result.percentile5.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {formatCurrency(result.percentile5, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">5th Percentile (Worst Case)</p>
                   </div>
@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Landmark, Calculator, Globe, FileText, Info, Home } from 'lucide-react';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   homeValue: z.number().positive(),
@@ -28,6 +30,7 @@ type EquityResult = {
 };
 
 export default function MortgageEquityHelocCalculator() {
+  const { preferences } = usePreferences();
   const [res, setRes] = useState<EquityResult | null>(null);
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -69,7 +72,7 @@ export default function MortgageEquityHelocCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="homeValue" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Home Value ($)</FormLabel>
+                    <FormLabel>Home Value ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -78,7 +81,7 @@ export default function MortgageEquityHelocCalculator() {
                 )} />
                 <FormField control={form.control} name="firstMortgageBalance" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>1st Mortgage Balance ($)</FormLabel>
+                    <FormLabel>1st Mortgage Balance ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -87,7 +90,7 @@ export default function MortgageEquityHelocCalculator() {
                 )} />
                 <FormField control={form.control} name="secondMortgageBalance" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>2nd Mortgage/HELOC Balance ($)</FormLabel>
+                    <FormLabel>2nd Mortgage/HELOC Balance ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={(field.value as number | undefined) || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -121,9 +124,9 @@ export default function MortgageEquityHelocCalculator() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
-              <div><p className="text-sm text-muted-foreground">Equity</p><p className="text-2xl font-bold">${res.equity.toLocaleString()}</p></div>
+              <div><p className="text-sm text-muted-foreground">Equity</p><p className="text-2xl font-bold">{formatCurrency(res.equity, preferences)}</p></div>
               <div><p className="text-sm text-muted-foreground">CLTV</p><p className="text-2xl font-bold">{res.cltvPercent.toFixed(1)}%</p></div>
-              <div><p className="text-sm text-muted-foreground">Est. Max HELOC</p><p className="text-2xl font-bold">${res.estimatedMaxHeloc.toLocaleString()}</p></div>
+              <div><p className="text-sm text-muted-foreground">Est. Max HELOC</p><p className="text-2xl font-bold">{formatCurrency(res.estimatedMaxHeloc, preferences)}</p></div>
             </div>
             <div className="mt-4 text-center"><CardDescription>{res.opinion}</CardDescription></div>
           </CardContent>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Home, Calculator, DollarSign, TrendingUp, Info, AlertCircle, Target, Calendar, Building, Shield } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   loanAmount: z.number().min(0).optional(),
@@ -27,6 +29,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function MortgagePaymentCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     principalAndInterest: number;
     totalMonthlyPayment: number;
@@ -457,7 +460,7 @@ export default function MortgagePaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Principal & Interest</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.principalAndInterest.toLocaleString()}
+                    {formatCurrency(result.principalAndInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Monthly P&I payment
@@ -470,7 +473,7 @@ export default function MortgagePaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Monthly Payment</span>
                   </div>
                   <p className="text-3xl font-bold text-green-600">
-                    ${result.totalMonthlyPayment.toLocaleString()}
+                    {formatCurrency(result.totalMonthlyPayment, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Including taxes, insurance, PMI, HOA
@@ -483,7 +486,7 @@ export default function MortgagePaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Interest</span>
                         </div>
                   <p className="text-3xl font-bold text-blue-600">
-                    ${result.totalInterest.toLocaleString()}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Interest over loan term
@@ -498,7 +501,7 @@ export default function MortgagePaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Cost</span>
                   </div>
                   <p className="text-2xl font-bold text-purple-600">
-                    ${result.totalCost.toLocaleString()}
+                    {formatCurrency(result.totalCost, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Including all costs over loan term
@@ -550,10 +553,10 @@ export default function MortgagePaymentCalculator() {
                         {result.amortizationSchedule.map((payment, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{payment.month}</td>
-                            <td className="text-right p-2">${payment.payment.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.principal.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.interest.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.balance.toFixed(2)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.payment, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.principal, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.interest, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.balance, preferences)}</td>
                           </tr>
                         ))}
                       </tbody>
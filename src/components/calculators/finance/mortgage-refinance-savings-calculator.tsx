@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Landmark, Calculator, Globe, FileText, Info, Home } from 'lucide-react';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentBalance: z.number().positive(),
@@ -40,6 +42,7 @@ function monthlyPayment(principal: number, annualRatePct: number, months: number
 }
 
 export default function MortgageRefinanceSavingsCalculator() {
+  const { preferences } = usePreferences();
   const [res, setRes] = useState<RefiResult | null>(null);
 
   const form = useForm<FormValues>({
@@ -97,7 +100,7 @@ export default function MortgageRefinanceSavingsCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="currentBalance" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Current Loan Balance ($)</FormLabel>
+                    <FormLabel>Current Loan Balance ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -142,7 +145,7 @@ export default function MortgageRefinanceSavingsCalculator() {
                 )} />
                 <FormField control={form.control} name="closingCosts" render={({ field }) => (
                   <FormItem className="md:col-span-2">
-                    <FormLabel>Closing Costs ($)</FormLabel>
+                    <FormLabel>Closing Costs ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -167,16 +170,16 @@ export default function MortgageRefinanceSavingsCalculator() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
-              <div><p className="text-sm text-muted-foreground">Current Payment</p><p className="text-2xl font-bold">${res.currentPayment.toLocaleString(undefined,{maximumFractionDigits:2})}</p></div>
-              <div><p className="text-sm text-muted-foreground">New Payment</p><p className="text-2xl font-bold">${res.newPayment.toLocaleString(undefined,{maximumFractionDigits:2})}</p></div>
-              <div><p className="text-sm text-muted-foreground">Monthly Savings</p><p className="text-2xl font-bold">${res.monthlySavings.toLocaleString(undefined,{maximumFractionDigits:2})}</p></div>
+              <div><p className="text-sm text-muted-foreground">Current Payment</p><p className="text-2xl font-bold">{formatCurrency(res.currentPayment, preferences)}</p></div>
+              <div><p className="text-sm text-muted-foreground">New Payment</p><p className="text-2xl font-bold">{formatCurrency(res.newPayment, preferences)}</p></div>
+              <div><p className="text-sm text-muted-foreground">Monthly Savings</p><p className="text-2xl font-bold">{formatCurrency(res.monthlySavings, preferences)}</p></div>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center mt-6">
               <div><p className="text-sm text-muted-foreground">Breakeven</p><p className="text-xl font-semibold">{res.breakevenMonths === null ? 'N/A' : `${res.breakevenMonths} mo`}</p></div>
-              <div><p className="text-sm text-muted-foreground">Interest Remaining (Current)</p><p className="text-xl font-semibold">${res.totalInterestRemainingCurrent.toLocaleString(undefined,{maximumFractionDigits:0})}</p></div>
-              <div><p className="text-sm text-muted-foreground">Interest (New)</p><p className="text-xl font-semibold">${res.totalInterestNew.toLocaleString(undefined,{maximumFractionDigits:0})}</p></div>
+              <div><p className="text-sm text-muted-foreground">Interest Remaining (Current)</p><p className="text-xl font-semibold">{formatCurrency(res.totalInterestRemainingCurrent, preferences, { maximumFractionDigits: 0 })}</p></div>
+              <div><p className="text-sm text-muted-foreground">Interest (New)</p><p className="text-xl font-semibold">{formatCurrency(res.totalInterestNew, preferences, { maximumFractionDigits: 0 })}</p></div>
             </div>
-            <div className="text-center mt-6"><p className="text-sm text-muted-foreground">Estimated Lifetime Savings after costs</p><p className="text-2xl font-bold">${res.totalSavings.toLocaleString(undefined,{maximumFractionDigits:0})}</p></div>
+            <div className="text-center mt-6"><p className="text-sm text-muted-foreground">Estimated Lifetime Savings after costs</p><p className="text-2xl font-bold">{formatCurrency(res.totalSavings, preferences, { maximumFractionDigits: 0 })}</p></div>
             <div className="mt-4 text-center"><CardDescription>{res.opinion}</CardDescription></div>
           </CardContent>
         </Card>
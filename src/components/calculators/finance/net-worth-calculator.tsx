@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { DollarSign, TrendingUp, TrendingDown, Calculator, Info, AlertCircle, Target, Building, Car, PiggyBank, CreditCard, Home } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   liquidAssets: z.number().min(0).optional(),
@@ -28,6 +30,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function NetWorthCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     totalAssets: number; 
     totalLiabilities: number;
@@ -457,7 +460,7 @@ export default function NetWorthCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Assets</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.totalAssets.toLocaleString()}
+                    {formatCurrency(result.totalAssets, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Your total assets
@@ -470,7 +473,7 @@ export default function NetWorthCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Liabilities</span>
                   </div>
                   <p className="text-3xl font-bold text-red-600">
-                    ${result.totalLiabilities.toLocaleString()}
+                    {formatCurrency(result.totalLiabilities, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Your total debt
@@ -483,7 +486,7 @@ export default function NetWorthCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Net Worth</span>
                   </div>
                   <p className={`text-3xl font-bold ${result.netWorth >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    ${result.netWorth.toLocaleString()}
+                    {formatCurrency(result.netWorth, preferences)}
                   </p>
                   <div className="text-sm text-muted-foreground mt-1">
                     <Badge variant={result.financialHealth === 'Excellent' ? 'default' : result.financialHealth === 'Good' ? 'secondary' : result.financialHealth === 'Fair' ? 'outline' : result.financialHealth === 'Poor' ? 'destructive' : 'destructive'}>
@@ -516,7 +519,7 @@ export default function NetWorthCalculator() {
                           <div key={index} className="flex justify-between items-center">
                             <span className="text-sm">{item.category}</span>
                             <div className="text-right">
-                              <div className="font-semibold">${item.amount.toLocaleString()}</div>
+                              <div className="font-semibold">{formatCurrency(item.amount, preferences)}</div>
                               <div className="text-xs text-muted-foreground">{item.percentage.toFixed(1)}%</div>
                             </div>
                           </div>
@@ -542,7 +545,7 @@ export default function NetWorthCalculator() {
                           <div key={index} className="flex justify-between items-center">
                             <span className="text-sm">{item.category}</span>
                             <div className="text-right">
-                              <div className="font-semibold">${item.amount.toLocaleString()}</div>
+                              <div className="font-semibold">{formatCurrency(item.amount, preferences)}</div>
                               <div className="text-xs text-muted-foreground">{item.percentage.toFixed(1)}%</div>
                             </div>
                           </div>
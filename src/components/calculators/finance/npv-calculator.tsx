@@ -12,6 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, PlusCircle, XCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const cashFlowSchema = z.object({
   value: z.number().optional(),
@@ -25,6 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function NpvCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     npv: number; 
     interpretation: string; 
@@ -251,7 +254,7 @@ export default function NpvCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">NPV</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.npv.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    {formatCurrency(result.npv, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.profitability}
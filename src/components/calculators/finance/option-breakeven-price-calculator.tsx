@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Target } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   strikePrice: z.number().min(0).optional(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function OptionBreakevenPriceCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     breakevenPrice: number;
     totalPremium: number;
@@ -101,7 +104,7 @@ export default function OptionBreakevenPriceCalculator() {
       maxLoss = totalPremium;
     }
     
-    const interpretation = `Breakeven price: $${breakevenPrice.toFixed(2)}. At expiration, the ${v.optionType} option will be profitable if the underlying price is ${v.optionType === 'call' ? 'above' : 'below'} $${breakevenPrice.toFixed(2)}. Total premium ${v.optionType === 'call' ? 'paid' : 'paid'}: $${totalPremium.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Maximum loss: $${maxLoss.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (premium paid). ${v.optionType === 'call' ? 'Maximum profit is unlimited if underlying price rises significantly.' : `Maximum profit: $${maxProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} if underlying price falls to zero.`}`;
+    const interpretation = `Breakeven price: ${formatCurrency(breakevenPrice, preferences)}. At expiration, the ${v.optionType} option will be profitable if the underlying price is ${v.optionType === 'call' ? 'above' : 'below'} ${formatCurrency(breakevenPrice, preferences)}. Total premium ${v.optionType === 'call' ? 'paid' : 'paid'}: ${formatCurrency(totalPremium, preferences)}. Maximum loss: ${formatCurrency(maxLoss, preferences)} (premium paid). ${v.optionType === 'call' ? 'Maximum profit is unlimited if underlying price rises significantly.' : `Maximum profit: ${formatCurrency(maxProfit, preferences)} if underlying price falls to zero.`}`;
     setResult({ breakevenPrice, totalPremium, maxProfit: isFinite(maxProfit) ? maxProfit : 0, maxLoss, interpretation });
   };
 
@@ -116,7 +119,7 @@ export default function OptionBreakevenPriceCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('strikePrice', 'Strike Price ($)', 'e.g., 50.00', '$')}
+                {numInput('strikePrice', `Strike Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
                 <FormField control={form.control} name="optionType" render={({ field }) => (
                   <FormItem>
                     <FormLabel>Option Type</FormLabel>
@@ -132,7 +135,7 @@ export default function OptionBreakevenPriceCalculator() {
                   </FormItem>
                 )} />
               </div>
-              {numInput('optionPremium', 'Option Premium ($)', 'e.g., 2.50', '$')}
+              {numInput('optionPremium', `Option Premium (${currencySymbol(preferences)})`, 'e.g., 2.50', currencySymbol(preferences))}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {numInput('contracts', 'Number of Contracts (optional, default: 1)', 'e.g., 1')}
                 {numInput('contractSize', 'Contract Size (shares per contract, optional, default: 100)', 'e.g., 100')}
@@ -151,10 +154,10 @@ export default function OptionBreakevenPriceCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div><div className="text-sm text-muted-foreground">Breakeven Price</div><div className="text-2xl font-semibold">${result.breakevenPrice.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Total Premium</div><div className="text-xl font-medium">${result.totalPremium.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Max Profit</div><div className="text-xl font-medium text-green-600">{result.maxProfit === 0 ? 'Unlimited' : `$${result.maxProfit.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</div></div>
-              <div><div className="text-sm text-muted-foreground">Max Loss</div><div className="text-xl font-medium text-red-600">${result.maxLoss.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Breakeven Price</div><div className="text-2xl font-semibold">{formatCurrency(result.breakevenPrice, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Total Premium</div><div className="text-xl font-medium">{formatCurrency(result.totalPremium, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Max Profit</div><div className="text-xl font-medium text-green-600">{result.maxProfit === 0 ? 'Unlimited' : formatCurrency(result.maxProfit, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Max Loss</div><div className="text-xl font-medium text-red-600">{formatCurrency(result.maxLoss, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
@@ -13,6 +13,8 @@ import { TrendingUp, AlertCircle, Target, Info, Landmark, Calculator, DollarSign
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   optionType: z.enum(['call', 'put']),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function OptionPayoffCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     chartData: any[];
     breakEven: number;
@@ -195,7 +198,7 @@ export default function OptionPayoffCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Strike Price ($)
+                      Strike Price ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter strike price" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -207,7 +210,7 @@ export default function OptionPayoffCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <Activity className="h-4 w-4" />
-                      Premium Paid ($)
+                      Premium Paid ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter premium" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -247,19 +250,19 @@ export default function OptionPayoffCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
                     <div className="text-2xl font-bold text-primary">
-                      ${result.breakEven.toFixed(2)}
+                      {formatCurrency(result.breakEven, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">Break-Even Price</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-green-600">
-                      {result.maxProfit === Infinity ? '∞' : `$${result.maxProfit.toFixed(2)}`}
+                      {result.maxProfit === Infinity ? '∞' : formatCurrency(result.maxProfit, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">Maximum Profit</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-red-600">
-                      ${result.maxLoss.toFixed(2)}
+                      {formatCurrency(result.maxLoss, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">Maximum Loss</p>
                   </div>
@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Clock } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   optionPrice: z.number().min(0).optional(),
@@ -33,6 +35,7 @@ function calculateTheta(optionPrice: number, timeToExpiration: number, volatilit
 }
 
 export default function OptionTimeDecaySimulator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     currentTheta: number;
     dailyDecay: number;
@@ -108,7 +111,7 @@ export default function OptionTimeDecaySimulator() {
       }
     }
     
-    const interpretation = `Current theta: $${currentTheta.toFixed(2)} per day. Daily decay: $${dailyDecay.toFixed(2)}. Weekly decay: $${weeklyDecay.toFixed(2)}. Monthly decay: $${monthlyDecay.toFixed(2)}. Time decay accelerates as expiration approaches, with the highest decay rate occurring in the final days before expiration. Option sellers benefit from time decay, while option buyers lose value as time passes.`;
+    const interpretation = `Current theta: ${formatCurrency(currentTheta, preferences)} per day. Daily decay: ${formatCurrency(dailyDecay, preferences)}. Weekly decay: ${formatCurrency(weeklyDecay, preferences)}. Monthly decay: ${formatCurrency(monthlyDecay, preferences)}. Time decay accelerates as expiration approaches, with the highest decay rate occurring in the final days before expiration. Option sellers benefit from time decay, while option buyers lose value as time passes.`;
     setResult({ currentTheta, dailyDecay, weeklyDecay, monthlyDecay, timeDecayTable, interpretation });
   };
 
@@ -123,7 +126,7 @@ export default function OptionTimeDecaySimulator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('optionPrice', 'Option Price ($)', 'e.g., 5.00', '$')}
+                {numInput('optionPrice', `Option Price (${currencySymbol(preferences)})`, 'e.g., 5.00', currencySymbol(preferences))}
                 <FormField control={form.control} name="optionType" render={({ field }) => (
                   <FormItem>
                     <FormLabel>Option Type</FormLabel>
@@ -140,8 +143,8 @@ export default function OptionTimeDecaySimulator() {
                 )} />
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('strikePrice', 'Strike Price ($, optional)', 'e.g., 50.00', '$')}
-                {numInput('spotPrice', 'Spot Price ($, optional)', 'e.g., 52.00', '$')}
+                {numInput('strikePrice', `Strike Price (${currencySymbol(preferences)}, optional)`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('spotPrice', `Spot Price (${currencySymbol(preferences)}, optional)`, 'e.g., 52.00', currencySymbol(preferences))}
               </div>
               {numInput('timeToExpiration', 'Time to Expiration (days)', 'e.g., 30')}
               {numInput('volatility', 'Volatility (%, annualized)', 'e.g., 20', '%')}
@@ -160,10 +163,10 @@ export default function OptionTimeDecaySimulator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div><div className="text-sm text-muted-foreground">Current Theta</div><div className="text-xl font-semibold text-red-600">${result.currentTheta.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Daily Decay</div><div className="text-lg font-medium text-red-600">${result.dailyDecay.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Weekly Decay</div><div className="text-lg font-medium text-red-600">${result.weeklyDecay.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Monthly Decay</div><div className="text-lg font-medium text-red-600">${result.monthlyDecay.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Current Theta</div><div className="text-xl font-semibold text-red-600">{formatCurrency(result.currentTheta, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Daily Decay</div><div className="text-lg font-medium text-red-600">{formatCurrency(result.dailyDecay, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Weekly Decay</div><div className="text-lg font-medium text-red-600">{formatCurrency(result.weeklyDecay, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Monthly Decay</div><div className="text-lg font-medium text-red-600">{formatCurrency(result.monthlyDecay, preferences)}</div></div>
             </div>
             {result.timeDecayTable.length > 0 && (
               <div className="mt-4">
@@ -181,8 +184,8 @@ export default function OptionTimeDecaySimulator() {
                       {result.timeDecayTable.map((row, idx) => (
                         <tr key={idx} className="border-b">
                           <td className="p-2">{row.days}</td>
-                          <td className="text-right p-2">${row.optionValue.toFixed(2)}</td>
-                          <td className="text-right p-2 text-red-600">${row.decay.toFixed(2)}</td>
+                          <td className="text-right p-2">{formatCurrency(row.optionValue, preferences)}</td>
+                          <td className="text-right p-2 text-red-600">{formatCurrency(row.decay, preferences)}</td>
                         </tr>
                       ))}
                     </tbody>
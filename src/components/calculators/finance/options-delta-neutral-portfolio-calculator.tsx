@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Scale } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   optionDelta: z.number().min(-1).max(1).optional(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function OptionsDeltaNeutralPortfolioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     totalDelta: number;
     sharesToHedge: number;
@@ -85,7 +88,7 @@ export default function OptionsDeltaNeutralPortfolioCalculator() {
     const totalDelta = optionDelta + existing;
     const sharesToHedge = -totalDelta;
     const hedgeValue = sharesToHedge * v.underlyingPrice;
-    const interpretation = `Total portfolio delta: ${totalDelta.toFixed(2)}. To achieve delta neutrality, ${sharesToHedge > 0 ? 'buy' : 'sell'} ${Math.abs(sharesToHedge).toFixed(0)} shares of the underlying (hedge value: $${Math.abs(hedgeValue).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}). Delta-neutral portfolios are insensitive to small price movements in the underlying asset, focusing on other Greeks (gamma, theta, vega) for profit.`;
+    const interpretation = `Total portfolio delta: ${totalDelta.toFixed(2)}. To achieve delta neutrality, ${sharesToHedge > 0 ? 'buy' : 'sell'} ${Math.abs(sharesToHedge).toFixed(0)} shares of the underlying (hedge value: ${formatCurrency(Math.abs(hedgeValue), preferences)}). Delta-neutral portfolios are insensitive to small price movements in the underlying asset, focusing on other Greeks (gamma, theta, vega) for profit.`;
     setResult({ totalDelta, sharesToHedge, hedgeValue, interpretation });
   };
 
@@ -102,7 +105,7 @@ export default function OptionsDeltaNeutralPortfolioCalculator() {
               {numInput('optionDelta', 'Option Delta (-1 to 1)', 'e.g., 0.5')}
               {numInput('optionContracts', 'Number of Option Contracts', 'e.g., 10')}
               {numInput('contractSize', 'Contract Size (shares per contract)', 'e.g., 100')}
-              {numInput('underlyingPrice', 'Underlying Price ($)', 'e.g., 50.00', '$')}
+              {numInput('underlyingPrice', `Underlying Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
               {numInput('existingPosition', 'Existing Underlying Position (shares, optional)', 'e.g., 0')}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -120,7 +123,7 @@ export default function OptionsDeltaNeutralPortfolioCalculator() {
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               <div><div className="text-sm text-muted-foreground">Total Portfolio Delta</div><div className="text-2xl font-semibold">{result.totalDelta.toFixed(2)}</div></div>
               <div><div className="text-sm text-muted-foreground">Shares to Hedge</div><div className={`text-xl font-medium ${result.sharesToHedge > 0 ? 'text-green-600' : 'text-red-600'}`}>{result.sharesToHedge > 0 ? '+' : ''}{result.sharesToHedge.toFixed(0)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Hedge Value</div><div className="text-xl font-medium">${Math.abs(result.hedgeValue).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Hedge Value</div><div className="text-xl font-medium">{formatCurrency(Math.abs(result.hedgeValue), preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
@@ -11,6 +11,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Factory, Calculator, Info, TrendingUp, Target, FileText } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   totalOverhead: z.number().positive(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function OverheadRateAllocationCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ rate: number; unit: string } | null>(null);
 
   const form = useForm<FormValues>({
@@ -58,7 +61,7 @@ export default function OverheadRateAllocationCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <Factory className="h-4 w-4" />
-                      Total Estimated Overhead Costs ($)
+                      Total Estimated Overhead Costs ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="e.g., 50000" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -111,7 +114,7 @@ export default function OverheadRateAllocationCalculator() {
           <CardContent>
             <div className="text-center p-8 bg-primary/5 rounded-lg">
               <p className="text-4xl font-bold text-primary mb-2">
-                ${result.rate.toFixed(2)} per {result.unit}
+                {formatCurrency(result.rate, preferences)} per {result.unit}
               </p>
               <p className="text-muted-foreground">
                 This rate should be used to apply overhead costs to products or jobs based on their consumption of the allocation base.
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, PlusCircle, XCircle, Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const cashFlowSchema = z.object({ value: z.number().positive() });
 
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PaybackPeriodCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     paybackPeriod: string; 
     interpretation: string; 
@@ -190,7 +193,7 @@ export default function PaybackPeriodCalculator() {
                 <FormItem>
                   <FormLabel className="flex items-center gap-2">
                     <DollarSign className="h-4 w-4" />
-                    Initial Investment ($)
+                    Initial Investment ({currencySymbol(preferences)})
                   </FormLabel>
                   <FormControl>
                     <Input 
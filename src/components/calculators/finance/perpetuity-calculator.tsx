@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Infinity, Calculator, DollarSign, TrendingUp, Info, AlertCircle, Target, Calendar, BarChart, Building } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   paymentAmount: z.number().min(0).optional(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PerpetuityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     presentValue: number;
     paymentAmount: number;
@@ -391,7 +394,7 @@ export default function PerpetuityCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Present Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.presentValue.toLocaleString()}
+                    {formatCurrency(result.presentValue, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Current value of infinite payments
@@ -404,7 +407,7 @@ export default function PerpetuityCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Payment Amount</span>
                   </div>
                   <p className="text-3xl font-bold text-green-600">
-                    ${result.paymentAmount.toLocaleString()}
+                    {formatCurrency(result.paymentAmount, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Per payment period
@@ -455,8 +458,8 @@ export default function PerpetuityCalculator() {
                         {result.yearByYear.map((year, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{year.year}</td>
-                            <td className="text-right p-2">${year.payment.toLocaleString()}</td>
-                            <td className="text-right p-2">${year.presentValue.toLocaleString()}</td>
+                            <td className="text-right p-2">{formatCurrency(year.payment, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(year.presentValue, preferences)}</td>
                             <td className="text-right p-2">{year.discountFactor.toFixed(4)}</td>
                           </tr>
                         ))}
@@ -10,6 +10,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, RotateCcw } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   positions: z.string().min(1, 'Enter positions data'),
@@ -42,6 +44,7 @@ function parsePositions(data: string): { name: string; currentWeight: number; ta
 }
 
 export default function PortfolioRebalancingPlanner() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     rebalancing: { name: string; currentWeight: number; targetWeight: number; drift: number; tradeAmount: number; tradePercent: number }[];
     totalDrift: number;
@@ -95,7 +98,7 @@ export default function PortfolioRebalancingPlanner() {
               )} />
               <FormField control={form.control} name="portfolioValue" render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Portfolio Value ($, optional)</FormLabel>
+                  <FormLabel>Portfolio Value ({currencySymbol(preferences)}, optional)</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
@@ -136,7 +139,7 @@ export default function PortfolioRebalancingPlanner() {
                     <th className="text-right p-2">Current</th>
                     <th className="text-right p-2">Target</th>
                     <th className="text-right p-2">Drift</th>
-                    {form.getValues('portfolioValue') && <th className="text-right p-2">Trade ($)</th>}
+                    {form.getValues('portfolioValue') && <th className="text-right p-2">Trade ({currencySymbol(preferences)})</th>}
                   </tr>
                 </thead>
                 <tbody>
@@ -150,7 +153,7 @@ export default function PortfolioRebalancingPlanner() {
                       </td>
                       {form.getValues('portfolioValue') && (
                         <td className={`text-right p-2 ${r.tradeAmount > 0 ? 'text-red-600' : r.tradeAmount < 0 ? 'text-green-600' : ''}`}>
-                          {r.tradeAmount > 0 ? '+' : ''}${r.tradeAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          {r.tradeAmount > 0 ? '+' : ''}{formatCurrency(r.tradeAmount, preferences)}
                         </td>
                       )}
                     </tr>
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, RefreshCw } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   totalPurchases: z.number().min(0).optional(),
@@ -19,6 +21,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PortfolioTurnoverRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     turnoverRatio: number;
     interpretation: string;
@@ -84,9 +87,9 @@ export default function PortfolioTurnoverRatioCalculator() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('totalPurchases', 'Total Purchases ($)', 'e.g., 50000')}
-              {numInput('totalSales', 'Total Sales ($)', 'e.g., 45000')}
-              {numInput('averagePortfolioValue', 'Average Portfolio Value ($)', 'e.g., 100000')}
+              {numInput('totalPurchases', `Total Purchases (${currencySymbol(preferences)})`, 'e.g., 50000')}
+              {numInput('totalSales', `Total Sales (${currencySymbol(preferences)})`, 'e.g., 45000')}
+              {numInput('averagePortfolioValue', `Average Portfolio Value (${currencySymbol(preferences)})`, 'e.g., 100000')}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
           </Form>
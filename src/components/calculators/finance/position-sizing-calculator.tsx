@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Target } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   portfolioValue: z.number().min(0).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PositionSizingCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     positionSize: number;
     positionValue: number;
@@ -82,7 +85,7 @@ export default function PositionSizingCalculator() {
     const positionValue = riskAmount / riskPercent;
     const shares = Math.floor(positionValue / v.entryPrice);
     const actualPositionValue = shares * v.entryPrice;
-    const interpretation = `For ${v.accountRiskPercent}% account risk ($${riskAmount.toFixed(2)}), optimal position size is $${actualPositionValue.toFixed(2)} (${shares} shares) at $${v.entryPrice.toFixed(2)} with stop loss at $${v.stopLossPrice.toFixed(2)}. This limits loss to $${riskAmount.toFixed(2)} if stop loss is hit.`;
+    const interpretation = `For ${v.accountRiskPercent}% account risk (${formatCurrency(riskAmount, preferences)}), optimal position size is ${formatCurrency(actualPositionValue, preferences)} (${shares} shares) at ${formatCurrency(v.entryPrice, preferences)} with stop loss at ${formatCurrency(v.stopLossPrice, preferences)}. This limits loss to ${formatCurrency(riskAmount, preferences)} if stop loss is hit.`;
     setResult({ positionSize: actualPositionValue, positionValue: actualPositionValue, shares, riskAmount, interpretation });
   };
 
@@ -96,10 +99,10 @@ export default function PositionSizingCalculator() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('portfolioValue', 'Portfolio Value', 'e.g., 100000', '$')}
+              {numInput('portfolioValue', 'Portfolio Value', 'e.g., 100000', currencySymbol(preferences))}
               {numInput('accountRiskPercent', 'Account Risk (%)', 'e.g., 2', '%')}
-              {numInput('entryPrice', 'Entry Price', 'e.g., 50.00', '$')}
-              {numInput('stopLossPrice', 'Stop Loss Price', 'e.g., 48.00', '$')}
+              {numInput('entryPrice', 'Entry Price', 'e.g., 50.00', currencySymbol(preferences))}
+              {numInput('stopLossPrice', 'Stop Loss Price', 'e.g., 48.00', currencySymbol(preferences))}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
           </Form>
@@ -114,9 +117,9 @@ export default function PositionSizingCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div><div className="text-sm text-muted-foreground">Position Size</div><div className="text-xl font-semibold">${result.positionSize.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Position Size</div><div className="text-xl font-semibold">{formatCurrency(result.positionSize, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Shares</div><div className="text-xl font-semibold">{result.shares}</div></div>
-              <div><div className="text-sm text-muted-foreground">Risk Amount</div><div className="text-xl font-semibold text-red-600">${result.riskAmount.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Risk Amount</div><div className="text-xl font-semibold text-red-600">{formatCurrency(result.riskAmount, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Risk % of Portfolio</div><div className="text-xl font-semibold">{form.getValues('accountRiskPercent')?.toFixed(1)}%</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
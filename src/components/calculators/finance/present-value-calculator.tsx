@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingDown, Info, AlertCircle, Target, Calendar, BarChart, TrendingUp } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   futureValue: z.number().min(0).optional(),
@@ -25,6 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PresentValueCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     presentValue: number;
     discountFactor: number;
@@ -444,7 +447,7 @@ export default function PresentValueCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Present Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.presentValue.toLocaleString()}
+                    {formatCurrency(result.presentValue, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Current worth of future cash flows
@@ -495,7 +498,7 @@ export default function PresentValueCalculator() {
                         {result.yearByYear.map((year, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{year.year}</td>
-                            <td className="text-right p-2">${year.presentValue.toLocaleString()}</td>
+                            <td className="text-right p-2">{formatCurrency(year.presentValue, preferences)}</td>
                             <td className="text-right p-2">{year.discountFactor.toFixed(4)}</td>
                             <td className="text-right p-2">{((1 - year.discountFactor) * 100).toFixed(1)}%</td>
                           </tr>
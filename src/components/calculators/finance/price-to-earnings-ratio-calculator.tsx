@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, Percent } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   pricePerShare: z.number().positive(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PriceToEarningsRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     peRatio: number; 
     interpretation: string; 
@@ -154,7 +157,7 @@ export default function PriceToEarningsRatioCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Market Price per Share ($)
+                      Market Price per Share ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input 
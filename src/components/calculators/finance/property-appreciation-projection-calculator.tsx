@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Activity, Info } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentValue: z.number().min(0).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PropertyAppreciationProjectionCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<null | { futureValue: number; totalExtraEquity: number; interpretation: string; altYears?: number; altFuture?: number }>(null);
   const [whatIfYears, setWhatIfYears] = useState<number | null>(null);
 
@@ -52,8 +55,8 @@ export default function PropertyAppreciationProjectionCalculator() {
     const g = v.annualAppreciationPct / 100;
     const fv = v.currentValue * Math.pow(1 + g, v.years);
     const totalExtra = (v.extraEquityPerYear || 0) * v.years;
-    let interpretation = `At ${v.annualAppreciationPct.toFixed(2)}% annual appreciation, a $${v.currentValue.toFixed(0)} property could be worth about $${fv.toFixed(0)} in ${v.years} years.`;
-    if (v.extraEquityPerYear && v.extraEquityPerYear > 0) interpretation += ` Adding $${v.extraEquityPerYear.toFixed(0)} per year in principal/equity contributions builds an extra $${totalExtra.toFixed(0)} in equity (ignoring compounding).`;
+    let interpretation = `At ${v.annualAppreciationPct.toFixed(2)}% annual appreciation, a ${formatCurrency(v.currentValue, preferences, { maximumFractionDigits: 0 })} property could be worth about ${formatCurrency(fv, preferences, { maximumFractionDigits: 0 })} in ${v.years} years.`;
+    if (v.extraEquityPerYear && v.extraEquityPerYear > 0) interpretation += ` Adding ${formatCurrency(v.extraEquityPerYear, preferences, { maximumFractionDigits: 0 })} per year in principal/equity contributions builds an extra ${formatCurrency(totalExtra, preferences, { maximumFractionDigits: 0 })} in equity (ignoring compounding).`;
     setResult({ futureValue: fv, totalExtraEquity: totalExtra, interpretation });
   };
 
@@ -74,10 +77,10 @@ export default function PropertyAppreciationProjectionCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-                <FormField control={form.control} name="currentValue" render={({field}) => (<FormItem><FormLabel>Current Property Value ($)</FormLabel><FormControl>{num('e.g., 300000', field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="currentValue" render={({field}) => (<FormItem><FormLabel>Current Property Value ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 300000', field)}</FormControl><FormMessage/></FormItem>)} />
                 <FormField control={form.control} name="annualAppreciationPct" render={({field}) => (<FormItem><FormLabel>Annual Appreciation (%)</FormLabel><FormControl>{num('e.g., 3', field)}</FormControl><FormMessage/></FormItem>)} />
                 <FormField control={form.control} name="years" render={({field}) => (<FormItem><FormLabel>Years</FormLabel><FormControl>{num('e.g., 10', field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="extraEquityPerYear" render={({field}) => (<FormItem><FormLabel>Extra Equity Per Year ($)</FormLabel><FormControl>{num('optional', field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="extraEquityPerYear" render={({field}) => (<FormItem><FormLabel>Extra Equity Per Year ({currencySymbol(preferences)})</FormLabel><FormControl>{num('optional', field)}</FormControl><FormMessage/></FormItem>)} />
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -92,7 +95,7 @@ export default function PropertyAppreciationProjectionCalculator() {
             <CardDescription>Adjust years to see an interactive projection.</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            <div className="text-2xl font-semibold">Projected Value: ${result.futureValue.toFixed(0)}</div>
+            <div className="text-2xl font-semibold">Projected Value: {formatCurrency(result.futureValue, preferences, { maximumFractionDigits: 0 })}</div>
             <p className="text-sm leading-6">{result.interpretation}</p>
             <div className="rounded-md border p-3">
               <div className="flex items-center gap-2 font-medium mb-2"><Info className="h-4 w-4"/> What-if: Years</div>
@@ -102,7 +105,7 @@ export default function PropertyAppreciationProjectionCalculator() {
                 ))}
               </div>
               {whatIfYears!==null && (
-                <div className="mt-2 text-sm">In {whatIfYears} years: ≈ ${makeAlt(whatIfYears).toFixed(0)}</div>
+                <div className="mt-2 text-sm">In {whatIfYears} years: ≈ {formatCurrency(makeAlt(whatIfYears), preferences, { maximumFractionDigits: 0 })}</div>
               )}
             </div>
           </CardContent>
@@ -12,6 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Bot, Calculator, Info, FileText, Globe } from 'lucide-react';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   stockPrice: z.number().positive(),
@@ -33,6 +35,7 @@ interface Result {
 }
 
 export default function PutCallParityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<Result | null>(null);
 
   const form = useForm<FormValues>({
@@ -94,7 +97,7 @@ export default function PutCallParityCalculator() {
                   name="stockPrice" 
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Stock Price ($)</FormLabel>
+                      <FormLabel>Stock Price ({currencySymbol(preferences)})</FormLabel>
                       <FormControl>
                         <Input 
                           type="number" 
@@ -114,7 +117,7 @@ export default function PutCallParityCalculator() {
                   name="strikePrice" 
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Strike Price ($)</FormLabel>
+                      <FormLabel>Strike Price ({currencySymbol(preferences)})</FormLabel>
                       <FormControl>
                         <Input 
                           type="number" 
@@ -134,7 +137,7 @@ export default function PutCallParityCalculator() {
                   name="callPrice" 
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Call Option Price ($)</FormLabel>
+                      <FormLabel>Call Option Price ({currencySymbol(preferences)})</FormLabel>
                       <FormControl>
                         <Input 
                           type="number" 
@@ -154,7 +157,7 @@ export default function PutCallParityCalculator() {
                   name="putPrice" 
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Put Option Price ($)</FormLabel>
+                      <FormLabel>Put Option Price ({currencySymbol(preferences)})</FormLabel>
                       <FormControl>
                         <Input 
                           type="number" 
@@ -255,11 +258,11 @@ export default function PutCallParityCalculator() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center mb-6">
               <div>
                 <p className="font-semibold">Put + Stock (P + S₀)</p>
-                <p className="text-xl font-mono">${result.leftSide.toFixed(4)}</p>
+                <p className="text-xl font-mono">{formatCurrency(result.leftSide, preferences, { maximumFractionDigits: 4 })}</p>
               </div>
               <div>
                 <p className="font-semibold">Call + PV(Strike) (C + Ke⁻ʳᵀ)</p>
-                <p className="text-xl font-mono">${result.rightSide.toFixed(4)}</p>
+                <p className="text-xl font-mono">{formatCurrency(result.rightSide, preferences, { maximumFractionDigits: 4 })}</p>
               </div>
             </div>
             {result.arbitrage ? (
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, CheckCircle2 } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   callPrice: z.number().min(0).optional(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function PutCallParityChecker() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     leftSide: number;
     rightSide: number;
@@ -84,7 +87,7 @@ export default function PutCallParityChecker() {
     const difference = Math.abs(leftSide - rightSide);
     const isParity = difference < 0.01;
     const arbitrageOpportunity = difference > 0.10;
-    const interpretation = `Put-Call Parity: Left side (Call + PV(Strike)) = $${leftSide.toFixed(2)}, Right side (Put + Spot) = $${rightSide.toFixed(2)}. Difference: $${difference.toFixed(2)}. ${isParity ? 'Parity holds (difference < $0.01). Options are correctly priced.' : arbitrageOpportunity ? 'Large difference detected (difference > $0.10). Potential arbitrage opportunity exists. Consider executing the arbitrage strategy.' : 'Small difference detected. Options are approximately correctly priced, but small discrepancies may exist due to transaction costs or market frictions.'}`;
+    const interpretation = `Put-Call Parity: Left side (Call + PV(Strike)) = ${formatCurrency(leftSide, preferences)}, Right side (Put + Spot) = ${formatCurrency(rightSide, preferences)}. Difference: ${formatCurrency(difference, preferences)}. ${isParity ? 'Parity holds (difference < $0.01). Options are correctly priced.' : arbitrageOpportunity ? 'Large difference detected (difference > $0.10). Potential arbitrage opportunity exists. Consider executing the arbitrage strategy.' : 'Small difference detected. Options are approximately correctly priced, but small discrepancies may exist due to transaction costs or market frictions.'}`;
     setResult({ leftSide, rightSide, difference, isParity, arbitrageOpportunity, interpretation });
   };
 
@@ -99,12 +102,12 @@ export default function PutCallParityChecker() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('callPrice', 'Call Option Price ($)', 'e.g., 5.00', '$')}
-                {numInput('putPrice', 'Put Option Price ($)', 'e.g., 2.00', '$')}
+                {numInput('callPrice', `Call Option Price (${currencySymbol(preferences)})`, 'e.g., 5.00', currencySymbol(preferences))}
+                {numInput('putPrice', `Put Option Price (${currencySymbol(preferences)})`, 'e.g., 2.00', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('strikePrice', 'Strike Price ($)', 'e.g., 50.00', '$')}
-                {numInput('spotPrice', 'Spot Price ($)', 'e.g., 52.00', '$')}
+                {numInput('strikePrice', `Strike Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('spotPrice', `Spot Price (${currencySymbol(preferences)})`, 'e.g., 52.00', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {numInput('interestRate', 'Risk-Free Interest Rate (%, optional)', 'e.g., 5', '%')}
@@ -124,9 +127,9 @@ export default function PutCallParityChecker() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Left Side</div><div className="text-xl font-semibold">${result.leftSide.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Right Side</div><div className="text-xl font-semibold">${result.rightSide.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Difference</div><div className={`text-xl font-medium ${result.isParity ? 'text-green-600' : result.arbitrageOpportunity ? 'text-red-600' : 'text-orange-600'}`}>${result.difference.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Left Side</div><div className="text-xl font-semibold">{formatCurrency(result.leftSide, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Right Side</div><div className="text-xl font-semibold">{formatCurrency(result.rightSide, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Difference</div><div className={`text-xl font-medium ${result.isParity ? 'text-green-600' : result.arbitrageOpportunity ? 'text-red-600' : 'text-orange-600'}`}>{formatCurrency(result.difference, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Parity Status</div><div className={`text-lg font-medium ${result.isParity ? 'text-green-600' : 'text-orange-600'}`}>{result.isParity ? 'Holds' : 'Violated'}</div></div>
               <div><div className="text-sm text-muted-foreground">Arbitrage</div><div className={`text-lg font-medium ${result.arbitrageOpportunity ? 'text-red-600' : 'text-green-600'}`}>{result.arbitrageOpportunity ? 'Opportunity' : 'None'}</div></div>
             </div>
@@ -14,6 +14,8 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   cash: z.number().nonnegative(),
@@ -25,6 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function QuickRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     ratio: number; 
     interpretation: string; 
@@ -159,7 +162,7 @@ export default function QuickRatioCalculator() {
                     <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4" />
-                        Cash ($)
+                        Cash ({currencySymbol(preferences)})
                       </FormLabel>
                       <FormControl>
                         <Input 
@@ -182,7 +185,7 @@ export default function QuickRatioCalculator() {
                     <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <BarChart3 className="h-4 w-4" />
-                        Marketable Securities ($)
+                        Marketable Securities ({currencySymbol(preferences)})
                       </FormLabel>
                       <FormControl>
                         <Input 
@@ -205,7 +208,7 @@ export default function QuickRatioCalculator() {
                     <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <TrendingUp className="h-4 w-4" />
-                        Accounts Receivable ($)
+                        Accounts Receivable ({currencySymbol(preferences)})
                       </FormLabel>
                       <FormControl>
                         <Input 
@@ -228,7 +231,7 @@ export default function QuickRatioCalculator() {
                     <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <AlertCircle className="h-4 w-4" />
-                        Current Liabilities ($)
+                        Current Liabilities ({currencySymbol(preferences)})
                       </FormLabel>
                       <FormControl>
                         <Input 
@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Info, Activity } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   noiAnnual: z.number().min(0).optional(),
@@ -19,6 +21,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function CapRateSensitivityCalculator(){
+  const { preferences } = usePreferences();
   const [result,setResult]=useState<null|{valueNow:number; valueScenario:number; interpretation:string}>(null);
   const [whatIfBps,setWhatIfBps]=useState<number|null>(null);
   const form=useForm<FormValues>({resolver:zodResolver(formSchema), defaultValues:{noiAnnual:undefined as unknown as number, currentCapRatePct:undefined as unknown as number, scenarioChangeBps:undefined as unknown as number}});
@@ -32,7 +35,7 @@ export default function CapRateSensitivityCalculator(){
     const bps=v.scenarioChangeBps||0; const newCap=v.currentCapRatePct + bps/100;
     const valueScenario= newCap>0? capToValue(v.noiAnnual,newCap):0;
     const delta=valueScenario - valueNow;
-    const interp=`At ${v.currentCapRatePct?.toFixed(2)}% cap, value ≈ $${valueNow.toFixed(0)}. A ${bps>=0?'+':''}${bps} bps change to ${newCap.toFixed(2)}% implies value ≈ $${valueScenario.toFixed(0)} (${delta>=0?'+':''}${delta.toFixed(0)}).`;
+    const interp=`At ${v.currentCapRatePct?.toFixed(2)}% cap, value ≈ ${formatCurrency(valueNow, preferences, { maximumFractionDigits: 0 })}. A ${bps>=0?'+':''}${bps} bps change to ${newCap.toFixed(2)}% implies value ≈ ${formatCurrency(valueScenario, preferences, { maximumFractionDigits: 0 })} (${delta>=0?'+':''}${delta.toFixed(0)}).`;
     setResult({valueNow, valueScenario, interpretation:interp});
   };
 
@@ -69,8 +72,8 @@ export default function CapRateSensitivityCalculator(){
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Current Value</div><div className="text-2xl font-semibold">${result.valueNow.toFixed(0)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Scenario Value</div><div className="text-2xl font-semibold">${result.valueScenario.toFixed(0)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Current Value</div><div className="text-2xl font-semibold">{formatCurrency(result.valueNow, preferences, { maximumFractionDigits: 0 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Scenario Value</div><div className="text-2xl font-semibold">{formatCurrency(result.valueScenario, preferences, { maximumFractionDigits: 0 })}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
             <div className="rounded-md border p-3">
@@ -81,7 +84,7 @@ export default function CapRateSensitivityCalculator(){
                 ))}
               </div>
               {whatIfBps!==null && (
-                <div className="mt-2 text-sm">At {((form.getValues('currentCapRatePct')||0)+(whatIfBps/100)).toFixed(2)}% cap, value ≈ ${quick(whatIfBps).toFixed(0)}.</div>
+                <div className="mt-2 text-sm">At {((form.getValues('currentCapRatePct')||0)+(whatIfBps/100)).toFixed(2)}% cap, value ≈ {formatCurrency(quick(whatIfBps), preferences, { maximumFractionDigits: 0 })}.</div>
               )}
             </div>
           </CardContent>
@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Landmark, Calculator, Globe, FileText, Info, Home } from 'lucide-react';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   downPayment: z.number().nonnegative(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function RealEstateCashOnCashReturnCalculator() {
+  const { preferences } = usePreferences();
   const [res, setRes] = useState<{ cashInvested: number; annualCashFlow: number; cocPct: number; opinion: string } | null>(null);
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -57,7 +60,7 @@ export default function RealEstateCashOnCashReturnCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="downPayment" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Down Payment ($)</FormLabel>
+                    <FormLabel>Down Payment ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -66,7 +69,7 @@ export default function RealEstateCashOnCashReturnCalculator() {
                 )} />
                 <FormField control={form.control} name="closingCosts" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Closing Costs ($)</FormLabel>
+                    <FormLabel>Closing Costs ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -75,7 +78,7 @@ export default function RealEstateCashOnCashReturnCalculator() {
                 )} />
                 <FormField control={form.control} name="rehabCosts" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Rehab/Upfront CapEx ($)</FormLabel>
+                    <FormLabel>Rehab/Upfront CapEx ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -84,7 +87,7 @@ export default function RealEstateCashOnCashReturnCalculator() {
                 )} />
                 <FormField control={form.control} name="noiAnnual" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>NOI – annual ($)</FormLabel>
+                    <FormLabel>NOI – annual ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -93,7 +96,7 @@ export default function RealEstateCashOnCashReturnCalculator() {
                 )} />
                 <FormField control={form.control} name="annualDebtService" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Annual Debt Service ($)</FormLabel>
+                    <FormLabel>Annual Debt Service ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -118,8 +121,8 @@ export default function RealEstateCashOnCashReturnCalculator() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
-              <div><p className="text-sm text-muted-foreground">Cash Invested</p><p className="text-2xl font-bold">${res.cashInvested.toLocaleString()}</p></div>
-              <div><p className="text-sm text-muted-foreground">Annual Cash Flow</p><p className="text-2xl font-bold">${res.annualCashFlow.toLocaleString()}</p></div>
+              <div><p className="text-sm text-muted-foreground">Cash Invested</p><p className="text-2xl font-bold">{formatCurrency(res.cashInvested, preferences)}</p></div>
+              <div><p className="text-sm text-muted-foreground">Annual Cash Flow</p><p className="text-2xl font-bold">{formatCurrency(res.annualCashFlow, preferences)}</p></div>
               <div><p className="text-sm text-muted-foreground">Cash-on-Cash</p><p className="text-2xl font-bold">{res.cocPct.toFixed(2)}%</p></div>
             </div>
             <div className="mt-4 text-center"><CardDescription>{res.opinion}</CardDescription></div>
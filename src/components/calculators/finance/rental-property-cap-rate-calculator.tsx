@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Landmark, Calculator, Globe, FileText, Info, Home } from 'lucide-react';
 import { EmbedWidget } from '@/components/embed-widget';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   purchasePrice: z.number().positive(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function RentalPropertyCapRateCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ noi: number; capRatePct: number; opinion: string } | null>(null);
 
   const form = useForm<FormValues>({
@@ -61,7 +64,7 @@ export default function RentalPropertyCapRateCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="purchasePrice" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Purchase Price ($)</FormLabel>
+                    <FormLabel>Purchase Price ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={field.value || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -70,7 +73,7 @@ export default function RentalPropertyCapRateCalculator() {
                 )} />
                 <FormField control={form.control} name="noi" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Net Operating Income (NOI) – annual ($)</FormLabel>
+                    <FormLabel>Net Operating Income (NOI) – annual ({currencySymbol(preferences)})</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={(field.value as number | undefined) || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -79,7 +82,7 @@ export default function RentalPropertyCapRateCalculator() {
                 )} />
                 <FormField control={form.control} name="grossRentAnnual" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Gross Rent – annual ($) [optional]</FormLabel>
+                    <FormLabel>Gross Rent – annual ({currencySymbol(preferences)}) [optional]</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={(field.value as number | undefined) || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -88,7 +91,7 @@ export default function RentalPropertyCapRateCalculator() {
                 )} />
                 <FormField control={form.control} name="operatingExpensesAnnual" render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Operating Expenses – annual ($) [optional]</FormLabel>
+                    <FormLabel>Operating Expenses – annual ({currencySymbol(preferences)}) [optional]</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} value={(field.value as number | undefined) || ''} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} />
                     </FormControl>
@@ -113,7 +116,7 @@ export default function RentalPropertyCapRateCalculator() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
-              <div><p className="text-sm text-muted-foreground">NOI</p><p className="text-2xl font-bold">${result.noi.toLocaleString()}</p></div>
+              <div><p className="text-sm text-muted-foreground">NOI</p><p className="text-2xl font-bold">{formatCurrency(result.noi, preferences)}</p></div>
               <div><p className="text-sm text-muted-foreground">Cap Rate</p><p className="text-2xl font-bold">{result.capRatePct.toFixed(2)}%</p></div>
             </div>
             <div className="mt-4 text-center"><CardDescription>{result.opinion}</CardDescription></div>
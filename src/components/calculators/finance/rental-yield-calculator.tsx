@@ -9,6 +9,8 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Activity, Info } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   purchasePrice: z.number().min(0).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function RentalYieldCalculator(){
+  const { preferences } = usePreferences();
   const [result,setResult]=useState<null|{grossYieldPct:number; netYieldPct:number; noi:number; interpretation:string; altVacancy?:number; altNetYield?:number}>(null);
   const [whatIfVacancy,setWhatIfVacancy]=useState<number|null>(null);
 
@@ -35,7 +38,7 @@ export default function RentalYieldCalculator(){
     const expensesAnnual=(v.monthlyExpenses||0)*12;
     const noi = effectiveRent - expensesAnnual;
     const netYield = v.purchasePrice>0 ? (noi / v.purchasePrice) * 100 : 0;
-    let interpretation = `Gross yield: ${grossYield.toFixed(1)}%. Net yield (after vacancy ${v.vacancyRatePct.toFixed(1)}% and expenses $${expensesAnnual.toFixed(0)}/yr): ${netYield.toFixed(1)}%.`;
+    let interpretation = `Gross yield: ${grossYield.toFixed(1)}%. Net yield (after vacancy ${v.vacancyRatePct.toFixed(1)}% and expenses ${formatCurrency(expensesAnnual, preferences, { maximumFractionDigits: 0 })}/yr): ${netYield.toFixed(1)}%.`;
     interpretation += netYield>=6? ' This looks strong for many markets.':' Consider improving rent, reducing costs, or negotiating price.';
     setResult({grossYieldPct:grossYield, netYieldPct:netYield, noi, interpretation});
   };
@@ -56,10 +59,10 @@ export default function RentalYieldCalculator(){
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-                <FormField control={form.control} name="purchasePrice" render={({field})=>(<FormItem><FormLabel>Purchase Price ($)</FormLabel><FormControl>{num('e.g., 300000',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="monthlyRent" render={({field})=>(<FormItem><FormLabel>Monthly Rent ($)</FormLabel><FormControl>{num('e.g., 2200',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="purchasePrice" render={({field})=>(<FormItem><FormLabel>Purchase Price ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 300000',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="monthlyRent" render={({field})=>(<FormItem><FormLabel>Monthly Rent ({currencySymbol(preferences)})</FormLabel><FormControl>{num('e.g., 2200',field)}</FormControl><FormMessage/></FormItem>)} />
                 <FormField control={form.control} name="vacancyRatePct" render={({field})=>(<FormItem><FormLabel>Vacancy Rate (%)</FormLabel><FormControl>{num('e.g., 5',field)}</FormControl><FormMessage/></FormItem>)} />
-                <FormField control={form.control} name="monthlyExpenses" render={({field})=>(<FormItem><FormLabel>Monthly Operating Expenses ($)</FormLabel><FormControl>{num('taxes+ins+mgmt+hoa',field)}</FormControl><FormMessage/></FormItem>)} />
+                <FormField control={form.control} name="monthlyExpenses" render={({field})=>(<FormItem><FormLabel>Monthly Operating Expenses ({currencySymbol(preferences)})</FormLabel><FormControl>{num('taxes+ins+mgmt+hoa',field)}</FormControl><FormMessage/></FormItem>)} />
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -77,7 +80,7 @@ export default function RentalYieldCalculator(){
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div><div className="text-sm text-muted-foreground">Gross Yield</div><div className="text-2xl font-semibold">{result.grossYieldPct.toFixed(1)}%</div></div>
               <div><div className="text-sm text-muted-foreground">Net Yield</div><div className="text-2xl font-semibold">{result.netYieldPct.toFixed(1)}%</div></div>
-              <div><div className="text-sm text-muted-foreground">NOI (annual)</div><div className="text-2xl font-semibold">${result.noi.toFixed(0)}</div></div>
+              <div><div className="text-sm text-muted-foreground">NOI (annual)</div><div className="text-2xl font-semibold">{formatCurrency(result.noi, preferences, { maximumFractionDigits: 0 })}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
             <div className="rounded-md border p-3">
@@ -15,6 +15,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentAge: z.number().int().positive(),
@@ -45,6 +47,7 @@ interface CalculationResult {
 }
 
 export default function RetirementSavingsCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<CalculationResult | null>(null);
   const [calculationMode, setCalculationMode] = useState<'project' | 'target'>('project');
 
@@ -319,7 +322,7 @@ export default function RetirementSavingsCalculator() {
                         <span className="text-sm font-medium text-muted-foreground">Retirement Balance</span>
                       </div>
                       <p className="text-3xl font-bold text-primary">
-                        ${result.totalSavings.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        {formatCurrency(result.totalSavings, preferences, { maximumFractionDigits: 0 })}
                       </p>
                       <p className="text-sm text-muted-foreground mt-1">
                         At age {form.getValues('retirementAge')}
@@ -332,7 +335,7 @@ export default function RetirementSavingsCalculator() {
                         <span className="text-sm font-medium text-muted-foreground">Total Invested</span>
                       </div>
                       <p className="text-2xl font-bold">
-                        ${result.totalInvested.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        {formatCurrency(result.totalInvested, preferences, { maximumFractionDigits: 0 })}
                       </p>
                       <p className="text-sm text-muted-foreground mt-1">
                         Your contributions over time
@@ -345,7 +348,7 @@ export default function RetirementSavingsCalculator() {
                         <span className="text-sm font-medium text-muted-foreground">Interest Earned</span>
                       </div>
                       <p className="text-2xl font-bold text-green-600">
-                        ${result.totalInterest.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        {formatCurrency(result.totalInterest, preferences, { maximumFractionDigits: 0 })}
                       </p>
                       <p className="text-sm text-muted-foreground mt-1">
                         {result.interestPercentage.toFixed(1)}% of total balance
@@ -361,7 +364,7 @@ export default function RetirementSavingsCalculator() {
                         Monthly Retirement Income
                       </h4>
                       <p className="text-2xl font-bold text-primary">
-                        ${result.monthlyIncome.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        {formatCurrency(result.monthlyIncome, preferences, { maximumFractionDigits: 0 })}
                       </p>
                       <p className="text-sm text-muted-foreground">
                         Based on 4% withdrawal rule
@@ -374,7 +377,7 @@ export default function RetirementSavingsCalculator() {
                         Annual Retirement Income
                       </h4>
                       <p className="text-2xl font-bold text-primary">
-                        ${result.annualIncome.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        {formatCurrency(result.annualIncome, preferences, { maximumFractionDigits: 0 })}
                       </p>
                       <p className="text-sm text-muted-foreground">
                         Sustainable annual income
@@ -391,7 +394,7 @@ export default function RetirementSavingsCalculator() {
                     </div>
                     {result.requiredMonthlyContribution !== undefined && result.requiredMonthlyContribution > 0 ? (
                       <p className="text-3xl font-bold text-primary">
-                        ${result.requiredMonthlyContribution.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                        {formatCurrency(result.requiredMonthlyContribution, preferences, { maximumFractionDigits: 0 })}
                       </p>
                     ) : (
                       <p className="text-lg text-green-600">
@@ -399,7 +402,7 @@ export default function RetirementSavingsCalculator() {
                       </p>
                     )}
                     <p className="text-sm text-muted-foreground mt-1">
-                      To reach your target of ${form.getValues('targetCorpus')?.toLocaleString()}
+                      To reach your target of {formatCurrency(form.getValues('targetCorpus') ?? 0, preferences)}
                     </p>
                   </div>
                 </div>
@@ -429,13 +432,13 @@ export default function RetirementSavingsCalculator() {
                         label={{ value: 'Age', position: 'insideBottom', offset: -5 }}
                       />
                       <YAxis 
-                        tickFormatter={(value) => `$${(value/1000)}k`} 
+                        tickFormatter={(value) => formatCurrency(value, preferences, { compact: true })} 
                         tick={{ fontSize: 12 }}
-                        label={{ value: 'Value ($)', angle: -90, position: 'insideLeft' }}
+                        label={{ value: `Value (${currencySymbol(preferences)})`, angle: -90, position: 'insideLeft' }}
                       />
                       <Tooltip 
                         formatter={(value: number, name: string) => [
-                          `$${value.toLocaleString()}`, 
+                          formatCurrency(value, preferences), 
                           name === "totalInvested" ? "Total Invested" : "Projected Value"
                         ]}
                         labelFormatter={(age) => `Age ${age}`}
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, Percent } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   netIncome: z.number().positive(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ReturnOnEquityCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     roe: number; 
     interpretation: string; 
@@ -159,7 +162,7 @@ export default function ReturnOnEquityCalculator() {
               <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Net Income ($)
+                      Net Income ({currencySymbol(preferences)})
                     </FormLabel>
                 <FormControl>
                       <Input 
@@ -179,7 +182,7 @@ export default function ReturnOnEquityCalculator() {
               <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Shareholders' Equity ($)
+                      Shareholders' Equity ({currencySymbol(preferences)})
                     </FormLabel>
                 <FormControl>
                       <Input 
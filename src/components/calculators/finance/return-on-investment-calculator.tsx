@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, DollarSign, TrendingUp, Target, Info, AlertCircle, BarChart3, Percent } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol } from '@/lib/engine';
 
 const formSchema = z.object({
   gainFromInvestment: z.number(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ReturnOnInvestmentCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     roi: number; 
     interpretation: string; 
@@ -162,7 +165,7 @@ export default function ReturnOnInvestmentCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <TrendingUp className="h-4 w-4" />
-                      Gain from Investment ($)
+                      Gain from Investment ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input 
@@ -182,7 +185,7 @@ export default function ReturnOnInvestmentCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Cost of Investment ($)
+                      Cost of Investment ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input 
@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, TrendingUp } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   entryPrice: z.number().min(0).optional(),
@@ -19,6 +21,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function RiskRewardRatioCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     risk: number;
     reward: number;
@@ -81,7 +84,7 @@ export default function RiskRewardRatioCalculator() {
     else if (ratio >= 2) assessment = 'Good risk/reward. Favorable for systematic trading if win rate is reasonable.';
     else if (ratio >= 1) assessment = 'Acceptable risk/reward. Requires higher win rate or careful trade selection.';
     else assessment = 'Poor risk/reward. Consider adjusting target or stop loss, or skipping the trade.';
-    const interpretation = `Risk: $${risk.toFixed(2)} (${riskPercent.toFixed(2)}%). Reward: $${reward.toFixed(2)} (${rewardPercent.toFixed(2)}%). Risk/Reward Ratio: ${ratio.toFixed(2)}:1. ${assessment}`;
+    const interpretation = `Risk: ${formatCurrency(risk, preferences)} (${riskPercent.toFixed(2)}%). Reward: ${formatCurrency(reward, preferences)} (${rewardPercent.toFixed(2)}%). Risk/Reward Ratio: ${ratio.toFixed(2)}:1. ${assessment}`;
     setResult({ risk, reward, ratio, riskPercent, rewardPercent, interpretation });
   };
 
@@ -112,8 +115,8 @@ export default function RiskRewardRatioCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-              <div><div className="text-sm text-muted-foreground">Risk</div><div className="text-xl font-semibold text-red-600">${result.risk.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Reward</div><div className="text-xl font-semibold text-green-600">${result.reward.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Risk</div><div className="text-xl font-semibold text-red-600">{formatCurrency(result.risk, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Reward</div><div className="text-xl font-semibold text-green-600">{formatCurrency(result.reward, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Ratio</div><div className="text-2xl font-bold">{result.ratio.toFixed(2)}:1</div></div>
               <div><div className="text-sm text-muted-foreground">Risk %</div><div className="text-lg font-medium">{result.riskPercent.toFixed(2)}%</div></div>
               <div><div className="text-sm text-muted-foreground">Reward %</div><div className="text-lg font-medium">{result.rewardPercent.toFixed(2)}%</div></div>
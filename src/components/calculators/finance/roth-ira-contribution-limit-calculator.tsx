@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { PiggyBank, Calculator, DollarSign, TrendingUp, Info, AlertCircle, Target, Calendar, Users, Building } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   age: z.number().min(0).max(120).optional(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function RothIRAContributionLimitCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     maxContribution: number;
     reducedContribution: number;
@@ -110,7 +113,7 @@ export default function RothIRAContributionLimitCalculator() {
       reducedContribution,
       remainingContribution,
       eligibilityStatus,
-      phaseoutRange: `$${phaseout.start.toLocaleString()} - $${phaseout.end.toLocaleString()}`
+      phaseoutRange: `${formatCurrency(phaseout.start, preferences)} - ${formatCurrency(phaseout.end, preferences)}`
     };
   };
 
@@ -393,7 +396,7 @@ export default function RothIRAContributionLimitCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Maximum Contribution</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.maxContribution.toLocaleString()}
+                    {formatCurrency(result.maxContribution, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Annual limit
@@ -406,7 +409,7 @@ export default function RothIRAContributionLimitCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Your Contribution</span>
                   </div>
                   <p className="text-3xl font-bold text-green-600">
-                    ${result.reducedContribution.toLocaleString()}
+                    {formatCurrency(result.reducedContribution, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Based on your income
@@ -453,7 +456,7 @@ export default function RothIRAContributionLimitCalculator() {
                           <div className="text-sm text-muted-foreground">{item.description}</div>
                         </div>
                         <div className="text-right">
-                          <div className="font-bold">${item.amount.toLocaleString()}</div>
+                          <div className="font-bold">{formatCurrency(item.amount, preferences)}</div>
                         </div>
                       </div>
                     ))}
@@ -11,6 +11,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Drama, Calculator, Info, FileText, TrendingUp, Target } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const scenarioSchema = z.object({
   unitsSold: z.number().nonnegative().optional(),
@@ -32,6 +34,7 @@ type FormValues = z.infer<typeof formSchema>;
 type NpvResult = { name: string; npv: number };
 
 export default function ScenarioAnalysisCalculator() {
+  const { preferences } = usePreferences();
   const [results, setResults] = useState<NpvResult[] | null>(null);
 
   const form = useForm<FormValues>({
@@ -91,7 +94,7 @@ export default function ScenarioAnalysisCalculator() {
                     name="initialInvestment" 
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Initial Investment ($)</FormLabel>
+                        <FormLabel>Initial Investment ({currencySymbol(preferences)})</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -177,7 +180,7 @@ export default function ScenarioAnalysisCalculator() {
                         name={`${scenario as keyof FormValues}.pricePerUnit`} 
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Price/Unit ($)</FormLabel>
+                            <FormLabel>Price/Unit ({currencySymbol(preferences)})</FormLabel>
                             <FormControl>
                               <Input 
                                 type="number" 
@@ -196,7 +199,7 @@ export default function ScenarioAnalysisCalculator() {
                         name={`${scenario as keyof FormValues}.variableCost`} 
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Variable Cost/Unit ($)</FormLabel>
+                            <FormLabel>Variable Cost/Unit ({currencySymbol(preferences)})</FormLabel>
                             <FormControl>
                               <Input 
                                 type="number" 
@@ -215,7 +218,7 @@ export default function ScenarioAnalysisCalculator() {
                         name={`${scenario as keyof FormValues}.fixedCosts`} 
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Fixed Costs/Year ($)</FormLabel>
+                            <FormLabel>Fixed Costs/Year ({currencySymbol(preferences)})</FormLabel>
                             <FormControl>
                               <Input 
                                 type="number" 
@@ -261,7 +264,7 @@ export default function ScenarioAnalysisCalculator() {
                 >
                   <p className="font-semibold mb-2">{res.name}</p>
                   <p className={`text-3xl font-bold ${res.npv < 0 ? 'text-destructive' : 'text-green-600'}`}>
-                    ${res.npv.toLocaleString(undefined, {maximumFractionDigits: 0})}
+                    {formatCurrency(res.npv, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <Badge 
                     variant={res.npv < 0 ? 'destructive' : 'default'} 
@@ -12,6 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { SlidersHorizontal, Calculator, Info, FileText, TrendingUp, Target } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   initialInvestment: z.number().positive(),
@@ -27,6 +29,7 @@ type FormValues = z.infer<typeof formSchema>;
 type AnalysisResult = { variable: string, value: number, npv: number };
 
 export default function SensitivityAnalysisCalculator() {
+  const { preferences } = usePreferences();
   const [results, setResults] = useState<AnalysisResult[] | null>(null);
 
   const form = useForm<FormValues>({
@@ -65,7 +68,7 @@ export default function SensitivityAnalysisCalculator() {
       } else { // testing annualCashFlow
         npv = calculateNPV(values.startValue / 100, i, values.projectLife, values.initialInvestment);
       }
-      analysisResults.push({ variable: values.variableToTest === 'discountRate' ? `${i.toFixed(2)}%` : `$${i}`, value: i, npv });
+      analysisResults.push({ variable: values.variableToTest === 'discountRate' ? `${i.toFixed(2)}%` : formatCurrency(i, preferences, { maximumFractionDigits: 2 }), value: i, npv });
     }
     setResults(analysisResults);
   };
@@ -98,7 +101,7 @@ export default function SensitivityAnalysisCalculator() {
                     name="initialInvestment" 
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Initial Investment ($)</FormLabel>
+                        <FormLabel>Initial Investment ({currencySymbol(preferences)})</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -117,7 +120,7 @@ export default function SensitivityAnalysisCalculator() {
                     name="annualCashFlow" 
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Annual Cash Flow ($)</FormLabel>
+                        <FormLabel>Annual Cash Flow ({currencySymbol(preferences)})</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -184,7 +187,7 @@ export default function SensitivityAnalysisCalculator() {
                     name="startValue" 
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Start Value {variable === 'discountRate' ? '(%)' : '($)'}</FormLabel>
+                        <FormLabel>Start Value {variable === 'discountRate' ? '(%)' : `(${currencySymbol(preferences)})`}</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -203,7 +206,7 @@ export default function SensitivityAnalysisCalculator() {
                     name="endValue" 
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>End Value {variable === 'discountRate' ? '(%)' : '($)'}</FormLabel>
+                        <FormLabel>End Value {variable === 'discountRate' ? '(%)' : `(${currencySymbol(preferences)})`}</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -270,7 +273,7 @@ export default function SensitivityAnalysisCalculator() {
                   {results.map(item => (
                     <TableRow key={item.value}>
                       <TableCell>{item.variable}</TableCell>
-                      <TableCell className="text-right">${item.npv.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.npv, preferences)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -12,6 +12,8 @@ import { TrendingUp, AlertCircle, Target, Info, Landmark, Calculator, DollarSign
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   initialInvestment: z.number().positive(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function SimpleInflationAdjustedReturnCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     nominalReturn: number;
     annualizedNominalReturn: number;
@@ -136,7 +139,7 @@ export default function SimpleInflationAdjustedReturnCalculator() {
       insights.push('Negative real return experienced');
     }
     
-    insights.push(`Inflation-adjusted value: $${inflationAdjustedValue.toLocaleString()}`);
+    insights.push(`Inflation-adjusted value: ${formatCurrency(inflationAdjustedValue, preferences)}`);
     insights.push('Purchasing power analysis');
     
     return insights;
@@ -188,7 +191,7 @@ export default function SimpleInflationAdjustedReturnCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Initial Investment ($)
+                      Initial Investment ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter initial investment" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -200,7 +203,7 @@ export default function SimpleInflationAdjustedReturnCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Final Value ($)
+                      Final Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter final value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -282,7 +285,7 @@ export default function SimpleInflationAdjustedReturnCalculator() {
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-primary">
-                      ${result.inflationAdjustedValue?.toLocaleString(undefined, { maximumFractionDigits: 0 }) || '0'}
+                      {formatCurrency(result.inflationAdjustedValue ?? 0, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">Inflation-Adjusted Value</p>
                   </div>
@@ -4,7 +4,6 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -15,32 +14,25 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-
-const formSchema = z.object({
-  monthlyInvestment: z.number().positive(),
-  annualInterestRate: z.number().positive(),
-  investmentPeriodYears: z.number().positive(),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-interface CalculationResult {
-  futureValue: number;
-  totalInvestment: number;
-  totalProfit: number;
-  chartData: { year: number; totalInvestment: number; futureValue: number; profit: number }[];
-  annualizedReturn: number;
-  profitPercentage: number;
-  monthlyContribution: number;
-  years: number;
-}
-
+import { sipDefinition, type SipInput, type SipOutput } from '@/lib/engine/finance/sip-calculator';
+import { useEmbedInputs } from '@/hooks/use-embed-inputs';
+import { usePermalinkInputs } from '@/hooks/use-permalink-inputs';
+import { useCalculationHistory } from '@/hooks/use-local-history';
+import { CopyLinkButton } from '@/components/copy-link-button';
+import { SaveCalculationButton } from '@/components/save-calculation-button';
+import { CalculationSteps } from '@/components/calculation-steps';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
+
+type FormValues = SipInput;
 
 export default function SipDcaCalculator() {
-  const [result, setResult] = useState<CalculationResult | null>(null);
+  const { preferences } = usePreferences();
+  const [result, setResult] = useState<SipOutput | null>(null);
+  const [calculatedInput, setCalculatedInput] = useState<FormValues | null>(null);
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(sipDefinition.inputSchema),
     defaultValues: {
       monthlyInvestment: undefined,
       annualInterestRate: undefined,
@@ -49,47 +41,19 @@ export default function SipDcaCalculator() {
   });
 
   const onSubmit = (values: FormValues) => {
-    const { monthlyInvestment, annualInterestRate, investmentPeriodYears } = values;
-    const r = annualInterestRate / 12 / 100;
-    const n = investmentPeriodYears * 12;
-
-    const chartData = [];
-    for (let year = 1; year <= investmentPeriodYears; year++) {
-      const currentN = year * 12;
-      const yearEndFutureValue = monthlyInvestment * ( (Math.pow(1 + r, currentN) - 1) / r ) * (1 + r);
-      const yearEndTotalInvestment = monthlyInvestment * currentN;
-      const yearEndProfit = yearEndFutureValue - yearEndTotalInvestment;
-      chartData.push({
-        year: year,
-        totalInvestment: Math.round(yearEndTotalInvestment),
-        futureValue: Math.round(yearEndFutureValue),
-        profit: Math.round(yearEndProfit),
-      });
-    }
-
-    const futureValue = chartData[chartData.length - 1].futureValue;
-    const totalInvestment = monthlyInvestment * n;
-    const totalProfit = futureValue - totalInvestment;
-    const profitPercentage = (totalProfit / totalInvestment) * 100;
-    const annualizedReturn = Math.pow(futureValue / totalInvestment, 1 / investmentPeriodYears) - 1;
-
-    setResult({ 
-      futureValue, 
-      totalInvestment, 
-      totalProfit, 
-      chartData,
-      annualizedReturn: annualizedReturn * 100,
-      profitPercentage,
-      monthlyContribution: monthlyInvestment,
-      years: investmentPeriodYears
-    });
+    setCalculatedInput(values);
+    setResult(sipDefinition.compute(values));
   };
 
+  const embed = useEmbedInputs(form, sipDefinition, onSubmit, result);
+  const permalink = usePermalinkInputs(form, sipDefinition, onSubmit, result);
+  useCalculationHistory(form, sipDefinition, onSubmit, result);
+
   return (
     <div className="space-y-8">
 
       {/* Input Form */}
-      <Card>
+      <Card hidden={!embed.showForm}>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Target className="h-5 w-5" />
@@ -107,13 +71,13 @@ export default function SipDcaCalculator() {
                   control={form.control} 
                   name="monthlyInvestment" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('monthlyInvestment')}>
                       <FormLabel className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4" />
                         Monthly Investment Amount
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('monthlyInvestment')} 
                           type="number" 
                           placeholder="e.g., 500" 
                           {...field} 
@@ -129,13 +93,13 @@ export default function SipDcaCalculator() {
                   control={form.control} 
                   name="annualInterestRate" 
                   render={({ field }) => (
-                    <FormItem>
+                    <FormItem hidden={embed.isHidden('annualInterestRate')}>
                       <FormLabel className="flex items-center gap-2">
                         <TrendingUp className="h-4 w-4" />
                         Expected Annual Return (%)
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('annualInterestRate')} 
                           type="number" 
                           placeholder="e.g., 10" 
                           {...field} 
@@ -151,13 +115,13 @@ export default function SipDcaCalculator() {
                   control={form.control} 
                   name="investmentPeriodYears" 
                   render={({ field }) => (
-                    <FormItem className="md:col-span-2">
+                    <FormItem hidden={embed.isHidden('investmentPeriodYears')} className="md:col-span-2">
                       <FormLabel className="flex items-center gap-2">
                         <Calendar className="h-4 w-4" />
                         Investment Period (Years)
                       </FormLabel>
                       <FormControl>
-                        <Input 
+                        <Input disabled={embed.isLocked('investmentPeriodYears')} 
                           type="number" 
                           placeholder="e.g., 20" 
                           {...field} 
@@ -187,9 +151,13 @@ export default function SipDcaCalculator() {
                 <div>
                   <CardTitle>Your Investment Projection</CardTitle>
                   <CardDescription>
-                    Based on ${result.monthlyContribution.toLocaleString()} monthly investments for {result.years} years
+                    Based on {formatCurrency(result.monthlyContribution, preferences)} monthly investments for {result.years} years
                   </CardDescription>
                 </div>
+                <div className="ml-auto flex flex-wrap justify-end gap-2">
+                  <CopyLinkButton url={permalink} />
+                  <SaveCalculationButton definition={sipDefinition} getInputs={form.getValues} />
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -200,7 +168,7 @@ export default function SipDcaCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Future Value</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.futureValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    {formatCurrency(result.futureValue, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Total value after {result.years} years
@@ -213,7 +181,7 @@ export default function SipDcaCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Invested</span>
                   </div>
                   <p className="text-2xl font-bold">
-                    ${result.totalInvestment.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    {formatCurrency(result.totalInvestment, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Your contributions over time
@@ -226,7 +194,7 @@ export default function SipDcaCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Profit</span>
                   </div>
                   <p className="text-2xl font-bold text-green-600">
-                    ${result.totalProfit.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    {formatCurrency(result.totalProfit, preferences, { maximumFractionDigits: 0 })}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.profitPercentage.toFixed(1)}% return on investment
@@ -277,13 +245,13 @@ export default function SipDcaCalculator() {
                         label={{ value: 'Years', position: 'insideBottom', offset: -5 }}
                       />
                       <YAxis 
-                        tickFormatter={(value) => `$${(value/1000)}k`} 
+                        tickFormatter={(value) => formatCurrency(value, preferences, { compact: true })} 
                         tick={{ fontSize: 12 }}
-                        label={{ value: 'Value ($)', angle: -90, position: 'insideLeft' }}
+                        label={{ value: `Value (${currencySymbol(preferences)})`, angle: -90, position: 'insideLeft' }}
                       />
                       <Tooltip 
                         formatter={(value: number, name: string) => [
-                          `$${value.toLocaleString()}`, 
+                          formatCurrency(value, preferences), 
                           name === 'totalInvestment' ? 'Total Invested' : 
                           name === 'futureValue' ? 'Portfolio Value' : 'Profit'
                         ]}
@@ -321,6 +289,7 @@ export default function SipDcaCalculator() {
               </div>
             </CardContent>
           </Card>
+          <CalculationSteps definition={sipDefinition} input={calculatedInput} />
 
           {/* Key Insights and Tips */}
           <Card>
@@ -337,7 +306,7 @@ export default function SipDcaCalculator() {
                     💡 The Power of Compounding
                   </h4>
                   <p className="text-sm text-blue-800 dark:text-blue-200">
-                    Your profit of ${result.totalProfit.toLocaleString()} represents the magic of compound interest. 
+                    Your profit of {formatCurrency(result.totalProfit, preferences)} represents the magic of compound interest. 
                     Your money is working for you, generating returns on both your contributions and previous gains.
                   </p>
                 </div>
@@ -347,7 +316,7 @@ export default function SipDcaCalculator() {
                     📈 Dollar-Cost Averaging Benefits
                   </h4>
                   <p className="text-sm text-green-800 dark:text-green-200">
-                    By investing ${result.monthlyContribution.toLocaleString()} monthly, you're buying more shares when prices are low 
+                    By investing {formatCurrency(result.monthlyContribution, preferences)} monthly, you're buying more shares when prices are low 
                     and fewer when prices are high, smoothing out market volatility.
                   </p>
                 </div>
@@ -377,7 +346,7 @@ export default function SipDcaCalculator() {
         </div>
       )}
       {/* Educational Content - Expanded Sections */}
-      <div className="space-y-6">
+      <div className="space-y-6" hidden={embed.compact}>
         {/* Understanding the Inputs */}
         <Card>
           <CardHeader>
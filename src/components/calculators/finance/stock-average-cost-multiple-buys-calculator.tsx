@@ -10,12 +10,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Plus, Trash2, DollarSign, Hash } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const lotSchema = z.object({ shares: z.number().min(0.0001).optional(), price: z.number().min(0.0001).optional(), fee: z.number().min(0).optional() });
 const formSchema = z.object({ lots: z.array(lotSchema).min(1) });
 type FormValues = z.infer<typeof formSchema>;
 
 export default function StockAverageCostMultipleBuysCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ totalShares: number; totalCost: number; averageCost: number; interpretation: string } | null>(null);
   const form = useForm<FormValues>({ resolver: zodResolver(formSchema), defaultValues: { lots: [{ shares: undefined as any, price: undefined as any, fee: undefined as any }] as any } });
   const { fields, append, remove } = useFieldArray({ control: form.control, name: 'lots' });
@@ -65,8 +68,8 @@ export default function StockAverageCostMultipleBuysCalculator() {
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Total Shares</div><p className="text-3xl font-bold text-primary">{result.totalShares.toFixed(4)}</p></div>
-              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Total Cost</div><p className="text-3xl font-bold text-green-600">${result.totalCost.toLocaleString()}</p></div>
-              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Average Cost / Share</div><p className="text-3xl font-bold text-primary">${result.averageCost.toFixed(4)}</p></div>
+              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Total Cost</div><p className="text-3xl font-bold text-green-600">{formatCurrency(result.totalCost, preferences)}</p></div>
+              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Average Cost / Share</div><p className="text-3xl font-bold text-primary">{formatCurrency(result.averageCost, preferences, { maximumFractionDigits: 4 })}</p></div>
             </div>
             <p className="text-sm mt-4">{result.interpretation}</p>
           </CardContent>
@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Divide, DollarSign, Hash, Info } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentShares: z.number().min(1).optional(),
@@ -21,6 +23,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function StockSplitImpactCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     newShares: number;
     newPrice: number;
@@ -75,11 +78,11 @@ export default function StockSplitImpactCalculator() {
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                 <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">New Shares</div><p className="text-3xl font-bold text-primary">{result.newShares.toLocaleString()}</p></div>
-                <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">New Price</div><p className="text-3xl font-bold text-green-600">${result.newPrice.toLocaleString()}</p></div>
+                <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">New Price</div><p className="text-3xl font-bold text-green-600">{formatCurrency(result.newPrice, preferences)}</p></div>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Market Value Before</p><p className="text-xl font-semibold">${result.marketValueBefore.toLocaleString()}</p></div>
-                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Market Value After</p><p className="text-xl font-semibold">${result.marketValueAfter.toLocaleString()}</p></div>
+                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Market Value Before</p><p className="text-xl font-semibold">{formatCurrency(result.marketValueBefore, preferences)}</p></div>
+                <div className="p-4 border rounded"><p className="text-sm text-muted-foreground mb-1">Market Value After</p><p className="text-xl font-semibold">{formatCurrency(result.marketValueAfter, preferences)}</p></div>
               </div>
               <p className="text-sm mt-4">{result.interpretation}</p>
             </CardContent>
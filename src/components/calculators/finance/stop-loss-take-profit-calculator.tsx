@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Target } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   entryPrice: z.number().min(0).optional(),
@@ -22,6 +24,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function StopLossTakeProfitCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     stopLoss: number;
     takeProfit: number;
@@ -82,7 +85,7 @@ export default function StopLossTakeProfitCalculator() {
     const priceReward = rewardAmount / (v.positionSize / v.entryPrice);
     const takeProfit = isLong ? v.entryPrice + priceReward : v.entryPrice - priceReward;
     const rewardPercent = (rewardAmount / v.positionSize) * 100;
-    const interpretation = `Stop Loss: $${stopLoss.toFixed(2)} (${(Math.abs(stopLoss - v.entryPrice) / v.entryPrice * 100).toFixed(2)}% from entry). Take Profit: $${takeProfit.toFixed(2)} (${(Math.abs(takeProfit - v.entryPrice) / v.entryPrice * 100).toFixed(2)}% from entry). Risk: ${riskPercent.toFixed(2)}% of position. Reward: ${rewardPercent.toFixed(2)}% of position. Risk/Reward: ${v.riskRewardRatio.toFixed(2)}:1.`;
+    const interpretation = `Stop Loss: ${formatCurrency(stopLoss, preferences)} (${(Math.abs(stopLoss - v.entryPrice) / v.entryPrice * 100).toFixed(2)}% from entry). Take Profit: ${formatCurrency(takeProfit, preferences)} (${(Math.abs(takeProfit - v.entryPrice) / v.entryPrice * 100).toFixed(2)}% from entry). Risk: ${riskPercent.toFixed(2)}% of position. Reward: ${rewardPercent.toFixed(2)}% of position. Risk/Reward: ${v.riskRewardRatio.toFixed(2)}:1.`;
     setResult({ stopLoss, takeProfit, riskPercent, rewardPercent, interpretation });
   };
 
@@ -97,7 +100,7 @@ export default function StopLossTakeProfitCalculator() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('entryPrice', 'Entry Price', 'e.g., 50.00', '$')}
+                {numInput('entryPrice', 'Entry Price', 'e.g., 50.00', currencySymbol(preferences))}
                 <FormField control={form.control} name="tradeDirection" render={({ field }) => (
                   <FormItem>
                     <FormLabel>Trade Direction</FormLabel>
@@ -113,8 +116,8 @@ export default function StopLossTakeProfitCalculator() {
                   </FormItem>
                 )} />
               </div>
-              {numInput('positionSize', 'Position Size ($)', 'e.g., 10000', '$')}
-              {numInput('riskAmount', 'Risk Amount ($)', 'e.g., 200', '$')}
+              {numInput('positionSize', `Position Size (${currencySymbol(preferences)})`, 'e.g., 10000', currencySymbol(preferences))}
+              {numInput('riskAmount', `Risk Amount (${currencySymbol(preferences)})`, 'e.g., 200', currencySymbol(preferences))}
               {numInput('riskRewardRatio', 'Risk/Reward Ratio', 'e.g., 2.0')}
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
             </form>
@@ -130,8 +133,8 @@ export default function StopLossTakeProfitCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div><div className="text-sm text-muted-foreground">Stop Loss</div><div className="text-xl font-semibold text-red-600">${result.stopLoss.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Take Profit</div><div className="text-xl font-semibold text-green-600">${result.takeProfit.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Stop Loss</div><div className="text-xl font-semibold text-red-600">{formatCurrency(result.stopLoss, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Take Profit</div><div className="text-xl font-semibold text-green-600">{formatCurrency(result.takeProfit, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Risk %</div><div className="text-lg font-medium">{result.riskPercent.toFixed(2)}%</div></div>
               <div><div className="text-sm text-muted-foreground">Reward %</div><div className="text-lg font-medium">{result.rewardPercent.toFixed(2)}%</div></div>
             </div>
@@ -10,6 +10,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Zap } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   strategyType: z.enum(['straddle', 'strangle']),
@@ -24,6 +26,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function StraddleStrangleStrategyCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     totalPremium: number;
     lowerBreakeven: number;
@@ -111,7 +114,7 @@ export default function StraddleStrangleStrategyCalculator() {
       profitAtExpiration = callProfit + putProfit - totalPremium;
     }
     
-    const interpretation = `Total premium paid: $${totalPremium.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. Lower breakeven: $${lowerBreakeven.toFixed(2)}. Upper breakeven: $${upperBreakeven.toFixed(2)}. Maximum loss: $${maxLoss.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (premium paid). ${v.stockPrice != null && v.stockPrice > 0 ? `Profit at expiration (stock = $${v.stockPrice.toFixed(2)}): $${profitAtExpiration.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}.` : ''} ${v.strategyType === 'straddle' ? 'Straddle' : 'Strangle'} profits when stock moves significantly in either direction, making it ideal for high volatility expectations.`;
+    const interpretation = `Total premium paid: ${formatCurrency(totalPremium, preferences)}. Lower breakeven: ${formatCurrency(lowerBreakeven, preferences)}. Upper breakeven: ${formatCurrency(upperBreakeven, preferences)}. Maximum loss: ${formatCurrency(maxLoss, preferences)} (premium paid). ${v.stockPrice != null && v.stockPrice > 0 ? `Profit at expiration (stock = ${formatCurrency(v.stockPrice, preferences)}): ${formatCurrency(profitAtExpiration, preferences)}.` : ''} ${v.strategyType === 'straddle' ? 'Straddle' : 'Strangle'} profits when stock moves significantly in either direction, making it ideal for high volatility expectations.`;
     setResult({ totalPremium, lowerBreakeven, upperBreakeven, maxLoss, profitAtExpiration, interpretation });
   };
 
@@ -140,15 +143,15 @@ export default function StraddleStrangleStrategyCalculator() {
                 </FormItem>
               )} />
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('callStrike', 'Call Strike Price ($)', 'e.g., 50.00', '$')}
-                {numInput('callPremium', 'Call Premium ($)', 'e.g., 2.50', '$')}
+                {numInput('callStrike', `Call Strike Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('callPremium', `Call Premium (${currencySymbol(preferences)})`, 'e.g., 2.50', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('putStrike', 'Put Strike Price ($)', 'e.g., 50.00', '$')}
-                {numInput('putPremium', 'Put Premium ($)', 'e.g., 2.50', '$')}
+                {numInput('putStrike', `Put Strike Price (${currencySymbol(preferences)})`, 'e.g., 50.00', currencySymbol(preferences))}
+                {numInput('putPremium', `Put Premium (${currencySymbol(preferences)})`, 'e.g., 2.50', currencySymbol(preferences))}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {numInput('stockPrice', 'Stock Price at Expiration ($, optional)', 'e.g., 55.00', '$')}
+                {numInput('stockPrice', `Stock Price at Expiration (${currencySymbol(preferences)}, optional)`, 'e.g., 55.00', currencySymbol(preferences))}
                 {numInput('contracts', 'Number of Contracts (optional, default: 1)', 'e.g., 1')}
               </div>
               <Button type="submit" className="w-full md:w-auto">Calculate</Button>
@@ -165,12 +168,12 @@ export default function StraddleStrangleStrategyCalculator() {
           </CardHeader>
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              <div><div className="text-sm text-muted-foreground">Total Premium</div><div className="text-xl font-semibold text-red-600">${result.totalPremium.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
-              <div><div className="text-sm text-muted-foreground">Lower Breakeven</div><div className="text-lg font-medium">${result.lowerBreakeven.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Upper Breakeven</div><div className="text-lg font-medium">${result.upperBreakeven.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Max Loss</div><div className="text-xl font-medium text-red-600">${result.maxLoss.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Total Premium</div><div className="text-xl font-semibold text-red-600">{formatCurrency(result.totalPremium, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Lower Breakeven</div><div className="text-lg font-medium">{formatCurrency(result.lowerBreakeven, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Upper Breakeven</div><div className="text-lg font-medium">{formatCurrency(result.upperBreakeven, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Max Loss</div><div className="text-xl font-medium text-red-600">{formatCurrency(result.maxLoss, preferences)}</div></div>
               {result.profitAtExpiration !== 0 && (
-                <div><div className="text-sm text-muted-foreground">Profit at Expiration</div><div className={`text-lg font-medium ${result.profitAtExpiration >= 0 ? 'text-green-600' : 'text-red-600'}`}>${result.profitAtExpiration.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+                <div><div className="text-sm text-muted-foreground">Profit at Expiration</div><div className={`text-lg font-medium ${result.profitAtExpiration >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.profitAtExpiration, preferences)}</div></div>
               )}
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
@@ -11,6 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { GraduationCap, Calculator, DollarSign, TrendingUp, Info, AlertCircle, Target, Calendar, BookOpen, Users } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   loanBalance: z.number().min(0).optional(),
@@ -25,6 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function StudentLoanRepaymentCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     monthlyPayment: number;
     totalInterest: number;
@@ -465,7 +468,7 @@ export default function StudentLoanRepaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Monthly Payment</span>
                   </div>
                   <p className="text-3xl font-bold text-primary">
-                    ${result.monthlyPayment.toLocaleString()}
+                    {formatCurrency(result.monthlyPayment, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     {result.planDescription}
@@ -478,7 +481,7 @@ export default function StudentLoanRepaymentCalculator() {
                     <span className="text-sm font-medium text-muted-foreground">Total Interest</span>
                   </div>
                   <p className="text-3xl font-bold text-red-600">
-                    ${result.totalInterest.toLocaleString()}
+                    {formatCurrency(result.totalInterest, preferences)}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
                     Interest over loan term
@@ -505,7 +508,7 @@ export default function StudentLoanRepaymentCalculator() {
                   <span className="text-sm font-medium text-muted-foreground">Total Cost</span>
                 </div>
                 <p className="text-2xl font-bold text-purple-600">
-                  ${result.totalCost.toLocaleString()}
+                  {formatCurrency(result.totalCost, preferences)}
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
                   Including principal and interest
@@ -543,10 +546,10 @@ export default function StudentLoanRepaymentCalculator() {
                         {result.paymentSchedule.map((payment, index) => (
                           <tr key={index} className="border-b">
                             <td className="p-2">{payment.month}</td>
-                            <td className="text-right p-2">${payment.payment.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.principal.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.interest.toFixed(2)}</td>
-                            <td className="text-right p-2">${payment.balance.toFixed(2)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.payment, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.principal, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.interest, preferences)}</td>
+                            <td className="text-right p-2">{formatCurrency(payment.balance, preferences)}</td>
                           </tr>
                         ))}
                       </tbody>
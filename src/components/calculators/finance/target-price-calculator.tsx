@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Target, DollarSign, Percent } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentPrice: z.number().min(0.01).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function TargetPriceCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ targetSimple: number; targetAnnualized: number; interpretation: string } | null>(null);
   const form = useForm<FormValues>({ resolver: zodResolver(formSchema), defaultValues: { currentPrice: undefined, desiredReturnPct: undefined, holdingYears: undefined as any } });
 
@@ -59,8 +62,8 @@ export default function TargetPriceCalculator() {
           <CardHeader><CardTitle>Result</CardTitle><CardDescription>Required prices</CardDescription></CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Simple Target Price</div><p className="text-3xl font-bold text-primary">${result.targetSimple.toFixed(2)}</p></div>
-              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Annualized Target Price</div><p className="text-3xl font-bold text-green-600">${result.targetAnnualized.toFixed(2)}</p></div>
+              <div className="text-center p-6 bg-primary/5 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Simple Target Price</div><p className="text-3xl font-bold text-primary">{formatCurrency(result.targetSimple, preferences)}</p></div>
+              <div className="text-center p-6 bg-green-50 dark:bg-green-950/20 rounded-lg"><div className="text-sm text-muted-foreground mb-1">Annualized Target Price</div><p className="text-3xl font-bold text-green-600">{formatCurrency(result.targetAnnualized, preferences)}</p></div>
             </div>
             <p className="text-sm mt-4">{result.interpretation}</p>
           </CardContent>
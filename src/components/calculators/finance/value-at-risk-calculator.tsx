@@ -12,6 +12,8 @@ import { Shield, AlertCircle, Target, Info, Landmark, Calculator, DollarSign, Tr
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   portfolioValue: z.number().positive(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ValueAtRiskCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     varValue: number;
     varPercentage: number;
@@ -179,7 +182,7 @@ export default function ValueAtRiskCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4" />
-                      Portfolio Value ($)
+                      Portfolio Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter portfolio value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -255,7 +258,7 @@ export default function ValueAtRiskCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <div className="text-3xl font-bold text-primary">
-                      ${result.varValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      {formatCurrency(result.varValue, preferences, { maximumFractionDigits: 0 })}
                     </div>
                     <p className="text-sm text-muted-foreground">VaR Amount</p>
                   </div>
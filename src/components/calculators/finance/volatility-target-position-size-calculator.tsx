@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, Gauge } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   portfolioValue: z.number().min(0).optional(),
@@ -20,6 +22,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function VolatilityTargetPositionSizeCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     positionWeight: number;
     positionValue: number;
@@ -92,7 +95,7 @@ export default function VolatilityTargetPositionSizeCalculator() {
     else if (cappedWeight >= 0.5) recommendation = 'Large position weight. Monitor correlation with other positions and ensure diversification.';
     else recommendation = 'Position weight is reasonable. Consider adding other positions to achieve target volatility with better diversification.';
     
-    const interpretation = `Optimal position weight: ${(cappedWeight * 100).toFixed(1)}% ($${positionValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}). This position contributes approximately ${contributionToVolatility.toFixed(2)}% to portfolio volatility. ${recommendation}`;
+    const interpretation = `Optimal position weight: ${(cappedWeight * 100).toFixed(1)}% (${formatCurrency(positionValue, preferences)}). This position contributes approximately ${contributionToVolatility.toFixed(2)}% to portfolio volatility. ${recommendation}`;
     setResult({ positionWeight: cappedWeight * 100, positionValue, contributionToVolatility, interpretation });
   };
 
@@ -106,7 +109,7 @@ export default function VolatilityTargetPositionSizeCalculator() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              {numInput('portfolioValue', 'Portfolio Value ($)', 'e.g., 100000', '$')}
+              {numInput('portfolioValue', `Portfolio Value (${currencySymbol(preferences)})`, 'e.g., 100000', currencySymbol(preferences))}
               {numInput('targetVolatility', 'Target Portfolio Volatility (%)', 'e.g., 15', '%')}
               {numInput('assetVolatility', 'Asset Volatility (%)', 'e.g., 20', '%')}
               {numInput('correlation', 'Correlation with Portfolio (-1 to 1, optional)', 'e.g., 0.3')}
@@ -125,7 +128,7 @@ export default function VolatilityTargetPositionSizeCalculator() {
           <CardContent className="space-y-3">
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               <div><div className="text-sm text-muted-foreground">Position Weight</div><div className="text-2xl font-semibold">{result.positionWeight.toFixed(1)}%</div></div>
-              <div><div className="text-sm text-muted-foreground">Position Value</div><div className="text-xl font-medium">${result.positionValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div></div>
+              <div><div className="text-sm text-muted-foreground">Position Value</div><div className="text-xl font-medium">{formatCurrency(result.positionValue, preferences)}</div></div>
               <div><div className="text-sm text-muted-foreground">Volatility Contribution</div><div className="text-xl font-medium">{result.contributionToVolatility.toFixed(2)}%</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
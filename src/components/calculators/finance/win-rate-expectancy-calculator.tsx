@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Info, BarChart3 } from 'lucide-react';
+import { usePreferences } from '@/components/preferences-provider';
+import { formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   trades: z.string().min(1, 'Enter trade data'),
@@ -35,6 +37,7 @@ function parseTrades(data: string): { result: number }[] | null {
 }
 
 export default function WinRateExpectancyCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{
     winRate: number;
     totalTrades: number;
@@ -71,7 +74,7 @@ export default function WinRateExpectancyCalculator() {
     const lossProb = losingTrades / totalTrades;
     const expectancy = (winProb * averageWin) - (lossProb * averageLoss);
     const expectedValue = expectancy;
-    const interpretation = `Win rate: ${winRate.toFixed(1)}% (${winningTrades} wins, ${losingTrades} losses). Average win: $${averageWin.toFixed(2)}. Average loss: $${averageLoss.toFixed(2)}. Expectancy: $${expectancy.toFixed(2)} per trade. ${expectancy > 0 ? 'Positive expectancy indicates a profitable strategy over time.' : 'Negative expectancy indicates the strategy is not profitable. Consider revising or improving the strategy.'}`;
+    const interpretation = `Win rate: ${winRate.toFixed(1)}% (${winningTrades} wins, ${losingTrades} losses). Average win: ${formatCurrency(averageWin, preferences)}. Average loss: ${formatCurrency(averageLoss, preferences)}. Expectancy: ${formatCurrency(expectancy, preferences)} per trade. ${expectancy > 0 ? 'Positive expectancy indicates a profitable strategy over time.' : 'Negative expectancy indicates the strategy is not profitable. Consider revising or improving the strategy.'}`;
     setResult({
       winRate,
       totalTrades,
@@ -122,10 +125,10 @@ export default function WinRateExpectancyCalculator() {
               <div><div className="text-sm text-muted-foreground">Total Trades</div><div className="text-xl font-medium">{result.totalTrades}</div></div>
               <div><div className="text-sm text-muted-foreground">Winning Trades</div><div className="text-xl font-medium text-green-600">{result.winningTrades}</div></div>
               <div><div className="text-sm text-muted-foreground">Losing Trades</div><div className="text-xl font-medium text-red-600">{result.losingTrades}</div></div>
-              <div><div className="text-sm text-muted-foreground">Average Win</div><div className="text-lg font-medium text-green-600">${result.averageWin.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Average Loss</div><div className="text-lg font-medium text-red-600">${result.averageLoss.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Expectancy</div><div className={`text-xl font-semibold ${result.expectancy > 0 ? 'text-green-600' : 'text-red-600'}`}>${result.expectancy.toFixed(2)}</div></div>
-              <div><div className="text-sm text-muted-foreground">Expected Value</div><div className={`text-lg font-medium ${result.expectedValue > 0 ? 'text-green-600' : 'text-red-600'}`}>${result.expectedValue.toFixed(2)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Average Win</div><div className="text-lg font-medium text-green-600">{formatCurrency(result.averageWin, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Average Loss</div><div className="text-lg font-medium text-red-600">{formatCurrency(result.averageLoss, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Expectancy</div><div className={`text-xl font-semibold ${result.expectancy > 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.expectancy, preferences)}</div></div>
+              <div><div className="text-sm text-muted-foreground">Expected Value</div><div className={`text-lg font-medium ${result.expectedValue > 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(result.expectedValue, preferences)}</div></div>
             </div>
             <p className="text-sm leading-6">{result.interpretation}</p>
           </CardContent>
@@ -14,6 +14,8 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   currentAssets: z.number().nonnegative(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function WorkingCapitalCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     workingCapital: number; 
     interpretation: string; 
@@ -154,7 +157,7 @@ export default function WorkingCapitalCalculator() {
               <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4" />
-                        Total Current Assets ($)
+                        Total Current Assets ({currencySymbol(preferences)})
                       </FormLabel>
                 <FormControl>
                         <Input 
@@ -177,7 +180,7 @@ export default function WorkingCapitalCalculator() {
               <FormItem>
                       <FormLabel className="flex items-center gap-2">
                         <AlertCircle className="h-4 w-4" />
-                        Total Current Liabilities ($)
+                        Total Current Liabilities ({currencySymbol(preferences)})
                       </FormLabel>
                 <FormControl>
                         <Input 
@@ -220,7 +223,7 @@ export default function WorkingCapitalCalculator() {
             <CardContent className="space-y-6">
               <div className="text-center">
                 <p className={`text-4xl font-bold ${result.workingCapital >= 0 ? 'text-primary' : 'text-red-600'}`}>
-                  ${result.workingCapital.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  {formatCurrency(result.workingCapital, preferences)}
                 </p>
                 <p className="text-lg text-muted-foreground mt-2">{result.interpretation}</p>
               </div>
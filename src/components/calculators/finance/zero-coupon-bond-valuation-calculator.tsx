@@ -12,6 +12,8 @@ import { DollarSign, AlertCircle, Target, Info, Landmark, Calculator, TrendingUp
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Link from 'next/link';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencySymbol, formatCurrency } from '@/lib/engine';
 
 const formSchema = z.object({
   faceValue: z.number().positive(),
@@ -23,6 +25,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function ZeroCouponBondValuationCalculator() {
+  const { preferences } = usePreferences();
   const [result, setResult] = useState<{ 
     bondPrice: number;
     discountAmount: number;
@@ -171,7 +174,7 @@ export default function ZeroCouponBondValuationCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <BarChart3 className="h-4 w-4" />
-                      Face Value ($)
+                      Face Value ({currencySymbol(preferences)})
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter face value" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -207,7 +210,7 @@ export default function ZeroCouponBondValuationCalculator() {
                   <FormItem>
                     <FormLabel className="flex items-center gap-2">
                       <TrendingUp className="h-4 w-4" />
-                      Current Market Price ($) - Optional
+                      Current Market Price ({currencySymbol(preferences)}) - Optional
                     </FormLabel>
                     <FormControl>
                       <Input type="number" placeholder="Enter current market price" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} />
@@ -247,13 +250,13 @@ export default function ZeroCouponBondValuationCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
                     <div className="text-2xl font-bold text-primary">
-                      ${result.bondPrice.toFixed(2)}
+                      {formatCurrency(result.bondPrice, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">Theoretical Price</p>
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-green-600">
-                      ${result.discountAmount.toFixed(2)}
+                      {formatCurrency(result.discountAmount, preferences)}
                     </div>
                     <p className="text-sm text-muted-foreground">Discount Amount</p>
                   </div>
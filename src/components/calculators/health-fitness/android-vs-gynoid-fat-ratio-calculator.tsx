@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Target, Activity, Calendar, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   waistCircumference: z.number().positive('Waist circumference must be positive'),
@@ -224,6 +225,7 @@ export default function AndroidVsGynoidFatRatioCalculator() {
       unitSystem: 'metric',
     },
   });
+  usePreferredUnits(form, 'unitSystem', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
     const androidGynoidRatio = calculateAndroidGynoidRatio(values);
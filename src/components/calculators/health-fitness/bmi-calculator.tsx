@@ -3,7 +3,6 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -11,21 +10,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Scale, ArrowUp, Info, Target, BarChart3, HelpCircle } from 'lucide-react';
 import Link from 'next/link';
+import { bmiDefinition, type BmiInput, type BmiOutput } from '@/lib/engine/health-fitness/bmi-calculator';
+import { useEmbedInputs } from '@/hooks/use-embed-inputs';
+import { usePermalinkInputs } from '@/hooks/use-permalink-inputs';
+import { useCalculationHistory } from '@/hooks/use-local-history';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
+import { CopyLinkButton } from '@/components/copy-link-button';
+import { SaveCalculationButton } from '@/components/save-calculation-button';
+import { CalculationSteps } from '@/components/calculation-steps';
 
-const formSchema = z.object({
-  weight: z.number().positive(),
-  height: z.number().positive(),
-  unit: z.enum(['metric', 'imperial']),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const getBmiCategory = (bmi: number) => {
-  if (bmi < 18.5) return { name: 'Underweight', color: 'bg-yellow-400' };
-  if (bmi < 25) return { name: 'Normal weight', color: 'bg-green-500' };
-  if (bmi < 30) return { name: 'Overweight', color: 'bg-orange-500' };
-  return { name: 'Obese', color: 'bg-red-500' };
-};
+type FormValues = BmiInput;
 
 const BmiChart = ({ bmiValue }: { bmiValue: number }) => {
     const categories = [
@@ -62,35 +56,34 @@ const BmiChart = ({ bmiValue }: { bmiValue: number }) => {
 };
 
 export default function BmiCalculator() {
-  const [result, setResult] = useState<{ bmi: number; category: { name: string; color: string } } | null>(null);
+  const [result, setResult] = useState<BmiOutput | null>(null);
+  const [calculatedInput, setCalculatedInput] = useState<FormValues | null>(null);
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(bmiDefinition.inputSchema),
     defaultValues: {
       unit: 'metric',
       weight: undefined,
       height: undefined,
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
-    const { weight, height, unit } = values;
-    let bmi;
-    if (unit === 'metric') {
-      const heightInMeters = height / 100;
-      bmi = weight / (heightInMeters * heightInMeters);
-    } else {
-      bmi = (weight / (height * height)) * 703;
-    }
-    setResult({ bmi, category: getBmiCategory(bmi) });
+    setCalculatedInput(values);
+    setResult(bmiDefinition.compute(values));
   };
+
+  const embed = useEmbedInputs(form, bmiDefinition, onSubmit, result);
+  const permalink = usePermalinkInputs(form, bmiDefinition, onSubmit, result);
+  useCalculationHistory(form, bmiDefinition, onSubmit, result);
   
   const unit = form.watch('unit');
 
   return (
     <div className="space-y-8">
       {/* Input Form */}
-      <Card>
+      <Card hidden={!embed.showForm}>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Target className="h-5 w-5" />
@@ -105,13 +98,13 @@ export default function BmiCalculator() {
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="unit" render={({ field }) => (
-                    <FormItem className="md:col-span-2"><FormLabel>Units</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="metric">Metric (kg, cm)</SelectItem><SelectItem value="imperial">Imperial (lbs, in)</SelectItem></SelectContent></Select></FormItem>
+                    <FormItem hidden={embed.isHidden('unit')} className="md:col-span-2"><FormLabel>Units</FormLabel><Select onValueChange={field.onChange} disabled={embed.isLocked('unit')} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="metric">Metric (kg, cm)</SelectItem><SelectItem value="imperial">Imperial (lbs, in)</SelectItem></SelectContent></Select></FormItem>
                 )} />
                 <FormField control={form.control} name="weight" render={({ field }) => (
-                    <FormItem><FormLabel>Weight ({unit === 'metric' ? 'kg' : 'lbs'})</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
+                    <FormItem hidden={embed.isHidden('weight')}><FormLabel>Weight ({unit === 'metric' ? 'kg' : 'lbs'})</FormLabel><FormControl><Input disabled={embed.isLocked('weight')} type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
                 )} />
                 <FormField control={form.control} name="height" render={({ field }) => (
-                    <FormItem><FormLabel>Height ({unit === 'metric' ? 'cm' : 'in'})</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
+                    <FormItem hidden={embed.isHidden('height')}><FormLabel>Height ({unit === 'metric' ? 'cm' : 'in'})</FormLabel><FormControl><Input disabled={embed.isLocked('height')} type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
                 )} />
               </div>
               <Button type="submit">Calculate BMI</Button>
@@ -128,20 +121,25 @@ export default function BmiCalculator() {
                   <CardTitle>Your BMI Result</CardTitle>
                   <CardDescription>Body Mass Index assessment</CardDescription>
                 </div>
+                <div className="ml-auto flex flex-wrap justify-end gap-2">
+                  <CopyLinkButton url={permalink} />
+                  <SaveCalculationButton definition={bmiDefinition} getInputs={form.getValues} />
+                </div>
               </div>
             </CardHeader>
             <CardContent>
                 <div className="text-center space-y-2 mb-6">
                     <p className="text-4xl font-bold">{result.bmi.toFixed(1)}</p>
-                    <p className={`text-2xl font-semibold`}>{result.category.name}</p>
+                    <p className={`text-2xl font-semibold`}>{result.category}</p>
                 </div>
                  <BmiChart bmiValue={result.bmi} />
             </CardContent>
         </Card>
       )}
+      <CalculationSteps definition={bmiDefinition} input={calculatedInput} />
 
       {/* Educational Content - Expanded Sections */}
-      <div className="space-y-6">
+      <div className="space-y-6" hidden={embed.compact}>
         {/* Understanding the Inputs Section */}
         <Card>
           <CardHeader>
@@ -3,7 +3,6 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -12,30 +11,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Flame, Info, Target, BarChart3, HelpCircle, Users } from 'lucide-react';
 import Link from 'next/link';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { bmrDefinition, type BmrInput, type BmrOutput } from '@/lib/engine/health-fitness/bmr-calculator';
+import { useEmbedInputs } from '@/hooks/use-embed-inputs';
+import { usePermalinkInputs } from '@/hooks/use-permalink-inputs';
+import { useCalculationHistory } from '@/hooks/use-local-history';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
+import { CopyLinkButton } from '@/components/copy-link-button';
+import { SaveCalculationButton } from '@/components/save-calculation-button';
+import { CalculationSteps } from '@/components/calculation-steps';
 
-const formSchema = z.object({
-  age: z.number().positive().int(),
-  gender: z.enum(['male', 'female']),
-  weight: z.number().positive(),
-  height: z.number().positive(),
-  unit: z.enum(['metric', 'imperial']),
-});
-
-type FormValues = z.infer<typeof formSchema>;
-
-const activityLevels = [
-    { name: 'Sedentary', description: 'Little or no exercise', multiplier: 1.2 },
-    { name: 'Lightly Active', description: 'Light exercise (1-3 days/week)', multiplier: 1.375 },
-    { name: 'Moderately Active', description: 'Moderate exercise (3-5 days/week)', multiplier: 1.55 },
-    { name: 'Very Active', description: 'Hard exercise (6-7 days/week)', multiplier: 1.725 },
-    { name: 'Extra Active', description: 'Very hard exercise & physical job', multiplier: 1.9 },
-];
+type FormValues = BmrInput;
 
 export default function BmrCalculator() {
-  const [result, setResult] = useState<number | null>(null);
+  const [result, setResult] = useState<BmrOutput | null>(null);
+  const [calculatedInput, setCalculatedInput] = useState<FormValues | null>(null);
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(bmrDefinition.inputSchema),
     defaultValues: {
       unit: 'metric',
       age: undefined,
@@ -44,37 +36,25 @@ export default function BmrCalculator() {
       height: undefined,
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
-    const { age, gender, unit } = values;
-    let { weight, height } = values;
-
-    if (unit === 'imperial') {
-      weight *= 0.453592; // lbs to kg
-      height *= 2.54;     // inches to cm
-    }
-
-    let bmr;
-    if (gender === 'male') {
-      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-    } else {
-      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-    }
-    setResult(bmr);
+    setCalculatedInput(values);
+    setResult(bmrDefinition.compute(values));
   };
+
+  const embed = useEmbedInputs(form, bmrDefinition, onSubmit, result);
+  const permalink = usePermalinkInputs(form, bmrDefinition, onSubmit, result);
+  useCalculationHistory(form, bmrDefinition, onSubmit, result);
   
   const unit = form.watch('unit');
 
-  const chartData = result ? activityLevels.map(level => ({
-      name: level.name,
-      calories: Math.round(result * level.multiplier),
-      description: level.description,
-  })) : [];
+  const chartData = result?.chartData ?? [];
 
   return (
     <div className="space-y-8">
       {/* Input Form */}
-      <Card>
+      <Card hidden={!embed.showForm}>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Target className="h-5 w-5" />
@@ -89,19 +69,19 @@ export default function BmrCalculator() {
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="unit" render={({ field }) => (
-                    <FormItem><FormLabel>Units</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="metric">Metric (kg, cm)</SelectItem><SelectItem value="imperial">Imperial (lbs, in)</SelectItem></SelectContent></Select></FormItem>
+                    <FormItem hidden={embed.isHidden('unit')}><FormLabel>Units</FormLabel><Select onValueChange={field.onChange} disabled={embed.isLocked('unit')} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="metric">Metric (kg, cm)</SelectItem><SelectItem value="imperial">Imperial (lbs, in)</SelectItem></SelectContent></Select></FormItem>
                 )} />
                 <FormField control={form.control} name="gender" render={({ field }) => (
-                    <FormItem><FormLabel>Gender</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="male">Male</SelectItem><SelectItem value="female">Female</SelectItem></SelectContent></Select></FormItem>
+                    <FormItem hidden={embed.isHidden('gender')}><FormLabel>Gender</FormLabel><Select onValueChange={field.onChange} disabled={embed.isLocked('gender')} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="male">Male</SelectItem><SelectItem value="female">Female</SelectItem></SelectContent></Select></FormItem>
                 )} />
                 <FormField control={form.control} name="age" render={({ field }) => (
-                    <FormItem><FormLabel>Age (years)</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseInt(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
+                    <FormItem hidden={embed.isHidden('age')}><FormLabel>Age (years)</FormLabel><FormControl><Input disabled={embed.isLocked('age')} type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseInt(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
                 )} />
                 <FormField control={form.control} name="weight" render={({ field }) => (
-                    <FormItem><FormLabel>Weight ({unit === 'metric' ? 'kg' : 'lbs'})</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
+                    <FormItem hidden={embed.isHidden('weight')}><FormLabel>Weight ({unit === 'metric' ? 'kg' : 'lbs'})</FormLabel><FormControl><Input disabled={embed.isLocked('weight')} type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
                 )} />
                 <FormField control={form.control} name="height" render={({ field }) => (
-                    <FormItem><FormLabel>Height ({unit === 'metric' ? 'cm' : 'in'})</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
+                    <FormItem hidden={embed.isHidden('height')}><FormLabel>Height ({unit === 'metric' ? 'cm' : 'in'})</FormLabel><FormControl><Input disabled={embed.isLocked('height')} type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseFloat(e.target.value) || undefined)} /></FormControl><FormMessage /></FormItem>
                 )} />
               </div>
               <Button type="submit">Calculate BMR</Button>
@@ -118,11 +98,15 @@ export default function BmrCalculator() {
                   <CardTitle>Your BMR Result</CardTitle>
                   <CardDescription>Basal Metabolic Rate estimate</CardDescription>
                 </div>
+                <div className="ml-auto flex flex-wrap justify-end gap-2">
+                  <CopyLinkButton url={permalink} />
+                  <SaveCalculationButton definition={bmrDefinition} getInputs={form.getValues} />
+                </div>
               </div>
             </CardHeader>
             <CardContent>
                 <div className="text-center space-y-2 mb-8">
-                    <p className="text-4xl font-bold">{result.toFixed(0)}</p>
+                    <p className="text-4xl font-bold">{result.bmr.toFixed(0)}</p>
                     <CardDescription>Calories/day your body burns at rest.</CardDescription>
                     <div className="mt-4 p-4 bg-muted/50 rounded-lg">
                       <p className="text-sm text-muted-foreground">This represents the minimum calories needed for basic bodily functions when you're completely at rest—no movement, no digestion, just maintaining life.</p>
@@ -158,9 +142,10 @@ export default function BmrCalculator() {
             </CardContent>
         </Card>
       )}
+      <CalculationSteps definition={bmrDefinition} input={calculatedInput} />
 
       {/* Educational Content - Expanded Sections */}
-      <div className="space-y-6">
+      <div className="space-y-6" hidden={embed.compact}>
         {/* Understanding the Inputs Section */}
         <Card>
           <CardHeader>
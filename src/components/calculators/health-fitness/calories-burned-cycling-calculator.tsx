@@ -1,23 +0,0 @@
-
-'use client';
-
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Construction } from "lucide-react";
-
-export default function CaloriesBurnedCyclingCalculator() {
-  return (
-    <Card className="w-full text-center shadow-md mt-8">
-        <CardHeader>
-            <Construction className="mx-auto h-16 w-16 mb-6 text-primary" strokeWidth={1.5} />
-            <CardTitle className="text-2xl md:text-3xl font-bold text-foreground mb-4">
-                Calculator Coming Soon
-            </CardTitle>
-        </CardHeader>
-        <CardContent className="p-8 pt-0">
-            <p className="text-lg text-muted-foreground">
-                This calculator is under construction. It will use Metabolic Equivalent of Task (MET) values to estimate calories burned based on cycling duration, intensity, and body weight.
-            </p>
-        </CardContent>
-    </Card>
-  );
-}
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Zap, Heart, Calendar, Scale, Ruler, Gauge, Droplet } from 'lucide-react';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   age: z.number().min(18).max(120).optional(),
@@ -214,6 +215,7 @@ export default function CardiometabolicAgeCalculator() {
       physicalActivity: 'sedentary',
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const unit = form.watch('unit');
 
@@ -12,6 +12,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Flame, Info, Target, Activity, Users, BarChart3, HelpCircle } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   age: z.number().positive().int(),
@@ -46,6 +47,7 @@ export default function DailyCalorieNeedsCalculator() {
       activityLevel: '1.375',
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
     const { age, gender, unit } = values;
@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dumbbell, Activity, Calendar, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   height: z.number().positive('Height must be positive'),
@@ -140,6 +141,7 @@ export default function FatFreeMassIndexCalculator() {
       unitSystem: 'metric',
     },
   });
+  usePreferredUnits(form, 'unitSystem', { metric: 'metric', imperial: 'imperial' });
 
   const calculateFFMI = (height: number, weight: number, bodyFatPercentage: number, unitSystem: string) => {
     let h = height;
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Heart, Activity, Calendar, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   age: z.number().min(18).max(120),
@@ -263,6 +264,7 @@ export default function FatMassIndexCalculator() {
       method: 'manual',
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
     let bodyFatPercentage = values.bodyFatPercentage;
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Bone, Calendar, Zap } from 'lucide-react';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   age: z.number().min(40).max(90).optional(),
@@ -220,6 +221,7 @@ export default function FractureRiskFRAXCalculator() {
       boneMineralDensity: undefined,
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
     const calc = calculateFRAXScore(values);
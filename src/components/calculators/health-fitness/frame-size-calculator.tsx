@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Ruler, Activity, Calendar, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   height: z.number().positive('Height must be positive'),
@@ -128,6 +129,7 @@ export default function FrameSizeCalculator() {
       unitSystem: 'metric',
     },
   });
+  usePreferredUnits(form, 'unitSystem', { metric: 'metric', imperial: 'imperial' });
 
   const calculateFrameSize = (height: number, wristCircumference: number, gender: string, unitSystem: string) => {
     let h = height;
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Users, Activity, Calendar, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   hipCircumference: z.number().positive('Hip circumference must be positive'),
@@ -249,6 +250,7 @@ export default function HipToShoulderRatioCalculator() {
       unitSystem: 'metric',
     },
   });
+  usePreferredUnits(form, 'unitSystem', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
     const hipShoulderRatio = calculateHipShoulderRatio(values);
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Zap, HeartPulse, Calendar, Droplet, Scale, Ruler } from 'lucide-react';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   age: z.number().min(18).max(120).optional(),
@@ -187,6 +188,7 @@ export default function KidneyFunctionEGFRCalculator() {
       bodySizeUnit: 'metric',
     },
   });
+  usePreferredUnits(form, 'bodySizeUnit', { metric: 'metric', imperial: 'imperial' });
 
   const bodySizeUnit = form.watch('bodySizeUnit');
 
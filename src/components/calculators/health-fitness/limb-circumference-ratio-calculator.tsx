@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Activity, Calendar, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   upperArmCircumference: z.number().positive('Upper arm circumference must be positive'),
@@ -133,6 +134,7 @@ export default function LimbCircumferenceRatioCalculator() {
       unitSystem: 'metric',
     },
   });
+  usePreferredUnits(form, 'unitSystem', { metric: 'metric', imperial: 'imperial' });
 
   const calculateRatios = (values: FormValues) => {
     const upperToForearmRatio = values.upperArmCircumference / values.forearmCircumference;
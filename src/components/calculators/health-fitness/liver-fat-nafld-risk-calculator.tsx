@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Zap, AlertTriangle, Calendar, Scale, Ruler, Activity, Wind } from 'lucide-react';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   age: z.number().min(18).max(120).optional(),
@@ -203,6 +204,7 @@ export default function LiverFatNAFLDRiskCalculator() {
       },
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const unit = form.watch('unit');
 
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Heart, Calendar, Zap, Droplet } from 'lucide-react';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   age: z.number().min(18).max(120).optional(),
@@ -187,6 +188,7 @@ export default function MetabolicSyndromeRiskCalculator() {
       cholesterolUnit: 'mg/dL',
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const onSubmit = (values: FormValues) => {
     const calc = calculateMetabolicSyndromeRisk(values);
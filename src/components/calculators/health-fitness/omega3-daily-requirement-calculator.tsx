@@ -11,6 +11,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import Link from 'next/link';
 import { Fish, Activity, Calendar, AlertTriangle } from 'lucide-react';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const healthConditionSchema = z.enum(['heart_disease', 'diabetes', 'arthritis', 'depression', 'adhd', 'none']);
 
@@ -277,6 +278,7 @@ export default function Omega3DailyRequirementCalculator() {
       currentOmega3Intake: undefined,
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'metric', imperial: 'imperial' });
 
   const gender = form.watch('gender');
   const unit = form.watch('unit');
@@ -383,7 +383,7 @@ export default function SodiumToPotassiumRatioCalculator() {
         </CardContent>
       </Card>
 
-      <EmbedWidget calculatorSlug="sodium-to-potassium-ratio-calculator" calculatorName="Sodium-to-Potassium Ratio Calculator" />
+      <EmbedWidget categorySlug="health-fitness" calculatorSlug="sodium-to-potassium-ratio-calculator" />
     </div>
   );
 }
\ No newline at end of file
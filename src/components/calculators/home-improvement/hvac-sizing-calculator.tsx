@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Thermometer, Ruler, Calculator, Info, AlertCircle, TrendingUp, Users, Home, Building } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const climates = {
   hot: 30,
@@ -46,6 +47,7 @@ export default function HvacSizingCalculator() {
       unit: undefined 
     } 
   });
+  usePreferredUnits(form, 'unit', { metric: 'meters', imperial: 'feet' });
 
   const calculate = (v: FormValues) => {
     if (v.area == null || v.climate == null || v.unit == null) return null;
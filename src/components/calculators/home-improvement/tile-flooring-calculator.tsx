@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Square, Ruler, Calculator, Info, AlertCircle, TrendingUp, Users, Home, Building, Scissors } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   areaLength: z.number().min(0.1).optional(),
@@ -45,6 +46,7 @@ export default function TileFlooringCalculator() {
       unit: undefined 
     } 
   });
+  usePreferredUnits(form, 'unit', { metric: 'meters', imperial: 'feet' });
 
   const calculate = (v: FormValues) => {
     if (v.areaLength == null || v.areaWidth == null || v.tileLength == null || v.tileWidth == null || v.wastage == null || v.unit == null) return null;
@@ -11,6 +11,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Mountain } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { usePreferredUnits } from '@/hooks/use-preferred-units';
 
 const formSchema = z.object({
   distance: z.number().positive(),
@@ -33,6 +34,7 @@ export default function HikingElevationGainCalculator() {
       unit: 'feet',
     },
   });
+  usePreferredUnits(form, 'unit', { metric: 'meters', imperial: 'feet' });
 
   const onSubmit = (values: FormValues) => {
     const elevationGain = values.endElevation - values.startElevation;
@@ -1,298 +1,127 @@
-
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState, type ReactNode } from 'react';
 import Link from 'next/link';
-import { Search, Construction } from 'lucide-react';
+import { Search, Construction, X } from 'lucide-react';
 
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import type { Calculator } from '@/lib/calculators';
+import { createSearchIndex } from '@/lib/search';
 
 interface CategorySearchProps {
   calculators: Calculator[];
   categoryName: string;
   categorySlug: string;
+  // Section order from the category definition.
+  subcategories?: string[];
 }
 
-export function CategorySearch({ calculators, categoryName, categorySlug }: CategorySearchProps) {
-  const [searchQuery, setSearchQuery] = useState('');
-
-  const filteredCalculators = calculators.filter(
-    (calc) =>
-      calc.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      calc.description.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-  
-  const lengthConverters = filteredCalculators.filter(calc => [
-    'meters-to-feet-converter', 'feet-to-meters-converter', 'centimeters-to-inches-converter', 
-    'inches-to-centimeters-converter', 'millimeters-to-inches-converter', 'inches-to-millimeters-converter', 
-    'meters-to-yards-converter', 'yards-to-meters-converter', 'miles-to-kilometers-converter', 
-    'kilometers-to-miles-converter', 'nautical-miles-to-kilometers-converter', 'kilometers-to-nautical-miles-converter', 
-    'micrometers-to-millimeters-converter', 'nanometers-to-meters-converter', 'light-years-to-kilometers-converter', 
-    'parsecs-to-light-years-converter', 'astronomical-units-to-kilometers-converter', 'fathoms-to-meters-converter', 
-    'chains-to-meters-converter', 'rods-to-feet-converter'
-  ].includes(calc.slug));
-  
-  const areaConverters = filteredCalculators.filter(calc => [
-    'square-meters-to-square-feet-converter', 'square-feet-to-square-meters-converter', 
-    'square-kilometers-to-square-miles-converter', 'square-miles-to-square-kilometers-converter', 
-    'acres-to-square-meters-converter', 'square-meters-to-acres-converter', 'hectares-to-acres-converter', 
-    'acres-to-hectares-converter', 'square-yards-to-square-feet-converter', 'square-feet-to-square-yards-converter', 
-    'square-inches-to-square-centimeters-converter', 'square-centimeters-to-square-inches-converter', 
-    'square-miles-to-acres-converter', 'acres-to-square-miles-converter', 'square-meters-to-square-yards-converter', 
-    'square-yards-to-square-meters-converter', 'square-centimeters-to-square-meters-converter', 
-    'square-meters-to-square-centimeters-converter', 'hectares-to-square-kilometers-converter', 'square-kilometers-to-hectares-converter'
-  ].includes(calc.slug));
-
-  const volumeConverters = filteredCalculators.filter(calc => [
-    'liters-to-gallons-converter',
-    'gallons-to-liters-converter',
-    'milliliters-to-cups-converter',
-    'cups-to-milliliters-converter',
-    'pints-to-liters-converter',
-    'liters-to-pints-converter',
-    'quarts-to-liters-converter',
-    'liters-to-quarts-converter',
-    'cubic-meters-to-liters-converter',
-    'liters-to-cubic-meters-converter',
-    'cubic-feet-to-gallons-converter',
-    'gallons-to-cubic-feet-converter',
-    'cubic-inches-to-milliliters-converter',
-    'milliliters-to-cubic-inches-converter',
-    'tablespoons-to-milliliters-converter',
-    'milliliters-to-tablespoons-converter',
-    'teaspoons-to-milliliters-converter',
-    'milliliters-to-teaspoons-converter',
-    'ounces-to-milliliters-converter',
-    'milliliters-to-ounces-converter',
-  ].includes(calc.slug));
-
-  const weightMassConverters = filteredCalculators.filter(calc => [
-    'kilograms-to-pounds-converter',
-    'pounds-to-kilograms-converter',
-    'grams-to-ounces-converter',
-    'ounces-to-grams-converter',
-    'milligrams-to-grams-converter',
-    'grams-to-milligrams-converter',
-    'kilograms-to-ounces-converter',
-    'ounces-to-kilograms-converter',
-    'stones-to-pounds-converter',
-    'pounds-to-stones-converter',
-    'tons-metric-to-pounds-converter',
-    'pounds-to-tons-metric-converter',
-    'short-tons-us-to-metric-tons-converter',
-    'metric-tons-to-short-tons-us-converter',
-    'micrograms-to-milligrams-converter',
-    'milligrams-to-micrograms-converter',
-    'carats-to-grams-converter',
-    'grams-to-carats-converter',
-    'kilograms-to-stones-converter',
-    'stones-to-kilograms-converter',
-  ].includes(calc.slug));
-
-  const speedConverters = filteredCalculators.filter(calc => 
-    [
-      'kilometers-per-hour-to-miles-per-hour-converter',
-      'miles-per-hour-to-kilometers-per-hour-converter',
-      'meters-per-second-to-kilometers-per-hour-converter',
-      'kilometers-per-hour-to-meters-per-second-converter',
-      'miles-per-hour-to-meters-per-second-converter',
-      'meters-per-second-to-miles-per-hour-converter',
-      'feet-per-second-to-meters-per-second-converter',
-      'meters-per-second-to-feet-per-second-converter',
-      'knots-to-kilometers-per-hour-converter',
-      'kilometers-per-hour-to-knots-converter',
-      'knots-to-miles-per-hour-converter',
-      'miles-per-hour-to-knots-converter',
-      'mach-number-to-kilometers-per-hour-converter',
-      'kilometers-per-hour-to-mach-number-converter',
-      'mach-number-to-miles-per-hour-converter',
-      'miles-per-hour-to-mach-number-converter',
-      'meters-per-second-to-knots-converter',
-      'knots-to-meters-per-second-converter',
-      'feet-per-second-to-miles-per-hour-converter',
-      'miles-per-hour-to-feet-per-second-converter',
-    ].includes(calc.slug)
-  );
-
-  const timeConverters = filteredCalculators.filter(calc => 
-    [
-      'seconds-to-minutes-converter',
-      'minutes-to-seconds-converter',
-      'minutes-to-hours-converter',
-      'hours-to-minutes-converter',
-      'hours-to-days-converter',
-      'days-to-hours-converter',
-      'days-to-weeks-converter',
-      'weeks-to-days-converter',
-      'weeks-to-months-converter',
-      'months-to-weeks-converter',
-      'months-to-years-converter',
-      'years-to-months-converter',
-      'seconds-to-hours-converter',
-      'hours-to-seconds-converter',
-      'seconds-to-days-converter',
-      'days-to-seconds-converter',
-      'seconds-to-weeks-converter',
-      'weeks-to-seconds-converter',
-      'minutes-to-days-converter',
-      'days-to-minutes-converter',
-    ].includes(calc.slug)
-  );
-
-  const pressureConverters = filteredCalculators.filter(calc => 
-    [
-      'pascals-to-atmospheres-converter',
-      'atmospheres-to-pascals-converter',
-      'pascals-to-bars-converter',
-      'bars-to-pascals-converter',
-      'pascals-to-psi-converter',
-      'psi-to-pascals-converter',
-      'atmospheres-to-bars-converter',
-      'bars-to-atmospheres-converter',
-      'atmospheres-to-psi-converter',
-      'psi-to-atmospheres-converter',
-      'bars-to-psi-converter',
-      'psi-to-bars-converter',
-      'torr-to-pascals-converter',
-      'pascals-to-torr-converter',
-      'torr-to-atmospheres-converter',
-      'atmospheres-to-torr-converter',
-      'kpa-to-psi-converter',
-      'psi-to-kpa-converter',
-      'mmhg-to-bars-converter',
-      'bars-to-mmhg-converter'
-    ].includes(calc.slug)
-  );
-
-  const energyConverters = filteredCalculators.filter(calc => 
-    [
-      'joules-to-kilojoules-converter',
-      'kilojoules-to-joules-converter',
-      'joules-to-calories-converter',
-      'calories-to-joules-converter',
-      'joules-to-kilocalories-converter',
-      'kilocalories-to-joules-converter',
-      'joules-to-watt-hours-converter',
-      'watt-hours-to-joules-converter',
-      'kwh-to-joules-converter',
-      'joules-to-kwh-converter',
-      'calories-to-kilocalories-converter',
-      'kilocalories-to-calories-converter',
-      'btu-to-joules-converter',
-      'joules-to-btu-converter',
-      'kwh-to-btu-converter',
-      'btu-to-kwh-converter',
-      'electronvolts-to-joules-converter',
-      'joules-to-electronvolts-converter',
-      'foot-pounds-to-joules-converter',
-      'joules-to-foot-pounds-converter',
-    ].includes(calc.slug)
-  );
-  
-  const powerConverters = filteredCalculators.filter(calc => 
-    [
-      'watts-to-kilowatts-converter',
-      'kilowatts-to-watts-converter',
-      'watts-to-megawatts-converter',
-      'megawatts-to-watts-converter',
-      'kilowatts-to-megawatts-converter',
-      'megawatts-to-kilowatts-converter',
-      'watts-to-horsepower-converter',
-      'horsepower-to-watts-converter',
-      'kilowatts-to-horsepower-converter',
-      'horsepower-to-kilowatts-converter',
-      'watts-to-dbm-converter',
-      'dbm-to-watts-converter',
-      'watts-to-btu-per-hour-converter',
-      'btu-per-hour-to-watts-converter',
-      'kilowatts-to-btu-per-hour-converter',
-      'btu-per-hour-to-kilowatts-converter',
-      'ergs-per-second-to-watts-converter',
-      'watts-to-ergs-per-second-converter',
-      'foot-pounds-per-second-to-watts-converter',
-      'watts-to-foot-pounds-per-second-converter',
-    ].includes(calc.slug)
-  );
-
-  const otherUsefulConverters = filteredCalculators.filter(calc => 
-    [
-      'shoe-size-converter',
-      'cloth-size-converter',
-      'hat-size-converter',
-      'ring-size-converter',
-      'belt-size-converter',
-      'foot-length-to-cm-converter',
-      'glove-size-converter',
-      'body-measurement-to-cloth-size-converter',
-    ].includes(calc.slug)
-  );
-
-  // Sports & Training subcategories
-  const cricketCalculators = filteredCalculators.filter(calc => 
-    ['batting-average-calculator'].includes(calc.slug)
-  );
-
-  const footballSoccerCalculators = filteredCalculators.filter(calc => 
-    [].includes(calc.slug) // Add football/soccer calculators here when available
-  );
-
-  const basketballCalculators = filteredCalculators.filter(calc => 
-    [].includes(calc.slug) // Add basketball calculators here when available
-  );
-
-  const tennisCalculators = filteredCalculators.filter(calc => 
-    [].includes(calc.slug) // Add tennis calculators here when available
-  );
+interface CalculatorGroup {
+  name: string;
+  calculators: Calculator[];
+}
 
-  const baseballCalculators = filteredCalculators.filter(calc => 
-    [].includes(calc.slug) // Add baseball calculators here when available
-  );
+// Sections in the category's preferred order, then any others in order of first appearance.
+// Calculators without a subcategory are collected last.
+function groupBySubcategory(calculators: Calculator[], order: string[]): CalculatorGroup[] {
+  const groups = new Map<string, Calculator[]>(order.map((name) => [name, []]));
+  const ungrouped: Calculator[] = [];
+  for (const calc of calculators) {
+    if (!calc.subcategory) {
+      ungrouped.push(calc);
+      continue;
+    }
+    groups.set(calc.subcategory, [...(groups.get(calc.subcategory) ?? []), calc]);
+  }
+  const sections = [...groups].map(([name, calcs]) => ({ name, calculators: calcs }));
+  if (ungrouped.length > 0) {
+    sections.push({ name: 'Other Calculators', calculators: ungrouped });
+  }
+  return sections.filter((section) => section.calculators.length > 0);
+}
 
-  const volleyballCalculators = filteredCalculators.filter(calc => 
-    [].includes(calc.slug) // Add volleyball calculators here when available
-  );
+const noSubcategories: string[] = [];
 
-  const otherCalculators = filteredCalculators.filter(calc => 
-    !lengthConverters.find(c => c.id === calc.id) && 
-    !areaConverters.find(c => c.id === calc.id) &&
-    !volumeConverters.find(c => c.id === calc.id) &&
-    !weightMassConverters.find(c => c.id === calc.id) &&
-    !speedConverters.find(c => c.id === calc.id) &&
-    !timeConverters.find(c => c.id === calc.id) &&
-    !pressureConverters.find(c => c.id === calc.id) &&
-    !energyConverters.find(c => c.id === calc.id) &&
-    !powerConverters.find(c => c.id === calc.id) &&
-    !otherUsefulConverters.find(c => c.id === calc.id) &&
-    !cricketCalculators.find(c => c.id === calc.id) &&
-    !footballSoccerCalculators.find(c => c.id === calc.id) &&
-    !basketballCalculators.find(c => c.id === calc.id) &&
-    !tennisCalculators.find(c => c.id === calc.id) &&
-    !baseballCalculators.find(c => c.id === calc.id) &&
-    !volleyballCalculators.find(c => c.id === calc.id)
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={active ? 'default' : 'outline'}
+      className="h-8 rounded-full"
+      aria-pressed={active}
+      onClick={onClick}
+    >
+      {children}
+    </Button>
   );
+}
 
-  const renderCalculatorGrid = (calcs: Calculator[], categorySlug: string, noResultsMessage: string) => (
-    calcs.length > 0 ? (
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {calcs.map((calc) => (
-          <Link href={`/category/${categorySlug}/${calc.slug}`} key={calc.id} className="group block h-full">
-            <Card className="h-full transition-all duration-200 ease-in-out group-hover:shadow-lg group-hover:-translate-y-1 group-hover:border-primary/50">
-              <CardHeader>
-                <CardTitle className="text-lg">{calc.name}</CardTitle>
-                <CardDescription className="pt-1">{calc.description}</CardDescription>
-              </CardHeader>
-            </Card>
-          </Link>
-        ))}
-      </div>
-    ) : <p className="text-muted-foreground">{noResultsMessage}</p>
+export function CategorySearch({ calculators, categoryName, categorySlug, subcategories = noSubcategories }: CategorySearchProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeSubcategory, setActiveSubcategory] = useState<string | null>(null);
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+
+  const searchIndex = useMemo(() => createSearchIndex(calculators), [calculators]);
+  const allGroups = useMemo(() => groupBySubcategory(calculators, subcategories), [calculators, subcategories]);
+  const isGrouped = calculators.some((calc) => calc.subcategory);
+
+  // Most used tags first, so the chips that narrow the least come before the niche ones.
+  const tags = useMemo(() => {
+    const counts = new Map<string, number>();
+    calculators.forEach((calc) => calc.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+  }, [calculators]);
+
+  const searchResults = searchQuery.trim()
+    ? searchIndex.search(searchQuery).map((result) => result.calculator)
+    : calculators;
+  // Selected tags narrow the list: a calculator has to carry every one of them.
+  const filteredCalculators = searchResults.filter(
+    (calc) =>
+      (activeSubcategory === null || (calc.subcategory ?? 'Other Calculators') === activeSubcategory) &&
+      activeTags.every((tag) => calc.tags?.includes(tag))
+  );
+  const hasFilters = activeSubcategory !== null || activeTags.length > 0;
+  // A query ranks the results, and splitting them into sections would bury the best match
+  // under an earlier section's weaker ones; sections come back when the query is cleared.
+  const showSections = isGrouped && !searchQuery.trim();
+
+  const toggleTag = (tag: string) =>
+    setActiveTags((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]));
+  const clearFilters = () => {
+    setActiveSubcategory(null);
+    setActiveTags([]);
+  };
+
+  const renderCalculatorGrid = (calcs: Calculator[], categorySlug: string) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {calcs.map((calc) => (
+        <Link href={`/category/${categorySlug}/${calc.slug}`} key={calc.id} className="group block h-full">
+          <Card className="h-full transition-all duration-200 ease-in-out group-hover:shadow-lg group-hover:-translate-y-1 group-hover:border-primary/50">
+            <CardHeader>
+              <CardTitle className="text-lg">{calc.name}</CardTitle>
+              <CardDescription className="pt-1">{calc.description}</CardDescription>
+              {calc.tags && calc.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-2">
+                  {calc.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+                  ))}
+                </div>
+              )}
+            </CardHeader>
+          </Card>
+        </Link>
+      ))}
+    </div>
   );
 
   return (
     <>
-      <div className="relative mb-8">
+      <div className="relative mb-6">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
         <Input
           type="text"
@@ -303,89 +132,54 @@ export function CategorySearch({ calculators, categoryName, categorySlug }: Cate
         />
       </div>
 
-      {filteredCalculators.length > 0 ? (
-        <div className="space-y-12">
-            {categorySlug === 'conversions' ? (
-                <>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Length Conversions</h2>
-                        {renderCalculatorGrid(lengthConverters, categorySlug, "No length converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Area Conversions</h2>
-                        {renderCalculatorGrid(areaConverters, categorySlug, "No area converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Volume Conversions</h2>
-                        {renderCalculatorGrid(volumeConverters, categorySlug, "No volume converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Weight/Mass Conversions</h2>
-                        {renderCalculatorGrid(weightMassConverters, categorySlug, "No weight/mass converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Speed Conversions</h2>
-                        {renderCalculatorGrid(speedConverters, categorySlug, "No speed converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Time conversion</h2>
-                        {renderCalculatorGrid(timeConverters, categorySlug, "No time converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Pressure conversion</h2>
-                        {renderCalculatorGrid(pressureConverters, categorySlug, "No pressure converters found.")}
-                    </div>
-                     <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Energy Conversions</h2>
-                        {renderCalculatorGrid(energyConverters, categorySlug, "No energy converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Power Conversions</h2>
-                        {renderCalculatorGrid(powerConverters, categorySlug, "No power converters found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Other useful conversions</h2>
-                        {renderCalculatorGrid(otherUsefulConverters, categorySlug, "No other useful converters found.")}
-                    </div>
-                </>
-            ) : null}
-
-            {categorySlug === 'sports-training' ? (
-                <>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Cricket</h2>
-                        {renderCalculatorGrid(cricketCalculators, categorySlug, "No cricket calculators found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Football / Soccer</h2>
-                        {renderCalculatorGrid(footballSoccerCalculators, categorySlug, "No football/soccer calculators found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Basketball</h2>
-                        {renderCalculatorGrid(basketballCalculators, categorySlug, "No basketball calculators found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Tennis</h2>
-                        {renderCalculatorGrid(tennisCalculators, categorySlug, "No tennis calculators found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Baseball</h2>
-                        {renderCalculatorGrid(baseballCalculators, categorySlug, "No baseball calculators found.")}
-                    </div>
-                    <div>
-                        <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">Volleyball</h2>
-                        {renderCalculatorGrid(volleyballCalculators, categorySlug, "No volleyball calculators found.")}
-                    </div>
-                </>
-            ) : null}
-
-            {otherCalculators.length > 0 && (
-                 <div>
-                    {(categorySlug === 'conversions' || categorySlug === 'sports-training') && <div className="my-8"/>}
-                    {renderCalculatorGrid(otherCalculators, categorySlug, "")}
-                </div>
-            )}
+      {(allGroups.length > 1 || tags.length > 0) && (
+        <div className="space-y-3 mb-8">
+          {isGrouped && allGroups.length > 1 && (
+            <div className="flex flex-wrap gap-2" aria-label="Filter by section">
+              <FilterChip active={activeSubcategory === null} onClick={() => setActiveSubcategory(null)}>All</FilterChip>
+              {allGroups.map((group) => (
+                <FilterChip
+                  key={group.name}
+                  active={activeSubcategory === group.name}
+                  onClick={() => setActiveSubcategory(activeSubcategory === group.name ? null : group.name)}
+                >
+                  {group.name}
+                </FilterChip>
+              ))}
+            </div>
+          )}
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2" aria-label="Filter by tag">
+              <span className="text-sm text-muted-foreground mr-1">Tags:</span>
+              {tags.map((tag) => (
+                <FilterChip key={tag} active={activeTags.includes(tag)} onClick={() => toggleTag(tag)}>
+                  #{tag}
+                </FilterChip>
+              ))}
+              {hasFilters && (
+                <Button type="button" size="sm" variant="ghost" className="h-8" onClick={clearFilters}>
+                  <X className="mr-1 h-4 w-4" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          )}
         </div>
+      )}
+
+      {filteredCalculators.length > 0 ? (
+        showSections ? (
+          <div className="space-y-12">
+            {groupBySubcategory(filteredCalculators, subcategories).map((group) => (
+              <section key={group.name}>
+                <h2 className="text-2xl font-bold tracking-tight text-foreground mb-6">{group.name}</h2>
+                {renderCalculatorGrid(group.calculators, categorySlug)}
+              </section>
+            ))}
+          </div>
+        ) : (
+          renderCalculatorGrid(filteredCalculators, categorySlug)
+        )
       ) : (
         <Card className="w-full text-center shadow-md mt-8">
           <CardContent className="p-8">
@@ -394,9 +188,11 @@ export function CategorySearch({ calculators, categoryName, categorySlug }: Cate
                 {calculators.length > 0 ? 'No Calculators Found' : 'Calculators Coming Soon'}
               </h2>
               <p className="text-lg text-muted-foreground">
-                 {calculators.length > 0 
-                  ? `Your search for "${searchQuery}" did not match any calculators in this category.`
-                  : `Individual calculators for the ${categoryName} category are being built.`
+                 {calculators.length === 0
+                  ? `Individual calculators for the ${categoryName} category are being built.`
+                  : searchQuery.trim()
+                  ? `Your search for "${searchQuery}" did not match any calculators in this category${hasFilters ? ' with the selected filters' : ''}.`
+                  : 'No calculators in this category match the selected filters.'
                  }
               </p>
           </CardContent>
@@ -405,7 +201,3 @@ export function CategorySearch({ calculators, categoryName, categorySlug }: Cate
     </>
   );
 }
-
-    
-
-    
\ No newline at end of file
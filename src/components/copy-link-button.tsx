@@ -0,0 +1,26 @@
+'use client';
+
+import { Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+
+/** Copies a link to the current result, as returned by usePermalinkInputs. Renders nothing without one. */
+export function CopyLinkButton({ url }: { url: string | null }) {
+  if (!url) {
+    return null;
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(url).then(
+      () => toast({ title: 'Link copied', description: 'Anyone with the link sees this result.' }),
+      () => toast({ variant: 'destructive', title: 'Could not copy the link', description: url })
+    );
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+      <Link2 className="mr-2 h-4 w-4" />
+      Copy link to this result
+    </Button>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef } from 'react';
+import {
+  EMBED_MESSAGE_SOURCE,
+  EMBED_PROTOCOL_VERSION,
+  isSdkMessage,
+  type EmbedMessage,
+  type EmbedMessagePayload,
+  type EmbedOptions,
+  type SdkMessage,
+} from '@/lib/embed';
+
+type SdkMessageListener = (message: SdkMessage) => void;
+
+interface EmbedContextValue {
+  options: EmbedOptions;
+  /** Posts a message to the host page. Only resize messages go out without a known host origin. */
+  postToHost: (payload: EmbedMessagePayload) => void;
+  /** Listens for messages from the host page's widget SDK; returns an unsubscribe function. */
+  subscribe: (listener: SdkMessageListener) => () => void;
+}
+
+const EmbedContext = createContext<EmbedContextValue | null>(null);
+
+/** The embed context, or null outside an embedded calculator. */
+export function useEmbedContext() {
+  return useContext(EmbedContext);
+}
+
+/** The embed configurator options, or null outside an embedded calculator. */
+export function useEmbedOptions() {
+  return useEmbedContext()?.options ?? null;
+}
+
+/** True when rendered inside an embedded calculator (iframe on a partner site). */
+export function useEmbedMode() {
+  return useEmbedContext() !== null;
+}
+
+interface EmbedFrameProps {
+  calculatorSlug: string;
+  options: EmbedOptions;
+  children: React.ReactNode;
+}
+
+/**
+ * Wraps an embedded calculator and posts its content height to the parent window
+ * whenever it changes, so the host snippet can size the iframe to fit. When the widget
+ * SDK supplied its origin, it also relays messages between that host and the calculator.
+ */
+export function EmbedFrame({ calculatorSlug, options, children }: EmbedFrameProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listenersRef = useRef(new Set<SdkMessageListener>());
+  const { hostOrigin } = options;
+
+  const postToHost = useCallback((payload: EmbedMessagePayload) => {
+    if (window.parent === window || (payload.type !== 'resize' && !hostOrigin)) {
+      return;
+    }
+    const message = { source: EMBED_MESSAGE_SOURCE, version: EMBED_PROTOCOL_VERSION, slug: calculatorSlug, ...payload } as EmbedMessage;
+    // Heights are not sensitive, so plain iframe snippets on unknown hosts may receive them.
+    window.parent.postMessage(message, hostOrigin ?? '*');
+  }, [calculatorSlug, hostOrigin]);
+
+  const subscribe = useCallback((listener: SdkMessageListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hostOrigin) {
+      return;
+    }
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.origin !== hostOrigin || !isSdkMessage(event.data)) {
+        return;
+      }
+      for (const listener of listenersRef.current) {
+        listener(event.data);
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [hostOrigin]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    let lastHeight = 0;
+    const postHeight = () => {
+      const height = Math.ceil(container.getBoundingClientRect().height);
+      if (height !== lastHeight) {
+        lastHeight = height;
+        postToHost({ type: 'resize', height });
+      }
+    };
+
+    const observer = new ResizeObserver(postHeight);
+    observer.observe(container);
+    postHeight();
+    return () => observer.disconnect();
+  }, [postToHost]);
+
+  const context = useMemo(() => ({ options, postToHost, subscribe }), [options, postToHost, subscribe]);
+
+  return (
+    <EmbedContext.Provider value={context}>
+      <div ref={containerRef}>{children}</div>
+    </EmbedContext.Provider>
+  );
+}
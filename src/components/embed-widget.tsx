@@ -1,50 +1,238 @@
 'use client';
 
+import { useState } from 'react';
+import { useEmbedMode } from '@/components/embed-frame';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  buildEmbedCode,
+  buildEmbedQuery,
+  defaultEmbedOptions,
+  defaultEmbedSize,
+  type EmbedOptions,
+  type EmbedSize,
+  type EmbedTheme,
+} from '@/lib/embed';
+import { describeInputs, getCalculatorDefinition, inputUnitLabel } from '@/lib/engine';
+import { backgroundColors, foregroundColors, type ThemeColor } from '@/lib/theme-colors';
+import { cn } from '@/lib/utils';
+
 interface EmbedWidgetProps {
   categorySlug: string;
   calculatorSlug: string;
 }
 
+function ColorPicker({ label, colors, selected, onSelect }: {
+  label: string;
+  colors: ThemeColor[];
+  selected?: string;
+  onSelect: (name: string) => void;
+}) {
+  return (
+    <div>
+      <h4 className="mb-2 text-sm font-medium">{label}</h4>
+      <div className="flex flex-wrap gap-2">
+        {colors.map(color => (
+          <Button
+            key={color.name}
+            type="button"
+            size="sm"
+            variant="outline"
+            className={cn(selected === color.name && 'ring-2 ring-primary')}
+            onClick={() => onSelect(color.name)}
+          >
+            <div className="w-4 h-4 rounded-full mr-2 border" style={{ backgroundColor: `hsl(${color.value})` }}></div>
+            {color.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function EmbedWidget({ categorySlug, calculatorSlug }: EmbedWidgetProps) {
-  const embedCode = `<div style="max-width: 600px; margin: 0 auto;">
-  <iframe 
-    src="https://mycalculating.com/category/${categorySlug}/${calculatorSlug}?embed=true" 
-    width="100%" 
-    height="600" 
-    style="border:1px solid #ccc; border-radius:8px;" 
-    loading="lazy" 
-    title="${calculatorSlug.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase())} Calculator by MyCalculating.com"
-  ></iframe>
-  <p style="text-align:center; font-size:12px; margin-top:4px;">
-    <a href="https://mycalculating.com/category/${categorySlug}/${calculatorSlug}" target="_blank" rel="noopener">
-      Use full version on <strong>MyCalculating.com</strong>
-    </a>
-  </p>
-</div>`;
+  const isEmbedded = useEmbedMode();
+  const [options, setOptions] = useState<EmbedOptions>(defaultEmbedOptions);
+  const [size, setSize] = useState<EmbedSize>(defaultEmbedSize);
+
+  // Input options need the calculator's inputs, which only engine-backed calculators describe.
+  const definition = getCalculatorDefinition(categorySlug, calculatorSlug);
+  const inputs = definition ? describeInputs(definition) : [];
+
+  const embedCode = buildEmbedCode(categorySlug, calculatorSlug, options, size);
+  const previewUrl = `/category/${categorySlug}/${calculatorSlug}?${buildEmbedQuery(options)}`;
+
+  const updateOptions = (changes: Partial<EmbedOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  const setTheme = (theme: EmbedTheme) => {
+    updateOptions(theme === 'custom'
+      ? { theme, foreground: options.foreground ?? foregroundColors[0].name, background: options.background ?? backgroundColors[0].name }
+      : { theme });
+  };
+
+  const setInputValue = (name: string, value: string) => {
+    const { [name]: _previous, ...rest } = options.inputs;
+    const inputValues = value === '' ? rest : { ...rest, [name]: value };
+    // Hidden and locked inputs must keep a value, so clearing one also releases it.
+    updateOptions({
+      inputs: inputValues,
+      hidden: value === '' ? options.hidden.filter(n => n !== name) : options.hidden,
+      locked: value === '' ? options.locked.filter(n => n !== name) : options.locked,
+    });
+  };
+
+  const toggleInputList = (list: 'hidden' | 'locked', name: string, checked: boolean) => {
+    updateOptions({ [list]: checked ? [...options[list], name] : options[list].filter(n => n !== name) });
+  };
 
   const handleCopyCode = () => {
     navigator.clipboard.writeText(embedCode);
   };
 
+  // An embedded calculator should not offer to embed itself again.
+  if (isEmbedded) {
+    return null;
+  }
+
   return (
     <div className="mt-12 p-6 bg-muted/50 rounded-lg border">
       <h3 className="text-lg font-semibold mb-4 text-foreground">Embed This Calculator</h3>
       <p className="text-sm text-muted-foreground mb-4">
-        Add this calculator to your website or blog using the embed code below:
+        Choose how the calculator should look on your website or blog, then copy the embed code below:
       </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="space-y-2">
+          <Label htmlFor="embed-theme">Theme</Label>
+          <Select value={options.theme} onValueChange={value => setTheme(value as EmbedTheme)}>
+            <SelectTrigger id="embed-theme"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="light">Light</SelectItem>
+              <SelectItem value="dark">Dark</SelectItem>
+              <SelectItem value="custom">Custom colours</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="embed-width">Max width (px)</Label>
+          <Input id="embed-width" type="number" min={240} value={size.maxWidth} onChange={e => setSize({ ...size, maxWidth: parseInt(e.target.value) || 600 })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="embed-height">Initial height (px)</Label>
+          <Input id="embed-height" type="number" min={200} value={size.height} onChange={e => setSize({ ...size, height: parseInt(e.target.value) || 600 })} />
+        </div>
+      </div>
+
+      {options.theme === 'custom' && (
+        <div className="space-y-4 mb-6">
+          <ColorPicker label="Foreground Color" colors={foregroundColors} selected={options.foreground} onSelect={name => updateOptions({ foreground: name })} />
+          <ColorPicker label="Background Color" colors={backgroundColors} selected={options.background} onSelect={name => updateOptions({ background: name })} />
+        </div>
+      )}
+
+      {inputs.length > 0 && (
+        <div className="space-y-4 mb-6">
+          <div className="flex items-center gap-2">
+            <Switch id="embed-compact" checked={options.compact} onCheckedChange={compact => updateOptions({ compact })} />
+            <Label htmlFor="embed-compact">Compact layout (inputs and results only)</Label>
+          </div>
+          <div>
+            <h4 className="mb-1 text-sm font-medium">Default inputs</h4>
+            <p className="text-xs text-muted-foreground mb-3">
+              Prefilled inputs can be hidden or locked. With every input prefilled the results show straight away,
+              and hiding every input leaves a results-only calculator.
+            </p>
+            <div className="space-y-3">
+              {inputs.map(input => {
+                const value = options.inputs[input.name] ?? '';
+                const choices = input.type === 'boolean' ? ['true', 'false'] : input.options;
+                // Embeds ignore the visitor's preferences, so amounts are labelled in the default currency.
+                const unit = inputUnitLabel(input);
+                return (
+                  <div key={input.name} className="grid grid-cols-1 sm:grid-cols-[1fr_12rem_auto_auto] items-center gap-3">
+                    <Label htmlFor={`embed-input-${input.name}`}>
+                      {input.label}{unit ? ` (${unit})` : ''}
+                    </Label>
+                    {choices ? (
+                      <Select value={value} onValueChange={v => setInputValue(input.name, v)}>
+                        <SelectTrigger id={`embed-input-${input.name}`}><SelectValue placeholder="Visitor chooses" /></SelectTrigger>
+                        <SelectContent>
+                          {choices.map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id={`embed-input-${input.name}`}
+                        type="number"
+                        placeholder="Visitor enters"
+                        value={value}
+                        onChange={e => setInputValue(input.name, e.target.value)}
+                      />
+                    )}
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={options.hidden.includes(input.name)}
+                        disabled={value === ''}
+                        onCheckedChange={checked => toggleInputList('hidden', input.name, checked === true)}
+                      />
+                      Hide
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={options.locked.includes(input.name)}
+                        disabled={value === ''}
+                        onCheckedChange={checked => toggleInputList('locked', input.name, checked === true)}
+                      />
+                      Lock
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+      {inputs.length === 0 && (
+        <p className="text-xs text-muted-foreground mb-6">
+          This calculator embeds with its full layout and empty inputs. The compact layout and prefilled, hidden or
+          locked inputs are only offered for calculators on our calculation engine, such as the Loan EMI, SIP and BMI
+          calculators.
+        </p>
+      )}
+
+      <div className="mb-6">
+        <h4 className="mb-2 text-sm font-medium">Preview</h4>
+        <div className="mx-auto" style={{ maxWidth: size.maxWidth }}>
+          <iframe
+            src={previewUrl}
+            width="100%"
+            height={size.height}
+            loading="lazy"
+            className="rounded-lg border bg-background"
+            title="Embed preview"
+          />
+        </div>
+      </div>
+
       <div className="bg-background p-4 rounded border font-mono text-sm overflow-x-auto">
         <code>
           {embedCode}
         </code>
       </div>
       <div className="mt-4 flex gap-2">
-        <button 
+        <button
           onClick={handleCopyCode}
           className="px-4 py-2 bg-primary text-primary-foreground rounded-md text-sm hover:bg-primary/90 transition-colors"
         >
           Copy Embed Code
         </button>
-        <a 
+        <a
           href={`/category/${categorySlug}/${calculatorSlug}`}
           target="_blank"
           rel="noopener noreferrer"
@@ -55,4 +243,4 @@ export function EmbedWidget({ categorySlug, calculatorSlug }: EmbedWidgetProps)
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePreferences } from '@/components/preferences-provider';
+import { describeInputs, inputUnitLabel, type AnyCalculatorDefinition } from '@/lib/engine';
+
+interface EngineInputFieldsProps {
+  definition: AnyCalculatorDefinition;
+  /** Values as typed, keyed by input name; convert them with coerceInputValues. */
+  values: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+  /** Keeps label ids unique when several sets of fields share a page. */
+  idPrefix: string;
+  /** Inputs to leave out, such as the one a goal seek solves for. */
+  exclude?: string[];
+}
+
+/**
+ * Plain fields for an engine-backed calculator's inputs, generated from its schema, for views
+ * that work with several sets of inputs at once (comparisons, what-if tables).
+ */
+export function EngineInputFields({ definition, values, onChange, idPrefix, exclude = [] }: EngineInputFieldsProps) {
+  const { preferences } = usePreferences();
+  return (
+    <div className="space-y-3">
+      {describeInputs(definition).filter(input => !exclude.includes(input.name)).map(input => {
+        const id = `${idPrefix}-${input.name}`;
+        const choices = input.type === 'boolean' ? ['true', 'false'] : input.options;
+        const unit = inputUnitLabel(input, preferences);
+        return (
+          <div key={input.name} className="space-y-1">
+            <Label htmlFor={id} className="text-xs text-muted-foreground">
+              {input.label}{unit ? ` (${unit})` : ''}
+            </Label>
+            {choices ? (
+              <Select value={values[input.name] ?? ''} onValueChange={value => onChange(input.name, value)}>
+                <SelectTrigger id={id}><SelectValue placeholder="Choose" /></SelectTrigger>
+                <SelectContent>
+                  {choices.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={input.type === 'string' ? 'text' : 'number'}
+                value={values[input.name] ?? ''}
+                onChange={e => onChange(input.name, e.target.value)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+import type { ComponentType } from 'react';
+
+// Keyed by the `chartComponent` names used in src/lib/learning-hub-articles.ts.
+const chartComponents: Record<string, ComponentType> = {
+  AprVsApyChart: dynamic(() => import('./charts/apr-vs-apy-chart').then((m) => m.AprVsApyChart)),
+  BfpChart: dynamic(() => import('./charts/bfp-chart').then((m) => m.BfpChart)),
+  BmiChart: dynamic(() => import('./charts/bmi-chart').then((m) => m.BmiChart)),
+  BmrTdeeChart: dynamic(() => import('./charts/bmr-tdee-chart').then((m) => m.BmrTdeeChart)),
+  CompoundInterestChart: dynamic(() => import('./charts/compound-interest-chart').then((m) => m.CompoundInterestChart)),
+  NewtonsSecondLawChart: dynamic(() => import('./charts/newtons-second-law-chart').then((m) => m.NewtonsSecondLawChart)),
+  PressureUnitsChart: dynamic(() => import('./charts/pressure-units-chart').then((m) => m.PressureUnitsChart)),
+};
+
+export function ArticleChart({ name }: { name: string }) {
+  const Chart = chartComponents[name];
+  return Chart ? <Chart /> : null;
+}
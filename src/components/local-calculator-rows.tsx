@@ -0,0 +1,62 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLocalHistory } from '@/hooks/use-local-history';
+import { calculators, type Calculator } from '@/lib/calculators';
+import { getCalculatorDefinition, permalinkPath } from '@/lib/engine';
+import { calculatorKey, parseCalculatorKey, type LocalHistory } from '@/lib/local-history';
+
+const rowLimit = 6;
+
+function findCalculator(key: string): Calculator | undefined {
+  const { categorySlug, calculatorSlug } = parseCalculatorKey(key);
+  return calculators.find(calc => calc.category === categorySlug && calc.slug === calculatorSlug);
+}
+
+// Calculators with a local history reopen with their latest inputs computed.
+function calculatorHref(calc: Calculator, history: LocalHistory): string {
+  const latest = history.calculations[calculatorKey(calc.category, calc.slug)]?.[0];
+  const definition = latest && getCalculatorDefinition(calc.category, calc.slug);
+  return definition ? permalinkPath(definition, latest.inputs) : `/category/${calc.category}/${calc.slug}`;
+}
+
+function CalculatorRow({ title, items, history }: { title: string; items: Calculator[]; history: LocalHistory }) {
+  return (
+    <div>
+      <h2 className="text-2xl font-bold tracking-tight mb-6">{title}</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {items.map(calc => (
+          <Link href={calculatorHref(calc, history)} key={calc.id} className="group block h-full">
+            <Card className="h-full transition-all duration-200 ease-in-out group-hover:shadow-lg group-hover:-translate-y-1 group-hover:border-primary/50">
+              <CardHeader>
+                <CardTitle className="text-lg">{calc.name}</CardTitle>
+                <CardDescription className="pt-1 line-clamp-2">{calc.description}</CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** "Favourites" and "Recently used" rows from the visitor's local history; renders nothing for new visitors. */
+export function LocalCalculatorRows() {
+  const history = useLocalHistory();
+  const favourites = history.favourites.map(findCalculator).filter((calc): calc is Calculator => !!calc).slice(0, rowLimit);
+  const recent = history.recent.map(item => findCalculator(item.key)).filter((calc): calc is Calculator => !!calc).slice(0, rowLimit);
+
+  if (favourites.length === 0 && recent.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="py-12 md:py-16">
+      <div className="container mx-auto px-4 w-full max-w-7xl space-y-12">
+        {favourites.length > 0 && <CalculatorRow title="Favourites" items={favourites} history={history} />}
+        {recent.length > 0 && <CalculatorRow title="Recently used" items={recent} history={history} />}
+      </div>
+    </section>
+  );
+}
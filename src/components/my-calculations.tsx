@@ -0,0 +1,154 @@
+'use client';
+
+import Link from 'next/link';
+import { collection, doc, orderBy, query } from 'firebase/firestore';
+import { signOut } from 'firebase/auth';
+import { Bookmark, ExternalLink, Loader2, Trash2 } from 'lucide-react';
+
+import { SignInForm } from '@/components/auth/sign-in-form';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { usePreferences } from '@/components/preferences-provider';
+import { deleteDocumentNonBlocking, useAuth, useCollection, useFirestore, useMemoFirebase, useUser, type WithId } from '@/firebase';
+import { calculators } from '@/lib/calculators';
+import { formatOutputValue, getCalculatorDefinition } from '@/lib/engine';
+import { savedCalculationsPath, savedCalculationUrl, type SavedCalculation } from '@/lib/saved-calculations';
+
+function SavedCalculationCard({ saved, onDelete }: { saved: WithId<SavedCalculation>; onDelete: () => void }) {
+  const { preferences: numberFormat } = usePreferences();
+  const calculator = calculators.find(calc => calc.category === saved.categorySlug && calc.slug === saved.calculatorSlug);
+  const definition = getCalculatorDefinition(saved.categorySlug, saved.calculatorSlug);
+  const outputs = definition
+    ? Object.entries(saved.outputs).flatMap(([name, value]) => {
+        const field = definition.outputs[name];
+        return field ? [{ name, label: field.label, value: formatOutputValue(value, field, numberFormat) }] : [];
+      })
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">{saved.name}</CardTitle>
+            <CardDescription className="pt-1">
+              {calculator?.name ?? saved.calculatorSlug} • Saved {new Date(saved.timestamp).toLocaleString()}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild size="sm">
+              <Link href={savedCalculationUrl(saved)}>
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Open
+              </Link>
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" aria-label={`Delete ${saved.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{saved.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>This removes the saved calculation for good.</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardHeader>
+      {outputs.length > 0 && (
+        <CardContent>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+            {outputs.slice(0, 6).map(output => (
+              <div key={output.name} className="flex justify-between gap-4 border-b py-1">
+                <dt className="text-muted-foreground">{output.label}</dt>
+                <dd className="font-medium tabular-nums">{output.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+/** The signed-in user's saved calculations, newest first. */
+export function MyCalculations() {
+  const auth = useAuth();
+  const firestore = useFirestore();
+  const { user, isUserLoading } = useUser();
+  const signedIn = !!user && !user.isAnonymous;
+
+  const savedQuery = useMemoFirebase(
+    () => (user && signedIn ? query(collection(firestore, ...savedCalculationsPath(user.uid)), orderBy('timestamp', 'desc')) : null),
+    [firestore, user, signedIn]
+  );
+  const { data: saved, isLoading } = useCollection<SavedCalculation>(savedQuery);
+
+  if (isUserLoading || isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user || !signedIn) {
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardHeader>
+          <CardTitle>Sign in to see your calculations</CardTitle>
+          <CardDescription>Use the Save button on a calculator's results to keep a calculation here.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SignInForm allowSignUp idPrefix="my-calculations" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+        <span>Signed in as {user.email}</span>
+        <Button variant="ghost" size="sm" onClick={() => signOut(auth)}>Sign Out</Button>
+      </div>
+      {saved && saved.length > 0 ? (
+        saved.map(item => (
+          <SavedCalculationCard
+            key={item.id}
+            saved={item}
+            onDelete={() => deleteDocumentNonBlocking(doc(firestore, ...savedCalculationsPath(user.uid), item.id))}
+          />
+        ))
+      ) : (
+        <Card className="text-center">
+          <CardContent className="p-8">
+            <Bookmark className="mx-auto h-12 w-12 mb-4 text-primary" strokeWidth={1.5} />
+            <p className="text-muted-foreground">
+              No saved calculations yet. Try the <Link href="/category/finance/loan-emi-calculator" className="text-primary hover:underline">Loan/EMI Calculator</Link> and
+              save a result.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
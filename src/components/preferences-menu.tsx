@@ -0,0 +1,70 @@
+'use client';
+
+import { Settings2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { usePreferences } from '@/components/preferences-provider';
+import { currencyOptions, numberFormatOptions, type UnitSystem } from '@/lib/preferences';
+
+/** Header menu for the unit system, currency and number format every calculator starts with. */
+export function PreferencesMenu() {
+  const { preferences, updatePreferences } = usePreferences();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon">
+          <Settings2 className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Units and currency</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Units</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={preferences.unitSystem ?? ''}
+          onValueChange={(value) => updatePreferences({ unitSystem: value as UnitSystem })}
+        >
+          <DropdownMenuRadioItem value="metric">Metric (kg, cm, m)</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="imperial">Imperial (lb, in, ft)</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>Currency: {preferences.currency}</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+            <DropdownMenuRadioGroup value={preferences.currency} onValueChange={(currency) => updatePreferences({ currency })}>
+              {currencyOptions.map((option) => (
+                <DropdownMenuRadioItem key={option.code} value={option.code}>
+                  {option.code} – {option.name}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>Number format</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuRadioGroup value={preferences.locale} onValueChange={(locale) => updatePreferences({ locale })}>
+              {numberFormatOptions.map((option) => (
+                <DropdownMenuRadioItem key={option.locale} value={option.locale} className="tabular-nums">
+                  {option.example}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { createContext, useContext, useSyncExternalStore, type ReactNode } from 'react';
+
+import {
+  defaultPreferences,
+  getPreferences,
+  getServerPreferences,
+  subscribePreferences,
+  updatePreferences,
+  type Preferences,
+} from '@/lib/preferences';
+
+interface PreferencesContextValue {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | null>(null);
+
+/** Makes the visitor's stored preferences available to every calculator on the site. */
+export function PreferencesProvider({ children }: { children: ReactNode }) {
+  const preferences = useSyncExternalStore(subscribePreferences, getPreferences, getServerPreferences);
+  return <PreferencesContext.Provider value={{ preferences, updatePreferences }}>{children}</PreferencesContext.Provider>;
+}
+
+/**
+ * The visitor's unit system, currency and number format. Outside the provider, as on embed
+ * pages whose visitors belong to the host site, it returns the defaults and ignores updates.
+ */
+export function usePreferences(): PreferencesContextValue {
+  return useContext(PreferencesContext) ?? { preferences: defaultPreferences, updatePreferences: () => {} };
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowRight, Zap } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { getConversionHref } from '@/lib/calculators';
+import { formatQuantity } from '@/lib/units';
+import { parseConversionQuery } from '@/lib/units/parse';
+
+const examples = ['5 ft 11 in in cm', '72°F to C', '3.2 GB in MiB', '30 mpg to L/100 km'];
+
+/**
+ * Free-text converter for the conversions category page: type a quantity and a target unit
+ * and the answer appears as you type, with a link to the full converter for that pair.
+ */
+export function QuickConvert() {
+  const [query, setQuery] = useState('');
+  const result = query.trim() ? parseConversionQuery(query) : null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Zap className="h-6 w-6 text-primary" />
+          <CardTitle className="text-xl">Quick Convert</CardTitle>
+        </div>
+        <CardDescription>Type a value, its unit and the unit you want.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          type="text"
+          aria-label="Conversion"
+          placeholder={`e.g. ${examples[0]}`}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+          <span>Try:</span>
+          {examples.map((example) => (
+            <button key={example} type="button" className="text-primary underline" onClick={() => setQuery(example)}>
+              {example}
+            </button>
+          ))}
+        </div>
+        <div aria-live="polite">
+          {result?.success && (
+            <div className="space-y-2">
+              <p className="text-2xl font-bold">
+                {result.terms.map((term) => `${formatQuantity(term.value)} ${term.unit.symbol}`).join(' ')} ={' '}
+                <span className="text-primary">{formatQuantity(result.result)} {result.to.symbol}</span>
+              </p>
+              {result.from.id !== result.to.id && (
+                <Link href={getConversionHref(result.from.id, result.to.id)} className="inline-flex items-center text-sm text-primary underline">
+                  {result.from.plural} to {result.to.plural} converter
+                  <ArrowRight className="ml-1 h-4 w-4" />
+                </Link>
+              )}
+            </div>
+          )}
+          {result && !result.success && <p className="text-sm text-muted-foreground">{result.message}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
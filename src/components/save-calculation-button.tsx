@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { collection } from 'firebase/firestore';
+import { Bookmark } from 'lucide-react';
+
+import { SignInForm } from '@/components/auth/sign-in-form';
+import { useEmbedMode } from '@/components/embed-frame';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { addDocumentNonBlocking, useFirestore, useUser } from '@/firebase';
+import { toast } from '@/hooks/use-toast';
+import { calculators } from '@/lib/calculators';
+import { describedOutputValues, evaluateCalculator, type AnyCalculatorDefinition } from '@/lib/engine';
+import {
+  savedCalculationNameMaxLength,
+  savedCalculationsPath,
+  withoutUndefined,
+  type SavedCalculation,
+} from '@/lib/saved-calculations';
+
+interface SaveCalculationButtonProps {
+  definition: AnyCalculatorDefinition;
+  /** Reads the form's current values when saving. */
+  getInputs: () => Record<string, unknown>;
+}
+
+/** Saves the current inputs and result to the signed-in user's "My Calculations". */
+export function SaveCalculationButton({ definition, getInputs }: SaveCalculationButtonProps) {
+  const isEmbedded = useEmbedMode();
+  const firestore = useFirestore();
+  const { user } = useUser();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  if (isEmbedded) {
+    return null;
+  }
+
+  const calculatorName = calculators.find(calc => calc.category === definition.category && calc.slug === definition.slug)?.name ?? definition.slug;
+  const signedIn = user && !user.isAnonymous;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName(`${calculatorName} – ${new Date().toLocaleDateString()}`);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!user) {
+      return;
+    }
+    // Re-evaluate so the saved inputs and outputs always belong together.
+    const evaluation = evaluateCalculator(definition, getInputs());
+    if (!evaluation.success) {
+      toast({ variant: 'destructive', title: 'Nothing to save', description: 'Calculate a valid result first.' });
+      return;
+    }
+    const saved: SavedCalculation = {
+      name: name.trim().slice(0, savedCalculationNameMaxLength) || calculatorName,
+      categorySlug: definition.category,
+      calculatorSlug: definition.slug,
+      inputs: withoutUndefined(evaluation.input),
+      outputs: withoutUndefined(describedOutputValues(definition, evaluation.output)),
+      timestamp: new Date().toISOString(),
+    };
+    addDocumentNonBlocking(collection(firestore, ...savedCalculationsPath(user.uid)), saved);
+    setOpen(false);
+    toast({ title: 'Calculation saved', description: `"${saved.name}" is in My Calculations.` });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Bookmark className="mr-2 h-4 w-4" />
+          Save
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save this calculation</DialogTitle>
+          <DialogDescription>
+            {signedIn
+              ? <>Saved calculations are listed in <Link href="/my-calculations" className="text-primary hover:underline">My Calculations</Link>.</>
+              : 'Sign in or create a free account to save calculations and reopen them later.'}
+          </DialogDescription>
+        </DialogHeader>
+        {signedIn ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-calculation-name">Name</Label>
+              <Input
+                id="saved-calculation-name"
+                value={name}
+                maxLength={savedCalculationNameMaxLength}
+                onChange={e => setName(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit">Save Calculation</Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <SignInForm allowSignUp idPrefix="save-calculation" />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,26 +1,61 @@
-
 'use client';
 
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
 import { Search as SearchIcon } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { search } from '@/app/actions';
+import { categories } from '@/lib/categories';
+import { searchCalculators } from '@/lib/search';
+
+const categoryNames = new Map(categories.map((category) => [category.slug, category.name]));
 
 export function SearchBar() {
+  const [query, setQuery] = useState('');
+  const [focused, setFocused] = useState(false);
+  const suggestions = useMemo(() => (query.trim().length >= 2 ? searchCalculators(query, 6) : []), [query]);
+
   return (
     <form action={search} className="flex flex-col sm:flex-row gap-2">
-      <div className="relative flex-grow">
+      <div
+        className="relative flex-grow"
+        onFocus={() => setFocused(true)}
+        onBlur={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget)) {
+            setFocused(false);
+          }
+        }}
+      >
         <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
         <Input
           name="query"
           type="text"
           placeholder="e.g., 'Retirement', 'BMI', 'Mortgage'..."
           required
+          autoComplete="off"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
           className="w-full pl-10"
         />
+        {focused && suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full overflow-hidden rounded-md border bg-popover text-left shadow-lg">
+            {suggestions.map((calc) => (
+              <li key={calc.id}>
+                <Link
+                  href={`/category/${calc.category}/${calc.slug}`}
+                  className="flex items-center justify-between gap-4 px-4 py-2 text-sm hover:bg-accent focus:bg-accent focus:outline-none"
+                >
+                  <span className="font-medium text-popover-foreground">{calc.name}</span>
+                  <span className="shrink-0 text-xs text-muted-foreground">{categoryNames.get(calc.category)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
       <Button type="submit" className="w-full sm:w-auto">
-        Search
+        Search Calculators
       </Button>
     </form>
   );
@@ -0,0 +1,64 @@
+import Link from 'next/link';
+import Script from 'next/script';
+import { Calculator, BookOpen, Bookmark, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ThemeProvider } from '@/components/theme-provider';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { PreferencesProvider } from '@/components/preferences-provider';
+import { PreferencesMenu } from '@/components/preferences-menu';
+
+// Header, theme, preferences and AdSense around every regular page and the 404 page. Embedded calculators (/embed) set
+// their own and stay free of ads.
+export function SiteChrome({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <ThemeProvider
+      attribute="class"
+      defaultTheme="light"
+      disableTransitionOnChange
+    >
+      <Script
+        async
+        src="https://pagead2.googlesyndication.com/pagead/js/adsbygoogle.js?client=ca-pub-5405909046385135"
+        crossOrigin="anonymous"
+        strategy="afterInteractive"
+      />
+      <PreferencesProvider>
+        <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur-sm print:hidden">
+          <div className="container flex h-14 items-center">
+            <Link href="/" className="flex items-center gap-2 font-bold mr-4">
+              <Calculator className="h-6 w-6 text-primary" />
+              <span className="hidden sm:inline-block text-lg">Mycalculating.com</span>
+            </Link>
+            <div className="ml-auto flex items-center gap-2 sm:gap-4">
+              <Button asChild variant="ghost" className="px-2 sm:px-4">
+                <Link href="/ai-tool">
+                  <Sparkles className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline-block">Try Our AI Tool</span>
+                </Link>
+              </Button>
+              <Button asChild variant="ghost" className="px-2 sm:px-4">
+                <Link href="/learning-hub">
+                  <BookOpen className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline-block">Learning Hub</span>
+                </Link>
+              </Button>
+              <Button asChild variant="ghost" className="px-2 sm:px-4">
+                <Link href="/my-calculations">
+                  <Bookmark className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline-block">My Calculations</span>
+                </Link>
+              </Button>
+              <PreferencesMenu />
+              <ThemeToggle />
+            </div>
+          </div>
+        </header>
+        {children}
+      </PreferencesProvider>
+    </ThemeProvider>
+  );
+}
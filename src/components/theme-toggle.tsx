@@ -24,28 +24,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
-import { cn } from "@/lib/utils"
-
-const foregroundColors = [
-  { name: 'Slate', value: '224 71.4% 4.1%' },
-  { name: 'Stone', value: '24 9.8% 10%' },
-  { name: 'Rose', value: '346.8 77.2% 49.8%' },
-  { name: 'Teal', value: '160 70% 35%' },
-  { name: 'Indigo', value: '221.2 83.2% 53.3%' },
-  { name: 'Amber', value: '38 92% 50%' },
-  { name: 'Plum', value: '270 70% 40%' },
-];
-
-const backgroundColors = [
-  { name: 'White', value: '0 0% 100%' },
-  { name: 'Linen', value: '30 56% 95%' },
-  { name: 'Mint', value: '160 60% 95%' },
-  { name: 'Lavender', value: '250 60% 97%' },
-  { name: 'Sky', value: '198 80% 96%' },
-  { name: 'Charcoal', value: '222.2 84% 4.9%' },
-  { name: 'Onyx', value: '240 10% 3.9%' },
-];
-
+import { backgroundColors, foregroundColors, isDarkColor } from "@/lib/theme-colors"
 
 export function ThemeToggle() {
   const { setTheme } = useTheme()
@@ -57,9 +36,7 @@ export function ThemeToggle() {
     localStorage.setItem('custom-foreground', fg);
     localStorage.setItem('custom-background', bg);
     // Determine if the background is dark to apply the .dark class
-    const bgColorHsl = bg.split(' ').map(parseFloat);
-    const isDark = bgColorHsl[2] < 50; // Use lightness value to determine if it's a dark background
-    if (isDark) {
+    if (isDarkColor(bg)) {
         document.documentElement.classList.add('dark');
         setTheme('dark');
     } else {
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import type { FieldErrors, FieldValues, Path, UseFormReturn } from 'react-hook-form';
+
+import { useEmbedContext } from '@/components/embed-frame';
+import { coerceInputValues, describeInputs, type AnyCalculatorDefinition } from '@/lib/engine';
+
+/**
+ * Applies the embed configurator options to an engine-backed calculator form: prefills
+ * inputs from the URL, computes straight away when every required input has a value,
+ * and tells the component which inputs to hide or lock and whether to render compactly.
+ * Inside an SDK-mounted embed it also applies `setInputs` messages from the host page
+ * and reports each result back. Outside an embed it changes nothing.
+ */
+export function useEmbedInputs<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  definition: AnyCalculatorDefinition,
+  onSubmit: (values: T) => void,
+  result: unknown
+) {
+  const embed = useEmbedContext();
+  const options = embed?.options ?? null;
+
+  // Message listeners outlive renders, so they read the latest handler through a ref.
+  const applyInputsRef = useRef<(values: Record<string, string>, submit: 'always' | 'when-complete') => void>();
+  applyInputsRef.current = (values, submit) => {
+    form.reset({ ...form.getValues(), ...coerceInputValues(definition, values) });
+    const complete = describeInputs(definition).every(
+      (input) => !input.required || form.getValues(input.name as Path<T>) !== undefined
+    );
+    if (submit === 'always' || complete) {
+      form.handleSubmit(onSubmit, (errors: FieldErrors<T>) => {
+        embed?.postToHost({
+          type: 'invalid',
+          issues: Object.entries(errors).map(([path, error]) => ({ path, message: String(error?.message ?? '') })),
+        });
+      })();
+    }
+  };
+
+  useEffect(() => {
+    if (!embed) {
+      return;
+    }
+    if (Object.keys(embed.options.inputs).length > 0) {
+      applyInputsRef.current?.(embed.options.inputs, 'when-complete');
+    }
+    const unsubscribe = embed.subscribe((message) => {
+      const values = Object.fromEntries(Object.entries(message.inputs).map(([name, value]) => [name, String(value)]));
+      applyInputsRef.current?.(values, 'always');
+    });
+    embed.postToHost({ type: 'ready' });
+    return unsubscribe;
+    // The embed context is memoized for the page, so this runs once: prefills come from the
+    // URL and the subscription lasts as long as the page.
+  }, [embed]);
+
+  useEffect(() => {
+    if (embed && result) {
+      embed.postToHost({ type: 'result', inputs: form.getValues(), outputs: result });
+    }
+  }, [embed, form, result]);
+
+  const hidden = options?.hidden ?? [];
+  const locked = options?.locked ?? [];
+
+  return {
+    compact: options?.compact ?? false,
+    isHidden: (name: Path<T>) => hidden.includes(name),
+    isLocked: (name: Path<T>) => locked.includes(name),
+    /** False when every input is hidden, leaving a results-only calculator. */
+    showForm: describeInputs(definition).some((input) => !hidden.includes(input.name)),
+  };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+
+import { useEmbedContext } from '@/components/embed-frame';
+import { describedOutputValues, evaluateCalculator, type AnyCalculatorDefinition } from '@/lib/engine';
+import {
+  calculatorKey,
+  getLocalHistory,
+  getServerLocalHistory,
+  recordCalculation,
+  subscribeLocalHistory,
+  subscribeRestore,
+  type LocalHistory,
+} from '@/lib/local-history';
+
+/** The visitor's local history and favourites; empty during server rendering. */
+export function useLocalHistory(): LocalHistory {
+  return useSyncExternalStore(subscribeLocalHistory, getLocalHistory, getServerLocalHistory);
+}
+
+/**
+ * Keeps an engine-backed calculator's recent results in local history and restores one when
+ * the history drawer asks. Embedded calculators are left out: their visitors are the host
+ * site's, not ours.
+ */
+export function useCalculationHistory<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  definition: AnyCalculatorDefinition,
+  onSubmit: (values: T) => void,
+  result: unknown
+) {
+  const embed = useEmbedContext();
+  const key = calculatorKey(definition.category, definition.slug);
+  const onSubmitRef = useRef(onSubmit);
+  onSubmitRef.current = onSubmit;
+
+  useEffect(() => {
+    if (embed) {
+      return;
+    }
+    return subscribeRestore((restoreKey, inputs) => {
+      if (restoreKey === key) {
+        form.reset({ ...form.getValues(), ...inputs });
+        form.handleSubmit((values) => onSubmitRef.current(values))();
+      }
+    });
+  }, [embed, form, key]);
+
+  useEffect(() => {
+    if (embed || !result) {
+      return;
+    }
+    const evaluation = evaluateCalculator(definition, form.getValues());
+    if (evaluation.success) {
+      recordCalculation(key, evaluation.input, describedOutputValues(definition, evaluation.output));
+    }
+  }, [embed, definition, form, key, result]);
+}
@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePathname, useSearchParams } from 'next/navigation';
+import type { FieldValues, Path, UseFormReturn } from 'react-hook-form';
+
+import { useEmbedContext } from '@/components/embed-frame';
+import { describeInputs, inputParamName, parseInputParams, serializeInputValues, type AnyCalculatorDefinition } from '@/lib/engine';
+
+/**
+ * Makes an engine-backed calculator's result linkable. Inputs found in the page's query string
+ * are prefilled, and computed straight away when every required input is present; each new
+ * result writes its inputs back to the address bar. Returns the link to the current result,
+ * or null before the first result and inside embeds, which take their inputs from the
+ * embed options instead.
+ */
+export function usePermalinkInputs<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  definition: AnyCalculatorDefinition,
+  onSubmit: (values: T) => void,
+  result: unknown
+): string | null {
+  const embed = useEmbedContext();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [permalink, setPermalink] = useState<string | null>(null);
+
+  // The query string only seeds the form, so the effect below runs once and reads the
+  // first render's values through a ref. Later changes to it are this hook's own writes.
+  const seedRef = useRef(() => {
+    if (embed) {
+      return;
+    }
+    const values = parseInputParams(definition, searchParams);
+    if (Object.keys(values).length === 0) {
+      return;
+    }
+    form.reset({ ...form.getValues(), ...values });
+    const complete = describeInputs(definition).every(
+      (input) => !input.required || form.getValues(input.name as Path<T>) !== undefined
+    );
+    if (complete) {
+      form.handleSubmit(onSubmit)();
+    }
+  });
+
+  useEffect(() => {
+    seedRef.current();
+  }, []);
+
+  useEffect(() => {
+    if (embed || !result) {
+      return;
+    }
+    // Keep unrelated parameters, such as campaign tags, and replace the inputs.
+    const params = new URLSearchParams(window.location.search);
+    for (const input of describeInputs(definition)) {
+      params.delete(inputParamName(input.name));
+    }
+    serializeInputValues(definition, form.getValues()).forEach((value, name) => params.set(name, value));
+    const url = `${pathname}?${params.toString()}`;
+    window.history.replaceState(null, '', url);
+    setPermalink(window.location.origin + url);
+  }, [embed, definition, form, pathname, result]);
+
+  return permalink;
+}
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
+import type { FieldValues, Path, PathValue, UseFormReturn } from 'react-hook-form';
+
+import { useEmbedContext } from '@/components/embed-frame';
+import { usePreferences } from '@/components/preferences-provider';
+import { inputParamName } from '@/lib/engine';
+import type { UnitSystem } from '@/lib/preferences';
+
+/**
+ * Sets a calculator's own unit field from the visitor's unit-system preference, mapping each
+ * system to that field's value (`{ metric: 'meters', imperial: 'feet' }`). Until the visitor
+ * picks a system the calculator keeps its own default, and a unit the visitor picked on the
+ * form, or one given in the page's link or embed options, is left alone.
+ */
+export function usePreferredUnits<T extends FieldValues, N extends Path<T>>(
+  form: UseFormReturn<T>,
+  name: N,
+  values: Record<UnitSystem, PathValue<T, N>>
+) {
+  const { preferences } = usePreferences();
+  const embed = useEmbedContext();
+  const searchParams = useSearchParams();
+
+  // Callers pass `values` inline, so the effect keys on the chosen value rather than the object.
+  const preferred = preferences.unitSystem && values[preferences.unitSystem];
+
+  useEffect(() => {
+    if (
+      preferred === undefined ||
+      form.getFieldState(name).isDirty ||
+      searchParams.has(inputParamName(name)) ||
+      embed?.options.inputs[name] !== undefined
+    ) {
+      return;
+    }
+    form.setValue(name, preferred);
+  }, [form, name, preferred, searchParams, embed]);
+}
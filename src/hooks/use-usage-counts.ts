@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { collection, getCountFromServer, query, where, type FirestoreError, type Query } from 'firebase/firestore';
+
+import { errorEmitter, FirestorePermissionError, useFirestore } from '@/firebase';
+import { usageCollections, usageDays, type DailyUsage } from '@/lib/usage-analytics';
+
+export interface UsageCounts {
+  pageViews: number;
+  embeddedViews: number;
+  searches: number;
+  zeroResultSearches: number;
+  daily: DailyUsage[];
+}
+
+/**
+ * Event counts from `since` to today, per day and in total, from Firestore count queries so
+ * the cost does not grow with traffic. The zero-result and embedded counts need the
+ * composite indexes in firestore.indexes.json.
+ */
+export function useUsageCounts(since: Date): { counts: UsageCounts | null; isLoading: boolean; error: FirestoreError | null } {
+  const firestore = useFirestore();
+  const [counts, setCounts] = useState<UsageCounts | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<FirestoreError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const views = collection(firestore, usageCollections.pageViews);
+    const searches = collection(firestore, usageCollections.searchQueries);
+    const between = (start: Date, end: Date) => [
+      where('timestamp', '>=', start.toISOString()),
+      where('timestamp', '<', end.toISOString()),
+    ];
+    const count = (countQuery: Query) => getCountFromServer(countQuery).then((snapshot) => snapshot.data().count);
+
+    const days = usageDays(since);
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      count(query(views, where('embedReferrer', '>', ''), where('timestamp', '>=', since.toISOString()))),
+      Promise.all(
+        days.map(async ({ date, start, end }): Promise<DailyUsage> => {
+          const [pageViews, searchCount, zeroResultSearches] = await Promise.all([
+            count(query(views, ...between(start, end))),
+            count(query(searches, ...between(start, end))),
+            count(query(searches, where('resultCount', '==', 0), ...between(start, end))),
+          ]);
+          return { date, pageViews, searches: searchCount, zeroResultSearches };
+        })
+      ),
+    ])
+      .then(([embeddedViews, daily]) => {
+        if (cancelled) return;
+        const total = (key: keyof Omit<DailyUsage, 'date'>) => daily.reduce((sum, day) => sum + day[key], 0);
+        setCounts({
+          pageViews: total('pageViews'),
+          embeddedViews,
+          searches: total('searches'),
+          zeroResultSearches: total('zeroResultSearches'),
+          daily,
+        });
+      })
+      .catch((caught: FirestoreError) => {
+        if (cancelled) return;
+        setCounts(null);
+        setError(caught);
+        if (caught.code === 'permission-denied') {
+          errorEmitter.emit('permission-error', new FirestorePermissionError({ operation: 'list', path: usageCollections.pageViews }));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [firestore, since]);
+
+  return { counts, isLoading, error };
+}
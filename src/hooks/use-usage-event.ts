@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { collection } from 'firebase/firestore';
+
+import { addDocumentNonBlocking, useFirebase } from '@/firebase';
+import type { UsageEvents } from '@/lib/usage-analytics';
+
+/**
+ * Writes `event` to a usage collection once, and again only when it changes. Firestore rules
+ * only accept writes from signed-in visitors, so the write waits for the anonymous sign-in
+ * started by AnalyticsProvider. Pass null to record nothing.
+ */
+export function useUsageEvent<C extends keyof UsageEvents>(collectionName: C, event: UsageEvents[C] | null) {
+  const { firestore, user } = useFirebase();
+  const lastRecorded = useRef<string | null>(null);
+  const key = event ? JSON.stringify(event) : null;
+
+  useEffect(() => {
+    if (!event || !key || !user || lastRecorded.current === key) {
+      return;
+    }
+    lastRecorded.current = key;
+    addDocumentNonBlocking(collection(firestore, collectionName), {
+      ...event,
+      timestamp: new Date().toISOString(),
+    });
+  }, [key, user, firestore, collectionName]);
+}
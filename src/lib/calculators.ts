@@ -1,5 +1,8 @@
+import { getUnitDimension } from '@/lib/units';
+import { conversionPairSlug } from '@/lib/units/parse';
 
 export interface Calculator {
+  // Unique across the registry. Only used as a React list key; pages, saved calculations and analytics key on the slug.
   id: number;
   name: string;
   description: string;
@@ -7,6 +10,15 @@ export interface Calculator {
   category: string;
   metaTitle?: string;
   metaDescription?: string;
+  // Component module under src/components/calculators, without extension.
+  // Defaults to `<category>/<slug>`; only set it when the file is named differently.
+  component?: string;
+  // Unit pair for converters rendered by the shared unit converter; ids from src/lib/units.
+  conversion?: { from: string; to: string };
+  // Section the calculator is listed under on its category page; see Category.subcategories.
+  subcategory?: string;
+  // Lowercase labels offered as filter chips on the category page.
+  tags?: string[];
 }
 
 export const calculators: Calculator[] = [
@@ -17,6 +29,7 @@ export const calculators: Calculator[] = [
     description: 'Compute two-asset tangency portfolio weights that maximize Sharpe relative to a risk-free rate.',
     slug: 'tangency-portfolio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Tangency Portfolio (Max Sharpe) Calculator',
     metaDescription: 'Find max Sharpe (tangency) portfolio weights from expected returns, volatilities, correlation, and risk-free rate.'
   },
@@ -26,6 +39,7 @@ export const calculators: Calculator[] = [
     description: 'Visualize pairwise correlations between assets and identify clusters driving portfolio risk.',
     slug: 'portfolio-correlation-heatmap-tool',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Portfolio Correlation Heatmap Tool',
     metaDescription: 'Generate a correlation heatmap for multiple assets to spot diversification opportunities and risk clusters.'
   },
@@ -35,6 +49,7 @@ export const calculators: Calculator[] = [
     description: 'Compute CML slope and expected returns at target volatility given risk-free rate and market stats.',
     slug: 'capital-market-line-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Capital Market Line (CML) Calculator',
     metaDescription: 'Calculate expected return on the CML for a target risk, given market return, market volatility, and risk-free rate.'
   },
@@ -44,6 +59,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate expected return using CAPM given beta, risk-free rate, and market return.',
     slug: 'security-market-line-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Security Market Line (SML) Calculator',
     metaDescription: 'Use CAPM to compute expected return for a given beta along the SML using market risk premium and risk-free rate.'
   },
@@ -53,6 +69,7 @@ export const calculators: Calculator[] = [
     description: 'Measure average return difference between a fund and its benchmark over time.',
     slug: 'tracking-difference-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Tracking Difference Calculator',
     metaDescription: 'Calculate tracking difference between a portfolio or ETF and its benchmark with summary statistics and interpretation.'
   },
@@ -62,6 +79,7 @@ export const calculators: Calculator[] = [
     description: 'Compare portfolio factor exposures to a benchmark to identify potential style drift.',
     slug: 'style-drift-analyzer',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Style Drift Analyzer (Portfolio vs Benchmark)',
     metaDescription: 'Analyze portfolio vs benchmark factor exposures to detect style drift with intuitive interpretation.'
   },
@@ -71,6 +89,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate rolling period returns (1-year, 3-year, 5-year) from a time series to assess performance consistency.',
     slug: 'rolling-return-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
     metaTitle: 'Rolling Return Calculator',
     metaDescription: 'Compute rolling period returns from historical data to analyze performance consistency across different time horizons.'
   },
@@ -80,6 +99,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate portfolio sector allocation and concentration risk from position weights and sector classifications.',
     slug: 'sector-exposure-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Sector Exposure Calculator',
     metaDescription: 'Analyze portfolio sector exposure and concentration to identify diversification gaps and sector risk.'
   },
@@ -89,6 +109,7 @@ export const calculators: Calculator[] = [
     description: 'Measure portfolio trading activity by calculating turnover ratio from purchases, sales, and average portfolio value.',
     slug: 'portfolio-turnover-ratio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Portfolio Turnover Ratio Calculator',
     metaDescription: 'Calculate portfolio turnover ratio to assess trading frequency, transaction costs, and tax efficiency.'
   },
@@ -98,6 +119,8 @@ export const calculators: Calculator[] = [
     description: 'Compute tax-equivalent yield for municipal bonds given tax-free yield, marginal tax rate, and taxable equivalent.',
     slug: 'tax-equivalent-yield-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['tax', 'interest rates'],
     metaTitle: 'Tax-Equivalent Yield (Municipal Bonds) Calculator',
     metaDescription: 'Calculate tax-equivalent yield for municipal bonds to compare with taxable bond yields at your marginal tax rate.'
   },
@@ -107,6 +130,8 @@ export const calculators: Calculator[] = [
     description: 'Match portfolio duration to liability duration for immunization, minimizing interest rate risk.',
     slug: 'duration-matching-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Duration Matching (Immunization) Calculator',
     metaDescription: 'Calculate portfolio duration and match it to liability duration for immunization strategy to hedge interest rate risk.'
   },
@@ -116,6 +141,7 @@ export const calculators: Calculator[] = [
     description: 'Analyze asset-liability matching for portfolios with future liabilities, ensuring cash flows align with obligations.',
     slug: 'asset-liability-matching-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
     metaTitle: 'Asset-Liability Matching Calculator',
     metaDescription: 'Match asset cash flows to liability obligations for pension funds, insurance, and institutional portfolios.'
   },
@@ -125,6 +151,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate expected shortfall (CVaR) to measure tail risk and potential losses beyond VaR at a given confidence level.',
     slug: 'expected-shortfall-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Expected Shortfall (Tail Risk) Calculator',
     metaDescription: 'Compute expected shortfall (Conditional Value at Risk) to assess tail risk and potential losses in extreme market scenarios.'
   },
@@ -134,6 +162,8 @@ export const calculators: Calculator[] = [
     description: 'Plan portfolio rebalancing by calculating target allocations, current drift, and required trades to restore target weights.',
     slug: 'portfolio-rebalancing-planner',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['planning'],
     metaTitle: 'Portfolio Rebalancing Planner',
     metaDescription: 'Calculate rebalancing trades needed to restore target portfolio allocations and manage drift from market movements.'
   },
@@ -143,6 +173,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate optimal position sizes based on portfolio value, risk tolerance, stop loss, and account risk percentage.',
     slug: 'position-sizing-calculator',
     category: 'finance',
+    subcategory: 'Trading',
     metaTitle: 'Position Sizing Calculator',
     metaDescription: 'Determine optimal position sizes for portfolio positions using risk-based position sizing methods and stop-loss levels.'
   },
@@ -152,6 +183,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate risk/reward ratio from entry price, stop loss, and target price to assess trade attractiveness.',
     slug: 'risk-reward-ratio-calculator',
     category: 'finance',
+    subcategory: 'Trading',
+    tags: ['risk'],
     metaTitle: 'Risk/Reward Ratio Calculator',
     metaDescription: 'Compute risk/reward ratio for trading positions to evaluate potential returns relative to risk and set profit targets.'
   },
@@ -161,6 +194,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate optimal position size using the Kelly Criterion based on win probability and average win/loss ratio.',
     slug: 'kelly-criterion-calculator',
     category: 'finance',
+    subcategory: 'Trading',
+    tags: ['risk'],
     metaTitle: 'Kelly Criterion Calculator',
     metaDescription: 'Determine optimal position size using the Kelly Criterion formula for maximizing long-term portfolio growth.'
   },
@@ -170,6 +205,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate stop loss and take profit levels from entry price, risk amount, and risk/reward ratio for trade management.',
     slug: 'stop-loss-take-profit-calculator',
     category: 'finance',
+    subcategory: 'Trading',
+    tags: ['risk'],
     metaTitle: 'Stop Loss / Take Profit Calculator',
     metaDescription: 'Calculate optimal stop loss and take profit levels based on entry price, risk tolerance, and risk/reward ratio.'
   },
@@ -179,6 +216,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate maximum drawdown from portfolio value series to measure peak-to-trough decline and downside risk.',
     slug: 'maximum-drawdown-calculator',
     category: 'finance',
+    subcategory: 'Trading',
+    tags: ['risk'],
     metaTitle: 'Maximum Drawdown Calculator',
     metaDescription: 'Calculate maximum drawdown from portfolio values to assess peak-to-trough decline and downside risk exposure.'
   },
@@ -188,6 +227,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate win rate, expectancy, and expected value from trade history to assess trading strategy performance.',
     slug: 'win-rate-expectancy-calculator',
     category: 'finance',
+    subcategory: 'Trading',
     metaTitle: 'Win Rate & Expectancy Calculator',
     metaDescription: 'Calculate win rate, trade expectancy, and expected value from trade history to evaluate trading strategy profitability.'
   },
@@ -197,6 +237,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate compound annual growth rate (CAGR) from trade history, including returns, dates, and contributions.',
     slug: 'cagr-from-trade-history-calculator',
     category: 'finance',
+    subcategory: 'Trading',
     metaTitle: 'CAGR from Trade History Calculator',
     metaDescription: 'Calculate compound annual growth rate (CAGR) from trade history and portfolio performance data.'
   },
@@ -206,6 +247,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate position size based on target portfolio volatility, asset volatility, and correlation for risk targeting.',
     slug: 'volatility-target-position-size-calculator',
     category: 'finance',
+    subcategory: 'Trading',
+    tags: ['risk'],
     metaTitle: 'Volatility Target Position Size Calculator',
     metaDescription: 'Calculate optimal position size based on target portfolio volatility, asset volatility, and correlation for risk-based position sizing.'
   },
@@ -215,6 +258,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate position size based on Average True Range (ATR) to set stop losses and manage risk relative to volatility.',
     slug: 'atr-based-position-size-calculator',
     category: 'finance',
+    subcategory: 'Trading',
+    tags: ['risk'],
     metaTitle: 'ATR-based Position Size Calculator',
     metaDescription: 'Calculate optimal position size using Average True Range (ATR) to manage risk and set volatility-based stop losses.'
   },
@@ -224,6 +269,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate positions needed to create a delta-neutral portfolio using options and underlying assets to hedge directional risk.',
     slug: 'options-delta-neutral-portfolio-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Options Delta Neutral Portfolio Calculator',
     metaDescription: 'Calculate positions for delta-neutral portfolios using options and underlying assets to hedge directional market risk.'
   },
@@ -233,6 +279,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate optimal hedge ratio for futures contracts to minimize basis risk and hedge spot positions effectively.',
     slug: 'futures-hedge-ratio-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['risk'],
     metaTitle: 'Futures Hedge Ratio Calculator',
     metaDescription: 'Calculate optimal hedge ratio for futures contracts to minimize basis risk and effectively hedge spot market positions.'
   },
@@ -242,6 +290,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate basis risk between spot and futures prices to assess hedging effectiveness and price convergence.',
     slug: 'basis-risk-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['risk'],
     metaTitle: 'Basis Risk Calculator',
     metaDescription: 'Calculate basis risk between spot and futures prices to evaluate hedging effectiveness and price convergence.'
   },
@@ -251,6 +301,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate arbitrage profit from price differences between markets, assets, or instruments to identify trading opportunities.',
     slug: 'arbitrage-profit-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Arbitrage Profit Calculator',
     metaDescription: 'Calculate arbitrage profit from price differences between markets or instruments to identify risk-free trading opportunities.'
   },
@@ -260,6 +311,7 @@ export const calculators: Calculator[] = [
     description: 'Check put-call parity relationship between put and call options to identify arbitrage opportunities and verify option pricing.',
     slug: 'put-call-parity-checker',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Put-Call Parity Checker',
     metaDescription: 'Verify put-call parity relationship between put and call options to identify arbitrage opportunities and validate option pricing.'
   },
@@ -269,6 +321,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate fair value of futures contracts from spot price, interest rate, dividends, and time to expiration to identify pricing discrepancies.',
     slug: 'futures-fair-value-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Futures Fair Value Calculator',
     metaDescription: 'Calculate fair value of futures contracts from spot price, interest rates, dividends, and time to expiration for pricing analysis.'
   },
@@ -278,6 +331,7 @@ export const calculators: Calculator[] = [
     description: 'Simulate option time decay (theta) over time to understand how option prices change as expiration approaches.',
     slug: 'option-time-decay-simulator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Option Time Decay (Theta Impact) Simulator',
     metaDescription: 'Simulate option time decay (theta) to understand how option prices decline over time as expiration approaches.'
   },
@@ -287,6 +341,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate breakeven price for call and put options to determine the underlying price needed to profit at expiration.',
     slug: 'option-breakeven-price-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Option Breakeven Price Calculator',
     metaDescription: 'Calculate breakeven price for call and put options to determine the underlying price needed to profit at expiration.'
   },
@@ -296,6 +351,7 @@ export const calculators: Calculator[] = [
     description: 'Analyze returns from covered call strategies by calculating income, capital gains, and total return from selling calls against stock positions.',
     slug: 'covered-call-return-analyzer',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Covered Call Return Analyzer',
     metaDescription: 'Analyze covered call strategy returns by calculating premium income, capital gains, and total return from selling calls against stock.'
   },
@@ -305,6 +361,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate profit and loss for iron butterfly options strategies with multiple strike prices to analyze risk and reward.',
     slug: 'iron-butterfly-payoff-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Iron Butterfly Payoff Calculator',
     metaDescription: 'Calculate profit and loss for iron butterfly options strategies to analyze risk, reward, and breakeven points.'
   },
@@ -314,6 +371,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate profit and loss for straddle and strangle options strategies to analyze volatility trading opportunities.',
     slug: 'straddle-strangle-strategy-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Straddle / Strangle Strategy Calculator',
     metaDescription: 'Calculate profit and loss for straddle and strangle options strategies to analyze volatility trading and breakeven points.'
   },
@@ -323,6 +381,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the bridge between equity value and enterprise value by accounting for debt, cash, and other adjustments.',
     slug: 'equity-enterprise-value-bridge-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['stocks'],
     metaTitle: 'Equity Value vs Enterprise Value Bridge Calculator',
     metaDescription: 'Calculate the bridge between equity value and enterprise value by accounting for debt, cash, minority interests, and other adjustments.'
   },
@@ -332,6 +392,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate free cash flow to equity from net income, capital expenditures, and changes in working capital for equity valuation.',
     slug: 'free-cash-flow-to-equity-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['stocks', 'cash flow'],
     metaTitle: 'Free Cash Flow to Equity (FCFE) Calculator',
     metaDescription: 'Calculate free cash flow to equity from net income, capital expenditures, and working capital changes for equity valuation and DCF analysis.'
   },
@@ -341,6 +403,8 @@ export const calculators: Calculator[] = [
     description: 'Get the global minimum variance allocation for two assets from volatilities and correlation.',
     slug: 'minimum-variance-portfolio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Minimum Variance Portfolio Calculator',
     metaDescription: 'Calculate the two-asset global minimum variance portfolio using volatilities and correlation.'
   },
@@ -350,6 +414,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate overall portfolio beta to a benchmark from position weights and individual betas.',
     slug: 'beta-weighted-portfolio-exposure-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['stocks'],
     metaTitle: 'Beta-weighted Portfolio Exposure Calculator',
     metaDescription: 'Compute beta-weighted exposure to a benchmark using positions and their betas.'
   },
@@ -359,6 +425,8 @@ export const calculators: Calculator[] = [
     description: 'Measure maximum and current drawdown from a series of portfolio values or NAVs.',
     slug: 'portfolio-drawdown-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Portfolio Drawdown Calculator',
     metaDescription: 'Calculate maximum drawdown and current drawdown from a value series; review path interactively.'
   },
@@ -368,6 +436,8 @@ export const calculators: Calculator[] = [
     description: 'Approximate inverse-volatility risk parity allocations across up to three assets.',
     slug: 'risk-parity-portfolio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Risk Parity Portfolio Calculator',
     metaDescription: 'Compute inverse-volatility risk parity weights to balance risk contribution across assets.'
   },
@@ -377,6 +447,8 @@ export const calculators: Calculator[] = [
     description: 'Assess property cash flow strength by comparing NOI to annual debt service.',
     slug: 'dscr-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
+    tags: ['debt'],
     metaTitle: 'DSCR Calculator - Debt Service Coverage Ratio for Real Estate',
     metaDescription: 'Calculate DSCR from NOI and debt service to evaluate loan coverage and lender readiness.',
   },
@@ -386,6 +458,7 @@ export const calculators: Calculator[] = [
     description: 'Benchmark property price against annual gross rent using GRM.',
     slug: 'gross-rent-multiplier-grm-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
     metaTitle: 'GRM Calculator - Gross Rent Multiplier for Rental Property',
     metaDescription: 'Compute GRM quickly to screen rental properties and compare to local market norms.',
   },
@@ -395,6 +468,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate value change given basis‑point moves in capitalization rates.',
     slug: 'real-estate-cap-rate-sensitivity-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
+    tags: ['planning'],
     metaTitle: 'Cap Rate Sensitivity Calculator - Real Estate Valuation',
     metaDescription: 'Model property value impact from cap rate changes using NOI and basis‑point scenarios.',
   },
@@ -404,6 +479,7 @@ export const calculators: Calculator[] = [
     description: 'Find the minimum‑variance mix of two assets and explore correlation effects.',
     slug: 'efficient-frontier-portfolio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Efficient Frontier Calculator - Minimum‑Variance Mix and Diversification',
     metaDescription: 'Compute min‑variance weights and see how correlation affects portfolio risk.',
   },
@@ -413,6 +489,8 @@ export const calculators: Calculator[] = [
     description: 'Solve two‑asset weights to reach a target expected return with minimal variance.',
     slug: 'mean-variance-optimization-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Mean‑Variance Optimization Calculator - Target Return Weights',
     metaDescription: 'Calculate portfolio weights for a desired expected return using mean‑variance theory.',
   },
@@ -422,6 +500,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate the maximum home price you can afford based on income, debts, down payment, and loan terms.',
     slug: 'home-affordability-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
     metaTitle: 'Home Affordability Calculator - How Much House Can I Afford?',
     metaDescription: 'Calculate the maximum affordable home price using income, debts, interest rate, and property taxes.',
   },
@@ -431,6 +510,7 @@ export const calculators: Calculator[] = [
     description: 'Project future property value with a constant annual appreciation rate and optional extra equity.',
     slug: 'property-appreciation-projection-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
     metaTitle: 'Property Appreciation Projection Calculator',
     metaDescription: 'Estimate future property value based on annual appreciation and time horizon.',
   },
@@ -440,6 +520,7 @@ export const calculators: Calculator[] = [
     description: 'Compute gross and net rental yield after vacancy and operating expenses.',
     slug: 'rental-yield-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
     metaTitle: 'Rental Yield Calculator - Gross and Net Yield',
     metaDescription: 'Calculate rental property gross and net yield given rent, vacancy, and expenses.',
   },
@@ -449,6 +530,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate after-tax cash flow using NOI, interest, depreciation, principal, and tax rate.',
     slug: 'cash-flow-after-tax-cfat-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
+    tags: ['tax', 'cash flow'],
     metaTitle: 'CFAT Calculator - Cash Flow After Tax',
     metaDescription: 'Compute after-tax cash flow for investment property using NOI, interest, and depreciation.',
   },
@@ -458,6 +541,8 @@ export const calculators: Calculator[] = [
     description: 'Measure leverage by comparing loan balance to property value to get LTV ratio.',
     slug: 'loan-to-value-ltv-ratio-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'LTV Ratio Calculator - Loan-to-Value',
     metaDescription: 'Calculate loan-to-value ratio for mortgages and real estate financing.',
   },
@@ -467,6 +552,8 @@ export const calculators: Calculator[] = [
     description: 'Simulate dividend reinvestment with recurring contributions to see compounding over time.',
     slug: 'dividend-reinvestment-drip-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['stocks', 'dividends'],
     metaTitle: 'Dividend Reinvestment (DRIP) Calculator - Compounding Income',
     metaDescription: 'Model dividend reinvestment, contributions, yield, and price growth to estimate future portfolio value.'
   },
@@ -476,6 +563,8 @@ export const calculators: Calculator[] = [
     description: 'Analyze how profit changes with sales volume adjustments, given price, variable cost, and fixed costs.',
     slug: 'sensitivity-of-profit-to-sales-volume-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['profitability', 'planning'],
     metaTitle: 'Profit Sensitivity to Sales Volume Calculator',
     metaDescription: 'Analyze profit sensitivity to changes in sales volume, contribution margin, and fixed costs.',
   },
@@ -485,6 +574,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate operating cycle and cash conversion cycle from DIO, DSO, and DPO metrics.',
     slug: 'operating-cycle-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['cash flow'],
     metaTitle: 'Operating Cycle Calculator - DIO + DSO and CCC',
     metaDescription: 'Calculate operating cycle (DIO + DSO) and cash conversion cycle (CCC) from working capital metrics.',
   },
@@ -494,6 +585,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate COGS using the periodic inventory formula: Beginning Inventory + Purchases − Ending Inventory.',
     slug: 'cogs-estimator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'COGS Estimator - Cost of Goods Sold',
     metaDescription: 'Estimate cost of goods sold (COGS) from beginning inventory, purchases, and ending inventory.',
   },
@@ -503,6 +595,8 @@ export const calculators: Calculator[] = [
     description: 'Compare gross and net profitability and understand margin drivers across revenue, COGS, and expenses.',
     slug: 'gross-profit-vs-net-profit-analyzer',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['profitability'],
     metaTitle: 'Gross vs Net Profit Analyzer - Margin Analysis',
     metaDescription: 'Analyze gross profit and net profit, compute gross and net margins, and identify improvement levers.',
   },
@@ -512,6 +606,8 @@ export const calculators: Calculator[] = [
     description: 'Compute ROI for up to three segments and the overall weighted ROI to guide capital allocation.',
     slug: 'roi-by-business-segment-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['profitability'],
     metaTitle: 'ROI by Business Segment Calculator',
     metaDescription: 'Calculate ROI by business segment and weighted ROI for better capital allocation decisions.',
   },
@@ -521,6 +617,7 @@ export const calculators: Calculator[] = [
     description: 'Compute the annual cash flow required to achieve NPV = 0 at a chosen discount rate and horizon.',
     slug: 'financial-break-even-npv-zero-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'Financial Break-even Calculator (NPV=0)',
     metaDescription: 'Calculate breakeven annual cash flow for NPV = 0 using discount rate and project life.',
   },
@@ -530,6 +627,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate WACC for a chosen debt ratio and compare nearby leverage levels to inform financing policy.',
     slug: 'capital-structure-optimization-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'Capital Structure Optimization Calculator - WACC by Debt Ratio',
     metaDescription: 'Estimate WACC at different debt ratios to explore capital structure trade-offs and tax shields.',
   },
@@ -539,6 +637,7 @@ export const calculators: Calculator[] = [
     description: 'Find the break-even quantity using price, variable cost per unit, and fixed costs.',
     slug: 'economic-break-even-quantity-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Economic Break-even Quantity Calculator',
     metaDescription: 'Compute break-even units from fixed costs and contribution margin per unit for profitability planning.',
   },
@@ -548,6 +647,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate payment reduction, breakeven time, and total savings from buying mortgage points.',
     slug: 'mortgage-points-impact-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Mortgage Points Impact Calculator - Buydown Breakeven',
     metaDescription: 'Calculate monthly savings and breakeven months when buying mortgage discount points.',
   },
@@ -557,6 +658,7 @@ export const calculators: Calculator[] = [
     description: 'Compare long-term costs and net position of renting versus buying a home under simplified assumptions.',
     slug: 'rent-vs-buy-home-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
     metaTitle: 'Rent vs Buy Home Calculator - Long-term Cost Comparison',
     metaDescription: 'Compare owning and renting over a chosen horizon, including appreciation, rent growth, and investment returns.',
   },
@@ -566,6 +668,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate price change from a credit spread move using spread duration and clean price.',
     slug: 'credit-spread-duration-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Credit Spread Duration Calculator',
     metaDescription: 'Calculate bond price impact for a change in credit spread using spread duration.',
   },
@@ -575,6 +679,8 @@ export const calculators: Calculator[] = [
     description: 'Compute PVBP/DV01 from modified duration and clean price to manage rate risk.',
     slug: 'pvbp-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'PVBP (DV01) Calculator',
     metaDescription: 'Calculate the dollar value of a basis point for bonds and fixed-income portfolios.',
   },
@@ -584,6 +690,8 @@ export const calculators: Calculator[] = [
     description: 'Compute dollar duration (duration × price) for a 1% parallel yield move.',
     slug: 'dollar-duration-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Dollar Duration Calculator',
     metaDescription: 'Calculate dollar duration to measure price change for a 1% yield shift.',
   },
@@ -593,6 +701,7 @@ export const calculators: Calculator[] = [
     description: 'Compute Black–Scholes Greeks for calls and puts to assess option risk sensitivities.',
     slug: 'option-greeks-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Option Greeks Calculator - Delta Gamma Vega Theta Rho',
     metaDescription: 'Calculate option Greeks using Black–Scholes for risk management and hedging.',
   },
@@ -602,6 +711,8 @@ export const calculators: Calculator[] = [
     description: 'Back out implied volatility from market option price using Black–Scholes inversion.',
     slug: 'implied-volatility-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['risk'],
     metaTitle: 'Implied Volatility Calculator (IV)',
     metaDescription: 'Compute IV from option price, strike, spot, rate, and time using Black–Scholes.',
   },
@@ -611,6 +722,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate risk-neutral probability that an option expires in-the-money using Black–Scholes.',
     slug: 'probability-expiring-itm-options-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Probability of Expiring ITM Calculator - Options',
     metaDescription: 'Calculate the probability that a call or put option expires in-the-money at expiration.',
   },
@@ -620,6 +732,7 @@ export const calculators: Calculator[] = [
     description: 'Analyze profit/loss for covered call and protective put strategies at various price scenarios.',
     slug: 'covered-call-protective-put-strategy-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Covered Call and Protective Put Strategy Calculator',
     metaDescription: 'Calculate profit, loss, break-even, and returns for covered calls and protective puts.',
   },
@@ -629,6 +742,7 @@ export const calculators: Calculator[] = [
     description: 'Analyze profit/loss for iron condor and butterfly spreads at expiry across price scenarios.',
     slug: 'iron-condor-butterfly-strategy-payoff-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Iron Condor and Butterfly Strategy Payoff Calculator',
     metaDescription: 'Calculate maximum profit, maximum loss, and breakevens for iron condor and butterfly spreads.',
   },
@@ -638,6 +752,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate initial and maintenance margin requirements for futures positions.',
     slug: 'futures-margin-requirement-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Futures Margin Requirement Calculator',
     metaDescription: 'Calculate initial and maintenance margin requirements based on contract size, price, and margin percentages.',
   },
@@ -647,6 +762,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate basis (futures minus spot) and compare to theoretical pricing based on cost of carry.',
     slug: 'futures-basis-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Futures Basis Calculator - Contango and Backwardation',
     metaDescription: 'Calculate futures basis, identify contango or backwardation, and compare to theoretical futures pricing.',
   },
@@ -656,6 +772,7 @@ export const calculators: Calculator[] = [
     description: 'Compute cost of carry and theoretical futures price from spot, rates, storage, convenience yield, and dividends.',
     slug: 'cost-of-carry-futures-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Cost of Carry Calculator - Futures Pricing',
     metaDescription: 'Calculate cost of carry for futures contracts including financing, storage, and yield components.',
   },
@@ -665,6 +782,7 @@ export const calculators: Calculator[] = [
     description: 'Compute current mark-to-market value of a forward contract from spot, forward price, rate, and time.',
     slug: 'forward-contract-value-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Forward Contract Value Calculator',
     metaDescription: 'Calculate the current value of a forward contract using spot price, forward price, and discount rate.',
   },
@@ -674,6 +792,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate current value of an interest rate swap using fixed/floating rates, notional, and discount factors.',
     slug: 'swap-valuation-plain-vanilla-interest-rate-swap-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['interest rates'],
     metaTitle: 'Interest Rate Swap Valuation Calculator',
     metaDescription: 'Calculate the mark-to-market value of a plain vanilla interest rate swap.',
   },
@@ -683,6 +803,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate swaption value using Black model with forward swap rate, strike, volatility, and time to expiry.',
     slug: 'swaption-pricing-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['interest rates'],
     metaTitle: 'Swaption Pricing Calculator - Black Model',
     metaDescription: 'Price payer and receiver swaptions using Black model for options on interest rate swaps.',
   },
@@ -692,6 +814,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate expected credit loss from exposure at default, probability of default, and loss given default.',
     slug: 'credit-risk-expected-loss-calculator',
     category: 'finance',
+    subcategory: 'Credit Risk',
+    tags: ['risk'],
     metaTitle: 'Credit Risk Expected Loss Calculator - PD LGD EAD',
     metaDescription: 'Calculate expected credit loss using probability of default, loss given default, and exposure at default.',
   },
@@ -701,6 +825,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate PD using Merton structural model from asset value, debt, volatility, and time horizon.',
     slug: 'probability-of-default-pd-estimator',
     category: 'finance',
+    subcategory: 'Credit Risk',
+    tags: ['risk'],
     metaTitle: 'Probability of Default Estimator - Merton Model',
     metaDescription: 'Estimate probability of default using Merton structural model based on asset value, debt, and volatility.',
   },
@@ -710,6 +836,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate total exposure at default including drawn amounts and undrawn commitments using credit conversion factors.',
     slug: 'exposure-at-default-ead-calculator',
     category: 'finance',
+    subcategory: 'Credit Risk',
+    tags: ['risk'],
     metaTitle: 'Exposure at Default Calculator - EAD Credit Risk',
     metaDescription: 'Calculate exposure at default including drawn amounts and undrawn commitments with credit conversion factors.',
   },
@@ -719,6 +847,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate loss given default from exposure, recovery amount or rate, and estimate total credit loss.',
     slug: 'loss-given-default-lgd-calculator',
     category: 'finance',
+    subcategory: 'Credit Risk',
+    tags: ['risk'],
     metaTitle: 'Loss Given Default Calculator - LGD Recovery Rate',
     metaDescription: 'Calculate loss given default and recovery rate from exposure and recovery amounts.',
   },
@@ -728,6 +858,8 @@ export const calculators: Calculator[] = [
     description: 'Compute EVA as NOPAT minus capital charge to measure true economic profit and value creation.',
     slug: 'economic-value-added-eva-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['profitability'],
     metaTitle: 'Economic Value Added Calculator - EVA Value Creation',
     metaDescription: 'Calculate Economic Value Added to measure true economic profit after accounting for cost of capital.',
   },
@@ -737,6 +869,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate market value added as the difference between market value and book value of capital.',
     slug: 'market-value-added-mva-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'Market Value Added Calculator - MVA Market Premium',
     metaDescription: 'Calculate market value added to measure the premium or discount of market value relative to book value.',
   },
@@ -746,6 +879,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the cost of preferred stock from annual dividend, price, and flotation costs.',
     slug: 'cost-of-preferred-stock-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['stocks'],
     metaTitle: 'Cost of Preferred Stock Calculator - Dividend Yield',
     metaDescription: 'Calculate cost of preferred stock to determine the required rate of return on preferred equity.',
   },
@@ -755,6 +890,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate APV by adding tax shield value to base NPV for projects with financing effects.',
     slug: 'adjusted-present-value-apv-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'Adjusted Present Value Calculator - APV Tax Shield',
     metaDescription: 'Calculate adjusted present value to value projects by separating operating value from financing benefits.',
   },
@@ -764,6 +900,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate equity value using residual income model: book value plus present value of residual income.',
     slug: 'residual-income-valuation-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'Residual Income Valuation Calculator - RI Model',
     metaDescription: 'Value equity using residual income model based on book value and expected residual income.',
   },
@@ -773,6 +910,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate how much emergency fund you need based on monthly expenses and desired coverage period.',
     slug: 'emergency-fund-requirement-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['savings'],
     metaTitle: 'Emergency Fund Calculator - How Much to Save',
     metaDescription: 'Calculate your emergency fund requirement to cover essential expenses during financial emergencies.',
   },
@@ -782,6 +921,8 @@ export const calculators: Calculator[] = [
     description: 'Plan and track your monthly budget by income and expense categories.',
     slug: 'monthly-budget-planner-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['planning'],
     metaTitle: 'Monthly Budget Planner - Personal Finance Calculator',
     metaDescription: 'Create and manage your monthly budget to track income, expenses, and savings goals.',
   },
@@ -791,6 +932,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate how long it will take to reach your savings goal with current contributions and expected returns.',
     slug: 'savings-goal-timeline-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['savings', 'planning'],
     metaTitle: 'Savings Goal Timeline Calculator - When Will I Reach My Goal?',
     metaDescription: 'Calculate timeline to reach your savings goal based on monthly contributions and investment returns.',
   },
@@ -800,6 +943,7 @@ export const calculators: Calculator[] = [
     description: 'Compare wealth accumulation when starting early vs delaying investment by showing the cost of procrastination.',
     slug: 'cost-of-delay-investing-late-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
     metaTitle: 'Cost of Delay Calculator - Investing Late Opportunity Cost',
     metaDescription: 'Calculate the opportunity cost of delaying investments and see how procrastination affects wealth accumulation.',
   },
@@ -809,6 +953,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate hours needed or monthly income potential from side work based on hourly rate and availability.',
     slug: 'side-income-goal-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['savings', 'planning'],
     metaTitle: 'Side Income Goal Calculator - Freelance and Part-Time Income',
     metaDescription: 'Calculate side income goals, hours needed, and monthly earning potential from freelance or part-time work.',
   },
@@ -818,6 +964,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate your FIRE number and timeline to financial independence using savings rate, expenses, and withdrawal rate.',
     slug: 'fire-financial-independence-retire-early-calculator',
     category: 'finance',
+    subcategory: 'Retirement',
+    tags: ['planning'],
     metaTitle: 'FIRE Calculator - Financial Independence Retire Early',
     metaDescription: 'Calculate your FIRE number and timeline to achieve financial independence and retire early.',
   },
@@ -827,6 +975,7 @@ export const calculators: Calculator[] = [
     description: 'Project future passive income from investments based on contributions, returns, and withdrawal rate.',
     slug: 'passive-income-projection-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
     metaTitle: 'Passive Income Projection Calculator - Future Income Planning',
     metaDescription: 'Project future passive income from investments, dividends, and other passive income sources.',
   },
@@ -836,6 +985,8 @@ export const calculators: Calculator[] = [
     description: 'Track progress toward investment goals, calculate remaining amount, and project future value.',
     slug: 'investment-goal-tracker-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['savings', 'planning'],
     metaTitle: 'Investment Goal Tracker Calculator - Progress Monitoring',
     metaDescription: 'Track progress toward investment goals and calculate how much remains to reach your target.',
   },
@@ -845,6 +996,8 @@ export const calculators: Calculator[] = [
     description: 'Compare final value of lump sum investment versus systematic investment plan (SIP) over the same period.',
     slug: 'lump-sum-vs-sip-comparison-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['savings'],
     metaTitle: 'Lump Sum vs SIP Comparison Calculator - Investment Strategy',
     metaDescription: 'Compare lump sum investment vs systematic investment plan to choose the best investment strategy.',
   },
@@ -854,6 +1007,8 @@ export const calculators: Calculator[] = [
     description: 'Adjust your savings goals for inflation to determine the future value needed to maintain purchasing power.',
     slug: 'inflation-adjusted-savings-goal-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['inflation', 'savings', 'planning'],
     metaTitle: 'Inflation-Adjusted Savings Goal Calculator - Purchasing Power',
     metaDescription: 'Adjust savings goals for inflation to ensure your future savings maintain purchasing power.',
   },
@@ -863,6 +1018,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate future education costs, required savings, and projected fund value for your child\'s education.',
     slug: 'child-education-fund-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['savings'],
     metaTitle: 'Child Education Fund Calculator - College Savings Planning',
     metaDescription: 'Plan and calculate savings needed for your child\'s education including future cost projections.',
   },
@@ -872,6 +1029,8 @@ export const calculators: Calculator[] = [
     description: 'Plan and track your wedding budget across all major expense categories.',
     slug: 'wedding-budget-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['planning'],
     metaTitle: 'Wedding Budget Calculator - Event Planning',
     metaDescription: 'Plan and track your wedding budget to manage expenses across all categories and stay within budget.',
   },
@@ -881,6 +1040,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate down payment needed, remaining amount to save, and timeline to reach your home purchase goal.',
     slug: 'house-down-payment-savings-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['savings'],
     metaTitle: 'House Down Payment Calculator - Home Purchase Planning',
     metaDescription: 'Calculate how much down payment you need and how long it will take to save for your home purchase.',
   },
@@ -890,6 +1051,8 @@ export const calculators: Calculator[] = [
     description: 'Compare total cost of buying a car with a loan versus leasing to determine the better financial option.',
     slug: 'car-purchase-loan-vs-lease-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Car Loan vs Lease Calculator - Auto Financing Comparison',
     metaDescription: 'Compare car loan vs lease to determine which financing option saves you more money.',
   },
@@ -899,6 +1062,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate credit utilization ratio to understand how much of your available credit you\'re using.',
     slug: 'credit-utilization-ratio-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['debt'],
     metaTitle: 'Credit Utilization Ratio Calculator - Credit Score Impact',
     metaDescription: 'Calculate your credit utilization ratio to understand its impact on your credit score.',
   },
@@ -908,6 +1073,8 @@ export const calculators: Calculator[] = [
     description: 'Compare debt snowball and avalanche repayment strategies to find the best approach for paying off multiple debts.',
     slug: 'debt-snowball-avalanche-repayment-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['debt'],
     metaTitle: 'Debt Snowball vs Avalanche Calculator - Repayment Strategy',
     metaDescription: 'Compare debt snowball and avalanche methods to choose the best debt repayment strategy.',
   },
@@ -917,6 +1084,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate how debt ratios (utilization and DTI) impact your credit score and loan eligibility.',
     slug: 'credit-score-impact-estimator-debt-ratio-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['debt'],
     metaTitle: 'Credit Score Impact Calculator - Debt Ratio Analysis',
     metaDescription: 'Estimate how your debt ratios affect your credit score and loan approval chances.',
   },
@@ -926,6 +1095,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate potential savings from transferring credit card balance to a card with lower APR or promotional rate.',
     slug: 'balance-transfer-credit-card-savings-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['debt', 'savings'],
     metaTitle: 'Balance Transfer Calculator - Credit Card Savings',
     metaDescription: 'Calculate potential savings from balance transfers and compare transfer fees vs interest savings.',
   },
@@ -935,6 +1106,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate interest-only payment amount and total interest for loans with interest-only periods.',
     slug: 'interest-only-loan-payment-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt', 'interest rates'],
     metaTitle: 'Interest-Only Loan Payment Calculator',
     metaDescription: 'Calculate interest-only loan payments and understand payment structure during interest-only period.',
   },
@@ -944,6 +1117,8 @@ export const calculators: Calculator[] = [
     description: 'Compare initial and maximum payments for adjustable-rate loans and estimate total interest costs.',
     slug: 'adjustable-loan-comparison-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Adjustable Rate Loan Calculator - ARM Comparison',
     metaDescription: 'Compare adjustable-rate loan payments and estimate costs for initial and maximum rate scenarios.',
   },
@@ -953,6 +1128,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate break-even point in units and revenue where total costs equal total revenue (zero profit/loss).',
     slug: 'break-even-analysis-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Break-Even Analysis Calculator - Business Planning',
     metaDescription: 'Calculate break-even point to determine sales volume needed to cover all costs and achieve profitability.',
   },
@@ -962,6 +1138,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate contribution margin per unit or total to measure how much revenue contributes to covering fixed costs and profit.',
     slug: 'contribution-margin-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['profitability'],
     metaTitle: 'Contribution Margin Calculator - Profitability Analysis',
     metaDescription: 'Calculate contribution margin to measure revenue available for covering fixed costs and generating profit.',
   },
@@ -971,6 +1149,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate degree of operating leverage to measure how operating income changes with sales volume changes.',
     slug: 'operating-leverage-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Operating Leverage Calculator - Profit Sensitivity Analysis',
     metaDescription: 'Calculate degree of operating leverage to assess profit sensitivity to sales volume changes and business risk.',
   },
@@ -980,6 +1159,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate growth rates, compound annual growth rate (CAGR), and forecast future financial values based on growth patterns.',
     slug: 'financial-forecast-growth-rate-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['planning'],
     metaTitle: 'Financial Forecast Calculator - Growth Rate and CAGR',
     metaDescription: 'Calculate growth rates, CAGR, and forecast future financial values for business planning and analysis.',
   },
@@ -989,6 +1170,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate working capital, working capital ratio, cash conversion cycle, and assess liquidity requirements for business operations.',
     slug: 'working-capital-requirement-estimator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['cash flow'],
     metaTitle: 'Working Capital Requirement Calculator - Liquidity Planning',
     metaDescription: 'Estimate working capital requirements, cash conversion cycle, and assess liquidity needs for business operations.',
   },
@@ -998,6 +1181,8 @@ export const calculators: Calculator[] = [
     description: 'Forecast future cash flows by projecting operating, investing, and financing cash flows over specified periods.',
     slug: 'cash-flow-forecasting-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['cash flow', 'planning'],
     metaTitle: 'Cash Flow Forecasting Calculator - Future Cash Projections',
     metaDescription: 'Forecast cash flows by projecting operating, investing, and financing activities for liquidity planning and management.',
   },
@@ -1007,6 +1192,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate receivables turnover ratio and days sales outstanding to measure efficiency of credit sales collection.',
     slug: 'receivables-turnover-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
     metaTitle: 'Receivables Turnover Calculator - Collection Efficiency',
     metaDescription: 'Calculate receivables turnover ratio and days sales outstanding to measure credit collection efficiency.',
   },
@@ -1016,6 +1202,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate inventory turnover ratio and days inventory outstanding to measure efficiency of inventory management.',
     slug: 'inventory-turnover-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
     metaTitle: 'Inventory Turnover Ratio Calculator - Inventory Management Efficiency',
     metaDescription: 'Calculate inventory turnover ratio and days inventory outstanding to assess inventory management efficiency.',
   },
@@ -1025,6 +1212,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate payables turnover ratio and days payable outstanding to measure efficiency of supplier payment management.',
     slug: 'payables-turnover-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
     metaTitle: 'Payables Turnover Calculator - Payment Management Efficiency',
     metaDescription: 'Calculate payables turnover ratio and days payable outstanding to measure supplier payment efficiency.',
   },
@@ -1034,6 +1222,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate fixed asset turnover ratio to measure efficiency of using fixed assets to generate sales revenue.',
     slug: 'fixed-asset-turnover-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
     metaTitle: 'Fixed Asset Turnover Ratio Calculator - Asset Efficiency',
     metaDescription: 'Calculate fixed asset turnover ratio to measure efficiency of using fixed assets to generate sales.',
   },
@@ -1043,6 +1232,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate expected NPV, standard deviation, and risk measures for capital budgeting decisions using scenario analysis.',
     slug: 'capital-budgeting-risk-standard-deviation-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['risk', 'planning'],
     metaTitle: 'Capital Budgeting Risk Calculator - Standard Deviation Analysis',
     metaDescription: 'Calculate expected NPV and standard deviation for capital budgeting risk assessment using scenario analysis.',
   },
@@ -1052,6 +1243,7 @@ export const calculators: Calculator[] = [
     description: 'Compare project internal rate of return (IRR) with weighted average cost of capital (WACC) to evaluate project viability and value creation.',
     slug: 'project-irr-vs-wacc-comparison-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'IRR vs WACC Calculator - Project Evaluation',
     metaDescription: 'Compare project IRR with WACC to evaluate project viability, value creation potential, and acceptance criteria.',
   },
@@ -1061,6 +1253,8 @@ export const calculators: Calculator[] = [
     description: 'Compute PPP-implied exchange rate from domestic and foreign prices and compare to spot.',
     slug: 'purchasing-power-parity-calculator',
     category: 'finance',
+    subcategory: 'Currency & FX',
+    tags: ['inflation'],
     metaTitle: 'Purchasing Power Parity (PPP) Calculator',
     metaDescription: 'Calculate PPP-implied exchange rate and mispricing versus spot.',
   },
@@ -1070,6 +1264,8 @@ export const calculators: Calculator[] = [
     description: 'Check deviations from interest rate parity and infer covered arbitrage direction.',
     slug: 'covered-interest-arbitrage-calculator',
     category: 'finance',
+    subcategory: 'Currency & FX',
+    tags: ['interest rates'],
     metaTitle: 'Covered Interest Arbitrage Calculator',
     metaDescription: 'Evaluate forward deviations from parity and potential arbitrage direction.',
   },
@@ -1079,6 +1275,7 @@ export const calculators: Calculator[] = [
     description: 'Convert forward vs spot into forward points and percentage premium/discount.',
     slug: 'currency-forward-points-calculator',
     category: 'finance',
+    subcategory: 'Currency & FX',
     metaTitle: 'Currency Forward Points Calculator',
     metaDescription: 'Compute forward points and premium/discount given spot and forward rates.',
   },
@@ -1088,6 +1285,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate duration gap to assess asset-liability interest rate risk exposure.',
     slug: 'duration-gap-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Duration Gap Calculator - Interest Rate Risk',
     metaDescription: 'Calculate duration gap using asset/liability durations and sizes.',
   },
@@ -1097,6 +1296,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate convexity adjustment to translate forward bond price to futures price.',
     slug: 'convexity-adjustment-bond-futures-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Convexity Adjustment Calculator - Bond Futures',
     metaDescription: 'Calculate a convexity adjustment for bond futures pricing using a simplified model.',
   },
@@ -1106,6 +1307,7 @@ export const calculators: Calculator[] = [
     description: 'Compute the information ratio from active return and tracking error to assess benchmark-relative performance.',
     slug: 'information-ratio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Information Ratio Calculator - Risk-Adjusted Active Return',
     metaDescription: 'Calculate information ratio using active return and tracking error to evaluate manager skill.',
   },
@@ -1115,6 +1317,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate alpha relative to CAPM expected return using portfolio return, beta, market return, and risk-free rate.',
     slug: 'jensens-alpha-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['stocks'],
     metaTitle: 'Jensen’s Alpha Calculator - CAPM-Based Alpha',
     metaDescription: 'Calculate Jensen’s alpha to measure excess return over CAPM expectation.',
   },
@@ -1124,6 +1328,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate the standard deviation of active returns from portfolio and benchmark series.',
     slug: 'tracking-error-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Tracking Error Calculator - Active Risk',
     metaDescription: 'Compute tracking error (standard deviation of active returns) from two series.',
   },
@@ -1133,6 +1338,7 @@ export const calculators: Calculator[] = [
     description: 'Assess how leverage changes ROE given ROA, debt cost, and tax rate.',
     slug: 'financial-leverage-effect-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'Financial Leverage Effect Calculator - ROE Impact',
     metaDescription: 'Estimate the ROE change due to leverage using ROA, D/E, interest rate, and tax rate.',
   },
@@ -1142,6 +1348,8 @@ export const calculators: Calculator[] = [
     description: 'Compute theoretical forward FX rates from spot and interest rates based on interest rate parity.',
     slug: 'interest-rate-parity-calculator',
     category: 'finance',
+    subcategory: 'Currency & FX',
+    tags: ['interest rates'],
     metaTitle: 'Interest Rate Parity Calculator - Forward FX Pricing',
     metaDescription: 'Calculate forward currency rates using spot rate, domestic and foreign interest rates, and tenor.',
   },
@@ -1151,6 +1359,8 @@ export const calculators: Calculator[] = [
     description: 'Compare actual portfolio return to CAPM-expected return, estimate alpha, and view beta-adjusted performance.',
     slug: 'beta-adjusted-portfolio-return-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['stocks'],
     metaTitle: 'Beta-Adjusted Portfolio Return Calculator (CAPM Alpha)',
     metaDescription: 'Compute CAPM-expected return, alpha, and beta-adjusted performance for your portfolio.',
   },
@@ -1160,6 +1370,7 @@ export const calculators: Calculator[] = [
     description: 'Find the minimum-variance weights for two risky assets based on volatility and correlation, with expected portfolio return and risk.',
     slug: 'optimal-portfolio-allocation-two-asset-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Optimal Two-Asset Portfolio Allocation (Minimum Variance)',
     metaDescription: 'Calculate the minimum-variance allocation for two assets using volatility and correlation.',
   },
@@ -1169,6 +1380,7 @@ export const calculators: Calculator[] = [
     description: 'Generate efficient frontier points for two assets across weight combinations to explore risk-return trade-offs.',
     slug: 'efficient-frontier-visualizer',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Efficient Frontier Visualizer (Two Assets)',
     metaDescription: 'Visualize risk-return points across portfolio weights to understand the efficient frontier.',
   },
@@ -1178,6 +1390,7 @@ export const calculators: Calculator[] = [
     description: 'Quantify diversification benefit by comparing weighted average risk versus portfolio risk given correlation.',
     slug: 'portfolio-diversification-benefit-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Portfolio Diversification Benefit Calculator',
     metaDescription: 'Estimate risk reduction from diversification using volatility, weights, and correlation.',
   },
@@ -1187,6 +1400,7 @@ export const calculators: Calculator[] = [
     description: 'Compute a 3×3 correlation matrix from pasted return series to assess co-movement and diversification potential.',
     slug: 'asset-correlation-matrix-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Asset Correlation Matrix Calculator (3×3)',
     metaDescription: 'Paste asset return series and compute the correlation matrix for portfolio analysis.',
   },
@@ -1196,6 +1410,8 @@ export const calculators: Calculator[] = [
     description: 'Compute current dividend yield and yield on cost for income investing analysis.',
     slug: 'dividend-yield-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['stocks', 'dividends'],
     metaTitle: 'Dividend Yield Calculator - Current Yield & Yield on Cost',
     metaDescription: 'Calculate dividend yield and yield on cost using dividend per share, current price, and cost basis.'
   },
@@ -1205,6 +1421,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate intrinsic value using Gordon constant-growth dividend discount model.',
     slug: 'dividend-discount-model-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['stocks', 'dividends'],
     metaTitle: 'Dividend Discount Model (DDM) - Gordon Growth Valuation',
     metaDescription: 'Value dividend-paying stocks with constant-growth DDM using next dividend, required return, and growth.'
   },
@@ -1214,6 +1432,8 @@ export const calculators: Calculator[] = [
     description: 'Shortcut to constant-growth DDM valuation using D1, required return, and growth.',
     slug: 'gordon-growth-model-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['stocks', 'dividends'],
     metaTitle: 'Gordon Growth Model Calculator - Constant Growth DDM',
     metaDescription: 'Compute intrinsic value with the Gordon Growth formula (a special case of DDM).'
   },
@@ -1223,6 +1443,8 @@ export const calculators: Calculator[] = [
     description: 'See how share count and price change under split ratios while market value remains constant.',
     slug: 'stock-split-impact-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['stocks'],
     metaTitle: 'Stock Split Impact Calculator - Shares and Price Adjustment',
     metaDescription: 'Model the effect of stock splits and reverse splits on share count, price, and market value.'
   },
@@ -1232,6 +1454,8 @@ export const calculators: Calculator[] = [
     description: 'Compute weighted average cost basis across multiple purchase lots including fees.',
     slug: 'stock-average-cost-multiple-buys-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['stocks'],
     metaTitle: 'Stock Average Cost Calculator - Multiple Buys & Fees',
     metaDescription: 'Calculate average cost per share across multiple buys with commissions and fees included.'
   },
@@ -1241,6 +1465,8 @@ export const calculators: Calculator[] = [
     description: 'Find the price needed to reach your desired return over a chosen holding period.',
     slug: 'target-price-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['stocks'],
     metaTitle: 'Target Price Calculator - Goal-Based Returns',
     metaDescription: 'Compute simple and annualized target prices to reach your return objective.'
   },
@@ -1250,6 +1476,8 @@ export const calculators: Calculator[] = [
     description: 'Determine the sale price per share to break even after commissions and taxes on gains.',
     slug: 'break-even-stock-sale-price-calculator',
     category: 'finance',
+    subcategory: 'Trading',
+    tags: ['stocks'],
     metaTitle: 'Break-even Stock Sale Price Calculator',
     metaDescription: 'Calculate break-even sale price accounting for fees and taxes on capital gains.'
   },
@@ -1259,6 +1487,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate gross gain/loss, tax owed on gains, and net proceeds from a sale.',
     slug: 'capital-gain-loss-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
     metaTitle: 'Capital Gain/Loss & Net Proceeds Calculator',
     metaDescription: 'Compute gain/loss, return %, tax owed on gains, and net proceeds after fees.'
   },
@@ -1268,6 +1497,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate annualized growth between beginning and ending values over time.',
     slug: 'cagr-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
     metaTitle: 'CAGR Calculator - Annualized Return',
     metaDescription: 'Compute compound annual growth rate for investments or portfolios.'
   },
@@ -1277,6 +1507,7 @@ export const calculators: Calculator[] = [
     description: 'Compute total holding period return including income.',
     slug: 'holding-period-return-hpr-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
     metaTitle: 'Holding Period Return (HPR) Calculator',
     metaDescription: 'Calculate total return including price change and income over a holding period.'
   },
@@ -1286,6 +1517,7 @@ export const calculators: Calculator[] = [
     description: 'Combine multiple asset returns by portfolio weights.',
     slug: 'weighted-average-return-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
     metaTitle: 'Weighted Average Return Calculator',
     metaDescription: 'Compute portfolio weighted return from weights and component returns.'
   },
@@ -1295,6 +1527,8 @@ export const calculators: Calculator[] = [
     description: 'Project the future value of your Systematic Investment Plan (SIP) or Dollar-Cost Averaging (DCA) strategy. See how regular, disciplined investing can help you reach your financial goals.',
     slug: 'sip-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['savings'],
     metaTitle: 'SIP/DCA Return Calculator - Investment Growth Estimator',
     metaDescription: 'Calculate potential returns from SIPs or DCA investments and plan your long-term financial growth.',
   },
@@ -1304,6 +1538,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate your monthly payment (EMI) for any loan, including mortgages, auto loans, or personal loans. Understand your repayment schedule with a detailed amortization graph.',
     slug: 'loan-emi-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Loan & EMI Calculator - Easy Monthly Payment Planner',
     metaDescription: 'Determine your monthly EMI for loans with our Loan/EMI Calculator and plan your finances effectively.',
   },
@@ -1313,6 +1549,8 @@ export const calculators: Calculator[] = [
     description: 'Plan for your future by estimating your retirement corpus based on current savings, contributions, and expected returns. Find out if you are on track to meet your retirement goals.',
     slug: 'retirement-savings-calculator',
     category: 'finance',
+    subcategory: 'Retirement',
+    tags: ['savings'],
     metaTitle: 'Retirement Savings Calculator - Future Planning',
     metaDescription: 'Estimate how much you need to save for retirement to achieve financial security in the future.',
   },
@@ -1322,6 +1560,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the future value of an investment using the power of compound interest. Visualize how your savings can grow over time with different compounding frequencies.',
     slug: 'compound-interest-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['interest rates', 'savings'],
     metaTitle: 'Compound Interest Calculator - Investment Growth Tool',
     metaDescription: 'Calculate how your investments grow over time with compound interest and plan your financial future.',
   },
@@ -1331,6 +1571,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate your 401(k) growth by retirement, including your contributions, employer match, and investment returns. Visualize your path to a secure retirement.',
     slug: '401k-contribution-calculator',
     category: 'finance',
+    subcategory: 'Retirement',
+    tags: ['tax'],
     metaTitle: '401(k) Contribution Calculator - Retirement Planner',
     metaDescription: 'Plan your 401(k) contributions and estimate your retirement savings growth with employer matching.',
   },
@@ -1340,6 +1582,7 @@ export const calculators: Calculator[] = [
     description: 'Get a clear picture of your financial health by calculating your net worth. Track your assets and liabilities to understand your overall wealth and financial progress.',
     slug: 'net-worth-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
     metaTitle: 'Net Worth Calculator - Financial Health Tracker',
     metaDescription: 'Calculate your net worth by tracking assets and liabilities to assess your financial health.',
   },
@@ -1349,6 +1592,8 @@ export const calculators: Calculator[] = [
     description: 'Find out how long it will take to pay off your credit card balance based on your monthly payment. See the total interest you\'ll pay and get a plan to become debt-free.',
     slug: 'credit-card-payoff-calculator',
     category: 'finance',
+    subcategory: 'Personal Finance',
+    tags: ['debt'],
     metaTitle: 'Credit Card Payoff Calculator - Debt Management Tool',
     metaDescription: 'Calculate how long it will take to pay off your credit card debt and plan your debt-free strategy.',
   },
@@ -1358,6 +1603,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate your monthly mortgage payment. See how principal, interest, and loan term affect your payment and view a detailed amortization schedule.',
     slug: 'mortgage-payment-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Mortgage Payment Calculator - Home Loan Planner',
     metaDescription: 'Calculate your monthly mortgage payment and plan your home loan with detailed amortization schedule.',
   },
@@ -1367,6 +1614,8 @@ export const calculators: Calculator[] = [
     description: 'Understand your student loan repayment options. Calculate your monthly payment and the total interest you\'ll pay over the life of the loan.',
     slug: 'student-loan-repayment-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Student Loan Repayment Calculator - Debt Planner',
     metaDescription: 'Plan your student loan repayment strategy and calculate total interest costs.',
   },
@@ -1376,6 +1625,8 @@ export const calculators: Calculator[] = [
     description: 'See how the value of your money may decrease over time due to inflation. Understand the future purchasing power of your savings.',
     slug: 'inflation-calculator',
     category: 'finance',
+    subcategory: 'Time Value of Money',
+    tags: ['inflation'],
     metaTitle: 'Inflation Calculator - Future Value Estimator',
     metaDescription: 'Calculate how inflation affects the purchasing power of your money over time.',
   },
@@ -1385,6 +1636,8 @@ export const calculators: Calculator[] = [
     description: 'Determine your maximum allowed contribution for the current tax year based on your income, filing status, and age.',
     slug: 'roth-ira-contribution-limit-calculator',
     category: 'finance',
+    subcategory: 'Retirement',
+    tags: ['tax'],
     metaTitle: 'Roth IRA Contribution Calculator - Retirement Planner',
     metaDescription: 'Calculate your maximum Roth IRA contribution limits based on income and filing status.',
   },
@@ -1394,6 +1647,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate the current worth of a future sum of money. This is a fundamental concept in finance that allows you to evaluate whether an investment is worth making today by understanding what a future cash flow is worth in today\'s dollars.',
     slug: 'present-value-calculator',
     category: 'finance',
+    subcategory: 'Time Value of Money',
     metaTitle: 'Present Value Calculator - Time Value of Money Tool',
     metaDescription: 'Calculate the present value of future cash flows to make informed investment decisions.',
   },
@@ -1403,6 +1657,7 @@ export const calculators: Calculator[] = [
     description: 'Project the future worth of a current investment given a specific rate of return. This tool helps you visualize how your money can grow over time, demonstrating the power of compounding interest on your initial savings.',
     slug: 'future-value-calculator',
     category: 'finance',
+    subcategory: 'Time Value of Money',
     metaTitle: 'Future Value Calculator - Investment Projection Tool',
     metaDescription: 'Project the future value of your investments with compound interest calculations.',
   },
@@ -1412,6 +1667,7 @@ export const calculators: Calculator[] = [
     description: 'Determine the fixed periodic payment required for a loan or to reach a specified future savings goal. This is useful for understanding mortgage payments, car loans, or planning contributions for a retirement fund.',
     slug: 'annuity-payment-calculator',
     category: 'finance',
+    subcategory: 'Time Value of Money',
     metaTitle: 'Annuity Payment Calculator - Income Planner',
     metaDescription: 'Calculate annuity payments for loans and retirement planning with fixed periodic payments.',
   },
@@ -1421,6 +1677,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate the present value of an infinite series of equal payments. While a theoretical concept, it is crucial in finance for valuing assets with indefinite cash flows, such as preferred stocks or certain types of real estate.',
     slug: 'perpetuity-calculator',
     category: 'finance',
+    subcategory: 'Time Value of Money',
     metaTitle: 'Perpetuity Calculator - Infinite Cash Flow Estimator',
     metaDescription: 'Calculate the present value of infinite cash flows for preferred stocks and real estate valuation.',
   },
@@ -1430,15 +1687,27 @@ export const calculators: Calculator[] = [
     description: 'Value a stream of cash flows that is expected to grow at a constant rate, either for a finite number of periods (annuity) or indefinitely (perpetuity). This is useful for valuing dividend-paying stocks or rental income that is projected to increase over time.',
     slug: 'growing-annuity-calculator',
     category: 'finance',
+    subcategory: 'Time Value of Money',
     metaTitle: 'Growing Annuity Perpetuity Calculator - Cash Flow Valuation Tool',
     metaDescription: 'Calculate the present value of growing annuity or perpetuity cash flows for dividend stocks and rental income valuation.',
   },
+  {
+    id: 10124,
+    name: 'Growing Annuity Present & Future Value Calculator',
+    description: 'Value growing annuities and perpetuities with annual, semi-annual, quarterly or monthly payments, or solve from a present or future value.',
+    slug: 'growing-annuity-perpetuity-calculator',
+    category: 'finance',
+    subcategory: 'Time Value of Money',
+    metaTitle: 'Growing Annuity Present & Future Value Calculator',
+    metaDescription: 'Find the present and future value of growing annuity and perpetuity cash flows at any payment frequency.',
+  },
   {
     id: 165,
     name: 'Net Present Value (NPV) Calculator',
     description: 'Determine the difference between the present value of cash inflows and the present value of cash outflows over a period of time. A positive NPV indicates a profitable investment, making it a critical tool for capital budgeting.',
     slug: 'npv-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'NPV Calculator - Investment Evaluation Tool',
     metaDescription: 'Evaluate investment profitability with Net Present Value calculations for capital budgeting.',
   },
@@ -1448,6 +1717,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate the required rate of return for an investment using the Capital Asset Pricing Model (CAPM). This helps in assessing the risk and potential return of an asset compared to the overall market.',
     slug: 'discount-rate-calculator',
     category: 'finance',
+    subcategory: 'Time Value of Money',
     metaTitle: 'Discount Rate Calculator - Investment Analysis Tool',
     metaDescription: 'Calculate the required rate of return for investments using CAPM and risk assessment.',
   },
@@ -1457,6 +1727,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate the intrinsic value of an investment or a company based on its expected future cash flows. DCF analysis helps you determine if an asset is undervalued or overvalued in the current market.',
     slug: 'dcf-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'DCF Calculator - Investment Valuation Tool',
     metaDescription: 'Estimate intrinsic value of investments using discounted cash flow analysis.',
   },
@@ -1466,6 +1737,8 @@ export const calculators: Calculator[] = [
     description: 'Determine the length of time required for an investment to generate cash flows sufficient to recover its initial cost. This is a simple way to assess the risk and liquidity of a project.',
     slug: 'payback-period-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['cash flow'],
     metaTitle: 'Payback Period Calculator - Investment Recovery Tool',
     metaDescription: 'Calculate how long it takes to recover your initial investment with cash flow analysis.',
   },
@@ -1475,6 +1748,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the P/E ratio to gauge a company\'s valuation, indicating how much investors are willing to pay per dollar of earnings. A key metric for value investing.',
     slug: 'price-to-earnings-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['stocks'],
     metaTitle: 'P/E Ratio Calculator - Stock Valuation Tool',
     metaDescription: 'Calculate Price-to-Earnings ratio to evaluate stock valuation and investment potential.',
   },
@@ -1484,6 +1759,8 @@ export const calculators: Calculator[] = [
     description: 'Determine a company\'s profitability on a per-share basis. EPS is a fundamental metric used in calculating the P/E ratio and assessing a company\'s financial health.',
     slug: 'earnings-per-share-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['stocks'],
     metaTitle: 'EPS Calculator - Stock Performance Indicator',
     metaDescription: 'Calculate Earnings per Share to assess company profitability and stock performance.',
   },
@@ -1493,6 +1770,8 @@ export const calculators: Calculator[] = [
     description: 'Measure how effectively a company is using its shareholders\' equity to generate profits. A high ROE can indicate strong management efficiency and profitability.',
     slug: 'return-on-equity-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['stocks', 'profitability'],
     metaTitle: 'ROE Calculator - Measure Company Profitability',
     metaDescription: 'Calculate Return on Equity to measure how efficiently a company uses shareholder equity.',
   },
@@ -1502,6 +1781,8 @@ export const calculators: Calculator[] = [
     description: 'Evaluate how efficiently a company is using its total assets to generate earnings. ROA provides insight into a company\'s operational performance and asset management.',
     slug: 'return-on-assets-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['profitability'],
     metaTitle: 'ROA Calculator - Asset Efficiency Measure',
     metaDescription: 'Calculate Return on Assets to evaluate how efficiently a company uses its assets.',
   },
@@ -1511,6 +1792,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the percentage return on an investment relative to its cost. ROI is a universal metric for evaluating the profitability of any investment.',
     slug: 'return-on-investment-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['profitability'],
     metaTitle: 'ROI Calculator - Investment Performance Tracker',
     metaDescription: 'Calculate Return on Investment to measure the profitability of your investments.',
   },
@@ -1520,6 +1803,8 @@ export const calculators: Calculator[] = [
     description: 'Measures a company\'s financial leverage by comparing its total liabilities to its shareholders\' equity. A higher ratio indicates more debt financing, which can mean higher risk but also potentially higher returns.',
     slug: 'debt-to-equity-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['debt'],
     metaTitle: 'Debt-to-Equity Ratio Calculator - Risk Analysis',
     metaDescription: 'Assess financial leverage and risk using the debt-to-equity ratio calculator.',
   },
@@ -1529,6 +1814,8 @@ export const calculators: Calculator[] = [
     description: 'Shows how easily a company can pay the interest on its outstanding debt. A higher ratio indicates a better ability to meet its interest obligations, signaling lower risk to creditors and investors.',
     slug: 'interest-coverage-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['debt'],
     metaTitle: 'Interest Coverage Calculator - Debt Payment Ability',
     metaDescription: 'Measure a company\'s ability to pay interest on its debt with the interest coverage ratio calculator.',
   },
@@ -1538,6 +1825,7 @@ export const calculators: Calculator[] = [
     description: 'Evaluates a company\'s short-term liquidity by comparing all of its current assets to its current liabilities. It indicates a company\'s ability to pay back its short-term obligations.',
     slug: 'current-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
     metaTitle: 'Current Ratio Calculator - Liquidity Measure',
     metaDescription: 'Evaluate a company\'s short-term liquidity with the current ratio calculator.',
   },
@@ -1547,6 +1835,7 @@ export const calculators: Calculator[] = [
     description: 'Measures a company\'s ability to meet its short-term obligations with its most liquid assets, excluding less liquid inventory. It provides a more conservative measure of liquidity than the current ratio.',
     slug: 'quick-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
     metaTitle: 'Quick Ratio Calculator - Liquidity Test',
     metaDescription: 'Analyze immediate liquidity using the quick ratio calculator for financial planning.',
   },
@@ -1556,6 +1845,8 @@ export const calculators: Calculator[] = [
     description: 'Indicates the liquidity available to a business to meet its short-term obligations. Positive working capital means you have enough assets to cover liabilities, while negative working capital can be a sign of financial trouble.',
     slug: 'working-capital-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['cash flow'],
     metaTitle: 'Working Capital Calculator - Business Health Metric',
     metaDescription: 'Calculate working capital to assess your business liquidity and short-term financial health.',
   },
@@ -1565,6 +1856,8 @@ export const calculators: Calculator[] = [
     description: 'Measures the time it takes for a company to convert its investments in inventory and other resources into cash from sales, indicating working capital efficiency.',
     slug: 'cash-conversion-cycle-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['cash flow'],
     metaTitle: 'Cash Conversion Cycle Calculator - Efficiency Tool',
     metaDescription: 'Measure how quickly your business converts inventory to cash with the cash conversion cycle calculator.',
   },
@@ -1574,6 +1867,8 @@ export const calculators: Calculator[] = [
     description: 'Calculates the cash a company generates after accounting for capital expenditures, showing the cash available for distribution to investors or to reinvest.',
     slug: 'free-cash-flow-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['cash flow'],
     metaTitle: 'Free Cash Flow Calculator - Investment Analysis Tool',
     metaDescription: 'Calculate free cash flow to evaluate a company\'s ability to generate cash for investors.',
   },
@@ -1583,6 +1878,8 @@ export const calculators: Calculator[] = [
     description: 'Determines the profitability of a company\'s core business operations before deducting interest and taxes, expressed as a percentage of revenue.',
     slug: 'operating-margin-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['profitability'],
     metaTitle: 'Operating Margin Calculator - Profitability Measure',
     metaDescription: 'Calculate operating margin to measure core business profitability and efficiency.',
   },
@@ -1592,6 +1889,8 @@ export const calculators: Calculator[] = [
     description: 'Calculates the percentage of revenue that exceeds the cost of goods sold (COGS), providing insight into a company\'s production efficiency.',
     slug: 'gross-margin-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['profitability'],
     metaTitle: 'Gross Margin Calculator - Profitability Analysis',
     metaDescription: 'Calculate gross margin to assess production efficiency and pricing strategy.',
   },
@@ -1601,6 +1900,8 @@ export const calculators: Calculator[] = [
     description: 'Measures how much net income is generated as a percentage of revenue. It is the ratio of net profits to revenues for a company or business segment.',
     slug: 'net-profit-margin-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['profitability'],
     metaTitle: 'Net Profit Margin Calculator - Performance Metric',
     metaDescription: 'Calculate net profit margin to measure overall company profitability and performance.',
   },
@@ -1610,6 +1911,8 @@ export const calculators: Calculator[] = [
     description: 'Measure a company\'s earnings before interest, taxes, depreciation, and amortization (EBITDA) or before only interest and taxes (EBIT).',
     slug: 'ebitda-ebit-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['profitability'],
     metaTitle: 'EBITDA & EBIT Calculator - Profitability Tool',
     metaDescription: 'Calculate EBITDA and EBIT to measure core business profitability before interest and taxes.',
   },
@@ -1619,6 +1922,7 @@ export const calculators: Calculator[] = [
     description: 'Represents the total value of a company, including debt and cash, often used in valuation.',
     slug: 'enterprise-value-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'Enterprise Value Calculator - Company Valuation',
     metaDescription: 'Calculate enterprise value to assess the total value of a company including debt and cash.',
   },
@@ -1628,6 +1932,8 @@ export const calculators: Calculator[] = [
     description: 'Key valuation multiples comparing Enterprise Value (EV) to EBIT or EBITDA.',
     slug: 'ev-ebit-ebitda-multiple-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['profitability'],
     metaTitle: 'EV/EBIT & EV/EBITDA Multiple Calculator - Valuation Tool',
     metaDescription: 'Calculate EV/EBIT and EV/EBITDA multiples for company valuation and investment analysis.',
   },
@@ -1637,6 +1943,8 @@ export const calculators: Calculator[] = [
     description: 'Evaluates risk-adjusted return of an investment.',
     slug: 'sharpe-ratio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Sharpe Ratio Calculator - Risk-Adjusted Return Tool',
     metaDescription: 'Calculate the Sharpe ratio to evaluate risk-adjusted returns of your investments.',
   },
@@ -1646,6 +1954,8 @@ export const calculators: Calculator[] = [
     description: 'Similar to Sharpe ratio but penalizes only downside risk.',
     slug: 'sortino-ratio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Sortino Ratio Calculator - Downside Risk Measure',
     metaDescription: 'Calculate the Sortino ratio to measure downside risk-adjusted returns of investments.',
   },
@@ -1655,6 +1965,8 @@ export const calculators: Calculator[] = [
     description: 'Measures risk-adjusted return based on systematic risk (beta).',
     slug: 'treynor-ratio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Treynor Ratio Calculator - Investment Performance',
     metaDescription: 'Calculate the Treynor ratio to measure systematic risk-adjusted returns of investments.',
   },
@@ -1664,6 +1976,8 @@ export const calculators: Calculator[] = [
     description: 'Indicates the excess return of an investment relative to its expected performance based on market risk.',
     slug: 'alpha-investment-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['stocks'],
     metaTitle: 'Alpha Calculator - Portfolio Performance Measure',
     metaDescription: 'Calculate investment alpha to measure excess returns relative to market risk.',
   },
@@ -1673,6 +1987,8 @@ export const calculators: Calculator[] = [
     description: 'Measures the dispersion of returns around the mean.',
     slug: 'volatility-standard-deviation-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Volatility Calculator - Investment Risk Measure',
     metaDescription: 'Calculate volatility and standard deviation to measure investment risk and return dispersion.',
   },
@@ -1682,6 +1998,7 @@ export const calculators: Calculator[] = [
     description: 'Measures the strength and direction of relationship between two assets\' returns.',
     slug: 'correlation-coefficient-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Correlation Coefficient Calculator - Portfolio Analysis',
     metaDescription: 'Calculate correlation coefficients to analyze relationships between asset returns in your portfolio.',
   },
@@ -1691,6 +2008,8 @@ export const calculators: Calculator[] = [
     description: 'Measures an asset\'s volatility relative to the market (systematic risk).',
     slug: 'beta-asset-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['stocks'],
     metaTitle: 'Beta Calculator - Market Risk Measure',
     metaDescription: 'Calculate beta to measure an asset\'s systematic risk relative to the market.',
   },
@@ -1700,6 +2019,8 @@ export const calculators: Calculator[] = [
     description: 'Measures the overall risk (variance) of a multi-asset portfolio.',
     slug: 'portfolio-variance-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Portfolio Variance Calculator - Risk Assessment Tool',
     metaDescription: 'Calculate portfolio variance to assess the overall risk of your multi-asset investment portfolio.',
   },
@@ -1709,6 +2030,7 @@ export const calculators: Calculator[] = [
     description: 'Estimates the weighted average expected return of a portfolio.',
     slug: 'portfolio-expected-return-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Portfolio Expected Return Calculator - Investment Planner',
     metaDescription: 'Calculate the expected return of your portfolio based on weighted asset allocations.',
   },
@@ -1718,6 +2040,8 @@ export const calculators: Calculator[] = [
     description: 'Calculates the expected return of an asset using market risk.',
     slug: 'capm-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['stocks'],
     metaTitle: 'CAPM Calculator - Investment Risk & Return Tool',
     metaDescription: 'Calculate expected returns using the Capital Asset Pricing Model for investment analysis.',
   },
@@ -1727,6 +2051,7 @@ export const calculators: Calculator[] = [
     description: 'Computes a firm\'s average cost of capital from equity and debt.',
     slug: 'wacc-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
     metaTitle: 'WACC Calculator - Company Cost of Capital',
     metaDescription: 'Calculate Weighted Average Cost of Capital to assess a company\'s cost of financing.',
   },
@@ -1736,6 +2061,8 @@ export const calculators: Calculator[] = [
     description: 'Examines how changing debt levels affect a company\'s return on equity or earnings per share.',
     slug: 'leverage-debt-ratio-calculator',
     category: 'finance',
+    subcategory: 'Financial Ratios',
+    tags: ['debt'],
     metaTitle: 'Leverage Impact Calculator - Financial Risk Tool',
     metaDescription: 'Analyze how debt levels impact company returns and financial risk with leverage calculations.',
   },
@@ -1745,6 +2072,7 @@ export const calculators: Calculator[] = [
     description: 'Determines the theoretical value of a European call or put option.',
     slug: 'black-scholes-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Black-Scholes Option Pricing Calculator - Finance Tool',
     metaDescription: 'Calculate fair option prices using the Black-Scholes model for financial decision-making.',
   },
@@ -1754,6 +2082,7 @@ export const calculators: Calculator[] = [
     description: 'Shows the profit or loss of a call or put at different underlying prices at expiration.',
     slug: 'option-payoff-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Put & Call Option Payoff Calculator - Options Profit Planner',
     metaDescription: 'Calculate potential profits and losses for put and call options with our payoff calculator.',
   },
@@ -1763,6 +2092,7 @@ export const calculators: Calculator[] = [
     description: 'Prices options using a multi-period binomial tree.',
     slug: 'binomial-option-pricing-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Binomial Option Pricing Calculator - Options Valuation Tool',
     metaDescription: 'Value American or European options using the Binomial Option Pricing Model for accurate valuation.',
   },
@@ -1772,6 +2102,7 @@ export const calculators: Calculator[] = [
     description: 'Uses random sampling to estimate the probability distribution of future portfolio values.',
     slug: 'monte-carlo-portfolio-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
     metaTitle: 'Monte Carlo Portfolio Calculator - Risk Simulation Tool',
     metaDescription: 'Simulate portfolio value distributions using Monte Carlo methods for risk assessment.',
   },
@@ -1781,6 +2112,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate the maximum potential loss a portfolio could experience over a specific time period.',
     slug: 'value-at-risk-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Value at Risk (VaR) Calculator - Portfolio Risk Tool',
     metaDescription: 'Calculate potential portfolio losses at a given confidence level to manage investment risk.',
   },
@@ -1790,6 +2123,8 @@ export const calculators: Calculator[] = [
     description: 'Measure the average loss that can be expected if the VaR threshold is breached.',
     slug: 'conditional-value-at-risk-calculator',
     category: 'finance',
+    subcategory: 'Portfolio & Risk',
+    tags: ['risk'],
     metaTitle: 'Conditional VaR Calculator - Expected Shortfall Tool',
     metaDescription: 'Calculate Conditional Value at Risk to measure expected losses beyond VaR threshold.',
   },
@@ -1799,6 +2134,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the total annualized rate of return an investor will earn if they hold a bond to maturity.',
     slug: 'bond-yield-to-maturity-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Bond Yield to Maturity Calculator - Fixed Income Tool',
     metaDescription: 'Calculate bond yield to maturity to assess total return on fixed income investments.',
   },
@@ -1808,6 +2145,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the fair market price of a bond based on its characteristics and current market yield.',
     slug: 'bond-price-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Bond Price Calculator - Fixed Income Valuation Tool',
     metaDescription: 'Calculate fair market price of bonds based on yield and characteristics for investment analysis.',
   },
@@ -1817,6 +2156,8 @@ export const calculators: Calculator[] = [
     description: 'Measure a bond\'s price sensitivity to changes in interest rates.',
     slug: 'bond-duration-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Bond Duration Calculator - Interest Rate Risk Tool',
     metaDescription: 'Calculate bond duration to measure price sensitivity to interest rate changes.',
   },
@@ -1826,6 +2167,8 @@ export const calculators: Calculator[] = [
     description: 'Measure the curvature in the relationship between a bond\'s price and its yield for a more accurate risk estimate.',
     slug: 'bond-convexity-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Bond Convexity Calculator - Interest Rate Risk Measure',
     metaDescription: 'Calculate bond convexity to measure price sensitivity to interest rate changes beyond duration for accurate risk assessment.',
   },
@@ -1835,6 +2178,8 @@ export const calculators: Calculator[] = [
     description: 'Measure the difference in yield between two bonds, often to quantify credit risk.',
     slug: 'bond-yield-spread-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Bond Yield Spread Calculator - Credit Risk Analysis',
     metaDescription: 'Calculate bond yield spreads to quantify credit risk and compare bond performance for investment analysis.',
   },
@@ -1844,6 +2189,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the yield of a callable bond assuming it is redeemed early.',
     slug: 'yield-to-call-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Yield to Call Calculator - Callable Bond Valuation',
     metaDescription: 'Calculate yield to call and yield to worst for callable bonds to assess risk and potential returns.',
   },
@@ -1853,6 +2200,8 @@ export const calculators: Calculator[] = [
     description: 'Determine the fair price of a bond that does not pay periodic interest.',
     slug: 'zero-coupon-bond-valuation-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['interest rates'],
     metaTitle: 'Zero-Coupon Bond Valuation Calculator - Bond Pricing Tool',
     metaDescription: 'Calculate the fair price of zero-coupon bonds with no periodic interest payments for investment valuation.',
   },
@@ -1862,6 +2211,8 @@ export const calculators: Calculator[] = [
     description: 'Quickly estimate an investment\'s return after accounting for inflation.',
     slug: 'simple-inflation-adjusted-return-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['inflation'],
     metaTitle: 'Inflation-Adjusted Return Calculator - Real Return Estimator',
     metaDescription: 'Calculate inflation-adjusted returns to assess real investment performance and purchasing power protection.',
   },
@@ -1871,6 +2222,8 @@ export const calculators: Calculator[] = [
     description: 'Precisely calculate an investment\'s return after accounting for inflation using the Fisher Equation.',
     slug: 'real-rate-of-return-calculator',
     category: 'finance',
+    subcategory: 'Investing & Returns',
+    tags: ['inflation'],
     metaTitle: 'Real Rate of Return Calculator - Fisher Equation Tool',
     metaDescription: 'Calculate real rate of return using the Fisher equation to measure actual investment performance after inflation.',
   },
@@ -1880,6 +2233,8 @@ export const calculators: Calculator[] = [
     description: 'Determine the cushion between a company\'s current sales and its break-even point.',
     slug: 'margin-of-safety-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['profitability'],
     metaTitle: 'Margin of Safety Calculator - Business Risk Assessment',
     metaDescription: 'Calculate margin of safety to measure the cushion between current sales and break-even point for risk analysis.',
   },
@@ -1889,6 +2244,7 @@ export const calculators: Calculator[] = [
     description: 'Establish a rate to apply indirect manufacturing costs to products.',
     slug: 'overhead-rate-allocation-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Overhead Rate Allocation Calculator - Cost Management Tool',
     metaDescription: 'Calculate overhead rate allocation to apply indirect manufacturing costs to products for accurate pricing.',
   },
@@ -1898,6 +2254,7 @@ export const calculators: Calculator[] = [
     description: 'Allocate overhead costs more accurately based on specific activities.',
     slug: 'activity-based-costing-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Activity-Based Costing Calculator - ABC Costing Tool',
     metaDescription: 'Calculate activity-based costs to allocate overhead more accurately based on specific business activities.',
   },
@@ -1907,6 +2264,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate asset depreciation evenly over its useful life.',
     slug: 'depreciation-straight-line-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Straight-Line Depreciation Calculator - Asset Accounting Tool',
     metaDescription: 'Calculate straight-line depreciation for assets to track accounting and tax obligations.',
   },
@@ -1916,6 +2274,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate accelerated depreciation for an asset.',
     slug: 'depreciation-double-declining-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Double Declining Balance Depreciation Calculator - Accelerated Depreciation',
     metaDescription: 'Calculate double declining balance depreciation for accelerated asset depreciation and tax planning.',
   },
@@ -1925,6 +2284,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate accelerated depreciation using the Sum-of-the-Years-Digits method.',
     slug: 'depreciation-sum-of-years-digits-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
     metaTitle: 'Sum-of-Years Digits Depreciation Calculator - Accelerated Depreciation Method',
     metaDescription: 'Calculate sum-of-years digits depreciation for accelerated asset depreciation using SYD method.',
   },
@@ -1934,6 +2294,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate tax-deductible depreciation for US tax purposes.',
     slug: 'macrs-depreciation-calculator',
     category: 'finance',
+    subcategory: 'Business & Accounting',
+    tags: ['tax'],
     metaTitle: 'MACRS Depreciation Calculator - US Tax Depreciation',
     metaDescription: 'Calculate MACRS depreciation for US tax purposes and tax-deductible asset depreciation planning.',
   },
@@ -1943,6 +2305,8 @@ export const calculators: Calculator[] = [
     description: 'Create a detailed payment schedule for any loan.',
     slug: 'amortization-schedule-generator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Amortization Schedule Generator - Loan Planner',
     metaDescription: 'Generate detailed amortization schedules for loans including principal and interest breakdowns.',
   },
@@ -1952,6 +2316,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the time required to recover the initial cost of a project.',
     slug: 'capex-payback-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['cash flow'],
     metaTitle: 'CapEx Payback Calculator - Investment Recovery Tool',
     metaDescription: 'Calculate the payback period for capital expenditure projects to assess profitability.',
   },
@@ -1961,6 +2327,8 @@ export const calculators: Calculator[] = [
     description: 'Analyze how changing one variable impacts a financial model\'s outcome.',
     slug: 'sensitivity-analysis-what-if-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['planning'],
     metaTitle: 'Sensitivity Analysis Calculator - What-If Analysis Tool',
     metaDescription: 'Analyze how changing variables impacts financial model outcomes with sensitivity analysis.',
   },
@@ -1970,6 +2338,8 @@ export const calculators: Calculator[] = [
     description: 'Evaluate a project\'s financial outcome under different scenarios (pessimistic, optimistic, and base case).',
     slug: 'scenario-analysis-calculator',
     category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    tags: ['planning'],
     metaTitle: 'Scenario Analysis Calculator - Financial Planning Tool',
     metaDescription: 'Evaluate financial outcomes under different scenarios for better decision making.',
   },
@@ -1979,6 +2349,7 @@ export const calculators: Calculator[] = [
     description: 'Convert a monetary amount from one currency to another based on a given exchange rate.',
     slug: 'currency-exchange-calculator',
     category: 'finance',
+    subcategory: 'Currency & FX',
     metaTitle: 'Currency Exchange Calculator - Foreign Exchange Tool',
     metaDescription: 'Convert currencies at current exchange rates for international transactions and investments.',
   },
@@ -1988,6 +2359,8 @@ export const calculators: Calculator[] = [
     description: 'Quantify the potential gain or loss on a foreign currency holding due to exchange rate fluctuations.',
     slug: 'currency-volatility-calculator',
     category: 'finance',
+    subcategory: 'Currency & FX',
+    tags: ['risk'],
     metaTitle: 'Currency Volatility Calculator - FX Risk Assessment',
     metaDescription: 'Calculate potential gains or losses from currency volatility in foreign investments.',
   },
@@ -1997,6 +2370,8 @@ export const calculators: Calculator[] = [
     description: 'Compare the total interest cost of a loan under a fixed rate versus a projected floating rate.',
     slug: 'fixed-vs-floating-rate-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['interest rates'],
     metaTitle: 'Fixed vs Floating Rate Calculator - Loan Comparison Tool',
     metaDescription: 'Compare total interest costs between fixed and floating rate loans for better decision making.',
   },
@@ -2006,6 +2381,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the difference between a swap rate and a benchmark government bond yield.',
     slug: 'swap-spread-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['interest rates'],
     metaTitle: 'Swap Spread Calculator - Interest Rate Analysis Tool',
     metaDescription: 'Calculate swap spreads to analyze interest rate differentials and market conditions.',
   },
@@ -2015,6 +2392,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the settlement payment for a Forward Rate Agreement.',
     slug: 'forward-rate-agreement-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['interest rates'],
     metaTitle: 'Forward Rate Agreement Calculator - Interest Rate Hedging Tool',
     metaDescription: 'Calculate FRA settlement payments for interest rate hedging and risk management.',
   },
@@ -2024,15 +2403,39 @@ export const calculators: Calculator[] = [
     description: 'Derive the market\'s inflation expectation from bond yields.',
     slug: 'breakeven-inflation-rate-calculator',
     category: 'finance',
+    subcategory: 'Bonds & Fixed Income',
+    tags: ['inflation', 'interest rates'],
     metaTitle: 'Breakeven Inflation Rate Calculator - Market Expectations Tool',
     metaDescription: 'Calculate market inflation expectations from bond yield differentials for economic analysis.',
   },
+  {
+    id: 10121,
+    name: 'Economic Break-even Quantity Calculator',
+    description: 'Find breakeven units and revenue from price, variable cost, and fixed costs.',
+    slug: 'economic-breakeven-quantity-calculator',
+    category: 'finance',
+    subcategory: 'Business & Accounting',
+    metaTitle: 'Economic Break-even Quantity Calculator',
+    metaDescription: 'Calculate breakeven units and breakeven revenue from unit price, variable cost per unit, and fixed costs.',
+  },
+  {
+    id: 10122,
+    name: 'Financial Break-even (NPV = 0) Calculator',
+    description: 'Compute the required annual net cash flow and breakeven units for a project NPV of zero.',
+    slug: 'financial-breakeven-npv-zero-calculator',
+    category: 'finance',
+    subcategory: 'Corporate Finance & Valuation',
+    metaTitle: 'Financial Break-even (NPV = 0) Calculator',
+    metaDescription: 'Find the annual cash flow and sales volume at which a project\'s NPV equals zero for capital budgeting decisions.',
+  },
   {
     id: 238,
     name: 'Credit Default Swap (CDS) Premium Calculator',
     description: 'Conceptually illustrate how a CDS premium is determined.',
     slug: 'credit-default-swap-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
+    tags: ['risk'],
     metaTitle: 'Credit Default Swap Calculator - Credit Risk Tool',
     metaDescription: 'Calculate CDS premiums to assess credit risk and default probability in financial markets.',
   },
@@ -2042,6 +2445,7 @@ export const calculators: Calculator[] = [
     description: 'Check for arbitrage opportunities using Put-Call Parity.',
     slug: 'put-call-parity-calculator',
     category: 'finance',
+    subcategory: 'Options & Derivatives',
     metaTitle: 'Put-Call Parity Calculator - Options Arbitrage Tool',
     metaDescription: 'Check for arbitrage opportunities using put-call parity relationships in options markets.',
   },
@@ -2116,6 +2520,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate the total calories you burn per day to maintain your current weight.',
     slug: 'daily-calorie-needs-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
+    tags: ['weight loss'],
     metaTitle: 'Daily Calorie Needs Calculator (TDEE)',
     metaDescription: 'Calculate your Total Daily Energy Expenditure (TDEE) to know how many calories you need to maintain, lose, or gain weight.'
   },
@@ -2125,6 +2531,7 @@ export const calculators: Calculator[] = [
     description: 'Divide your daily calories into grams of protein, carbs, and fat based on your goals.',
     slug: 'macro-ratio-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Macro Ratio Calculator - Balanced Nutrition Planner',
     metaDescription: 'Determine the ideal protein, carb, and fat ratios for your diet with our easy Macro Ratio Calculator.'
   },
@@ -2134,6 +2541,8 @@ export const calculators: Calculator[] = [
     description: 'Get a personalized daily protein recommendation based on your weight and fitness goals.',
     slug: 'protein-intake-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['protein'],
     metaTitle: 'Protein Intake Calculator - Daily Protein Needs',
     metaDescription: 'Calculate your daily protein requirement based on weight, activity level, and fitness goals.'
   },
@@ -2143,6 +2552,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate your daily carbohydrate needs to fuel your activity level and replenish glycogen stores.',
     slug: 'carbohydrate-intake-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Carb Intake Calculator - Daily Carbohydrate Needs',
     metaDescription: 'Find out how many carbs you need daily to fuel your body effectively with our Carbohydrate Intake Calculator.'
   },
@@ -2152,6 +2562,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate your recommended daily fat intake as a percentage of total calories.',
     slug: 'fat-intake-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Fat Intake Calculator - Daily Fat Requirement',
     metaDescription: 'Determine your optimal daily fat intake for a balanced diet and healthy lifestyle.'
   },
@@ -2161,6 +2572,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate specific macronutrient targets for a ketogenic diet.',
     slug: 'keto-macro-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['weight loss'],
     metaTitle: 'Keto Macro Calculator - Keto Diet Planner',
     metaDescription: 'Calculate protein, carb, and fat ratios to follow a ketogenic diet and reach your health goals.'
   },
@@ -2170,6 +2583,8 @@ export const calculators: Calculator[] = [
     description: 'Plan your daily eating and fasting windows for different IF protocols.',
     slug: 'intermittent-fasting-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['weight loss'],
     metaTitle: 'Intermittent Fasting Calculator - Best Eating Windows',
     metaDescription: 'Find your ideal fasting and eating windows with our Intermittent Fasting Calculator for effective results.'
   },
@@ -2179,6 +2594,8 @@ export const calculators: Calculator[] = [
     description: 'Measure how much a specific serving of food will raise your blood glucose levels.',
     slug: 'glycemic-load-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['diabetes'],
     metaTitle: 'Glycemic Load Calculator - Manage Blood Sugar',
     metaDescription: 'Calculate the glycemic load of your meals to manage blood sugar and maintain healthy energy levels.'
   },
@@ -2188,6 +2605,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate the total Glycemic Load (GL) of an entire meal.',
     slug: 'meal-glycemic-load-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['diabetes'],
     metaTitle: 'Meal Glycemic Load Calculator - Healthy Meal Guide',
     metaDescription: 'Measure the glycemic load of an entire meal to control blood sugar spikes and maintain a balanced diet.'
   },
@@ -2197,6 +2616,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate your daily water intake required to stay adequately hydrated.',
     slug: 'hydration-needs-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['hydration'],
     metaTitle: 'Hydration Needs Calculator - Daily Water Intake',
     metaDescription: 'Calculate how much water you should drink daily based on weight, activity level, and climate.'
   },
@@ -2206,6 +2627,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate the total volume of water required to produce different food items. Understand the hidden water usage in your diet.',
     slug: 'water-footprint-of-food-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Water Footprint Calculator - Eco-Friendly Food Guide',
     metaDescription: 'Discover how much water is used to produce your meals and make sustainable dietary choices.'
   },
@@ -2215,6 +2637,8 @@ export const calculators: Calculator[] = [
     description: 'Quickly assess whether you are underweight, healthy, overweight, or obese using this standard health indicator.',
     slug: 'bmi-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
+    tags: ['weight loss'],
     metaTitle: 'BMI Calculator - Body Mass Index Checker',
     metaDescription: 'Quickly calculate your BMI to check if your weight is in a healthy range for your height.'
   },
@@ -2224,6 +2648,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate the number of calories your body burns at rest per day. A crucial metric for creating a weight management plan.',
     slug: 'bmr-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'BMR Calculator - Basal Metabolic Rate Checker',
     metaDescription: 'Find out how many calories your body burns at rest with our BMR Calculator.'
   },
@@ -2233,6 +2658,8 @@ export const calculators: Calculator[] = [
     description: 'Determine your optimal heart rate zone for moderate and vigorous exercise to maximize the effectiveness of your workouts.',
     slug: 'target-heart-rate-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['heart'],
     metaTitle: 'Target Heart Rate Calculator - Fitness Zones',
     metaDescription: 'Determine your optimal heart rate for fat burn and cardio workouts with our Target Heart Rate Calculator.'
   },
@@ -2242,6 +2669,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate your body fat percentage using the U.S. Navy method.',
     slug: 'body-fat-percentage-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
+    tags: ['weight loss'],
     metaTitle: 'Body Fat Percentage Calculator - Track Fitness',
     metaDescription: 'Calculate your body fat percentage to monitor fitness progress and body composition changes.'
   },
@@ -2251,6 +2680,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate the weight of your body minus all fat mass.',
     slug: 'lean-body-mass-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Lean Body Mass Calculator - Muscle & Fitness Tracker',
     metaDescription: 'Measure your lean body mass to track muscle growth and overall fitness progress.'
   },
@@ -2260,6 +2690,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate a healthy weight range based on your height and sex.',
     slug: 'ideal-body-weight-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Ideal Body Weight Calculator - Healthy Weight Guide',
     metaDescription: 'Find your ideal body weight based on height, age, and gender for a balanced lifestyle.'
   },
@@ -2269,6 +2700,7 @@ export const calculators: Calculator[] = [
     description: 'Assess health risks associated with abdominal fat.',
     slug: 'waist-to-hip-ratio-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Waist-to-Hip Ratio Calculator - Health Risk Checker',
     metaDescription: 'Calculate your waist-to-hip ratio to assess body fat distribution and related health risks.'
   },
@@ -2278,6 +2710,7 @@ export const calculators: Calculator[] = [
     description: 'A simple indicator of central obesity and health risk.',
     slug: 'waist-to-height-ratio-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Waist-to-Height Ratio Calculator - Obesity Risk Guide',
     metaDescription: 'Determine your waist-to-height ratio to assess health risks related to obesity and abdominal fat.'
   },
@@ -2287,6 +2720,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate body fat using hip circumference and height.',
     slug: 'body-adiposity-index-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Body Adiposity Index Calculator - Body Fat Estimator',
     metaDescription: 'Estimate your body fat percentage using your hip circumference and height with our BAI Calculator.'
   },
@@ -2296,6 +2730,7 @@ export const calculators: Calculator[] = [
     description: 'A measure of leanness, similar to BMI, for very tall or very short individuals.',
     slug: 'ponderal-index-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Ponderal Index Calculator - Body Proportion Measure',
     metaDescription: 'Calculate your Ponderal Index to evaluate body proportionality and compare it with healthy standards.'
   },
@@ -2305,6 +2740,7 @@ export const calculators: Calculator[] = [
     description: 'Estimate body fat percentage using only height and waist circumference.',
     slug: 'relative-fat-mass-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Relative Fat Mass Calculator - Body Fat Estimator',
     metaDescription: 'Estimate your body fat percentage using the Relative Fat Mass (RFM) method for a precise fitness assessment.'
   },
@@ -2314,6 +2750,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate daily calorie intake for sustainable weight loss.',
     slug: 'calorie-deficit-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
+    tags: ['weight loss'],
     metaTitle: 'Calorie Deficit Calculator - Weight Loss Planner',
     metaDescription: 'Determine how many calories to cut daily to achieve your weight loss goals effectively and safely.'
   },
@@ -2323,6 +2761,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate daily calorie intake for muscle and weight gain.',
     slug: 'calorie-surplus-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Calorie Surplus Calculator - Weight Gain Planner',
     metaDescription: 'Calculate the extra calories you need to consume daily to gain weight or build muscle efficiently.'
   },
@@ -2332,6 +2771,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate sodium and potassium lost through sweat during exercise.',
     slug: 'electrolyte-replacement-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['hydration'],
     metaTitle: 'Electrolyte Replacement Calculator - Hydration Guide',
     metaDescription: 'Find out how much electrolytes you need to replace after exercise or dehydration for optimal health.'
   },
@@ -2341,6 +2782,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate the total "empty" calories consumed from alcoholic beverages.',
     slug: 'alcohol-calorie-impact-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Alcohol Calorie Impact Calculator - Track Drinking Calories',
     metaDescription: 'Calculate the calories from alcoholic drinks to manage your diet and maintain fitness goals.'
   },
@@ -2350,6 +2792,7 @@ export const calculators: Calculator[] = [
     description: 'Track your daily consumption of added sugars against recommended limits.',
     slug: 'sugar-intake-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Sugar Intake Calculator - Daily Sugar Tracker',
     metaDescription: 'Track your daily sugar consumption and maintain a healthy diet with our Sugar Intake Calculator.'
   },
@@ -2359,6 +2802,7 @@ export const calculators: Calculator[] = [
     description: 'Track daily caffeine consumption to stay within safe limits.',
     slug: 'caffeine-intake-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Caffeine Intake Calculator - Safe Consumption Tracker',
     metaDescription: 'Calculate your daily caffeine intake to stay within safe limits and avoid overstimulation.'
   },
@@ -2367,140 +2811,170 @@ export const calculators: Calculator[] = [
     name: 'Critical Swim Speed (CSS) Calculator',
     description: 'Estimate your critical swim speed from two time trials to set training paces.',
     slug: 'critical-swim-speed-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['swimming', 'athletes']
   },
   {
     id: 3101,
     name: 'Power-to-Heart Rate Efficiency Calculator',
     description: 'Assess aerobic efficiency by relating mechanical power to heart rate.',
     slug: 'power-to-heart-rate-efficiency-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['heart']
   },
   {
     id: 3102,
     name: 'Cardiac Output Calculator',
     description: 'Compute cardiac output in L/min from heart rate and stroke volume.',
     slug: 'cardiac-output-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Physiology',
+    tags: ['heart']
   },
   {
     id: 3103,
     name: 'Stroke Volume Calculator',
     description: 'Estimate stroke volume from cardiac output and heart rate or from EDV−ESV.',
     slug: 'stroke-volume-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Physiology'
   },
   {
     id: 3104,
     name: 'Arterial Stiffness Index Calculator',
     description: 'Estimate arterial stiffness index (m/s) from height and pulse transit time.',
     slug: 'arterial-stiffness-index-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Physiology',
+    tags: ['heart']
   },
   {
     id: 3105,
     name: 'Thermic Effect of Food (TEF) Calculator',
     description: 'Estimate calories burned digesting a meal based on macronutrient composition.',
     slug: 'thermic-effect-of-food-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Calories & Metabolism'
   },
   {
     id: 3106,
     name: 'Rest vs Active Energy Burn Calculator',
     description: 'Compare resting energy use to active burn based on METs, duration, and weight.',
     slug: 'rest-vs-active-energy-burn-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Calories & Metabolism'
   },
   {
     id: 3107,
     name: 'Brown Fat Activation Estimator',
     description: 'Estimate additional calories burned from cold exposure and brown fat activation.',
     slug: 'brown-fat-activation-estimator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Calories & Metabolism'
   },
   {
     id: 3108,
     name: 'Non-Exercise Activity Thermogenesis (NEAT) Calculator',
     description: 'Estimate daily NEAT calories from steps, standing time, and light activity.',
     slug: 'neat-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
+    tags: ['weight loss']
   },
   {
     id: 3109,
     name: 'Post-Exercise Oxygen Consumption (EPOC) Calculator',
     description: 'Estimate excess post-exercise oxygen consumption (EPOC) calories from a workout.',
     slug: 'post-exercise-oxygen-consumption-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance'
   },
   {
     id: 3110,
     name: 'Heart Rate Variability (HRV) Score Calculator',
     description: 'Calculate your HRV score from RMSSD and age to assess recovery and stress resilience.',
     slug: 'heart-rate-variability-hrv-score-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Sleep, Stress & Wellbeing',
+    tags: ['heart']
   },
   {
     id: 3111,
     name: 'Cortisol Stress Response Estimator',
     description: 'Estimate your stress hormone response based on lifestyle factors like sleep, stress, and exercise.',
     slug: 'cortisol-stress-response-estimator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Sleep, Stress & Wellbeing'
   },
   {
     id: 3112,
     name: 'Meditation Breathing Rate Calculator',
     description: 'Find your optimal breathing rate for meditation based on age, experience, and goals.',
     slug: 'meditation-breathing-rate-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Sleep, Stress & Wellbeing'
   },
   {
     id: 3113,
     name: 'Mindful Minutes Tracking Calculator',
     description: 'Track your weekly mindfulness practice and calculate consistency metrics.',
     slug: 'mindful-minutes-tracking-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Sleep, Stress & Wellbeing'
   },
   {
     id: 3114,
     name: 'Burnout Risk Score Calculator',
     description: 'Assess your risk of workplace burnout based on work hours, stress, sleep, and support factors.',
     slug: 'burnout-risk-score-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Sleep, Stress & Wellbeing'
   },
   {
     id: 3115,
     name: 'VO₂ Reserve Calculator',
     description: 'Calculate your VO₂ Reserve and training zones for precise aerobic training prescription.',
     slug: 'vo2-reserve-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes']
   },
   {
     id: 3116,
     name: 'Anaerobic Capacity Calculator',
     description: 'Estimate your anaerobic power capacity from 30-second and 5-minute power tests.',
     slug: 'anaerobic-capacity-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes']
   },
   {
     id: 3117,
     name: 'Lactate Accumulation Rate Calculator',
     description: 'Calculate lactate buildup rate during exercise to optimize training intensity.',
     slug: 'lactate-accumulation-rate-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes']
   },
   {
     id: 3118,
     name: 'Oxygen Debt (EPOC) Calculator',
     description: 'Estimate excess post-exercise oxygen consumption and recovery calorie burn.',
     slug: 'oxygen-debt-epoc-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance'
   },
   {
     id: 3119,
     name: 'Maximal Aerobic Speed (MAS) Calculator',
     description: 'Calculate your MAS from a time trial and get personalized training paces.',
     slug: 'maximal-aerobic-speed-mas-calculator',
-    category: 'health-fitness'
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['running']
   },
   { 
     id: 275, 
@@ -2508,15 +2982,28 @@ export const calculators: Calculator[] = [
     description: 'Estimate VO₂ max from age and resting heart rate.', 
     slug: 'vo2-max-calculator', 
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes'],
     metaTitle: 'VO₂ Max Calculator - Cardiovascular Fitness Test',
     metaDescription: 'Estimate your VO₂ Max to assess aerobic fitness and improve endurance performance.'
   },
+  {
+    id: 10125,
+    name: 'VO₂ Max Estimation (1.5-Mile Run Test) Calculator',
+    description: 'Estimate VO₂ max from your time on the Cooper 1.5-mile run test.',
+    slug: 'vo2-max-estimation-calculator',
+    category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes'],
+  },
   { 
     id: 276, 
     name: 'Running Pace Calculator', 
     description: 'Convert between distance, time, and pace.', 
     slug: 'running-pace-calculator', 
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['running'],
     metaTitle: 'Running Pace Calculator - Track Your Speed',
     metaDescription: 'Calculate your running pace per kilometer or mile to optimize training and improve performance.'
   },
@@ -2526,6 +3013,9 @@ export const calculators: Calculator[] = [
     description: 'Estimate calories burned from running speed, weight, and duration.', 
     slug: 'running-speed-to-calories-burned-calculator', 
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
+    tags: ['running'],
+    component: 'health-fitness/calories-burned-running-calculator',
     metaTitle: 'Running Speed to Calories Calculator - Burn Tracker',
     metaDescription: 'Determine how many calories you burn while running based on your speed, distance, and weight.'
   },
@@ -2535,6 +3025,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate cycling power output based on speed and parameters.', 
     slug: 'cycling-power-output-calculator', 
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['cycling'],
     metaTitle: 'Cycling Power Output Calculator - Measure Watts',
     metaDescription: 'Calculate your cycling power output in watts to track performance and optimize training sessions.'
   },
@@ -2544,6 +3036,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate lap time based on distance and pace.', 
     slug: 'swimming-lap-time-calculator', 
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['swimming'],
     metaTitle: 'Swimming Lap Time Calculator - Track Pool Speed',
     metaDescription: 'Determine your lap time for any swimming distance to monitor performance and improve speed.'
   },
@@ -2553,6 +3047,7 @@ export const calculators: Calculator[] = [
     description: 'Convert between 500m split, time, and distance.', 
     slug: 'rowing-split-calculator', 
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
     metaTitle: 'Rowing Split Calculator - Pace Per 500m',
     metaDescription: 'Calculate your rowing split time per 500 meters to track performance and set fitness goals.'
   },
@@ -2562,6 +3057,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate calories burned using METs, weight, and duration.', 
     slug: 'mets-calories-burned-calculator', 
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'METS Calories Burned Calculator - Activity Tracker',
     metaDescription: 'Estimate calories burned for any activity using METs values and your body weight.'
   },
@@ -2571,25 +3067,28 @@ export const calculators: Calculator[] = [
     description: 'Estimate one-repetition maximum (1RM) from weight and reps.', 
     slug: 'one-rep-max-strength-calculator', 
     category: 'health-fitness',
+    subcategory: 'Strength & Training Load',
     metaTitle: '1-Rep Max Calculator - Maximum Strength Test',
     metaDescription: 'Calculate your one-repetition maximum to track strength levels and plan your workouts.'
   },
-  { id: 283, name: 'Iron Intake Calculator', description: 'Estimate recommended daily iron needs based on age and sex.', slug: 'iron-intake-calculator', category: 'health-fitness' },
-  { id: 284, name: 'Calcium Intake Calculator', description: 'Recommended daily calcium intake by age and sex.', slug: 'calcium-intake-calculator', category: 'health-fitness' },
-  { id: 285, name: 'Zinc Requirement Calculator', description: 'Daily zinc requirement by age and sex.', slug: 'zinc-requirement-calculator', category: 'health-fitness' },
-  { id: 286, name: 'Magnesium Intake Calculator', description: 'Daily magnesium target tailored to age and sex.', slug: 'magnesium-intake-calculator', category: 'health-fitness' },
-  { id: 287, name: 'Fiber Intake Calculator', description: 'Daily fiber goal using the 14 g per 1,000 kcal guideline.', slug: 'fiber-intake-calculator', category: 'health-fitness' },
-  { id: 288, name: 'Sodium-to-Potassium Ratio Calculator', description: 'Calculate your Na:K intake ratio and see how it compares to guidance.', slug: 'sodium-potassium-ratio-calculator', category: 'health-fitness' },
-  { id: 289, name: 'Daily Antioxidant (ORAC) Goal Calculator', description: 'Set a practical antioxidant goal and estimate ORAC from servings.', slug: 'daily-antioxidant-orac-goal-calculator', category: 'health-fitness' },
-  { id: 290, name: 'PDCAAS Protein Quality Calculator', description: 'Estimate protein quality with PDCAAS from amino acid score and digestibility.', slug: 'pdcaas-calculator', category: 'health-fitness' },
-  { id: 291, name: 'Vitamin D Sun Exposure Calculator', description: 'Roughly estimate vitamin D from sun exposure parameters.', slug: 'vitamin-d-sun-exposure-calculator', category: 'health-fitness' },
-  { id: 292, name: 'Training Stress Score (TSS) Calculator', description: 'Estimate cycling/running TSS from workout intensity and duration.', slug: 'training-stress-score-calculator', category: 'health-fitness' },
+  { id: 283, name: 'Iron Intake Calculator', description: 'Estimate recommended daily iron needs based on age and sex.', slug: 'iron-intake-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 284, name: 'Calcium Intake Calculator', description: 'Recommended daily calcium intake by age and sex.', slug: 'calcium-intake-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 285, name: 'Zinc Requirement Calculator', description: 'Daily zinc requirement by age and sex.', slug: 'zinc-requirement-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 286, name: 'Magnesium Intake Calculator', description: 'Daily magnesium target tailored to age and sex.', slug: 'magnesium-intake-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 287, name: 'Fiber Intake Calculator', description: 'Daily fiber goal using the 14 g per 1,000 kcal guideline.', slug: 'fiber-intake-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet' },
+  { id: 288, name: 'Sodium-to-Potassium Ratio Calculator', description: 'Calculate your Na:K intake ratio and see how it compares to guidance.', slug: 'sodium-potassium-ratio-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 10126, name: 'Sodium-to-Potassium Ratio & Electrolyte Balance Calculator', description: 'Compare daily sodium and potassium intake against guidance and get an electrolyte balance summary with recommendations.', slug: 'sodium-to-potassium-ratio-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 289, name: 'Daily Antioxidant (ORAC) Goal Calculator', description: 'Set a practical antioxidant goal and estimate ORAC from servings.', slug: 'daily-antioxidant-orac-goal-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet' },
+  { id: 290, name: 'PDCAAS Protein Quality Calculator', description: 'Estimate protein quality with PDCAAS from amino acid score and digestibility.', slug: 'pdcaas-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['protein'] },
+  { id: 291, name: 'Vitamin D Sun Exposure Calculator', description: 'Roughly estimate vitamin D from sun exposure parameters.', slug: 'vitamin-d-sun-exposure-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 292, name: 'Training Stress Score (TSS) Calculator', description: 'Estimate cycling/running TSS from workout intensity and duration.', slug: 'training-stress-score-calculator', category: 'health-fitness', subcategory: 'Strength & Training Load', tags: ['athletes'] },
   { 
     id: 293, 
     name: 'Strength-to-Weight Ratio Calculator', 
     description: 'Compare your 1RM to body weight for key lifts.', 
     slug: 'strength-to-weight-ratio-calculator', 
     category: 'health-fitness',
+    subcategory: 'Strength & Training Load',
     metaTitle: 'Strength-to-Weight Ratio Calculator - Fitness Metric',
     metaDescription: 'Measure your strength-to-weight ratio to evaluate relative strength and athletic performance.'
   },
@@ -2599,56 +3098,59 @@ export const calculators: Calculator[] = [
     description: 'Total sets × reps × weight across exercises and sessions.', 
     slug: 'training-volume-calculator', 
     category: 'health-fitness',
+    subcategory: 'Strength & Training Load',
+    tags: ['athletes'],
     metaTitle: 'Training Volume Calculator - Workout Planner',
     metaDescription: 'Calculate total training volume for exercises to optimize workouts and track progress effectively.'
   },
-  { id: 295, name: 'Progressive Overload Calculator', description: 'Plan weekly increases to weight, reps, or sets.', slug: 'progressive-overload-calculator', category: 'health-fitness' },
-  { id: 296, name: 'Rest Time Between Sets Calculator', description: 'Recommend rest intervals based on goal and last set effort.', slug: 'rest-time-between-sets-calculator', category: 'health-fitness' },
-  { id: 297, name: 'Heart Rate Zone Training Calculator', description: 'Derive 5 HR zones from max/resting HR or field test.', slug: 'heart-rate-zone-training-calculator', category: 'health-fitness' },
-  { id: 298, name: 'Recovery Heart Rate Calculator', description: 'Assess 1–2 minute HR recovery after exercise.', slug: 'recovery-heart-rate-calculator', category: 'health-fitness' },
-  { id: 2991, name: 'Exercise Calorie Burn Calculator', description: 'Estimate calories burned by activity, weight, and duration.', slug: 'exercise-calorie-burn-calculator', category: 'health-fitness' },
-  { id: 2992, name: 'Sleep Debt Calculator', description: 'Quantify weekly sleep debt vs target hours.', slug: 'sleep-debt-calculator-hf', category: 'health-fitness' },
-  { id: 2993, name: 'Sleep Efficiency Calculator', description: 'Bed time vs actual sleep time to compute efficiency.', slug: 'sleep-efficiency-calculator', category: 'health-fitness' },
-  { id: 2994, name: 'Stress Level Self-Assessment Score Calculator', description: 'Self-score perceived stress and get guidance.', slug: 'stress-level-self-assessment-calculator', category: 'health-fitness' },
-  { id: 2995, name: 'Meditation Time Progress Tracker Calculator', description: 'Track daily meditation minutes and weekly progress trends.', slug: 'meditation-time-progress-tracker-calculator', category: 'health-fitness' },
-  { id: 2996, name: 'Work-Life Balance Time Allocation Calculator', description: 'Calculate ideal time distribution between work, personal, and rest activities.', slug: 'work-life-balance-time-allocation-calculator', category: 'health-fitness' },
-  { id: 2997, name: 'Blood Pressure Risk Calculator', description: 'Assess cardiovascular risk based on systolic and diastolic readings.', slug: 'blood-pressure-risk-calculator', category: 'health-fitness' },
-  { id: 2998, name: 'Cholesterol Risk Calculator', description: 'Evaluate heart disease risk using HDL/LDL ratio and total cholesterol.', slug: 'cholesterol-risk-calculator', category: 'health-fitness' },
-  { id: 2999, name: 'Blood Sugar to HbA1c Converter', description: 'Convert between glucose levels and estimated HbA1c percentage.', slug: 'blood-sugar-to-hba1c-converter', category: 'health-fitness' },
-  { id: 3000, name: 'Diabetes Risk (Type 2) Calculator', description: 'Assess type 2 diabetes risk based on age, BMI, family history, and lifestyle factors.', slug: 'diabetes-risk-type2-calculator', category: 'health-fitness' },
-  { id: 3001, name: 'Cardiovascular Disease Risk Calculator', description: 'Calculate 10-year CVD risk using age, gender, blood pressure, cholesterol, and smoking status.', slug: 'cardiovascular-disease-risk-calculator', category: 'health-fitness' },
-  { id: 3002, name: 'Heart Attack (Framingham) Risk Calculator', description: 'Estimate 10-year coronary heart disease risk using Framingham scoring.', slug: 'heart-attack-framingham-risk-calculator', category: 'health-fitness' },
-  { id: 3003, name: 'Stroke Risk Calculator', description: 'Assess stroke risk based on age, blood pressure, diabetes, and other factors.', slug: 'stroke-risk-calculator', category: 'health-fitness' },
-  { id: 3004, name: 'Bone Density T-Score Calculator', description: 'Calculate T-score from bone mineral density measurements.', slug: 'bone-density-t-score-calculator', category: 'health-fitness' },
-  { id: 3005, name: 'Osteoporosis Risk Calculator', description: 'Estimate osteoporosis risk from common clinical and lifestyle factors. Not a diagnosis.', slug: 'osteoporosis-risk-calculator', category: 'health-fitness' },
-  { id: 3006, name: 'Arthritis Risk Score Calculator', description: 'Screen for arthritis risk based on age, BMI, history, and joint stressors.', slug: 'arthritis-risk-score-calculator', category: 'health-fitness' },
-  { id: 3007, name: 'Cancer Risk Lifestyle Calculator', description: 'Self‑assessment of lifestyle factors linked with cancer risk. Not medical advice.', slug: 'cancer-risk-lifestyle-calculator', category: 'health-fitness' },
-  { id: 3008, name: 'Lifespan Expectancy Calculator', description: 'Rough longevity estimate adjusted for smoking, activity, sleep, and BP.', slug: 'lifespan-expectancy-calculator', category: 'health-fitness' },
-  { id: 3009, name: 'Marathon Finish Time Predictor', description: 'Predict marathon time from a recent race using the Riegel endurance model.', slug: 'marathon-finish-time-predictor', category: 'health-fitness' },
-  { id: 3010, name: 'Half‑Marathon Pace Calculator', description: 'Compute average pace needed to hit your half‑marathon goal time.', slug: 'half-marathon-pace-calculator', category: 'health-fitness' },
-  { id: 3011, name: 'Triathlon Split Time Calculator', description: 'Estimate split times for swim, bike, run, and transitions to plan race day.', slug: 'triathlon-split-time-calculator', category: 'health-fitness' },
-  { id: 3012, name: 'Cycling FTP (Functional Threshold Power) Calculator', description: 'Estimate FTP from a 20‑min test or ramp test power for training zones.', slug: 'cycling-ftp-calculator', category: 'health-fitness' },
-  { id: 3013, name: 'Swimming SWOLF Score Calculator', description: 'Combine lap time and stroke count to track swim efficiency. Lower is better.', slug: 'swimming-swolf-score-calculator', category: 'health-fitness' },
-  { id: 3014, name: 'Golf Handicap Calculator', description: 'Estimate handicap index from recent score differentials. For guidance only.', slug: 'golf-handicap-calculator', category: 'health-fitness' },
-  { id: 3015, name: 'Tennis Serve Speed Calculator', description: 'Calculate tennis serve speed based on racket head speed, court surface, and serve type.', slug: 'tennis-serve-speed-calculator', category: 'health-fitness' },
-  { id: 3016, name: 'Soccer VO₂ Requirement Calculator', description: 'Calculate optimal VO₂ max requirements for soccer players based on position and level.', slug: 'soccer-vo2-requirement-calculator', category: 'health-fitness' },
-  { id: 3017, name: 'Baseball Pitch Speed Calculator', description: 'Calculate baseball pitch speed based on physical attributes and pitch type.', slug: 'baseball-pitch-speed-calculator', category: 'health-fitness' },
-  { id: 3018, name: 'Basketball Shooting Percentage Calculator', description: 'Calculate basketball shooting percentages including field goal, free throw, and true shooting percentage.', slug: 'basketball-shooting-percentage-calculator', category: 'health-fitness' },
-  { id: 3019, name: 'Gluten Intake Tracker Calculator', description: 'Track daily gluten intake from common foods and assess consumption levels.', slug: 'gluten-intake-tracker-calculator', category: 'health-fitness' },
-  { id: 3020, name: 'Low-Sodium Diet Planner Calculator', description: 'Calculate optimal sodium intake based on health conditions and activity level.', slug: 'low-sodium-diet-planner-calculator', category: 'health-fitness' },
-  { id: 3021, name: 'DASH Diet Sodium Intake Calculator', description: 'Calculate optimal sodium intake for DASH diet compliance with blood pressure management.', slug: 'dash-diet-sodium-intake-calculator', category: 'health-fitness' },
-  { id: 3022, name: 'Mediterranean Diet Compliance Calculator', description: 'Assess adherence to Mediterranean diet principles with personalized recommendations.', slug: 'mediterranean-diet-compliance-calculator', category: 'health-fitness' },
-  { id: 3023, name: 'Vegan Protein Requirement Calculator', description: 'Calculate optimal protein intake for vegans based on activity level and fitness goals.', slug: 'vegan-protein-requirement-calculator', category: 'health-fitness' },
-  { id: 3024, name: 'Lactose Tolerance Estimator', description: 'Estimate lactose tolerance based on age, ethnicity, and symptoms with dietary recommendations.', slug: 'lactose-tolerance-estimator', category: 'health-fitness' },
-  { id: 3025, name: 'Food Allergy Risk Score Calculator', description: 'Calculate food allergy risk based on family history, existing conditions, and environmental factors.', slug: 'food-allergy-risk-score-calculator', category: 'health-fitness' },
-  { id: 3026, name: 'Total Energy Expenditure (TEE) Calculator', description: 'Calculate your daily total energy expenditure including BMR, activity, and exercise for comprehensive calorie needs.', slug: 'total-energy-expenditure-calculator', category: 'health-fitness' },
-  { id: 3027, name: 'Respiratory Quotient (RQ) Calculator', description: 'Calculate your respiratory quotient to understand fuel utilization during exercise and metabolic efficiency.', slug: 'respiratory-quotient-calculator', category: 'health-fitness' },
+  { id: 295, name: 'Progressive Overload Calculator', description: 'Plan weekly increases to weight, reps, or sets.', slug: 'progressive-overload-calculator', category: 'health-fitness', subcategory: 'Strength & Training Load' },
+  { id: 296, name: 'Rest Time Between Sets Calculator', description: 'Recommend rest intervals based on goal and last set effort.', slug: 'rest-time-between-sets-calculator', category: 'health-fitness', subcategory: 'Strength & Training Load' },
+  { id: 297, name: 'Heart Rate Zone Training Calculator', description: 'Derive 5 HR zones from max/resting HR or field test.', slug: 'heart-rate-zone-training-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['heart', 'athletes'] },
+  { id: 298, name: 'Recovery Heart Rate Calculator', description: 'Assess 1–2 minute HR recovery after exercise.', slug: 'recovery-heart-rate-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['heart'] },
+  { id: 2991, name: 'Exercise Calorie Burn Calculator', description: 'Estimate calories burned by activity, weight, and duration.', slug: 'exercise-calorie-burn-calculator', category: 'health-fitness', subcategory: 'Calories & Metabolism', tags: ['weight loss'] },
+  { id: 2992, name: 'Sleep Debt Calculator', description: 'Quantify weekly sleep debt vs target hours.', slug: 'sleep-debt-calculator-hf', category: 'health-fitness', subcategory: 'Sleep, Stress & Wellbeing', tags: ['sleep'], component: 'health-fitness/sleep-debt-calculator' },
+  { id: 2993, name: 'Sleep Efficiency Calculator', description: 'Bed time vs actual sleep time to compute efficiency.', slug: 'sleep-efficiency-calculator', category: 'health-fitness', subcategory: 'Sleep, Stress & Wellbeing', tags: ['sleep'] },
+  { id: 2994, name: 'Stress Level Self-Assessment Score Calculator', description: 'Self-score perceived stress and get guidance.', slug: 'stress-level-self-assessment-calculator', category: 'health-fitness', subcategory: 'Sleep, Stress & Wellbeing' },
+  { id: 2995, name: 'Meditation Time Progress Tracker Calculator', description: 'Track daily meditation minutes and weekly progress trends.', slug: 'meditation-time-progress-tracker-calculator', category: 'health-fitness', subcategory: 'Sleep, Stress & Wellbeing' },
+  { id: 2996, name: 'Work-Life Balance Time Allocation Calculator', description: 'Calculate ideal time distribution between work, personal, and rest activities.', slug: 'work-life-balance-time-allocation-calculator', category: 'health-fitness', subcategory: 'Sleep, Stress & Wellbeing' },
+  { id: 2997, name: 'Blood Pressure Risk Calculator', description: 'Assess cardiovascular risk based on systolic and diastolic readings.', slug: 'blood-pressure-risk-calculator', category: 'health-fitness', subcategory: 'Health Risk', tags: ['heart'] },
+  { id: 2998, name: 'Cholesterol Risk Calculator', description: 'Evaluate heart disease risk using HDL/LDL ratio and total cholesterol.', slug: 'cholesterol-risk-calculator', category: 'health-fitness', subcategory: 'Health Risk', tags: ['heart'] },
+  { id: 2999, name: 'Blood Sugar to HbA1c Converter', description: 'Convert between glucose levels and estimated HbA1c percentage.', slug: 'blood-sugar-to-hba1c-converter', category: 'health-fitness', subcategory: 'Health Risk', tags: ['diabetes'] },
+  { id: 3000, name: 'Diabetes Risk (Type 2) Calculator', description: 'Assess type 2 diabetes risk based on age, BMI, family history, and lifestyle factors.', slug: 'diabetes-risk-type2-calculator', category: 'health-fitness', subcategory: 'Health Risk', tags: ['diabetes'] },
+  { id: 3001, name: 'Cardiovascular Disease Risk Calculator', description: 'Calculate 10-year CVD risk using age, gender, blood pressure, cholesterol, and smoking status.', slug: 'cardiovascular-disease-risk-calculator', category: 'health-fitness', subcategory: 'Health Risk', tags: ['heart'] },
+  { id: 3002, name: 'Heart Attack (Framingham) Risk Calculator', description: 'Estimate 10-year coronary heart disease risk using Framingham scoring.', slug: 'heart-attack-framingham-risk-calculator', category: 'health-fitness', subcategory: 'Health Risk', tags: ['heart'] },
+  { id: 3003, name: 'Stroke Risk Calculator', description: 'Assess stroke risk based on age, blood pressure, diabetes, and other factors.', slug: 'stroke-risk-calculator', category: 'health-fitness', subcategory: 'Health Risk', tags: ['heart'] },
+  { id: 3004, name: 'Bone Density T-Score Calculator', description: 'Calculate T-score from bone mineral density measurements.', slug: 'bone-density-t-score-calculator', category: 'health-fitness', subcategory: 'Health Risk' },
+  { id: 3005, name: 'Osteoporosis Risk Calculator', description: 'Estimate osteoporosis risk from common clinical and lifestyle factors. Not a diagnosis.', slug: 'osteoporosis-risk-calculator', category: 'health-fitness', subcategory: 'Health Risk' },
+  { id: 3006, name: 'Arthritis Risk Score Calculator', description: 'Screen for arthritis risk based on age, BMI, history, and joint stressors.', slug: 'arthritis-risk-score-calculator', category: 'health-fitness', subcategory: 'Health Risk' },
+  { id: 3007, name: 'Cancer Risk Lifestyle Calculator', description: 'Self‑assessment of lifestyle factors linked with cancer risk. Not medical advice.', slug: 'cancer-risk-lifestyle-calculator', category: 'health-fitness', subcategory: 'Health Risk' },
+  { id: 3008, name: 'Lifespan Expectancy Calculator', description: 'Rough longevity estimate adjusted for smoking, activity, sleep, and BP.', slug: 'lifespan-expectancy-calculator', category: 'health-fitness', subcategory: 'Health Risk' },
+  { id: 3009, name: 'Marathon Finish Time Predictor', description: 'Predict marathon time from a recent race using the Riegel endurance model.', slug: 'marathon-finish-time-predictor', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['running'] },
+  { id: 3010, name: 'Half‑Marathon Pace Calculator', description: 'Compute average pace needed to hit your half‑marathon goal time.', slug: 'half-marathon-pace-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['running'] },
+  { id: 3011, name: 'Triathlon Split Time Calculator', description: 'Estimate split times for swim, bike, run, and transitions to plan race day.', slug: 'triathlon-split-time-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['running', 'cycling', 'swimming'] },
+  { id: 3012, name: 'Cycling FTP (Functional Threshold Power) Calculator', description: 'Estimate FTP from a 20‑min test or ramp test power for training zones.', slug: 'cycling-ftp-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['cycling', 'athletes'] },
+  { id: 3013, name: 'Swimming SWOLF Score Calculator', description: 'Combine lap time and stroke count to track swim efficiency. Lower is better.', slug: 'swimming-swolf-score-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['swimming'] },
+  { id: 3014, name: 'Golf Handicap Calculator', description: 'Estimate handicap index from recent score differentials. For guidance only.', slug: 'golf-handicap-calculator', category: 'health-fitness', subcategory: 'Sports Performance' },
+  { id: 3015, name: 'Tennis Serve Speed Calculator', description: 'Calculate tennis serve speed based on racket head speed, court surface, and serve type.', slug: 'tennis-serve-speed-calculator', category: 'health-fitness', subcategory: 'Sports Performance' },
+  { id: 3016, name: 'Soccer VO₂ Requirement Calculator', description: 'Calculate optimal VO₂ max requirements for soccer players based on position and level.', slug: 'soccer-vo2-requirement-calculator', category: 'health-fitness', subcategory: 'Sports Performance', tags: ['athletes'] },
+  { id: 3017, name: 'Baseball Pitch Speed Calculator', description: 'Calculate baseball pitch speed based on physical attributes and pitch type.', slug: 'baseball-pitch-speed-calculator', category: 'health-fitness', subcategory: 'Sports Performance' },
+  { id: 3018, name: 'Basketball Shooting Percentage Calculator', description: 'Calculate basketball shooting percentages including field goal, free throw, and true shooting percentage.', slug: 'basketball-shooting-percentage-calculator', category: 'health-fitness', subcategory: 'Sports Performance' },
+  { id: 3019, name: 'Gluten Intake Tracker Calculator', description: 'Track daily gluten intake from common foods and assess consumption levels.', slug: 'gluten-intake-tracker-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet' },
+  { id: 3020, name: 'Low-Sodium Diet Planner Calculator', description: 'Calculate optimal sodium intake based on health conditions and activity level.', slug: 'low-sodium-diet-planner-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 3021, name: 'DASH Diet Sodium Intake Calculator', description: 'Calculate optimal sodium intake for DASH diet compliance with blood pressure management.', slug: 'dash-diet-sodium-intake-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['vitamins & minerals'] },
+  { id: 3022, name: 'Mediterranean Diet Compliance Calculator', description: 'Assess adherence to Mediterranean diet principles with personalized recommendations.', slug: 'mediterranean-diet-compliance-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet' },
+  { id: 3023, name: 'Vegan Protein Requirement Calculator', description: 'Calculate optimal protein intake for vegans based on activity level and fitness goals.', slug: 'vegan-protein-requirement-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet', tags: ['protein'] },
+  { id: 3024, name: 'Lactose Tolerance Estimator', description: 'Estimate lactose tolerance based on age, ethnicity, and symptoms with dietary recommendations.', slug: 'lactose-tolerance-estimator', category: 'health-fitness', subcategory: 'Nutrition & Diet' },
+  { id: 3025, name: 'Food Allergy Risk Score Calculator', description: 'Calculate food allergy risk based on family history, existing conditions, and environmental factors.', slug: 'food-allergy-risk-score-calculator', category: 'health-fitness', subcategory: 'Nutrition & Diet' },
+  { id: 3026, name: 'Total Energy Expenditure (TEE) Calculator', description: 'Calculate your daily total energy expenditure including BMR, activity, and exercise for comprehensive calorie needs.', slug: 'total-energy-expenditure-calculator', category: 'health-fitness', subcategory: 'Calories & Metabolism', tags: ['weight loss'] },
+  { id: 3027, name: 'Respiratory Quotient (RQ) Calculator', description: 'Calculate your respiratory quotient to understand fuel utilization during exercise and metabolic efficiency.', slug: 'respiratory-quotient-calculator', category: 'health-fitness', subcategory: 'Calories & Metabolism' },
   { 
     id: 3200, 
     name: 'COPD Risk Score Calculator', 
     description: 'Assess your risk of Chronic Obstructive Pulmonary Disease based on smoking history, symptoms, and environmental factors.', 
     slug: 'copd-risk-score-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
     metaTitle: 'COPD Risk Score Calculator - Assess Your Lung Health Risk',
     metaDescription: 'Calculate your COPD risk score based on smoking history, symptoms, environmental exposure, and medical history for comprehensive lung health assessment.'
   },
@@ -2658,6 +3160,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate your 10-year probability of hip fracture and major osteoporotic fracture using the WHO FRAX algorithm.', 
     slug: 'fracture-risk-frax-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
     metaTitle: 'Fracture Risk (FRAX) Calculator - Osteoporosis Risk Assessment',
     metaDescription: 'Assess your 10-year fracture risk using the validated FRAX algorithm to evaluate osteoporosis and bone health risk factors.'
   },
@@ -2667,6 +3170,8 @@ export const calculators: Calculator[] = [
     description: 'Evaluate your risk of metabolic syndrome using ATP III criteria including waist circumference, blood pressure, and laboratory values.', 
     slug: 'metabolic-syndrome-risk-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
+    tags: ['diabetes'],
     metaTitle: 'Metabolic Syndrome Risk Calculator - Cardiovascular Risk Assessment',
     metaDescription: 'Calculate your metabolic syndrome risk using ATP III criteria to assess cardiovascular and diabetes risk factors comprehensively.'
   },
@@ -2676,6 +3181,7 @@ export const calculators: Calculator[] = [
     description: 'Assess your risk of Non-Alcoholic Fatty Liver Disease based on metabolic factors, lifestyle, and medical history.', 
     slug: 'liver-fat-nafld-risk-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
     metaTitle: 'Liver Fat (NAFLD) Risk Calculator - Liver Health Assessment',
     metaDescription: 'Evaluate your NAFLD risk based on metabolic factors, lifestyle choices, and medical history for comprehensive liver health assessment.'
   },
@@ -2685,6 +3191,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate your estimated Glomerular Filtration Rate using the CKD-EPI equation to assess kidney function and health.', 
     slug: 'kidney-function-egfr-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
     metaTitle: 'Kidney Function (eGFR) Calculator - Renal Health Assessment',
     metaDescription: 'Calculate your estimated glomerular filtration rate using the CKD-EPI equation to evaluate kidney function and assess renal health.'
   },
@@ -2694,6 +3201,7 @@ export const calculators: Calculator[] = [
     description: 'Assess your central obesity and metabolic risk using the waist-to-BMI ratio for more accurate body composition evaluation.', 
     slug: 'waist-to-bmi-ratio-risk-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
     metaTitle: 'Waist-to-BMI Ratio Risk Calculator - Central Obesity Assessment',
     metaDescription: 'Calculate your waist-to-BMI ratio to assess central obesity and metabolic risk for more accurate body composition evaluation.'
   },
@@ -2703,6 +3211,8 @@ export const calculators: Calculator[] = [
     description: 'Determine your blood pressure stage and cardiovascular risk using AHA guidelines with comprehensive risk factor assessment.', 
     slug: 'hypertension-stage-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
+    tags: ['heart'],
     metaTitle: 'Hypertension Stage Calculator - Blood Pressure Assessment',
     metaDescription: 'Calculate your hypertension stage and cardiovascular risk using AHA guidelines with comprehensive blood pressure evaluation.'
   },
@@ -2712,6 +3222,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate your coronary artery calcium burden and cardiovascular risk based on demographic and risk factors.', 
     slug: 'coronary-calcium-score-estimator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
+    tags: ['heart', 'vitamins & minerals'],
     metaTitle: 'Coronary Calcium Score Estimator - Heart Disease Risk Assessment',
     metaDescription: 'Estimate your coronary calcium score and cardiovascular risk based on demographic factors and medical history for heart health evaluation.'
   },
@@ -2721,6 +3233,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate your metabolic age compared to chronological age based on cardiovascular and metabolic risk factors.', 
     slug: 'cardiometabolic-age-calculator', 
     category: 'health-fitness',
+    subcategory: 'Health Risk',
+    tags: ['heart'],
     metaTitle: 'Cardiometabolic Age Calculator - Metabolic Health Assessment',
     metaDescription: 'Calculate your cardiometabolic age to assess how your cardiovascular and metabolic health compares to your chronological age.'
   },
@@ -2730,6 +3244,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate your Fat Mass Index (FMI) to assess body fat mass relative to height for better body composition evaluation.', 
     slug: 'fat-mass-index-calculator', 
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Fat Mass Index Calculator - Body Fat Assessment',
     metaDescription: 'Calculate your Fat Mass Index to assess body fat mass relative to height for more accurate body composition and health evaluation.'
   },
@@ -2739,6 +3254,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate your ideal waist circumference based on height, gender, and ethnicity for optimal health and reduced disease risk.', 
     slug: 'ideal-waist-size-calculator', 
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Ideal Waist Size Calculator - Optimal Waist Circumference',
     metaDescription: 'Calculate your ideal waist size based on height, gender, and ethnicity to assess health risks and optimize body composition for better health outcomes.'
   },
@@ -2748,26 +3264,28 @@ export const calculators: Calculator[] = [
     description: 'Calculate your personalized daily omega-3 fatty acid requirements based on age, health conditions, and lifestyle factors.', 
     slug: 'omega3-daily-requirement-calculator', 
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['vitamins & minerals'],
     metaTitle: 'Omega-3 Daily Requirement Calculator - Personalized Fatty Acid Needs',
     metaDescription: 'Calculate your personalized omega-3 daily requirements including EPA and DHA based on age, gender, health conditions, and lifestyle for optimal nutrition and health.'
   },
-  { id: 3028, name: 'Maximum Lactate Steady State (MLSS) Calculator', description: 'Calculate your MLSS for optimal endurance training intensity and lactate threshold determination.', slug: 'maximum-lactate-steady-state-calculator', category: 'health-fitness' },
-  { id: 3029, name: 'Anaerobic Threshold Calculator', description: 'Calculate your anaerobic threshold for optimal training zone prescription and performance optimization.', slug: 'anaerobic-threshold-calculator', category: 'health-fitness' },
-  { id: 3030, name: 'Blood Oxygen Saturation Estimator', description: 'Estimate your blood oxygen saturation based on altitude, activity level, and health conditions.', slug: 'blood-oxygen-saturation-estimator', category: 'health-fitness' },
-  { id: 3031, name: 'Hydration Sweat Rate Calculator', description: 'Calculate your sweat rate to optimize hydration during exercise and prevent dehydration.', slug: 'hydration-sweat-rate-calculator', category: 'health-fitness' },
-  { id: 3032, name: 'Core Body Temperature Rise Calculator', description: 'Calculate your core body temperature rise during exercise to assess heat stress and safety.', slug: 'core-body-temperature-rise-calculator', category: 'health-fitness' },
-  { id: 3033, name: 'Injury Recovery Timeline Calculator', description: 'Estimate your injury recovery timeline based on injury type, severity, and individual factors.', slug: 'injury-recovery-timeline-calculator', category: 'health-fitness' },
-  { id: 3034, name: 'Physical Therapy Session Intensity Calculator', description: 'Calculate optimal intensity for your physical therapy sessions based on recovery stage and condition.', slug: 'physical-therapy-session-intensity-calculator', category: 'health-fitness' },
-  { id: 3035, name: 'Range of Motion Progress Calculator', description: 'Track and calculate your range of motion improvement over time for rehabilitation monitoring.', slug: 'range-of-motion-progress-calculator', category: 'health-fitness' },
-  { id: 3036, name: 'Pregnancy Weight Gain Calculator', description: 'Calculate appropriate pregnancy weight gain based on pre-pregnancy BMI and gestational age.', slug: 'pregnancy-weight-gain-calculator', category: 'health-fitness' },
-  { id: 3037, name: 'Due Date Calculator', description: 'Calculate pregnancy due date using LMP, conception date, or ultrasound dating.', slug: 'due-date-calculator', category: 'health-fitness' },
-  { id: 3038, name: 'Fertility Ovulation Calculator', description: 'Calculate ovulation dates, fertile windows, and fertility scores based on menstrual cycles.', slug: 'fertility-ovulation-calculator', category: 'health-fitness' },
-  { id: 3039, name: 'Breastfeeding Calorie Needs Calculator', description: 'Calculate daily calorie needs for breastfeeding mothers based on activity level and feeding frequency.', slug: 'breastfeeding-calorie-needs-calculator', category: 'health-fitness' },
-  { id: 3040, name: 'Infant Growth Percentile Calculator', description: 'Calculate infant growth percentiles for weight, height, and head circumference using WHO standards.', slug: 'infant-growth-percentile-calculator', category: 'health-fitness' },
-  { id: 3041, name: 'Child BMI Percentile Calculator', description: 'Calculate child BMI percentiles using CDC growth charts with age and gender-specific assessments.', slug: 'child-bmi-percentile-calculator', category: 'health-fitness' },
-  { id: 3042, name: 'Baby Sleep Needs Calculator', description: 'Calculate age-appropriate sleep requirements and nap patterns for babies and toddlers.', slug: 'baby-sleep-needs-calculator', category: 'health-fitness' },
-  { id: 3043, name: 'Toddler Calorie Requirement Calculator', description: 'Calculate daily calorie needs for toddlers based on age, weight, and activity level.', slug: 'toddler-calorie-requirement-calculator', category: 'health-fitness' },
-  { id: 3044, name: 'Resting Metabolic Rate (RMR) Calculator', description: 'Calculate resting metabolic rate, total daily energy expenditure, and macronutrient requirements.', slug: 'resting-metabolic-rate-calculator', category: 'health-fitness' },
+  { id: 3028, name: 'Maximum Lactate Steady State (MLSS) Calculator', description: 'Calculate your MLSS for optimal endurance training intensity and lactate threshold determination.', slug: 'maximum-lactate-steady-state-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['athletes'] },
+  { id: 3029, name: 'Anaerobic Threshold Calculator', description: 'Calculate your anaerobic threshold for optimal training zone prescription and performance optimization.', slug: 'anaerobic-threshold-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['athletes'] },
+  { id: 3030, name: 'Blood Oxygen Saturation Estimator', description: 'Estimate your blood oxygen saturation based on altitude, activity level, and health conditions.', slug: 'blood-oxygen-saturation-estimator', category: 'health-fitness', subcategory: 'Physiology' },
+  { id: 3031, name: 'Hydration Sweat Rate Calculator', description: 'Calculate your sweat rate to optimize hydration during exercise and prevent dehydration.', slug: 'hydration-sweat-rate-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance', tags: ['hydration'] },
+  { id: 3032, name: 'Core Body Temperature Rise Calculator', description: 'Calculate your core body temperature rise during exercise to assess heat stress and safety.', slug: 'core-body-temperature-rise-calculator', category: 'health-fitness', subcategory: 'Cardio & Endurance' },
+  { id: 3033, name: 'Injury Recovery Timeline Calculator', description: 'Estimate your injury recovery timeline based on injury type, severity, and individual factors.', slug: 'injury-recovery-timeline-calculator', category: 'health-fitness', subcategory: 'Recovery & Injury' },
+  { id: 3034, name: 'Physical Therapy Session Intensity Calculator', description: 'Calculate optimal intensity for your physical therapy sessions based on recovery stage and condition.', slug: 'physical-therapy-session-intensity-calculator', category: 'health-fitness', subcategory: 'Recovery & Injury' },
+  { id: 3035, name: 'Range of Motion Progress Calculator', description: 'Track and calculate your range of motion improvement over time for rehabilitation monitoring.', slug: 'range-of-motion-progress-calculator', category: 'health-fitness', subcategory: 'Recovery & Injury' },
+  { id: 3036, name: 'Pregnancy Weight Gain Calculator', description: 'Calculate appropriate pregnancy weight gain based on pre-pregnancy BMI and gestational age.', slug: 'pregnancy-weight-gain-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health' },
+  { id: 3037, name: 'Due Date Calculator', description: 'Calculate pregnancy due date using LMP, conception date, or ultrasound dating.', slug: 'due-date-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health' },
+  { id: 3038, name: 'Fertility Ovulation Calculator', description: 'Calculate ovulation dates, fertile windows, and fertility scores based on menstrual cycles.', slug: 'fertility-ovulation-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health' },
+  { id: 3039, name: 'Breastfeeding Calorie Needs Calculator', description: 'Calculate daily calorie needs for breastfeeding mothers based on activity level and feeding frequency.', slug: 'breastfeeding-calorie-needs-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health' },
+  { id: 3040, name: 'Infant Growth Percentile Calculator', description: 'Calculate infant growth percentiles for weight, height, and head circumference using WHO standards.', slug: 'infant-growth-percentile-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health', tags: ['kids'] },
+  { id: 3041, name: 'Child BMI Percentile Calculator', description: 'Calculate child BMI percentiles using CDC growth charts with age and gender-specific assessments.', slug: 'child-bmi-percentile-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health', tags: ['kids'] },
+  { id: 3042, name: 'Baby Sleep Needs Calculator', description: 'Calculate age-appropriate sleep requirements and nap patterns for babies and toddlers.', slug: 'baby-sleep-needs-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health', tags: ['sleep', 'kids'] },
+  { id: 3043, name: 'Toddler Calorie Requirement Calculator', description: 'Calculate daily calorie needs for toddlers based on age, weight, and activity level.', slug: 'toddler-calorie-requirement-calculator', category: 'health-fitness', subcategory: 'Pregnancy & Women\'s Health', tags: ['kids'] },
+  { id: 3044, name: 'Resting Metabolic Rate (RMR) Calculator', description: 'Calculate resting metabolic rate, total daily energy expenditure, and macronutrient requirements.', slug: 'resting-metabolic-rate-calculator', category: 'health-fitness', subcategory: 'Calories & Metabolism' },
   // Cricket
   { id: 3045, name: 'Batting Average Calculator', description: 'Calculate cricket batting average from runs scored and dismissals to measure batting performance.', slug: 'batting-average-calculator', category: 'cricket' },
   { id: 3046, name: 'Bowling Average Calculator', description: 'Calculate cricket bowling average from runs conceded and wickets taken to measure bowling performance.', slug: 'bowling-average-calculator', category: 'cricket' },
@@ -2779,195 +3297,239 @@ export const calculators: Calculator[] = [
   { id: 3052, name: 'Player Performance Index Calculator', description: 'Calculate comprehensive cricket player performance index across batting, bowling, and fielding.', slug: 'player-performance-index-calculator', category: 'cricket' },
   { id: 3053, name: 'Fantasy Points Calculator', description: 'Calculate fantasy cricket points based on batting, bowling, and fielding performance for fantasy leagues.', slug: 'fantasy-points-calculator', category: 'cricket' },
   // Conversions
-  { id: 300, name: 'Meters to Feet Converter', description: 'Convert meters to feet.', slug: 'meters-to-feet-converter', category: 'conversions' },
-  { id: 301, name: 'Feet to Meters Converter', description: 'Convert feet to meters.', slug: 'feet-to-meters-converter', category: 'conversions' },
-  { id: 302, name: 'Centimeters to Inches Converter', description: 'Convert centimeters to inches.', slug: 'centimeters-to-inches-converter', category: 'conversions' },
-  { id: 303, name: 'Inches to Centimeters Converter', description: 'Convert inches to centimeters.', slug: 'inches-to-centimeters-converter', category: 'conversions' },
-  { id: 299, name: 'Height Converter', description: 'Convert height between feet/inches and centimeters/meters.', slug: 'height-converter', category: 'conversions' },
-  { id: 304, name: 'Millimeters to Inches Converter', description: 'Convert millimeters to inches.', slug: 'millimeters-to-inches-converter', category: 'conversions' },
-  { id: 305, name: 'Inches to Millimeters Converter', description: 'Convert inches to millimeters.', slug: 'inches-to-millimeters-converter', category: 'conversions' },
-  { id: 306, name: 'Meters to Yards Converter', description: 'Convert meters to yards.', slug: 'meters-to-yards-converter', category: 'conversions' },
-  { id: 307, name: 'Yards to Meters Converter', description: 'Convert yards to meters.', slug: 'yards-to-meters-converter', category: 'conversions' },
-  { id: 308, name: 'Miles to Kilometers Converter', description: 'Convert miles to kilometers.', slug: 'miles-to-kilometers-converter', category: 'conversions' },
-  { id: 309, name: 'Kilometers to Miles Converter', description: 'Convert kilometers to miles.', slug: 'kilometers-to-miles-converter', category: 'conversions' },
-  { id: 310, name: 'Nautical Miles to Kilometers Converter', description: 'Convert nautical miles to kilometers.', slug: 'nautical-miles-to-kilometers-converter', category: 'conversions' },
-  { id: 311, name: 'Kilometers to Nautical Miles Converter', description: 'Convert kilometers to nautical miles.', slug: 'kilometers-to-nautical-miles-converter', category: 'conversions' },
-  { id: 312, name: 'Micrometers to Millimeters Converter', description: 'Convert micrometers to millimeters.', slug: 'micrometers-to-millimeters-converter', category: 'conversions' },
-  { id: 313, name: 'Nanometers to Meters Converter', description: 'Convert nanometers to meters.', slug: 'nanometers-to-meters-converter', category: 'conversions' },
-  { id: 314, name: 'Light Years to Kilometers Converter', description: 'Convert light years to kilometers.', slug: 'light-years-to-kilometers-converter', category: 'conversions' },
-  { id: 315, name: 'Parsecs to Light Years Converter', description: 'Convert parsecs to light years.', slug: 'parsecs-to-light-years-converter', category: 'conversions' },
-  { id: 316, name: 'Astronomical Units to Kilometers Converter', description: 'Convert AU to kilometers.', slug: 'astronomical-units-to-kilometers-converter', category: 'conversions' },
-  { id: 317, name: 'Fathoms to Meters Converter', description: 'Convert fathoms to meters.', slug: 'fathoms-to-meters-converter', category: 'conversions' },
-  { id: 318, name: 'Chains to Meters Converter', description: 'Convert chains to meters.', slug: 'chains-to-meters-converter', category: 'conversions' },
-  { id: 319, name: 'Rods to Feet Converter', description: 'Convert rods/poles/perches to feet.', slug: 'rods-to-feet-converter', category: 'conversions' },
-  { id: 320, name: 'Square Meters to Square Feet Converter', description: 'Convert square meters to square feet.', slug: 'square-meters-to-square-feet-converter', category: 'conversions' },
-  { id: 321, name: 'Square Feet to Square Meters Converter', description: 'Convert square feet to square meters.', slug: 'square-feet-to-square-meters-converter', category: 'conversions' },
-  { id: 322, name: 'Square Kilometers to Square Miles Converter', description: 'Convert square kilometers to square miles.', slug: 'square-kilometers-to-square-miles-converter', category: 'conversions' },
-  { id: 323, name: 'Square Miles to Square Kilometers Converter', description: 'Convert square miles to square kilometers.', slug: 'square-miles-to-square-kilometers-converter', category: 'conversions' },
-  { id: 324, name: 'Acres to Square Meters Converter', description: 'Convert acres to square meters.', slug: 'acres-to-square-meters-converter', category: 'conversions' },
-  { id: 325, name: 'Square Meters to Acres Converter', description: 'Convert square meters to acres.', slug: 'square-meters-to-acres-converter', category: 'conversions' },
-  { id: 326, name: 'Hectares to Acres Converter', description: 'Convert hectares to acres.', slug: 'hectares-to-acres-converter', category: 'conversions' },
-  { id: 327, name: 'Acres to Hectares Converter', description: 'Convert acres to hectares.', slug: 'acres-to-hectares-converter', category: 'conversions' },
-  { id: 328, name: 'Square Yards to Square Feet Converter', description: 'Convert square yards to square feet.', slug: 'square-yards-to-square-feet-converter', category: 'conversions' },
-  { id: 329, name: 'Square Feet to Square Yards Converter', description: 'Convert square feet to square yards.', slug: 'square-feet-to-square-yards-converter', category: 'conversions' },
-  { id: 330, name: 'Square Inches to Square Centimeters Converter', description: 'Convert square inches to square centimeters.', slug: 'square-inches-to-square-centimeters-converter', category: 'conversions' },
-  { id: 331, name: 'Square Centimeters to Square Inches Converter', description: 'Convert square centimeters to square inches.', slug: 'square-centimeters-to-square-inches-converter', category: 'conversions' },
-  { id: 332, name: 'Square Miles to Acres Converter', description: 'Convert square miles to acres.', slug: 'square-miles-to-acres-converter', category: 'conversions' },
-  { id: 333, name: 'Acres to Square Miles Converter', description: 'Convert acres to square miles.', slug: 'acres-to-square-miles-converter', category: 'conversions' },
-  { id: 334, name: 'Square Meters to Square Yards Converter', description: 'Convert square meters to square yards.', slug: 'square-meters-to-square-yards-converter', category: 'conversions' },
-  { id: 335, name: 'Square Yards to Square Meters Converter', description: 'Convert square yards to square meters.', slug: 'square-yards-to-square-meters-converter', category: 'conversions' },
-  { id: 336, name: 'Square Centimeters to Square Meters Converter', description: 'Convert square centimeters to square meters.', slug: 'square-centimeters-to-square-meters-converter', category: 'conversions' },
-  { id: 337, name: 'Square Meters to Square Centimeters Converter', description: 'Convert square meters to square centimeters.', slug: 'square-meters-to-square-centimeters-converter', category: 'conversions' },
-  { id: 338, name: 'Hectares to Square Kilometers Converter', description: 'Convert hectares to square kilometers.', slug: 'hectares-to-square-kilometers-converter', category: 'conversions' },
-  { id: 339, name: 'Square Kilometers to Hectares Converter', description: 'Convert square kilometers to hectares.', slug: 'square-kilometers-to-hectares-converter', category: 'conversions' },
-  { id: 340, name: 'Liters to Gallons Converter', description: 'Convert liters to US or Imperial gallons.', slug: 'liters-to-gallons-converter', category: 'conversions' },
-  { id: 341, name: 'Gallons to Liters Converter', description: 'Convert US or Imperial gallons to liters.', slug: 'gallons-to-liters-converter', category: 'conversions' },
-  { id: 342, name: 'Milliliters to Cups Converter', description: 'Convert milliliters to US or Imperial cups.', slug: 'milliliters-to-cups-converter', category: 'conversions' },
-  { id: 343, name: 'Cups to Milliliters Converter', description: 'Convert US or Imperial cups to milliliters.', slug: 'cups-to-milliliters-converter', category: 'conversions' },
-  { id: 344, name: 'Pints to Liters Converter', description: 'Convert US or Imperial pints to liters.', slug: 'pints-to-liters-converter', category: 'conversions' },
-  { id: 345, name: 'Liters to Pints Converter', description: 'Convert liters to US or Imperial pints.', slug: 'liters-to-pints-converter', category: 'conversions' },
-  { id: 346, name: 'Quarts to Liters Converter', description: 'Convert US or Imperial quarts to liters.', slug: 'quarts-to-liters-converter', category: 'conversions' },
-  { id: 347, name: 'Liters to Quarts Converter', description: 'Convert liters to US or Imperial quarts.', slug: 'liters-to-quarts-converter', category: 'conversions' },
-  { id: 348, name: 'Cubic Meters to Liters Converter', description: 'Convert cubic meters to liters.', slug: 'cubic-meters-to-liters-converter', category: 'conversions' },
-  { id: 349, name: 'Liters to Cubic Meters Converter', description: 'Convert liters to cubic meters.', slug: 'liters-to-cubic-meters-converter', category: 'conversions' },
-  { id: 350, name: 'Cubic Feet to Gallons Converter', description: 'Convert cubic feet to US or Imperial gallons.', slug: 'cubic-feet-to-gallons-converter', category: 'conversions' },
-  { id: 351, name: 'Gallons to Cubic Feet Converter', description: 'Convert US or Imperial gallons to cubic feet.', slug: 'gallons-to-cubic-feet-converter', category: 'conversions' },
-  { id: 352, name: 'Cubic Inches to Milliliters Converter', description: 'Convert cubic inches to milliliters.', slug: 'cubic-inches-to-milliliters-converter', category: 'conversions' },
-  { id: 353, name: 'Milliliters to Cubic Inches Converter', description: 'Convert milliliters to cubic inches.', slug: 'milliliters-to-cubic-inches-converter', category: 'conversions' },
-  { id: 354, name: 'Tablespoons to Milliliters Converter', description: 'Convert tablespoons to milliliters.', slug: 'tablespoons-to-milliliters-converter', category: 'conversions' },
-  { id: 355, name: 'Milliliters to Tablespoons Converter', description: 'Convert milliliters to tablespoons.', slug: 'milliliters-to-tablespoons-converter', category: 'conversions' },
-  { id: 356, name: 'Teaspoons to Milliliters Converter', description: 'Convert teaspoons to milliliters.', slug: 'teaspoons-to-milliliters-converter', category: 'conversions' },
-  { id: 357, name: 'Milliliters to Teaspoons Converter', description: 'Convert milliliters to teaspoons.', slug: 'milliliters-to-teaspoons-converter', category: 'conversions' },
-  { id: 358, name: 'Ounces (fl oz) to Milliliters Converter', description: 'Convert US or Imperial fluid ounces to milliliters.', slug: 'ounces-to-milliliters-converter', category: 'conversions' },
-  { id: 359, name: 'Milliliters to Ounces (fl oz) Converter', description: 'Convert milliliters to US or Imperial fluid ounces.', slug: 'milliliters-to-ounces-converter', category: 'conversions' },
-  { id: 360, name: 'Kilograms to Pounds Converter', description: 'Convert kilograms to pounds.', slug: 'kilograms-to-pounds-converter', category: 'conversions' },
-  { id: 361, name: 'Pounds to Kilograms Converter', description: 'Convert pounds to kilograms.', slug: 'pounds-to-kilograms-converter', category: 'conversions' },
-  { id: 362, name: 'Grams to Ounces Converter', description: 'Convert grams to ounces.', slug: 'grams-to-ounces-converter', category: 'conversions' },
-  { id: 363, name: 'Ounces to Grams Converter', description: 'Convert ounces to grams.', slug: 'ounces-to-grams-converter', category: 'conversions' },
-  { id: 364, name: 'Milligrams to Grams Converter', description: 'Convert milligrams to grams.', slug: 'milligrams-to-grams-converter', category: 'conversions' },
-  { id: 365, name: 'Grams to Milligrams Converter', description: 'Convert grams to milligrams.', slug: 'grams-to-milligrams-converter', category: 'conversions' },
-  { id: 366, name: 'Kilograms to Ounces Converter', description: 'Convert kilograms to ounces.', slug: 'kilograms-to-ounces-converter', category: 'conversions' },
-  { id: 367, name: 'Ounces to Kilograms Converter', description: 'Convert ounces to kilograms.', slug: 'ounces-to-kilograms-converter', category: 'conversions' },
-  { id: 368, name: 'Stones to Pounds Converter', description: 'Convert stones to pounds.', slug: 'stones-to-pounds-converter', category: 'conversions' },
-  { id: 369, name: 'Pounds to Stones Converter', description: 'Convert pounds to stones.', slug: 'pounds-to-stones-converter', category: 'conversions' },
-  { id: 370, name: 'Tons (Metric) to Pounds Converter', description: 'Convert metric tons to pounds.', slug: 'tons-metric-to-pounds-converter', category: 'conversions' },
-  { id: 371, name: 'Pounds to Tons (Metric) Converter', description: 'Convert pounds to metric tons.', slug: 'pounds-to-tons-metric-converter', category: 'conversions' },
-  { id: 372, name: 'Short Tons (US) to Metric Tons Converter', description: 'Convert US short tons to metric tons.', slug: 'short-tons-us-to-metric-tons-converter', category: 'conversions' },
-  { id: 373, name: 'Metric Tons to Short Tons (US) Converter', description: 'Convert metric tons to US short tons.', slug: 'metric-tons-to-short-tons-us-converter', category: 'conversions' },
-  { id: 374, name: 'Micrograms to Milligrams Converter', description: 'Convert micrograms to milligrams.', slug: 'micrograms-to-milligrams-converter', category: 'conversions' },
-  { id: 375, name: 'Milligrams to Micrograms Converter', description: 'Convert milligrams to micrograms.', slug: 'milligrams-to-micrograms-converter', category: 'conversions' },
-  { id: 376, name: 'Carats to Grams Converter', description: 'Convert carats to grams.', slug: 'carats-to-grams-converter', category: 'conversions' },
-  { id: 377, name: 'Grams to Carats Converter', description: 'Convert grams to carats.', slug: 'grams-to-carats-converter', category: 'conversions' },
-  { id: 378, name: 'Kilograms to Stones Converter', description: 'Convert kilograms to stones.', slug: 'kilograms-to-stones-converter', category: 'conversions' },
-  { id: 379, name: 'Stones to Kilograms Converter', description: 'Convert stones to kilograms.', slug: 'stones-to-kilograms-converter', category: 'conversions' },
-  { id: 380, name: 'Kilometers per Hour to Miles per Hour Converter', description: 'Convert km/h to mph.', slug: 'kilometers-per-hour-to-miles-per-hour-converter', category: 'conversions' },
-  { id: 381, name: 'Miles per Hour to Kilometers per Hour Converter', description: 'Convert mph to km/h.', slug: 'miles-per-hour-to-kilometers-per-hour-converter', category: 'conversions' },
-  { id: 382, name: 'Meters per Second to Kilometers per Hour Converter', description: 'Convert m/s to km/h.', slug: 'meters-per-second-to-kilometers-per-hour-converter', category: 'conversions' },
-  { id: 383, name: 'Kilometers per Hour to Meters per Second Converter', description: 'Convert km/h to m/s.', slug: 'kilometers-per-hour-to-meters-per-second-converter', category: 'conversions' },
-  { id: 384, name: 'Miles per Hour to Meters per Second Converter', description: 'Convert mph to m/s.', slug: 'miles-per-hour-to-meters-per-second-converter', category: 'conversions' },
-  { id: 385, name: 'Meters per Second to Miles per Hour Converter', description: 'Convert m/s to mph.', slug: 'meters-per-second-to-miles-per-hour-converter', category: 'conversions' },
-  { id: 386, name: 'Feet per Second to Meters per Second Converter', description: 'Convert ft/s to m/s.', slug: 'feet-per-second-to-meters-per-second-converter', category: 'conversions' },
-  { id: 387, name: 'Meters per Second to Feet per Second Converter', description: 'Convert m/s to ft/s.', slug: 'meters-per-second-to-feet-per-second-converter', category: 'conversions' },
-  { id: 388, name: 'Knots to Kilometers per Hour Converter', description: 'Convert knots to km/h.', slug: 'knots-to-kilometers-per-hour-converter', category: 'conversions' },
-  { id: 389, name: 'Kilometers per Hour to Knots Converter', description: 'Convert km/h to knots.', slug: 'kilometers-per-hour-to-knots-converter', category: 'conversions' },
-  { id: 390, name: 'Knots to Miles per Hour Converter', description: 'Convert knots to mph.', slug: 'knots-to-miles-per-hour-converter', category: 'conversions' },
-  { id: 391, name: 'Miles per Hour to Knots Converter', description: 'Convert mph to knots.', slug: 'miles-per-hour-to-knots-converter', category: 'conversions' },
-  { id: 392, name: 'Mach Number to Kilometers per Hour Converter', description: 'Convert Mach to km/h.', slug: 'mach-number-to-kilometers-per-hour-converter', category: 'conversions' },
-  { id: 393, name: 'Kilometers per Hour to Mach Number Converter', description: 'Convert km/h to Mach.', slug: 'kilometers-per-hour-to-mach-number-converter', category: 'conversions' },
-  { id: 394, name: 'Mach Number to Miles per Hour Converter', description: 'Convert Mach to mph.', slug: 'mach-number-to-miles-per-hour-converter', category: 'conversions' },
-  { id: 395, name: 'Miles per Hour to Mach Number Converter', description: 'Convert mph to Mach.', slug: 'miles-per-hour-to-mach-number-converter', category: 'conversions' },
-  { id: 396, name: 'Meters per Second to Knots Converter', description: 'Convert m/s to knots.', slug: 'meters-per-second-to-knots-converter', category: 'conversions' },
-  { id: 397, name: 'Knots to Meters per Second Converter', description: 'Convert knots to m/s.', slug: 'knots-to-meters-per-second-converter', category: 'conversions' },
-  { id: 398, name: 'Feet per Second to Miles per Hour Converter', description: 'Convert ft/s to mph.', slug: 'feet-per-second-to-miles-per-hour-converter', category: 'conversions' },
-  { id: 399, name: 'Miles per Hour to Feet per Second Converter', description: 'Convert mph to ft/s.', slug: 'miles-per-hour-to-feet-per-second-converter', category: 'conversions' },
-  { id: 400, name: 'Seconds to Minutes Converter', description: 'Convert seconds to minutes.', slug: 'seconds-to-minutes-converter', category: 'conversions' },
-  { id: 401, name: 'Minutes to Seconds Converter', description: 'Convert minutes to seconds.', slug: 'minutes-to-seconds-converter', category: 'conversions' },
-  { id: 402, name: 'Minutes to Hours Converter', description: 'Convert minutes to hours.', slug: 'minutes-to-hours-converter', category: 'conversions' },
-  { id: 403, name: 'Hours to Minutes Converter', description: 'Convert hours to minutes.', slug: 'hours-to-minutes-converter', category: 'conversions' },
-  { id: 404, name: 'Hours to Days Converter', description: 'Convert hours to days.', slug: 'hours-to-days-converter', category: 'conversions' },
-  { id: 405, name: 'Days to Hours Converter', description: 'Convert days to hours.', slug: 'days-to-hours-converter', category: 'conversions' },
-  { id: 406, name: 'Days to Weeks Converter', description: 'Convert days to weeks.', slug: 'days-to-weeks-converter', category: 'conversions' },
-  { id: 407, name: 'Weeks to Days Converter', description: 'Convert weeks to days.', slug: 'weeks-to-days-converter', category: 'conversions' },
-  { id: 408, name: 'Weeks to Months Converter', description: 'Convert weeks to months (approximate).', slug: 'weeks-to-months-converter', category: 'conversions' },
-  { id: 409, name: 'Months to Weeks Converter', description: 'Convert months to weeks (approximate).', slug: 'months-to-weeks-converter', category: 'conversions' },
-  { id: 410, name: 'Months to Years Converter', description: 'Convert months to years.', slug: 'months-to-years-converter', category: 'conversions' },
-  { id: 411, name: 'Years to Months Converter', description: 'Convert years to months.', slug: 'years-to-months-converter', category: 'conversions' },
-  { id: 412, name: 'Seconds to Hours Converter', description: 'Convert seconds to hours.', slug: 'seconds-to-hours-converter', category: 'conversions' },
-  { id: 413, name: 'Hours to Seconds Converter', description: 'Convert hours to seconds.', slug: 'hours-to-seconds-converter', category: 'conversions' },
-  { id: 414, name: 'Seconds to Days Converter', description: 'Convert seconds to days.', slug: 'seconds-to-days-converter', category: 'conversions' },
-  { id: 415, name: 'Days to Seconds Converter', description: 'Convert days to seconds.', slug: 'days-to-seconds-converter', category: 'conversions' },
-  { id: 416, name: 'Seconds to Weeks Converter', description: 'Convert seconds to weeks.', slug: 'seconds-to-weeks-converter', category: 'conversions' },
-  { id: 417, name: 'Weeks to Seconds Converter', description: 'Convert weeks to seconds.', slug: 'weeks-to-seconds-converter', category: 'conversions' },
-  { id: 418, name: 'Minutes to Days Converter', description: 'Convert minutes to days.', slug: 'minutes-to-days-converter', category: 'conversions' },
-  { id: 419, name: 'Days to Minutes Converter', description: 'Convert days to minutes.', slug: 'days-to-minutes-converter', category: 'conversions' },
-  { id: 420, name: 'Pascals to Atmospheres Converter', description: 'Convert Pascals (Pa) to standard atmospheres (atm).', slug: 'pascals-to-atmospheres-converter', category: 'conversions' },
-  { id: 421, name: 'Atmospheres to Pascals Converter', description: 'Convert standard atmospheres (atm) to Pascals (Pa).', slug: 'atmospheres-to-pascals-converter', category: 'conversions' },
-  { id: 422, name: 'Pascals to Bars Converter', description: 'Convert Pascals (Pa) to bars.', slug: 'pascals-to-bars-converter', category: 'conversions' },
-  { id: 423, name: 'Bars to Pascals Converter', description: 'Convert bars to Pascals (Pa).', slug: 'bars-to-pascals-converter', category: 'conversions' },
-  { id: 424, name: 'Pascals to Pounds per Square Inch Converter', description: 'Convert Pascals (Pa) to psi.', slug: 'pascals-to-psi-converter', category: 'conversions' },
-  { id: 425, name: 'Pounds per Square Inch to Pascals Converter', description: 'Convert psi to Pascals (Pa).', slug: 'psi-to-pascals-converter', category: 'conversions' },
-  { id: 426, name: 'Atmospheres to Bars Converter', description: 'Convert standard atmospheres (atm) to bars.', slug: 'atmospheres-to-bars-converter', category: 'conversions' },
-  { id: 427, name: 'Bars to Atmospheres Converter', description: 'Convert bars to standard atmospheres (atm).', slug: 'bars-to-atmospheres-converter', category: 'conversions' },
-  { id: 428, name: 'Atmospheres to Pounds per Square Inch Converter', description: 'Convert standard atmospheres (atm) to psi.', slug: 'atmospheres-to-psi-converter', category: 'conversions' },
-  { id: 429, name: 'Pounds per Square Inch to Atmospheres Converter', description: 'Convert psi to standard atmospheres (atm).', slug: 'psi-to-atmospheres-converter', category: 'conversions' },
-  { id: 430, name: 'Bars to Pounds per Square Inch Converter', description: 'Convert bars to psi.', slug: 'bars-to-psi-converter', category: 'conversions' },
-  { id: 431, name: 'Pounds per Square Inch to Bars Converter', description: 'Convert psi to bars.', slug: 'psi-to-bars-converter', category: 'conversions' },
-  { id: 432, name: 'Torr to Pascals Converter', description: 'Convert Torr (mmHg) to Pascals (Pa).', slug: 'torr-to-pascals-converter', category: 'conversions' },
-  { id: 433, name: 'Pascals to Torr Converter', description: 'Convert Pascals (Pa) to Torr (mmHg).', slug: 'pascals-to-torr-converter', category: 'conversions' },
-  { id: 434, name: 'Torr to Atmospheres Converter', description: 'Convert Torr (mmHg) to standard atmospheres (atm).', slug: 'torr-to-atmospheres-converter', category: 'conversions' },
-  { id: 435, name: 'Atmospheres to Torr Converter', description: 'Convert standard atmospheres (atm) to Torr (mmHg).', slug: 'atmospheres-to-torr-converter', category: 'conversions' },
-  { id: 436, name: 'Kilopascals to Pounds per Square Inch Converter', description: 'Convert kPa to psi.', slug: 'kpa-to-psi-converter', category: 'conversions' },
-  { id: 437, name: 'Pounds per Square Inch to Kilopascals Converter', description: 'Convert psi to kPa.', slug: 'psi-to-kpa-converter', category: 'conversions' },
-  { id: 438, name: 'Millimeters of Mercury to Bars Converter', description: 'Convert mmHg to bars.', slug: 'mmhg-to-bars-converter', category: 'conversions' },
-  { id: 439, name: 'Bars to Millimeters of Mercury Converter', description: 'Convert bars to mmHg.', slug: 'bars-to-mmhg-converter', category: 'conversions' },
-  { id: 440, name: 'Joules to Kilojoules Converter', description: 'Convert Joules (J) to Kilojoules (kJ).', slug: 'joules-to-kilojoules-converter', category: 'conversions' },
-  { id: 441, name: 'Kilojoules to Joules Converter', description: 'Convert Kilojoules (kJ) to Joules (J).', slug: 'kilojoules-to-joules-converter', category: 'conversions' },
-  { id: 442, name: 'Joules to Calories Converter', description: 'Convert Joules (J) to thermochemical calories (cal).', slug: 'joules-to-calories-converter', category: 'conversions' },
-  { id: 443, name: 'Calories to Joules Converter', description: 'Convert thermochemical calories (cal) to Joules (J).', slug: 'calories-to-joules-converter', category: 'conversions' },
-  { id: 444, name: 'Joules to Kilocalories Converter', description: 'Convert Joules (J) to Kilocalories (kcal).', slug: 'joules-to-kilocalories-converter', category: 'conversions' },
-  { id: 445, name: 'Kilocalories to Joules Converter', description: 'Convert Kilocalories (kcal) to Joules (J).', slug: 'kilocalories-to-joules-converter', category: 'conversions' },
-  { id: 446, name: 'Joules to Watt-hours Converter', description: 'Convert Joules (J) to Watt-hours (Wh).', slug: 'joules-to-watt-hours-converter', category: 'conversions' },
-  { id: 447, name: 'Watt-hours to Joules Converter', description: 'Convert Watt-hours (Wh) to Joules (J).', slug: 'watt-hours-to-joules-converter', category: 'conversions' },
-  { id: 448, name: 'Kilowatt-hours to Joules Converter', description: 'Convert Kilowatt-hours (kWh) to Joules (J).', slug: 'kwh-to-joules-converter', category: 'conversions' },
-  { id: 449, name: 'Joules to Kilowatt-hours Converter', description: 'Convert Joules (J) to Kilowatt-hours (kWh).', slug: 'joules-to-kwh-converter', category: 'conversions' },
-  { id: 450, name: 'Calories to Kilocalories Converter', description: 'Convert small calories (cal) to nutritional Calories (kcal).', slug: 'calories-to-kilocalories-converter', category: 'conversions' },
-  { id: 451, name: 'Kilocalories to Calories Converter', description: 'Convert nutritional Calories (kcal) to small calories (cal).', slug: 'kilocalories-to-calories-converter', category: 'conversions' },
-  { id: 452, name: 'British Thermal Units to Joules Converter', description: 'Convert BTU to Joules (J).', slug: 'btu-to-joules-converter', category: 'conversions' },
-  { id: 453, name: 'Joules to British Thermal Units Converter', description: 'Convert Joules (J) to BTU.', slug: 'joules-to-btu-converter', category: 'conversions' },
-  { id: 454, name: 'Kilowatt-hours to BTU Converter', description: 'Convert kWh to British Thermal Units (BTU).', slug: 'kwh-to-btu-converter', category: 'conversions' },
-  { id: 455, name: 'BTU to Kilowatt-hours Converter', description: 'Convert British Thermal Units (BTU) to kWh.', slug: 'btu-to-kwh-converter', category: 'conversions' },
-  { id: 456, name: 'Electronvolts to Joules Converter', description: 'Convert electronvolts (eV) to Joules (J).', slug: 'electronvolts-to-joules-converter', category: 'conversions' },
-  { id: 457, name: 'Joules to Electronvolts Converter', description: 'Convert Joules (J) to electronvolts (eV).', slug: 'joules-to-electronvolts-converter', category: 'conversions' },
-  { id: 458, name: 'Foot-Pounds to Joules Converter', description: 'Convert foot-pounds (ft·lb) to Joules (J).', slug: 'foot-pounds-to-joules-converter', category: 'conversions' },
-  { id: 459, name: 'Joules to Foot-Pounds Converter', description: 'Convert Joules (J) to foot-pounds (ft·lb).', slug: 'joules-to-foot-pounds-converter', category: 'conversions' },
-  { id: 460, name: 'Watts to Kilowatts Converter', description: 'Convert Watts (W) to Kilowatts (kW).', slug: 'watts-to-kilowatts-converter', category: 'conversions' },
-  { id: 461, name: 'Kilowatts to Watts Converter', description: 'Convert Kilowatts (kW) to Watts (W).', slug: 'kilowatts-to-watts-converter', category: 'conversions' },
-  { id: 462, name: 'Watts to Megawatts Converter', description: 'Convert Watts (W) to Megawatts (MW).', slug: 'watts-to-megawatts-converter', category: 'conversions' },
-  { id: 463, name: 'Megawatts to Watts Converter', description: 'Convert Megawatts (MW) to Watts (W).', slug: 'megawatts-to-watts-converter', category: 'conversions' },
-  { id: 464, name: 'Kilowatts to Megawatts Converter', description: 'Convert Kilowatts (kW) to Megawatts (MW).', slug: 'kilowatts-to-megawatts-converter', category: 'conversions' },
-  { id: 465, name: 'Megawatts to Kilowatts Converter', description: 'Convert Megawatts (MW) to Kilowatts (kW).', slug: 'megawatts-to-kilowatts-converter', category: 'conversions' },
-  { id: 466, name: 'Watts to Horsepower Converter', description: 'Convert Watts (W) to mechanical horsepower (hp).', slug: 'watts-to-horsepower-converter', category: 'conversions' },
-  { id: 467, name: 'Horsepower to Watts Converter', description: 'Convert mechanical horsepower (hp) to Watts (W).', slug: 'horsepower-to-watts-converter', category: 'conversions' },
-  { id: 468, name: 'Kilowatts to Horsepower Converter', description: 'Convert Kilowatts (kW) to mechanical horsepower (hp).', slug: 'kilowatts-to-horsepower-converter', category: 'conversions' },
-  { id: 469, name: 'Horsepower to Kilowatts Converter', description: 'Convert mechanical horsepower (hp) to Kilowatts (kW).', slug: 'horsepower-to-kilowatts-converter', category: 'conversions' },
-  { id: 470, name: 'Watts to dBm Converter', description: 'Convert power in Watts to decibel-milliwatts (dBm).', slug: 'watts-to-dbm-converter', category: 'conversions' },
-  { id: 471, name: 'dBm to Watts Converter', description: 'Convert power in decibel-milliwatts (dBm) to Watts.', slug: 'dbm-to-watts-converter', category: 'conversions' },
-  { id: 472, name: 'Watts to BTU per Hour Converter', description: 'Convert power in Watts to BTU/hr.', slug: 'watts-to-btu-per-hour-converter', category: 'conversions' },
-  { id: 473, name: 'BTU per Hour to Watts Converter', description: 'Convert power in BTU/hr to Watts.', slug: 'btu-per-hour-to-watts-converter', category: 'conversions' },
-  { id: 474, name: 'Kilowatts to BTU per Hour Converter', description: 'Convert power in Kilowatts to BTU/hr.', slug: 'kilowatts-to-btu-per-hour-converter', category: 'conversions' },
-  { id: 475, name: 'BTU per Hour to Kilowatts Converter', description: 'Convert power in BTU/hr to Kilowatts.', slug: 'btu-per-hour-to-kilowatts-converter', category: 'conversions' },
-  { id: 476, name: 'Ergs per Second to Watts Converter', description: 'Convert power in ergs per second to Watts.', slug: 'ergs-per-second-to-watts-converter', category: 'conversions' },
-  { id: 477, name: 'Watts to Ergs per Second Converter', description: 'Convert power in Watts to ergs per second.', slug: 'watts-to-ergs-per-second-converter', category: 'conversions' },
-  { id: 478, name: 'Foot-Pounds per Second to Watts Converter', description: 'Convert power in ft·lb/s to Watts.', slug: 'foot-pounds-per-second-to-watts-converter', category: 'conversions' },
-  { id: 479, name: 'Watts to Foot-Pounds per Second Converter', description: 'Convert power in Watts to ft·lb/s.', slug: 'watts-to-foot-pounds-per-second-converter', category: 'conversions' },
-  { id: 480, name: 'Shoe Size Converter', description: 'Convert shoe sizes between international systems (US, UK, EU, etc.).', slug: 'shoe-size-converter', category: 'conversions' },
-  { id: 481, name: 'Cloth Size Converter', description: 'Convert clothing sizes between international standards (US, UK, EU, etc.).', slug: 'cloth-size-converter', category: 'conversions' },
-  { id: 482, name: 'Hat Size Converter', description: 'Convert between different hat sizing systems.', slug: 'hat-size-converter', category: 'conversions' },
-  { id: 483, name: 'Ring Size Converter', description: 'Find your equivalent ring size in different countries.', slug: 'ring-size-converter', category: 'conversions' },
-  { id: 484, name: 'Belt Size Converter', description: 'Convert belt sizes between different measurement systems.', slug: 'belt-size-converter', category: 'conversions' },
-  { id: 485, name: 'Foot Length to Centimeters Converter', description: 'Convert a foot measurement to centimeters.', slug: 'foot-length-to-cm-converter', category: 'conversions' },
-  { id: 486, name: 'Glove Size Converter', description: 'Find your glove size based on hand measurements.', slug: 'glove-size-converter', category: 'conversions' },
-  { id: 487, name: 'Body Measurement to Clothing Size Converter', description: 'Estimate your clothing size from body measurements.', slug: 'body-measurement-to-cloth-size-converter', category: 'conversions' },
+  { id: 300, name: 'Meters to Feet Converter', description: 'Convert meters to feet.', slug: 'meters-to-feet-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'meter', to: 'foot' } },
+  { id: 301, name: 'Feet to Meters Converter', description: 'Convert feet to meters.', slug: 'feet-to-meters-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'foot', to: 'meter' } },
+  { id: 302, name: 'Centimeters to Inches Converter', description: 'Convert centimeters to inches.', slug: 'centimeters-to-inches-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'centimeter', to: 'inch' } },
+  { id: 303, name: 'Inches to Centimeters Converter', description: 'Convert inches to centimeters.', slug: 'inches-to-centimeters-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'inch', to: 'centimeter' } },
+  { id: 299, name: 'Height Converter', description: 'Convert height between feet/inches and centimeters/meters.', slug: 'height-converter', category: 'conversions', subcategory: 'Length', tags: ['fitness'] },
+  { id: 304, name: 'Millimeters to Inches Converter', description: 'Convert millimeters to inches.', slug: 'millimeters-to-inches-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'millimeter', to: 'inch' } },
+  { id: 305, name: 'Inches to Millimeters Converter', description: 'Convert inches to millimeters.', slug: 'inches-to-millimeters-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'inch', to: 'millimeter' } },
+  { id: 306, name: 'Meters to Yards Converter', description: 'Convert meters to yards.', slug: 'meters-to-yards-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'meter', to: 'yard' } },
+  { id: 307, name: 'Yards to Meters Converter', description: 'Convert yards to meters.', slug: 'yards-to-meters-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'yard', to: 'meter' } },
+  { id: 308, name: 'Miles to Kilometers Converter', description: 'Convert miles to kilometers.', slug: 'miles-to-kilometers-converter', category: 'conversions', subcategory: 'Length', tags: ['travel'], conversion: { from: 'mile', to: 'kilometer' } },
+  { id: 309, name: 'Kilometers to Miles Converter', description: 'Convert kilometers to miles.', slug: 'kilometers-to-miles-converter', category: 'conversions', subcategory: 'Length', tags: ['travel'], conversion: { from: 'kilometer', to: 'mile' } },
+  { id: 310, name: 'Nautical Miles to Kilometers Converter', description: 'Convert nautical miles to kilometers.', slug: 'nautical-miles-to-kilometers-converter', category: 'conversions', subcategory: 'Length', tags: ['marine & aviation'], conversion: { from: 'nautical-mile', to: 'kilometer' } },
+  { id: 311, name: 'Kilometers to Nautical Miles Converter', description: 'Convert kilometers to nautical miles.', slug: 'kilometers-to-nautical-miles-converter', category: 'conversions', subcategory: 'Length', tags: ['marine & aviation'], conversion: { from: 'kilometer', to: 'nautical-mile' } },
+  { id: 312, name: 'Micrometers to Millimeters Converter', description: 'Convert micrometers to millimeters.', slug: 'micrometers-to-millimeters-converter', category: 'conversions', subcategory: 'Length', tags: ['science'], conversion: { from: 'micrometer', to: 'millimeter' } },
+  { id: 313, name: 'Nanometers to Meters Converter', description: 'Convert nanometers to meters.', slug: 'nanometers-to-meters-converter', category: 'conversions', subcategory: 'Length', tags: ['science'], conversion: { from: 'nanometer', to: 'meter' } },
+  { id: 314, name: 'Light Years to Kilometers Converter', description: 'Convert light years to kilometers.', slug: 'light-years-to-kilometers-converter', category: 'conversions', subcategory: 'Length', tags: ['science'], conversion: { from: 'light-year', to: 'kilometer' } },
+  { id: 315, name: 'Parsecs to Light Years Converter', description: 'Convert parsecs to light years.', slug: 'parsecs-to-light-years-converter', category: 'conversions', subcategory: 'Length', tags: ['science'], conversion: { from: 'parsec', to: 'light-year' } },
+  { id: 316, name: 'Astronomical Units to Kilometers Converter', description: 'Convert AU to kilometers.', slug: 'astronomical-units-to-kilometers-converter', category: 'conversions', subcategory: 'Length', tags: ['science'], conversion: { from: 'astronomical-unit', to: 'kilometer' } },
+  { id: 317, name: 'Fathoms to Meters Converter', description: 'Convert fathoms to meters.', slug: 'fathoms-to-meters-converter', category: 'conversions', subcategory: 'Length', tags: ['marine & aviation'], conversion: { from: 'fathom', to: 'meter' } },
+  { id: 318, name: 'Chains to Meters Converter', description: 'Convert chains to meters.', slug: 'chains-to-meters-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'chain', to: 'meter' } },
+  { id: 319, name: 'Rods to Feet Converter', description: 'Convert rods/poles/perches to feet.', slug: 'rods-to-feet-converter', category: 'conversions', subcategory: 'Length', conversion: { from: 'rod', to: 'foot' } },
+  { id: 320, name: 'Square Meters to Square Feet Converter', description: 'Convert square meters to square feet.', slug: 'square-meters-to-square-feet-converter', category: 'conversions', subcategory: 'Area', tags: ['home & energy'], conversion: { from: 'square-meter', to: 'square-foot' } },
+  { id: 321, name: 'Square Feet to Square Meters Converter', description: 'Convert square feet to square meters.', slug: 'square-feet-to-square-meters-converter', category: 'conversions', subcategory: 'Area', tags: ['home & energy'], conversion: { from: 'square-foot', to: 'square-meter' } },
+  { id: 322, name: 'Square Kilometers to Square Miles Converter', description: 'Convert square kilometers to square miles.', slug: 'square-kilometers-to-square-miles-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-kilometer', to: 'square-mile' } },
+  { id: 323, name: 'Square Miles to Square Kilometers Converter', description: 'Convert square miles to square kilometers.', slug: 'square-miles-to-square-kilometers-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-mile', to: 'square-kilometer' } },
+  { id: 324, name: 'Acres to Square Meters Converter', description: 'Convert acres to square meters.', slug: 'acres-to-square-meters-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'acre', to: 'square-meter' } },
+  { id: 325, name: 'Square Meters to Acres Converter', description: 'Convert square meters to acres.', slug: 'square-meters-to-acres-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-meter', to: 'acre' } },
+  { id: 326, name: 'Hectares to Acres Converter', description: 'Convert hectares to acres.', slug: 'hectares-to-acres-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'hectare', to: 'acre' } },
+  { id: 327, name: 'Acres to Hectares Converter', description: 'Convert acres to hectares.', slug: 'acres-to-hectares-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'acre', to: 'hectare' } },
+  { id: 328, name: 'Square Yards to Square Feet Converter', description: 'Convert square yards to square feet.', slug: 'square-yards-to-square-feet-converter', category: 'conversions', subcategory: 'Area', tags: ['home & energy'], conversion: { from: 'square-yard', to: 'square-foot' } },
+  { id: 329, name: 'Square Feet to Square Yards Converter', description: 'Convert square feet to square yards.', slug: 'square-feet-to-square-yards-converter', category: 'conversions', subcategory: 'Area', tags: ['home & energy'], conversion: { from: 'square-foot', to: 'square-yard' } },
+  { id: 330, name: 'Square Inches to Square Centimeters Converter', description: 'Convert square inches to square centimeters.', slug: 'square-inches-to-square-centimeters-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-inch', to: 'square-centimeter' } },
+  { id: 331, name: 'Square Centimeters to Square Inches Converter', description: 'Convert square centimeters to square inches.', slug: 'square-centimeters-to-square-inches-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-centimeter', to: 'square-inch' } },
+  { id: 332, name: 'Square Miles to Acres Converter', description: 'Convert square miles to acres.', slug: 'square-miles-to-acres-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-mile', to: 'acre' } },
+  { id: 333, name: 'Acres to Square Miles Converter', description: 'Convert acres to square miles.', slug: 'acres-to-square-miles-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'acre', to: 'square-mile' } },
+  { id: 334, name: 'Square Meters to Square Yards Converter', description: 'Convert square meters to square yards.', slug: 'square-meters-to-square-yards-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-meter', to: 'square-yard' } },
+  { id: 335, name: 'Square Yards to Square Meters Converter', description: 'Convert square yards to square meters.', slug: 'square-yards-to-square-meters-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-yard', to: 'square-meter' } },
+  { id: 336, name: 'Square Centimeters to Square Meters Converter', description: 'Convert square centimeters to square meters.', slug: 'square-centimeters-to-square-meters-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-centimeter', to: 'square-meter' } },
+  { id: 337, name: 'Square Meters to Square Centimeters Converter', description: 'Convert square meters to square centimeters.', slug: 'square-meters-to-square-centimeters-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-meter', to: 'square-centimeter' } },
+  { id: 338, name: 'Hectares to Square Kilometers Converter', description: 'Convert hectares to square kilometers.', slug: 'hectares-to-square-kilometers-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'hectare', to: 'square-kilometer' } },
+  { id: 339, name: 'Square Kilometers to Hectares Converter', description: 'Convert square kilometers to hectares.', slug: 'square-kilometers-to-hectares-converter', category: 'conversions', subcategory: 'Area', conversion: { from: 'square-kilometer', to: 'hectare' } },
+  { id: 340, name: 'Liters to Gallons Converter', description: 'Convert liters to US or Imperial gallons.', slug: 'liters-to-gallons-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'liter', to: 'us-gallon' } },
+  { id: 341, name: 'Gallons to Liters Converter', description: 'Convert US or Imperial gallons to liters.', slug: 'gallons-to-liters-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'us-gallon', to: 'liter' } },
+  { id: 342, name: 'Milliliters to Cups Converter', description: 'Convert milliliters to US or Imperial cups.', slug: 'milliliters-to-cups-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'milliliter', to: 'us-cup' } },
+  { id: 343, name: 'Cups to Milliliters Converter', description: 'Convert US or Imperial cups to milliliters.', slug: 'cups-to-milliliters-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'us-cup', to: 'milliliter' } },
+  { id: 344, name: 'Pints to Liters Converter', description: 'Convert US or Imperial pints to liters.', slug: 'pints-to-liters-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'us-pint', to: 'liter' } },
+  { id: 345, name: 'Liters to Pints Converter', description: 'Convert liters to US or Imperial pints.', slug: 'liters-to-pints-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'liter', to: 'us-pint' } },
+  { id: 346, name: 'Quarts to Liters Converter', description: 'Convert US or Imperial quarts to liters.', slug: 'quarts-to-liters-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'us-quart', to: 'liter' } },
+  { id: 347, name: 'Liters to Quarts Converter', description: 'Convert liters to US or Imperial quarts.', slug: 'liters-to-quarts-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'liter', to: 'us-quart' } },
+  { id: 348, name: 'Cubic Meters to Liters Converter', description: 'Convert cubic meters to liters.', slug: 'cubic-meters-to-liters-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'cubic-meter', to: 'liter' } },
+  { id: 349, name: 'Liters to Cubic Meters Converter', description: 'Convert liters to cubic meters.', slug: 'liters-to-cubic-meters-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'liter', to: 'cubic-meter' } },
+  { id: 350, name: 'Cubic Feet to Gallons Converter', description: 'Convert cubic feet to US or Imperial gallons.', slug: 'cubic-feet-to-gallons-converter', category: 'conversions', subcategory: 'Volume', tags: ['home & energy'], conversion: { from: 'cubic-foot', to: 'us-gallon' } },
+  { id: 351, name: 'Gallons to Cubic Feet Converter', description: 'Convert US or Imperial gallons to cubic feet.', slug: 'gallons-to-cubic-feet-converter', category: 'conversions', subcategory: 'Volume', tags: ['home & energy'], conversion: { from: 'us-gallon', to: 'cubic-foot' } },
+  { id: 352, name: 'Cubic Inches to Milliliters Converter', description: 'Convert cubic inches to milliliters.', slug: 'cubic-inches-to-milliliters-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'cubic-inch', to: 'milliliter' } },
+  { id: 353, name: 'Milliliters to Cubic Inches Converter', description: 'Convert milliliters to cubic inches.', slug: 'milliliters-to-cubic-inches-converter', category: 'conversions', subcategory: 'Volume', conversion: { from: 'milliliter', to: 'cubic-inch' } },
+  { id: 354, name: 'Tablespoons to Milliliters Converter', description: 'Convert tablespoons to milliliters.', slug: 'tablespoons-to-milliliters-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'us-tablespoon', to: 'milliliter' } },
+  { id: 355, name: 'Milliliters to Tablespoons Converter', description: 'Convert milliliters to tablespoons.', slug: 'milliliters-to-tablespoons-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'milliliter', to: 'us-tablespoon' } },
+  { id: 356, name: 'Teaspoons to Milliliters Converter', description: 'Convert teaspoons to milliliters.', slug: 'teaspoons-to-milliliters-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'us-teaspoon', to: 'milliliter' } },
+  { id: 357, name: 'Milliliters to Teaspoons Converter', description: 'Convert milliliters to teaspoons.', slug: 'milliliters-to-teaspoons-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'milliliter', to: 'us-teaspoon' } },
+  { id: 358, name: 'Ounces (fl oz) to Milliliters Converter', description: 'Convert US or Imperial fluid ounces to milliliters.', slug: 'ounces-to-milliliters-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'us-fluid-ounce', to: 'milliliter' } },
+  { id: 359, name: 'Milliliters to Ounces (fl oz) Converter', description: 'Convert milliliters to US or Imperial fluid ounces.', slug: 'milliliters-to-ounces-converter', category: 'conversions', subcategory: 'Volume', tags: ['cooking'], conversion: { from: 'milliliter', to: 'us-fluid-ounce' } },
+  { id: 360, name: 'Kilograms to Pounds Converter', description: 'Convert kilograms to pounds.', slug: 'kilograms-to-pounds-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['fitness'], conversion: { from: 'kilogram', to: 'pound' } },
+  { id: 361, name: 'Pounds to Kilograms Converter', description: 'Convert pounds to kilograms.', slug: 'pounds-to-kilograms-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['fitness'], conversion: { from: 'pound', to: 'kilogram' } },
+  { id: 362, name: 'Grams to Ounces Converter', description: 'Convert grams to ounces.', slug: 'grams-to-ounces-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['cooking'], conversion: { from: 'gram', to: 'ounce' } },
+  { id: 363, name: 'Ounces to Grams Converter', description: 'Convert ounces to grams.', slug: 'ounces-to-grams-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['cooking'], conversion: { from: 'ounce', to: 'gram' } },
+  { id: 364, name: 'Milligrams to Grams Converter', description: 'Convert milligrams to grams.', slug: 'milligrams-to-grams-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'milligram', to: 'gram' } },
+  { id: 365, name: 'Grams to Milligrams Converter', description: 'Convert grams to milligrams.', slug: 'grams-to-milligrams-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'gram', to: 'milligram' } },
+  { id: 366, name: 'Kilograms to Ounces Converter', description: 'Convert kilograms to ounces.', slug: 'kilograms-to-ounces-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'kilogram', to: 'ounce' } },
+  { id: 367, name: 'Ounces to Kilograms Converter', description: 'Convert ounces to kilograms.', slug: 'ounces-to-kilograms-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'ounce', to: 'kilogram' } },
+  { id: 368, name: 'Stones to Pounds Converter', description: 'Convert stones to pounds.', slug: 'stones-to-pounds-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['fitness'], conversion: { from: 'stone', to: 'pound' } },
+  { id: 369, name: 'Pounds to Stones Converter', description: 'Convert pounds to stones.', slug: 'pounds-to-stones-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['fitness'], conversion: { from: 'pound', to: 'stone' } },
+  { id: 370, name: 'Tons (Metric) to Pounds Converter', description: 'Convert metric tons to pounds.', slug: 'tons-metric-to-pounds-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'metric-ton', to: 'pound' } },
+  { id: 371, name: 'Pounds to Tons (Metric) Converter', description: 'Convert pounds to metric tons.', slug: 'pounds-to-tons-metric-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'pound', to: 'metric-ton' } },
+  { id: 372, name: 'Short Tons (US) to Metric Tons Converter', description: 'Convert US short tons to metric tons.', slug: 'short-tons-us-to-metric-tons-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'short-ton', to: 'metric-ton' } },
+  { id: 373, name: 'Metric Tons to Short Tons (US) Converter', description: 'Convert metric tons to US short tons.', slug: 'metric-tons-to-short-tons-us-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'metric-ton', to: 'short-ton' } },
+  { id: 374, name: 'Micrograms to Milligrams Converter', description: 'Convert micrograms to milligrams.', slug: 'micrograms-to-milligrams-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'microgram', to: 'milligram' } },
+  { id: 375, name: 'Milligrams to Micrograms Converter', description: 'Convert milligrams to micrograms.', slug: 'milligrams-to-micrograms-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'milligram', to: 'microgram' } },
+  { id: 376, name: 'Carats to Grams Converter', description: 'Convert carats to grams.', slug: 'carats-to-grams-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'carat', to: 'gram' } },
+  { id: 377, name: 'Grams to Carats Converter', description: 'Convert grams to carats.', slug: 'grams-to-carats-converter', category: 'conversions', subcategory: 'Weight & Mass', conversion: { from: 'gram', to: 'carat' } },
+  { id: 378, name: 'Kilograms to Stones Converter', description: 'Convert kilograms to stones.', slug: 'kilograms-to-stones-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['fitness'], conversion: { from: 'kilogram', to: 'stone' } },
+  { id: 379, name: 'Stones to Kilograms Converter', description: 'Convert stones to kilograms.', slug: 'stones-to-kilograms-converter', category: 'conversions', subcategory: 'Weight & Mass', tags: ['fitness'], conversion: { from: 'stone', to: 'kilogram' } },
+  { id: 380, name: 'Kilometers per Hour to Miles per Hour Converter', description: 'Convert km/h to mph.', slug: 'kilometers-per-hour-to-miles-per-hour-converter', category: 'conversions', subcategory: 'Speed', tags: ['travel', 'automotive'], conversion: { from: 'kilometer-per-hour', to: 'mile-per-hour' } },
+  { id: 381, name: 'Miles per Hour to Kilometers per Hour Converter', description: 'Convert mph to km/h.', slug: 'miles-per-hour-to-kilometers-per-hour-converter', category: 'conversions', subcategory: 'Speed', tags: ['travel', 'automotive'], conversion: { from: 'mile-per-hour', to: 'kilometer-per-hour' } },
+  { id: 382, name: 'Meters per Second to Kilometers per Hour Converter', description: 'Convert m/s to km/h.', slug: 'meters-per-second-to-kilometers-per-hour-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'meter-per-second', to: 'kilometer-per-hour' } },
+  { id: 383, name: 'Kilometers per Hour to Meters per Second Converter', description: 'Convert km/h to m/s.', slug: 'kilometers-per-hour-to-meters-per-second-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'kilometer-per-hour', to: 'meter-per-second' } },
+  { id: 384, name: 'Miles per Hour to Meters per Second Converter', description: 'Convert mph to m/s.', slug: 'miles-per-hour-to-meters-per-second-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'mile-per-hour', to: 'meter-per-second' } },
+  { id: 385, name: 'Meters per Second to Miles per Hour Converter', description: 'Convert m/s to mph.', slug: 'meters-per-second-to-miles-per-hour-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'meter-per-second', to: 'mile-per-hour' } },
+  { id: 386, name: 'Feet per Second to Meters per Second Converter', description: 'Convert ft/s to m/s.', slug: 'feet-per-second-to-meters-per-second-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'foot-per-second', to: 'meter-per-second' } },
+  { id: 387, name: 'Meters per Second to Feet per Second Converter', description: 'Convert m/s to ft/s.', slug: 'meters-per-second-to-feet-per-second-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'meter-per-second', to: 'foot-per-second' } },
+  { id: 388, name: 'Knots to Kilometers per Hour Converter', description: 'Convert knots to km/h.', slug: 'knots-to-kilometers-per-hour-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'knot', to: 'kilometer-per-hour' } },
+  { id: 389, name: 'Kilometers per Hour to Knots Converter', description: 'Convert km/h to knots.', slug: 'kilometers-per-hour-to-knots-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'kilometer-per-hour', to: 'knot' } },
+  { id: 390, name: 'Knots to Miles per Hour Converter', description: 'Convert knots to mph.', slug: 'knots-to-miles-per-hour-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'knot', to: 'mile-per-hour' } },
+  { id: 391, name: 'Miles per Hour to Knots Converter', description: 'Convert mph to knots.', slug: 'miles-per-hour-to-knots-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'mile-per-hour', to: 'knot' } },
+  { id: 392, name: 'Mach Number to Kilometers per Hour Converter', description: 'Convert Mach to km/h.', slug: 'mach-number-to-kilometers-per-hour-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'mach', to: 'kilometer-per-hour' } },
+  { id: 393, name: 'Kilometers per Hour to Mach Number Converter', description: 'Convert km/h to Mach.', slug: 'kilometers-per-hour-to-mach-number-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'kilometer-per-hour', to: 'mach' } },
+  { id: 394, name: 'Mach Number to Miles per Hour Converter', description: 'Convert Mach to mph.', slug: 'mach-number-to-miles-per-hour-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'mach', to: 'mile-per-hour' } },
+  { id: 395, name: 'Miles per Hour to Mach Number Converter', description: 'Convert mph to Mach.', slug: 'miles-per-hour-to-mach-number-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'mile-per-hour', to: 'mach' } },
+  { id: 396, name: 'Meters per Second to Knots Converter', description: 'Convert m/s to knots.', slug: 'meters-per-second-to-knots-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'meter-per-second', to: 'knot' } },
+  { id: 397, name: 'Knots to Meters per Second Converter', description: 'Convert knots to m/s.', slug: 'knots-to-meters-per-second-converter', category: 'conversions', subcategory: 'Speed', tags: ['marine & aviation'], conversion: { from: 'knot', to: 'meter-per-second' } },
+  { id: 398, name: 'Feet per Second to Miles per Hour Converter', description: 'Convert ft/s to mph.', slug: 'feet-per-second-to-miles-per-hour-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'foot-per-second', to: 'mile-per-hour' } },
+  { id: 399, name: 'Miles per Hour to Feet per Second Converter', description: 'Convert mph to ft/s.', slug: 'miles-per-hour-to-feet-per-second-converter', category: 'conversions', subcategory: 'Speed', conversion: { from: 'mile-per-hour', to: 'foot-per-second' } },
+  { id: 400, name: 'Seconds to Minutes Converter', description: 'Convert seconds to minutes.', slug: 'seconds-to-minutes-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'second', to: 'minute' } },
+  { id: 401, name: 'Minutes to Seconds Converter', description: 'Convert minutes to seconds.', slug: 'minutes-to-seconds-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'minute', to: 'second' } },
+  { id: 402, name: 'Minutes to Hours Converter', description: 'Convert minutes to hours.', slug: 'minutes-to-hours-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'minute', to: 'hour' } },
+  { id: 403, name: 'Hours to Minutes Converter', description: 'Convert hours to minutes.', slug: 'hours-to-minutes-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'hour', to: 'minute' } },
+  { id: 404, name: 'Hours to Days Converter', description: 'Convert hours to days.', slug: 'hours-to-days-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'hour', to: 'day' } },
+  { id: 405, name: 'Days to Hours Converter', description: 'Convert days to hours.', slug: 'days-to-hours-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'day', to: 'hour' } },
+  { id: 406, name: 'Days to Weeks Converter', description: 'Convert days to weeks.', slug: 'days-to-weeks-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'day', to: 'week' } },
+  { id: 407, name: 'Weeks to Days Converter', description: 'Convert weeks to days.', slug: 'weeks-to-days-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'week', to: 'day' } },
+  { id: 408, name: 'Weeks to Months Converter', description: 'Convert weeks to months (approximate).', slug: 'weeks-to-months-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'week', to: 'month' } },
+  { id: 409, name: 'Months to Weeks Converter', description: 'Convert months to weeks (approximate).', slug: 'months-to-weeks-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'month', to: 'week' } },
+  { id: 410, name: 'Months to Years Converter', description: 'Convert months to years.', slug: 'months-to-years-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'month', to: 'year' } },
+  { id: 411, name: 'Years to Months Converter', description: 'Convert years to months.', slug: 'years-to-months-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'year', to: 'month' } },
+  { id: 412, name: 'Seconds to Hours Converter', description: 'Convert seconds to hours.', slug: 'seconds-to-hours-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'second', to: 'hour' } },
+  { id: 413, name: 'Hours to Seconds Converter', description: 'Convert hours to seconds.', slug: 'hours-to-seconds-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'hour', to: 'second' } },
+  { id: 414, name: 'Seconds to Days Converter', description: 'Convert seconds to days.', slug: 'seconds-to-days-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'second', to: 'day' } },
+  { id: 415, name: 'Days to Seconds Converter', description: 'Convert days to seconds.', slug: 'days-to-seconds-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'day', to: 'second' } },
+  { id: 416, name: 'Seconds to Weeks Converter', description: 'Convert seconds to weeks.', slug: 'seconds-to-weeks-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'second', to: 'week' } },
+  { id: 417, name: 'Weeks to Seconds Converter', description: 'Convert weeks to seconds.', slug: 'weeks-to-seconds-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'week', to: 'second' } },
+  { id: 418, name: 'Minutes to Days Converter', description: 'Convert minutes to days.', slug: 'minutes-to-days-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'minute', to: 'day' } },
+  { id: 419, name: 'Days to Minutes Converter', description: 'Convert days to minutes.', slug: 'days-to-minutes-converter', category: 'conversions', subcategory: 'Time', conversion: { from: 'day', to: 'minute' } },
+  { id: 420, name: 'Pascals to Atmospheres Converter', description: 'Convert Pascals (Pa) to standard atmospheres (atm).', slug: 'pascals-to-atmospheres-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'pascal', to: 'atmosphere' } },
+  { id: 421, name: 'Atmospheres to Pascals Converter', description: 'Convert standard atmospheres (atm) to Pascals (Pa).', slug: 'atmospheres-to-pascals-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'atmosphere', to: 'pascal' } },
+  { id: 422, name: 'Pascals to Bars Converter', description: 'Convert Pascals (Pa) to bars.', slug: 'pascals-to-bars-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'pascal', to: 'bar' } },
+  { id: 423, name: 'Bars to Pascals Converter', description: 'Convert bars to Pascals (Pa).', slug: 'bars-to-pascals-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'bar', to: 'pascal' } },
+  { id: 424, name: 'Pascals to Pounds per Square Inch Converter', description: 'Convert Pascals (Pa) to psi.', slug: 'pascals-to-psi-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'pascal', to: 'psi' } },
+  { id: 425, name: 'Pounds per Square Inch to Pascals Converter', description: 'Convert psi to Pascals (Pa).', slug: 'psi-to-pascals-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'psi', to: 'pascal' } },
+  { id: 426, name: 'Atmospheres to Bars Converter', description: 'Convert standard atmospheres (atm) to bars.', slug: 'atmospheres-to-bars-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'atmosphere', to: 'bar' } },
+  { id: 427, name: 'Bars to Atmospheres Converter', description: 'Convert bars to standard atmospheres (atm).', slug: 'bars-to-atmospheres-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'bar', to: 'atmosphere' } },
+  { id: 428, name: 'Atmospheres to Pounds per Square Inch Converter', description: 'Convert standard atmospheres (atm) to psi.', slug: 'atmospheres-to-psi-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'atmosphere', to: 'psi' } },
+  { id: 429, name: 'Pounds per Square Inch to Atmospheres Converter', description: 'Convert psi to standard atmospheres (atm).', slug: 'psi-to-atmospheres-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'psi', to: 'atmosphere' } },
+  { id: 430, name: 'Bars to Pounds per Square Inch Converter', description: 'Convert bars to psi.', slug: 'bars-to-psi-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'bar', to: 'psi' } },
+  { id: 431, name: 'Pounds per Square Inch to Bars Converter', description: 'Convert psi to bars.', slug: 'psi-to-bars-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'psi', to: 'bar' } },
+  { id: 432, name: 'Torr to Pascals Converter', description: 'Convert Torr (mmHg) to Pascals (Pa).', slug: 'torr-to-pascals-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'torr', to: 'pascal' } },
+  { id: 433, name: 'Pascals to Torr Converter', description: 'Convert Pascals (Pa) to Torr (mmHg).', slug: 'pascals-to-torr-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'pascal', to: 'torr' } },
+  { id: 434, name: 'Torr to Atmospheres Converter', description: 'Convert Torr (mmHg) to standard atmospheres (atm).', slug: 'torr-to-atmospheres-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'torr', to: 'atmosphere' } },
+  { id: 435, name: 'Atmospheres to Torr Converter', description: 'Convert standard atmospheres (atm) to Torr (mmHg).', slug: 'atmospheres-to-torr-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'atmosphere', to: 'torr' } },
+  { id: 436, name: 'Kilopascals to Pounds per Square Inch Converter', description: 'Convert kPa to psi.', slug: 'kpa-to-psi-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'kilopascal', to: 'psi' } },
+  { id: 437, name: 'Pounds per Square Inch to Kilopascals Converter', description: 'Convert psi to kPa.', slug: 'psi-to-kpa-converter', category: 'conversions', subcategory: 'Pressure', tags: ['automotive'], conversion: { from: 'psi', to: 'kilopascal' } },
+  { id: 438, name: 'Millimeters of Mercury to Bars Converter', description: 'Convert mmHg to bars.', slug: 'mmhg-to-bars-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'mmhg', to: 'bar' } },
+  { id: 439, name: 'Bars to Millimeters of Mercury Converter', description: 'Convert bars to mmHg.', slug: 'bars-to-mmhg-converter', category: 'conversions', subcategory: 'Pressure', conversion: { from: 'bar', to: 'mmhg' } },
+  { id: 440, name: 'Joules to Kilojoules Converter', description: 'Convert Joules (J) to Kilojoules (kJ).', slug: 'joules-to-kilojoules-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'joule', to: 'kilojoule' } },
+  { id: 441, name: 'Kilojoules to Joules Converter', description: 'Convert Kilojoules (kJ) to Joules (J).', slug: 'kilojoules-to-joules-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'kilojoule', to: 'joule' } },
+  { id: 442, name: 'Joules to Calories Converter', description: 'Convert Joules (J) to thermochemical calories (cal).', slug: 'joules-to-calories-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'joule', to: 'calorie' } },
+  { id: 443, name: 'Calories to Joules Converter', description: 'Convert thermochemical calories (cal) to Joules (J).', slug: 'calories-to-joules-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'calorie', to: 'joule' } },
+  { id: 444, name: 'Joules to Kilocalories Converter', description: 'Convert Joules (J) to Kilocalories (kcal).', slug: 'joules-to-kilocalories-converter', category: 'conversions', subcategory: 'Energy', tags: ['fitness'], conversion: { from: 'joule', to: 'kilocalorie' } },
+  { id: 445, name: 'Kilocalories to Joules Converter', description: 'Convert Kilocalories (kcal) to Joules (J).', slug: 'kilocalories-to-joules-converter', category: 'conversions', subcategory: 'Energy', tags: ['fitness'], conversion: { from: 'kilocalorie', to: 'joule' } },
+  { id: 446, name: 'Joules to Watt-hours Converter', description: 'Convert Joules (J) to Watt-hours (Wh).', slug: 'joules-to-watt-hours-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'joule', to: 'watt-hour' } },
+  { id: 447, name: 'Watt-hours to Joules Converter', description: 'Convert Watt-hours (Wh) to Joules (J).', slug: 'watt-hours-to-joules-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'watt-hour', to: 'joule' } },
+  { id: 448, name: 'Kilowatt-hours to Joules Converter', description: 'Convert Kilowatt-hours (kWh) to Joules (J).', slug: 'kwh-to-joules-converter', category: 'conversions', subcategory: 'Energy', tags: ['home & energy'], conversion: { from: 'kilowatt-hour', to: 'joule' } },
+  { id: 449, name: 'Joules to Kilowatt-hours Converter', description: 'Convert Joules (J) to Kilowatt-hours (kWh).', slug: 'joules-to-kwh-converter', category: 'conversions', subcategory: 'Energy', tags: ['home & energy'], conversion: { from: 'joule', to: 'kilowatt-hour' } },
+  { id: 450, name: 'Calories to Kilocalories Converter', description: 'Convert small calories (cal) to nutritional Calories (kcal).', slug: 'calories-to-kilocalories-converter', category: 'conversions', subcategory: 'Energy', tags: ['fitness'], conversion: { from: 'calorie', to: 'kilocalorie' } },
+  { id: 451, name: 'Kilocalories to Calories Converter', description: 'Convert nutritional Calories (kcal) to small calories (cal).', slug: 'kilocalories-to-calories-converter', category: 'conversions', subcategory: 'Energy', tags: ['fitness'], conversion: { from: 'kilocalorie', to: 'calorie' } },
+  { id: 452, name: 'British Thermal Units to Joules Converter', description: 'Convert BTU to Joules (J).', slug: 'btu-to-joules-converter', category: 'conversions', subcategory: 'Energy', tags: ['home & energy'], conversion: { from: 'btu', to: 'joule' } },
+  { id: 453, name: 'Joules to British Thermal Units Converter', description: 'Convert Joules (J) to BTU.', slug: 'joules-to-btu-converter', category: 'conversions', subcategory: 'Energy', tags: ['home & energy'], conversion: { from: 'joule', to: 'btu' } },
+  { id: 454, name: 'Kilowatt-hours to BTU Converter', description: 'Convert kWh to British Thermal Units (BTU).', slug: 'kwh-to-btu-converter', category: 'conversions', subcategory: 'Energy', tags: ['home & energy'], conversion: { from: 'kilowatt-hour', to: 'btu' } },
+  { id: 455, name: 'BTU to Kilowatt-hours Converter', description: 'Convert British Thermal Units (BTU) to kWh.', slug: 'btu-to-kwh-converter', category: 'conversions', subcategory: 'Energy', tags: ['home & energy'], conversion: { from: 'btu', to: 'kilowatt-hour' } },
+  { id: 456, name: 'Electronvolts to Joules Converter', description: 'Convert electronvolts (eV) to Joules (J).', slug: 'electronvolts-to-joules-converter', category: 'conversions', subcategory: 'Energy', tags: ['science'], conversion: { from: 'electronvolt', to: 'joule' } },
+  { id: 457, name: 'Joules to Electronvolts Converter', description: 'Convert Joules (J) to electronvolts (eV).', slug: 'joules-to-electronvolts-converter', category: 'conversions', subcategory: 'Energy', tags: ['science'], conversion: { from: 'joule', to: 'electronvolt' } },
+  { id: 458, name: 'Foot-Pounds to Joules Converter', description: 'Convert foot-pounds (ft·lb) to Joules (J).', slug: 'foot-pounds-to-joules-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'foot-pound', to: 'joule' } },
+  { id: 459, name: 'Joules to Foot-Pounds Converter', description: 'Convert Joules (J) to foot-pounds (ft·lb).', slug: 'joules-to-foot-pounds-converter', category: 'conversions', subcategory: 'Energy', conversion: { from: 'joule', to: 'foot-pound' } },
+  { id: 460, name: 'Watts to Kilowatts Converter', description: 'Convert Watts (W) to Kilowatts (kW).', slug: 'watts-to-kilowatts-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'watt', to: 'kilowatt' } },
+  { id: 461, name: 'Kilowatts to Watts Converter', description: 'Convert Kilowatts (kW) to Watts (W).', slug: 'kilowatts-to-watts-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'kilowatt', to: 'watt' } },
+  { id: 462, name: 'Watts to Megawatts Converter', description: 'Convert Watts (W) to Megawatts (MW).', slug: 'watts-to-megawatts-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'watt', to: 'megawatt' } },
+  { id: 463, name: 'Megawatts to Watts Converter', description: 'Convert Megawatts (MW) to Watts (W).', slug: 'megawatts-to-watts-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'megawatt', to: 'watt' } },
+  { id: 464, name: 'Kilowatts to Megawatts Converter', description: 'Convert Kilowatts (kW) to Megawatts (MW).', slug: 'kilowatts-to-megawatts-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'kilowatt', to: 'megawatt' } },
+  { id: 465, name: 'Megawatts to Kilowatts Converter', description: 'Convert Megawatts (MW) to Kilowatts (kW).', slug: 'megawatts-to-kilowatts-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'megawatt', to: 'kilowatt' } },
+  { id: 466, name: 'Watts to Horsepower Converter', description: 'Convert Watts (W) to mechanical horsepower (hp).', slug: 'watts-to-horsepower-converter', category: 'conversions', subcategory: 'Power', tags: ['automotive'], conversion: { from: 'watt', to: 'horsepower' } },
+  { id: 467, name: 'Horsepower to Watts Converter', description: 'Convert mechanical horsepower (hp) to Watts (W).', slug: 'horsepower-to-watts-converter', category: 'conversions', subcategory: 'Power', tags: ['automotive'], conversion: { from: 'horsepower', to: 'watt' } },
+  { id: 468, name: 'Kilowatts to Horsepower Converter', description: 'Convert Kilowatts (kW) to mechanical horsepower (hp).', slug: 'kilowatts-to-horsepower-converter', category: 'conversions', subcategory: 'Power', tags: ['automotive'], conversion: { from: 'kilowatt', to: 'horsepower' } },
+  { id: 469, name: 'Horsepower to Kilowatts Converter', description: 'Convert mechanical horsepower (hp) to Kilowatts (kW).', slug: 'horsepower-to-kilowatts-converter', category: 'conversions', subcategory: 'Power', tags: ['automotive'], conversion: { from: 'horsepower', to: 'kilowatt' } },
+  { id: 470, name: 'Watts to dBm Converter', description: 'Convert power in Watts to decibel-milliwatts (dBm).', slug: 'watts-to-dbm-converter', category: 'conversions', subcategory: 'Power', tags: ['science'] },
+  { id: 471, name: 'dBm to Watts Converter', description: 'Convert power in decibel-milliwatts (dBm) to Watts.', slug: 'dbm-to-watts-converter', category: 'conversions', subcategory: 'Power', tags: ['science'] },
+  { id: 472, name: 'Watts to BTU per Hour Converter', description: 'Convert power in Watts to BTU/hr.', slug: 'watts-to-btu-per-hour-converter', category: 'conversions', subcategory: 'Power', tags: ['home & energy'], conversion: { from: 'watt', to: 'btu-per-hour' } },
+  { id: 473, name: 'BTU per Hour to Watts Converter', description: 'Convert power in BTU/hr to Watts.', slug: 'btu-per-hour-to-watts-converter', category: 'conversions', subcategory: 'Power', tags: ['home & energy'], conversion: { from: 'btu-per-hour', to: 'watt' } },
+  { id: 474, name: 'Kilowatts to BTU per Hour Converter', description: 'Convert power in Kilowatts to BTU/hr.', slug: 'kilowatts-to-btu-per-hour-converter', category: 'conversions', subcategory: 'Power', tags: ['home & energy'], conversion: { from: 'kilowatt', to: 'btu-per-hour' } },
+  { id: 475, name: 'BTU per Hour to Kilowatts Converter', description: 'Convert power in BTU/hr to Kilowatts.', slug: 'btu-per-hour-to-kilowatts-converter', category: 'conversions', subcategory: 'Power', tags: ['home & energy'], conversion: { from: 'btu-per-hour', to: 'kilowatt' } },
+  { id: 476, name: 'Ergs per Second to Watts Converter', description: 'Convert power in ergs per second to Watts.', slug: 'ergs-per-second-to-watts-converter', category: 'conversions', subcategory: 'Power', tags: ['science'], conversion: { from: 'erg-per-second', to: 'watt' } },
+  { id: 477, name: 'Watts to Ergs per Second Converter', description: 'Convert power in Watts to ergs per second.', slug: 'watts-to-ergs-per-second-converter', category: 'conversions', subcategory: 'Power', tags: ['science'], conversion: { from: 'watt', to: 'erg-per-second' } },
+  { id: 478, name: 'Foot-Pounds per Second to Watts Converter', description: 'Convert power in ft·lb/s to Watts.', slug: 'foot-pounds-per-second-to-watts-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'foot-pound-per-second', to: 'watt' } },
+  { id: 479, name: 'Watts to Foot-Pounds per Second Converter', description: 'Convert power in Watts to ft·lb/s.', slug: 'watts-to-foot-pounds-per-second-converter', category: 'conversions', subcategory: 'Power', conversion: { from: 'watt', to: 'foot-pound-per-second' } },
+  { id: 488, name: 'Celsius to Fahrenheit Converter', description: 'Convert temperatures in degrees Celsius to degrees Fahrenheit.', slug: 'celsius-to-fahrenheit-converter', category: 'conversions', subcategory: 'Temperature', tags: ['cooking', 'travel'], conversion: { from: 'celsius', to: 'fahrenheit' } },
+  { id: 489, name: 'Fahrenheit to Celsius Converter', description: 'Convert temperatures in degrees Fahrenheit to degrees Celsius.', slug: 'fahrenheit-to-celsius-converter', category: 'conversions', subcategory: 'Temperature', tags: ['cooking', 'travel'], conversion: { from: 'fahrenheit', to: 'celsius' } },
+  { id: 490, name: 'Celsius to Kelvin Converter', description: 'Convert temperatures in degrees Celsius to kelvins.', slug: 'celsius-to-kelvin-converter', category: 'conversions', subcategory: 'Temperature', tags: ['science'], conversion: { from: 'celsius', to: 'kelvin' } },
+  { id: 491, name: 'Kelvin to Celsius Converter', description: 'Convert temperatures in kelvins to degrees Celsius.', slug: 'kelvin-to-celsius-converter', category: 'conversions', subcategory: 'Temperature', tags: ['science'], conversion: { from: 'kelvin', to: 'celsius' } },
+  { id: 492, name: 'Fahrenheit to Kelvin Converter', description: 'Convert temperatures in degrees Fahrenheit to kelvins.', slug: 'fahrenheit-to-kelvin-converter', category: 'conversions', subcategory: 'Temperature', tags: ['science'], conversion: { from: 'fahrenheit', to: 'kelvin' } },
+  { id: 493, name: 'Kelvin to Fahrenheit Converter', description: 'Convert temperatures in kelvins to degrees Fahrenheit.', slug: 'kelvin-to-fahrenheit-converter', category: 'conversions', subcategory: 'Temperature', tags: ['science'], conversion: { from: 'kelvin', to: 'fahrenheit' } },
+  { id: 494, name: 'Fahrenheit to Rankine Converter', description: 'Convert temperatures in degrees Fahrenheit to degrees Rankine.', slug: 'fahrenheit-to-rankine-converter', category: 'conversions', subcategory: 'Temperature', tags: ['science'], conversion: { from: 'fahrenheit', to: 'rankine' } },
+  { id: 495, name: 'Rankine to Kelvin Converter', description: 'Convert absolute temperatures in degrees Rankine to kelvins.', slug: 'rankine-to-kelvin-converter', category: 'conversions', subcategory: 'Temperature', tags: ['science'], conversion: { from: 'rankine', to: 'kelvin' } },
+  { id: 496, name: 'MPG to Liters per 100 km Converter', description: 'Convert fuel economy in US miles per gallon to liters per 100 kilometers.', slug: 'mpg-to-liters-per-100-km-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['travel', 'automotive'], conversion: { from: 'mile-per-us-gallon', to: 'liter-per-100-kilometers' } },
+  { id: 497, name: 'Liters per 100 km to MPG Converter', description: 'Convert fuel consumption in liters per 100 kilometers to US miles per gallon.', slug: 'liters-per-100-km-to-mpg-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['travel', 'automotive'], conversion: { from: 'liter-per-100-kilometers', to: 'mile-per-us-gallon' } },
+  { id: 498, name: 'UK MPG to Liters per 100 km Converter', description: 'Convert fuel economy in imperial miles per gallon to liters per 100 kilometers.', slug: 'uk-mpg-to-liters-per-100-km-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['travel', 'automotive'], conversion: { from: 'mile-per-imperial-gallon', to: 'liter-per-100-kilometers' } },
+  { id: 499, name: 'Liters per 100 km to UK MPG Converter', description: 'Convert fuel consumption in liters per 100 kilometers to imperial miles per gallon.', slug: 'liters-per-100-km-to-uk-mpg-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['travel', 'automotive'], conversion: { from: 'liter-per-100-kilometers', to: 'mile-per-imperial-gallon' } },
+  { id: 500, name: 'US MPG to UK MPG Converter', description: 'Convert US miles per gallon to imperial (UK) miles per gallon.', slug: 'us-mpg-to-uk-mpg-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['automotive'], conversion: { from: 'mile-per-us-gallon', to: 'mile-per-imperial-gallon' } },
+  { id: 501, name: 'UK MPG to US MPG Converter', description: 'Convert imperial (UK) miles per gallon to US miles per gallon.', slug: 'uk-mpg-to-us-mpg-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['automotive'], conversion: { from: 'mile-per-imperial-gallon', to: 'mile-per-us-gallon' } },
+  { id: 502, name: 'Kilometers per Liter to Liters per 100 km Converter', description: 'Convert fuel economy in kilometers per liter to liters per 100 kilometers.', slug: 'kilometers-per-liter-to-liters-per-100-km-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['travel', 'automotive'], conversion: { from: 'kilometer-per-liter', to: 'liter-per-100-kilometers' } },
+  { id: 503, name: 'MPG to Kilometers per Liter Converter', description: 'Convert US miles per gallon to kilometers per liter.', slug: 'mpg-to-kilometers-per-liter-converter', category: 'conversions', subcategory: 'Fuel Economy', tags: ['automotive'], conversion: { from: 'mile-per-us-gallon', to: 'kilometer-per-liter' } },
+  { id: 504, name: 'Bits to Bytes Converter', description: 'Convert bits to bytes.', slug: 'bits-to-bytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'bit', to: 'byte' } },
+  { id: 505, name: 'Bytes to Bits Converter', description: 'Convert bytes to bits.', slug: 'bytes-to-bits-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'byte', to: 'bit' } },
+  { id: 506, name: 'Megabytes to Gigabytes Converter', description: 'Convert megabytes (MB) to gigabytes (GB) using decimal SI prefixes.', slug: 'megabytes-to-gigabytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'megabyte', to: 'gigabyte' } },
+  { id: 507, name: 'Gigabytes to Megabytes Converter', description: 'Convert gigabytes (GB) to megabytes (MB) using decimal SI prefixes.', slug: 'gigabytes-to-megabytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'gigabyte', to: 'megabyte' } },
+  { id: 508, name: 'Gigabytes to Terabytes Converter', description: 'Convert gigabytes (GB) to terabytes (TB).', slug: 'gigabytes-to-terabytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'gigabyte', to: 'terabyte' } },
+  { id: 509, name: 'Terabytes to Gigabytes Converter', description: 'Convert terabytes (TB) to gigabytes (GB).', slug: 'terabytes-to-gigabytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'terabyte', to: 'gigabyte' } },
+  { id: 510, name: 'Megabytes to Mebibytes Converter', description: 'Convert decimal megabytes (MB) to binary mebibytes (MiB).', slug: 'megabytes-to-mebibytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'megabyte', to: 'mebibyte' } },
+  { id: 511, name: 'Mebibytes to Megabytes Converter', description: 'Convert binary mebibytes (MiB) to decimal megabytes (MB).', slug: 'mebibytes-to-megabytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'mebibyte', to: 'megabyte' } },
+  { id: 512, name: 'Gigabytes to Gibibytes Converter', description: 'Convert decimal gigabytes (GB) to binary gibibytes (GiB), e.g. advertised vs reported disk size.', slug: 'gigabytes-to-gibibytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'gigabyte', to: 'gibibyte' } },
+  { id: 513, name: 'Gibibytes to Gigabytes Converter', description: 'Convert binary gibibytes (GiB) to decimal gigabytes (GB).', slug: 'gibibytes-to-gigabytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'gibibyte', to: 'gigabyte' } },
+  { id: 514, name: 'Terabytes to Tebibytes Converter', description: 'Convert decimal terabytes (TB) to binary tebibytes (TiB).', slug: 'terabytes-to-tebibytes-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'terabyte', to: 'tebibyte' } },
+  { id: 515, name: 'Mbps to MB/s Converter', description: 'Convert internet speeds in megabits per second to megabytes per second.', slug: 'mbps-to-megabytes-per-second-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'megabit-per-second', to: 'megabyte-per-second' } },
+  { id: 516, name: 'MB/s to Mbps Converter', description: 'Convert transfer rates in megabytes per second to megabits per second.', slug: 'megabytes-per-second-to-mbps-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'megabyte-per-second', to: 'megabit-per-second' } },
+  { id: 517, name: 'Gbps to Mbps Converter', description: 'Convert gigabits per second to megabits per second.', slug: 'gbps-to-mbps-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'gigabit-per-second', to: 'megabit-per-second' } },
+  { id: 518, name: 'Kbps to Mbps Converter', description: 'Convert kilobits per second to megabits per second.', slug: 'kbps-to-mbps-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'kilobit-per-second', to: 'megabit-per-second' } },
+  { id: 519, name: 'Mbps to MiB/s Converter', description: 'Convert megabits per second to the mebibytes per second shown by download managers.', slug: 'mbps-to-mebibytes-per-second-converter', category: 'conversions', subcategory: 'Data Storage & Transfer', tags: ['computing'], conversion: { from: 'megabit-per-second', to: 'mebibyte-per-second' } },
+  { id: 520, name: 'Degrees to Radians Converter', description: 'Convert angles in degrees to radians.', slug: 'degrees-to-radians-converter', category: 'conversions', subcategory: 'Angle', tags: ['science'], conversion: { from: 'degree', to: 'radian' } },
+  { id: 521, name: 'Radians to Degrees Converter', description: 'Convert angles in radians to degrees.', slug: 'radians-to-degrees-converter', category: 'conversions', subcategory: 'Angle', tags: ['science'], conversion: { from: 'radian', to: 'degree' } },
+  { id: 522, name: 'Degrees to Gradians Converter', description: 'Convert angles in degrees to gradians (gons).', slug: 'degrees-to-gradians-converter', category: 'conversions', subcategory: 'Angle', tags: ['science'], conversion: { from: 'degree', to: 'gradian' } },
+  { id: 523, name: 'Gradians to Degrees Converter', description: 'Convert angles in gradians (gons) to degrees.', slug: 'gradians-to-degrees-converter', category: 'conversions', subcategory: 'Angle', tags: ['science'], conversion: { from: 'gradian', to: 'degree' } },
+  { id: 524, name: 'Degrees to Arcminutes Converter', description: 'Convert angles in degrees to minutes of arc.', slug: 'degrees-to-arcminutes-converter', category: 'conversions', subcategory: 'Angle', tags: ['science'], conversion: { from: 'degree', to: 'arcminute' } },
+  { id: 525, name: 'Arcseconds to Degrees Converter', description: 'Convert angles in seconds of arc to degrees.', slug: 'arcseconds-to-degrees-converter', category: 'conversions', subcategory: 'Angle', tags: ['science'], conversion: { from: 'arcsecond', to: 'degree' } },
+  { id: 526, name: 'Hertz to Kilohertz Converter', description: 'Convert frequencies in hertz to kilohertz.', slug: 'hertz-to-kilohertz-converter', category: 'conversions', subcategory: 'Frequency', conversion: { from: 'hertz', to: 'kilohertz' } },
+  { id: 527, name: 'Kilohertz to Hertz Converter', description: 'Convert frequencies in kilohertz to hertz.', slug: 'kilohertz-to-hertz-converter', category: 'conversions', subcategory: 'Frequency', conversion: { from: 'kilohertz', to: 'hertz' } },
+  { id: 528, name: 'Megahertz to Gigahertz Converter', description: 'Convert frequencies in megahertz to gigahertz.', slug: 'megahertz-to-gigahertz-converter', category: 'conversions', subcategory: 'Frequency', conversion: { from: 'megahertz', to: 'gigahertz' } },
+  { id: 529, name: 'Gigahertz to Megahertz Converter', description: 'Convert frequencies in gigahertz to megahertz.', slug: 'gigahertz-to-megahertz-converter', category: 'conversions', subcategory: 'Frequency', conversion: { from: 'gigahertz', to: 'megahertz' } },
+  { id: 530, name: 'RPM to Hertz Converter', description: 'Convert rotational speed in revolutions per minute to hertz.', slug: 'rpm-to-hertz-converter', category: 'conversions', subcategory: 'Frequency', conversion: { from: 'revolution-per-minute', to: 'hertz' } },
+  { id: 531, name: 'Hertz to RPM Converter', description: 'Convert a frequency in hertz to revolutions per minute.', slug: 'hertz-to-rpm-converter', category: 'conversions', subcategory: 'Frequency', conversion: { from: 'hertz', to: 'revolution-per-minute' } },
+  { id: 480, name: 'Shoe Size Converter', description: 'Convert shoe sizes between international systems (US, UK, EU, etc.).', slug: 'shoe-size-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
+  { id: 481, name: 'Cloth Size Converter', description: 'Convert clothing sizes between international standards (US, UK, EU, etc.).', slug: 'cloth-size-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
+  { id: 482, name: 'Hat Size Converter', description: 'Convert between different hat sizing systems.', slug: 'hat-size-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
+  { id: 483, name: 'Ring Size Converter', description: 'Find your equivalent ring size in different countries.', slug: 'ring-size-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
+  { id: 484, name: 'Belt Size Converter', description: 'Convert belt sizes between different measurement systems.', slug: 'belt-size-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
+  { id: 485, name: 'Foot Length to Centimeters Converter', description: 'Convert a foot measurement to centimeters.', slug: 'foot-length-to-cm-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
+  { id: 486, name: 'Glove Size Converter', description: 'Find your glove size based on hand measurements.', slug: 'glove-size-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
+  { id: 487, name: 'Body Measurement to Clothing Size Converter', description: 'Estimate your clothing size from body measurements.', slug: 'body-measurement-to-cloth-size-converter', category: 'conversions', subcategory: 'Clothing & Sizes', tags: ['clothing'] },
   // Home Improvement
   {
     id: 1,
@@ -3356,14 +3918,14 @@ export const calculators: Calculator[] = [
     category: 'travel-adventure',
   },
   {
-    id: 3029,
+    id: 8029,
     name: 'Travel Carbon Footprint Calculator',
     description: 'Estimate CO₂e for flights, car, and train travel.',
     slug: 'travel-carbon-footprint-calculator',
     category: 'travel-adventure',
   },
   {
-    id: 3030,
+    id: 8030,
     name: 'Travel Time Zone & Jet Lag Planner',
     description: 'Plan time zone shifts and a simple jet lag schedule.',
     slug: 'travel-time-zone-jet-lag-planner',
@@ -3503,6 +4065,13 @@ export const calculators: Calculator[] = [
     slug: 'solar-panel-output-calculator',
     category: 'technology',
   },
+  {
+    id: 10123,
+    name: 'Code Time Complexity Estimator',
+    description: 'Visualize how O(1), O(log n), O(n), O(n log n), O(n^2) and O(2^n) grow with input size.',
+    slug: 'code-time-complexity-estimator',
+    category: 'technology',
+  },
   // Fun & Games
   {
     id: 75,
@@ -3741,587 +4310,676 @@ export const calculators: Calculator[] = [
     category: 'time-date',
   },
   {
-    id: 151,
+    id: 5151,
     name: 'Post-Surgery Calorie Needs Calculator',
     description: 'Calculate your daily calorie needs after surgery to support optimal healing and recovery.',
     slug: 'post-surgery-calorie-needs-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Post-Surgery Calorie Needs Calculator - Recovery Nutrition',
     metaDescription: 'Calculate your daily calorie needs after surgery to support optimal healing and recovery with personalized nutrition guidance.'
   },
   {
-    id: 152,
+    id: 5152,
     name: 'Muscle Soreness Recovery Estimator',
     description: 'Estimate recovery time from muscle soreness based on exercise type, intensity, and recovery factors.',
     slug: 'muscle-soreness-recovery-estimator',
     category: 'health-fitness',
+    subcategory: 'Recovery & Injury',
     metaTitle: 'Muscle Soreness Recovery Estimator - DOMS Recovery Time',
     metaDescription: 'Estimate recovery time from muscle soreness based on exercise type, intensity, and recovery factors for optimal training.'
   },
   {
-    id: 153,
+    id: 5153,
     name: 'Step-to-Calorie Converter',
     description: 'Convert your daily steps into calories burned based on your body composition and walking patterns.',
     slug: 'step-to-calorie-converter',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
+    tags: ['weight loss'],
     metaTitle: 'Step-to-Calorie Converter - Walking Calorie Calculator',
     metaDescription: 'Convert your daily steps into calories burned based on your body composition and walking patterns for fitness tracking.'
   },
   {
-    id: 154,
+    id: 5154,
     name: 'Standing vs Sitting Calorie Burn Calculator',
     description: 'Compare calorie burn between standing and sitting positions to optimize your daily activity.',
     slug: 'standing-vs-sitting-calorie-burn-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Standing vs Sitting Calorie Burn Calculator - Activity Comparison',
     metaDescription: 'Compare calorie burn between standing and sitting positions to optimize your daily activity and improve health.'
   },
   {
-    id: 155,
+    id: 5155,
     name: 'Daily Activity Points Calculator',
     description: 'Track your daily health and fitness activities with a comprehensive point-based scoring system.',
     slug: 'daily-activity-points-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Daily Activity Points Calculator - Health & Fitness Tracker',
     metaDescription: 'Track your daily health and fitness activities with a comprehensive point-based scoring system for better wellness.'
   },
   {
-    id: 156,
+    id: 5156,
     name: 'Screen Time vs Sleep Impact Calculator',
     description: 'Analyze the relationship between your screen time habits and sleep quality to optimize your digital wellness.',
     slug: 'screen-time-vs-sleep-impact-calculator',
     category: 'health-fitness',
+    subcategory: 'Sleep, Stress & Wellbeing',
+    tags: ['sleep'],
     metaTitle: 'Screen Time vs Sleep Impact Calculator - Digital Wellness',
     metaDescription: 'Analyze the relationship between your screen time habits and sleep quality to optimize your digital wellness and improve sleep.'
   },
   {
-    id: 157,
+    id: 5157,
     name: 'Habit Streak Tracker (health habits)',
     description: 'Track and analyze your health habit streaks to build consistency and achieve your wellness goals.',
     slug: 'habit-streak-tracker-calculator',
     category: 'health-fitness',
+    subcategory: 'Sleep, Stress & Wellbeing',
     metaTitle: 'Habit Streak Tracker - Health Habits & Consistency',
     metaDescription: 'Track and analyze your health habit streaks to build consistency and achieve your wellness goals with personalized insights.'
   },
   {
-    id: 158,
+    id: 5158,
     name: 'Body Surface Area (BSA) Calculator',
     description: 'Calculate your body surface area for medical dosing, burn assessment, and clinical applications.',
     slug: 'body-surface-area-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Body Surface Area (BSA) Calculator - Medical & Clinical',
     metaDescription: 'Calculate your body surface area for medical dosing, burn assessment, and clinical applications with multiple formulas.'
   },
   {
-    id: 159,
+    id: 5159,
     name: 'Fat-Free Mass Index (FFMI) Calculator',
     description: 'Calculate your fat-free mass index to assess muscle development and body composition relative to height.',
     slug: 'fat-free-mass-index-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Fat-Free Mass Index (FFMI) Calculator - Muscle Assessment',
     metaDescription: 'Calculate your fat-free mass index to assess muscle development and body composition relative to height for athletes and fitness enthusiasts.'
   },
   {
-    id: 160,
+    id: 5160,
     name: 'Frame Size Calculator',
     description: 'Determine your body frame size based on height and wrist circumference to understand your ideal weight range.',
     slug: 'frame-size-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Frame Size Calculator - Body Frame Assessment',
     metaDescription: 'Determine your body frame size based on height and wrist circumference to understand your ideal weight range and body type.'
   },
   {
-    id: 161,
+    id: 5161,
     name: 'Limb Circumference Ratio Calculator',
     description: 'Analyze the proportions between different limb circumferences to assess muscle development symmetry.',
     slug: 'limb-circumference-ratio-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Limb Circumference Ratio Calculator - Muscle Symmetry',
     metaDescription: 'Analyze the proportions between different limb circumferences to assess muscle development symmetry and balance.'
   },
   {
-    id: 162,
+    id: 5162,
     name: 'Muscle Mass Percentage Calculator',
     description: 'Calculate your muscle mass percentage to assess your body composition and muscle development.',
     slug: 'muscle-mass-percentage-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Muscle Mass Percentage Calculator - Body Composition',
     metaDescription: 'Calculate your muscle mass percentage to assess your body composition and muscle development for fitness tracking.'
   },
   {
-    id: 163,
+    id: 5163,
     name: 'Android vs Gynoid Fat Ratio Calculator',
     description: 'Analyze your fat distribution pattern to understand health risks and optimize your body composition.',
     slug: 'android-vs-gynoid-fat-ratio-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Android vs Gynoid Fat Ratio Calculator - Fat Distribution',
     metaDescription: 'Analyze your fat distribution pattern to understand health risks and optimize your body composition for better health.'
   },
   {
-    id: 164,
+    id: 5164,
     name: 'Hip-to-Shoulder Ratio Calculator',
     description: 'Calculate your hip-to-shoulder ratio to determine your body shape and optimize your training approach.',
     slug: 'hip-to-shoulder-ratio-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Hip-to-Shoulder Ratio Calculator - Body Shape Analysis',
     metaDescription: 'Calculate your hip-to-shoulder ratio to determine your body shape and optimize your training approach for better results.'
   },
   {
-    id: 165,
+    id: 5165,
     name: 'Somatotype (Ectomorph/Mesomorph/Endomorph) Calculator',
     description: 'Determine your somatotype to understand your body type and optimize your training and nutrition approach.',
     slug: 'somatotype-calculator',
     category: 'health-fitness',
+    subcategory: 'Body Composition',
     metaTitle: 'Somatotype Calculator - Ectomorph/Mesomorph/Endomorph',
     metaDescription: 'Determine your somatotype to understand your body type and optimize your training and nutrition approach for better results.'
   },
   {
-    id: 166,
+    id: 5166,
     name: 'Chronic Training Load (CTL) Calculator',
     description: 'Calculate your Chronic Training Load (CTL) to track long-term fitness and training stress over several weeks.',
     slug: 'chronic-training-load-calculator',
     category: 'health-fitness',
+    subcategory: 'Strength & Training Load',
+    tags: ['athletes'],
     metaTitle: 'Chronic Training Load (CTL) Calculator - Track Long-Term Fitness',
     metaDescription: 'Calculate and understand Chronic Training Load (CTL) to monitor long-term fitness progression, training stress, and recovery needs for endurance athletes.'
   },
   {
-    id: 167,
+    id: 5167,
     name: 'Acute Training Load (ATL) Calculator',
     description: 'Calculate your Acute Training Load (ATL) to track recent training stress and fatigue levels over the past week.',
     slug: 'acute-training-load-calculator',
     category: 'health-fitness',
+    subcategory: 'Strength & Training Load',
+    tags: ['athletes'],
     metaTitle: 'Acute Training Load (ATL) Calculator - Track Recent Training Stress',
     metaDescription: 'Calculate and understand Acute Training Load (ATL) to monitor recent training stress, fatigue levels, and recovery needs for optimal training performance.'
   },
   {
-    id: 168,
+    id: 5168,
     name: 'Training Impulse (TRIMP) Calculator',
     description: 'Calculate Training Impulse (TRIMP) to quantify training load based on heart rate data and physiological stress.',
     slug: 'training-impulse-trimp-calculator',
     category: 'health-fitness',
+    subcategory: 'Strength & Training Load',
+    tags: ['athletes'],
     metaTitle: 'Training Impulse (TRIMP) Calculator - Quantify Training Load',
     metaDescription: 'Calculate Training Impulse (TRIMP) to measure training load based on heart rate data, providing a physiological approach to training stress quantification.'
   },
   {
-    id: 169,
+    id: 5169,
     name: 'Critical Power Calculator',
     description: 'Calculate your Critical Power (CP) and W\' to determine sustainable power output and anaerobic work capacity.',
     slug: 'critical-power-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['cycling', 'athletes'],
     metaTitle: 'Critical Power Calculator - Determine Sustainable Power',
     metaDescription: 'Calculate Critical Power (CP) and W\' to understand your sustainable power output and anaerobic work capacity for optimal training and racing.'
   },
   {
-    id: 170,
+    id: 5170,
     name: 'Running Economy Calculator',
     description: 'Calculate your running economy to understand how efficiently you use oxygen and energy while running.',
     slug: 'running-economy-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['running'],
     metaTitle: 'Running Economy Calculator - Measure Running Efficiency',
     metaDescription: 'Calculate running economy to understand how efficiently you use oxygen and energy while running, helping improve performance and training efficiency.'
   },
   {
-    id: 171,
+    id: 5171,
     name: 'Cycling Cadence Optimizer Calculator',
     description: 'Optimize your cycling cadence to improve efficiency, reduce fatigue, and prevent injury during cycling.',
     slug: 'cycling-cadence-optimizer-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['cycling'],
     metaTitle: 'Cycling Cadence Optimizer Calculator - Find Optimal Pedaling Rate',
     metaDescription: 'Optimize your cycling cadence to improve efficiency, reduce fatigue, and prevent injury. Learn how to find and maintain your optimal pedaling rate.'
   },
   {
-    id: 172,
+    id: 5172,
     name: 'Swim Stroke Rate Calculator',
     description: 'Calculate your swimming stroke rate to analyze efficiency and optimize technique for better performance.',
     slug: 'swim-stroke-rate-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['swimming'],
     metaTitle: 'Swim Stroke Rate Calculator - Analyze Swimming Efficiency',
     metaDescription: 'Calculate swimming stroke rate to analyze efficiency, optimize technique, and improve performance in all swimming strokes.'
   },
   {
-    id: 173,
+    id: 5173,
     name: 'Climbing Grade Difficulty to Calories Burned Calculator',
     description: 'Calculate calories burned during rock climbing based on grade difficulty, climbing type, and experience level.',
     slug: 'climbing-grade-difficulty-to-calories-burned-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Climbing Grade Difficulty to Calories Burned Calculator',
     metaDescription: 'Calculate calories burned during rock climbing based on grade difficulty, climbing type, and experience level for accurate workout tracking.'
   },
   {
-    id: 174,
+    id: 5174,
     name: 'Rowing Drag Factor Calculator',
     description: 'Calculate and optimize your rowing machine drag factor for better performance and training effectiveness.',
     slug: 'rowing-drag-factor-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
     metaTitle: 'Rowing Drag Factor Calculator - Optimize Rowing Machine Settings',
     metaDescription: 'Calculate and optimize rowing machine drag factor to improve performance, prevent injury, and maximize training effectiveness.'
   },
   {
-    id: 175,
+    id: 5175,
     name: 'Sleep Apnea Risk Calculator',
     description: 'Assess your risk for sleep apnea using validated screening criteria and get recommendations for evaluation.',
     slug: 'sleep-apnea-risk-calculator',
     category: 'health-fitness',
+    subcategory: 'Health Risk',
+    tags: ['sleep'],
     metaTitle: 'Sleep Apnea Risk Calculator - Assess Your Risk',
     metaDescription: 'Calculate your risk for sleep apnea using validated screening criteria and get recommendations for evaluation and treatment.'
   },
   {
-    id: 176,
+    id: 5176,
     name: 'Capillary Density Estimator',
     description: 'Estimate muscle capillary density from microscopy counts and field area.',
     slug: 'capillary-density-estimator',
     category: 'health-fitness',
+    subcategory: 'Physiology',
     metaTitle: 'Capillary Density Estimator - Aerobic Fitness Indicator',
     metaDescription: 'Estimate skeletal muscle capillary density to understand aerobic conditioning and endurance readiness.'
   },
   {
-    id: 177,
+    id: 5177,
     name: 'Myoglobin Oxygen Storage Calculator',
     description: 'Estimate intramuscular oxygen reserve bound to myoglobin based on muscle mass and concentration.',
     slug: 'myoglobin-oxygen-storage-calculator',
     category: 'health-fitness',
+    subcategory: 'Physiology',
     metaTitle: 'Myoglobin Oxygen Storage Calculator - Muscle O2 Reserve',
     metaDescription: 'Calculate estimated oxygen stored in muscle myoglobin to understand aerobic support and endurance potential.'
   },
   {
-    id: 178,
+    id: 5178,
     name: 'Glycogen Storage Capacity Calculator',
     description: 'Estimate total muscle glycogen and energy capacity based on body composition and training.',
     slug: 'glycogen-storage-capacity-calculator',
     category: 'health-fitness',
+    subcategory: 'Physiology',
     metaTitle: 'Glycogen Storage Capacity Calculator - Endurance Fuel',
     metaDescription: 'Estimate muscle glycogen storage and energy capacity to plan fueling and training for endurance performance.'
   },
   {
-    id: 179,
+    id: 5179,
     name: 'Red Blood Cell Count Effect on VO2 Max Calculator',
     description: 'Approximate the effect of hemoglobin and RBC count on VO2 Max from baseline.',
     slug: 'red-blood-cell-count-effect-on-vo2-max-calculator',
     category: 'health-fitness',
+    subcategory: 'Physiology',
+    tags: ['athletes'],
     metaTitle: 'RBC/Hemoglobin Effect on VO2 Max - Estimator',
     metaDescription: 'Estimate how hemoglobin and RBC count may alter VO2 Max from baseline to guide training and evaluation.'
   },
   {
-    id: 180,
+    id: 5180,
     name: 'Altitude Acclimatization Oxygen Need Calculator',
     description: 'Adjust baseline oxygen requirement for training or activity at altitude.',
     slug: 'altitude-acclimatization-oxygen-need-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
     metaTitle: 'Altitude Oxygen Need Calculator - Training Adjustment',
     metaDescription: 'Adjust oxygen requirement at altitude to manage pacing, recovery, and acclimatization strategies.'
   },
   {
-    id: 181,
+    id: 5181,
     name: 'DOMS (Delayed Onset Muscle Soreness) Recovery Time Calculator',
     description: 'Estimate time for DOMS to subside based on intensity, eccentric load, and volume.',
     slug: 'doms-recovery-time-calculator',
     category: 'health-fitness',
+    subcategory: 'Recovery & Injury',
     metaTitle: 'DOMS Recovery Time Calculator - Soreness Planning',
     metaDescription: 'Estimate recovery time from DOMS to plan training frequency, volume, and recovery strategies.'
   },
   {
-    id: 182,
+    id: 5182,
     name: 'Physical Therapy Exercise Load Calculator',
     description: 'Suggest therapeutic load and reps based on phase, pain, and estimated 1RM.',
     slug: 'physical-therapy-exercise-load-calculator',
     category: 'health-fitness',
+    subcategory: 'Recovery & Injury',
     metaTitle: 'PT Exercise Load Calculator - Rehab Loading',
     metaDescription: 'Determine safe and effective therapeutic loading for rehab based on phase, pain, and strength.'
   },
   {
-    id: 183,
+    id: 5183,
     name: 'Post-Injury Mobility Progress Calculator',
     description: 'Track progress toward target range of motion and weekly rate of improvement.',
     slug: 'post-injury-mobility-progress-calculator',
     category: 'health-fitness',
+    subcategory: 'Recovery & Injury',
     metaTitle: 'Mobility Progress Calculator - Post-Injury ROM',
     metaDescription: 'Evaluate mobility progress after injury by comparing baseline, current, and target ROM with weekly improvement rate.'
   },
   {
-    id: 184,
+    id: 5184,
     name: 'Ice Bath Duration & Temp Calculator',
     description: 'Recommend cold exposure duration based on water temperature and desired goal.',
     slug: 'ice-bath-duration-temp-calculator',
     category: 'health-fitness',
+    subcategory: 'Recovery & Injury',
     metaTitle: 'Ice Bath Duration & Temp Calculator - Cold Therapy',
     metaDescription: 'Get a recommended ice bath duration tailored to water temperature and your recovery goals.'
   },
   {
-    id: 185,
+    id: 5185,
     name: 'Foam Rolling Pressure Estimator',
     description: 'Estimate pressure applied during foam rolling from weight, area, and load distribution.',
     slug: 'foam-rolling-pressure-estimator',
     category: 'health-fitness',
+    subcategory: 'Recovery & Injury',
     metaTitle: 'Foam Rolling Pressure Estimator - Self-Myofascial Release',
     metaDescription: 'Estimate foam rolling pressure to guide safe, effective self-myofascial release intensity.'
   },
   {
-    id: 186,
+    id: 5186,
     name: 'Breast Milk Production Estimate Calculator',
     description: 'Estimate daily and weekly breast milk production based on schedule and output.',
     slug: 'breast-milk-production-estimate-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
     metaTitle: 'Breast Milk Production Estimate Calculator',
     metaDescription: 'Estimate breast milk production from pumping frequency and average output with guidance and tips.'
   },
   {
-    id: 187,
+    id: 5187,
     name: 'Conception Probability (per cycle) Calculator',
     description: 'Approximate per-cycle conception probability based on age, cycle, and timing.',
     slug: 'conception-probability-per-cycle-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
     metaTitle: 'Conception Probability Calculator (Per Cycle)',
     metaDescription: 'Estimate the probability of conceiving in a cycle considering age, regularity, and fertile window timing.'
   },
   {
-    id: 188,
+    id: 5188,
     name: 'IVF Success Probability Calculator',
     description: 'Estimate IVF success probability per cycle based on age, embryo quality, and history.',
     slug: 'ivf-success-probability-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
     metaTitle: 'IVF Success Probability Calculator',
     metaDescription: 'Estimate IVF success likelihood using age, embryo quality, and prior cycles to inform expectations.'
   },
   {
-    id: 189,
+    id: 5189,
     name: 'Gestational Diabetes Risk Calculator',
     description: 'Screening-oriented risk estimate based on age, BMI, and family history.',
     slug: 'gestational-diabetes-risk-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
+    tags: ['diabetes'],
     metaTitle: 'Gestational Diabetes Risk Calculator',
     metaDescription: 'Estimate risk for gestational diabetes to guide screening and prenatal lifestyle planning.'
   },
   {
-    id: 190,
+    id: 5190,
     name: 'Prenatal Vitamin Dosage Calculator',
     description: 'Evaluate key prenatal vitamin doses against common guideline ranges.',
     slug: 'prenatal-vitamin-dosage-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
+    tags: ['vitamins & minerals'],
     metaTitle: 'Prenatal Vitamin Dosage Calculator',
     metaDescription: 'Evaluate folate, iron, and vitamin D amounts relative to common prenatal guidance.'
   },
   {
-    id: 191,
+    id: 5191,
     name: 'Muscle Fiber Type Ratio Calculator',
     description: 'Heuristic estimate of Type I vs Type II fiber ratio from performance tests.',
     slug: 'muscle-fiber-type-ratio-calculator',
     category: 'health-fitness',
+    subcategory: 'Strength & Training Load',
     metaTitle: 'Muscle Fiber Type Ratio Calculator',
     metaDescription: 'Estimate muscle fiber composition and tailor training for endurance or power.'
   },
   {
-    id: 192,
+    id: 5192,
     name: 'Anaerobic Power Output Calculator',
     description: 'Estimate peak anaerobic power from jump height, mass, and time to peak.',
     slug: 'anaerobic-power-output-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes'],
     metaTitle: 'Anaerobic Power Output Calculator',
     metaDescription: 'Estimate anaerobic power and power-to-weight for explosive performance planning.'
   },
   {
-    id: 193,
+    id: 5193,
     name: 'Blood Lactate Clearance Rate Calculator',
     description: 'Estimate lactate clearance rate and half-life between two measurements.',
     slug: 'blood-lactate-clearance-rate-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes'],
     metaTitle: 'Blood Lactate Clearance Rate Calculator',
     metaDescription: 'Estimate lactate clearance and half-life to inform recovery and aerobic development.'
   },
   {
-    id: 194,
+    id: 5194,
     name: 'Sweat Sodium Concentration Calculator',
     description: 'Calculate sweat sodium concentration from total sodium lost and sweat volume.',
     slug: 'sweat-sodium-concentration-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['hydration', 'vitamins & minerals'],
     metaTitle: 'Sweat Sodium Concentration Calculator',
     metaDescription: 'Estimate sodium concentration of sweat to personalize hydration and electrolyte strategies.'
   },
   {
-    id: 195,
+    id: 5195,
     name: 'VO2 per kg Lean Mass Calculator',
     description: 'Normalize VO2 to total body mass and lean mass to compare fitness.',
     slug: 'vo2-per-kg-lean-mass-calculator',
     category: 'health-fitness',
+    subcategory: 'Cardio & Endurance',
+    tags: ['athletes'],
     metaTitle: 'VO2 per kg Lean Mass Calculator',
     metaDescription: 'Compare VO2 normalized to body mass vs lean mass for clearer fitness insights.'
   },
   {
-    id: 196,
+    id: 5196,
     name: 'Bulletproof Coffee Calorie Impact Calculator',
     description: 'Estimate daily and weekly calorie impact of Bulletproof coffee on your diet.',
     slug: 'bulletproof-coffee-calorie-impact-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Bulletproof Coffee Calorie Impact Calculator',
     metaDescription: 'Calculate how butter and MCT oil coffee affects daily and weekly calorie intake and diet goals.'
   },
   {
-    id: 197,
+    id: 5197,
     name: 'Detox Juice Nutrient Calculator',
     description: 'Evaluate calories, sugar, fiber, and vitamin C in your detox juice plan.',
     slug: 'detox-juice-nutrient-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Detox Juice Nutrient Calculator',
     metaDescription: 'Analyze detox juice macros and micronutrients to make smarter, balanced choices.'
   },
   {
-    id: 198,
+    id: 5198,
     name: 'Cheat Meal Impact on Weekly Calories Calculator',
     description: 'See how a cheat meal changes your weekly calorie balance and goals.',
     slug: 'cheat-meal-impact-on-weekly-calories-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
+    tags: ['weight loss'],
     metaTitle: 'Cheat Meal Impact on Weekly Calories Calculator',
     metaDescription: 'Estimate the weekly calorie impact of a cheat meal to plan around it intelligently.'
   },
   {
-    id: 199,
+    id: 5199,
     name: 'Alcohol Metabolism Time Calculator',
     description: 'Estimate time to metabolize alcohol based on number of drinks and rate.',
     slug: 'alcohol-metabolism-time-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Alcohol Metabolism Time Calculator',
     metaDescription: 'Estimate alcohol clearance time for safety, planning, and recovery guidance.'
   },
   {
-    id: 200,
+    id: 5200,
     name: 'Water Fasting Electrolyte Needs Calculator',
     description: 'Estimate electrolyte totals needed over a water fast duration.',
     slug: 'water-fasting-electrolyte-needs-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['hydration'],
     metaTitle: 'Water Fasting Electrolyte Needs Calculator',
     metaDescription: 'Plan sodium, potassium, and magnesium intake during water fasting (with caution).'
   },
   {
-    id: 201,
+    id: 5201,
     name: 'Menstrual Cycle Phase Tracker Calculator',
     description: 'Estimate current cycle phase and predicted ovulation day from typical cycle length.',
     slug: 'menstrual-cycle-phase-tracker-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
     metaTitle: 'Menstrual Cycle Phase Tracker Calculator',
     metaDescription: 'Track menstrual cycle phases and estimate ovulation window for planning and awareness.'
   },
   {
-    id: 202,
+    id: 5202,
     name: 'PMS Symptom Score Calculator',
     description: 'Score PMS symptom severity to inform management strategies and care.',
     slug: 'pms-symptom-score-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
     metaTitle: 'PMS Symptom Score Calculator',
     metaDescription: 'Assess PMS severity via a simple symptom index and get tailored tips.'
   },
   {
-    id: 203,
+    id: 5203,
     name: 'Menopause Symptom Index Calculator',
     description: 'Composite symptom index to assess menopause-related symptom burden.',
     slug: 'menopause-symptom-index-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
     metaTitle: 'Menopause Symptom Index Calculator',
     metaDescription: 'Evaluate menopausal symptom severity and explore relief strategies.'
   },
   {
-    id: 204,
+    id: 5204,
     name: 'Iron Loss During Periods Calculator',
     description: 'Estimate iron lost during menstruation from flow, duration, and iron concentration.',
     slug: 'iron-loss-during-periods-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
+    tags: ['vitamins & minerals'],
     metaTitle: 'Iron Loss During Periods Calculator',
     metaDescription: 'Estimate menstrual iron loss to guide nutrition and medical follow-up.'
   },
   {
-    id: 205,
+    id: 5205,
     name: 'Postpartum Calorie Needs Calculator',
     description: 'Estimate postpartum maintenance calories including breastfeeding status.',
     slug: 'postpartum-calorie-needs-calculator',
     category: 'health-fitness',
+    subcategory: 'Pregnancy & Women\'s Health',
     metaTitle: 'Postpartum Calorie Needs Calculator',
     metaDescription: 'Calculate postpartum calorie needs with activity and breastfeeding adjustments.'
   },
   {
-    id: 206,
+    id: 5206,
     name: 'Thyroid Function Basal Energy Calculator',
     description: 'Estimate basal energy (BMR) adjusted by thyroid (TSH) context.',
     slug: 'thyroid-function-basal-energy-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Thyroid Function Basal Energy Calculator',
     metaDescription: 'Estimate basal energy using Mifflin-St Jeor and an adjustment heuristic from TSH context.'
   },
   {
-    id: 207,
+    id: 5207,
     name: 'Caloric Cost of Cold Exposure Calculator',
     description: 'Estimate additional calories burned due to cold exposure time, temp, and clothing.',
     slug: 'caloric-cost-of-cold-exposure-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Caloric Cost of Cold Exposure Calculator',
     metaDescription: 'Estimate thermogenic calorie cost during cold exposure considering temperature and clothing insulation.'
   },
   {
-    id: 208,
+    id: 5208,
     name: 'Seasonal Energy Expenditure Calculator',
     description: 'Compare extra calories burned outdoors in winter vs summer conditions.',
     slug: 'seasonal-energy-expenditure-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Seasonal Energy Expenditure Calculator',
     metaDescription: 'Estimate seasonal differences in outdoor thermogenic demand to adjust calorie plans.'
   },
   {
-    id: 209,
+    id: 5209,
     name: 'Adaptive Thermogenesis Calculator',
     description: 'Estimate maintenance reduction from adaptive thermogenesis during weight loss.',
     slug: 'adaptive-thermogenesis-calculator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
+    tags: ['weight loss'],
     metaTitle: 'Adaptive Thermogenesis Calculator',
     metaDescription: 'Estimate metabolic adaptation based on recent weight loss rate to refine calorie targets.'
   },
   {
-    id: 210,
+    id: 5210,
     name: 'Mitochondrial Efficiency Estimator',
     description: 'Estimate oxygen cost per watt at submax as a proxy for efficiency.',
     slug: 'mitochondrial-efficiency-estimator',
     category: 'health-fitness',
+    subcategory: 'Calories & Metabolism',
     metaTitle: 'Mitochondrial Efficiency Estimator',
     metaDescription: 'Estimate oxygen cost per watt at submax to gauge mitochondrial efficiency and economy.'
   },
   {
-    id: 211,
+    id: 5211,
     name: 'Paleo Compliance Score Calculator',
     description: 'Heuristic diet adherence score to paleo-style eating patterns.',
     slug: 'paleo-compliance-score-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'Paleo Compliance Score Calculator',
     metaDescription: 'Calculate a paleo compliance score to guide whole-food, minimally processed choices.'
   },
   {
-    id: 212,
+    id: 5212,
     name: 'FODMAP Load Calculator',
     description: 'Sum key FODMAP group grams to estimate potential symptom load.',
     slug: 'fodmap-load-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
     metaTitle: 'FODMAP Load Calculator',
     metaDescription: 'Estimate total FODMAP load to manage IBS symptoms with structured reintroduction.'
   },
   {
-    id: 213,
+    id: 5213,
     name: 'Plant-Based Protein Gap Calculator',
     description: 'Find protein gap vs target on a plant-based diet.',
     slug: 'plant-based-protein-gap-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['protein'],
     metaTitle: 'Plant-Based Protein Gap Calculator',
     metaDescription: 'Calculate protein target and gap to help meet needs on plant-based diets.'
   },
   {
-    id: 214,
+    id: 5214,
     name: 'Intermittent Fasting 5:2 Schedule Calculator',
     description: 'Plan 5 normal and 2 reduced-calorie days; see weekly balance.',
     slug: 'intermittent-fasting-5-2-schedule-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['weight loss'],
     metaTitle: 'Intermittent Fasting 5:2 Schedule Calculator',
     metaDescription: 'Plan a 5:2 intermittent fasting week and estimate the weekly calorie balance.'
   },
   {
-    id: 215,
+    id: 5215,
     name: 'Carb Cycling Macro Calculator',
     description: 'Set low/high carb day macros around maintenance to match training.',
     slug: 'carb-cycling-macro-calculator',
     category: 'health-fitness',
+    subcategory: 'Nutrition & Diet',
+    tags: ['weight loss', 'cycling'],
     metaTitle: 'Carb Cycling Macro Calculator',
     metaDescription: 'Calculate low vs high day macros for carb cycling tailored to your training.'
   },
@@ -4332,6 +4990,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate margin requirements, leverage ratios, and risk metrics for leveraged trading positions. Assess margin call risk and optimize capital utilization.',
     slug: 'margin-leverage-calculator',
     category: 'finance',
+    subcategory: 'Trading',
     metaTitle: 'Margin Leverage Calculator - Trading Risk Assessment',
     metaDescription: 'Calculate margin requirements, leverage ratios, and risk metrics for leveraged trading positions. Assess margin call risk and optimize capital utilization.'
   },
@@ -4341,6 +5000,7 @@ export const calculators: Calculator[] = [
     description: 'Calculate maintenance margin requirements, assess margin call risk, and optimize your leveraged trading positions for better risk management.',
     slug: 'maintenance-margin-calculator',
     category: 'finance',
+    subcategory: 'Trading',
     metaTitle: 'Maintenance Margin Calculator - Margin Call Risk Assessment',
     metaDescription: 'Calculate maintenance margin requirements, assess margin call risk, and optimize your leveraged trading positions for better risk management.'
   },
@@ -4350,6 +5010,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate loan amortization schedules with extra payments to save interest and pay off loans faster. See the impact of additional payments on your loan.',
     slug: 'loan-amortization-extra-payments-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Loan Amortization Calculator with Extra Payments',
     metaDescription: 'Calculate loan amortization schedules with extra payments to save interest and pay off loans faster. See the impact of additional payments on your loan.'
   },
@@ -4359,6 +5021,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate balloon payment loans with lower monthly payments and large final payments. Assess balloon payment risk and plan for loan payoff.',
     slug: 'balloon-payment-loan-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Balloon Payment Loan Calculator - Loan Risk Assessment',
     metaDescription: 'Calculate balloon payment loans with lower monthly payments and large final payments. Assess balloon payment risk and plan for loan payoff.'
   },
@@ -4368,6 +5032,8 @@ export const calculators: Calculator[] = [
     description: 'Calculate graduated payment mortgages with lower initial payments and increasing payments over time. Assess GPM risk and plan for payment increases.',
     slug: 'graduated-payment-mortgage-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Graduated Payment Mortgage Calculator - GPM Analysis',
     metaDescription: 'Calculate graduated payment mortgages with lower initial payments and increasing payments over time. Assess GPM risk and plan for payment increases.'
   },
@@ -4378,6 +5044,7 @@ export const calculators: Calculator[] = [
     description: 'Project how ARM interest rates and monthly payments may change after the fixed period given index, margin, caps, and adjustment intervals.',
     slug: 'arm-payment-projection-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
     metaTitle: 'ARM Payment Projection Calculator',
     metaDescription: 'Estimate future ARM rates and payments using index, margin, and rate caps to understand payment risk after the fixed period.'
   },
@@ -4387,6 +5054,8 @@ export const calculators: Calculator[] = [
     description: 'Compare your current mortgage vs a new refinance. See new payment, lifetime interest, breakeven point, and total savings after closing costs.',
     slug: 'mortgage-refinance-savings-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt', 'savings'],
     metaTitle: 'Mortgage Refinance Savings Calculator',
     metaDescription: 'Evaluate refinance benefits by comparing payments, total interest, and breakeven months including closing costs.'
   },
@@ -4396,6 +5065,8 @@ export const calculators: Calculator[] = [
     description: 'Estimate your home equity, combined loan-to-value (CLTV), and potential HELOC or home equity loan amount based on lender LTV limits.',
     slug: 'mortgage-equity-heloc-calculator',
     category: 'finance',
+    subcategory: 'Loans & Mortgages',
+    tags: ['debt'],
     metaTitle: 'Home Equity & HELOC Calculator',
     metaDescription: 'Calculate available home equity and estimated HELOC limit using property value, existing liens, and target LTV.'
   },
@@ -4405,6 +5076,7 @@ export const calculators: Calculator[] = [
     description: 'Compute cap rate from purchase price and net operating income (NOI). Optionally derive NOI from rent and expenses.',
     slug: 'rental-property-cap-rate-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
     metaTitle: 'Rental Property Cap Rate Calculator',
     metaDescription: 'Estimate rental property cap rate using NOI and purchase price with guidance on typical ranges and usage.'
   },
@@ -4414,11 +5086,32 @@ export const calculators: Calculator[] = [
     description: 'Estimate cash-on-cash return based on cash invested, financing terms, and annual cash flow from operations.',
     slug: 'real-estate-cash-on-cash-return-calculator',
     category: 'finance',
+    subcategory: 'Real Estate',
     metaTitle: 'Cash-on-Cash Return Calculator',
     metaDescription: 'Calculate real estate cash-on-cash ROI using down payment, closing costs, rehab, NOI, and debt service.'
   },
 ];
 
+export const unitConverterComponent = 'conversions/unit-converter';
+
+/**
+ * Module path of a calculator's component, relative to src/components/calculators.
+ */
+export function getCalculatorComponentPath(calculator: Calculator): string {
+  if (calculator.conversion) {
+    return unitConverterComponent;
+  }
+  return calculator.component ?? `${calculator.category}/${calculator.slug}`;
+}
+
+/**
+ * Props for a calculator's component. Only the shared unit converter takes any: the unit pair
+ * the page opens with.
+ */
+export function getCalculatorComponentProps(calculator: Calculator): Record<string, string> {
+  return calculator.conversion ? { from: calculator.conversion.from, to: calculator.conversion.to } : {};
+}
+
     
 
     
@@ -4426,3 +5119,65 @@ export const calculators: Calculator[] = [
 
 
 
+
+/**
+ * Where a unit pair is converted: its dedicated converter page when there is one, otherwise
+ * the generic /convert route.
+ */
+export function getConversionHref(fromId: string, toId: string): string {
+  const calculator = calculators.find((c) => c.conversion?.from === fromId && c.conversion.to === toId);
+  return calculator ? `/category/${calculator.category}/${calculator.slug}` : `/convert/${conversionPairSlug(fromId, toId)}`;
+}
+
+/**
+ * Everyday unit pairs without a converter page of their own, in both directions where both
+ * are asked for. Kept short on purpose: /convert serves every pair in the registry, but only
+ * these and the reverses below are listed in the sitemap.
+ */
+export const popularConversionPairs: { from: string; to: string }[] = [
+  { from: 'centimeter', to: 'foot' },
+  { from: 'foot', to: 'centimeter' },
+  { from: 'inch', to: 'meter' },
+  { from: 'meter', to: 'inch' },
+  { from: 'foot', to: 'inch' },
+  { from: 'inch', to: 'foot' },
+  { from: 'centimeter', to: 'millimeter' },
+  { from: 'millimeter', to: 'centimeter' },
+  { from: 'meter', to: 'mile' },
+  { from: 'mile', to: 'foot' },
+  { from: 'yard', to: 'foot' },
+  { from: 'gram', to: 'kilogram' },
+  { from: 'kilogram', to: 'gram' },
+  { from: 'gram', to: 'pound' },
+  { from: 'pound', to: 'gram' },
+  { from: 'ounce', to: 'pound' },
+  { from: 'pound', to: 'ounce' },
+  { from: 'liter', to: 'milliliter' },
+  { from: 'milliliter', to: 'liter' },
+  { from: 'us-cup', to: 'us-fluid-ounce' },
+  { from: 'us-fluid-ounce', to: 'us-cup' },
+  { from: 'us-tablespoon', to: 'us-teaspoon' },
+  { from: 'us-cup', to: 'us-tablespoon' },
+  { from: 'us-gallon', to: 'us-quart' },
+  { from: 'acre', to: 'square-foot' },
+  { from: 'square-foot', to: 'acre' },
+  { from: 'hectare', to: 'square-meter' },
+  { from: 'square-meter', to: 'hectare' },
+  { from: 'kilocalorie', to: 'kilojoule' },
+  { from: 'kilojoule', to: 'kilocalorie' },
+  { from: 'megabyte', to: 'kilobyte' },
+  { from: 'kilobyte', to: 'megabyte' },
+];
+
+/**
+ * Unit pairs worth a /convert page of their own and a sitemap entry: the other direction of
+ * each one-way converter, then the popular pairs above, minus any a converter covers.
+ */
+export function getCommonConversionPairs(): { from: string; to: string }[] {
+  const hasConverter = (from: string, to: string) =>
+    calculators.some((c) => c.conversion?.from === from && c.conversion.to === to);
+  const reverses = calculators.flatMap(({ conversion }) =>
+    conversion && !hasConverter(conversion.to, conversion.from) ? [{ from: conversion.to, to: conversion.from }] : []
+  );
+  return [...reverses, ...popularConversionPairs.filter(({ from, to }) => !hasConverter(from, to))];
+}
@@ -51,6 +51,9 @@ export interface Category {
   slug: string;
   description: string;
   Icon: string;
+  // Order of the subcategory sections on the category page. Subcategories used by calculators
+  // but missing here follow in order of first appearance.
+  subcategories?: string[];
 }
 
 export const icons: {[key: string]: LucideIcon} = {
@@ -105,18 +108,65 @@ export const categories: Category[] = [
     slug: 'finance',
     description: 'Calculators for investments, loans, and financial planning.',
     Icon: 'Landmark',
+    subcategories: [
+      'Personal Finance',
+      'Loans & Mortgages',
+      'Real Estate',
+      'Retirement',
+      'Investing & Returns',
+      'Time Value of Money',
+      'Bonds & Fixed Income',
+      'Options & Derivatives',
+      'Portfolio & Risk',
+      'Trading',
+      'Financial Ratios',
+      'Corporate Finance & Valuation',
+      'Business & Accounting',
+      'Currency & FX',
+      'Credit Risk',
+    ],
   },
   {
     name: 'Health & Fitness',
     slug: 'health-fitness',
     description: 'Track your fitness goals, BMI, and calorie intake.',
     Icon: 'HeartPulse',
+    subcategories: [
+      'Body Composition',
+      'Calories & Metabolism',
+      'Nutrition & Diet',
+      'Cardio & Endurance',
+      'Strength & Training Load',
+      'Sports Performance',
+      'Physiology',
+      'Health Risk',
+      'Recovery & Injury',
+      'Sleep, Stress & Wellbeing',
+      'Pregnancy & Women\'s Health',
+    ],
   },
   {
     name: 'Conversions',
     slug: 'conversions',
     description: 'Tools for converting between different units of measurement.',
     Icon: 'ArrowRightLeft',
+    subcategories: [
+      'Length',
+      'Area',
+      'Volume',
+      'Weight & Mass',
+      'Speed',
+      'Time',
+      'Pressure',
+      'Energy',
+      'Power',
+      'Temperature',
+      'Fuel Economy',
+      'Data Storage & Transfer',
+      'Angle',
+      'Frequency',
+      'Clothing & Sizes',
+    ],
   },
   {
     name: 'Home Improvement',
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const text = 'name,note\r\n"Smith, J","said ""hi""\nthen left"\r\nLee,plain';
+    assert.deepEqual(parseCsv(text), [
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"\nthen left'],
+      ['Lee', 'plain'],
+    ]);
+  });
+
+  it('detects tab and semicolon delimiters from the first line', () => {
+    assert.deepEqual(parseCsv('a\tb\n1,5\t2'), [['a', 'b'], ['1,5', '2']]);
+    assert.deepEqual(parseCsv('a;b;c\n1,5;2;3'), [['a', 'b', 'c'], ['1,5', '2', '3']]);
+  });
+
+  it('skips blank lines and a byte order mark, and keeps empty fields', () => {
+    assert.deepEqual(parseCsv('\uFEFFa,b\n\n ,\n1,\n'), [['a', 'b'], ['1', '']]);
+  });
+
+  it('treats a quote inside an unquoted field as text', () => {
+    assert.deepEqual(parseCsv('5" tile,2'), [['5" tile', '2']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields that need it and joins rows with CRLF', () => {
+    assert.equal(toCsv([['a', 'b,c'], ['say "hi"', 'x\ny'], [1.5, null]]), 'a,"b,c"\r\n"say ""hi""","x\ny"\r\n1.5,');
+  });
+
+  it('escapes text that a spreadsheet would run as a formula', () => {
+    assert.equal(toCsv([['=SUM(A1:A2)', '@cmd', '+1', '-5', -5, '-']]), "'=SUM(A1:A2),'@cmd,+1,-5,-5,'-");
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['Weight (kg)', 'Note'], ['70', 'line one\nline "two"']];
+    assert.deepEqual(parseCsv(toCsv(rows)), rows);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Minimal RFC 4180 CSV support for client-side tools: quoted fields, escaped quotes and
+ * line breaks inside quotes. Tab- and semicolon-separated text, as pasted from a spreadsheet
+ * or exported in some locales, is detected from the first line.
+ */
+
+const delimiters = [',', '\t', ';'] as const;
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best: string = ',';
+  let bestCount = 0;
+  for (const delimiter of delimiters) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Parses CSV text into rows of fields, skipping blank lines. */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+function escapeField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = String(value);
+  // Keep spreadsheets from running text that looks like a formula.
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !Number.isFinite(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Serialises rows as comma-separated CSV with CRLF line endings. */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
+}
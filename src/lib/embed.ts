@@ -0,0 +1,230 @@
+/**
+ * Shared constants for embedded calculators. Calculator pages opened with `?embed=true`
+ * are rewritten to /embed/<category>/<slug>, which renders the calculator without site
+ * chrome and reports its height to the host page with `postMessage`.
+ *
+ * Options chosen in the embed configurator travel as further query parameters:
+ * `theme=light|dark|custom` (with `fg` and `bg` palette names for custom), `layout=compact`,
+ * `input.<name>=<value>` to prefill an input (the same parameters share links use, see
+ * src/lib/engine/input-params.ts), and comma-separated `hide` and `lock` lists.
+ * The widget SDK (public/sdk/v1/megacalc.js) also passes `origin`, the host page origin,
+ * which enables two-way messaging.
+ */
+import { readInputParams, writeInputParams } from '@/lib/engine/input-params';
+import type { InputIssue } from '@/lib/engine/types';
+import { backgroundColors, findThemeColor, foregroundColors } from '@/lib/theme-colors';
+
+export const siteOrigin = 'https://mycalculating.com';
+
+export const EMBED_QUERY_PARAM = 'embed';
+
+/** Identifies our messages among everything else a host page may receive. */
+export const EMBED_MESSAGE_SOURCE = 'mycalculating-embed';
+
+/** Identifies messages the widget SDK sends into an embedded calculator. */
+export const SDK_MESSAGE_SOURCE = 'mycalculating-sdk';
+
+/**
+ * Bumped whenever a message changes shape. Both sides ignore versions they do not know,
+ * so an old SDK never misreads a newer calculator or the other way round.
+ */
+export const EMBED_PROTOCOL_VERSION = 1;
+
+interface EmbedMessageBase {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  version: typeof EMBED_PROTOCOL_VERSION;
+  slug: string;
+}
+
+/** Messages an embedded calculator posts to its host page. */
+export type EmbedMessage =
+  | (EmbedMessageBase & { type: 'resize'; height: number })
+  | (EmbedMessageBase & { type: 'ready' })
+  | (EmbedMessageBase & { type: 'result'; inputs: Record<string, unknown>; outputs: unknown })
+  | (EmbedMessageBase & { type: 'invalid'; issues: InputIssue[] });
+
+type WithoutBase<M> = M extends EmbedMessageBase ? Omit<M, keyof EmbedMessageBase> : never;
+
+/** An embed message before the frame adds its source, version and slug. */
+export type EmbedMessagePayload = WithoutBase<EmbedMessage>;
+
+/** Messages the host page may post to an embedded calculator. */
+export type SdkMessage = {
+  source: typeof SDK_MESSAGE_SOURCE;
+  version: typeof EMBED_PROTOCOL_VERSION;
+  type: 'setInputs';
+  inputs: Record<string, string | number | boolean>;
+};
+
+export function isSdkMessage(data: unknown): data is SdkMessage {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const message = data as Partial<SdkMessage>;
+  return (
+    message.source === SDK_MESSAGE_SOURCE &&
+    message.version === EMBED_PROTOCOL_VERSION &&
+    message.type === 'setInputs' &&
+    typeof message.inputs === 'object' &&
+    message.inputs !== null
+  );
+}
+
+export type EmbedTheme = 'light' | 'dark' | 'custom';
+
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  /** Palette names from src/lib/theme-colors.ts, only used with the custom theme. */
+  foreground?: string;
+  background?: string;
+  /** Show only the inputs and results, without guides and explanations. */
+  compact: boolean;
+  /** Prefilled input values, as they appear in the URL. */
+  inputs: Record<string, string>;
+  hidden: string[];
+  locked: string[];
+  /** Origin of the page hosting an SDK-mounted calculator, the only one it talks to. */
+  hostOrigin?: string;
+}
+
+export const defaultEmbedOptions: EmbedOptions = {
+  theme: 'light',
+  compact: false,
+  inputs: {},
+  hidden: [],
+  locked: [],
+};
+
+function parseOrigin(value: string | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const { origin } = new URL(value);
+    return origin === value && origin !== 'null' ? origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Reads embed options from a query string. Unknown themes and colours fall back to the
+ * light theme, and only prefilled inputs can be hidden or locked, so a visitor is never
+ * left with a required input they cannot see or change.
+ */
+export function parseEmbedOptions(params: URLSearchParams): EmbedOptions {
+  const inputs = readInputParams(params);
+
+  const theme = params.get('theme');
+  const foreground = findThemeColor(foregroundColors, params.get('fg'));
+  const background = findThemeColor(backgroundColors, params.get('bg'));
+  const isCustom = theme === 'custom' && !!foreground && !!background;
+  const hostOrigin = parseOrigin(params.get('origin'));
+
+  return {
+    theme: isCustom ? 'custom' : theme === 'dark' ? 'dark' : 'light',
+    ...(isCustom ? { foreground: foreground.name, background: background.name } : {}),
+    compact: params.get('layout') === 'compact',
+    inputs,
+    hidden: parseList(params.get('hide')).filter((name) => name in inputs),
+    locked: parseList(params.get('lock')).filter((name) => name in inputs),
+    ...(hostOrigin ? { hostOrigin } : {}),
+  };
+}
+
+/** Writes the non-default options as query parameters, in the format `parseEmbedOptions` reads. */
+export function buildEmbedQuery(options: EmbedOptions): URLSearchParams {
+  const params = new URLSearchParams({ [EMBED_QUERY_PARAM]: 'true' });
+  if (options.theme !== 'light') {
+    params.set('theme', options.theme);
+  }
+  if (options.theme === 'custom' && options.foreground && options.background) {
+    params.set('fg', options.foreground.toLowerCase());
+    params.set('bg', options.background.toLowerCase());
+  }
+  if (options.compact) {
+    params.set('layout', 'compact');
+  }
+  writeInputParams(params, options.inputs);
+  if (options.hidden.length > 0) {
+    params.set('hide', options.hidden.join(','));
+  }
+  if (options.locked.length > 0) {
+    params.set('lock', options.locked.join(','));
+  }
+  if (options.hostOrigin) {
+    params.set('origin', options.hostOrigin);
+  }
+  return params;
+}
+
+/** Converts the `searchParams` object Next.js passes to pages back into query parameters. */
+export function searchParamsFromRecord(record: Record<string, string | string[] | undefined>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(record)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      params.append(key, item);
+    }
+  }
+  return params;
+}
+
+export function getCalculatorUrl(categorySlug: string, calculatorSlug: string): string {
+  return `${siteOrigin}/category/${categorySlug}/${calculatorSlug}`;
+}
+
+export function getEmbedUrl(categorySlug: string, calculatorSlug: string, options: EmbedOptions = defaultEmbedOptions): string {
+  return `${getCalculatorUrl(categorySlug, calculatorSlug)}?${buildEmbedQuery(options)}`;
+}
+
+/** oEmbed endpoint for a calculator page, advertised by the page's discovery links. */
+export function getOEmbedUrl(categorySlug: string, calculatorSlug: string, format: 'json' | 'xml' = 'json'): string {
+  const params = new URLSearchParams({ url: getCalculatorUrl(categorySlug, calculatorSlug), format });
+  return `${siteOrigin}/api/v1/oembed?${params}`;
+}
+
+export interface EmbedSize {
+  maxWidth: number;
+  height: number;
+}
+
+export const defaultEmbedSize: EmbedSize = { maxWidth: 600, height: 600 };
+
+/** The HTML snippet partners paste into their pages, also served through oEmbed. */
+export function buildEmbedCode(
+  categorySlug: string,
+  calculatorSlug: string,
+  options: EmbedOptions = defaultEmbedOptions,
+  size: EmbedSize = defaultEmbedSize
+): string {
+  const frameId = `mycalculating-${calculatorSlug}`;
+  // The listener only trusts resize messages from our origin and from this exact iframe.
+  return `<div style="max-width: ${size.maxWidth}px; margin: 0 auto;">
+  <iframe
+    id="${frameId}"
+    src="${getEmbedUrl(categorySlug, calculatorSlug, options)}"
+    width="100%"
+    height="${size.height}"
+    style="border:1px solid #ccc; border-radius:8px;"
+    loading="lazy"
+    title="${calculatorSlug.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase())} Calculator by MyCalculating.com"
+  ></iframe>
+  <p style="text-align:center; font-size:12px; margin-top:4px;">
+    <a href="${getCalculatorUrl(categorySlug, calculatorSlug)}" target="_blank" rel="noopener">
+      Use full version on <strong>MyCalculating.com</strong>
+    </a>
+  </p>
+  <script>
+    window.addEventListener('message', function (e) {
+      var frame = document.getElementById('${frameId}');
+      if (!frame || e.origin !== '${siteOrigin}' || e.source !== frame.contentWindow) return;
+      if (!e.data || e.data.source !== '${EMBED_MESSAGE_SOURCE}' || e.data.type !== 'resize') return;
+      frame.style.height = e.data.height + 'px';
+    });
+  </script>
+</div>`;
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { batchResultTable, runBatch, suggestColumnMapping } from './batch';
+import { bmiDefinition } from './health-fitness/bmi-calculator';
+
+describe('suggestColumnMapping', () => {
+  it('matches headers to inputs by name or label, ignoring case, spacing and units', () => {
+    assert.deepEqual(suggestColumnMapping(bmiDefinition, ['ID', 'Weight (kg)', 'HEIGHT', 'Notes']), {
+      weight: { column: 1 },
+      height: { column: 2 },
+      unit: null,
+    });
+  });
+});
+
+describe('runBatch', () => {
+  const mapping = { weight: { column: 0 }, height: { column: 1 }, unit: { value: 'Metric' } };
+
+  it('computes valid rows, tidying thousands separators and enum casing', () => {
+    const [result] = runBatch(bmiDefinition, [['1,000', '1,000']], mapping);
+    assert.ok(result.success);
+    assert.equal(result.line, 2);
+    assert.equal(result.output.bmi, 10);
+  });
+
+  it('reports invalid rows with labelled messages and their line numbers', () => {
+    const results = runBatch(bmiDefinition, [['70', '175'], ['heavy', ''], ['-5', '175']], mapping, 10);
+    assert.deepEqual(results.map((result) => [result.line, result.success]), [[10, true], [11, false], [12, false]]);
+    const [, text, negative] = results;
+    assert.ok(!text.success && !negative.success);
+    assert.deepEqual(text.issues.map((issue) => issue.path), ['weight', 'height']);
+    assert.match(text.issues[0].message, /^Weight: /);
+    assert.match(negative.issues[0].message, /^Weight: /);
+  });
+});
+
+describe('batchResultTable', () => {
+  it('appends the outputs and an error column to the source rows', () => {
+    const rows = [['70', '175'], ['x']];
+    const results = runBatch(bmiDefinition, rows, { weight: { column: 0 }, height: { column: 1 }, unit: { value: 'metric' } });
+    const [header, valid, invalid] = batchResultTable(bmiDefinition, ['Weight', 'Height'], rows, results);
+    const outputCount = Object.keys(bmiDefinition.outputs).length;
+    assert.equal(header.length, 2 + outputCount + 1);
+    assert.equal(header.at(-1), 'Error');
+    assert.equal(valid.at(-1), '');
+    assert.deepEqual(invalid.slice(0, 2), ['x', '']);
+    assert.match(String(invalid.at(-1)), /Weight: .*; Height: /);
+  });
+});
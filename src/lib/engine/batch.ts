@@ -0,0 +1,112 @@
+import { coerceInputValues } from './coerce';
+import { describeInputs } from './describe';
+import type { AnyCalculatorDefinition, InputIssue, OutputField } from './types';
+
+/** Where each input's value comes from: a column index, or one value for every row. */
+export type BatchColumnMapping = Record<string, { column: number } | { value: string } | null>;
+
+export type BatchRowResult =
+  | { line: number; success: true; output: Record<string, unknown> }
+  | { line: number; success: false; issues: InputIssue[] };
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guesses which column holds each input by comparing headers with input names and labels,
+ * ignoring case, spacing, punctuation and units in brackets ("Weight (kg)" matches `weight`).
+ */
+export function suggestColumnMapping(definition: AnyCalculatorDefinition, headers: string[]): BatchColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(
+    describeInputs(definition).map((input) => {
+      const names = [normalizeHeader(input.name), normalizeHeader(input.label)];
+      const column = normalized.findIndex((header) => header !== '' && names.includes(header));
+      return [input.name, column === -1 ? null : { column }];
+    })
+  );
+}
+
+/** Reads one CSV row into text values, tidying thousands separators and enum casing. */
+function rowValues(definition: AnyCalculatorDefinition, row: string[], mapping: BatchColumnMapping): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const input of describeInputs(definition)) {
+    const source = mapping[input.name];
+    if (!source) {
+      continue;
+    }
+    let value = ('column' in source ? row[source.column] ?? '' : source.value).trim();
+    if (input.type === 'number' || input.type === 'integer') {
+      value = value.replace(/(\d),(?=\d{3}\b)/g, '$1');
+    } else if (input.type === 'enum') {
+      value = input.options?.find((option) => option.toLowerCase() === value.toLowerCase()) ?? value;
+    } else if (input.type === 'boolean') {
+      value = value.toLowerCase();
+    }
+    values[input.name] = value;
+  }
+  return values;
+}
+
+/**
+ * Evaluates a calculator for every data row. Values that cannot be converted are passed to
+ * the schema as text, so invalid rows carry the schema's own messages, labelled by input.
+ * `firstLine` is the line number of the first row, for pointing at rows in the source file.
+ */
+export function runBatch(
+  definition: AnyCalculatorDefinition,
+  rows: string[][],
+  mapping: BatchColumnMapping,
+  firstLine = 2
+): BatchRowResult[] {
+  const labels = new Map(describeInputs(definition).map((input) => [input.name, input.label]));
+  return rows.map((row, index) => {
+    const line = firstLine + index;
+    const values = rowValues(definition, row, mapping);
+    const coerced = coerceInputValues(definition, values);
+    for (const [name, value] of Object.entries(values)) {
+      if (value !== '' && coerced[name] === undefined) {
+        coerced[name] = value;
+      }
+    }
+    const parsed = definition.inputSchema.safeParse(coerced);
+    if (!parsed.success) {
+      return {
+        line,
+        success: false,
+        issues: parsed.error.issues.map((issue) => {
+          const path = issue.path.join('.');
+          return { path, message: `${labels.get(path) ?? path}: ${issue.message}` };
+        }),
+      };
+    }
+    return { line, success: true, output: definition.compute(parsed.data) as Record<string, unknown> };
+  });
+}
+
+/**
+ * The source rows with a column per described output and an error column appended, ready
+ * for CSV export. Outputs are left unformatted so spreadsheets can work with them.
+ */
+export function batchResultTable(
+  definition: AnyCalculatorDefinition,
+  headers: string[],
+  rows: string[][],
+  results: BatchRowResult[]
+): unknown[][] {
+  const outputs = Object.entries(definition.outputs as Record<string, OutputField>);
+  const header = [
+    ...headers,
+    ...outputs.map(([, field]) => (field.unit ? `${field.label} (${field.unit})` : field.label)),
+    'Error',
+  ];
+  const body = rows.map((row, index) => {
+    const result = results[index];
+    const padded = headers.map((_, column) => row[column] ?? '');
+    return result?.success
+      ? [...padded, ...outputs.map(([name]) => result.output[name]), '']
+      : [...padded, ...outputs.map(() => ''), result ? result.issues.map((issue) => issue.message).join('; ') : ''];
+  });
+  return [header, ...body];
+}
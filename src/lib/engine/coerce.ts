@@ -0,0 +1,34 @@
+import { describeInputs } from './describe';
+import type { AnyCalculatorDefinition } from './types';
+
+/**
+ * Converts text values, such as query parameters, to the types a definition's inputs expect.
+ * Unknown names and values that cannot be converted are dropped rather than reported;
+ * the schema still validates whatever is left.
+ */
+export function coerceInputValues(definition: AnyCalculatorDefinition, values: Record<string, string>): Record<string, unknown> {
+  const coerced: Record<string, unknown> = {};
+  for (const input of describeInputs(definition)) {
+    const value = values[input.name];
+    if (value === undefined || value === '') {
+      continue;
+    }
+    if (input.type === 'number' || input.type === 'integer') {
+      const number = Number(value);
+      if (Number.isFinite(number)) {
+        coerced[input.name] = number;
+      }
+    } else if (input.type === 'boolean') {
+      if (value === 'true' || value === 'false') {
+        coerced[input.name] = value === 'true';
+      }
+    } else if (input.type === 'enum') {
+      if (input.options?.includes(value)) {
+        coerced[input.name] = value;
+      }
+    } else {
+      coerced[input.name] = value;
+    }
+  }
+  return coerced;
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { z } from 'zod';
+
+import { compareOutputs, overlayChartSeries } from './compare';
+import type { CalculatorDefinition } from './types';
+
+const savings: CalculatorDefinition<{ years: number }, { total: number; band: string; balances: { year: number; balance: number }[] }> = {
+  slug: 'savings',
+  category: 'finance',
+  inputSchema: z.object({ years: z.number() }),
+  inputs: { years: { label: 'Years' } },
+  outputs: {
+    total: { label: 'Total', format: 'currency' },
+    band: { label: 'Band', format: 'text' },
+  },
+  chart: { output: 'balances', x: { key: 'year', label: 'Year' }, series: { balance: { label: 'Balance', format: 'currency' } } },
+  compute: ({ years }) => ({
+    total: years * 100,
+    band: years > 2 ? 'long' : 'short',
+    balances: Array.from({ length: years }, (_, i) => ({ year: i + 1, balance: (i + 1) * 100 })),
+  }),
+};
+
+describe('compareOutputs', () => {
+  it('gives each numeric output its difference from the first scenario', () => {
+    const [total, band] = compareOutputs(savings, [savings.compute({ years: 2 }), savings.compute({ years: 3 }), null]);
+    assert.deepEqual(total.values, [200, 300, undefined]);
+    assert.deepEqual(total.deltas, [null, 100, null]);
+    assert.deepEqual(band.values, ['short', 'long', undefined]);
+    assert.deepEqual(band.deltas, [null, null, null]);
+  });
+
+  it('has no deltas when the first scenario has no result', () => {
+    const [total] = compareOutputs(savings, [null, savings.compute({ years: 1 })]);
+    assert.deepEqual(total.deltas, [null, null]);
+  });
+});
+
+describe('overlayChartSeries', () => {
+  it('merges series on the x value and lets a shorter scenario end early', () => {
+    const points = overlayChartSeries(savings, [savings.compute({ years: 3 }), savings.compute({ years: 1 })], 'balance', ['A', 'B']);
+    assert.deepEqual(points, [
+      { year: 1, A: 100, B: 100 },
+      { year: 2, A: 200 },
+      { year: 3, A: 300 },
+    ]);
+  });
+
+  it('sorts numeric x values that only a later scenario has', () => {
+    const points = overlayChartSeries(savings, [savings.compute({ years: 1 }), savings.compute({ years: 2 })], 'balance', ['A', 'B']);
+    assert.deepEqual(points.map((point) => point.year), [1, 2]);
+  });
+
+  it('returns nothing for a definition without a chart', () => {
+    assert.deepEqual(overlayChartSeries({ ...savings, chart: undefined }, [savings.compute({ years: 1 })], 'balance', ['A']), []);
+  });
+});
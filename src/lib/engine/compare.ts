@@ -0,0 +1,62 @@
+import type { AnyCalculatorDefinition, OutputField } from './types';
+
+export interface OutputComparison {
+  name: string;
+  field: OutputField;
+  /** One value per scenario; undefined where a scenario has no result. */
+  values: unknown[];
+  /** Difference from the first scenario, for numeric values; null where there is none. */
+  deltas: (number | null)[];
+}
+
+/** Lines up the described outputs of several results, each compared with the first. */
+export function compareOutputs(
+  definition: AnyCalculatorDefinition,
+  results: (Record<string, unknown> | null)[]
+): OutputComparison[] {
+  const baseline = results[0];
+  return Object.entries(definition.outputs as Record<string, OutputField>).map(([name, field]) => {
+    const values = results.map((result) => result?.[name]);
+    const deltas = values.map((value, index) => {
+      const base = baseline?.[name];
+      return index > 0 && typeof value === 'number' && typeof base === 'number' ? value - base : null;
+    });
+    return { name, field, values, deltas };
+  });
+}
+
+/**
+ * Merges one chart series from several results into points keyed by scenario label, so the
+ * series can be drawn over each other. Points are matched on the chart's x value; a
+ * scenario that stops earlier (a 15-year loan next to a 30-year one) simply ends there.
+ */
+export function overlayChartSeries(
+  definition: AnyCalculatorDefinition,
+  results: (Record<string, unknown> | null)[],
+  seriesKey: string,
+  labels: string[]
+): Record<string, unknown>[] {
+  const chart = definition.chart;
+  if (!chart) {
+    return [];
+  }
+  const points = new Map<unknown, Record<string, unknown>>();
+  results.forEach((result, index) => {
+    const series = result?.[chart.output];
+    if (!Array.isArray(series)) {
+      return;
+    }
+    for (const point of series as Record<string, unknown>[]) {
+      const x = point[chart.x.key];
+      const merged = points.get(x) ?? { [chart.x.key]: x };
+      merged[labels[index]] = point[seriesKey];
+      points.set(x, merged);
+    }
+  });
+  const merged = [...points.values()];
+  // Numeric axes (years) are sorted; categorical ones keep the calculator's own order.
+  if (merged.every((point) => typeof point[chart.x.key] === 'number')) {
+    merged.sort((a, b) => (a[chart.x.key] as number) - (b[chart.x.key] as number));
+  }
+  return merged;
+}
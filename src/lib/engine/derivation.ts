@@ -0,0 +1,100 @@
+import type { CalculatorDefinition, DerivationStep, NumberFormatOptions } from './types';
+
+/**
+ * A parsed formula. The notation is plain text with three additions: `{a}/{b}` stacks a
+ * fraction, `^` raises and `_` lowers either a `{group}` or the word or number after it.
+ * Braces that are not part of a fraction only group.
+ */
+export type FormulaNode =
+  | { type: 'text'; value: string }
+  | { type: 'fraction'; numerator: FormulaNode[]; denominator: FormulaNode[] }
+  | { type: 'superscript'; content: FormulaNode[] }
+  | { type: 'subscript'; content: FormulaNode[] };
+
+function parseNodes(text: string, start: number, closing: boolean): [FormulaNode[], number] {
+  const nodes: FormulaNode[] = [];
+  let i = start;
+  const pushText = (value: string) => {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.value += value;
+    } else {
+      nodes.push({ type: 'text', value });
+    }
+  };
+  // A braced group, or the run of word characters after ^ or _.
+  const readArgument = (from: number): [FormulaNode[], number] => {
+    if (text[from] === '{') {
+      return parseNodes(text, from + 1, true);
+    }
+    const match = /^[\w.]+/.exec(text.slice(from));
+    const value = match ? match[0] : '';
+    return [value ? [{ type: 'text', value }] : [], from + value.length];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '}' && closing) {
+      return [nodes, i + 1];
+    }
+    if (char === '{') {
+      const [group, afterGroup] = parseNodes(text, i + 1, true);
+      if (text[afterGroup] === '/' && text[afterGroup + 1] === '{') {
+        const [denominator, afterDenominator] = parseNodes(text, afterGroup + 2, true);
+        nodes.push({ type: 'fraction', numerator: group, denominator });
+        i = afterDenominator;
+      } else {
+        group.forEach((node) => (node.type === 'text' ? pushText(node.value) : nodes.push(node)));
+        i = afterGroup;
+      }
+    } else if (char === '^' || char === '_') {
+      const [content, afterArgument] = readArgument(i + 1);
+      nodes.push({ type: char === '^' ? 'superscript' : 'subscript', content });
+      i = afterArgument;
+    } else {
+      pushText(char);
+      i++;
+    }
+  }
+  return [nodes, i];
+}
+
+export function parseFormula(formula: string): FormulaNode[] {
+  return parseNodes(formula, 0, false)[0];
+}
+
+/** The formula as linear text, for screen readers and copying. */
+export function formulaText(formula: string): string {
+  const flatten = (nodes: FormulaNode[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+            return node.value;
+          case 'fraction':
+            return `(${flatten(node.numerator)}) / (${flatten(node.denominator)})`;
+          case 'superscript':
+          case 'subscript': {
+            const content = flatten(node.content);
+            return `${node.type === 'superscript' ? '^' : '_'}${/\s/.test(content) ? `(${content})` : content}`;
+          }
+        }
+      })
+      .join('');
+  return flatten(parseFormula(formula));
+}
+
+/** Formats a number for a substitution: grouped thousands, up to `digits` decimals. */
+export function formatStepNumber(value: number, digits = 2): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: digits });
+}
+
+/** The worked steps for a calculation; empty for definitions that do not explain themselves. */
+export function explainCalculation<Input, Output>(
+  definition: CalculatorDefinition<Input, Output>,
+  input: Input,
+  output: Output = definition.compute(input),
+  format?: NumberFormatOptions
+): DerivationStep[] {
+  return definition.explain ? definition.explain(input, output, format) : [];
+}
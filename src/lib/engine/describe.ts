@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { AnyCalculatorDefinition, InputField } from './types';
+
+export type InputType = 'number' | 'integer' | 'enum' | 'string' | 'boolean';
+
+/** JSON-friendly description of one input, derived from the definition's zod schema. */
+export interface InputDescriptor extends InputField {
+  name: string;
+  type: InputType;
+  required: boolean;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  exclusiveMaximum?: number;
+  options?: string[];
+  default?: unknown;
+}
+
+type Constraints = Omit<InputDescriptor, keyof InputField | 'name'>;
+
+function describeSchema(schema: z.ZodTypeAny): Constraints {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...describeSchema(schema.unwrap()), required: false };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...describeSchema(schema.removeDefault()), required: false, default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return describeSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodNumber) {
+    const described: Constraints = { type: schema.isInt ? 'integer' : 'number', required: true };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') {
+        described[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      } else if (check.kind === 'max') {
+        described[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+    }
+    return described;
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'enum', required: true, options: [...schema.options] };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', required: true };
+  }
+  return { type: 'string', required: true };
+}
+
+/**
+ * Lists a definition's inputs in schema order with their labels, types and bounds.
+ * Only object schemas are supported, which is what every definition uses.
+ */
+export function describeInputs(definition: AnyCalculatorDefinition): InputDescriptor[] {
+  const schema = definition.inputSchema;
+  if (!(schema instanceof z.ZodObject)) {
+    return [];
+  }
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, fieldSchema]) => ({
+    name,
+    ...definition.inputs[name],
+    ...describeSchema(fieldSchema),
+  }));
+}
@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { compoundInterestDefinition } from './compound-interest-calculator';
+
+describe('compoundInterestDefinition', () => {
+  it('compounds annually', () => {
+    const output = compoundInterestDefinition.compute({ principal: 1000, annualRate: 5, years: 10, compoundingFrequency: 1 });
+    assert.equal(output.totalAmount.toFixed(2), '1628.89');
+    assert.equal(output.totalInterest.toFixed(2), '628.89');
+    assert.equal(output.chartData.length, 10);
+  });
+
+  it('reports the effective annual rate of monthly compounding', () => {
+    const output = compoundInterestDefinition.compute({ principal: 1000, annualRate: 12, years: 1, compoundingFrequency: 12 });
+    assert.equal(output.effectiveRate.toFixed(4), '12.6825');
+    assert.equal(output.totalAmount.toFixed(2), '1126.83');
+  });
+});
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { formatStepNumber as num } from '../derivation';
+import { formatOutputValue } from '../format';
+import type { CalculatorDefinition } from '../types';
+
+const inputSchema = z.object({
+  principal: z.number().positive(),
+  annualRate: z.number().positive(),
+  years: z.number().int().positive().max(100),
+  compoundingFrequency: z.coerce.number().positive(),
+});
+
+export type CompoundInterestInput = z.infer<typeof inputSchema>;
+
+export interface CompoundInterestOutput {
+  totalAmount: number;
+  totalInterest: number;
+  chartData: { year: number; value: number; principal: number }[];
+  interestPercentage: number;
+  annualizedReturn: number;
+  effectiveRate: number;
+  yearsToDouble: number;
+  compoundingFrequency: number;
+}
+
+export const compoundInterestDefinition: CalculatorDefinition<CompoundInterestInput, CompoundInterestOutput> = {
+  slug: 'compound-interest-calculator',
+  category: 'finance',
+  inputSchema,
+  inputs: {
+    principal: { label: 'Initial Investment', currency: true },
+    annualRate: { label: 'Annual Interest Rate', unit: '%' },
+    years: { label: 'Investment Period', unit: 'years' },
+    compoundingFrequency: { label: 'Compounding Frequency', unit: 'times per year' },
+  },
+  outputs: {
+    totalAmount: { label: 'Final Amount', format: 'currency', better: 'higher' },
+    totalInterest: { label: 'Total Interest Earned', format: 'currency', better: 'higher' },
+    interestPercentage: { label: 'Interest Earned on Principal', format: 'percent', better: 'higher' },
+    annualizedReturn: { label: 'Annualized Return', format: 'percent', better: 'higher' },
+    effectiveRate: { label: 'Effective Annual Rate', format: 'percent', better: 'higher' },
+    yearsToDouble: { label: 'Years to Double (Rule of 72)', format: 'number', unit: 'years', better: 'lower' },
+  },
+  chart: {
+    output: 'chartData',
+    x: { key: 'year', label: 'Year' },
+    series: {
+      value: { label: 'Investment Value', format: 'currency' },
+      principal: { label: 'Principal', format: 'currency' },
+    },
+  },
+  compute: ({ principal, annualRate, years, compoundingFrequency }) => {
+    const P = principal;
+    const r = annualRate / 100;
+    const n = compoundingFrequency;
+    const t = years;
+
+    const totalAmount = P * Math.pow(1 + r / n, n * t);
+    const totalInterest = totalAmount - P;
+
+    const chartData = [];
+    for (let i = 1; i <= t; i++) {
+      chartData.push({
+        year: i,
+        value: Math.round(P * Math.pow(1 + r / n, n * i)),
+        principal: P,
+      });
+    }
+
+    const annualizedReturn = Math.pow(totalAmount / principal, 1 / years) - 1;
+    const effectiveRate = Math.pow(1 + r / n, n) - 1;
+
+    return {
+      totalAmount,
+      totalInterest,
+      chartData,
+      interestPercentage: (totalInterest / principal) * 100,
+      annualizedReturn: annualizedReturn * 100,
+      effectiveRate: effectiveRate * 100,
+      yearsToDouble: 72 / annualRate,
+      compoundingFrequency,
+    };
+  },
+  explain: ({ principal, annualRate, years, compoundingFrequency }, output, format) => {
+    const r = annualRate / 100;
+    const periodRate = `{${num(r, 6)}}/{${num(compoundingFrequency, 4)}}`;
+    return [
+      {
+        label: 'Final amount',
+        formula: 'A = P × (1 + {r}/{n})^{n × t}',
+        substitution: `A = ${num(principal)} × (1 + ${periodRate})^{${num(compoundingFrequency, 4)} × ${num(years, 4)}}`,
+        result: formatOutputValue(output.totalAmount, compoundInterestDefinition.outputs.totalAmount!, format),
+        note: 'P is the initial investment, r the annual rate as a decimal, n the compounding periods per year and t the years.',
+      },
+      {
+        label: 'Interest earned',
+        formula: 'Interest = A − P',
+        substitution: `Interest = ${num(output.totalAmount)} − ${num(principal)}`,
+        result: formatOutputValue(output.totalInterest, compoundInterestDefinition.outputs.totalInterest!, format),
+      },
+      {
+        label: 'Effective annual rate',
+        formula: 'EAR = (1 + {r}/{n})^{n} − 1',
+        substitution: `EAR = (1 + ${periodRate})^{${num(compoundingFrequency, 4)}} − 1`,
+        result: formatOutputValue(output.effectiveRate, compoundInterestDefinition.outputs.effectiveRate!, format),
+      },
+    ];
+  },
+};
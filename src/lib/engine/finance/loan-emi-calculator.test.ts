@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { evaluateCalculator } from '..';
+import { loanEmiDefinition } from './loan-emi-calculator';
+
+describe('loanEmiDefinition', () => {
+  it('computes the monthly EMI of an amortizing loan', () => {
+    const output = loanEmiDefinition.compute({ loanAmount: 250000, annualInterestRate: 6.5, loanTenureYears: 30 });
+    assert.equal(output.emi.toFixed(2), '1580.17');
+    assert.equal(output.totalMonths, 360);
+    assert.equal(output.totalInterest.toFixed(2), (output.emi * 360 - 250000).toFixed(2));
+    assert.equal(output.loanType, 'Mortgage');
+  });
+
+  it('pays the balance off by the last year of the schedule', () => {
+    const output = loanEmiDefinition.compute({ loanAmount: 20000, annualInterestRate: 8, loanTenureYears: 5 });
+    assert.equal(output.chartData.length, 5);
+    assert.ok(output.chartData[4].remainingBalance < 0.01);
+    assert.equal(output.loanType, 'Auto Loan');
+  });
+
+  it('rejects a tenure beyond the schema limit', () => {
+    const result = evaluateCalculator(loanEmiDefinition, { loanAmount: 1000, annualInterestRate: 5, loanTenureYears: 80 });
+    assert.equal(result.success, false);
+    assert.deepEqual(!result.success && result.issues.map((issue) => issue.path), ['loanTenureYears']);
+  });
+});
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { formatStepNumber as num } from '../derivation';
+import { formatOutputValue } from '../format';
+import type { CalculatorDefinition } from '../types';
+
+const inputSchema = z.object({
+  loanAmount: z.number().positive(),
+  annualInterestRate: z.number().positive(),
+  // The amortization schedule loops once per month, so the API and goal seek need a ceiling;
+  // 50 years is longer than any mortgage term lenders offer.
+  loanTenureYears: z.number().positive().max(50),
+});
+
+export type LoanEmiInput = z.infer<typeof inputSchema>;
+
+export interface LoanEmiOutput {
+  emi: number;
+  totalPayment: number;
+  totalInterest: number;
+  chartData: { year: number; remainingBalance: number; totalInterestPaid: number }[];
+  interestPercentage: number;
+  principalPercentage: number;
+  monthlyInterestRate: number;
+  totalMonths: number;
+  loanType: string;
+}
+
+function classifyLoan(loanAmount: number, loanTenureYears: number): string {
+  if (loanAmount > 200000 && loanTenureYears >= 15) {
+    return 'Mortgage';
+  }
+  if (loanAmount >= 10000 && loanAmount <= 100000 && loanTenureYears <= 7) {
+    return 'Auto Loan';
+  }
+  return 'Personal Loan';
+}
+
+export const loanEmiDefinition: CalculatorDefinition<LoanEmiInput, LoanEmiOutput> = {
+  slug: 'loan-emi-calculator',
+  category: 'finance',
+  inputSchema,
+  inputs: {
+    loanAmount: { label: 'Loan Amount', currency: true },
+    annualInterestRate: { label: 'Annual Interest Rate', unit: '%' },
+    loanTenureYears: { label: 'Loan Tenure', unit: 'years' },
+  },
+  outputs: {
+    emi: { label: 'Monthly EMI', format: 'currency', better: 'lower' },
+    totalPayment: { label: 'Total Payment', format: 'currency', better: 'lower' },
+    totalInterest: { label: 'Total Interest', format: 'currency', better: 'lower' },
+    interestPercentage: { label: 'Interest Share of Total Payment', format: 'percent', better: 'lower' },
+    principalPercentage: { label: 'Principal Share of Total Payment', format: 'percent', better: 'higher' },
+    monthlyInterestRate: { label: 'Monthly Interest Rate', format: 'percent', better: 'lower' },
+    totalMonths: { label: 'Number of Payments', format: 'integer' },
+    loanType: { label: 'Loan Type', format: 'text' },
+  },
+  chart: {
+    output: 'chartData',
+    x: { key: 'year', label: 'Year' },
+    series: {
+      remainingBalance: { label: 'Remaining Balance', format: 'currency' },
+      totalInterestPaid: { label: 'Interest Paid to Date', format: 'currency' },
+    },
+  },
+  compute: ({ loanAmount, annualInterestRate, loanTenureYears }) => {
+    const P = loanAmount;
+    const r = annualInterestRate / 12 / 100;
+    const n = loanTenureYears * 12;
+
+    const emi = r === 0 ? P / n : (P * r * Math.pow(1 + r, n)) / (Math.pow(1 + r, n) - 1);
+    const totalPayment = emi * n;
+    const totalInterest = totalPayment - P;
+
+    const chartData = [];
+    let remainingBalance = P;
+    let cumulativeInterest = 0;
+
+    for (let year = 1; year <= loanTenureYears; year++) {
+      let yearlyInterest = 0;
+      for (let month = 1; month <= 12; month++) {
+        const interestPayment = remainingBalance * r;
+        const principalPayment = emi - interestPayment;
+        yearlyInterest += interestPayment;
+        remainingBalance -= principalPayment;
+      }
+      cumulativeInterest += yearlyInterest;
+      chartData.push({
+        year,
+        remainingBalance: Math.max(0, remainingBalance), // Ensure balance doesn't go negative
+        totalInterestPaid: Math.round(cumulativeInterest),
+      });
+    }
+
+    return {
+      emi,
+      totalPayment,
+      totalInterest,
+      chartData,
+      interestPercentage: (totalInterest / totalPayment) * 100,
+      principalPercentage: (loanAmount / totalPayment) * 100,
+      monthlyInterestRate: annualInterestRate / 12,
+      totalMonths: n,
+      loanType: classifyLoan(loanAmount, loanTenureYears),
+    };
+  },
+  explain: ({ loanAmount, annualInterestRate, loanTenureYears }, output, format) => {
+    const r = annualInterestRate / 12 / 100;
+    const growth = `(${num(1 + r, 6)})^{${num(output.totalMonths)}}`;
+    return [
+      {
+        label: 'Monthly interest rate',
+        formula: 'r = {R}/{12 × 100}',
+        substitution: `r = {${num(annualInterestRate, 4)}}/{1,200}`,
+        result: num(r, 6),
+        note: 'R is the annual interest rate in percent.',
+      },
+      {
+        label: 'Number of monthly payments',
+        formula: 'n = N × 12',
+        substitution: `n = ${num(loanTenureYears, 4)} × 12`,
+        result: num(output.totalMonths, 4),
+      },
+      {
+        label: 'Monthly EMI',
+        formula: 'EMI = P × r × {(1 + r)^{n}}/{(1 + r)^{n} − 1}',
+        substitution: `EMI = ${num(loanAmount)} × ${num(r, 6)} × {${growth}}/{${growth} − 1}`,
+        result: formatOutputValue(output.emi, loanEmiDefinition.outputs.emi!, format),
+        note: 'P is the loan amount.',
+      },
+      {
+        label: 'Total payment',
+        formula: 'Total = EMI × n',
+        substitution: `Total = ${num(output.emi)} × ${num(output.totalMonths, 4)}`,
+        result: formatOutputValue(output.totalPayment, loanEmiDefinition.outputs.totalPayment!, format),
+      },
+      {
+        label: 'Total interest',
+        formula: 'Interest = Total − P',
+        substitution: `Interest = ${num(output.totalPayment)} − ${num(loanAmount)}`,
+        result: formatOutputValue(output.totalInterest, loanEmiDefinition.outputs.totalInterest!, format),
+      },
+    ];
+  },
+};
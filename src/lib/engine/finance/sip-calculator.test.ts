@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { sipDefinition } from './sip-calculator';
+
+describe('sipDefinition', () => {
+  it('values contributions made at the start of each month', () => {
+    const output = sipDefinition.compute({ monthlyInvestment: 1000, annualInterestRate: 12, investmentPeriodYears: 10 });
+    assert.equal(output.futureValue, 232339);
+    assert.equal(output.totalInvestment, 120000);
+    assert.equal(output.totalProfit, 112339);
+  });
+
+  it('tracks the invested amount year by year', () => {
+    const output = sipDefinition.compute({ monthlyInvestment: 500, annualInterestRate: 10, investmentPeriodYears: 3 });
+    assert.deepEqual(
+      output.chartData.map((point) => point.totalInvestment),
+      [6000, 12000, 18000]
+    );
+  });
+
+  it('values a part-year period over all of its months', () => {
+    const input = { monthlyInvestment: 1000, annualInterestRate: 12, investmentPeriodYears: 2.5 };
+    const output = sipDefinition.compute(input);
+    const r = 0.01;
+    assert.equal(output.futureValue, Math.round(1000 * ((Math.pow(1 + r, 30) - 1) / r) * (1 + r)));
+    assert.equal(output.totalInvestment, 30000);
+    assert.equal(output.totalProfit, output.futureValue - output.totalInvestment);
+    assert.deepEqual(output.chartData.at(-1), {
+      year: 2.5,
+      totalInvestment: 30000,
+      futureValue: output.futureValue,
+      profit: output.futureValue - 30000,
+    });
+  });
+});
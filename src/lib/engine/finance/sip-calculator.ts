@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { formatStepNumber as num } from '../derivation';
+import { formatOutputValue } from '../format';
+import type { CalculatorDefinition } from '../types';
+
+const inputSchema = z.object({
+  monthlyInvestment: z.number().positive(),
+  annualInterestRate: z.number().positive(),
+  investmentPeriodYears: z.number().positive().max(100),
+});
+
+export type SipInput = z.infer<typeof inputSchema>;
+
+export interface SipOutput {
+  futureValue: number;
+  totalInvestment: number;
+  totalProfit: number;
+  chartData: { year: number; totalInvestment: number; futureValue: number; profit: number }[];
+  annualizedReturn: number;
+  profitPercentage: number;
+  monthlyContribution: number;
+  years: number;
+}
+
+export const sipDefinition: CalculatorDefinition<SipInput, SipOutput> = {
+  slug: 'sip-calculator',
+  category: 'finance',
+  inputSchema,
+  inputs: {
+    monthlyInvestment: { label: 'Monthly Investment Amount', currency: true },
+    annualInterestRate: { label: 'Expected Annual Return', unit: '%' },
+    investmentPeriodYears: { label: 'Investment Period', unit: 'years' },
+  },
+  outputs: {
+    futureValue: { label: 'Future Value', format: 'currency', better: 'higher' },
+    totalInvestment: { label: 'Total Invested', format: 'currency' },
+    totalProfit: { label: 'Total Profit', format: 'currency', better: 'higher' },
+    annualizedReturn: { label: 'Annualized Return on Contributions', format: 'percent', better: 'higher' },
+    profitPercentage: { label: 'Profit on Invested Amount', format: 'percent', better: 'higher' },
+  },
+  chart: {
+    output: 'chartData',
+    x: { key: 'year', label: 'Year' },
+    series: {
+      futureValue: { label: 'Portfolio Value', format: 'currency' },
+      totalInvestment: { label: 'Amount Invested', format: 'currency' },
+      profit: { label: 'Profit', format: 'currency' },
+    },
+  },
+  compute: ({ monthlyInvestment, annualInterestRate, investmentPeriodYears }) => {
+    const r = annualInterestRate / 12 / 100;
+    const n = investmentPeriodYears * 12;
+    // Contributions at the start of each month (annuity due).
+    const valueAfter = (months: number) => monthlyInvestment * ((Math.pow(1 + r, months) - 1) / r) * (1 + r);
+
+    const pointAt = (year: number) => {
+      const value = valueAfter(year * 12);
+      const invested = monthlyInvestment * year * 12;
+      return { year, totalInvestment: Math.round(invested), futureValue: Math.round(value), profit: Math.round(value - invested) };
+    };
+    const chartData = [];
+    for (let year = 1; year <= investmentPeriodYears; year++) {
+      chartData.push(pointAt(year));
+    }
+    // A part year (2.5 years) ends the chart at the same point as the totals below.
+    if (!Number.isInteger(investmentPeriodYears)) {
+      chartData.push(pointAt(investmentPeriodYears));
+    }
+
+    const futureValue = Math.round(valueAfter(n));
+    const totalInvestment = monthlyInvestment * n;
+    const totalProfit = futureValue - totalInvestment;
+    const annualizedReturn = Math.pow(futureValue / totalInvestment, 1 / investmentPeriodYears) - 1;
+
+    return {
+      futureValue,
+      totalInvestment,
+      totalProfit,
+      chartData,
+      annualizedReturn: annualizedReturn * 100,
+      profitPercentage: (totalProfit / totalInvestment) * 100,
+      monthlyContribution: monthlyInvestment,
+      years: investmentPeriodYears,
+    };
+  },
+  explain: ({ monthlyInvestment, annualInterestRate, investmentPeriodYears }, output, format) => {
+    const r = annualInterestRate / 12 / 100;
+    const n = investmentPeriodYears * 12;
+    return [
+      {
+        label: 'Monthly rate of return',
+        formula: 'r = {R}/{12 × 100}',
+        substitution: `r = {${num(annualInterestRate, 4)}}/{1,200}`,
+        result: num(r, 6),
+        note: 'R is the expected annual return in percent.',
+      },
+      {
+        label: 'Number of monthly investments',
+        formula: 'n = N × 12',
+        substitution: `n = ${num(investmentPeriodYears, 4)} × 12`,
+        result: num(n, 4),
+      },
+      {
+        label: 'Future value',
+        formula: 'FV = M × {(1 + r)^{n} − 1}/{r} × (1 + r)',
+        substitution: `FV = ${num(monthlyInvestment)} × {(${num(1 + r, 6)})^{${num(n, 4)}} − 1}/{${num(r, 6)}} × ${num(1 + r, 6)}`,
+        result: formatOutputValue(output.futureValue, sipDefinition.outputs.futureValue!, format),
+        note: 'M is the monthly investment. Each one is made at the start of the month, so it earns a full month of returns.',
+      },
+      {
+        label: 'Total invested',
+        formula: 'Invested = M × n',
+        substitution: `Invested = ${num(monthlyInvestment)} × ${num(n, 4)}`,
+        result: formatOutputValue(output.totalInvestment, sipDefinition.outputs.totalInvestment!, format),
+      },
+      {
+        label: 'Wealth gained',
+        formula: 'Gain = FV − Invested',
+        substitution: `Gain = ${num(output.futureValue)} − ${num(output.totalInvestment)}`,
+        result: formatOutputValue(output.totalProfit, sipDefinition.outputs.totalProfit!, format),
+      },
+    ];
+  },
+};
@@ -0,0 +1,67 @@
+import type { InputDescriptor } from './describe';
+import type { AnyCalculatorDefinition, InputField, NumberFormatOptions, OutputField } from './types';
+
+export const defaultNumberFormat: NumberFormatOptions = { locale: 'en-US', currency: 'USD' };
+
+/** Formats an output value for display according to its metadata and the number format. */
+export function formatOutputValue(value: unknown, field: OutputField, options: NumberFormatOptions = defaultNumberFormat): string {
+  if (typeof value !== 'number') {
+    return String(value);
+  }
+  const { locale } = options;
+  let formatted: string;
+  switch (field.format) {
+    case 'currency':
+      formatted = formatCurrency(value, options);
+      break;
+    case 'percent':
+      formatted = `${value.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2, useGrouping: false })}%`;
+      break;
+    case 'integer':
+      formatted = Math.round(value).toLocaleString(locale);
+      break;
+    default:
+      formatted = value.toLocaleString(locale, { maximumFractionDigits: 2 });
+  }
+  return field.unit ? `${formatted} ${field.unit}` : formatted;
+}
+
+/** Formats an amount of money in the format's currency; `compact` gives chart labels such as "$120K". */
+export function formatCurrency(
+  value: number,
+  options: NumberFormatOptions = defaultNumberFormat,
+  { maximumFractionDigits, compact = false }: { maximumFractionDigits?: number; compact?: boolean } = {}
+): string {
+  return value.toLocaleString(options.locale, {
+    style: 'currency',
+    currency: options.currency,
+    ...(maximumFractionDigits === undefined ? {} : { minimumFractionDigits: 0, maximumFractionDigits }),
+    ...(compact ? { notation: 'compact' } : {}),
+  });
+}
+
+/** The symbol of the format's currency, such as "$" or "€". */
+export function currencySymbol(options: NumberFormatOptions = defaultNumberFormat): string {
+  const parts = new Intl.NumberFormat(options.locale, { style: 'currency', currency: options.currency }).formatToParts(0);
+  return parts.find((part) => part.type === 'currency')?.value ?? options.currency;
+}
+
+/** What to show beside an input's label: its unit, or the currency symbol for amounts of money. */
+export function inputUnitLabel(input: InputField, options: NumberFormatOptions = defaultNumberFormat): string | undefined {
+  return input.currency ? currencySymbol(options) : input.unit;
+}
+
+/** Formats a numeric input value, such as one found by a goal seek, with its unit. */
+export function formatInputValue(value: number, input: InputDescriptor, options: NumberFormatOptions = defaultNumberFormat): string {
+  const format = input.currency ? 'currency' : input.type === 'integer' ? 'integer' : 'number';
+  return formatOutputValue(value, { label: input.label, format, unit: input.unit }, options);
+}
+
+/** The described scalar outputs of a result, leaving out series such as chart data. */
+export function describedOutputValues(definition: AnyCalculatorDefinition, output: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.keys(definition.outputs)
+      .filter((name) => output[name] !== undefined)
+      .map((name) => [name, output[name]])
+  );
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { loanEmiDefinition } from './finance/loan-emi-calculator';
+import { goalSeek } from './goal-seek';
+import { bmrDefinition } from './health-fitness/bmr-calculator';
+
+const loan = { loanAmount: 200000, annualInterestRate: 6, loanTenureYears: 20 };
+const person = { age: 40, gender: 'female', weight: 65, height: 165, unit: 'metric' } as const;
+
+describe('goalSeek', () => {
+  it('solves a continuous input to the target', () => {
+    const result = goalSeek(loanEmiDefinition, { inputs: loan, solveFor: 'loanAmount', output: 'emi', target: 1000 });
+    assert.ok(result.success);
+    assert.ok(Math.abs(result.achieved - 1000) < 1e-6);
+    assert.ok(Math.abs(loanEmiDefinition.compute({ ...loan, loanAmount: result.value }).emi - 1000) < 1e-6);
+  });
+
+  it('rounds a whole-number input to the closest hit', () => {
+    const bmrAt = (age: number) => bmrDefinition.compute({ ...person, age }).bmr;
+    // Mifflin-St Jeor takes 5 kcal a year, so 2 kcal short of age 40 is still closest to 40.
+    const result = goalSeek(bmrDefinition, { inputs: person, solveFor: 'age', output: 'bmr', target: bmrAt(40) - 2 });
+    assert.ok(result.success);
+    assert.equal(result.value, 40);
+    assert.equal(result.achieved, bmrAt(40));
+  });
+
+  it('reports the reachable range when the target is outside it', () => {
+    const result = goalSeek(loanEmiDefinition, { inputs: loan, solveFor: 'loanTenureYears', output: 'emi', target: 10 });
+    assert.equal(result.success, false);
+    assert.ok(!result.success && result.reason === 'no_solution');
+    const longest = loanEmiDefinition.compute({ ...loan, loanTenureYears: 50 }).emi;
+    assert.ok(Math.abs(result.reachable!.min - longest) < 1e-6);
+    assert.ok(result.reachable!.max > result.reachable!.min);
+  });
+
+  it('rejects inputs and outputs it cannot solve for', () => {
+    const text = goalSeek(loanEmiDefinition, { inputs: loan, solveFor: 'loanAmount', output: 'loanType', target: 1 });
+    assert.ok(!text.success && text.reason === 'invalid_request');
+    const enumInput = goalSeek(bmrDefinition, { inputs: person, solveFor: 'gender', output: 'bmr', target: 1400 });
+    assert.ok(!enumInput.success && enumInput.reason === 'invalid_request');
+    const notANumber = goalSeek(loanEmiDefinition, { inputs: loan, solveFor: 'loanAmount', output: 'emi', target: NaN });
+    assert.ok(!notANumber.success && notANumber.reason === 'invalid_request');
+  });
+
+  it('asks for the other inputs before solving', () => {
+    const result = goalSeek(loanEmiDefinition, { inputs: { loanAmount: 1000 }, solveFor: 'loanAmount', output: 'emi', target: 100 });
+    assert.ok(!result.success && result.reason === 'invalid_input');
+    assert.deepEqual(result.issues.map((issue) => issue.path).sort(), ['annualInterestRate', 'loanTenureYears']);
+  });
+});
@@ -0,0 +1,197 @@
+import { describeInputs, type InputDescriptor } from './describe';
+import type { AnyCalculatorDefinition, InputIssue } from './types';
+
+export interface GoalSeekRequest {
+  /** Values of every input; the one being solved for is ignored. */
+  inputs: Record<string, unknown>;
+  /** Numeric input to solve for. */
+  solveFor: string;
+  /** Described numeric output to hit. */
+  output: string;
+  target: number;
+}
+
+export type GoalSeekResult =
+  | {
+      success: true;
+      /** Value of the solved input. Whole-number inputs are rounded to the closest hit. */
+      value: number;
+      inputs: Record<string, unknown>;
+      /** Output value at `value`, which differs from the target when `value` had to be rounded. */
+      achieved: number;
+    }
+  | { success: false; reason: 'invalid_request'; message: string }
+  | { success: false; reason: 'invalid_input'; message: string; issues: InputIssue[] }
+  | {
+      success: false;
+      reason: 'no_solution';
+      message: string;
+      /** Lowest and highest output values found across the input's allowed range. */
+      reachable?: { min: number; max: number };
+    };
+
+const maxIterations = 100;
+const largestMagnitude = 1e12;
+
+/** Lowest and highest values the schema allows, nudged inside exclusive bounds. */
+function inputRange(input: InputDescriptor): { lower: number; upper: number } {
+  const inside = (bound: number, direction: 1 | -1) => bound + direction * Math.max(1e-9, Math.abs(bound) * 1e-9);
+  const lower = input.minimum ?? (input.exclusiveMinimum !== undefined ? inside(input.exclusiveMinimum, 1) : -largestMagnitude);
+  const upper = input.maximum ?? (input.exclusiveMaximum !== undefined ? inside(input.exclusiveMaximum, -1) : largestMagnitude);
+  return { lower, upper };
+}
+
+/**
+ * Points to probe for a sign change. Bounded ranges are sampled evenly; open-ended ones
+ * geometrically, since inputs such as loan amounts span many orders of magnitude.
+ */
+function samplePoints(lower: number, upper: number, integer: boolean): number[] {
+  const points = new Set<number>([lower, upper]);
+  if (upper - lower <= 1e6) {
+    const steps = 200;
+    for (let i = 1; i < steps; i++) {
+      points.add(lower + ((upper - lower) * i) / steps);
+    }
+  }
+  for (let magnitude = 1e-6; magnitude <= largestMagnitude; magnitude *= 1.5) {
+    for (const point of [magnitude, -magnitude, lower + magnitude, upper - magnitude]) {
+      if (point > lower && point < upper) {
+        points.add(point);
+      }
+    }
+  }
+  const sorted = [...points].sort((a, b) => a - b);
+  return integer ? [...new Set(sorted.map((point) => Math.round(point)))].filter((p) => p >= lower && p <= upper) : sorted;
+}
+
+/** Brent's method on a bracket [a, b] where f(a) and f(b) have opposite signs. */
+function brent(f: (x: number) => number, a: number, b: number, fa: number, fb: number): number {
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+  for (let i = 0; i < maxIterations; i++) {
+    if (Math.sign(fb) === Math.sign(fc)) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      [a, b, c] = [b, c, b];
+      [fa, fb, fc] = [fb, fc, fb];
+    }
+    const tolerance = 2 * Number.EPSILON * Math.abs(b) + 1e-12;
+    const midpoint = (c - b) / 2;
+    if (Math.abs(midpoint) <= tolerance || fb === 0) {
+      return b;
+    }
+    if (Math.abs(e) >= tolerance && Math.abs(fa) > Math.abs(fb)) {
+      // Try inverse quadratic interpolation, or the secant step when only two points differ.
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * midpoint * s;
+        q = 1 - s;
+      } else {
+        const r = fb / fc;
+        const t = fa / fc;
+        p = s * (2 * midpoint * t * (t - r) - (b - a) * (r - 1));
+        q = (t - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+      if (2 * p < Math.min(3 * midpoint * q - Math.abs(tolerance * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = midpoint;
+        e = d;
+      }
+    } else {
+      d = midpoint;
+      e = d;
+    }
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tolerance ? d : Math.sign(midpoint) * tolerance;
+    fb = f(b);
+  }
+  return b;
+}
+
+/**
+ * Finds the value of one input that makes an output equal a target, with every other input
+ * held fixed. The search stays within the input's zod bounds: it probes the range for a
+ * sign change, then narrows the bracket with Brent's method. When the output never crosses
+ * the target, the result says so and reports the range the output does reach.
+ */
+export function goalSeek(definition: AnyCalculatorDefinition, request: GoalSeekRequest): GoalSeekResult {
+  const input = describeInputs(definition).find((candidate) => candidate.name === request.solveFor);
+  if (!input || (input.type !== 'number' && input.type !== 'integer')) {
+    return { success: false, reason: 'invalid_request', message: `"${request.solveFor}" is not a numeric input.` };
+  }
+  const field = definition.outputs[request.output];
+  if (!field || field.format === 'text') {
+    return { success: false, reason: 'invalid_request', message: `"${request.output}" is not a numeric output.` };
+  }
+  if (!Number.isFinite(request.target)) {
+    return { success: false, reason: 'invalid_request', message: 'The target must be a number.' };
+  }
+
+  const { lower, upper } = inputRange(input);
+  const inputsAt = (x: number) => ({ ...request.inputs, [request.solveFor]: x });
+  const outputAt = (x: number): number => {
+    const parsed = definition.inputSchema.safeParse(inputsAt(x));
+    const value = parsed.success ? definition.compute(parsed.data)[request.output] : NaN;
+    return typeof value === 'number' ? value : NaN;
+  };
+
+  // The other inputs must be valid on their own, or every probe fails for the wrong reason.
+  const probe = definition.inputSchema.safeParse(inputsAt(Math.min(Math.max(1, lower), upper)));
+  if (!probe.success) {
+    const issues = probe.error.issues
+      .map((issue) => ({ path: issue.path.join('.'), message: issue.message }))
+      .filter((issue) => issue.path !== request.solveFor);
+    if (issues.length > 0) {
+      return { success: false, reason: 'invalid_input', message: 'Fill in the other inputs first.', issues };
+    }
+  }
+
+  const f = (x: number) => outputAt(x) - request.target;
+  const points = samplePoints(lower, upper, input.type === 'integer');
+  let reachableMin = Infinity;
+  let reachableMax = -Infinity;
+  let previous: { x: number; fx: number } | null = null;
+
+  for (const x of points) {
+    const fx = f(x);
+    if (!Number.isFinite(fx)) {
+      previous = null;
+      continue;
+    }
+    reachableMin = Math.min(reachableMin, fx + request.target);
+    reachableMax = Math.max(reachableMax, fx + request.target);
+    if (fx === 0) {
+      return { success: true, value: x, inputs: inputsAt(x), achieved: request.target };
+    }
+    if (previous && Math.sign(previous.fx) !== Math.sign(fx)) {
+      let value = brent(f, previous.x, x, previous.fx, fx);
+      if (input.type === 'integer') {
+        const candidates = [Math.floor(value), Math.ceil(value)].filter((c) => c >= lower && c <= upper);
+        value = candidates.reduce((best, c) => (Math.abs(f(c)) < Math.abs(f(best)) ? c : best), candidates[0] ?? Math.round(value));
+      }
+      return { success: true, value, inputs: inputsAt(value), achieved: outputAt(value) };
+    }
+    previous = { x, fx };
+  }
+
+  const reachable = Number.isFinite(reachableMin) ? { min: reachableMin, max: reachableMax } : undefined;
+  return {
+    success: false,
+    reason: 'no_solution',
+    message: `${field.label} cannot reach the target by changing ${input.label} within its allowed range.`,
+    reachable,
+  };
+}
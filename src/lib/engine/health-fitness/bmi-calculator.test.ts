@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { bmiDefinition, getBmiCategory } from './bmi-calculator';
+
+describe('bmiDefinition', () => {
+  it('computes BMI from kilograms and centimeters', () => {
+    const output = bmiDefinition.compute({ weight: 70, height: 175, unit: 'metric' });
+    assert.equal(output.bmi.toFixed(2), '22.86');
+    assert.equal(output.category, 'Normal weight');
+  });
+
+  it('computes BMI from pounds and inches', () => {
+    const output = bmiDefinition.compute({ weight: 154, height: 69, unit: 'imperial' });
+    assert.equal(output.bmi.toFixed(2), '22.74');
+  });
+
+  it('puts the category boundaries in the higher category', () => {
+    assert.equal(getBmiCategory(18.5), 'Normal weight');
+    assert.equal(getBmiCategory(25), 'Overweight');
+    assert.equal(getBmiCategory(30), 'Obese');
+  });
+});
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { formatStepNumber as num } from '../derivation';
+import { formatOutputValue } from '../format';
+import type { CalculatorDefinition } from '../types';
+
+const inputSchema = z.object({
+  weight: z.number().positive(),
+  height: z.number().positive(),
+  unit: z.enum(['metric', 'imperial']),
+});
+
+export type BmiInput = z.infer<typeof inputSchema>;
+
+export type BmiCategory = 'Underweight' | 'Normal weight' | 'Overweight' | 'Obese';
+
+export interface BmiOutput {
+  bmi: number;
+  category: BmiCategory;
+}
+
+export const getBmiCategory = (bmi: number): BmiCategory => {
+  if (bmi < 18.5) return 'Underweight';
+  if (bmi < 25) return 'Normal weight';
+  if (bmi < 30) return 'Overweight';
+  return 'Obese';
+};
+
+export const bmiDefinition: CalculatorDefinition<BmiInput, BmiOutput> = {
+  slug: 'bmi-calculator',
+  category: 'health-fitness',
+  inputSchema,
+  inputs: {
+    weight: { label: 'Weight', description: 'Kilograms for metric units, pounds for imperial units.' },
+    height: { label: 'Height', description: 'Centimeters for metric units, inches for imperial units.' },
+    unit: { label: 'Units' },
+  },
+  outputs: {
+    bmi: { label: 'BMI', format: 'number', unit: 'kg/m²' },
+    category: { label: 'Category', format: 'text' },
+  },
+  compute: ({ weight, height, unit }) => {
+    let bmi;
+    if (unit === 'metric') {
+      const heightInMeters = height / 100;
+      bmi = weight / (heightInMeters * heightInMeters);
+    } else {
+      bmi = (weight / (height * height)) * 703;
+    }
+    return { bmi, category: getBmiCategory(bmi) };
+  },
+  explain: ({ weight, height, unit }, output, format) => {
+    const bmi = formatOutputValue(output.bmi, bmiDefinition.outputs.bmi!, format);
+    if (unit === 'imperial') {
+      return [
+        {
+          label: 'Body Mass Index',
+          formula: 'BMI = {weight_{lb}}/{height_{in}^{2}} × 703',
+          substitution: `BMI = {${num(weight)}}/{${num(height)}^{2}} × 703`,
+          result: bmi,
+          note: `703 converts pounds per square inch to kg/m². A BMI of ${num(output.bmi, 1)} is classed as ${output.category.toLowerCase()}.`,
+        },
+      ];
+    }
+    return [
+      {
+        label: 'Height in meters',
+        formula: 'height_{m} = {height_{cm}}/{100}',
+        substitution: `height_{m} = {${num(height)}}/{100}`,
+        result: `${num(height / 100, 4)} m`,
+      },
+      {
+        label: 'Body Mass Index',
+        formula: 'BMI = {weight_{kg}}/{height_{m}^{2}}',
+        substitution: `BMI = {${num(weight)}}/{${num(height / 100, 4)}^{2}}`,
+        result: bmi,
+        note: `A BMI of ${num(output.bmi, 1)} is classed as ${output.category.toLowerCase()}.`,
+      },
+    ];
+  },
+};
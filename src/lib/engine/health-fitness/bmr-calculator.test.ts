@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { bmrDefinition } from './bmr-calculator';
+
+describe('bmrDefinition', () => {
+  it('applies the Mifflin-St Jeor equation', () => {
+    assert.equal(bmrDefinition.compute({ age: 30, gender: 'male', weight: 70, height: 175, unit: 'metric' }).bmr, 1648.75);
+    assert.equal(bmrDefinition.compute({ age: 30, gender: 'female', weight: 70, height: 175, unit: 'metric' }).bmr, 1482.75);
+  });
+
+  it('converts imperial units before applying the equation', () => {
+    const metric = bmrDefinition.compute({ age: 40, gender: 'female', weight: 60, height: 165, unit: 'metric' });
+    const imperial = bmrDefinition.compute({ age: 40, gender: 'female', weight: 60 / 0.453592, height: 165 / 2.54, unit: 'imperial' });
+    assert.equal(imperial.bmr.toFixed(6), metric.bmr.toFixed(6));
+  });
+
+  it('scales the daily calories by activity level', () => {
+    const { bmr, chartData } = bmrDefinition.compute({ age: 30, gender: 'male', weight: 70, height: 175, unit: 'metric' });
+    assert.equal(chartData[0].calories, Math.round(bmr * 1.2));
+    assert.equal(chartData.length, 5);
+  });
+});
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { formatStepNumber as num } from '../derivation';
+import { formatOutputValue } from '../format';
+import type { CalculatorDefinition } from '../types';
+
+const inputSchema = z.object({
+  age: z.number().positive().int().max(120),
+  gender: z.enum(['male', 'female']),
+  weight: z.number().positive(),
+  height: z.number().positive(),
+  unit: z.enum(['metric', 'imperial']),
+});
+
+export type BmrInput = z.infer<typeof inputSchema>;
+
+export interface BmrOutput {
+  bmr: number;
+  chartData: { name: string; calories: number; description: string }[];
+}
+
+export const activityLevels = [
+  { name: 'Sedentary', description: 'Little or no exercise', multiplier: 1.2 },
+  { name: 'Lightly Active', description: 'Light exercise (1-3 days/week)', multiplier: 1.375 },
+  { name: 'Moderately Active', description: 'Moderate exercise (3-5 days/week)', multiplier: 1.55 },
+  { name: 'Very Active', description: 'Hard exercise (6-7 days/week)', multiplier: 1.725 },
+  { name: 'Extra Active', description: 'Very hard exercise & physical job', multiplier: 1.9 },
+];
+
+export const bmrDefinition: CalculatorDefinition<BmrInput, BmrOutput> = {
+  slug: 'bmr-calculator',
+  category: 'health-fitness',
+  inputSchema,
+  inputs: {
+    age: { label: 'Age', unit: 'years' },
+    gender: { label: 'Gender' },
+    weight: { label: 'Weight', description: 'Kilograms for metric units, pounds for imperial units.' },
+    height: { label: 'Height', description: 'Centimeters for metric units, inches for imperial units.' },
+    unit: { label: 'Units' },
+  },
+  outputs: {
+    bmr: { label: 'Basal Metabolic Rate', format: 'number', unit: 'kcal/day' },
+  },
+  chart: {
+    output: 'chartData',
+    x: { key: 'name', label: 'Activity Level' },
+    series: {
+      calories: { label: 'Daily Calories', format: 'integer', unit: 'kcal' },
+    },
+  },
+  // Mifflin-St Jeor equation.
+  compute: ({ age, gender, unit, weight, height }) => {
+    const weightKg = unit === 'imperial' ? weight * 0.453592 : weight;
+    const heightCm = unit === 'imperial' ? height * 2.54 : height;
+
+    const bmr = 10 * weightKg + 6.25 * heightCm - 5 * age + (gender === 'male' ? 5 : -161);
+
+    return {
+      bmr,
+      chartData: activityLevels.map((level) => ({
+        name: level.name,
+        calories: Math.round(bmr * level.multiplier),
+        description: level.description,
+      })),
+    };
+  },
+  explain: ({ age, gender, unit, weight, height }, output, format) => {
+    const weightKg = unit === 'imperial' ? weight * 0.453592 : weight;
+    const heightCm = unit === 'imperial' ? height * 2.54 : height;
+    const constant = gender === 'male' ? '+ 5' : '− 161';
+    const conversions = unit === 'imperial'
+      ? [
+          {
+            label: 'Weight in kilograms',
+            formula: 'W = weight_{lb} × 0.453592',
+            substitution: `W = ${num(weight)} × 0.453592`,
+            result: `${num(weightKg)} kg`,
+          },
+          {
+            label: 'Height in centimeters',
+            formula: 'H = height_{in} × 2.54',
+            substitution: `H = ${num(height)} × 2.54`,
+            result: `${num(heightCm)} cm`,
+          },
+        ]
+      : [];
+    return [
+      ...conversions,
+      {
+        label: 'Basal Metabolic Rate',
+        formula: `BMR = 10 × W + 6.25 × H − 5 × A ${constant}`,
+        substitution: `BMR = 10 × ${num(weightKg)} + 6.25 × ${num(heightCm)} − 5 × ${num(age)} ${constant}`,
+        result: formatOutputValue(output.bmr, bmrDefinition.outputs.bmr!, format),
+        note: `Mifflin-St Jeor equation for ${gender === 'male' ? 'men' : 'women'}: W is weight in kg, H height in cm and A age in years.`,
+      },
+    ];
+  },
+};
@@ -0,0 +1,58 @@
+import type { AnyCalculatorDefinition, CalculatorDefinition, EvaluationResult } from './types';
+import { compoundInterestDefinition } from './finance/compound-interest-calculator';
+import { loanEmiDefinition } from './finance/loan-emi-calculator';
+import { sipDefinition } from './finance/sip-calculator';
+import { bmiDefinition } from './health-fitness/bmi-calculator';
+import { bmrDefinition } from './health-fitness/bmr-calculator';
+
+export * from './types';
+export * from './describe';
+export * from './coerce';
+export * from './input-params';
+export * from './permalink';
+export * from './format';
+export * from './compare';
+export * from './goal-seek';
+export * from './sensitivity';
+export * from './batch';
+export * from './derivation';
+
+// Calculators whose math has been moved out of their components, grouped by category. This is
+// the engine's whole scope for now: every other calculator, including the rest of Finance and
+// Health & Fitness, still computes in its component and gets none of the engine-backed features
+// (API compute, share links, history, comparison, goal seek, sensitivity, batch, embed options).
+// Calculators move over one at a time, each with tests next to its definition.
+export const calculatorDefinitions: AnyCalculatorDefinition[] = [
+  // Finance
+  compoundInterestDefinition,
+  loanEmiDefinition,
+  sipDefinition,
+  // Health & Fitness
+  bmiDefinition,
+  bmrDefinition,
+];
+
+export function getCalculatorDefinition(categorySlug: string, calculatorSlug: string): AnyCalculatorDefinition | undefined {
+  return calculatorDefinitions.find((d) => d.category === categorySlug && d.slug === calculatorSlug);
+}
+
+/**
+ * Validates raw input against a definition's schema and computes its outputs.
+ * Never throws for invalid input; issues are returned with dotted field paths.
+ */
+export function evaluateCalculator<Input, Output>(
+  definition: CalculatorDefinition<Input, Output>,
+  rawInput: unknown
+): EvaluationResult<Input, Output> {
+  const parsed = definition.inputSchema.safeParse(rawInput);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    };
+  }
+  return { success: true, input: parsed.data, output: definition.compute(parsed.data) };
+}
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { inputParamName, readInputParams, writeInputParams } from './input-params';
+
+describe('input params', () => {
+  it('prefixes input names', () => {
+    assert.equal(inputParamName('loanAmount'), 'input.loanAmount');
+  });
+
+  it('reads only prefixed parameters with a name after the prefix', () => {
+    const params = new URLSearchParams('input.weight=70&theme=dark&input.=5&input.unit=metric');
+    assert.deepEqual(readInputParams(params), { weight: '70', unit: 'metric' });
+  });
+
+  it('writes values as text and skips empty ones', () => {
+    const params = writeInputParams(new URLSearchParams('theme=dark'), { a: 5, b: '', c: null, d: undefined, e: false });
+    assert.equal(params.toString(), 'theme=dark&input.a=5&input.e=false');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Input values travel in the query string as `input.<name>=<value>`, in share links and embed
+ * URLs alike. The prefix keeps them apart from options such as `theme` or `hide`.
+ */
+export const INPUT_PARAM_PREFIX = 'input.';
+
+export function inputParamName(name: string): string {
+  return `${INPUT_PARAM_PREFIX}${name}`;
+}
+
+/** Every `input.<name>` parameter, keyed by input name, with its value as written. */
+export function readInputParams(params: URLSearchParams): Record<string, string> {
+  const values: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(INPUT_PARAM_PREFIX) && key.length > INPUT_PARAM_PREFIX.length) {
+      values[key.slice(INPUT_PARAM_PREFIX.length)] = value;
+    }
+  });
+  return values;
+}
+
+/** Sets an `input.<name>` parameter for each value, skipping empty ones. */
+export function writeInputParams(params: URLSearchParams, values: Record<string, unknown>): URLSearchParams {
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(inputParamName(name), String(value));
+    }
+  }
+  return params;
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { loanEmiDefinition } from './finance/loan-emi-calculator';
+import { bmrDefinition } from './health-fitness/bmr-calculator';
+import { parseInputParams, permalinkPath, serializeInputValues } from './permalink';
+
+describe('permalinks', () => {
+  it('links to the calculator page with its inputs', () => {
+    const path = permalinkPath(loanEmiDefinition, { loanAmount: 100000, annualInterestRate: 7.5, loanTenureYears: 10 });
+    assert.equal(path, '/category/finance/loan-emi-calculator?input.loanAmount=100000&input.annualInterestRate=7.5&input.loanTenureYears=10');
+  });
+
+  it('leaves out values the definition has no input for, and links without a query when none are set', () => {
+    assert.equal(serializeInputValues(loanEmiDefinition, { loanAmount: 5000, other: 1 }).toString(), 'input.loanAmount=5000');
+    assert.equal(permalinkPath(loanEmiDefinition, {}), '/category/finance/loan-emi-calculator');
+  });
+
+  it('reads back the values it wrote', () => {
+    const values = { age: 30, gender: 'female', weight: 60, height: 165, unit: 'metric' };
+    assert.deepEqual(parseInputParams(bmrDefinition, serializeInputValues(bmrDefinition, values)), values);
+  });
+
+  it('drops values that fail their field schema and keeps the rest', () => {
+    const params = new URLSearchParams('input.age=30.5&input.gender=other&input.weight=-1&input.height=abc&input.unit=imperial');
+    assert.deepEqual(parseInputParams(bmrDefinition, params), { unit: 'imperial' });
+  });
+
+  it('rejects a tenure above the cap', () => {
+    const params = new URLSearchParams('input.loanAmount=1000&input.loanTenureYears=60');
+    assert.deepEqual(parseInputParams(loanEmiDefinition, params), { loanAmount: 1000 });
+  });
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { coerceInputValues } from './coerce';
+import { describeInputs } from './describe';
+import { readInputParams, writeInputParams } from './input-params';
+import type { AnyCalculatorDefinition } from './types';
+
+/** Writes a calculator's input values as `input.<name>` query parameters. */
+export function serializeInputValues(definition: AnyCalculatorDefinition, values: Record<string, unknown>): URLSearchParams {
+  const known = Object.fromEntries(describeInputs(definition).map((input) => [input.name, values[input.name]]));
+  return writeInputParams(new URLSearchParams(), known);
+}
+
+/** Path of the calculator page that reopens with `values` computed. */
+export function permalinkPath(definition: AnyCalculatorDefinition, values: Record<string, unknown>): string {
+  const path = `/category/${definition.category}/${definition.slug}`;
+  const query = serializeInputValues(definition, values).toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Reads input values back from query parameters. Each value must pass its own field's schema,
+ * so a link edited by hand to an out-of-range or mistyped value leaves that input empty
+ * instead of prefilling something the calculator would reject.
+ */
+export function parseInputParams(definition: AnyCalculatorDefinition, params: URLSearchParams): Record<string, unknown> {
+  const schema = definition.inputSchema;
+  if (!(schema instanceof z.ZodObject)) {
+    return {};
+  }
+  const shape = schema.shape as z.ZodRawShape;
+  const written = readInputParams(params);
+  const raw = Object.fromEntries(describeInputs(definition).map((input) => [input.name, written[input.name] ?? '']));
+
+  return Object.fromEntries(
+    Object.entries(coerceInputValues(definition, raw)).filter(([name, value]) => shape[name].safeParse(value).success)
+  );
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { z } from 'zod';
+
+import { dataTable, steppedValues, tornadoAnalysis } from './sensitivity';
+import type { CalculatorDefinition } from './types';
+
+const inputSchema = z.object({
+  units: z.number().int().min(0).max(10),
+  price: z.number().positive(),
+  fee: z.number(),
+});
+type Input = z.infer<typeof inputSchema>;
+
+const revenue: CalculatorDefinition<Input, { revenue: number }> = {
+  slug: 'revenue',
+  category: 'business',
+  inputSchema,
+  inputs: { units: { label: 'Units' }, price: { label: 'Price' }, fee: { label: 'Fee' } },
+  outputs: { revenue: { label: 'Revenue', format: 'currency' } },
+  compute: ({ units, price, fee }) => ({ revenue: units * price + fee }),
+};
+
+describe('steppedValues', () => {
+  it('spaces values evenly with both ends included', () => {
+    assert.deepEqual(steppedValues(0, 10, 5), [0, 2.5, 5, 7.5, 10]);
+    assert.deepEqual(steppedValues(3, 3, 4), [3]);
+    assert.deepEqual(steppedValues(1, 9, 1), [1]);
+  });
+});
+
+describe('tornadoAnalysis', () => {
+  it('varies each input on its own and puts the largest swing first', () => {
+    const result = tornadoAnalysis(revenue, { units: 5, price: 10, fee: 1 }, 'revenue', 20);
+    assert.ok(result);
+    assert.equal(result.baseline, 51);
+    assert.deepEqual(result.rows.map((row) => row.name), ['units', 'price', 'fee']);
+    assert.deepEqual(result.rows[1].low, { input: 8, output: 41 });
+    assert.deepEqual(result.rows[1].high, { input: 12, output: 61 });
+    assert.equal(result.rows[1].swing, 20);
+  });
+
+  it('keeps varied values within the schema and whole for integer inputs', () => {
+    const result = tornadoAnalysis(revenue, { units: 9, price: 10, fee: 0 }, 'revenue', 25);
+    const units = result!.rows.find((row) => row.name === 'units')!;
+    assert.deepEqual([units.low.input, units.high.input], [7, 10]);
+  });
+
+  it('uses a custom range in either order and reports ends that do not compute', () => {
+    const result = tornadoAnalysis(revenue, { units: 5, price: 10, fee: 0 }, 'revenue', 10, { price: { low: 20, high: -5 } });
+    const price = result!.rows.find((row) => row.name === 'price')!;
+    assert.deepEqual(price.low, { input: -5, output: null });
+    assert.deepEqual(price.high, { input: 20, output: 100 });
+    assert.equal(price.swing, 50);
+  });
+
+  it('returns null when the base inputs do not compute', () => {
+    assert.equal(tornadoAnalysis(revenue, { units: 5, price: 0, fee: 0 }, 'revenue', 10), null);
+  });
+});
+
+describe('dataTable', () => {
+  it('computes every combination of the row and column values', () => {
+    const result = dataTable(
+      revenue,
+      { units: 1, price: 1, fee: 5 },
+      'revenue',
+      { name: 'units', values: [1, 2] },
+      { name: 'price', values: [10, 20, 0] }
+    );
+    assert.deepEqual(result.cells, [
+      [15, 25, null],
+      [25, 45, null],
+    ]);
+  });
+});
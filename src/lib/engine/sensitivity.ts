@@ -0,0 +1,122 @@
+import { describeInputs, type InputDescriptor } from './describe';
+import type { AnyCalculatorDefinition } from './types';
+
+export interface InputRange {
+  low: number;
+  high: number;
+}
+
+export interface TornadoRow {
+  name: string;
+  label: string;
+  low: { input: number; output: number | null };
+  high: { input: number; output: number | null };
+  /** Distance between the lowest and highest output across the range; 0 when neither end computes. */
+  swing: number;
+}
+
+export interface TornadoResult {
+  baseline: number;
+  /** Numeric inputs, largest swing first. */
+  rows: TornadoRow[];
+}
+
+export interface DataTableAxis {
+  name: string;
+  values: number[];
+}
+
+export interface DataTableResult {
+  rows: DataTableAxis;
+  columns: DataTableAxis;
+  /** One row per `rows` value and one cell per `columns` value; null where the inputs are invalid. */
+  cells: (number | null)[][];
+}
+
+/** Output value for a set of inputs, or null when they fail validation or the output is not a number. */
+function outputFor(definition: AnyCalculatorDefinition, inputs: Record<string, unknown>, output: string): number | null {
+  const parsed = definition.inputSchema.safeParse(inputs);
+  if (!parsed.success) {
+    return null;
+  }
+  const value = definition.compute(parsed.data)[output];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Keeps a varied value inside the schema's bounds, and whole for integer inputs. */
+function clampToInput(value: number, input: InputDescriptor): number {
+  let clamped = value;
+  if (input.maximum !== undefined) clamped = Math.min(clamped, input.maximum);
+  if (input.minimum !== undefined) clamped = Math.max(clamped, input.minimum);
+  if (input.type === 'integer') clamped = Math.round(clamped);
+  return clamped;
+}
+
+function numericInputs(definition: AnyCalculatorDefinition): InputDescriptor[] {
+  return describeInputs(definition).filter((input) => input.type === 'number' || input.type === 'integer');
+}
+
+/** `count` evenly spaced values from `from` to `to`, both included. */
+export function steppedValues(from: number, to: number, count: number): number[] {
+  if (count <= 1 || from === to) {
+    return [from];
+  }
+  return Array.from({ length: count }, (_, i) => from + ((to - from) * i) / (count - 1));
+}
+
+/**
+ * Moves each numeric input on its own, from a low to a high value, and records how far the
+ * output moves. Inputs without a custom range are varied by ±`percent` of their current value.
+ * Returns null when the base inputs do not compute.
+ */
+export function tornadoAnalysis(
+  definition: AnyCalculatorDefinition,
+  inputs: Record<string, unknown>,
+  output: string,
+  percent: number,
+  ranges: Record<string, InputRange> = {}
+): TornadoResult | null {
+  const baseline = outputFor(definition, inputs, output);
+  if (baseline === null) {
+    return null;
+  }
+  const rows = numericInputs(definition)
+    .filter((input) => typeof inputs[input.name] === 'number')
+    .map((input): TornadoRow => {
+      const base = inputs[input.name] as number;
+      const range = ranges[input.name] ?? { low: base * (1 - percent / 100), high: base * (1 + percent / 100) };
+      const low = clampToInput(Math.min(range.low, range.high), input);
+      const high = clampToInput(Math.max(range.low, range.high), input);
+      const lowOutput = outputFor(definition, { ...inputs, [input.name]: low }, output);
+      const highOutput = outputFor(definition, { ...inputs, [input.name]: high }, output);
+      const outputs = [baseline, lowOutput, highOutput].filter((value): value is number => value !== null);
+      return {
+        name: input.name,
+        label: input.label,
+        low: { input: low, output: lowOutput },
+        high: { input: high, output: highOutput },
+        swing: Math.max(...outputs) - Math.min(...outputs),
+      };
+    })
+    .sort((a, b) => b.swing - a.swing);
+  return { baseline, rows };
+}
+
+/**
+ * A two-variable data table, as in a spreadsheet: the output for every combination of the
+ * row and column values, with all other inputs held at their current values.
+ */
+export function dataTable(
+  definition: AnyCalculatorDefinition,
+  inputs: Record<string, unknown>,
+  output: string,
+  rows: DataTableAxis,
+  columns: DataTableAxis
+): DataTableResult {
+  const cells = rows.values.map((rowValue) =>
+    columns.values.map((columnValue) =>
+      outputFor(definition, { ...inputs, [rows.name]: rowValue, [columns.name]: columnValue }, output)
+    )
+  );
+  return { rows, columns, cells };
+}
@@ -0,0 +1,85 @@
+import type { z } from 'zod';
+
+export type ValueFormat = 'currency' | 'percent' | 'number' | 'integer' | 'text';
+
+export interface InputField {
+  label: string;
+  unit?: string;
+  /** The input is an amount of money, labelled with the visitor's currency instead of a unit. */
+  currency?: boolean;
+  description?: string;
+}
+
+/** How numbers and amounts of money are written: a BCP 47 locale and an ISO 4217 currency. */
+export interface NumberFormatOptions {
+  locale: string;
+  currency: string;
+}
+
+export interface OutputField {
+  label: string;
+  format: ValueFormat;
+  unit?: string;
+  description?: string;
+  /** Which way a change is good news, for views that colour differences; unset when neither is. */
+  better?: 'higher' | 'lower';
+}
+
+/** A chart the calculator returns as an array of points, such as balances by year. */
+export interface ChartField<Output> {
+  /** Output holding the points. */
+  output: keyof Output & string;
+  /** Point field plotted along the x axis. */
+  x: { key: string; label: string };
+  /** Point fields that can be plotted, the first being the main one. */
+  series: Record<string, OutputField>;
+}
+
+/**
+ * One step of a worked calculation, for "show your work" views. `formula` and `substitution`
+ * use the notation in derivation.ts: `{a}/{b}` is a fraction, `x^{2}` a power, `h_{m}` a subscript.
+ */
+export interface DerivationStep {
+  /** What the step works out, such as "Monthly interest rate". */
+  label: string;
+  /** The formula in symbols. */
+  formula: string;
+  /** The same formula with this calculation's values substituted. */
+  substitution: string;
+  /** The step's result, formatted for display. */
+  result: string;
+  note?: string;
+}
+
+/**
+ * Headless description of a calculator: how its inputs are validated, how its
+ * outputs are computed and how they should be labelled. Components render it,
+ * but the same definition can be evaluated anywhere (APIs, batch jobs, tests).
+ */
+export interface CalculatorDefinition<Input, Output> {
+  /** Slug of the calculator in src/lib/calculators.ts. */
+  slug: string;
+  /** Category slug of the calculator in src/lib/calculators.ts. */
+  category: string;
+  inputSchema: z.ZodType<Input, z.ZodTypeDef, unknown>;
+  inputs: { [K in keyof Input & string]: InputField };
+  /** Metadata for the scalar outputs; series such as chart data are left undescribed. */
+  outputs: { [K in keyof Output & string]?: OutputField };
+  /** The chart series among the outputs, for views that plot results side by side. */
+  chart?: ChartField<Output>;
+  /** Pure function of already-validated inputs. */
+  compute: (input: Input) => Output;
+  /** Worked steps from the inputs to the main outputs, for explaining a result. */
+  explain?: (input: Input, output: Output, format?: NumberFormatOptions) => DerivationStep[];
+}
+
+export type AnyCalculatorDefinition = CalculatorDefinition<any, any>;
+
+export interface InputIssue {
+  path: string;
+  message: string;
+}
+
+export type EvaluationResult<Input, Output> =
+  | { success: true; input: Input; output: Output }
+  | { success: false; issues: InputIssue[] };
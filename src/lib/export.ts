@@ -0,0 +1,127 @@
+/**
+ * Browser-side export of what a calculator has rendered: its tables as CSV and its recharts
+ * charts as SVG or PNG. Calculator components are not changed for this; the helpers work on
+ * the DOM inside the element marked with `exportRootAttribute` on the calculator page.
+ */
+
+import { toCsv } from './csv';
+
+export const exportRootAttribute = 'data-calculator-export';
+
+/**
+ * Guides below each calculator are marked up as articles with schema.org types; their
+ * reference tables are left out of exports, and the print stylesheet hides them.
+ */
+const guideSelector = 'section[itemtype$="/Article"], section[itemtype$="/FinanceSummary"], section[itemtype$="/HowTo"]';
+
+// Presentation properties recharts sets through classes and CSS variables, which a standalone SVG loses.
+const inlinedStyles = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline',
+  'visibility',
+];
+
+export function getExportRoot(): HTMLElement | null {
+  return document.querySelector<HTMLElement>(`[${exportRootAttribute}]`);
+}
+
+export function findExportTables(root: HTMLElement): HTMLTableElement[] {
+  return [...root.querySelectorAll('table')].filter((table) => !table.closest(guideSelector));
+}
+
+export function findExportCharts(root: HTMLElement): SVGSVGElement[] {
+  return [...root.querySelectorAll<SVGSVGElement>('.recharts-wrapper > svg.recharts-surface')].filter(
+    (svg) => !svg.closest(guideSelector)
+  );
+}
+
+/** The tables as one CSV, separated by blank lines; cells hold their visible text. */
+export function tablesToCsv(tables: HTMLTableElement[]): string {
+  const rows: string[][] = [];
+  tables.forEach((table, index) => {
+    if (index > 0) {
+      rows.push([]);
+    }
+    for (const row of table.rows) {
+      rows.push([...row.cells].map((cell) => cell.innerText.trim()));
+    }
+  });
+  return toCsv(rows);
+}
+
+/** Standalone SVG markup for a rendered chart, with computed colours and fonts inlined. */
+export function chartSvgMarkup(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const originals = [svg, ...svg.querySelectorAll('*')];
+  const copies = [clone, ...clone.querySelectorAll('*')];
+  originals.forEach((original, index) => {
+    const computed = getComputedStyle(original);
+    const copy = copies[index] as SVGElement;
+    for (const property of inlinedStyles) {
+      const value = computed.getPropertyValue(property);
+      if (value) {
+        copy.style.setProperty(property, value);
+      }
+    }
+  });
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  clone.setAttribute('viewBox', `0 0 ${Math.round(width)} ${Math.round(height)}`);
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/** Rasterises a chart on the page background, at `scale` times its on-screen size. */
+export async function chartPngBlob(svg: SVGSVGElement, scale = 2): Promise<Blob> {
+  const { width, height } = svg.getBoundingClientRect();
+  const url = URL.createObjectURL(new Blob([chartSvgMarkup(svg)], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The chart could not be drawn.'));
+      image.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available in this browser.');
+    }
+    context.fillStyle = getComputedStyle(document.body).backgroundColor || '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The chart could not be saved.'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Starts a browser download of a blob. */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Starts a browser download of CSV text. */
+export function downloadCsv(filename: string, csv: string) {
+  downloadBlob(filename, new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+}
@@ -9,7 +9,7 @@ export interface LearningHubArticle {
   chartComponent?: string;
 }
 
-// Chart components are dynamically imported in the page, so we just reference their names here for mapping.
+// Chart components are dynamically imported by ArticleChart (src/components/learning-hub/article-chart.tsx), so we just reference their names here.
 export const articles: LearningHubArticle[] = [
   {
     slug: "what-is-compound-interest",
@@ -1238,4 +1238,12 @@ export const articles: LearningHubArticle[] = [
   }
 ]; //
 
-    
\ No newline at end of file
+export function getArticle(slug: string): LearningHubArticle | undefined {
+  return articles.find((article) => article.slug === slug);
+}
+
+// Plain-text opening of an article, used for cards, meta descriptions and structured data.
+export function getArticleSummary(article: LearningHubArticle, wordCount = 20): string {
+  const words = article.content.replace(/<[^>]*>/g, '').trim().split(/\s+/);
+  return words.slice(0, wordCount).join(' ') + (words.length > wordCount ? '...' : '');
+}
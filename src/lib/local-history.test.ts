@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  clearCalculations,
+  getLocalHistory,
+  maxCalculationsPerCalculator,
+  recordCalculation,
+  recordVisit,
+  sanitizeLocalHistory,
+  toggleFavourite,
+} from './local-history';
+
+// Just enough of a browser for the store, which only touches window when called.
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  window: {
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    },
+    addEventListener() {},
+    removeEventListener() {},
+  },
+});
+
+const timestamp = '2026-01-01T00:00:00.000Z';
+
+describe('sanitizeLocalHistory', () => {
+  it('replaces lists of the wrong type with empty ones', () => {
+    assert.deepEqual(sanitizeLocalHistory({ recent: 'bmi', favourites: { a: 1 }, calculations: [] }), {
+      recent: [],
+      favourites: [],
+      calculations: {},
+    });
+  });
+
+  it('drops malformed items and keeps the rest', () => {
+    const history = sanitizeLocalHistory({
+      recent: [{ key: 'finance/sip-calculator', timestamp, extra: true }, { key: 5, timestamp }, null],
+      favourites: ['finance/sip-calculator', 7],
+      calculations: {
+        'finance/sip-calculator': [{ inputs: { a: 1 }, outputs: {}, timestamp }, { inputs: [], outputs: {}, timestamp }],
+        'health-fitness/bmi-calculator': 'nope',
+      },
+    });
+    assert.deepEqual(history, {
+      recent: [{ key: 'finance/sip-calculator', timestamp }],
+      favourites: ['finance/sip-calculator'],
+      calculations: { 'finance/sip-calculator': [{ inputs: { a: 1 }, outputs: {}, timestamp }] },
+    });
+  });
+
+  it('caps the lists at the sizes the store keeps', () => {
+    const entries = Array.from({ length: 15 }, (_, i) => ({ inputs: { i }, outputs: {}, timestamp }));
+    const history = sanitizeLocalHistory({ calculations: { key: entries } });
+    assert.equal(history.calculations.key.length, maxCalculationsPerCalculator);
+  });
+});
+
+describe('local history store', () => {
+  it('moves a revisited calculator to the front', () => {
+    recordVisit('finance/sip-calculator');
+    recordVisit('health-fitness/bmi-calculator');
+    recordVisit('finance/sip-calculator');
+    assert.deepEqual(
+      getLocalHistory().recent.map((item) => item.key),
+      ['finance/sip-calculator', 'health-fitness/bmi-calculator']
+    );
+  });
+
+  it('replaces an identical calculation and keeps the newest ten', () => {
+    for (let i = 0; i < 12; i++) {
+      recordCalculation('finance/sip-calculator', { months: i }, { total: i });
+    }
+    recordCalculation('finance/sip-calculator', { months: 5 }, { total: 5 });
+    const entries = getLocalHistory().calculations['finance/sip-calculator'];
+    assert.equal(entries.length, maxCalculationsPerCalculator);
+    assert.deepEqual(entries.slice(0, 3).map((entry) => entry.inputs.months), [5, 11, 10]);
+
+    clearCalculations('finance/sip-calculator');
+    assert.equal(getLocalHistory().calculations['finance/sip-calculator'], undefined);
+  });
+
+  it('toggles favourites and saves every change', () => {
+    toggleFavourite('finance/sip-calculator');
+    toggleFavourite('health-fitness/bmi-calculator');
+    toggleFavourite('finance/sip-calculator');
+    assert.deepEqual(getLocalHistory().favourites, ['health-fitness/bmi-calculator']);
+    assert.deepEqual(JSON.parse(storage.get('mycalculating:history:v1')!).favourites, ['health-fitness/bmi-calculator']);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Browser-local history and favourites for visitors who never sign in.
+ *
+ * One store in localStorage, shared by every calculator page and the home page: recently
+ * visited calculators, favourite calculators, and the last few calculations of each
+ * engine-backed calculator. Components read it through useLocalHistory(), which keeps tabs
+ * in step via the `storage` event.
+ */
+
+const storageKey = 'mycalculating:history:v1';
+
+export const maxCalculationsPerCalculator = 10;
+export const maxRecentCalculators = 12;
+
+export interface CalculationEntry {
+  inputs: Record<string, unknown>;
+  /** Described outputs, for showing the entry; restoring recomputes everything. */
+  outputs: Record<string, unknown>;
+  /** ISO 8601 time of the calculation. */
+  timestamp: string;
+}
+
+export interface RecentCalculator {
+  key: string;
+  timestamp: string;
+}
+
+export interface LocalHistory {
+  recent: RecentCalculator[];
+  favourites: string[];
+  calculations: Record<string, CalculationEntry[]>;
+}
+
+const emptyHistory: LocalHistory = { recent: [], favourites: [], calculations: {} };
+
+/** Identifies a calculator in the store; slugs alone are not unique across categories. */
+export function calculatorKey(categorySlug: string, calculatorSlug: string): string {
+  return `${categorySlug}/${calculatorSlug}`;
+}
+
+export function parseCalculatorKey(key: string): { categorySlug: string; calculatorSlug: string } {
+  const [categorySlug, calculatorSlug] = key.split('/');
+  return { categorySlug, calculatorSlug };
+}
+
+let current: LocalHistory | null = null;
+const listeners = new Set<() => void>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCalculationEntry(value: unknown): value is CalculationEntry {
+  return isRecord(value) && isRecord(value.inputs) && isRecord(value.outputs) && typeof value.timestamp === 'string';
+}
+
+/**
+ * Keeps only the stored items shaped the way this version writes them, so an older or
+ * hand-edited copy loses the odd entry instead of breaking every page that lists history.
+ */
+export function sanitizeLocalHistory(stored: Record<string, unknown>): LocalHistory {
+  const recent = Array.isArray(stored.recent)
+    ? stored.recent
+        .filter((item): item is RecentCalculator => isRecord(item) && typeof item.key === 'string' && typeof item.timestamp === 'string')
+        .map(({ key, timestamp }) => ({ key, timestamp }))
+        .slice(0, maxRecentCalculators)
+    : [];
+  const favourites = Array.isArray(stored.favourites)
+    ? stored.favourites.filter((favourite): favourite is string => typeof favourite === 'string')
+    : [];
+  const calculations: Record<string, CalculationEntry[]> = {};
+  if (isRecord(stored.calculations)) {
+    for (const [key, entries] of Object.entries(stored.calculations)) {
+      const valid = Array.isArray(entries) ? entries.filter(isCalculationEntry).slice(0, maxCalculationsPerCalculator) : [];
+      if (valid.length > 0) {
+        calculations[key] = valid;
+      }
+    }
+  }
+  return { recent, favourites, calculations };
+}
+
+function read(): LocalHistory {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(storageKey) ?? '{}');
+    return isRecord(stored) ? sanitizeLocalHistory(stored) : emptyHistory;
+  } catch {
+    // Storage can be disabled or hold something that is not JSON.
+    return emptyHistory;
+  }
+}
+
+function write(update: (history: LocalHistory) => LocalHistory) {
+  current = update(getLocalHistory());
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(current));
+  } catch {
+    // Quota exceeded or storage disabled: keep the in-memory copy for this page.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function getLocalHistory(): LocalHistory {
+  if (typeof window === 'undefined') {
+    return emptyHistory;
+  }
+  current ??= read();
+  return current;
+}
+
+/** The store as rendered on the server, before the browser's copy is known. */
+export function getServerLocalHistory(): LocalHistory {
+  return emptyHistory;
+}
+
+export function subscribeLocalHistory(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === storageKey) {
+      current = read();
+      listener();
+    }
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+export function recordVisit(key: string) {
+  write((history) => ({
+    ...history,
+    recent: [{ key, timestamp: new Date().toISOString() }, ...history.recent.filter((item) => item.key !== key)].slice(0, maxRecentCalculators),
+  }));
+}
+
+/** Adds a calculation to the front of the calculator's history, replacing an identical earlier one. */
+export function recordCalculation(key: string, inputs: Record<string, unknown>, outputs: Record<string, unknown>) {
+  const serializedInputs = JSON.stringify(inputs);
+  write((history) => {
+    const previous = (history.calculations[key] ?? []).filter((entry) => JSON.stringify(entry.inputs) !== serializedInputs);
+    const entry: CalculationEntry = { inputs, outputs, timestamp: new Date().toISOString() };
+    return {
+      ...history,
+      calculations: { ...history.calculations, [key]: [entry, ...previous].slice(0, maxCalculationsPerCalculator) },
+    };
+  });
+}
+
+export function clearCalculations(key: string) {
+  write((history) => {
+    const { [key]: _cleared, ...calculations } = history.calculations;
+    return { ...history, calculations };
+  });
+}
+
+export function toggleFavourite(key: string) {
+  write((history) => ({
+    ...history,
+    favourites: history.favourites.includes(key)
+      ? history.favourites.filter((favourite) => favourite !== key)
+      : [key, ...history.favourites],
+  }));
+}
+
+// Restoring happens in a different component (the history drawer) from the form it fills.
+const restoreListeners = new Set<(key: string, inputs: Record<string, unknown>) => void>();
+
+/** Asks the calculator on this page to load `inputs` and recompute. */
+export function requestRestore(key: string, inputs: Record<string, unknown>) {
+  restoreListeners.forEach((listener) => listener(key, inputs));
+}
+
+export function subscribeRestore(listener: (key: string, inputs: Record<string, unknown>) => void): () => void {
+  restoreListeners.add(listener);
+  return () => {
+    restoreListeners.delete(listener);
+  };
+}
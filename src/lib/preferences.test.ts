@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { defaultPreferences, getPreferences, sanitizePreferences, updatePreferences } from './preferences';
+
+const storage = new Map<string, string>([['mycalculating:preferences:v1', JSON.stringify({ currency: 'XYZ', locale: 'de-DE' })]]);
+Object.assign(globalThis, {
+  window: {
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    },
+    addEventListener() {},
+    removeEventListener() {},
+  },
+});
+
+describe('sanitizePreferences', () => {
+  it('keeps the values this version offers', () => {
+    assert.deepEqual(sanitizePreferences({ unitSystem: 'imperial', currency: 'INR', locale: 'en-IN' }), {
+      unitSystem: 'imperial',
+      currency: 'INR',
+      locale: 'en-IN',
+    });
+  });
+
+  it('drops unknown codes and values of the wrong type', () => {
+    assert.deepEqual(sanitizePreferences({ unitSystem: 'nautical', currency: 'usd', locale: 42 }), {});
+    assert.deepEqual(sanitizePreferences({ currency: ['USD'], locale: null, unitSystem: undefined }), {});
+  });
+});
+
+describe('preferences store', () => {
+  it('fills what the stored copy lacks or gets wrong with the defaults', () => {
+    assert.deepEqual(getPreferences(), { ...defaultPreferences, locale: 'de-DE' });
+  });
+
+  it('saves updates', () => {
+    updatePreferences({ unitSystem: 'metric', currency: 'EUR' });
+    assert.deepEqual(getPreferences(), { currency: 'EUR', locale: 'de-DE', unitSystem: 'metric' });
+    assert.deepEqual(JSON.parse(storage.get('mycalculating:preferences:v1')!), getPreferences());
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Site-wide display preferences kept in the browser: the unit system calculators open with,
+ * the currency amounts are shown in and how numbers are grouped. Components read them through
+ * usePreferences() from the PreferencesProvider in the site layout; the store keeps tabs in
+ * step via the `storage` event.
+ */
+
+import type { NumberFormatOptions } from '@/lib/engine';
+
+const storageKey = 'mycalculating:preferences:v1';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface Preferences extends NumberFormatOptions {
+  /** Unset until the visitor picks one, so each calculator keeps its own default unit. */
+  unitSystem?: UnitSystem;
+}
+
+export const defaultPreferences: Preferences = { currency: 'USD', locale: 'en-US' };
+
+// Only the symbol changes: amounts are never converted between currencies.
+export const currencyOptions = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'JPY', name: 'Japanese Yen' },
+  { code: 'CNY', name: 'Chinese Yuan' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'SGD', name: 'Singapore Dollar' },
+  { code: 'BRL', name: 'Brazilian Real' },
+  { code: 'ZAR', name: 'South African Rand' },
+];
+
+/** Locales offered for number formatting, labelled by how they write 1234567.89. */
+export const numberFormatOptions = [
+  { locale: 'en-US', example: '1,234,567.89' },
+  { locale: 'en-IN', example: '12,34,567.89' },
+  { locale: 'de-DE', example: '1.234.567,89' },
+  { locale: 'fr-FR', example: '1 234 567,89' },
+  { locale: 'de-CH', example: '1’234’567.89' },
+];
+
+let current: Preferences | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Keeps only the stored values this version offers. Anything else, such as a currency code
+ * `toLocaleString` would throw on, falls back to the default.
+ */
+export function sanitizePreferences(stored: Partial<Record<keyof Preferences, unknown>>): Partial<Preferences> {
+  const preferences: Partial<Preferences> = {};
+  if (stored.unitSystem === 'metric' || stored.unitSystem === 'imperial') {
+    preferences.unitSystem = stored.unitSystem;
+  }
+  if (currencyOptions.some((option) => option.code === stored.currency)) {
+    preferences.currency = stored.currency as string;
+  }
+  if (numberFormatOptions.some((option) => option.locale === stored.locale)) {
+    preferences.locale = stored.locale as string;
+  }
+  return preferences;
+}
+
+function read(): Preferences {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(storageKey) ?? '{}');
+    return { ...defaultPreferences, ...(typeof stored === 'object' && stored !== null ? sanitizePreferences(stored) : {}) };
+  } catch {
+    // Storage can be disabled or hold something that is not JSON.
+    return defaultPreferences;
+  }
+}
+
+export function getPreferences(): Preferences {
+  if (typeof window === 'undefined') {
+    return defaultPreferences;
+  }
+  current ??= read();
+  return current;
+}
+
+/** The preferences as rendered on the server, before the browser's copy is known. */
+export function getServerPreferences(): Preferences {
+  return defaultPreferences;
+}
+
+export function subscribePreferences(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === storageKey) {
+      current = read();
+      listener();
+    }
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+export function updatePreferences(changes: Partial<Preferences>) {
+  current = { ...getPreferences(), ...changes };
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(current));
+  } catch {
+    // Quota exceeded or storage disabled: keep the in-memory copy for this page.
+  }
+  listeners.forEach((listener) => listener());
+}
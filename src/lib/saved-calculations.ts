@@ -0,0 +1,35 @@
+/**
+ * Calculations signed-in users save from engine-backed calculators, stored per user at
+ * /users/{userId}/saved_calculations (see docs/backend.json).
+ */
+import { getCalculatorDefinition, permalinkPath } from './engine';
+
+export interface SavedCalculation {
+  name: string;
+  categorySlug: string;
+  calculatorSlug: string;
+  /** Validated input values. */
+  inputs: Record<string, unknown>;
+  /** The calculator's described outputs; chart series are recomputed on reopening. */
+  outputs: Record<string, unknown>;
+  /** ISO 8601 time of saving. */
+  timestamp: string;
+}
+
+export const savedCalculationNameMaxLength = 100;
+
+/** Path segments of a user's saved calculations collection. */
+export function savedCalculationsPath(userId: string): [string, string, string] {
+  return ['users', userId, 'saved_calculations'];
+}
+
+/** Firestore rejects undefined fields, which optional inputs leave behind. */
+export function withoutUndefined(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/** The calculator page with the saved inputs in its query string, which recomputes the result. */
+export function savedCalculationUrl(saved: SavedCalculation): string {
+  const definition = getCalculatorDefinition(saved.categorySlug, saved.calculatorSlug);
+  return definition ? permalinkPath(definition, saved.inputs) : `/category/${saved.categorySlug}/${saved.calculatorSlug}`;
+}
@@ -1,5 +1,6 @@
 import { calculators } from './calculators';
 import { categories } from './categories';
+import { articles, getArticleSummary, type LearningHubArticle } from './learning-hub-articles';
 
 // Types for schema generation
 export interface Calculator {
@@ -331,55 +332,76 @@ export function generateHowToSchema(calculator: Calculator) {
   };
 }
 
+// Learning Hub Index Schema
+export function generateLearningHubSchema() {
+  const baseUrl = "https://mycalculating.com";
 
+  return {
+    "@context": "https://schema.org",
+    "@type": "CollectionPage",
+    "name": "Learning Hub",
+    "description": "Guides explaining the ideas behind our calculators, from compound interest to BMI",
+    "url": `${baseUrl}/learning-hub`,
+    "mainEntity": {
+      "@type": "ItemList",
+      "name": "Learning Hub Articles",
+      "numberOfItems": articles.length,
+      "itemListElement": articles.map((article, index) => ({
+        "@type": "ListItem",
+        "position": index + 1,
+        "url": `${baseUrl}/learning-hub/${article.slug}`,
+        "name": article.title
+      }))
+    }
+  };
+}
 
+// Article Schema for Learning Hub articles
+export function generateArticleSchema(article: LearningHubArticle) {
+  const baseUrl = "https://mycalculating.com";
+  const url = `${baseUrl}/learning-hub/${article.slug}`;
 
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
+  return {
+    "@context": "https://schema.org",
+    "@type": "Article",
+    "headline": article.title,
+    "description": getArticleSummary(article, 40),
+    "url": url,
+    "mainEntityOfPage": {
+      "@type": "WebPage",
+      "@id": url
+    },
+    "author": {
+      "@type": "Organization",
+      "name": "Mycalculating.com"
+    },
+    "publisher": {
+      "@type": "Organization",
+      "name": "Mycalculating.com",
+      "url": baseUrl
+    },
+    "breadcrumb": {
+      "@type": "BreadcrumbList",
+      "itemListElement": [
+        {
+          "@type": "ListItem",
+          "position": 1,
+          "name": "Home",
+          "item": baseUrl
+        },
+        {
+          "@type": "ListItem",
+          "position": 2,
+          "name": "Learning Hub",
+          "item": `${baseUrl}/learning-hub`
+        },
+        {
+          "@type": "ListItem",
+          "position": 3,
+          "name": article.title,
+          "item": url
+        }
+      ]
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { Calculator } from './calculators';
+import { createSearchIndex, searchCalculators, tokenize } from './search';
+
+let nextId = 1;
+function calculator(name: string, description = '', category = 'finance'): Calculator {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return { id: nextId++, name, description, slug, category };
+}
+
+const mortgage = calculator('Mortgage Calculator', 'Monthly payment for a home loan.');
+const loanEmi = calculator('Loan EMI Calculator', 'Equated monthly installment for any loan.');
+const retirement = calculator('401(k) Contribution Calculator', 'Plan your retirement savings.');
+const bmi = calculator('BMI Calculator', 'Body mass index from height and weight.', 'health-fitness');
+const childBmi = calculator('Child BMI Percentile Calculator', 'BMI percentile for children.', 'health-fitness');
+const index = createSearchIndex([mortgage, loanEmi, retirement, bmi, childBmi]);
+
+const names = (query: string) => index.search(query).map((result) => result.calculator.name);
+
+describe('tokenize', () => {
+  it('joins a number and a single letter and drops punctuation', () => {
+    assert.deepEqual(tokenize('401(k)'), ['401k']);
+    assert.deepEqual(tokenize('401 k plan'), ['401k', 'plan']);
+  });
+
+  it('folds plurals and accents', () => {
+    assert.deepEqual(tokenize('Calories Savings Café'), ['calory', 'saving', 'cafe']);
+    assert.deepEqual(tokenize('bus'), ['bus']);
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('ranks the name that starts with the query before one that contains it', () => {
+    assert.deepEqual(names('bmi'), ['BMI Calculator', 'Child BMI Percentile Calculator']);
+  });
+
+  it('expands abbreviations through the synonym table', () => {
+    assert.equal(names('home loan')[0], 'Mortgage Calculator');
+    assert.equal(names('equated monthly installment')[0], 'Loan EMI Calculator');
+  });
+
+  it('matches prefixes and typos', () => {
+    assert.equal(names('mortg')[0], 'Mortgage Calculator');
+    assert.equal(names('morgage')[0], 'Mortgage Calculator');
+  });
+
+  it('finds 401(k) however it is typed', () => {
+    assert.equal(names('401k')[0], '401(k) Contribution Calculator');
+    assert.equal(names('401 k')[0], '401(k) Contribution Calculator');
+  });
+
+  it('falls back to calculators matching half the terms when none match them all', () => {
+    assert.deepEqual(names('mortgage zebra'), ['Mortgage Calculator']);
+    assert.deepEqual(names('mortgage zebra giraffe'), []);
+  });
+
+  it('ignores stop words unless the query has nothing else', () => {
+    assert.deepEqual(names('the bmi calculator'), names('bmi'));
+    assert.equal(index.search('calculator').length, 5);
+  });
+
+  it('returns nothing for an empty query and honours the limit', () => {
+    assert.deepEqual(index.search('  '), []);
+    assert.equal(index.search('calculator', 2).length, 2);
+  });
+});
+
+describe('searchCalculators', () => {
+  it('searches the whole registry', () => {
+    assert.equal(searchCalculators('bmi', 1)[0].slug, 'bmi-calculator');
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Ranked calculator search shared by the home page, /search and category pages.
+ *
+ * Text is split into normalised tokens ("401(k)" and "401 k" both become `401k`, plurals are
+ * folded), query words may match by prefix or with a typo, abbreviations expand through the
+ * synonym table below, and matches in a calculator's name count for more than matches in
+ * its description. Calculators matching every query term rank first; when none do, those
+ * matching at least half of them are returned instead.
+ */
+import { calculators as allCalculators, type Calculator } from './calculators';
+import { categories } from './categories';
+
+/**
+ * Terms that mean the same thing. Each group lists alternatives, any of which may appear in
+ * a query; multi-word entries are matched as phrases.
+ */
+const synonymGroups: string[][] = [
+  // Finance
+  ['emi', 'equated monthly installment', 'loan payment', 'monthly payment'],
+  ['mortgage', 'home loan', 'housing loan'],
+  ['sip', 'systematic investment plan', 'dca', 'dollar cost averaging'],
+  ['apr', 'annual percentage rate'],
+  ['apy', 'annual percentage yield'],
+  ['roi', 'return on investment'],
+  ['cagr', 'compound annual growth rate'],
+  ['npv', 'net present value'],
+  ['irr', 'internal rate of return'],
+  ['dti', 'debt to income'],
+  ['ltv', 'loan to value'],
+  ['dscr', 'debt service coverage ratio'],
+  ['401k', 'retirement savings'],
+  ['fire', 'financial independence'],
+  // Health & Fitness
+  ['tdee', 'total daily energy expenditure', 'daily calorie needs', 'maintenance calories'],
+  ['bmi', 'body mass index'],
+  ['bmr', 'basal metabolic rate'],
+  ['bfp', 'body fat percentage'],
+  ['hba1c', 'a1c', 'blood sugar'],
+  ['vo2max', 'vo2 max'],
+  ['kcal', 'calorie'],
+  // Units and spelling
+  ['kg', 'kilogram'],
+  ['lb', 'lbs', 'pound'],
+  ['oz', 'ounce'],
+  ['ft', 'feet', 'foot'],
+  ['cm', 'centimeter', 'centimetre'],
+  ['mm', 'millimeter', 'millimetre'],
+  ['km', 'kilometer', 'kilometre'],
+  ['meter', 'metre'],
+  ['liter', 'litre'],
+  ['mi', 'mile'],
+  ['gal', 'gallon'],
+  ['mph', 'miles per hour'],
+  ['kph', 'kmh', 'kilometers per hour'],
+  ['gpa', 'grade point average'],
+];
+
+// Words too common to tell calculators apart; ignored unless the query has nothing else.
+const stopWords = new Set(['a', 'an', 'the', 'of', 'for', 'to', 'and', 'on', 'my', 'your', 'how', 'what', 'is', 'calculator', 'calc']);
+
+const fieldWeights = { name: 3, keywords: 2, description: 1, category: 0.5 } as const;
+type Field = keyof typeof fieldWeights;
+
+const synonymWeight = 0.9;
+const prefixWeight = 0.8;
+const typoWeight = 0.6;
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return token.slice(0, -3) + 'y';
+  }
+  if (token.length > 3 && token.endsWith('s') && !/(ss|us|is)$/.test(token)) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/** Lower-cases, strips accents and punctuation, joins "401 k" into `401k` and folds plurals. */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  const tokens: string[] = [];
+  for (const word of words) {
+    const previous = tokens[tokens.length - 1];
+    if (previous && /^\d+$/.test(previous) && /^[a-z]$/.test(word)) {
+      tokens[tokens.length - 1] = previous + word;
+    } else {
+      tokens.push(word);
+    }
+  }
+  return tokens.map(stem);
+}
+
+const synonymPhrases = synonymGroups.map((group) => group.map(tokenize));
+const longestSynonym = Math.max(...synonymPhrases.flat().map((phrase) => phrase.length));
+
+/** Optimal string alignment distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], twoBack[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function allowedTypos(token: string): number {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+/** How well one query token matches one document token, from 0 (not at all) to 1 (exactly). */
+function tokenMatch(queryToken: string, docToken: string): number {
+  if (queryToken === docToken) {
+    return 1;
+  }
+  if (queryToken.length >= 2 && docToken.startsWith(queryToken)) {
+    return prefixWeight;
+  }
+  const typos = allowedTypos(queryToken);
+  if (typos > 0 && queryToken[0] === docToken[0] && editDistance(queryToken, docToken, typos) <= typos) {
+    return typoWeight;
+  }
+  return 0;
+}
+
+/** Best match of a phrase within a field: every token must match, the weakest link counts. */
+function phraseMatch(phrase: string[], docTokens: string[]): number {
+  let weakest = 1;
+  for (const queryToken of phrase) {
+    let best = 0;
+    for (const docToken of docTokens) {
+      best = Math.max(best, tokenMatch(queryToken, docToken));
+      if (best === 1) break;
+    }
+    if (best === 0) {
+      return 0;
+    }
+    weakest = Math.min(weakest, best);
+  }
+  return weakest;
+}
+
+/** One thing the user asked for, with the phrases that may stand for it. */
+interface QueryTerm {
+  alternatives: { tokens: string[]; weight: number }[];
+}
+
+function parseQuery(query: string): QueryTerm[] {
+  const tokens = tokenize(query);
+  const meaningful = tokens.filter((token) => !stopWords.has(token));
+  const words = meaningful.length > 0 ? meaningful : tokens;
+
+  const terms: QueryTerm[] = [];
+  for (let i = 0; i < words.length; ) {
+    let matched = false;
+    for (let length = Math.min(longestSynonym, words.length - i); length > 0 && !matched; length--) {
+      const slice = words.slice(i, i + length).join(' ');
+      const group = synonymPhrases.find((phrases) => phrases.some((phrase) => phrase.join(' ') === slice));
+      if (group) {
+        terms.push({
+          alternatives: group.map((phrase) => ({ tokens: phrase, weight: phrase.join(' ') === slice ? 1 : synonymWeight })),
+        });
+        i += length;
+        matched = true;
+      }
+    }
+    if (!matched) {
+      terms.push({ alternatives: [{ tokens: [words[i]], weight: 1 }] });
+      i++;
+    }
+  }
+  return terms;
+}
+
+interface IndexedCalculator {
+  calculator: Calculator;
+  fields: Record<Field, string[]>;
+  normalizedName: string;
+  normalizedSlug: string;
+}
+
+export interface SearchResult {
+  calculator: Calculator;
+  score: number;
+}
+
+export interface CalculatorSearchIndex {
+  search(query: string, limit?: number): SearchResult[];
+}
+
+const categoryNames = new Map(categories.map((category) => [category.slug, category.name]));
+
+/** Builds an index over a list of calculators; build it once and reuse it for every query. */
+export function createSearchIndex(calculators: Calculator[]): CalculatorSearchIndex {
+  const indexed: IndexedCalculator[] = calculators.map((calculator) => ({
+    calculator,
+    fields: {
+      name: tokenize(calculator.name),
+      keywords: tokenize(`${calculator.slug.replace(/-/g, ' ')} ${calculator.metaTitle ?? ''}`),
+      description: tokenize(`${calculator.description} ${calculator.metaDescription ?? ''}`),
+      category: tokenize(categoryNames.get(calculator.category) ?? calculator.category),
+    },
+    normalizedName: tokenize(calculator.name).join(' '),
+    normalizedSlug: tokenize(calculator.slug.replace(/-/g, ' ')).join(' '),
+  }));
+
+  return {
+    search(query, limit) {
+      const terms = parseQuery(query);
+      if (terms.length === 0) {
+        return [];
+      }
+      const normalizedQuery = tokenize(query).join(' ');
+
+      const scored = indexed.map((entry) => {
+        let score = 0;
+        let matchedTerms = 0;
+        for (const term of terms) {
+          let best = 0;
+          for (const alternative of term.alternatives) {
+            for (const field of Object.keys(fieldWeights) as Field[]) {
+              best = Math.max(best, phraseMatch(alternative.tokens, entry.fields[field]) * alternative.weight * fieldWeights[field]);
+            }
+          }
+          if (best > 0) {
+            matchedTerms++;
+            score += best;
+          }
+        }
+        // Reward names that contain the query as typed, most of all at the start.
+        if (normalizedQuery && entry.normalizedName.includes(normalizedQuery)) {
+          score += entry.normalizedName.startsWith(normalizedQuery) ? 3 : 2;
+        }
+        // "bmi" means bmi-calculator more than child-bmi-percentile, though both match it exactly.
+        const leading = !!normalizedQuery &&
+          (entry.normalizedName.startsWith(normalizedQuery) || entry.normalizedSlug.startsWith(normalizedQuery));
+        return { calculator: entry.calculator, score, matchedTerms, leading };
+      });
+
+      const complete = scored.filter((result) => result.matchedTerms === terms.length);
+      const results = complete.length > 0
+        ? complete
+        : scored.filter((result) => result.matchedTerms > 0 && result.matchedTerms >= terms.length / 2);
+
+      // Among equal scores, one that starts with the query, then the shorter, more general name,
+      // is usually the one people meant.
+      results.sort((a, b) =>
+        b.matchedTerms - a.matchedTerms ||
+        b.score - a.score ||
+        Number(b.leading) - Number(a.leading) ||
+        a.calculator.name.length - b.calculator.name.length ||
+        a.calculator.name.localeCompare(b.calculator.name)
+      );
+      return results.slice(0, limit ?? results.length).map(({ calculator, score }) => ({ calculator, score }));
+    },
+  };
+}
+
+let siteIndex: CalculatorSearchIndex | undefined;
+
+/** Searches every registered calculator, best match first. */
+export function searchCalculators(query: string, limit?: number): Calculator[] {
+  siteIndex ??= createSearchIndex(allCalculators);
+  return siteIndex.search(query, limit).map((result) => result.calculator);
+}
@@ -0,0 +1,35 @@
+export interface ThemeColor {
+  name: string;
+  /** HSL components as used by the CSS variables in globals.css, e.g. `224 71.4% 4.1%`. */
+  value: string;
+}
+
+export const foregroundColors: ThemeColor[] = [
+  { name: 'Slate', value: '224 71.4% 4.1%' },
+  { name: 'Stone', value: '24 9.8% 10%' },
+  { name: 'Rose', value: '346.8 77.2% 49.8%' },
+  { name: 'Teal', value: '160 70% 35%' },
+  { name: 'Indigo', value: '221.2 83.2% 53.3%' },
+  { name: 'Amber', value: '38 92% 50%' },
+  { name: 'Plum', value: '270 70% 40%' },
+];
+
+export const backgroundColors: ThemeColor[] = [
+  { name: 'White', value: '0 0% 100%' },
+  { name: 'Linen', value: '30 56% 95%' },
+  { name: 'Mint', value: '160 60% 95%' },
+  { name: 'Lavender', value: '250 60% 97%' },
+  { name: 'Sky', value: '198 80% 96%' },
+  { name: 'Charcoal', value: '222.2 84% 4.9%' },
+  { name: 'Onyx', value: '240 10% 3.9%' },
+];
+
+export function findThemeColor(colors: ThemeColor[], name: string | null | undefined): ThemeColor | undefined {
+  return name ? colors.find((color) => color.name.toLowerCase() === name.toLowerCase()) : undefined;
+}
+
+/** Whether a background needs the dark theme, judged by the lightness of its HSL value. */
+export function isDarkColor(value: string): boolean {
+  const [, , lightness] = value.split(' ').map(parseFloat);
+  return lightness < 50;
+}
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { dimensions } from './dimensions';
+import { convertUnits, getUnitDimension } from './index';
+
+const units = dimensions.flatMap((dimension) => dimension.units);
+
+describe('dimension registry', () => {
+  it('gives every unit an id no other unit or dimension shares', () => {
+    const ids = units.map((unit) => unit.id);
+    assert.equal(new Set(ids).size, ids.length);
+    assert.equal(new Set(dimensions.map((dimension) => dimension.id)).size, dimensions.length);
+  });
+
+  it('names a plain base unit with factor 1 in each dimension', () => {
+    for (const dimension of dimensions) {
+      const base = dimension.units.find((unit) => unit.id === dimension.baseUnit);
+      assert.ok(base, `${dimension.id} has no ${dimension.baseUnit}`);
+      assert.equal(base.factor, 1, dimension.id);
+      assert.ok(!base.offset && !base.reciprocal, dimension.id);
+    }
+  });
+
+  it('has positive, finite factors', () => {
+    for (const unit of units) {
+      assert.ok(Number.isFinite(unit.factor) && unit.factor > 0, unit.id);
+    }
+  });
+
+  it('converts every unit to its base unit and back', () => {
+    for (const unit of units) {
+      const base = getUnitDimension(unit.id)!.baseUnit;
+      const back = convertUnits(convertUnits(7, unit.id, base), base, unit.id);
+      assert.ok(Math.abs(back - 7) < 1e-9, `${unit.id}: ${back}`);
+    }
+  });
+});
@@ -0,0 +1,280 @@
+import type { DimensionDefinition } from './types';
+
+const commonReferenceValues = [1, 2, 5, 10, 20, 50, 100, 500, 1000];
+
+// Factors are exact by definition wherever a definition exists (international yard and pound of
+// 1959, US customary and imperial volumes, thermochemical calorie, 2019 SI electronvolt).
+// Temperature scales also carry an offset, and "distance per fuel" units are reciprocal to the
+// "fuel per distance" base; see toBaseUnit in ./index.
+export const dimensions: DimensionDefinition[] = [
+  {
+    id: 'length',
+    name: 'Length',
+    baseUnit: 'meter',
+    referenceValues: commonReferenceValues,
+    units: [
+      { id: 'nanometer', name: 'Nanometer', plural: 'Nanometers', symbol: 'nm', factor: 1e-9 },
+      { id: 'micrometer', name: 'Micrometer', plural: 'Micrometers', symbol: 'µm', factor: 1e-6, aliases: ['um', 'micron', 'microns'] },
+      { id: 'millimeter', name: 'Millimeter', plural: 'Millimeters', symbol: 'mm', factor: 1e-3, aliases: ['millimetre', 'millimetres'] },
+      { id: 'centimeter', name: 'Centimeter', plural: 'Centimeters', symbol: 'cm', factor: 1e-2, aliases: ['centimetre', 'centimetres'] },
+      { id: 'meter', name: 'Meter', plural: 'Meters', symbol: 'm', factor: 1, aliases: ['metre', 'metres'] },
+      { id: 'kilometer', name: 'Kilometer', plural: 'Kilometers', symbol: 'km', factor: 1e3, aliases: ['kilometre', 'kilometres'] },
+      { id: 'inch', name: 'Inch', plural: 'Inches', symbol: 'in', factor: 0.0254, aliases: ['"', '″'] },
+      { id: 'foot', name: 'Foot', plural: 'Feet', symbol: 'ft', factor: 0.3048, aliases: ["'", '′'] },
+      { id: 'yard', name: 'Yard', plural: 'Yards', symbol: 'yd', factor: 0.9144 },
+      { id: 'mile', name: 'Mile', plural: 'Miles', symbol: 'mi', factor: 1609.344 },
+      { id: 'nautical-mile', name: 'Nautical Mile', plural: 'Nautical Miles', symbol: 'nmi', factor: 1852, aliases: ['NM'] },
+      { id: 'fathom', name: 'Fathom', plural: 'Fathoms', symbol: 'ftm', factor: 1.8288 },
+      { id: 'chain', name: 'Chain', plural: 'Chains', symbol: 'ch', factor: 20.1168 },
+      { id: 'rod', name: 'Rod', plural: 'Rods', symbol: 'rd', factor: 5.0292 },
+      { id: 'astronomical-unit', name: 'Astronomical Unit', plural: 'Astronomical Units', symbol: 'au', factor: 149_597_870_700, aliases: ['AU'] },
+      { id: 'light-year', name: 'Light-Year', plural: 'Light-Years', symbol: 'ly', factor: 9_460_730_472_580_800, note: 'A Julian year of 365.25 days at the speed of light.' },
+      { id: 'parsec', name: 'Parsec', plural: 'Parsecs', symbol: 'pc', factor: 3.085_677_581_491_367e16, note: '648,000 ÷ π astronomical units.' },
+    ],
+  },
+  {
+    id: 'area',
+    name: 'Area',
+    baseUnit: 'square-meter',
+    referenceValues: commonReferenceValues,
+    units: [
+      { id: 'square-millimeter', name: 'Square Millimeter', plural: 'Square Millimeters', symbol: 'mm²', factor: 1e-6, aliases: ['mm2', 'sq mm'] },
+      { id: 'square-centimeter', name: 'Square Centimeter', plural: 'Square Centimeters', symbol: 'cm²', factor: 1e-4, aliases: ['cm2', 'sq cm'] },
+      { id: 'square-meter', name: 'Square Meter', plural: 'Square Meters', symbol: 'm²', factor: 1, aliases: ['m2', 'sq m', 'square metre', 'square metres'] },
+      { id: 'hectare', name: 'Hectare', plural: 'Hectares', symbol: 'ha', factor: 1e4 },
+      { id: 'square-kilometer', name: 'Square Kilometer', plural: 'Square Kilometers', symbol: 'km²', factor: 1e6, aliases: ['km2', 'sq km'] },
+      { id: 'square-inch', name: 'Square Inch', plural: 'Square Inches', symbol: 'in²', factor: 6.4516e-4, aliases: ['in2', 'sq in'] },
+      { id: 'square-foot', name: 'Square Foot', plural: 'Square Feet', symbol: 'ft²', factor: 0.09290304, aliases: ['ft2', 'sq ft', 'sqft'] },
+      { id: 'square-yard', name: 'Square Yard', plural: 'Square Yards', symbol: 'yd²', factor: 0.83612736, aliases: ['yd2', 'sq yd'] },
+      { id: 'acre', name: 'Acre', plural: 'Acres', symbol: 'ac', factor: 4046.8564224 },
+      { id: 'square-mile', name: 'Square Mile', plural: 'Square Miles', symbol: 'mi²', factor: 2_589_988.110336, aliases: ['mi2', 'sq mi'] },
+    ],
+  },
+  {
+    id: 'volume',
+    name: 'Volume',
+    baseUnit: 'liter',
+    referenceValues: commonReferenceValues,
+    units: [
+      { id: 'milliliter', name: 'Milliliter', plural: 'Milliliters', symbol: 'mL', factor: 1e-3, aliases: ['ml', 'millilitre', 'millilitres'] },
+      { id: 'liter', name: 'Liter', plural: 'Liters', symbol: 'L', factor: 1, aliases: ['l', 'litre', 'litres'] },
+      { id: 'cubic-meter', name: 'Cubic Meter', plural: 'Cubic Meters', symbol: 'm³', factor: 1e3, aliases: ['m3', 'cubic metre', 'cubic metres'] },
+      { id: 'cubic-inch', name: 'Cubic Inch', plural: 'Cubic Inches', symbol: 'in³', factor: 0.016387064, aliases: ['in3', 'cu in'] },
+      { id: 'cubic-foot', name: 'Cubic Foot', plural: 'Cubic Feet', symbol: 'ft³', factor: 28.316846592, aliases: ['ft3', 'cu ft'] },
+      { id: 'us-teaspoon', name: 'US Teaspoon', plural: 'US Teaspoons', symbol: 'tsp', factor: 0.00492892159375, aliases: ['teaspoon', 'teaspoons'] },
+      { id: 'us-tablespoon', name: 'US Tablespoon', plural: 'US Tablespoons', symbol: 'tbsp', factor: 0.0147867647825, aliases: ['tablespoon', 'tablespoons'] },
+      { id: 'us-fluid-ounce', name: 'US Fluid Ounce', plural: 'US Fluid Ounces', symbol: 'US fl oz', factor: 0.0295735295625, aliases: ['fl oz', 'fluid ounce', 'fluid ounces'] },
+      { id: 'us-cup', name: 'US Cup', plural: 'US Cups', symbol: 'cup', factor: 0.2365882365, aliases: ['cup', 'cups'] },
+      { id: 'us-pint', name: 'US Pint', plural: 'US Pints', symbol: 'US pt', factor: 0.473176473, aliases: ['pint', 'pints', 'pt'] },
+      { id: 'us-quart', name: 'US Quart', plural: 'US Quarts', symbol: 'US qt', factor: 0.946352946, aliases: ['quart', 'quarts', 'qt'] },
+      { id: 'us-gallon', name: 'US Gallon', plural: 'US Gallons', symbol: 'US gal', factor: 3.785411784, aliases: ['gallon', 'gallons', 'gal'] },
+      { id: 'imperial-fluid-ounce', name: 'Imperial Fluid Ounce', plural: 'Imperial Fluid Ounces', symbol: 'imp fl oz', factor: 0.0284130625, aliases: ['uk fl oz'] },
+      { id: 'imperial-cup', name: 'Imperial Cup', plural: 'Imperial Cups', symbol: 'imp cup', factor: 0.284130625, aliases: ['uk cup'] },
+      { id: 'imperial-pint', name: 'Imperial Pint', plural: 'Imperial Pints', symbol: 'imp pt', factor: 0.56826125, aliases: ['uk pint', 'uk pt'] },
+      { id: 'imperial-quart', name: 'Imperial Quart', plural: 'Imperial Quarts', symbol: 'imp qt', factor: 1.1365225, aliases: ['uk quart', 'uk qt'] },
+      { id: 'imperial-gallon', name: 'Imperial Gallon', plural: 'Imperial Gallons', symbol: 'imp gal', factor: 4.54609, aliases: ['uk gallon', 'uk gal'] },
+    ],
+  },
+  {
+    id: 'mass',
+    name: 'Mass',
+    baseUnit: 'kilogram',
+    referenceValues: commonReferenceValues,
+    units: [
+      { id: 'microgram', name: 'Microgram', plural: 'Micrograms', symbol: 'µg', factor: 1e-9, aliases: ['ug', 'mcg'] },
+      { id: 'milligram', name: 'Milligram', plural: 'Milligrams', symbol: 'mg', factor: 1e-6 },
+      { id: 'gram', name: 'Gram', plural: 'Grams', symbol: 'g', factor: 1e-3 },
+      { id: 'kilogram', name: 'Kilogram', plural: 'Kilograms', symbol: 'kg', factor: 1, aliases: ['kilo', 'kilos'] },
+      { id: 'metric-ton', name: 'Metric Ton', plural: 'Metric Tons', symbol: 't', factor: 1e3, aliases: ['tonne', 'tonnes'] },
+      { id: 'carat', name: 'Carat', plural: 'Carats', symbol: 'ct', factor: 2e-4 },
+      { id: 'ounce', name: 'Ounce', plural: 'Ounces', symbol: 'oz', factor: 0.028349523125 },
+      { id: 'pound', name: 'Pound', plural: 'Pounds', symbol: 'lb', factor: 0.45359237, aliases: ['lbs'] },
+      { id: 'stone', name: 'Stone', plural: 'Stones', symbol: 'st', factor: 6.35029318 },
+      { id: 'short-ton', name: 'Short Ton (US)', plural: 'Short Tons (US)', symbol: 'US ton', factor: 907.18474, aliases: ['short ton', 'short tons', 'ton', 'tons'] },
+      { id: 'long-ton', name: 'Long Ton (UK)', plural: 'Long Tons (UK)', symbol: 'UK ton', factor: 1016.0469088, aliases: ['long ton', 'long tons'] },
+    ],
+  },
+  {
+    id: 'speed',
+    name: 'Speed',
+    baseUnit: 'meter-per-second',
+    referenceValues: [1, 5, 10, 20, 30, 50, 60, 100, 120],
+    units: [
+      { id: 'meter-per-second', name: 'Meter per Second', plural: 'Meters per Second', symbol: 'm/s', factor: 1 },
+      { id: 'kilometer-per-hour', name: 'Kilometer per Hour', plural: 'Kilometers per Hour', symbol: 'km/h', factor: 1 / 3.6, aliases: ['kph', 'kmh'] },
+      { id: 'mile-per-hour', name: 'Mile per Hour', plural: 'Miles per Hour', symbol: 'mph', factor: 0.44704 },
+      { id: 'foot-per-second', name: 'Foot per Second', plural: 'Feet per Second', symbol: 'ft/s', factor: 0.3048, aliases: ['fps'] },
+      { id: 'knot', name: 'Knot', plural: 'Knots', symbol: 'kn', factor: 1852 / 3600, aliases: ['kt', 'kts'] },
+      { id: 'mach', name: 'Mach Number', plural: 'Mach', symbol: 'Ma', factor: 340.294, note: 'The speed of sound in the ISA standard atmosphere at sea level (15 °C).' },
+    ],
+  },
+  {
+    id: 'pressure',
+    name: 'Pressure',
+    baseUnit: 'pascal',
+    referenceValues: commonReferenceValues,
+    units: [
+      { id: 'pascal', name: 'Pascal', plural: 'Pascals', symbol: 'Pa', factor: 1 },
+      { id: 'hectopascal', name: 'Hectopascal', plural: 'Hectopascals', symbol: 'hPa', factor: 100 },
+      { id: 'kilopascal', name: 'Kilopascal', plural: 'Kilopascals', symbol: 'kPa', factor: 1e3 },
+      { id: 'megapascal', name: 'Megapascal', plural: 'Megapascals', symbol: 'MPa', factor: 1e6 },
+      { id: 'millibar', name: 'Millibar', plural: 'Millibars', symbol: 'mbar', factor: 100, aliases: ['mb'] },
+      { id: 'bar', name: 'Bar', plural: 'Bars', symbol: 'bar', factor: 1e5 },
+      { id: 'atmosphere', name: 'Atmosphere', plural: 'Atmospheres', symbol: 'atm', factor: 101_325 },
+      { id: 'psi', name: 'Pound per Square Inch', plural: 'Pounds per Square Inch', symbol: 'psi', factor: 6894.757293168361, aliases: ['lbf/in2'] },
+      { id: 'torr', name: 'Torr', plural: 'Torr', symbol: 'Torr', factor: 101_325 / 760 },
+      { id: 'mmhg', name: 'Millimeter of Mercury', plural: 'Millimeters of Mercury', symbol: 'mmHg', factor: 133.322387415 },
+      { id: 'inhg', name: 'Inch of Mercury', plural: 'Inches of Mercury', symbol: 'inHg', factor: 3386.389 },
+    ],
+  },
+  {
+    id: 'energy',
+    name: 'Energy',
+    baseUnit: 'joule',
+    referenceValues: commonReferenceValues,
+    units: [
+      { id: 'joule', name: 'Joule', plural: 'Joules', symbol: 'J', factor: 1 },
+      { id: 'kilojoule', name: 'Kilojoule', plural: 'Kilojoules', symbol: 'kJ', factor: 1e3 },
+      { id: 'megajoule', name: 'Megajoule', plural: 'Megajoules', symbol: 'MJ', factor: 1e6 },
+      { id: 'calorie', name: 'Calorie', plural: 'Calories', symbol: 'cal', factor: 4.184, note: 'The thermochemical calorie.' },
+      { id: 'kilocalorie', name: 'Kilocalorie', plural: 'Kilocalories', symbol: 'kcal', factor: 4184, aliases: ['Cal', 'food calorie', 'food calories'] },
+      { id: 'watt-hour', name: 'Watt-Hour', plural: 'Watt-Hours', symbol: 'Wh', factor: 3600 },
+      { id: 'kilowatt-hour', name: 'Kilowatt-Hour', plural: 'Kilowatt-Hours', symbol: 'kWh', factor: 3.6e6 },
+      { id: 'btu', name: 'British Thermal Unit', plural: 'British Thermal Units', symbol: 'BTU', factor: 1055.05585262, note: 'The International Table BTU.' },
+      { id: 'electronvolt', name: 'Electronvolt', plural: 'Electronvolts', symbol: 'eV', factor: 1.602176634e-19 },
+      { id: 'foot-pound', name: 'Foot-Pound', plural: 'Foot-Pounds', symbol: 'ft·lbf', factor: 1.3558179483314004, aliases: ['ft-lb', 'ft lbf', 'ftlb'] },
+      { id: 'erg', name: 'Erg', plural: 'Ergs', symbol: 'erg', factor: 1e-7 },
+    ],
+  },
+  {
+    id: 'power',
+    name: 'Power',
+    baseUnit: 'watt',
+    referenceValues: commonReferenceValues,
+    units: [
+      { id: 'watt', name: 'Watt', plural: 'Watts', symbol: 'W', factor: 1 },
+      { id: 'kilowatt', name: 'Kilowatt', plural: 'Kilowatts', symbol: 'kW', factor: 1e3 },
+      { id: 'megawatt', name: 'Megawatt', plural: 'Megawatts', symbol: 'MW', factor: 1e6 },
+      { id: 'horsepower', name: 'Horsepower', plural: 'Horsepower', symbol: 'hp', factor: 745.6998715822702, note: 'Mechanical (imperial) horsepower of 550 ft·lbf/s.' },
+      { id: 'metric-horsepower', name: 'Metric Horsepower', plural: 'Metric Horsepower', symbol: 'PS', factor: 735.49875, aliases: ['cv'] },
+      { id: 'btu-per-hour', name: 'BTU per Hour', plural: 'BTU per Hour', symbol: 'BTU/h', factor: 1055.05585262 / 3600, aliases: ['btuh'] },
+      { id: 'erg-per-second', name: 'Erg per Second', plural: 'Ergs per Second', symbol: 'erg/s', factor: 1e-7 },
+      { id: 'foot-pound-per-second', name: 'Foot-Pound per Second', plural: 'Foot-Pounds per Second', symbol: 'ft·lbf/s', factor: 1.3558179483314004, aliases: ['ft-lb/s'] },
+    ],
+  },
+  {
+    id: 'time',
+    name: 'Time',
+    baseUnit: 'second',
+    referenceValues: [1, 2, 5, 10, 12, 24, 30, 60, 100],
+    units: [
+      { id: 'millisecond', name: 'Millisecond', plural: 'Milliseconds', symbol: 'ms', factor: 1e-3 },
+      { id: 'second', name: 'Second', plural: 'Seconds', symbol: 's', factor: 1, aliases: ['sec', 'secs'] },
+      { id: 'minute', name: 'Minute', plural: 'Minutes', symbol: 'min', factor: 60, aliases: ['mins'] },
+      { id: 'hour', name: 'Hour', plural: 'Hours', symbol: 'h', factor: 3600, aliases: ['hr', 'hrs'] },
+      { id: 'day', name: 'Day', plural: 'Days', symbol: 'd', factor: 86_400 },
+      { id: 'week', name: 'Week', plural: 'Weeks', symbol: 'wk', factor: 604_800 },
+      { id: 'month', name: 'Month', plural: 'Months', symbol: 'mo', factor: 2_629_746, note: 'An average Gregorian month: 365.2425 ÷ 12 days.' },
+      { id: 'year', name: 'Year', plural: 'Years', symbol: 'yr', factor: 31_556_952, note: 'An average Gregorian year of 365.2425 days.' },
+    ],
+  },
+  {
+    id: 'temperature',
+    name: 'Temperature',
+    baseUnit: 'kelvin',
+    referenceValues: [-40, -20, -10, 0, 10, 20, 25, 30, 37, 50, 100],
+    units: [
+      { id: 'celsius', name: 'Degree Celsius', plural: 'Degrees Celsius', symbol: '°C', factor: 1, offset: 273.15, aliases: ['C', 'celsius', 'centigrade', 'degC'] },
+      { id: 'fahrenheit', name: 'Degree Fahrenheit', plural: 'Degrees Fahrenheit', symbol: '°F', factor: 5 / 9, offset: 459.67, aliases: ['F', 'fahrenheit', 'degF'] },
+      { id: 'kelvin', name: 'Kelvin', plural: 'Kelvins', symbol: 'K', factor: 1, aliases: ['kelvin'], referenceValues: [0, 100, 200, 233.15, 253.15, 273.15, 283.15, 293.15, 298.15, 310.15, 373.15] },
+      { id: 'rankine', name: 'Degree Rankine', plural: 'Degrees Rankine', symbol: '°R', factor: 5 / 9, aliases: ['R', 'rankine', 'degR'], referenceValues: [0, 100, 200, 300, 419.67, 459.67, 491.67, 527.67, 559.67, 671.67] },
+    ],
+  },
+  {
+    id: 'fuel-economy',
+    name: 'Fuel Economy',
+    baseUnit: 'liter-per-100-kilometers',
+    referenceValues: [5, 8, 10, 15, 20, 25, 30, 40, 50],
+    units: [
+      { id: 'liter-per-100-kilometers', name: 'Liter per 100 Kilometers', plural: 'Liters per 100 Kilometers', symbol: 'L/100 km', factor: 1, aliases: ['l/100km', 'L/100km', 'lp100km'] },
+      { id: 'kilometer-per-liter', name: 'Kilometer per Liter', plural: 'Kilometers per Liter', symbol: 'km/L', factor: 100, reciprocal: true, aliases: ['kmpl', 'km/l'] },
+      { id: 'mile-per-us-gallon', name: 'Mile per US Gallon', plural: 'Miles per US Gallon', symbol: 'mpg (US)', factor: 235.2145833333333, reciprocal: true, aliases: ['mpg', 'us mpg', 'mpg us'] },
+      { id: 'mile-per-imperial-gallon', name: 'Mile per Imperial Gallon', plural: 'Miles per Imperial Gallon', symbol: 'mpg (UK)', factor: 282.4809363318222, reciprocal: true, aliases: ['uk mpg', 'mpg uk', 'imperial mpg'] },
+      { id: 'us-gallon-per-100-miles', name: 'US Gallon per 100 Miles', plural: 'US Gallons per 100 Miles', symbol: 'gal/100 mi', factor: 2.352145833333333, aliases: ['gal/100mi'] },
+    ],
+  },
+  {
+    id: 'data-storage',
+    name: 'Data Storage',
+    baseUnit: 'byte',
+    referenceValues: [1, 2, 4, 8, 16, 32, 64, 128, 256, 512, 1024],
+    units: [
+      { id: 'bit', name: 'Bit', plural: 'Bits', symbol: 'bit', factor: 1 / 8, aliases: ['bits', 'b'] },
+      { id: 'byte', name: 'Byte', plural: 'Bytes', symbol: 'B', factor: 1, aliases: ['bytes'] },
+      { id: 'kilobit', name: 'Kilobit', plural: 'Kilobits', symbol: 'kbit', factor: 125, aliases: ['kb'] },
+      { id: 'megabit', name: 'Megabit', plural: 'Megabits', symbol: 'Mbit', factor: 125e3, aliases: ['Mb'] },
+      { id: 'gigabit', name: 'Gigabit', plural: 'Gigabits', symbol: 'Gbit', factor: 125e6, aliases: ['Gb'] },
+      { id: 'kilobyte', name: 'Kilobyte', plural: 'Kilobytes', symbol: 'kB', factor: 1e3, aliases: ['KB'] },
+      { id: 'megabyte', name: 'Megabyte', plural: 'Megabytes', symbol: 'MB', factor: 1e6 },
+      { id: 'gigabyte', name: 'Gigabyte', plural: 'Gigabytes', symbol: 'GB', factor: 1e9 },
+      { id: 'terabyte', name: 'Terabyte', plural: 'Terabytes', symbol: 'TB', factor: 1e12 },
+      { id: 'petabyte', name: 'Petabyte', plural: 'Petabytes', symbol: 'PB', factor: 1e15 },
+      { id: 'kibibit', name: 'Kibibit', plural: 'Kibibits', symbol: 'Kibit', factor: 128 },
+      { id: 'mebibit', name: 'Mebibit', plural: 'Mebibits', symbol: 'Mibit', factor: 131_072 },
+      { id: 'kibibyte', name: 'Kibibyte', plural: 'Kibibytes', symbol: 'KiB', factor: 1024 },
+      { id: 'mebibyte', name: 'Mebibyte', plural: 'Mebibytes', symbol: 'MiB', factor: 1024 ** 2 },
+      { id: 'gibibyte', name: 'Gibibyte', plural: 'Gibibytes', symbol: 'GiB', factor: 1024 ** 3 },
+      { id: 'tebibyte', name: 'Tebibyte', plural: 'Tebibytes', symbol: 'TiB', factor: 1024 ** 4 },
+      { id: 'pebibyte', name: 'Pebibyte', plural: 'Pebibytes', symbol: 'PiB', factor: 1024 ** 5 },
+    ],
+  },
+  {
+    id: 'data-rate',
+    name: 'Data Transfer Rate',
+    baseUnit: 'bit-per-second',
+    referenceValues: [1, 5, 10, 25, 50, 100, 200, 500, 1000],
+    units: [
+      { id: 'bit-per-second', name: 'Bit per Second', plural: 'Bits per Second', symbol: 'bit/s', factor: 1, aliases: ['bps'] },
+      { id: 'kilobit-per-second', name: 'Kilobit per Second', plural: 'Kilobits per Second', symbol: 'kbit/s', factor: 1e3, aliases: ['kbps', 'kb/s'] },
+      { id: 'megabit-per-second', name: 'Megabit per Second', plural: 'Megabits per Second', symbol: 'Mbit/s', factor: 1e6, aliases: ['Mbps', 'Mb/s'] },
+      { id: 'gigabit-per-second', name: 'Gigabit per Second', plural: 'Gigabits per Second', symbol: 'Gbit/s', factor: 1e9, aliases: ['Gbps', 'Gb/s'] },
+      { id: 'byte-per-second', name: 'Byte per Second', plural: 'Bytes per Second', symbol: 'B/s', factor: 8 },
+      { id: 'kilobyte-per-second', name: 'Kilobyte per Second', plural: 'Kilobytes per Second', symbol: 'kB/s', factor: 8e3, aliases: ['KB/s', 'kBps'] },
+      { id: 'megabyte-per-second', name: 'Megabyte per Second', plural: 'Megabytes per Second', symbol: 'MB/s', factor: 8e6, aliases: ['MBps'] },
+      { id: 'gigabyte-per-second', name: 'Gigabyte per Second', plural: 'Gigabytes per Second', symbol: 'GB/s', factor: 8e9, aliases: ['GBps'] },
+      { id: 'kibibyte-per-second', name: 'Kibibyte per Second', plural: 'Kibibytes per Second', symbol: 'KiB/s', factor: 8 * 1024 },
+      { id: 'mebibyte-per-second', name: 'Mebibyte per Second', plural: 'Mebibytes per Second', symbol: 'MiB/s', factor: 8 * 1024 ** 2 },
+      { id: 'gibibyte-per-second', name: 'Gibibyte per Second', plural: 'Gibibytes per Second', symbol: 'GiB/s', factor: 8 * 1024 ** 3 },
+    ],
+  },
+  {
+    id: 'angle',
+    name: 'Angle',
+    baseUnit: 'radian',
+    referenceValues: [0, 1, 15, 30, 45, 60, 90, 180, 270, 360],
+    units: [
+      { id: 'radian', name: 'Radian', plural: 'Radians', symbol: 'rad', factor: 1 },
+      { id: 'milliradian', name: 'Milliradian', plural: 'Milliradians', symbol: 'mrad', factor: 1e-3, aliases: ['mil'] },
+      { id: 'degree', name: 'Degree', plural: 'Degrees', symbol: '°', factor: Math.PI / 180, aliases: ['deg'] },
+      { id: 'arcminute', name: 'Arcminute', plural: 'Arcminutes', symbol: '′', factor: Math.PI / 10_800, aliases: ['arcmin'] },
+      { id: 'arcsecond', name: 'Arcsecond', plural: 'Arcseconds', symbol: '″', factor: Math.PI / 648_000, aliases: ['arcsec'] },
+      { id: 'gradian', name: 'Gradian', plural: 'Gradians', symbol: 'grad', factor: Math.PI / 200, aliases: ['gon'] },
+      { id: 'turn', name: 'Turn', plural: 'Turns', symbol: 'tr', factor: 2 * Math.PI, aliases: ['revolution', 'revolutions', 'rev'] },
+    ],
+  },
+  {
+    id: 'frequency',
+    name: 'Frequency',
+    baseUnit: 'hertz',
+    referenceValues: [1, 10, 50, 60, 100, 440, 1000, 2400, 5000],
+    units: [
+      { id: 'hertz', name: 'Hertz', plural: 'Hertz', symbol: 'Hz', factor: 1 },
+      { id: 'kilohertz', name: 'Kilohertz', plural: 'Kilohertz', symbol: 'kHz', factor: 1e3 },
+      { id: 'megahertz', name: 'Megahertz', plural: 'Megahertz', symbol: 'MHz', factor: 1e6 },
+      { id: 'gigahertz', name: 'Gigahertz', plural: 'Gigahertz', symbol: 'GHz', factor: 1e9 },
+      { id: 'terahertz', name: 'Terahertz', plural: 'Terahertz', symbol: 'THz', factor: 1e12 },
+      { id: 'revolution-per-minute', name: 'Revolution per Minute', plural: 'Revolutions per Minute', symbol: 'rpm', factor: 1 / 60, aliases: ['RPM', 'r/min'] },
+      { id: 'radian-per-second', name: 'Radian per Second', plural: 'Radians per Second', symbol: 'rad/s', factor: 1 / (2 * Math.PI), note: 'Angular frequency: one cycle per second is 2π radians per second.' },
+    ],
+  },
+];
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { convertUnits, describeConversion, formatQuantity } from './index';
+
+describe('convertUnits', () => {
+  it('converts linear units without floating-point residue', () => {
+    assert.equal(convertUnits(1, 'foot', 'meter'), 0.3048);
+    assert.equal(convertUnits(1000, 'meter', 'kilometer'), 1);
+  });
+
+  it('applies the offsets of temperature scales', () => {
+    assert.equal(convertUnits(32, 'fahrenheit', 'celsius'), 0);
+    assert.equal(convertUnits(100, 'celsius', 'fahrenheit'), 212);
+    assert.equal(convertUnits(0, 'celsius', 'kelvin'), 273.15);
+    assert.equal(convertUnits(-40, 'celsius', 'fahrenheit'), -40);
+  });
+
+  it('inverts between reciprocal and direct fuel economy units', () => {
+    assert.equal(convertUnits(10, 'liter-per-100-kilometers', 'kilometer-per-liter'), 10);
+    assert.equal(convertUnits(30, 'mile-per-us-gallon', 'liter-per-100-kilometers').toFixed(4), '7.8405');
+    assert.equal(convertUnits(convertUnits(30, 'mile-per-us-gallon', 'liter-per-100-kilometers'), 'liter-per-100-kilometers', 'mile-per-us-gallon'), 30);
+  });
+
+  it('throws for unknown units and units of different dimensions', () => {
+    assert.throws(() => convertUnits(1, 'foot', 'zork'), /Unknown unit "zork"/);
+    assert.throws(() => convertUnits(1, 'foot', 'kilogram'), /Cannot convert Feet to Kilograms/);
+  });
+});
+
+describe('describeConversion', () => {
+  it('names the shape of each kind of conversion', () => {
+    assert.deepEqual(describeConversion('foot', 'meter'), { kind: 'linear', factor: 0.3048 });
+    assert.deepEqual(describeConversion('celsius', 'fahrenheit'), { kind: 'affine', factor: 1.8, offset: 32 });
+    assert.deepEqual(describeConversion('mile-per-us-gallon', 'liter-per-100-kilometers'), { kind: 'inverse', constant: 235.214583333 });
+  });
+
+  it('treats two reciprocal units as proportional', () => {
+    assert.equal(describeConversion('mile-per-us-gallon', 'kilometer-per-liter').kind, 'linear');
+  });
+});
+
+describe('formatQuantity', () => {
+  it('groups ordinary magnitudes and uses scientific notation for extreme ones', () => {
+    assert.equal(formatQuantity(1234567.891), '1,234,567.9');
+    assert.equal(formatQuantity(1e-9), '1 × 10⁻⁹');
+    assert.equal(formatQuantity(2.5e20), '2.5 × 10²⁰');
+    assert.equal(formatQuantity(Infinity), '—');
+  });
+});
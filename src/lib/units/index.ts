@@ -0,0 +1,126 @@
+import { dimensions } from './dimensions';
+import type { DimensionDefinition, DimensionId, UnitDefinition } from './types';
+
+export * from './types';
+export { dimensions };
+
+const unitIndex = new Map<string, { unit: UnitDefinition; dimension: DimensionDefinition }>(
+  dimensions.flatMap((dimension) => dimension.units.map((unit) => [unit.id, { unit, dimension }] as const))
+);
+
+export function getDimension(id: DimensionId): DimensionDefinition | undefined {
+  return dimensions.find((dimension) => dimension.id === id);
+}
+
+export function getUnit(id: string): UnitDefinition | undefined {
+  return unitIndex.get(id)?.unit;
+}
+
+/** The dimension a unit belongs to; unit ids are unique across dimensions. */
+export function getUnitDimension(id: string): DimensionDefinition | undefined {
+  return unitIndex.get(id)?.dimension;
+}
+
+function requireUnit(id: string): UnitDefinition {
+  const unit = getUnit(id);
+  if (!unit) {
+    throw new Error(`Unknown unit "${id}"`);
+  }
+  return unit;
+}
+
+/** Expresses a value of `unit` in its dimension's base unit. */
+export function toBaseUnit(value: number, unit: UnitDefinition): number {
+  return unit.reciprocal ? unit.factor / value : (value + (unit.offset ?? 0)) * unit.factor;
+}
+
+/** Expresses a value in the dimension's base unit as `unit`. */
+export function fromBaseUnit(value: number, unit: UnitDefinition): number {
+  return unit.reciprocal ? unit.factor / value : value / unit.factor - (unit.offset ?? 0);
+}
+
+function requirePair(fromId: string, toId: string): [UnitDefinition, UnitDefinition] {
+  const from = requireUnit(fromId);
+  const to = requireUnit(toId);
+  if (getUnitDimension(fromId) !== getUnitDimension(toId)) {
+    throw new Error(`Cannot convert ${from.plural} to ${to.plural}`);
+  }
+  return [from, to];
+}
+
+// Rounds away the floating-point residue of going through the base unit (32.000000000000057).
+const tidy = (value: number) => Number(value.toPrecision(12));
+
+/**
+ * Converts between two units of the same dimension. Throws for unknown units or units of
+ * different dimensions, which are programming errors rather than bad input.
+ */
+export function convertUnits(value: number, fromId: string, toId: string): number {
+  const [from, to] = requirePair(fromId, toId);
+  if (fromId === toId) {
+    return value;
+  }
+  const result = fromBaseUnit(toBaseUnit(value, from), to);
+  if (!Number.isFinite(result) || (!from.offset && !to.offset)) {
+    return tidy(result);
+  }
+  // With offsets the residue is as large as the offsets, not the result: 32 °F goes through
+  // 273.15 K and comes back as 5.7 × 10⁻¹⁴ °C. Keep 12 digits of the largest term instead.
+  const scale = Math.max(
+    Math.abs(result),
+    Math.abs((value * from.factor) / to.factor),
+    Math.abs(((from.offset ?? 0) * from.factor) / to.factor),
+    Math.abs(to.offset ?? 0)
+  );
+  const decimals = Math.min(100, Math.max(0, 11 - Math.floor(Math.log10(scale))));
+  // Adding 0 turns the −0 that rounding can leave into 0.
+  return Number(result.toFixed(decimals)) + 0;
+}
+
+/** How many `to` units one `from` unit is; only meaningful for linear conversions. */
+export function conversionFactor(fromId: string, toId: string): number {
+  return convertUnits(1, fromId, toId);
+}
+
+/**
+ * The shape of a conversion: `to = from × factor`, `to = from × factor + offset` between
+ * temperature scales, or `to = constant ÷ from` between a reciprocal unit and a direct one.
+ */
+export type ConversionRelation =
+  | { kind: 'linear'; factor: number }
+  | { kind: 'affine'; factor: number; offset: number }
+  | { kind: 'inverse'; constant: number };
+
+export function describeConversion(fromId: string, toId: string): ConversionRelation {
+  const [from, to] = requirePair(fromId, toId);
+  // Unrounded, so the factor keeps its digits after the offset is subtracted.
+  const convert = (value: number) => fromBaseUnit(toBaseUnit(value, from), to);
+  if (Boolean(from.reciprocal) !== Boolean(to.reciprocal)) {
+    return { kind: 'inverse', constant: tidy(convert(1)) };
+  }
+  // Two reciprocal units are proportional to each other, so only scales with offsets are affine.
+  const zero = from.reciprocal ? 0 : convert(0);
+  const offset = tidy(zero);
+  const factor = tidy(convert(1) - zero);
+  return offset === 0 ? { kind: 'linear', factor } : { kind: 'affine', factor, offset };
+}
+
+const superscripts: Record<string, string> = {
+  '-': '⁻', '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+};
+
+/**
+ * Formats a converted quantity to `significantDigits`, switching to scientific notation for
+ * magnitudes that grouped digits would make unreadable.
+ */
+export function formatQuantity(value: number, significantDigits = 8): string {
+  if (!Number.isFinite(value)) {
+    return '—';
+  }
+  const magnitude = Math.abs(value);
+  if (magnitude !== 0 && (magnitude < 1e-6 || magnitude >= 1e15)) {
+    const [mantissa, exponent] = value.toExponential(Math.min(significantDigits, 21) - 1).split('e');
+    return `${Number(mantissa)} × 10${String(Number(exponent)).replace(/[-\d]/g, (char) => superscripts[char])}`;
+  }
+  return Number(value.toPrecision(significantDigits)).toLocaleString('en-US', { maximumFractionDigits: 20 });
+}
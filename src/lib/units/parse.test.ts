@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { conversionPairSlug, findUnits, parseConversionPair, parseConversionQuery } from './parse';
+
+const ids = (text: string) => findUnits(text).map((unit) => unit.id);
+
+describe('findUnits', () => {
+  it('uses case only where it tells units apart', () => {
+    assert.deepEqual(ids('MB'), ['megabyte']);
+    assert.deepEqual(ids('Mb'), ['megabit']);
+    assert.deepEqual(ids('mb'), ['millibar']);
+    assert.deepEqual(ids('gb'), ['gigabit', 'gigabyte']);
+  });
+
+  it('reads degree words before a temperature unit', () => {
+    assert.deepEqual(ids('degrees F'), ['fahrenheit']);
+  });
+});
+
+describe('parseConversionQuery', () => {
+  it('adds up several terms and tells the separator "in" from inches', () => {
+    const result = parseConversionQuery('5 ft 11 in in cm');
+    assert.ok(result.success);
+    assert.deepEqual(result.terms.map((term) => [term.value, term.unit.id]), [[5, 'foot'], [11, 'inch']]);
+    assert.equal(result.from.id, 'foot');
+    assert.equal(result.to.id, 'centimeter');
+    assert.equal(result.result, 180.34);
+  });
+
+  it('reads symbols, thousands separators and other separators', () => {
+    const temperature = parseConversionQuery('72°F to C');
+    assert.ok(temperature.success);
+    assert.equal(temperature.result.toFixed(2), '22.22');
+    const distance = parseConversionQuery('1,000 m -> km');
+    assert.ok(distance.success);
+    assert.equal(distance.result, 1);
+  });
+
+  it('asks about capitalization when a unit stays ambiguous', () => {
+    assert.deepEqual(parseConversionQuery('3 gb to MB'), {
+      success: false,
+      message: '"gb" could mean Gigabits or Gigabytes; check the capitalization.',
+    });
+  });
+
+  it('reads lowercase "mb" as millibars', () => {
+    const pressure = parseConversionQuery('5 mb to atm');
+    assert.ok(pressure.success);
+    assert.equal(pressure.from.id, 'millibar');
+    assert.deepEqual(parseConversionQuery('5 mb in MB'), { success: false, message: "Can't convert Millibars to Megabytes." });
+  });
+
+  it('explains what is missing or wrong', () => {
+    const message = (query: string) => {
+      const result = parseConversionQuery(query);
+      return result.success ? null : result.message;
+    };
+    assert.equal(message('5 ft'), 'Say what to convert to, e.g. "5 ft 11 in to cm".');
+    assert.equal(message('ft to cm'), 'Start with a number, e.g. "5 ft 11 in to cm".');
+    assert.equal(message('5 to cm'), 'Add a unit after 5.');
+    assert.equal(message('5 zorks to cm'), 'Unknown unit "zorks".');
+    assert.equal(message('20 C 5 F to K'), "Temperature values can't be added together; enter a single value.");
+  });
+});
+
+describe('conversion pair slugs', () => {
+  it('round-trips unit ids that contain hyphens', () => {
+    const pair = parseConversionPair(conversionPairSlug('mile-per-us-gallon', 'liter-per-100-kilometers'));
+    assert.deepEqual([pair?.from.id, pair?.to.id], ['mile-per-us-gallon', 'liter-per-100-kilometers']);
+  });
+
+  it('rejects the same unit twice and units of different dimensions', () => {
+    assert.equal(parseConversionPair('foot-to-foot'), undefined);
+    assert.equal(parseConversionPair('foot-to-kilogram'), undefined);
+  });
+});
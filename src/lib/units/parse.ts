@@ -0,0 +1,182 @@
+import { dimensions } from './dimensions';
+import { convertUnits, getUnit, getUnitDimension } from './index';
+import type { DimensionDefinition, UnitDefinition } from './types';
+
+// Every way a unit can be written: id, symbol, names and aliases, plus the id with spaces.
+const unitKeys = dimensions.flatMap((dimension) =>
+  dimension.units.flatMap((unit) =>
+    [unit.id, unit.id.replace(/-/g, ' '), unit.symbol, unit.name, unit.plural, ...(unit.aliases ?? [])].map((key) => ({ key, unit }))
+  )
+);
+
+function indexUnits(normalize: (key: string) => string): Map<string, UnitDefinition[]> {
+  const index = new Map<string, UnitDefinition[]>();
+  for (const { key, unit } of unitKeys) {
+    const units = index.get(normalize(key)) ?? [];
+    if (!units.includes(unit)) {
+      index.set(normalize(key), [...units, unit]);
+    }
+  }
+  return index;
+}
+
+const exactIndex = indexUnits((key) => key);
+const caseInsensitiveIndex = indexUnits((key) => key.toLowerCase());
+
+function normalizeUnitText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').replace(/°\s+/, '°').replace(/\.$/, '');
+}
+
+/**
+ * Units a piece of text could name. Case only matters when it tells units apart: "MB" is a
+ * megabyte and "Mb" a megabit, but "mb", which matches neither exactly, is millibar because
+ * that alias is lowercase; "gb" matches both gigabits and gigabytes.
+ */
+export function findUnits(text: string): UnitDefinition[] {
+  const normalized = normalizeUnitText(text);
+  const found = exactIndex.get(normalized) ?? caseInsensitiveIndex.get(normalized.toLowerCase());
+  if (found) {
+    return found;
+  }
+  // "72 degrees F", "deg C"
+  const withoutDegrees = normalized.replace(/^(degrees?|deg)\s+/i, '');
+  return withoutDegrees !== normalized ? findUnits(withoutDegrees) : [];
+}
+
+/** Path segment of a unit pair, as used by the /convert route: `foot-to-centimeter`. */
+export function conversionPairSlug(fromId: string, toId: string): string {
+  return `${fromId}-to-${toId}`;
+}
+
+/** The units in a `<from>-to-<to>` segment, when both exist, differ and measure the same dimension. */
+export function parseConversionPair(slug: string): { from: UnitDefinition; to: UnitDefinition } | undefined {
+  // Unit ids contain hyphens, so try every "-to-" until both halves are ids.
+  for (let index = slug.indexOf('-to-'); index !== -1; index = slug.indexOf('-to-', index + 1)) {
+    const from = getUnit(slug.slice(0, index));
+    const to = getUnit(slug.slice(index + 4));
+    if (from && to && from !== to && getUnitDimension(from.id) === getUnitDimension(to.id)) {
+      return { from, to };
+    }
+  }
+  return undefined;
+}
+
+export interface QuantityTerm {
+  value: number;
+  unit: UnitDefinition;
+}
+
+export type ConversionQueryResult =
+  | {
+      success: true;
+      /** The quantity as typed, one term per number: "5 ft 11 in" has two. */
+      terms: QuantityTerm[];
+      /** The quantity in the first term's unit. */
+      value: number;
+      from: UnitDefinition;
+      to: UnitDefinition;
+      result: number;
+    }
+  | { success: false; message: string };
+
+const numberPattern = /^[-+−]?(?:\d[\d,]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?/i;
+// Words need spaces around them; lookarounds let "11 in in cm" match both "in"s.
+const separatorPattern = /(?<=\s)(?:to|in|into|as)(?=\s)|=|->|→/gi;
+
+function parseNumber(text: string): number {
+  return Number(text.replace(/,/g, '').replace('−', '-'));
+}
+
+// Splits "5 ft 11 in" into number and unit text pairs. A new term starts where a number follows
+// whitespace or a prime, so units with digits in them ("mm2", "L/100 km") stay whole.
+function splitTerms(text: string): { value: number; unitText: string }[] | null {
+  const terms: { value: number; unitText: string }[] = [];
+  let rest = text.trim();
+  while (rest) {
+    const number = numberPattern.exec(rest);
+    if (!number) {
+      return null;
+    }
+    rest = rest.slice(number[0].length);
+    let end = 0;
+    while (end < rest.length && !(end > 0 && /[\s'"′″]/.test(rest[end - 1]) && numberPattern.test(rest.slice(end)))) {
+      end += 1;
+    }
+    terms.push({ value: parseNumber(number[0]), unitText: rest.slice(0, end).trim() });
+    rest = rest.slice(end).trim();
+  }
+  return terms.length > 0 ? terms : null;
+}
+
+const unitList = (units: UnitDefinition[]) => units.map((unit) => unit.plural).join(' or ');
+
+function resolveQuery(quantityText: string, targetText: string): ConversionQueryResult {
+  const terms = splitTerms(quantityText);
+  if (!terms) {
+    return { success: false, message: 'Start with a number, e.g. "5 ft 11 in to cm".' };
+  }
+  const missingUnit = terms.find((term) => !term.unitText);
+  if (missingUnit) {
+    return { success: false, message: `Add a unit after ${missingUnit.value}.` };
+  }
+  const termCandidates = terms.map((term) => ({ ...term, units: findUnits(term.unitText) }));
+  const unknown = termCandidates.find((term) => term.units.length === 0);
+  if (unknown) {
+    return { success: false, message: `Unknown unit "${unknown.unitText}".` };
+  }
+  const targetCandidates = findUnits(targetText);
+  if (targetCandidates.length === 0) {
+    return { success: false, message: `Unknown unit "${targetText.trim()}".` };
+  }
+
+  // Symbols such as ″ name units in more than one dimension; the one every part shares wins.
+  const inDimension = (units: UnitDefinition[], dimension: DimensionDefinition) =>
+    units.filter((unit) => getUnitDimension(unit.id) === dimension);
+  const dimension = targetCandidates
+    .map((unit) => getUnitDimension(unit.id)!)
+    .find((candidate) => termCandidates.every((term) => inDimension(term.units, candidate).length > 0));
+  if (!dimension) {
+    return {
+      success: false,
+      message: `Can't convert ${unitList(termCandidates[0].units)} to ${unitList(targetCandidates)}.`,
+    };
+  }
+
+  const ambiguous = [...termCandidates.map((term) => ({ text: term.unitText, units: term.units })), { text: targetText.trim(), units: targetCandidates }]
+    .map(({ text, units }) => ({ text, units: inDimension(units, dimension) }))
+    .find(({ units }) => units.length > 1);
+  if (ambiguous) {
+    return { success: false, message: `"${ambiguous.text}" could mean ${unitList(ambiguous.units)}; check the capitalization.` };
+  }
+
+  const resolved = termCandidates.map((term) => ({ value: term.value, unit: inDimension(term.units, dimension)[0] }));
+  const to = inDimension(targetCandidates, dimension)[0];
+  const from = resolved[0].unit;
+  // Adding temperatures or fuel economies has no meaning, so those take a single term.
+  if (resolved.length > 1 && resolved.some((term) => term.unit.offset || term.unit.reciprocal)) {
+    return { success: false, message: `${dimension.name} values can't be added together; enter a single value.` };
+  }
+  const value = resolved.reduce((sum, term) => sum + convertUnits(term.value, term.unit.id, from.id), 0);
+  return { success: true, terms: resolved, value, from, to, result: convertUnits(value, from.id, to.id) };
+}
+
+/**
+ * Reads a free-text conversion such as "5 ft 11 in in cm", "72°F to C" or "3.2 GB in MiB": one
+ * or more number-unit terms, a separator (to, in, into, as, =, ->) and a target unit.
+ */
+export function parseConversionQuery(query: string): ConversionQueryResult {
+  // "in" is both a separator and inches, so try the splits from the right until one reads.
+  const separators = [...query.matchAll(separatorPattern)].reverse();
+  if (separators.length === 0) {
+    return { success: false, message: 'Say what to convert to, e.g. "5 ft 11 in to cm".' };
+  }
+  let firstFailure: ConversionQueryResult | undefined;
+  for (const separator of separators) {
+    const result = resolveQuery(query.slice(0, separator.index), query.slice(separator.index + separator[0].length));
+    if (result.success) {
+      return result;
+    }
+    firstFailure ??= result;
+  }
+  return firstFailure!;
+}
@@ -0,0 +1,51 @@
+export type DimensionId =
+  | 'length'
+  | 'area'
+  | 'volume'
+  | 'mass'
+  | 'speed'
+  | 'pressure'
+  | 'energy'
+  | 'power'
+  | 'time'
+  | 'temperature'
+  | 'fuel-economy'
+  | 'data-storage'
+  | 'data-rate'
+  | 'angle'
+  | 'frequency';
+
+export interface UnitDefinition {
+  /** Stable identifier, unique across every dimension (e.g. `us-gallon`). */
+  id: string;
+  /** Singular display name, e.g. "Foot". */
+  name: string;
+  /** Plural display name, e.g. "Feet". */
+  plural: string;
+  symbol: string;
+  /**
+   * How many of the dimension's base unit one of this unit is. For reciprocal units it is the
+   * base-unit value that one of this unit corresponds to.
+   */
+  factor: number;
+  /** Added before scaling, for scales whose zero is not the base unit's zero (°C, °F). */
+  offset?: number;
+  /** The unit measures the inverse of the base unit (distance per fuel against fuel per distance): base = factor ÷ value. */
+  reciprocal?: boolean;
+  /** Other spellings and abbreviations people type for this unit. */
+  aliases?: string[];
+  /** Where the factor comes from, shown beside the formula. */
+  note?: string;
+  /** Reference table values when this is the "from" unit, for scales the dimension's list does not suit (K cannot go below 0). */
+  referenceValues?: number[];
+}
+
+export interface DimensionDefinition {
+  id: DimensionId;
+  name: string;
+  /** Id of the unit with factor 1. */
+  baseUnit: string;
+  units: UnitDefinition[];
+  /** Values of the "from" unit listed in the reference table unless a converter overrides them. */
+  referenceValues: number[];
+}
@@ -0,0 +1,127 @@
+/**
+ * Usage analytics stored in Firestore: the events the site records (see docs/backend.json)
+ * and the aggregations behind the /admin/analytics dashboard.
+ */
+import { addDays, format, startOfDay } from 'date-fns';
+
+import { calculators } from './calculators';
+import { categories } from './categories';
+
+export const usageCollections = {
+  pageViews: 'calculator_page_views',
+  searchQueries: 'search_queries',
+} as const;
+
+export interface PageViewEvent {
+  pageType: 'category' | 'calculator';
+  categoryId: string;
+  calculatorSlug?: string;
+  /** Host name of the page embedding the calculator; only set for embedded views. */
+  embedReferrer?: string;
+}
+
+export interface SearchQueryEvent {
+  queryText: string;
+  resultCount: number;
+}
+
+/** Stored events carry an ISO 8601 timestamp, which also sorts chronologically as a string. */
+export type UsageRecord<T> = T & { timestamp: string };
+
+export interface UsageEvents {
+  [usageCollections.pageViews]: PageViewEvent;
+  [usageCollections.searchQueries]: SearchQueryEvent;
+}
+
+/** Maps a pathname to the page view it represents, or null for pages we do not count. */
+export function pageViewForPath(pathname: string): PageViewEvent | null {
+  const [, section, categoryId, calculatorSlug, ...rest] = pathname.split('/');
+  if (section !== 'category' || !categoryId || rest.length > 0) {
+    return null;
+  }
+  return calculatorSlug
+    ? { pageType: 'calculator', categoryId, calculatorSlug }
+    : { pageType: 'category', categoryId };
+}
+
+export interface CountRow {
+  key: string;
+  label: string;
+  count: number;
+  href?: string;
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (key) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function topRows(counts: Map<string, number>, limit: number, describe: (key: string) => Omit<CountRow, 'key' | 'count'>): CountRow[] {
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([key, count]) => ({ key, count, ...describe(key) }));
+}
+
+/** Most viewed calculator pages, embedded views included. */
+export function topCalculators(views: PageViewEvent[], limit = 10): CountRow[] {
+  const counts = countBy(views, (view) => (view.pageType === 'calculator' ? `${view.categoryId}/${view.calculatorSlug}` : undefined));
+  return topRows(counts, limit, (key) => {
+    const [category, slug] = key.split('/');
+    const calculator = calculators.find((calc) => calc.category === category && calc.slug === slug);
+    return { label: calculator?.name ?? slug, href: `/category/${key}` };
+  });
+}
+
+/** Categories by views of the category page and of the calculators in it. */
+export function topCategories(views: PageViewEvent[], limit = 10): CountRow[] {
+  const counts = countBy(views, (view) => view.categoryId);
+  return topRows(counts, limit, (slug) => ({
+    label: categories.find((category) => category.slug === slug)?.name ?? slug,
+    href: `/category/${slug}`,
+  }));
+}
+
+/** Searches that found nothing, grouped case-insensitively: the calculators people miss. */
+export function zeroResultSearches(queries: SearchQueryEvent[], limit = 20): CountRow[] {
+  const counts = countBy(
+    queries.filter((query) => query.resultCount === 0),
+    (query) => query.queryText.trim().toLowerCase()
+  );
+  return topRows(counts, limit, (text) => ({ label: text, href: `/search?q=${encodeURIComponent(text)}` }));
+}
+
+/** Sites embedding calculators, by embedded views. */
+export function topEmbedReferrers(views: PageViewEvent[], limit = 10): CountRow[] {
+  const counts = countBy(views, (view) => view.embedReferrer);
+  return topRows(counts, limit, (host) => ({ label: host }));
+}
+
+/**
+ * Most recent events the dashboard reads from each collection for its top lists. Totals and
+ * trends come from count queries, which cost one read per thousand events, so only the lists
+ * are limited to this sample.
+ */
+export const usageSampleSize = 5000;
+
+export interface DailyUsage {
+  date: string;
+  pageViews: number;
+  searches: number;
+  zeroResultSearches: number;
+}
+
+/** Start and end of each day from `since` to today, so days without events still show on the chart. */
+export function usageDays(since: Date, today = new Date()): { date: string; start: Date; end: Date }[] {
+  const days = [];
+  for (let day = startOfDay(since); day <= today; day = addDays(day, 1)) {
+    days.push({ date: format(day, 'yyyy-MM-dd'), start: day, end: addDays(day, 1) });
+  }
+  return days;
+}
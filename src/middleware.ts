@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EMBED_QUERY_PARAM } from '@/lib/embed';
+
+/**
+ * Serves `/category/<slug>/<calcSlug>?embed=true` from the chrome-less /embed route,
+ * keeping the public embed URL unchanged for existing snippets.
+ */
+export function middleware(request: NextRequest) {
+  if (request.nextUrl.searchParams.get(EMBED_QUERY_PARAM) !== 'true') {
+    return NextResponse.next();
+  }
+
+  const url = request.nextUrl.clone();
+  url.pathname = url.pathname.replace(/^\/category\//, '/embed/');
+  return NextResponse.rewrite(url);
+}
+
+export const config = {
+  matcher: '/category/:slug/:calcSlug',
+};